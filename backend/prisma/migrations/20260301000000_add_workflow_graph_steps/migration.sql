@@ -0,0 +1,17 @@
+-- Graph workflows: wait / branch / goto steps with paused runs
+
+-- AlterEnum
+ALTER TYPE "WorkflowRunStatus" ADD VALUE IF NOT EXISTS 'WAITING';
+ALTER TYPE "WorkflowRunStatus" ADD VALUE IF NOT EXISTS 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN "steps" JSONB;
+
+-- AlterTable
+ALTER TABLE "workflow_runs" ADD COLUMN "currentStepId" TEXT,
+ADD COLUMN "context" JSONB,
+ADD COLUMN "resumeAt" TIMESTAMP(3),
+ADD COLUMN "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "workflow_runs_status_resumeAt_idx" ON "workflow_runs"("status", "resumeAt");
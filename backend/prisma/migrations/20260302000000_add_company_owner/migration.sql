@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN "ownerId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "companies_ownerId_idx" ON "companies"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "companies" ADD CONSTRAINT "companies_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,65 @@
+-- AlterTable
+ALTER TABLE "score_snapshots" ADD COLUMN "modelId" TEXT;
+
+-- CreateTable
+CREATE TABLE "scoring_models" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "config" JSONB NOT NULL,
+    "isPrimary" BOOLEAN NOT NULL DEFAULT false,
+    "lastComputedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scoring_models_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scoring_model_scores" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "modelId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "tier" "ScoreTier" NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scoring_model_scores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "score_snapshots_modelId_capturedAt_idx" ON "score_snapshots"("modelId", "capturedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scoring_models_organizationId_name_key" ON "scoring_models"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "scoring_models_organizationId_isPrimary_idx" ON "scoring_models"("organizationId", "isPrimary");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scoring_model_scores_modelId_accountId_key" ON "scoring_model_scores"("modelId", "accountId");
+
+-- CreateIndex
+CREATE INDEX "scoring_model_scores_modelId_score_idx" ON "scoring_model_scores"("modelId", "score" DESC);
+
+-- CreateIndex
+CREATE INDEX "scoring_model_scores_organizationId_idx" ON "scoring_model_scores"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "score_snapshots" ADD CONSTRAINT "score_snapshots_modelId_fkey" FOREIGN KEY ("modelId") REFERENCES "scoring_models"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scoring_models" ADD CONSTRAINT "scoring_models_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scoring_model_scores" ADD CONSTRAINT "scoring_model_scores_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scoring_model_scores" ADD CONSTRAINT "scoring_model_scores_modelId_fkey" FOREIGN KEY ("modelId") REFERENCES "scoring_models"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scoring_model_scores" ADD CONSTRAINT "scoring_model_scores_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "account_scores" ADD COLUMN "breakdown" JSONB;
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "contact_scores" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "contactId" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "tier" "ScoreTier" NOT NULL,
+    "factors" JSONB NOT NULL,
+    "signalCount" INTEGER NOT NULL DEFAULT 0,
+    "lastSignalAt" TIMESTAMP(3),
+    "trend" "ScoreTrend" NOT NULL DEFAULT 'STABLE',
+    "computedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contact_scores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "contact_score_snapshots" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "contactId" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "tier" "ScoreTier" NOT NULL,
+    "capturedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contact_score_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contact_scores_contactId_key" ON "contact_scores"("contactId");
+
+-- CreateIndex
+CREATE INDEX "contact_scores_organizationId_score_idx" ON "contact_scores"("organizationId", "score" DESC);
+
+-- CreateIndex
+CREATE INDEX "contact_scores_organizationId_tier_idx" ON "contact_scores"("organizationId", "tier");
+
+-- CreateIndex
+CREATE INDEX "contact_score_snapshots_contactId_capturedAt_idx" ON "contact_score_snapshots"("contactId", "capturedAt");
+
+-- CreateIndex
+CREATE INDEX "contact_score_snapshots_organizationId_capturedAt_idx" ON "contact_score_snapshots"("organizationId", "capturedAt");
+
+-- AddForeignKey
+ALTER TABLE "contact_scores" ADD CONSTRAINT "contact_scores_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contact_scores" ADD CONSTRAINT "contact_scores_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "contacts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contact_score_snapshots" ADD CONSTRAINT "contact_score_snapshots_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contact_score_snapshots" ADD CONSTRAINT "contact_score_snapshots_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "contacts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "sync_history" ALTER COLUMN "sourceId" DROP NOT NULL,
+ADD COLUMN     "organizationId" TEXT,
+ADD COLUMN     "provider" TEXT,
+ADD COLUMN     "details" JSONB;
+
+-- CreateIndex
+CREATE INDEX "sync_history_organizationId_provider_startedAt_idx" ON "sync_history"("organizationId", "provider", "startedAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "sync_history" ADD CONSTRAINT "sync_history_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
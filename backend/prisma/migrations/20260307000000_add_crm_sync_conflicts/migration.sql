@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "crm_sync_conflicts" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "objectType" TEXT NOT NULL,
+    "recordId" TEXT NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "localValue" JSONB,
+    "remoteValue" JSONB,
+    "policy" TEXT NOT NULL,
+    "winner" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "crm_sync_conflicts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "crm_sync_conflicts_organizationId_provider_createdAt_idx" ON "crm_sync_conflicts"("organizationId", "provider", "createdAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "crm_sync_conflicts" ADD CONSTRAINT "crm_sync_conflicts_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "sync_history" ADD COLUMN     "rowErrors" JSONB;
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "ImportRecordAction" AS ENUM ('CREATED', 'UPDATED');
+
+-- AlterTable
+ALTER TABLE "import_jobs" ADD COLUMN "batchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "import_batches" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT,
+    "source" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "createdCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revertedAt" TIMESTAMP(3),
+    "revertedById" TEXT,
+
+    CONSTRAINT "import_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "import_batch_records" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "action" "ImportRecordAction" NOT NULL,
+    "changes" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "import_batch_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "import_batches_organizationId_createdAt_idx" ON "import_batches"("organizationId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "import_batch_records_batchId_idx" ON "import_batch_records"("batchId");
+
+-- CreateIndex
+CREATE INDEX "import_batch_records_entityType_entityId_idx" ON "import_batch_records"("entityType", "entityId");
+
+-- AddForeignKey
+ALTER TABLE "import_batches" ADD CONSTRAINT "import_batches_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "import_batch_records" ADD CONSTRAINT "import_batch_records_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "import_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
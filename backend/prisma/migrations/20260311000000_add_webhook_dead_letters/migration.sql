@@ -0,0 +1,37 @@
+-- AlterEnum
+ALTER TYPE "WebhookSubscriptionStatus" ADD VALUE 'REPLAYING';
+
+-- CreateEnum
+CREATE TYPE "WebhookDeadLetterReason" AS ENUM ('DELIVERY_FAILED', 'REPLAY_DEFERRED');
+
+-- CreateEnum
+CREATE TYPE "WebhookDeadLetterStatus" AS ENUM ('PENDING', 'REDELIVERED');
+
+-- AlterTable
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "replayStartedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "webhook_dead_letters" (
+    "id" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "reason" "WebhookDeadLetterReason" NOT NULL DEFAULT 'DELIVERY_FAILED',
+    "status" "WebhookDeadLetterStatus" NOT NULL DEFAULT 'PENDING',
+    "statusCode" INTEGER,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "jobId" TEXT,
+    "eventAt" TIMESTAMP(3) NOT NULL,
+    "redeliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "webhook_dead_letters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "webhook_dead_letters_subscriptionId_status_eventAt_idx" ON "webhook_dead_letters"("subscriptionId", "status", "eventAt");
+
+-- AddForeignKey
+ALTER TABLE "webhook_dead_letters" ADD CONSTRAINT "webhook_dead_letters_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "webhook_subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "previousSecret" TEXT,
+ADD COLUMN "previousSecretExpiresAt" TIMESTAMP(3),
+ADD COLUMN "clientCert" TEXT,
+ADD COLUMN "clientKey" TEXT;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "IngestionRuleAction" AS ENUM ('DROP', 'RENAME_TYPE', 'SET_METADATA', 'REDACT');
+
+-- CreateTable
+CREATE TABLE "ingestion_rules" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "match" TEXT NOT NULL DEFAULT 'all',
+    "conditions" JSONB NOT NULL,
+    "action" "IngestionRuleAction" NOT NULL,
+    "config" JSONB NOT NULL DEFAULT '{}',
+    "touchedCount" INTEGER NOT NULL DEFAULT 0,
+    "lastTouchedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ingestion_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ingestion_rules_organizationId_enabled_position_idx" ON "ingestion_rules"("organizationId", "enabled", "position");
+
+-- AddForeignKey
+ALTER TABLE "ingestion_rules" ADD CONSTRAINT "ingestion_rules_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "deals_organizationId_createdAt_idx" ON "deals"("organizationId", "createdAt" DESC);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "import_batch_records" ADD COLUMN "tagId" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN "ownerAssignmentCount" INTEGER NOT NULL DEFAULT 0;
@@ -2,6 +2,7 @@ import '../setup';
 import { mockRequest, mockResponse, mockNext, testData } from '../helpers';
 
 jest.mock('../../services/companies');
+jest.mock('../../services/company-merge');
 
 import {
   getCompanies,
@@ -9,12 +10,16 @@ import {
   createCompany,
   updateCompany,
   deleteCompany,
+  mergeCompany,
 } from '../../controllers/companies';
 
 import * as companyService from '../../services/companies';
+import * as companyMergeService from '../../services/company-merge';
+import * as webhookEvents from '../../services/webhook-events';
 
 // Cast as any to avoid strict Prisma type requirements on mock data
 const mockedService = companyService as any;
+const mockedMerge = companyMergeService as any;
 
 describe('Companies Controller', () => {
   const orgId = 'org-1';
@@ -199,6 +204,7 @@ describe('Companies Controller', () => {
 
     it('should update a company and return the result', async () => {
       const updated = testData.company({ ...updateBody });
+      mockedService.getCompanyById.mockResolvedValue(testData.company());
       mockedService.updateCompany.mockResolvedValue(updated);
 
       const req = mockRequest({
@@ -215,8 +221,30 @@ describe('Companies Controller', () => {
       expect(res.json).toHaveBeenCalledWith(updated);
     });
 
+    it('should report only the fields whose values changed in company.updated', async () => {
+      const fireUpdated = jest.spyOn(webhookEvents, 'fireCompanyUpdated').mockResolvedValue();
+      const before = testData.company({ name: 'Old Corp', industry: 'Healthcare' });
+      const updated = { ...before, name: 'Updated Corp', updatedAt: new Date(Date.now() + 1000) };
+      mockedService.getCompanyById.mockResolvedValue(before);
+      mockedService.updateCompany.mockResolvedValue(updated);
+
+      const req = mockRequest({
+        params: { id: 'company-1' },
+        organizationId: orgId,
+        body: updateBody,
+      } as any);
+
+      await updateCompany(req, mockResponse(), mockNext());
+
+      // industry was sent but already had that value; updatedAt always moves
+      expect(mockedService.getCompanyById).toHaveBeenCalledWith('company-1', orgId);
+      expect(fireUpdated).toHaveBeenCalledWith(orgId, updated, ['name']);
+      fireUpdated.mockRestore();
+    });
+
     it('should call next(error) on service failure', async () => {
       const err = new Error('Not found');
+      mockedService.getCompanyById.mockResolvedValue(testData.company());
       mockedService.updateCompany.mockRejectedValue(err);
 
       const req = mockRequest({
@@ -270,4 +298,44 @@ describe('Companies Controller', () => {
       expect(next).toHaveBeenCalledWith(err);
     });
   });
+
+  // ================================================================
+  // POST /companies/:id/merge
+  // ================================================================
+  describe('mergeCompany', () => {
+    it('should merge duplicates into the company and return the result', async () => {
+      mockedMerge.mergeCompanies.mockResolvedValue({ merged: 2, errors: [] });
+
+      const req = mockRequest({
+        params: { id: 'company-1' },
+        body: { duplicateIds: ['company-2', 'company-3'] },
+        organizationId: orgId,
+      } as any);
+      const res = mockResponse();
+      const next = mockNext();
+
+      await mergeCompany(req, res, next);
+
+      expect(mockedMerge.mergeCompanies).toHaveBeenCalledWith(orgId, 'company-1', ['company-2', 'company-3']);
+      expect(res.json).toHaveBeenCalledWith({ merged: 2, errors: [] });
+    });
+
+    it('should call next(error) when a company is outside the organization', async () => {
+      const err = new Error('Company company-9 not found in organization');
+      mockedMerge.mergeCompanies.mockRejectedValue(err);
+
+      const req = mockRequest({
+        params: { id: 'company-1' },
+        body: { duplicateIds: ['company-9'] },
+        organizationId: orgId,
+      } as any);
+      const res = mockResponse();
+      const next = mockNext();
+
+      await mergeCompany(req, res, next);
+
+      expect(next).toHaveBeenCalledWith(err);
+      expect(res.json).not.toHaveBeenCalled();
+    });
+  });
 });
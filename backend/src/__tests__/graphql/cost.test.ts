@@ -0,0 +1,153 @@
+import '../setup';
+
+jest.mock('../../jobs/queue', () => ({}));
+jest.mock('../../jobs/producers', () => ({}));
+jest.mock('../../services/usage');
+
+import { ApolloServer } from '@apollo/server';
+import { parse } from 'graphql';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import typeDefs from '../../graphql/typeDefs';
+import resolvers, { type GraphQLContext } from '../../graphql/resolvers';
+import { calculateQueryCost, checkQueryCost, queryCostPlugin } from '../../graphql/cost';
+import * as usageService from '../../services/usage';
+
+const mockedUsage = usageService as any;
+
+const schema = makeExecutableSchema({ typeDefs, resolvers });
+const server = new ApolloServer<GraphQLContext>({ schema, plugins: [queryCostPlugin] });
+
+function context(overrides: Partial<GraphQLContext> = {}): GraphQLContext {
+  return {
+    userId: null,
+    organizationId: 'org-1',
+    orgRole: null,
+    apiKeyId: 'key-1',
+    scopes: ['*'],
+    prisma: {
+      company: { findMany: jest.fn().mockResolvedValue([]), count: jest.fn().mockResolvedValue(0) },
+    } as any,
+    loaders: {} as any,
+    ...overrides,
+  };
+}
+
+async function execute(query: string, contextValue: GraphQLContext, variables?: Record<string, unknown>) {
+  const response = await server.executeOperation({ query, variables }, { contextValue });
+  if (response.body.kind !== 'single') throw new Error('Expected a single result');
+  return { http: response.http, result: response.body.singleResult };
+}
+
+// 1 (accounts) + 35 edges × (edge + node + 10 contacts × (contact + 10 signals))
+const EXPENSIVE = '{ accounts(first: 35) { edges { node { contacts { signals { id } } } } } }';
+
+describe('GraphQL query cost', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedUsage.getPlanForOrg.mockResolvedValue('free');
+  });
+
+  it('should multiply nested selections by the requested page size', () => {
+    const cost = (query: string, variables?: Record<string, unknown>) =>
+      calculateQueryCost(schema, parse(query), variables);
+
+    expect(cost('{ account(id: "co-1") { id name } }')).toBe(1);
+    expect(cost('{ accounts(first: 5) { edges { node { id contacts { id } } } total } }')).toBe(61);
+    expect(cost('query($n: Int) { accounts(first: $n) { items { id } } }', { n: 50 })).toBe(51);
+    // Defaults: 20 per connection page, 10 per unpaged list
+    expect(cost('{ accounts { items { id } } }')).toBe(21);
+    expect(cost(EXPENSIVE)).toBe(3921);
+    expect(cost('fragment F on Account { deals { id } } { account(id: "co-1") { ...F } }')).toBe(11);
+    expect(cost('mutation { deleteAccount(id: "co-1") { deletedId } }')).toBe(11);
+  });
+
+  it('should price each fragment once and reject fragment cycles', () => {
+    // Each fragment spreads the previous one twice: 2^30 expansions without memoization
+    const fragments = Array.from({ length: 30 }, (_, i) =>
+      i === 0
+        ? 'fragment F0 on Account { id }'
+        : `fragment F${i} on Account { ...F${i - 1} ...F${i - 1} }`,
+    ).join(' ');
+    const started = Date.now();
+    expect(calculateQueryCost(schema, parse(`${fragments} { account(id: "co-1") { ...F29 } }`))).toBe(1);
+    expect(Date.now() - started).toBeLessThan(1000);
+
+    const cyclic = parse('fragment A on Account { contacts { company { ...A } } } { account(id: "co-1") { ...A } }');
+    expect(() => calculateQueryCost(schema, cyclic)).toThrow('Cannot spread fragment "A" within itself.');
+  });
+
+  it('should report the cost and the API key budget in extensions', async () => {
+    const { result } = await execute('{ accounts(first: 5) { items { id } } }', context({ apiKeyId: 'key-report' }));
+
+    expect(result.errors).toBeUndefined();
+    expect(result.extensions?.cost).toEqual({
+      requestedQueryCost: 6,
+      maximumQueryCost: 5000,
+      budget: { limit: 10000, used: 6, remaining: 9994, resetAt: expect.any(String) },
+    });
+
+    // User tokens are capped per query but have no per-key budget
+    const user = await execute(
+      '{ accounts(first: 5) { items { id } } }',
+      context({ userId: 'user-1', orgRole: 'MEMBER', apiKeyId: null, scopes: null }),
+    );
+    expect(user.result.extensions?.cost).toEqual({ requestedQueryCost: 6, maximumQueryCost: 5000 });
+  });
+
+  it('should reject queries over the maximum cost before resolving them', async () => {
+    const ctx = context({ apiKeyId: 'key-deep' });
+    const { http, result } = await execute(
+      '{ accounts(first: 100) { edges { node { contacts { signals { id } } } } } }',
+      ctx,
+    );
+
+    expect(http.status).toBe(400);
+    expect(result.errors?.[0]).toMatchObject({
+      message: expect.stringContaining('Query cost of 11201 exceeds maximum allowed cost of 5000'),
+      extensions: { code: 'QUERY_TOO_COMPLEX' },
+    });
+    expect(result.extensions?.cost).toMatchObject({ requestedQueryCost: 11201 });
+    expect((ctx.prisma.company.findMany as jest.Mock)).not.toHaveBeenCalled();
+  });
+
+  it('should refuse queries once the API key budget is spent', async () => {
+    // Pin the clock inside one budget minute
+    const now = jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2026, 2, 1, 12, 0, 10));
+    const ctx = context({ apiKeyId: 'key-budget' });
+    await execute(EXPENSIVE, ctx);
+    await execute(EXPENSIVE, ctx);
+
+    const { http, result } = await execute(EXPENSIVE, ctx);
+    expect(http.status).toBe(429);
+    expect(result.errors?.[0]).toMatchObject({ extensions: { code: 'COST_BUDGET_EXCEEDED' } });
+    expect(result.extensions?.cost).toMatchObject({
+      budget: { used: 7842, remaining: 2158, resetAt: '2026-03-01T12:01:00.000Z' },
+    });
+
+    // Other keys in the org keep their own budget
+    const other = await execute(EXPENSIVE, context({ apiKeyId: 'key-other' }));
+    expect(other.result.errors).toBeUndefined();
+
+    // The budget starts over with the next minute
+    now.mockReturnValue(Date.UTC(2026, 2, 1, 12, 1, 0));
+    const next = await execute(EXPENSIVE, ctx);
+    expect(next.result.errors).toBeUndefined();
+    expect(next.result.extensions?.cost).toMatchObject({ budget: { used: 3921, remaining: 6079 } });
+    now.mockRestore();
+  });
+
+  it('should price and charge subscription operations', async () => {
+    const ctx = context({ apiKeyId: 'key-subscribe' });
+    const subscription = parse('subscription { signalCreated { id account { contacts { id } } } }');
+
+    const checked = await checkQueryCost(schema, subscription, {}, undefined, ctx);
+    expect(checked.error).toBeNull();
+    expect(checked.extension).toMatchObject({ requestedQueryCost: 12, budget: { used: 12 } });
+
+    const tooDeep = parse(
+      'subscription { signalCreated { account { contacts { signals { account { contacts { signals { id } } } } } } } }',
+    );
+    const rejected = await checkQueryCost(schema, tooDeep, {}, undefined, ctx);
+    expect(rejected.error).toMatchObject({ extensions: { code: 'QUERY_TOO_COMPLEX' } });
+  });
+});
@@ -0,0 +1,238 @@
+import '../setup';
+
+jest.mock('../../jobs/queue', () => ({}));
+jest.mock('../../jobs/producers', () => ({}));
+jest.mock('../../services/companies');
+jest.mock('../../services/deals');
+jest.mock('../../services/signals');
+jest.mock('../../services/usage', () => ({
+  checkLimit: jest.fn(),
+}));
+jest.mock('../../services/entity-events');
+
+import { ApolloServer } from '@apollo/server';
+import typeDefs from '../../graphql/typeDefs';
+import resolvers, { type GraphQLContext } from '../../graphql/resolvers';
+import * as companyService from '../../services/companies';
+import * as dealService from '../../services/deals';
+import * as signalService from '../../services/signals';
+import * as usageService from '../../services/usage';
+import * as entityEvents from '../../services/entity-events';
+import { AppError } from '../../utils/errors';
+
+// Cast as any to avoid strict Prisma type requirements on mock data
+const mockedCompanies = companyService as any;
+const mockedDeals = dealService as any;
+const mockedSignals = signalService as any;
+const mockedUsage = usageService as any;
+const mockedEvents = entityEvents as any;
+
+const server = new ApolloServer<GraphQLContext>({ typeDefs, resolvers });
+
+const ERRORS = `errors {
+  __typename
+  code
+  message
+  ... on ValidationError { field }
+  ... on NotFoundError { resource id }
+  ... on ForbiddenError { requiredScope }
+  ... on LimitExceededError { limit current }
+}`;
+
+function context(overrides: Partial<GraphQLContext> = {}): GraphQLContext {
+  return {
+    userId: 'user-1',
+    organizationId: 'org-1',
+    orgRole: 'MEMBER',
+    apiKeyId: null,
+    scopes: null,
+    prisma: {
+      company: { findFirst: jest.fn().mockResolvedValue(null) },
+    } as any,
+    loaders: {} as any,
+    ...overrides,
+  };
+}
+
+function apiKeyContext(scopes: string[]): GraphQLContext {
+  return context({ userId: null, orgRole: null, apiKeyId: 'key-1', scopes });
+}
+
+async function execute(query: string, variables: Record<string, unknown>, contextValue: GraphQLContext) {
+  const response = await server.executeOperation({ query, variables }, { contextValue });
+  if (response.body.kind !== 'single') throw new Error('Expected a single result');
+  return response.body.singleResult;
+}
+
+describe('GraphQL mutations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create an account through the service and emit its events', async () => {
+    const account = { id: 'co-1', name: 'Acme', createdAt: new Date(), updatedAt: new Date() };
+    mockedCompanies.createCompany.mockResolvedValue(account);
+
+    const result = await execute(
+      `mutation($input: CreateAccountInput!) {
+        createAccount(input: $input) { account { id name } ${ERRORS} }
+      }`,
+      { input: { name: 'Acme', domain: null } },
+      context(),
+    );
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data?.createAccount).toEqual({ account: { id: 'co-1', name: 'Acme' }, errors: [] });
+    expect(mockedCompanies.createCompany).toHaveBeenCalledWith('org-1', { name: 'Acme' });
+    expect(mockedEvents.emitCompanyCreated).toHaveBeenCalledWith('org-1', account, 'user-1');
+  });
+
+  it('should return typed validation, not-found and forbidden errors', async () => {
+    const invalid = await execute(
+      `mutation($input: CreateAccountInput!) { createAccount(input: $input) { account { id } ${ERRORS} } }`,
+      { input: { name: 'Acme', website: 'not a url' } },
+      context(),
+    );
+    expect(invalid.data?.createAccount).toEqual({
+      account: null,
+      errors: [{ __typename: 'ValidationError', code: 'VALIDATION', message: 'Invalid url', field: 'website' }],
+    });
+
+    mockedCompanies.deleteCompany.mockRejectedValue(new AppError('Company not found', 404));
+    const missing = await execute(
+      `mutation { deleteAccount(id: "co-404") { deletedId ${ERRORS} } }`,
+      {},
+      context(),
+    );
+    expect(missing.data?.deleteAccount).toEqual({
+      deletedId: null,
+      errors: [{ __typename: 'NotFoundError', code: 'NOT_FOUND', message: 'Account not found', resource: 'Account', id: null }],
+    });
+
+    // Related records must belong to the organization
+    const foreignCompany = await execute(
+      `mutation { createDeal(input: { title: "Expansion", companyId: "co-other" }) { deal { id } ${ERRORS} } }`,
+      {},
+      context(),
+    );
+    expect(foreignCompany.data?.createDeal).toMatchObject({
+      errors: [{ __typename: 'NotFoundError', resource: 'Account', id: 'co-other' }],
+    });
+    expect(mockedDeals.createDeal).not.toHaveBeenCalled();
+
+    // Unexpected failures do not leak internals
+    mockedCompanies.updateCompany.mockRejectedValue(new Error('connection reset by peer'));
+    const broken = await execute(
+      `mutation { updateAccount(id: "co-1", input: { name: "Acme" }) { account { id } ${ERRORS} } }`,
+      {},
+      context(),
+    );
+    expect(broken.errors).toBeUndefined();
+    expect(broken.data?.updateAccount).toEqual({
+      account: null,
+      errors: [{ __typename: 'InternalError', code: 'INTERNAL', message: 'Internal server error' }],
+    });
+  });
+
+  it('should enforce API key scopes on mutations and queries', async () => {
+    const denied = await execute(
+      `mutation { createAccount(input: { name: "Acme" }) { account { id } ${ERRORS} } }`,
+      {},
+      apiKeyContext(['accounts:read', 'signals:write']),
+    );
+    expect(denied.data?.createAccount).toEqual({
+      account: null,
+      errors: [{
+        __typename: 'ForbiddenError',
+        code: 'FORBIDDEN',
+        message: 'API key is missing the accounts:write scope',
+        requiredScope: 'accounts:write',
+      }],
+    });
+    expect(mockedCompanies.createCompany).not.toHaveBeenCalled();
+
+    // Notes are authored by users, so API keys cannot write them even with '*'
+    const note = await execute(
+      `mutation { createNote(input: { entityType: ACCOUNT, entityId: "co-1", content: "Hi" }) { note { id } ${ERRORS} } }`,
+      {},
+      apiKeyContext(['*']),
+    );
+    expect(note.data?.createNote).toMatchObject({ errors: [{ __typename: 'ForbiddenError', requiredScope: null }] });
+
+    const query = await execute('{ deals { total } }', {}, apiKeyContext(['accounts:read']));
+    expect(query.errors?.[0]).toMatchObject({
+      message: 'API key is missing the deals:read scope',
+      extensions: { code: 'FORBIDDEN', requiredScope: 'deals:read' },
+    });
+  });
+
+  it('should enforce read scopes on nested fields', async () => {
+    const ctx = apiKeyContext(['accounts:read']);
+    (ctx.prisma.company.findFirst as jest.Mock).mockResolvedValue({ id: 'co-1', name: 'Acme' });
+    const contactsByCompanyId = { load: jest.fn().mockResolvedValue([{ id: 'ct-1' }]) };
+    ctx.loaders = { contactsByCompanyId } as any;
+
+    const result = await execute('{ account(id: "co-1") { name contacts { id } } }', {}, ctx);
+
+    expect(result.data).toEqual({ account: null });
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        message: 'API key is missing the contacts:read scope',
+        path: ['account', 'contacts'],
+        extensions: expect.objectContaining({ code: 'FORBIDDEN', requiredScope: 'contacts:read' }),
+      }),
+    ]);
+    expect(contactsByCompanyId.load).not.toHaveBeenCalled();
+
+    // With the scope, the same nesting resolves
+    const allowed = await execute(
+      '{ account(id: "co-1") { name contacts { id } } }',
+      {},
+      { ...ctx, scopes: ['accounts:read', 'contacts:read'] },
+    );
+    expect(allowed.errors).toBeUndefined();
+    expect(allowed.data).toEqual({ account: { name: 'Acme', contacts: [{ id: 'ct-1' }] } });
+  });
+
+  it('should ingest signals within plan limits and report drops', async () => {
+    mockedUsage.checkLimit.mockResolvedValueOnce({ allowed: false, limit: 1000, current: 1000, plan: 'free' });
+    const limited = await execute(
+      `mutation { ingestSignal(input: { sourceId: "src-1", type: "page_view" }) { signal { id } ${ERRORS} } }`,
+      {},
+      apiKeyContext(['signals:write']),
+    );
+    expect(limited.data?.ingestSignal).toEqual({
+      signal: null,
+      errors: [{
+        __typename: 'LimitExceededError',
+        code: 'LIMIT_EXCEEDED',
+        message: 'Signal limit reached',
+        limit: 1000,
+        current: 1000,
+      }],
+    });
+    expect(mockedSignals.ingestSignal).not.toHaveBeenCalled();
+
+    mockedUsage.checkLimit.mockResolvedValue({ allowed: true, limit: 1000, current: 10, plan: 'free' });
+    mockedSignals.ingestSignal.mockResolvedValue({ dropped: true, droppedBy: { id: 'rule-1', name: 'Drop bots' } });
+    const dropped = await execute(
+      `mutation { ingestSignal(input: { sourceId: "src-1", type: "page_view", metadata: { ua: "bot" } }) {
+        signal { id } dropped droppedBy { id name } ${ERRORS}
+      } }`,
+      {},
+      apiKeyContext(['signals:write']),
+    );
+    expect(dropped.data?.ingestSignal).toEqual({
+      signal: null,
+      dropped: true,
+      droppedBy: { id: 'rule-1', name: 'Drop bots' },
+      errors: [],
+    });
+    expect(mockedSignals.ingestSignal).toHaveBeenCalledWith('org-1', {
+      sourceId: 'src-1',
+      type: 'page_view',
+      metadata: { ua: 'bot' },
+    });
+    expect(mockedEvents.emitSignalIngested).not.toHaveBeenCalled();
+  });
+});
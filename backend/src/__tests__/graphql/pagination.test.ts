@@ -0,0 +1,190 @@
+import '../setup';
+
+jest.mock('../../jobs/queue', () => ({}));
+jest.mock('../../jobs/producers', () => ({}));
+
+import { ApolloServer } from '@apollo/server';
+import typeDefs from '../../graphql/typeDefs';
+import resolvers, { type GraphQLContext } from '../../graphql/resolvers';
+
+const server = new ApolloServer<GraphQLContext>({ typeDefs, resolvers });
+
+function model(rows: unknown[] = [], total = 0) {
+  return {
+    findMany: jest.fn().mockResolvedValue(rows),
+    count: jest.fn().mockResolvedValue(total),
+  };
+}
+
+function context(prisma: Record<string, unknown>): GraphQLContext {
+  return {
+    userId: 'user-1',
+    organizationId: 'org-1',
+    orgRole: 'MEMBER',
+    apiKeyId: null,
+    scopes: null,
+    prisma: prisma as any,
+    loaders: {} as any,
+  };
+}
+
+async function execute(query: string, contextValue: GraphQLContext) {
+  const response = await server.executeOperation({ query }, { contextValue });
+  if (response.body.kind !== 'single') throw new Error('Expected a single result');
+  return response.body.singleResult;
+}
+
+const account = (id: string, createdAt: string) => ({
+  id,
+  name: `Account ${id}`,
+  createdAt: new Date(createdAt),
+  updatedAt: new Date(createdAt),
+});
+
+describe('GraphQL cursor pagination', () => {
+  it('should page accounts by keyset and only count when total is selected', async () => {
+    const company = model([
+      account('co-3', '2026-03-03T00:00:00.000Z'),
+      account('co-2', '2026-03-02T00:00:00.000Z'),
+      account('co-1', '2026-03-01T00:00:00.000Z'),
+    ]);
+
+    const first = await execute(
+      `{ accounts(first: 2) {
+        edges { cursor node { id } }
+        pageInfo { hasNextPage hasPreviousPage startCursor endCursor }
+      } }`,
+      context({ company }),
+    );
+
+    expect(first.errors).toBeUndefined();
+    const connection = first.data?.accounts as any;
+    expect(connection.edges.map((edge: any) => edge.node.id)).toEqual(['co-3', 'co-2']);
+    expect(connection.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+    expect(connection.pageInfo.endCursor).toBe(connection.edges[1].cursor);
+    expect(company.findMany).toHaveBeenCalledWith({
+      where: { organizationId: 'org-1' },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      skip: undefined,
+      take: 3,
+    });
+    expect(company.count).not.toHaveBeenCalled();
+
+    company.findMany.mockResolvedValue([account('co-1', '2026-03-01T00:00:00.000Z')]);
+    const second = await execute(
+      `{ accounts(first: 2, after: "${connection.pageInfo.endCursor}") {
+        items { id }
+        pageInfo { hasNextPage hasPreviousPage }
+        total
+      } }`,
+      context({ company }),
+    );
+
+    expect(second.data?.accounts).toEqual({
+      items: [{ id: 'co-1' }],
+      pageInfo: { hasNextPage: false, hasPreviousPage: true },
+      total: 0,
+    });
+    const seekDate = new Date('2026-03-02T00:00:00.000Z');
+    expect(company.findMany.mock.calls[1][0].where).toEqual({
+      AND: [
+        { organizationId: 'org-1' },
+        { OR: [{ createdAt: { lt: seekDate } }, { createdAt: seekDate, id: { lt: 'co-2' } }] },
+      ],
+    });
+    expect(company.count).toHaveBeenCalledWith({ where: { organizationId: 'org-1' } });
+  });
+
+  it('should translate typed filters into org-scoped where clauses', async () => {
+    const company = model();
+    await execute(
+      `{ accounts(first: 10, filter: {
+        tier: [HOT, WARM]
+        score: { min: 60 }
+        tags: ["enterprise"]
+        customFields: [{ key: "region", equals: "EMEA" }]
+        createdAt: { from: "2026-01-01" }
+      }, orderBy: { field: NAME, direction: ASC }) { items { id } } }`,
+      context({ company }),
+    );
+
+    expect(company.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        organizationId: 'org-1',
+        score: { tier: { in: ['HOT', 'WARM'] }, score: { gte: 60 } },
+        tags: { some: { tag: { name: { in: ['enterprise'] } } } },
+        AND: [{ customFields: { path: ['region'], equals: 'EMEA' } }],
+        createdAt: { gte: new Date('2026-01-01') },
+      },
+      orderBy: [{ name: 'asc' }, { id: 'asc' }],
+    }));
+
+    const signal = model();
+    await execute(
+      `{ signals(type: "repo_star", filter: { accountTier: [HOT], timestamp: { to: "2026-03-01" } }) { items { id } } }`,
+      context({ signal }),
+    );
+
+    expect(signal.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        organizationId: 'org-1',
+        type: { in: ['repo_star'] },
+        timestamp: { lte: new Date('2026-03-01') },
+        account: { score: { tier: { in: ['HOT'] } } },
+      },
+      orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+    }));
+  });
+
+  it('should sort nullable deal fields with nulls last across pages', async () => {
+    const deal = model([
+      { id: 'deal-2', title: 'B', amount: 500, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'deal-1', title: 'A', amount: null, createdAt: new Date(), updatedAt: new Date() },
+    ]);
+
+    const first = await execute(
+      '{ deals(first: 1, orderBy: { field: AMOUNT }) { pageInfo { endCursor } } }',
+      context({ deal }),
+    );
+    expect(deal.findMany.mock.calls[0][0].orderBy).toEqual([
+      { amount: { sort: 'desc', nulls: 'last' } },
+      { id: 'desc' },
+    ]);
+
+    const cursor = (first.data?.deals as any).pageInfo.endCursor;
+    await execute(`{ deals(first: 1, after: "${cursor}", orderBy: { field: AMOUNT }) { items { id } } }`, context({ deal }));
+    expect(deal.findMany.mock.calls[1][0].where.AND[1]).toEqual({
+      OR: [{ amount: { lt: 500 } }, { amount: 500, id: { lt: 'deal-2' } }, { amount: null }],
+    });
+  });
+
+  it('should keep page/limit paging and reject foreign or malformed cursors', async () => {
+    const contact = model([{ id: 'ct-1', firstName: 'Ada', lastName: 'L', createdAt: new Date(), updatedAt: new Date() }], 41);
+
+    const legacy = await execute(
+      '{ contacts(page: 3, limit: 20, companyId: "co-1") { total page totalPages pageInfo { hasPreviousPage } } }',
+      context({ contact }),
+    );
+    expect(legacy.data?.contacts).toEqual({ total: 41, page: 3, totalPages: 3, pageInfo: { hasPreviousPage: true } });
+    expect(contact.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { organizationId: 'org-1', companyId: 'co-1' },
+      skip: 40,
+      take: 21,
+    }));
+
+    const byName = await execute(
+      '{ contacts(first: 1, orderBy: { field: LAST_NAME }) { pageInfo { endCursor } } }',
+      context({ contact }),
+    );
+    const cursor = (byName.data?.contacts as any).pageInfo.endCursor;
+
+    const mismatched = await execute(`{ contacts(after: "${cursor}") { total } }`, context({ contact }));
+    expect(mismatched.errors?.[0]).toMatchObject({
+      message: 'Cursor was issued for a different orderBy',
+      extensions: { code: 'BAD_USER_INPUT', argument: 'after' },
+    });
+
+    const garbage = await execute('{ contacts(after: "not-a-cursor") { total } }', context({ contact }));
+    expect(garbage.errors?.[0]).toMatchObject({ message: 'Invalid cursor' });
+  });
+});
@@ -0,0 +1,163 @@
+import '../setup';
+
+jest.mock('../../config/database', () => ({
+  prisma: {},
+}));
+jest.mock('../../jobs/queue', () => ({}));
+jest.mock('../../jobs/producers', () => ({}));
+jest.mock('../../services/usage', () => ({
+  getPlanForOrg: jest.fn().mockResolvedValue('free'),
+}));
+jest.mock('../../services/api-keys', () => ({
+  validateApiKey: jest.fn(async (rawKey: string) =>
+    rawKey === 'ds_live_reader'
+      ? { id: 'key-1', organizationId: 'org-1', scopes: ['signals:read'] }
+      : null,
+  ),
+}));
+
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import WebSocket from 'ws';
+import { createClient, type Client } from 'graphql-ws';
+import { setupGraphQL } from '../../graphql';
+import { recordQueryCost } from '../../middleware/api-usage';
+import {
+  broadcastScoreChange,
+  broadcastSignalCreated,
+  initWebSocket,
+  shutdownWebSocket,
+} from '../../services/websocket';
+
+let server: Server;
+let url: string;
+const clients: Client[] = [];
+
+function connect(connectionParams: Record<string, unknown>): Client {
+  const client = createClient({ url, webSocketImpl: WebSocket, connectionParams, retryAttempts: 0, lazy: false });
+  clients.push(client);
+  return client;
+}
+
+/** Subscribes and resolves with the first result, broadcasting until one arrives */
+function firstResult(
+  client: Client,
+  query: string,
+  broadcastUntilReceived: () => void,
+): Promise<{ data?: unknown; errors?: unknown }> {
+  return new Promise((resolve, reject) => {
+    const timer = setInterval(broadcastUntilReceived, 25);
+    const done = (fn: () => void) => {
+      clearInterval(timer);
+      unsubscribe();
+      fn();
+    };
+    const unsubscribe = client.subscribe(
+      { query },
+      {
+        next: (result) => done(() => resolve(result as { data?: unknown })),
+        error: (error) => done(() => reject(error)),
+        complete: () => undefined,
+      },
+    );
+  });
+}
+
+beforeAll(async () => {
+  const app = express();
+  await setupGraphQL(app);
+  server = app.listen(0);
+  initWebSocket(server);
+  url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1/graphql`;
+});
+
+afterAll(async () => {
+  await Promise.all(clients.map((client) => client.dispose()));
+  shutdownWebSocket();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('GraphQL subscriptions', () => {
+  it('should stream new signals for the subscribed account only', async () => {
+    const client = connect({ apiKey: 'ds_live_reader' });
+
+    const result = await firstResult(
+      client,
+      'subscription { signalCreated(accountId: "acc-1") { id type } }',
+      () => {
+        broadcastSignalCreated('org-2', { id: 'sig-other-org', type: 'page_view', accountId: 'acc-1' });
+        broadcastSignalCreated('org-1', { id: 'sig-other-account', type: 'page_view', accountId: 'acc-2' });
+        broadcastSignalCreated('org-1', { id: 'sig-1', type: 'repo_star', accountId: 'acc-1' });
+      },
+    );
+
+    expect(result).toEqual({ data: { signalCreated: { id: 'sig-1', type: 'repo_star' } } });
+  });
+
+  it('should reject subscriptions outside the API key scopes', async () => {
+    const client = connect({ authorization: 'Bearer ds_live_reader' });
+
+    const result = await firstResult(
+      client,
+      'subscription { scoreChanged(tier: HOT) { accountId newScore } }',
+      () => broadcastScoreChange('org-1', {
+        accountId: 'acc-1',
+        companyName: 'Acme',
+        oldScore: 40,
+        newScore: 80,
+        oldTier: 'WARM',
+        newTier: 'HOT',
+        delta: 40,
+        scoredAt: new Date().toISOString(),
+      }),
+    );
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ message: 'API key is missing the accounts:read scope' }),
+    ]);
+  });
+
+  it('should validate subscriptions before pricing them', async () => {
+    const client = connect({ apiKey: 'ds_live_reader' });
+
+    await expect(
+      firstResult(
+        client,
+        'fragment A on Signal { account { contacts { signals { ...A } } } } subscription { signalCreated { ...A } }',
+        () => undefined,
+      ),
+    ).rejects.toEqual([expect.objectContaining({ message: 'Cannot spread fragment "A" within itself.' })]);
+  });
+
+  it("should refuse subscriptions once the API key's cost budget is spent", async () => {
+    // Pin the clock inside one budget minute
+    const now = jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2026, 2, 1, 12, 0, 10));
+    recordQueryCost('org-1', 'key-1', 10000);
+    const client = connect({ apiKey: 'ds_live_reader' });
+
+    await expect(
+      firstResult(client, 'subscription { signalCreated { id } }', () => undefined),
+    ).rejects.toEqual([
+      expect.objectContaining({ extensions: expect.objectContaining({ code: 'COST_BUDGET_EXCEEDED' }) }),
+    ]);
+    now.mockRestore();
+  });
+
+  it('should close connections with invalid credentials', async () => {
+    const closed = new Promise<number>((resolve) => {
+      const client = createClient({
+        url,
+        webSocketImpl: WebSocket,
+        connectionParams: { apiKey: 'ds_live_revoked' },
+        retryAttempts: 0,
+        lazy: false,
+        onNonLazyError: () => undefined,
+        on: { closed: (event) => resolve((event as { code: number }).code) },
+      });
+      clients.push(client);
+    });
+
+    expect(await closed).toBe(4403);
+  });
+});
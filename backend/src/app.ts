@@ -81,6 +81,7 @@ import changelogRoutes from './routes/changelog';
 import anomalyRoutes from './routes/anomalies';
 import signalPatternRoutes from './routes/signal-patterns';
 import noteRoutes from './routes/notes';
+import ingestionRuleRoutes from './routes/ingestion-rules';
 import { apiUsageTracker } from './middleware/api-usage';
 import { requestIdMiddleware } from './middleware/request-id';
 import { sentryErrorHandler } from './utils/sentry';
@@ -300,6 +301,9 @@ app.use('/api/v1/anomalies', anomalyRoutes);
 // API routes — Signal Pattern Clustering & ICP Matching
 app.use('/api/v1/patterns', signalPatternRoutes);
 
+// API routes — Signal Ingestion Rules (drop, rename, enrich, redact before storage)
+app.use('/api/v1/ingestion-rules', ingestionRuleRoutes);
+
 // API routes — Data Export (enterprise compliance & data portability)
 app.use('/api/v1/exports', dataExportRoutes);
 
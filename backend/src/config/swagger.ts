@@ -566,6 +566,56 @@ const options: swaggerJsdoc.Options = {
                 },
               },
             },
+            breakdown: {
+              type: 'object',
+              nullable: true,
+              description: 'Per-factor contributions in score points; points + decay + adjustment sum to score',
+              properties: {
+                source: { type: 'string', enum: ['pqa', 'rules'] },
+                score: { type: 'integer' },
+                contributions: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      label: { type: 'string' },
+                      kind: { type: 'string', enum: ['factor', 'rule'] },
+                      points: { type: 'number' },
+                      decay: { type: 'number', description: 'Points removed by decay (zero or negative)' },
+                      description: { type: 'string' },
+                    },
+                  },
+                },
+                decayTotal: { type: 'number' },
+                adjustment: { type: 'number' },
+                topSignalTypes: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string' },
+                      count: { type: 'integer' },
+                      weightedCount: { type: 'number', nullable: true },
+                      lastSeenAt: { type: 'string', format: 'date-time', nullable: true },
+                    },
+                  },
+                },
+                topSignals: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      type: { type: 'string' },
+                      timestamp: { type: 'string', format: 'date-time' },
+                      actorId: { type: 'string', nullable: true },
+                      weight: { type: 'number', nullable: true },
+                    },
+                  },
+                },
+              },
+            },
             signalCount: { type: 'integer' },
             userCount: { type: 'integer' },
             lastSignalAt: { type: 'string', format: 'date-time', nullable: true },
@@ -1,8 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { Prisma } from '@prisma/client';
 import * as companyService from '../services/companies';
+import { findCompanyDuplicates, mergeCompanies } from '../services/company-merge';
 import { logAudit } from '../services/audit';
-import { fireCompanyCreated } from '../services/webhook-events';
+import { emitCompanyCreated, emitCompanyDeleted, emitCompanyUpdated } from '../services/entity-events';
 import { logger } from '../utils/logger';
 import { parsePageInt } from '../utils/pagination';
 import { prisma } from '../config/database';
@@ -50,19 +51,8 @@ export const createCompany = async (req: Request, res: Response, next: NextFunct
     const company = await companyService.createCompany(organizationId, req.body);
     logger.info(`Company created: ${company.id}`);
 
-    // Audit log (fire-and-forget)
-    logAudit({
-      organizationId,
-      userId: req.user?.id,
-      action: 'create',
-      entityType: 'company',
-      entityId: company.id,
-      entityName: company.name,
-    }).catch(() => {});
-
-    // Webhook event to Zapier/Make subscribers (fire-and-forget)
-    fireCompanyCreated(organizationId, company as unknown as Record<string, unknown>)
-      .catch((err) => logger.error('Webhook fire error (company.created):', err));
+    // Audit log + webhook event (fire-and-forget)
+    emitCompanyCreated(organizationId, company, req.user?.id);
 
     res.status(201).json(company);
   } catch (error) {
@@ -75,18 +65,14 @@ export const updateCompany = async (req: Request, res: Response, next: NextFunct
     const { id } = req.params;
     const organizationId = req.organizationId!;
 
+    // Capture the company before the update to report which fields changed
+    const before = await companyService.getCompanyById(id, organizationId);
+
     const company = await companyService.updateCompany(id, organizationId, req.body);
     logger.info(`Company updated: ${company.id}`);
 
-    // Audit log (fire-and-forget)
-    logAudit({
-      organizationId,
-      userId: req.user?.id,
-      action: 'update',
-      entityType: 'company',
-      entityId: company.id,
-      entityName: company.name,
-    }).catch(() => {});
+    // Audit log + webhook event (fire-and-forget)
+    emitCompanyUpdated(organizationId, company, before, req.user?.id);
 
     res.json(company);
   } catch (error) {
@@ -197,16 +183,52 @@ export const deleteCompany = async (req: Request, res: Response, next: NextFunct
     await companyService.deleteCompany(id, organizationId);
     logger.info(`Company deleted: ${id}`);
 
+    // Audit log (fire-and-forget)
+    emitCompanyDeleted(organizationId, id, req.user?.id);
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getDuplicates = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const groups = await findCompanyDuplicates(organizationId);
+    res.json({ groups });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /companies/:id/merge
+ * Merges one or more duplicate companies into the target (primary) company.
+ * Body: { duplicateIds: string[] }
+ */
+export const mergeCompany = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const organizationId = req.organizationId!;
+    const { duplicateIds } = req.body as { duplicateIds: string[] };
+
+    const result = await mergeCompanies(organizationId, id, duplicateIds);
+
     // Audit log (fire-and-forget)
     logAudit({
       organizationId,
       userId: req.user?.id,
-      action: 'delete',
+      action: 'merge',
       entityType: 'company',
       entityId: id,
+      entityName: `Merged ${result.merged} duplicate company(ies) into ${id}`,
+      metadata: { duplicateIds, merged: result.merged, errors: result.errors },
     }).catch(() => {});
 
-    res.status(204).send();
+    logger.info(`Company merge: ${result.merged} merged into ${id}`, { organizationId });
+
+    res.json(result);
   } catch (error) {
     next(error);
   }
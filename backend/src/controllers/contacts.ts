@@ -1,12 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
-import { Prisma, DealStage } from '@prisma/client';
+import { Prisma, DealStage, ScoreTier } from '@prisma/client';
 import * as contactService from '../services/contacts';
+import * as contactScoreService from '../services/contact-scores';
 import { findDuplicates, mergeContacts } from '../services/identity-resolution';
-import { enqueueWorkflowExecution } from '../jobs/producers';
-import { notifyOrgUsers } from '../services/notifications';
-import { sendSignupAlert } from '../services/slack-notifications';
 import { logAudit } from '../services/audit';
-import { fireContactCreated, fireContactUpdated } from '../services/webhook-events';
+import { emitContactCreated, emitContactDeleted, emitContactUpdated } from '../services/entity-events';
 import { logger } from '../utils/logger';
 import { parsePageInt } from '../utils/pagination';
 import { prisma } from '../config/database';
@@ -18,9 +16,20 @@ export const getContacts = async (req: Request, res: Response, next: NextFunctio
   try {
     const organizationId = req.organizationId!;
 
-    const filters = {
+    const leadTierParam = req.query.leadTier as string | undefined;
+    const minLeadScore = Number(req.query.minLeadScore);
+    const sortDirection = req.query.sortDirection;
+
+    const filters: contactService.ContactFilters = {
       search: req.query.search as string,
       companyId: req.query.companyId as string,
+      leadTier:
+        leadTierParam && (Object.values(ScoreTier) as string[]).includes(leadTierParam)
+          ? (leadTierParam as ScoreTier)
+          : undefined,
+      minLeadScore: req.query.minLeadScore !== undefined && Number.isFinite(minLeadScore) ? minLeadScore : undefined,
+      sortField: req.query.sortField as string | undefined,
+      sortDirection: sortDirection === 'asc' || sortDirection === 'desc' ? sortDirection : undefined,
       page: parsePageInt(req.query.page),
       limit: parsePageInt(req.query.limit),
     };
@@ -49,49 +58,54 @@ export const getContact = async (req: Request, res: Response, next: NextFunction
   }
 };
 
-export const createContact = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const getContactScore = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     const organizationId = req.organizationId!;
+    const score = await contactScoreService.getContactScore(organizationId, req.params.id);
 
-    const contact = await contactService.createContact(organizationId, req.body);
-    logger.info(`Contact created: ${contact.id}`);
+    if (!score) {
+      res.status(404).json({ error: 'No lead score computed for this contact yet' });
+      return;
+    }
 
-    // Audit log (fire-and-forget)
-    logAudit({
-      organizationId,
-      userId: req.user?.id,
-      action: 'create',
-      entityType: 'contact',
-      entityId: contact.id,
-      entityName: `${contact.firstName} ${contact.lastName}`,
-    }).catch(() => {});
+    res.json(score);
+  } catch (error) {
+    next(error);
+  }
+};
 
-    // Enqueue workflow processing via BullMQ (async with retries)
-    enqueueWorkflowExecution(organizationId, 'contact_created', {
-      contactId: contact.id,
-      firstName: contact.firstName,
-      lastName: contact.lastName,
-      email: contact.email,
-      companyId: contact.companyId,
-    }).catch((err) => logger.error('Workflow enqueue error:', err));
-
-    // Notify org users (fire-and-forget)
-    notifyOrgUsers(organizationId, {
-      type: 'contact_created',
-      title: `New contact: ${contact.firstName} ${contact.lastName}`,
-      body: contact.email || undefined,
-      entityType: 'contact',
-      entityId: contact.id,
-      excludeUserId: req.user?.id,
-    }).catch((err) => logger.error('Notification error:', err));
+export const computeContactScore = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const score = await contactScoreService.computeContactScore(organizationId, req.params.id);
+
+    logger.info(`Lead score computed for contact ${req.params.id}: ${score.score} (${score.tier})`);
+    res.json(score);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getContactScoreHistory = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const days = Math.min(365, Math.max(1, parsePageInt(req.query.days) ?? 30));
+    const snapshots = await contactScoreService.getContactScoreHistory(organizationId, req.params.id, days);
+    res.json({ contactId: req.params.id, days, snapshots });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    // Rich Slack signup alert (fire-and-forget)
-    sendSignupAlert(organizationId, contact.id)
-      .catch((err) => logger.error('Slack signup alert failed', { err }));
+export const createContact = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+
+    const contact = await contactService.createContact(organizationId, req.body);
+    logger.info(`Contact created: ${contact.id}`);
 
-    // Webhook event to Zapier/Make subscribers (fire-and-forget)
-    fireContactCreated(organizationId, contact as unknown as Record<string, unknown>)
-      .catch((err) => logger.error('Webhook fire error (contact.created):', err));
+    // Audit log, workflows, notifications, Slack alert and webhook event (fire-and-forget)
+    emitContactCreated(organizationId, contact, req.user?.id);
 
     res.status(201).json(contact);
   } catch (error) {
@@ -107,19 +121,8 @@ export const updateContact = async (req: Request, res: Response, next: NextFunct
     const contact = await contactService.updateContact(id, organizationId, req.body);
     logger.info(`Contact updated: ${contact.id}`);
 
-    // Audit log (fire-and-forget)
-    logAudit({
-      organizationId,
-      userId: req.user?.id,
-      action: 'update',
-      entityType: 'contact',
-      entityId: contact.id,
-      entityName: `${contact.firstName} ${contact.lastName}`,
-    }).catch(() => {});
-
-    // Webhook event to Zapier/Make subscribers (fire-and-forget)
-    fireContactUpdated(organizationId, contact as unknown as Record<string, unknown>)
-      .catch((err) => logger.error('Webhook fire error (contact.updated):', err));
+    // Audit log + webhook event (fire-and-forget)
+    emitContactUpdated(organizationId, contact, req.user?.id);
 
     res.json(contact);
   } catch (error) {
@@ -136,13 +139,7 @@ export const deleteContact = async (req: Request, res: Response, next: NextFunct
     logger.info(`Contact deleted: ${id}`);
 
     // Audit log (fire-and-forget)
-    logAudit({
-      organizationId,
-      userId: req.user?.id,
-      action: 'delete',
-      entityType: 'contact',
-      entityId: id,
-    }).catch(() => {});
+    emitContactDeleted(organizationId, id, req.user?.id);
 
     res.status(204).send();
   } catch (error) {
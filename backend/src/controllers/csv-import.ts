@@ -1,5 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import { importContacts, importCompanies } from '../services/csv-import';
+import { getImportBatch, listImportBatches, revertImportBatch } from '../services/import-batches';
+import {
+  createImportPreview,
+  deleteImportTemplate,
+  getImportJob,
+  listImportTemplates,
+  previewImportMapping,
+  saveImportTemplate,
+  startImport,
+} from '../services/import-jobs';
 import { logger } from '../utils/logger';
 
 /**
@@ -26,7 +36,7 @@ export const importContactsHandler = async (
     }
 
     logger.info(`Starting contact CSV import for org ${organizationId}`);
-    const result = await importContacts(organizationId, csvContent);
+    const result = await importContacts(organizationId, csvContent, req.user?.id);
 
     res.json(result);
   } catch (error) {
@@ -58,7 +68,7 @@ export const importCompaniesHandler = async (
     }
 
     logger.info(`Starting company CSV import for org ${organizationId}`);
-    const result = await importCompanies(organizationId, csvContent);
+    const result = await importCompanies(organizationId, csvContent, req.user?.id);
 
     res.json(result);
   } catch (error) {
@@ -66,6 +76,183 @@ export const importCompaniesHandler = async (
   }
 };
 
+/**
+ * POST /api/v1/import/preview
+ *
+ * Stores the uploaded CSV as a pending import and returns the detected
+ * columns, a suggested mapping, sample rows and per-row validation errors.
+ */
+export const createImportPreviewHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const preview = await createImportPreview(req.organizationId!, req.user?.id, req.body);
+    res.status(201).json(preview);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/v1/import/:importId/preview
+ */
+export const previewImportMappingHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const preview = await previewImportMapping(req.organizationId!, req.params.importId, req.body.mapping);
+    res.json(preview);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/v1/import/:importId/start
+ */
+export const startImportHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    logger.info(`Starting mapped CSV import ${req.params.importId} for org ${organizationId}`);
+    const job = await startImport(organizationId, req.params.importId, req.body);
+    res.status(202).json(job);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/v1/import/:importId
+ */
+export const getImportJobHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const job = await getImportJob(req.organizationId!, req.params.importId);
+    res.json(job);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/v1/import/templates?entityType=contact
+ */
+export const listImportTemplatesHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const entityType = req.query.entityType;
+    if (entityType !== undefined && entityType !== 'contact' && entityType !== 'company') {
+      res.status(400).json({ error: 'entityType must be "contact" or "company"' });
+      return;
+    }
+    const templates = await listImportTemplates(req.organizationId!, entityType);
+    res.json({ templates });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/v1/import/templates
+ */
+export const saveImportTemplateHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const template = await saveImportTemplate(req.organizationId!, req.body);
+    res.status(201).json({ template });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * DELETE /api/v1/import/templates/:templateId
+ */
+export const deleteImportTemplateHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    await deleteImportTemplate(req.organizationId!, req.params.templateId);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/v1/import/batches
+ *
+ * Recent CSV and CRM import batches with their undo deadline.
+ */
+export const listImportBatchesHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) || undefined : undefined;
+    const batches = await listImportBatches(req.organizationId!, limit);
+    res.json({ batches });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * GET /api/v1/import/batches/:batchId
+ */
+export const getImportBatchHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const batch = await getImportBatch(req.organizationId!, req.params.batchId);
+    res.json({ batch });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * POST /api/v1/import/batches/:batchId/revert
+ *
+ * Deletes the records an import created and restores the fields it updated.
+ */
+export const revertImportBatchHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    logger.info(`Reverting import batch ${req.params.batchId} for org ${organizationId}`);
+    const result = await revertImportBatch(organizationId, req.params.batchId, req.user?.id);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Extract CSV string from the request. Supports:
  * - text/csv raw body (parsed as string by the raw text middleware)
@@ -1,10 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import * as dealService from '../services/deals';
-import { enqueueWorkflowExecution } from '../jobs/producers';
-import { notifyOrgUsers } from '../services/notifications';
-import { sendDealAlert } from '../services/slack-notifications';
-import { logAudit } from '../services/audit';
-import { fireDealCreated, fireDealStageChanged } from '../services/webhook-events';
+import { emitDealCreated, emitDealDeleted, emitDealUpdated } from '../services/entity-events';
 import { logger } from '../utils/logger';
 import { parsePageInt } from '../utils/pagination';
 
@@ -51,29 +47,8 @@ export const createDeal = async (req: Request, res: Response, next: NextFunction
     const deal = await dealService.createDeal(organizationId, req.body);
     logger.info(`Deal created: ${deal.id}`);
 
-    // Audit log (fire-and-forget)
-    logAudit({
-      organizationId,
-      userId: req.user?.id,
-      action: 'create',
-      entityType: 'deal',
-      entityId: deal.id,
-      entityName: deal.title,
-    }).catch(() => {});
-
-    // Notify org users of new deal (fire-and-forget)
-    notifyOrgUsers(organizationId, {
-      type: 'deal_created',
-      title: `New deal: ${deal.title}`,
-      body: deal.amount ? `$${Number(deal.amount).toLocaleString()}` : undefined,
-      entityType: 'deal',
-      entityId: deal.id,
-      excludeUserId: req.user?.id,
-    }).catch((err) => logger.error('Notification error:', err));
-
-    // Webhook event to Zapier/Make subscribers (fire-and-forget)
-    fireDealCreated(organizationId, deal as unknown as Record<string, unknown>)
-      .catch((err) => logger.error('Webhook fire error (deal.created):', err));
+    // Audit log, notifications and webhook event (fire-and-forget)
+    emitDealCreated(organizationId, deal, req.user?.id);
 
     res.status(201).json(deal);
   } catch (error) {
@@ -86,58 +61,14 @@ export const updateDeal = async (req: Request, res: Response, next: NextFunction
     const { id } = req.params;
     const organizationId = req.organizationId!;
 
-    // Capture old stage before update for workflow trigger
+    // Capture the deal before the update for stage-change triggers and changed fields
     const oldDeal = await dealService.getDealById(id, organizationId);
-    const oldStage = oldDeal?.stage;
 
     const deal = await dealService.updateDeal(id, organizationId, req.body);
     logger.info(`Deal updated: ${deal.id}`);
 
-    // Audit log (fire-and-forget)
-    const dealChanges: Record<string, { from: unknown; to: unknown }> = {};
-    if (oldStage && deal.stage !== oldStage) {
-      dealChanges.stage = { from: oldStage, to: deal.stage };
-    }
-    logAudit({
-      organizationId,
-      userId: req.user?.id,
-      action: 'update',
-      entityType: 'deal',
-      entityId: deal.id,
-      entityName: deal.title,
-      changes: Object.keys(dealChanges).length > 0 ? dealChanges : undefined,
-    }).catch(() => {});
-
-    // Enqueue workflow processing via BullMQ if stage changed
-    if (oldStage && deal.stage !== oldStage) {
-      enqueueWorkflowExecution(organizationId, 'deal_stage_changed', {
-        dealId: deal.id,
-        oldStage,
-        newStage: deal.stage,
-        title: deal.title,
-        amount: deal.amount,
-        companyId: deal.companyId,
-        contactId: deal.contactId,
-      }).catch((err) => logger.error('Workflow enqueue error:', err));
-
-      // Notify org users of stage change (fire-and-forget)
-      notifyOrgUsers(organizationId, {
-        type: 'deal_stage_changed',
-        title: `Deal "${deal.title}" moved to ${deal.stage}`,
-        body: deal.amount ? `$${Number(deal.amount).toLocaleString()}` : undefined,
-        entityType: 'deal',
-        entityId: deal.id,
-        excludeUserId: req.user?.id,
-      }).catch((err) => logger.error('Notification error:', err));
-
-      // Rich Slack deal stage alert (fire-and-forget)
-      sendDealAlert(organizationId, deal.id, oldStage, deal.stage)
-        .catch((err) => logger.error('Slack deal alert failed', { err }));
-
-      // Webhook event to Zapier/Make subscribers (fire-and-forget)
-      fireDealStageChanged(organizationId, deal as unknown as Record<string, unknown>, oldStage)
-        .catch((err) => logger.error('Webhook fire error (deal.stage_changed):', err));
-    }
+    // Audit log, plus workflows, alerts and webhooks when the stage changed (fire-and-forget)
+    emitDealUpdated(organizationId, deal, oldDeal, req.user?.id);
 
     res.json(deal);
   } catch (error) {
@@ -154,13 +85,7 @@ export const deleteDeal = async (req: Request, res: Response, next: NextFunction
     logger.info(`Deal deleted: ${id}`);
 
     // Audit log (fire-and-forget)
-    logAudit({
-      organizationId,
-      userId: req.user?.id,
-      action: 'delete',
-      entityType: 'deal',
-      entityId: id,
-    }).catch(() => {});
+    emitDealDeleted(organizationId, id, req.user?.id);
 
     res.status(204).send();
   } catch (error) {
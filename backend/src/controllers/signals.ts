@@ -2,8 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { ScoreTier } from '@prisma/client';
 import * as signalService from '../services/signals';
 import * as accountScoreService from '../services/account-scores';
-import { enqueueScoreComputation, enqueueWebhookDelivery, enqueueWorkflowExecution } from '../jobs/producers';
-import { notifyHighValueSignal } from '../services/slack-notifications';
+import { emitSignalIngested } from '../services/entity-events';
 import { logger } from '../utils/logger';
 import { parsePageInt } from '../utils/pagination';
 
@@ -13,8 +12,14 @@ export const ingestSignal = async (req: Request, res: Response, next: NextFuncti
 
     const signal = await signalService.ingestSignal(organizationId, req.body);
 
+    // Dropped by an ingestion rule: nothing was stored
+    if (signal.dropped) {
+      res.status(200).json(signal);
+      return;
+    }
+
     // If deduplicated, return the existing signal with 200 instead of 201
-    if ('deduplicated' in signal && signal.deduplicated) {
+    if (signal.deduplicated) {
       logger.info(`Signal deduplicated: ${signal.id} (${signal.type})`);
       res.status(200).json(signal);
       return;
@@ -22,40 +27,8 @@ export const ingestSignal = async (req: Request, res: Response, next: NextFuncti
 
     logger.info(`Signal ingested: ${signal.id} (${signal.type})`);
 
-    // Enqueue webhook delivery via BullMQ (reliable retry)
-    enqueueWebhookDelivery(organizationId, 'signal.received', {
-      signalId: signal.id,
-      type: signal.type,
-      accountId: signal.accountId,
-      actorId: signal.actorId,
-    }).catch((err) => logger.error('Webhook enqueue error:', err));
-
-    // Enqueue async score recomputation (deduplicated per account via BullMQ)
-    if (signal.accountId) {
-      enqueueScoreComputation(organizationId, signal.accountId)
-        .catch((err) => logger.error('Score enqueue error:', err));
-    }
-
-    // Enqueue workflow processing via BullMQ (async with retries)
-    enqueueWorkflowExecution(organizationId, 'signal_received', {
-      signalId: signal.id,
-      type: signal.type,
-      accountId: signal.accountId,
-      actorId: signal.actorId,
-      metadata: req.body.metadata || {},
-    }).catch((err) => logger.error('Workflow enqueue error:', err));
-
-    // Notify Slack for high-value signals (fire-and-forget)
-    const actorName = signal.actor
-      ? `${signal.actor.firstName} ${signal.actor.lastName}`.trim()
-      : null;
-    notifyHighValueSignal(
-      organizationId,
-      signal.type,
-      signal.account?.name || null,
-      actorName,
-      req.body.metadata || {},
-    ).catch((err) => logger.error('Slack signal notification error:', err));
+    // Webhooks, score recomputes, workflows and Slack alerts (fire-and-forget)
+    emitSignalIngested(organizationId, signal);
 
     res.status(201).json(signal);
   } catch (error) {
@@ -80,12 +53,13 @@ export const ingestSignalBatch = async (req: Request, res: Response, next: NextF
     const results = await signalService.ingestSignalBatch(organizationId, signals);
     const succeeded = results.filter((r) => r.success).length;
     const failed = results.filter((r) => !r.success).length;
+    const dropped = results.filter((r) => r.dropped).length;
 
-    logger.info(`Batch signal ingest: ${succeeded} succeeded, ${failed} failed`);
+    logger.info(`Batch signal ingest: ${succeeded} succeeded (${dropped} dropped by rules), ${failed} failed`);
 
     res.status(201).json({
       results,
-      summary: { total: results.length, succeeded, failed },
+      summary: { total: results.length, succeeded, failed, dropped },
     });
   } catch (error) {
     next(error);
@@ -0,0 +1,251 @@
+import {
+  GraphQLError,
+  Kind,
+  getNamedType,
+  getNullableType,
+  isInterfaceType,
+  isLeafType,
+  isListType,
+  isObjectType,
+  valueFromASTUntyped,
+} from 'graphql';
+import type {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  GraphQLNamedType,
+  GraphQLSchema,
+  SelectionSetNode,
+} from 'graphql';
+import type { ApolloServerPlugin } from '@apollo/server';
+import { chargeQueryCost, type QueryCostBudget } from '../services/api-usage';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './pagination';
+import type { GraphQLContext } from './resolvers';
+
+// ============================================================
+// Static query cost
+// ============================================================
+//
+// Every object a query can return costs 1, scalars are free. Lists
+// multiply their subtree by the page size the client asked for
+// (`first`/`limit`, or the connection default), and nested lists
+// without a page argument — Account.contacts, Contact.signals — are
+// assumed to hold DEFAULT_LIST_SIZE items. The estimate is computed from
+// the document alone, before any resolver runs.
+
+/** Assumed size of list fields that take no page argument */
+const DEFAULT_LIST_SIZE = 10;
+
+/** Writes cost more than reads regardless of what they select */
+const MUTATION_BASE_COST = 10;
+
+/** Largest cost a single operation may have */
+export const MAX_QUERY_COST = 5000;
+
+function pageSizeArgument(field: FieldNode, variables: Record<string, unknown>): number | null {
+  for (const arg of field.arguments ?? []) {
+    if (arg.name.value !== 'first' && arg.name.value !== 'limit') continue;
+    const value = valueFromASTUntyped(arg.value, variables);
+    if (typeof value === 'number') return Math.min(MAX_PAGE_SIZE, Math.max(1, value));
+  }
+  return null;
+}
+
+/** What one cost calculation shares across the document walk. */
+interface CostWalk {
+  schema: GraphQLSchema;
+  fragments: Record<string, FragmentDefinitionNode>;
+  variables: Record<string, unknown>;
+  /** Fragment costs keyed by name and connection size, so repeated spreads are priced once */
+  fragmentCosts: Map<string, number>;
+  /** Fragments currently being expanded; spreading one of them again is a cycle */
+  expanding: Set<string>;
+}
+
+function fragmentSpreadCost(walk: CostWalk, name: string, connectionSize: number | null): number {
+  const fragment = walk.fragments[name];
+  if (!fragment) return 0;
+
+  const key = `${name}:${connectionSize ?? ''}`;
+  const known = walk.fragmentCosts.get(key);
+  if (known !== undefined) return known;
+
+  if (walk.expanding.has(name)) {
+    throw new GraphQLError(`Cannot spread fragment "${name}" within itself.`, {
+      extensions: { code: 'GRAPHQL_VALIDATION_FAILED', http: { status: 400 } },
+    });
+  }
+  walk.expanding.add(name);
+  const type = walk.schema.getType(fragment.typeCondition.name.value);
+  const cost = selectionSetCost(walk, fragment.selectionSet, type, connectionSize);
+  walk.expanding.delete(name);
+
+  walk.fragmentCosts.set(key, cost);
+  return cost;
+}
+
+function selectionSetCost(
+  walk: CostWalk,
+  selectionSet: SelectionSetNode | undefined,
+  parentType: GraphQLNamedType | null | undefined,
+  connectionSize: number | null,
+): number {
+  if (!selectionSet || !parentType) return 0;
+  let cost = 0;
+
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const type = selection.typeCondition ? walk.schema.getType(selection.typeCondition.name.value) : parentType;
+      cost += selectionSetCost(walk, selection.selectionSet, type, connectionSize);
+      continue;
+    }
+
+    if (selection.kind === Kind.FRAGMENT_SPREAD) {
+      cost += fragmentSpreadCost(walk, selection.name.value, connectionSize);
+      continue;
+    }
+
+    // Introspection (__typename, __schema) and unknown fields are free;
+    // validation has already rejected the latter.
+    if (!isObjectType(parentType) && !isInterfaceType(parentType)) continue;
+    const fieldDef = parentType.getFields()[selection.name.value];
+    if (!fieldDef) continue;
+
+    const namedType = getNamedType(fieldDef.type);
+    if (isLeafType(namedType)) continue;
+
+    const pageSize = pageSizeArgument(selection, walk.variables);
+    const multiplier = isListType(getNullableType(fieldDef.type))
+      ? pageSize ?? connectionSize ?? DEFAULT_LIST_SIZE
+      : 1;
+
+    // A connection's page size applies to its edges/items lists
+    const childConnectionSize = namedType.name.endsWith('Connection')
+      ? pageSize ?? DEFAULT_PAGE_SIZE
+      : null;
+
+    cost += multiplier * (1 + selectionSetCost(walk, selection.selectionSet, namedType, childConnectionSize));
+  }
+
+  return cost;
+}
+
+/**
+ * Cost of the operation `operationName` selects (or the only one) in
+ * `document`. Throws a GraphQLError when fragments spread each other in a
+ * cycle, which validation normally rejects first.
+ */
+export function calculateQueryCost(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  variables: Record<string, unknown> = {},
+  operationName?: string | null,
+): number {
+  const fragments: Record<string, FragmentDefinitionNode> = {};
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments[definition.name.value] = definition;
+    }
+  }
+
+  const operation = document.definitions.find(
+    (definition) =>
+      definition.kind === Kind.OPERATION_DEFINITION &&
+      (!operationName || definition.name?.value === operationName),
+  );
+  if (!operation || operation.kind !== Kind.OPERATION_DEFINITION) return 0;
+
+  const rootType =
+    operation.operation === 'mutation'
+      ? schema.getMutationType()
+      : operation.operation === 'subscription'
+        ? schema.getSubscriptionType()
+        : schema.getQueryType();
+
+  const walk: CostWalk = { schema, fragments, variables, fragmentCosts: new Map(), expanding: new Set() };
+  const cost = selectionSetCost(walk, operation.selectionSet, rootType, null);
+  if (operation.operation !== 'mutation') return cost;
+
+  const mutationFields = operation.selectionSet.selections.filter((s) => s.kind === Kind.FIELD).length;
+  return cost + mutationFields * MUTATION_BASE_COST;
+}
+
+// ============================================================
+// Enforce limits — shared by the Apollo plugin and subscriptions
+// ============================================================
+
+export interface QueryCostExtension {
+  requestedQueryCost: number;
+  maximumQueryCost: number;
+  /** Per-minute budget of the calling API key; absent for user tokens */
+  budget?: QueryCostBudget;
+}
+
+/**
+ * Prices an operation and, for API keys, charges it against the key's
+ * per-minute budget. Returns the error to report instead of running the
+ * operation, if any; over-budget operations are not charged.
+ */
+export async function checkQueryCost(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  variables: Record<string, unknown>,
+  operationName: string | null | undefined,
+  context: GraphQLContext,
+): Promise<{ extension: QueryCostExtension; error: GraphQLError | null }> {
+  const cost = calculateQueryCost(schema, document, variables, operationName);
+  const extension: QueryCostExtension = { requestedQueryCost: cost, maximumQueryCost: MAX_QUERY_COST };
+
+  if (cost > MAX_QUERY_COST) {
+    const error = new GraphQLError(
+      `Query cost of ${cost} exceeds maximum allowed cost of ${MAX_QUERY_COST}. Request fewer items with first/limit or select less nesting.`,
+      { extensions: { code: 'QUERY_TOO_COMPLEX', http: { status: 400 } } },
+    );
+    return { extension, error };
+  }
+
+  if (!context.apiKeyId) return { extension, error: null };
+
+  const { allowed, budget } = await chargeQueryCost(context.organizationId, context.apiKeyId, cost);
+  extension.budget = budget;
+  if (allowed) return { extension, error: null };
+
+  const error = new GraphQLError(
+    `Query cost of ${cost} exceeds the remaining budget of ${budget.remaining} for this API key. Budget resets at ${budget.resetAt}.`,
+    { extensions: { code: 'COST_BUDGET_EXCEEDED', http: { status: 429 } } },
+  );
+  return { extension, error };
+}
+
+/**
+ * Rejects operations above MAX_QUERY_COST, charges API keys against their
+ * per-minute cost budget, and reports both under `extensions.cost` so
+ * integrators can tune their queries.
+ */
+export const queryCostPlugin: ApolloServerPlugin<GraphQLContext> = {
+  async requestDidStart() {
+    let extension: QueryCostExtension | null = null;
+
+    return {
+      async didResolveOperation({ schema, document, request, contextValue }) {
+        const checked = await checkQueryCost(
+          schema,
+          document,
+          request.variables ?? {},
+          request.operationName,
+          contextValue,
+        );
+        extension = checked.extension;
+        if (checked.error) throw checked.error;
+      },
+
+      async willSendResponse({ response }) {
+        if (!extension || response.body.kind !== 'single') return;
+        response.body.singleResult.extensions = {
+          ...response.body.singleResult.extensions,
+          cost: extension,
+        };
+      },
+    };
+  },
+};
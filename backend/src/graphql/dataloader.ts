@@ -9,6 +9,7 @@ import type {
   AccountBrief,
   ContactIdentity,
   SignalSource,
+  Tag,
   User,
 } from '@prisma/client';
 
@@ -23,6 +24,9 @@ export interface DataLoaders {
   signalsByAccountId: DataLoader<string, Signal[]>;
   signalsByActorId: DataLoader<string, Signal[]>;
   identitiesByContactId: DataLoader<string, ContactIdentity[]>;
+  tagsByCompanyId: DataLoader<string, Tag[]>;
+  tagsByContactId: DataLoader<string, Tag[]>;
+  tagsByDealId: DataLoader<string, Tag[]>;
 
   // One-to-one by unique/primary key
   scoreByAccountId: DataLoader<string, AccountScore | null>;
@@ -37,10 +41,17 @@ export interface DataLoaders {
 // Factory — creates a fresh set of loaders per request
 // ============================================================
 
+/**
+ * `cache: false` keeps batching but drops memoization, for long-lived
+ * contexts such as GraphQL subscriptions where cached rows would go stale.
+ */
 export function createLoaders(
   prisma: PrismaClient,
   organizationId: string,
+  { cache = true }: { cache?: boolean } = {},
 ): DataLoaders {
+  const options = { cache };
+
   // ----------------------------------------------------------
   // One-to-many loaders
   // ----------------------------------------------------------
@@ -59,6 +70,7 @@ export function createLoaders(
       });
       return companyIds.map((id) => map.get(id) || []);
     },
+    options,
   );
 
   const dealsByCompanyId = new DataLoader<string, Deal[]>(
@@ -75,6 +87,7 @@ export function createLoaders(
       });
       return companyIds.map((id) => map.get(id) || []);
     },
+    options,
   );
 
   const signalsByAccountId = new DataLoader<string, Signal[]>(
@@ -92,6 +105,7 @@ export function createLoaders(
       });
       return accountIds.map((id) => map.get(id) || []);
     },
+    options,
   );
 
   const signalsByActorId = new DataLoader<string, Signal[]>(
@@ -109,6 +123,7 @@ export function createLoaders(
       });
       return actorIds.map((id) => map.get(id) || []);
     },
+    options,
   );
 
   const identitiesByContactId = new DataLoader<string, ContactIdentity[]>(
@@ -121,6 +136,50 @@ export function createLoaders(
       identities.forEach((i) => map.get(i.contactId)?.push(i));
       return contactIds.map((id) => map.get(id) || []);
     },
+    options,
+  );
+
+  // Tags come through the join tables; the tag's org scopes the lookup
+  const tagsByCompanyId = new DataLoader<string, Tag[]>(
+    async (companyIds) => {
+      const links = await prisma.companyTag.findMany({
+        where: { companyId: { in: [...companyIds] }, tag: { organizationId } },
+        include: { tag: true },
+      });
+      const map = new Map<string, Tag[]>();
+      companyIds.forEach((id) => map.set(id, []));
+      links.forEach((l) => map.get(l.companyId)?.push(l.tag));
+      return companyIds.map((id) => map.get(id) || []);
+    },
+    options,
+  );
+
+  const tagsByContactId = new DataLoader<string, Tag[]>(
+    async (contactIds) => {
+      const links = await prisma.contactTag.findMany({
+        where: { contactId: { in: [...contactIds] }, tag: { organizationId } },
+        include: { tag: true },
+      });
+      const map = new Map<string, Tag[]>();
+      contactIds.forEach((id) => map.set(id, []));
+      links.forEach((l) => map.get(l.contactId)?.push(l.tag));
+      return contactIds.map((id) => map.get(id) || []);
+    },
+    options,
+  );
+
+  const tagsByDealId = new DataLoader<string, Tag[]>(
+    async (dealIds) => {
+      const links = await prisma.dealTag.findMany({
+        where: { dealId: { in: [...dealIds] }, tag: { organizationId } },
+        include: { tag: true },
+      });
+      const map = new Map<string, Tag[]>();
+      dealIds.forEach((id) => map.set(id, []));
+      links.forEach((l) => map.get(l.dealId)?.push(l.tag));
+      return dealIds.map((id) => map.get(id) || []);
+    },
+    options,
   );
 
   // ----------------------------------------------------------
@@ -137,6 +196,7 @@ export function createLoaders(
       );
       return accountIds.map((id) => map.get(id) ?? null);
     },
+    options,
   );
 
   const briefByAccountId = new DataLoader<string, AccountBrief | null>(
@@ -156,6 +216,7 @@ export function createLoaders(
       });
       return accountIds.map((id) => map.get(id) ?? null);
     },
+    options,
   );
 
   const companyById = new DataLoader<string, Company | null>(
@@ -168,6 +229,7 @@ export function createLoaders(
       );
       return ids.map((id) => map.get(id) ?? null);
     },
+    options,
   );
 
   const contactById = new DataLoader<string, Contact | null>(
@@ -180,6 +242,7 @@ export function createLoaders(
       );
       return ids.map((id) => map.get(id) ?? null);
     },
+    options,
   );
 
   const userById = new DataLoader<string, User | null>(
@@ -193,6 +256,7 @@ export function createLoaders(
       );
       return ids.map((id) => map.get(id) ?? null);
     },
+    options,
   );
 
   const signalSourceById = new DataLoader<string, SignalSource | null>(
@@ -205,6 +269,7 @@ export function createLoaders(
       );
       return ids.map((id) => map.get(id) ?? null);
     },
+    options,
   );
 
   return {
@@ -213,6 +278,9 @@ export function createLoaders(
     signalsByAccountId,
     signalsByActorId,
     identitiesByContactId,
+    tagsByCompanyId,
+    tagsByContactId,
+    tagsByDealId,
     scoreByAccountId,
     briefByAccountId,
     companyById,
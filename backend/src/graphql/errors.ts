@@ -0,0 +1,235 @@
+import { Prisma } from '@prisma/client';
+import { GraphQLError } from 'graphql';
+import { ZodError } from 'zod';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// ============================================================
+// Typed mutation errors
+// ============================================================
+//
+// Mutations never throw for expected failures. Each payload carries an
+// `errors` list of concrete MutationError types so clients can branch on
+// `__typename` (or `code`) instead of parsing top-level GraphQL errors.
+
+export type MutationErrorCode =
+  | 'VALIDATION'
+  | 'NOT_FOUND'
+  | 'FORBIDDEN'
+  | 'CONFLICT'
+  | 'LIMIT_EXCEEDED'
+  | 'INTERNAL';
+
+interface BaseMutationError {
+  code: MutationErrorCode;
+  message: string;
+}
+
+export interface ValidationError extends BaseMutationError {
+  __typename: 'ValidationError';
+  code: 'VALIDATION';
+  /** Dotted path of the offending input field, when known */
+  field: string | null;
+}
+
+export interface NotFoundError extends BaseMutationError {
+  __typename: 'NotFoundError';
+  code: 'NOT_FOUND';
+  resource: string | null;
+  id: string | null;
+}
+
+export interface ForbiddenError extends BaseMutationError {
+  __typename: 'ForbiddenError';
+  code: 'FORBIDDEN';
+  /** API key scope the operation needs, when a scope was the reason */
+  requiredScope: string | null;
+}
+
+export interface ConflictError extends BaseMutationError {
+  __typename: 'ConflictError';
+  code: 'CONFLICT';
+}
+
+export interface LimitExceededError extends BaseMutationError {
+  __typename: 'LimitExceededError';
+  code: 'LIMIT_EXCEEDED';
+  limit: number;
+  current: number;
+}
+
+export interface InternalError extends BaseMutationError {
+  __typename: 'InternalError';
+  code: 'INTERNAL';
+}
+
+export type MutationError =
+  | ValidationError
+  | NotFoundError
+  | ForbiddenError
+  | ConflictError
+  | LimitExceededError
+  | InternalError;
+
+/**
+ * Thrown inside a mutation to end it with the given typed errors.
+ * `runMutation` turns it into the payload's `errors` list.
+ */
+export class MutationFailure extends Error {
+  public readonly errors: MutationError[];
+
+  constructor(errors: MutationError | MutationError[]) {
+    const list = Array.isArray(errors) ? errors : [errors];
+    super(list[0]?.message ?? 'Mutation failed');
+    this.errors = list;
+    Object.setPrototypeOf(this, MutationFailure.prototype);
+  }
+}
+
+// ============================================================
+// Constructors
+// ============================================================
+
+export const validationError = (message: string, field: string | null = null): ValidationError => ({
+  __typename: 'ValidationError',
+  code: 'VALIDATION',
+  message,
+  field,
+});
+
+export const notFoundError = (resource: string, id: string | null = null): NotFoundError => ({
+  __typename: 'NotFoundError',
+  code: 'NOT_FOUND',
+  message: `${resource} not found`,
+  resource,
+  id,
+});
+
+export const forbiddenError = (message: string, requiredScope: string | null = null): ForbiddenError => ({
+  __typename: 'ForbiddenError',
+  code: 'FORBIDDEN',
+  message,
+  requiredScope,
+});
+
+export const conflictError = (message: string): ConflictError => ({
+  __typename: 'ConflictError',
+  code: 'CONFLICT',
+  message,
+});
+
+export const limitExceededError = (message: string, limit: number, current: number): LimitExceededError => ({
+  __typename: 'LimitExceededError',
+  code: 'LIMIT_EXCEEDED',
+  message,
+  limit,
+  current,
+});
+
+const internalError = (): InternalError => ({
+  __typename: 'InternalError',
+  code: 'INTERNAL',
+  message: 'Internal server error',
+});
+
+// ============================================================
+// Mapping thrown errors to typed errors
+// ============================================================
+
+/**
+ * "Company not found" → "Account"; fills NotFoundError.resource using the
+ * GraphQL names (companies are exposed as accounts).
+ */
+function resourceFromMessage(message: string): string {
+  const resource = message.replace(/\s+not found.*$/i, '').trim() || 'Resource';
+  return resource === 'Company' ? 'Account' : resource;
+}
+
+/**
+ * Maps anything a service can throw to typed errors: zod issues become
+ * ValidationErrors, AppError (and `statusCode` errors) map by status, known
+ * Prisma request errors map to conflicts and not-founds. Everything else is
+ * logged and reported as a generic InternalError so no internals leak.
+ */
+export function toMutationErrors(error: unknown): MutationError[] {
+  if (error instanceof MutationFailure) return error.errors;
+
+  if (error instanceof ZodError) {
+    return error.issues.map((issue) =>
+      validationError(issue.message, issue.path.length > 0 ? issue.path.join('.') : null),
+    );
+  }
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2002') {
+      const target = (error.meta?.target as string[] | string | undefined) ?? [];
+      const fields = Array.isArray(target) ? target.join(', ') : target;
+      return [conflictError(fields ? `A record with this ${fields} already exists` : 'Record already exists')];
+    }
+    if (error.code === 'P2025') {
+      return [notFoundError('Record')];
+    }
+  }
+
+  const statusCode =
+    error instanceof AppError
+      ? error.statusCode
+      : error instanceof Error && typeof (error as { statusCode?: unknown }).statusCode === 'number'
+        ? (error as Error & { statusCode: number }).statusCode
+        : null;
+
+  if (statusCode !== null && error instanceof Error && statusCode < 500) {
+    switch (statusCode) {
+      case 400:
+      case 422:
+        return [validationError(error.message)];
+      case 401:
+      case 403:
+        return [forbiddenError(error.message)];
+      case 404:
+        return [notFoundError(resourceFromMessage(error.message))];
+      case 409:
+        return [conflictError(error.message)];
+      default:
+        return [validationError(error.message)];
+    }
+  }
+
+  logger.error('GraphQL mutation error:', error);
+  return [internalError()];
+}
+
+/**
+ * Runs a mutation body and shapes its payload: the result fields plus an
+ * empty `errors` list on success, or only `errors` on failure.
+ */
+export async function runMutation<T extends object>(
+  fn: () => Promise<T>,
+): Promise<Partial<T> & { errors: MutationError[] }> {
+  try {
+    const result = await fn();
+    return { ...result, errors: [] };
+  } catch (error) {
+    return { errors: toMutationErrors(error) } as Partial<T> & { errors: MutationError[] };
+  }
+}
+
+/** Query-side counterpart: queries have no payload, so denial is a GraphQL error. */
+export function forbiddenQuery(requiredScope: string): GraphQLError {
+  return new GraphQLError(`API key is missing the ${requiredScope} scope`, {
+    extensions: { code: 'FORBIDDEN', requiredScope },
+  });
+}
+
+/** Query-side invalid arguments (bad cursors, malformed filter values). */
+export function badUserInput(message: string, argument: string): GraphQLError {
+  return new GraphQLError(message, {
+    extensions: { code: 'BAD_USER_INPUT', argument },
+  });
+}
+
+export const mutationErrorResolvers = {
+  MutationError: {
+    __resolveType: (error: MutationError) => error.__typename,
+  },
+};
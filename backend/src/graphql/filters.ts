@@ -0,0 +1,244 @@
+import { Prisma } from '@prisma/client';
+import { badUserInput } from './errors';
+import type { SortOptions } from './pagination';
+
+// ============================================================
+// Typed filter inputs → Prisma where clauses
+// ============================================================
+//
+// Every clause is scoped to the caller's organization first, so the
+// keyset queries stay on the [organizationId, <sort field>] indexes.
+
+export interface DateRange {
+  /** Inclusive lower bound (ISO 8601) */
+  from?: string | null;
+  /** Inclusive upper bound (ISO 8601) */
+  to?: string | null;
+}
+
+export interface NumberRange {
+  min?: number | null;
+  max?: number | null;
+}
+
+export interface CustomFieldFilter {
+  key: string;
+  equals: unknown;
+}
+
+interface EntityFilter {
+  /** Matches records carrying any of these tag names */
+  tags?: string[] | null;
+  /** Every entry must match */
+  customFields?: CustomFieldFilter[] | null;
+  createdAt?: DateRange | null;
+  updatedAt?: DateRange | null;
+}
+
+export interface AccountFilter extends EntityFilter {
+  search?: string | null;
+  industry?: string | null;
+  size?: string[] | null;
+  tier?: string[] | null;
+  score?: NumberRange | null;
+}
+
+export interface ContactFilter extends EntityFilter {
+  search?: string | null;
+  companyId?: string | null;
+  tier?: string[] | null;
+  score?: NumberRange | null;
+}
+
+export interface DealFilter extends EntityFilter {
+  search?: string | null;
+  stage?: string[] | null;
+  companyId?: string | null;
+  contactId?: string | null;
+  ownerId?: string | null;
+  amount?: NumberRange | null;
+  expectedCloseDate?: DateRange | null;
+}
+
+export interface SignalFilter {
+  types?: string[] | null;
+  accountId?: string | null;
+  actorId?: string | null;
+  sourceId?: string | null;
+  timestamp?: DateRange | null;
+  accountTier?: string[] | null;
+  accountScore?: NumberRange | null;
+}
+
+// ============================================================
+// Sort options (keys are the *SortField enum values)
+// ============================================================
+
+export const ACCOUNT_SORT: SortOptions = {
+  CREATED_AT: { field: 'createdAt', type: 'date' },
+  UPDATED_AT: { field: 'updatedAt', type: 'date' },
+  NAME: { field: 'name', type: 'string' },
+};
+
+export const CONTACT_SORT: SortOptions = {
+  CREATED_AT: { field: 'createdAt', type: 'date' },
+  UPDATED_AT: { field: 'updatedAt', type: 'date' },
+  FIRST_NAME: { field: 'firstName', type: 'string' },
+  LAST_NAME: { field: 'lastName', type: 'string' },
+};
+
+export const DEAL_SORT: SortOptions = {
+  CREATED_AT: { field: 'createdAt', type: 'date' },
+  UPDATED_AT: { field: 'updatedAt', type: 'date' },
+  TITLE: { field: 'title', type: 'string' },
+  AMOUNT: { field: 'amount', type: 'number', nullable: true },
+  EXPECTED_CLOSE_DATE: { field: 'expectedCloseDate', type: 'date', nullable: true },
+};
+
+export const SIGNAL_SORT: SortOptions = {
+  TIMESTAMP: { field: 'timestamp', type: 'date' },
+  CREATED_AT: { field: 'createdAt', type: 'date' },
+};
+
+// ============================================================
+// Shared clauses
+// ============================================================
+
+function parseDate(value: string, argument: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw badUserInput(`Invalid date for ${argument}: ${value}`, argument);
+  }
+  return date;
+}
+
+function dateRange(range: DateRange | null | undefined, argument: string) {
+  if (!range || (!range.from && !range.to)) return undefined;
+  const clause: Record<string, Date> = {};
+  if (range.from) clause.gte = parseDate(range.from, `${argument}.from`);
+  if (range.to) clause.lte = parseDate(range.to, `${argument}.to`);
+  return clause;
+}
+
+function numberRange(range: NumberRange | null | undefined) {
+  if (!range || (range.min == null && range.max == null)) return undefined;
+  const clause: Record<string, number> = {};
+  if (range.min != null) clause.gte = range.min;
+  if (range.max != null) clause.lte = range.max;
+  return clause;
+}
+
+/** AccountScore / ContactScore relation filter */
+function scoreClause(tier: string[] | null | undefined, score: NumberRange | null | undefined) {
+  const clause: Record<string, unknown> = {};
+  if (tier?.length) clause.tier = { in: tier };
+  const range = numberRange(score);
+  if (range) clause.score = range;
+  return Object.keys(clause).length > 0 ? clause : undefined;
+}
+
+function containsAny(fields: string[], search: string) {
+  return fields.map((field) => ({ [field]: { contains: search, mode: 'insensitive' } }));
+}
+
+/** Tags, custom fields and created/updated ranges, common to CRM entities */
+function entityClauses(where: Record<string, unknown>, filter: EntityFilter): Record<string, unknown> {
+  if (filter.tags?.length) {
+    where.tags = { some: { tag: { name: { in: filter.tags } } } };
+  }
+
+  if (filter.customFields?.length) {
+    // JSON null has to be spelled out for Prisma's JSON path filter
+    where.AND = filter.customFields.map(({ key, equals }) => ({
+      customFields: { path: [key], equals: equals === null ? Prisma.JsonNull : equals },
+    }));
+  }
+
+  const createdAt = dateRange(filter.createdAt, 'createdAt');
+  if (createdAt) where.createdAt = createdAt;
+
+  const updatedAt = dateRange(filter.updatedAt, 'updatedAt');
+  if (updatedAt) where.updatedAt = updatedAt;
+
+  return where;
+}
+
+// ============================================================
+// Per-entity where builders
+// ============================================================
+
+export function accountWhere(organizationId: string, filter: AccountFilter = {}): Record<string, unknown> {
+  const where: Record<string, unknown> = { organizationId };
+
+  if (filter.search) {
+    where.OR = containsAny(['name', 'domain', 'industry'], filter.search);
+  }
+  if (filter.industry) {
+    where.industry = { equals: filter.industry, mode: 'insensitive' };
+  }
+  if (filter.size?.length) {
+    where.size = { in: filter.size };
+  }
+
+  const score = scoreClause(filter.tier, filter.score);
+  if (score) where.score = score;
+
+  return entityClauses(where, filter);
+}
+
+export function contactWhere(organizationId: string, filter: ContactFilter = {}): Record<string, unknown> {
+  const where: Record<string, unknown> = { organizationId };
+
+  if (filter.search) {
+    where.OR = containsAny(['firstName', 'lastName', 'email'], filter.search);
+  }
+  if (filter.companyId) {
+    where.companyId = filter.companyId;
+  }
+
+  const score = scoreClause(filter.tier, filter.score);
+  if (score) where.leadScore = score;
+
+  return entityClauses(where, filter);
+}
+
+export function dealWhere(organizationId: string, filter: DealFilter = {}): Record<string, unknown> {
+  const where: Record<string, unknown> = { organizationId };
+
+  if (filter.search) {
+    where.OR = containsAny(['title', 'description'], filter.search);
+  }
+  if (filter.stage?.length) {
+    where.stage = { in: filter.stage };
+  }
+  if (filter.companyId) where.companyId = filter.companyId;
+  if (filter.contactId) where.contactId = filter.contactId;
+  if (filter.ownerId) where.ownerId = filter.ownerId;
+
+  const amount = numberRange(filter.amount);
+  if (amount) where.amount = amount;
+
+  const expectedCloseDate = dateRange(filter.expectedCloseDate, 'expectedCloseDate');
+  if (expectedCloseDate) where.expectedCloseDate = expectedCloseDate;
+
+  return entityClauses(where, filter);
+}
+
+export function signalWhere(organizationId: string, filter: SignalFilter = {}): Record<string, unknown> {
+  const where: Record<string, unknown> = { organizationId };
+
+  if (filter.types?.length) {
+    where.type = { in: filter.types };
+  }
+  if (filter.accountId) where.accountId = filter.accountId;
+  if (filter.actorId) where.actorId = filter.actorId;
+  if (filter.sourceId) where.sourceId = filter.sourceId;
+
+  const timestamp = dateRange(filter.timestamp, 'timestamp');
+  if (timestamp) where.timestamp = timestamp;
+
+  const score = scoreClause(filter.accountTier, filter.accountScore);
+  if (score) where.account = { score };
+
+  return where;
+}
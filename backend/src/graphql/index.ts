@@ -1,14 +1,22 @@
 import { ApolloServer, HeaderMap } from '@apollo/server';
+import { makeExecutableSchema } from '@graphql-tools/schema';
 import type { Application, Request, Response } from 'express';
-import { GraphQLError, Kind } from 'graphql';
-import type { ASTVisitor, SelectionSetNode, ValidationContext } from 'graphql';
+import type { IncomingHttpHeaders } from 'http';
+import { GraphQLError, Kind, parse, specifiedRules, validate } from 'graphql';
+import type { ASTVisitor, DocumentNode, GraphQLSchema, SelectionSetNode, ValidationContext } from 'graphql';
+import { useServer } from 'graphql-ws/lib/use/ws';
+import { WebSocketServer } from 'ws';
 import { prisma } from '../config/database';
 import { config } from '../config';
 import { verifyAccessToken } from '../utils/jwt';
+import { extractApiKey } from '../middleware/api-key-auth';
+import { validateApiKey } from '../services/api-keys';
+import { registerWebSocketRoute } from '../services/websocket';
 import { logger } from '../utils/logger';
 import typeDefs from './typeDefs';
 import resolvers, { type GraphQLContext } from './resolvers';
 import { createLoaders } from './dataloader';
+import { checkQueryCost, queryCostPlugin } from './cost';
 
 // ============================================================
 // Query depth limiting — prevents deeply nested queries that
@@ -17,23 +25,28 @@ import { createLoaders } from './dataloader';
 
 function createDepthLimitRule(maxDepth: number) {
   return (context: ValidationContext): ASTVisitor => {
+    // Stops once past maxDepth and skips fragments already on the current
+    // path; NoFragmentCyclesRule reports the cycle itself.
     const measureDepth = (
       selectionSet: SelectionSetNode | undefined,
-      depth: number
+      depth: number,
+      spreading: Set<string> = new Set(),
     ): number => {
-      if (!selectionSet) return depth;
+      if (!selectionSet || depth > maxDepth) return depth;
       let max = depth;
       for (const sel of selectionSet.selections) {
         if (sel.kind === Kind.FIELD) {
-          const d = measureDepth(sel.selectionSet, depth + 1);
+          const d = measureDepth(sel.selectionSet, depth + 1, spreading);
           if (d > max) max = d;
         } else if (sel.kind === Kind.INLINE_FRAGMENT && sel.selectionSet) {
-          const d = measureDepth(sel.selectionSet, depth);
+          const d = measureDepth(sel.selectionSet, depth, spreading);
           if (d > max) max = d;
-        } else if (sel.kind === Kind.FRAGMENT_SPREAD) {
+        } else if (sel.kind === Kind.FRAGMENT_SPREAD && !spreading.has(sel.name.value)) {
           const frag = context.getFragment(sel.name.value);
           if (frag) {
-            const d = measureDepth(frag.selectionSet, depth);
+            spreading.add(sel.name.value);
+            const d = measureDepth(frag.selectionSet, depth, spreading);
+            spreading.delete(sel.name.value);
             if (d > max) max = d;
           }
         }
@@ -47,7 +60,7 @@ function createDepthLimitRule(maxDepth: number) {
         if (depth > maxDepth) {
           context.reportError(
             new GraphQLError(
-              `Query depth of ${depth} exceeds maximum allowed depth of ${maxDepth}.`,
+              `Query depth exceeds maximum allowed depth of ${maxDepth}.`,
               { nodes: [node] }
             )
           );
@@ -57,23 +70,58 @@ function createDepthLimitRule(maxDepth: number) {
   };
 }
 
+const MAX_QUERY_DEPTH = 5;
+
+const GRAPHQL_PATH = '/api/v1/graphql';
+
 // ============================================================
-// Apollo Server instance
+// Schema + Apollo Server instance
 // ============================================================
 
+// Built once and shared by Apollo (HTTP) and graphql-ws (subscriptions)
+const schema = makeExecutableSchema({ typeDefs, resolvers });
+
 const server = new ApolloServer<GraphQLContext>({
-  typeDefs,
-  resolvers,
+  schema,
   introspection: config.nodeEnv !== 'production',
-  validationRules: [createDepthLimitRule(5)],
+  validationRules: [createDepthLimitRule(MAX_QUERY_DEPTH)],
+  // Static cost limit, per-API-key budgets and extensions.cost reporting
+  plugins: [queryCostPlugin],
 });
 
 // ============================================================
-// Build GraphQL context from an Express request
+// Build GraphQL context from request headers
 // ============================================================
 
-async function buildContext(req: Request): Promise<GraphQLContext> {
-  const authHeader = req.headers.authorization;
+/**
+ * Authenticates with an API key (x-api-key or `Bearer ds_live_*`) or a user
+ * JWT plus x-organization-id. `cacheLoaders: false` is for long-lived
+ * subscription contexts, where memoized rows would go stale.
+ */
+async function buildContext(
+  headers: IncomingHttpHeaders,
+  { cacheLoaders = true }: { cacheLoaders?: boolean } = {},
+): Promise<GraphQLContext> {
+  // API keys carry their organization and scopes; no x-organization-id needed
+  const rawKey = extractApiKey({ headers });
+  if (rawKey) {
+    const apiKey = await validateApiKey(rawKey);
+    if (!apiKey) {
+      throw new Error('Invalid or expired API key');
+    }
+
+    return {
+      userId: null,
+      organizationId: apiKey.organizationId,
+      orgRole: null,
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes,
+      prisma,
+      loaders: createLoaders(prisma, apiKey.organizationId, { cache: cacheLoaders }),
+    };
+  }
+
+  const authHeader = headers.authorization;
 
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     throw new Error('Missing or invalid authorization header');
@@ -82,7 +130,7 @@ async function buildContext(req: Request): Promise<GraphQLContext> {
   const token = authHeader.substring(7);
   const payload = verifyAccessToken(token);
 
-  const organizationId = req.headers['x-organization-id'] as string | undefined;
+  const organizationId = headers['x-organization-id'] as string | undefined;
 
   if (!organizationId) {
     throw new Error('Missing x-organization-id header');
@@ -103,11 +151,14 @@ async function buildContext(req: Request): Promise<GraphQLContext> {
   }
 
   // Create fresh DataLoaders per request for proper batching isolation
-  const loaders = createLoaders(prisma, organizationId);
+  const loaders = createLoaders(prisma, organizationId, { cache: cacheLoaders });
 
   return {
     userId: payload.userId,
     organizationId,
+    orgRole: userOrg.role,
+    apiKeyId: null,
+    scopes: null,
     prisma,
     loaders,
   };
@@ -122,13 +173,16 @@ async function graphqlHandler(req: Request, res: Response): Promise<void> {
     // Build the context (auth + org resolution)
     let contextValue: GraphQLContext;
     try {
-      contextValue = await buildContext(req);
+      contextValue = await buildContext(req.headers);
     } catch (authError) {
       const message = authError instanceof Error ? authError.message : 'Authentication failed';
       res.status(401).json({ errors: [{ message }] });
       return;
     }
 
+    // Lets the api-usage tracker attribute GraphQL requests to the org
+    req.organizationId = contextValue.organizationId;
+
     // Convert Express headers to Apollo HeaderMap
     const headers = new HeaderMap();
     for (const [key, value] of Object.entries(req.headers)) {
@@ -174,6 +228,92 @@ async function graphqlHandler(req: Request, res: Response): Promise<void> {
   }
 }
 
+// ============================================================
+// Subscriptions over WebSocket (graphql-ws protocol)
+// ============================================================
+
+/**
+ * Browsers cannot set headers on WebSocket upgrades, so credentials may also
+ * come in the connection_init payload, as headers or camelCase keys.
+ */
+function connectionHeaders(
+  request: { headers: IncomingHttpHeaders },
+  params: Record<string, unknown> | undefined,
+): IncomingHttpHeaders {
+  const headers: IncomingHttpHeaders = { ...request.headers };
+  const param = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = params?.[key];
+      if (typeof value === 'string' && value) return value;
+    }
+    return undefined;
+  };
+
+  const authorization = param('authorization', 'Authorization');
+  const apiKey = param('x-api-key', 'apiKey');
+  const organizationId = param('x-organization-id', 'organizationId');
+  if (authorization) headers.authorization = authorization;
+  if (apiKey) headers['x-api-key'] = apiKey;
+  if (organizationId) headers['x-organization-id'] = organizationId;
+  return headers;
+}
+
+function validateSubscription(subscriptionSchema: GraphQLSchema, document: DocumentNode) {
+  return validate(subscriptionSchema, document, [...specifiedRules, createDepthLimitRule(MAX_QUERY_DEPTH)]);
+}
+
+function setupSubscriptions(): void {
+  const wsServer = new WebSocketServer({ noServer: true, perMessageDeflate: false });
+
+  useServer<Record<string, unknown>, { graphqlContext: GraphQLContext }>(
+    {
+      schema,
+      validate: validateSubscription,
+      // Authenticate once per connection; returning false closes it with 4403
+      onConnect: async (ctx) => {
+        try {
+          const headers = connectionHeaders(ctx.extra.request, ctx.connectionParams);
+          ctx.extra.graphqlContext = await buildContext(headers, { cacheLoaders: false });
+          return true;
+        } catch (error) {
+          logger.warn('GraphQL subscription auth failed', {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return false;
+        }
+      },
+      // graphql-ws bypasses Apollo's plugins, so price and charge here, once
+      // the document is known to be valid (no fragment cycles, bounded depth).
+      // Unparseable documents fall through to graphql-ws's own error.
+      onSubscribe: async (ctx, message) => {
+        const context = ctx.extra.graphqlContext;
+        if (!context) return undefined; // onConnect refused the connection
+        let document: DocumentNode;
+        try {
+          document = parse(message.payload.query);
+        } catch {
+          return undefined;
+        }
+        const validationErrors = validateSubscription(schema, document);
+        if (validationErrors.length > 0) return validationErrors;
+
+        const { error } = await checkQueryCost(
+          schema,
+          document,
+          message.payload.variables ?? {},
+          message.payload.operationName,
+          context,
+        );
+        return error ? [error] : undefined;
+      },
+      context: (ctx) => ctx.extra.graphqlContext,
+    },
+    wsServer,
+  );
+
+  registerWebSocketRoute(GRAPHQL_PATH, wsServer);
+}
+
 // ============================================================
 // Setup function — call from app entrypoint
 // ============================================================
@@ -185,7 +325,10 @@ export async function setupGraphQL(app: Application): Promise<void> {
   logger.info('Apollo GraphQL server started');
 
   // Mount the handler — express.json() is already applied globally in src/index.ts
-  app.all('/api/v1/graphql', graphqlHandler);
+  app.all(GRAPHQL_PATH, graphqlHandler);
+
+  // WebSocket upgrades on the same path; served once initWebSocket() attaches the router
+  setupSubscriptions();
 
-  logger.info('GraphQL endpoint mounted at /api/v1/graphql');
+  logger.info(`GraphQL endpoint mounted at ${GRAPHQL_PATH} (subscriptions via graphql-ws)`);
 }
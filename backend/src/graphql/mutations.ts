@@ -0,0 +1,505 @@
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import * as companyService from '../services/companies';
+import * as contactService from '../services/contacts';
+import * as dealService from '../services/deals';
+import * as noteService from '../services/notes';
+import * as tagService from '../services/tags';
+import * as signalService from '../services/signals';
+import * as accountScoreService from '../services/account-scores';
+import * as scoringRules from '../services/scoring-rules';
+import { checkLimit, Resource } from '../services/usage';
+import {
+  emitCompanyCreated,
+  emitCompanyDeleted,
+  emitCompanyUpdated,
+  emitContactCreated,
+  emitContactDeleted,
+  emitContactUpdated,
+  emitDealCreated,
+  emitDealDeleted,
+  emitDealUpdated,
+  emitSignalIngested,
+} from '../services/entity-events';
+import { logger } from '../utils/logger';
+import type { GraphQLContext } from './resolvers';
+import { MutationFailure, limitExceededError, notFoundError, runMutation } from './errors';
+import { assertUser, assertWriteScope } from './scopes';
+
+// ============================================================
+// Input validation — mirrors the REST route schemas
+// ============================================================
+
+const COMPANY_SIZES = ['STARTUP', 'SMALL', 'MEDIUM', 'LARGE', 'ENTERPRISE'] as const;
+
+const DEAL_STAGES = [
+  'ANONYMOUS_USAGE',
+  'IDENTIFIED',
+  'ACTIVATED',
+  'TEAM_ADOPTION',
+  'EXPANSION_SIGNAL',
+  'SALES_QUALIFIED',
+  'NEGOTIATION',
+  'CLOSED_WON',
+  'CLOSED_LOST',
+] as const;
+
+const accountFields = {
+  name: z.string().min(1),
+  domain: z.string().optional(),
+  industry: z.string().optional(),
+  size: z.enum(COMPANY_SIZES).optional(),
+  email: z.string().email().optional(),
+  phone: z.string().optional(),
+  website: z.string().url().optional(),
+  address: z.string().optional(),
+  city: z.string().optional(),
+  state: z.string().optional(),
+  postalCode: z.string().optional(),
+  country: z.string().optional(),
+  linkedIn: z.string().url().optional(),
+  twitter: z.string().optional(),
+  githubOrg: z.string().optional(),
+  description: z.string().optional(),
+};
+
+const createAccountSchema = z.object(accountFields);
+const updateAccountSchema = z.object(accountFields).partial();
+
+const contactFields = {
+  firstName: z.string().min(1),
+  lastName: z.string().min(1),
+  email: z.string().email().optional(),
+  phone: z.string().optional(),
+  mobile: z.string().optional(),
+  title: z.string().optional(),
+  companyId: z.string().optional(),
+  address: z.string().optional(),
+  city: z.string().optional(),
+  state: z.string().optional(),
+  postalCode: z.string().optional(),
+  country: z.string().optional(),
+  linkedIn: z.string().url().optional(),
+  twitter: z.string().optional(),
+  github: z.string().optional(),
+  notes: z.string().optional(),
+};
+
+const createContactSchema = z.object(contactFields);
+const updateContactSchema = z.object(contactFields).partial();
+
+const dealFields = {
+  title: z.string().min(1),
+  amount: z.number().optional(),
+  currency: z.string().optional(),
+  stage: z.enum(DEAL_STAGES).optional(),
+  probability: z.number().min(0).max(100).optional(),
+  contactId: z.string().optional(),
+  companyId: z.string().optional(),
+  ownerId: z.string().optional(),
+  expectedCloseDate: z.string().datetime().optional(),
+  description: z.string().optional(),
+};
+
+const createDealSchema = z.object({
+  ...dealFields,
+  currency: z.string().default('USD'),
+  stage: z.enum(DEAL_STAGES).default('ANONYMOUS_USAGE'),
+});
+const updateDealSchema = z
+  .object({ ...dealFields, closedAt: z.string().datetime().optional() })
+  .partial();
+
+const ENTITY_TYPES = ['ACCOUNT', 'CONTACT', 'DEAL'] as const;
+type EntityTypeArg = (typeof ENTITY_TYPES)[number];
+
+/** GraphQL entity enum → the entity names notes and tags are stored under */
+const ENTITY_NAMES: Record<EntityTypeArg, tagService.TaggableEntity> = {
+  ACCOUNT: 'company',
+  CONTACT: 'contact',
+  DEAL: 'deal',
+};
+
+/** Tagging an entity needs write access to that entity */
+const ENTITY_WRITE_SCOPES: Record<EntityTypeArg, string> = {
+  ACCOUNT: 'accounts:write',
+  CONTACT: 'contacts:write',
+  DEAL: 'deals:write',
+};
+
+const createNoteSchema = z.object({
+  entityType: z.enum(ENTITY_TYPES),
+  entityId: z.string().min(1),
+  content: z.string().min(1).max(10000),
+});
+
+const tagFields = {
+  name: z.string().min(1).max(100),
+  color: z.string().max(20).nullable().optional(),
+};
+
+const createTagSchema = z.object(tagFields);
+const updateTagSchema = z.object(tagFields).partial();
+
+const signalSchema = z.object({
+  sourceId: z.string().min(1, 'sourceId is required'),
+  type: z.string().min(1, 'type is required'),
+  actorId: z.string().optional(),
+  accountId: z.string().optional(),
+  anonymousId: z.string().optional(),
+  metadata: z.record(z.unknown()).default({}),
+  idempotencyKey: z.string().optional(),
+  timestamp: z.string().datetime().optional(),
+});
+
+const signalBatchSchema = z
+  .array(signalSchema)
+  .min(1, 'At least one signal required')
+  .max(1000, 'Maximum 1000 signals per batch');
+
+// ============================================================
+// Helpers
+// ============================================================
+
+type Args<T> = { input: T };
+
+/**
+ * GraphQL sends explicit nulls for cleared optional fields; the REST schemas
+ * only know "absent", so nulls are dropped before validation.
+ */
+function withoutNulls(input: unknown): unknown {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return input;
+  return Object.fromEntries(Object.entries(input).filter(([, value]) => value !== null));
+}
+
+/** Audit logs and notifications attribute writes to the user, if any */
+function actorId(ctx: GraphQLContext): string | undefined {
+  return ctx.userId ?? undefined;
+}
+
+/** Same plan limits as the REST usage-limit middleware, which also fails open */
+async function enforcePlanLimit(ctx: GraphQLContext, resource: Resource, label: string): Promise<void> {
+  let result;
+  try {
+    result = await checkLimit(ctx.organizationId, resource);
+  } catch (error) {
+    logger.error(`Usage limit check failed for ${resource}:`, error);
+    return;
+  }
+  if (!result.allowed) {
+    throw new MutationFailure(limitExceededError(label, result.limit, result.current));
+  }
+}
+
+async function assertCompanyInOrg(ctx: GraphQLContext, id: string): Promise<void> {
+  const found = await ctx.prisma.company.findFirst({ where: { id, organizationId: ctx.organizationId }, select: { id: true } });
+  if (!found) throw new MutationFailure(notFoundError('Account', id));
+}
+
+async function assertContactInOrg(ctx: GraphQLContext, id: string): Promise<void> {
+  const found = await ctx.prisma.contact.findFirst({ where: { id, organizationId: ctx.organizationId }, select: { id: true } });
+  if (!found) throw new MutationFailure(notFoundError('Contact', id));
+}
+
+async function assertMemberOfOrg(ctx: GraphQLContext, userId: string): Promise<void> {
+  const found = await ctx.prisma.userOrganization.findUnique({
+    where: { userId_organizationId: { userId, organizationId: ctx.organizationId } },
+    select: { id: true },
+  });
+  if (!found) throw new MutationFailure(notFoundError('User', userId));
+}
+
+/** Turns a validated companyId into a relation write, after checking it belongs to the org */
+async function companyRelation(ctx: GraphQLContext, companyId: string | undefined) {
+  if (companyId === undefined) return {};
+  await assertCompanyInOrg(ctx, companyId);
+  return { company: { connect: { id: companyId } } };
+}
+
+async function dealRelations(
+  ctx: GraphQLContext,
+  ids: { companyId?: string; contactId?: string; ownerId?: string },
+) {
+  const relations: Pick<Prisma.DealCreateInput, 'company' | 'contact' | 'owner'> = {};
+  if (ids.companyId !== undefined) {
+    await assertCompanyInOrg(ctx, ids.companyId);
+    relations.company = { connect: { id: ids.companyId } };
+  }
+  if (ids.contactId !== undefined) {
+    await assertContactInOrg(ctx, ids.contactId);
+    relations.contact = { connect: { id: ids.contactId } };
+  }
+  if (ids.ownerId !== undefined) {
+    await assertMemberOfOrg(ctx, ids.ownerId);
+    relations.owner = { connect: { id: ids.ownerId } };
+  }
+  return relations;
+}
+
+// ============================================================
+// Mutation resolvers
+// ============================================================
+
+const mutationResolvers = {
+  // ---- Accounts (Company model) ----
+
+  createAccount: (_parent: unknown, args: Args<unknown>, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'accounts:write');
+      const input = createAccountSchema.parse(withoutNulls(args.input));
+      // The service connects the organization itself
+      const account = await companyService.createCompany(ctx.organizationId, input as Prisma.CompanyCreateInput);
+      emitCompanyCreated(ctx.organizationId, account, actorId(ctx));
+      return { account };
+    }),
+
+  updateAccount: (_parent: unknown, args: Args<unknown> & { id: string }, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'accounts:write');
+      const input = updateAccountSchema.parse(withoutNulls(args.input));
+      const before = await companyService.getCompanyById(args.id, ctx.organizationId);
+      const account = await companyService.updateCompany(args.id, ctx.organizationId, input);
+      emitCompanyUpdated(ctx.organizationId, account, before, actorId(ctx));
+      return { account };
+    }),
+
+  deleteAccount: (_parent: unknown, args: { id: string }, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'accounts:write');
+      await companyService.deleteCompany(args.id, ctx.organizationId);
+      emitCompanyDeleted(ctx.organizationId, args.id, actorId(ctx));
+      return { deletedId: args.id };
+    }),
+
+  // ---- Contacts ----
+
+  createContact: (_parent: unknown, args: Args<unknown>, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'contacts:write');
+      const { companyId, ...fields } = createContactSchema.parse(withoutNulls(args.input));
+      await enforcePlanLimit(ctx, 'contacts', 'Contact limit reached');
+      const contact = await contactService.createContact(ctx.organizationId, {
+        ...fields,
+        ...(await companyRelation(ctx, companyId)),
+      } as Prisma.ContactCreateInput);
+      emitContactCreated(ctx.organizationId, contact, actorId(ctx));
+      return { contact };
+    }),
+
+  updateContact: (_parent: unknown, args: Args<unknown> & { id: string }, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'contacts:write');
+      const { companyId, ...fields } = updateContactSchema.parse(withoutNulls(args.input));
+      const contact = await contactService.updateContact(args.id, ctx.organizationId, {
+        ...fields,
+        ...(await companyRelation(ctx, companyId)),
+      });
+      emitContactUpdated(ctx.organizationId, contact, actorId(ctx));
+      return { contact };
+    }),
+
+  deleteContact: (_parent: unknown, args: { id: string }, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'contacts:write');
+      await contactService.deleteContact(args.id, ctx.organizationId);
+      emitContactDeleted(ctx.organizationId, args.id, actorId(ctx));
+      return { deletedId: args.id };
+    }),
+
+  // ---- Deals ----
+
+  createDeal: (_parent: unknown, args: Args<unknown>, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'deals:write');
+      const { companyId, contactId, ownerId, ...fields } = createDealSchema.parse(withoutNulls(args.input));
+      const deal = await dealService.createDeal(ctx.organizationId, {
+        ...fields,
+        ...(await dealRelations(ctx, { companyId, contactId, ownerId })),
+      } as Prisma.DealCreateInput);
+      emitDealCreated(ctx.organizationId, deal, actorId(ctx));
+      return { deal };
+    }),
+
+  updateDeal: (_parent: unknown, args: Args<unknown> & { id: string }, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'deals:write');
+      const input = updateDealSchema.parse(withoutNulls(args.input));
+      const { companyId, contactId, ownerId, ...fields } = input;
+
+      // Capture the deal before the update for stage-change triggers and changed fields
+      const oldDeal = await dealService.getDealById(args.id, ctx.organizationId);
+      if (!oldDeal) throw new MutationFailure(notFoundError('Deal', args.id));
+
+      const deal = await dealService.updateDeal(args.id, ctx.organizationId, {
+        ...fields,
+        ...(await dealRelations(ctx, { companyId, contactId, ownerId })),
+      });
+      emitDealUpdated(ctx.organizationId, deal, oldDeal, actorId(ctx));
+      return { deal };
+    }),
+
+  deleteDeal: (_parent: unknown, args: { id: string }, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'deals:write');
+      await dealService.deleteDeal(args.id, ctx.organizationId);
+      emitDealDeleted(ctx.organizationId, args.id, actorId(ctx));
+      return { deletedId: args.id };
+    }),
+
+  // ---- Notes (authored by a user, so API keys cannot write them) ----
+
+  createNote: (_parent: unknown, args: Args<unknown>, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      const authorId = assertUser(ctx);
+      const input = createNoteSchema.parse(args.input);
+      const note = await noteService.createNote({
+        organizationId: ctx.organizationId,
+        authorId,
+        entityType: ENTITY_NAMES[input.entityType],
+        entityId: input.entityId,
+        content: input.content,
+      });
+      return { note };
+    }),
+
+  updateNote: (_parent: unknown, args: { id: string; content: string }, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      const userId = assertUser(ctx);
+      const note = await noteService.updateNote({
+        noteId: args.id,
+        organizationId: ctx.organizationId,
+        userId,
+        userRole: ctx.orgRole ?? 'VIEWER',
+        content: args.content,
+      });
+      return { note };
+    }),
+
+  deleteNote: (_parent: unknown, args: { id: string }, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      const userId = assertUser(ctx);
+      await noteService.deleteNote({
+        noteId: args.id,
+        organizationId: ctx.organizationId,
+        userId,
+        userRole: ctx.orgRole ?? 'VIEWER',
+      });
+      return { deletedId: args.id };
+    }),
+
+  // ---- Tags ----
+
+  createTag: (_parent: unknown, args: Args<unknown>, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'tags:write');
+      const input = createTagSchema.parse(args.input);
+      const tag = await tagService.createTag(ctx.organizationId, input);
+      return { tag };
+    }),
+
+  updateTag: (_parent: unknown, args: Args<unknown> & { id: string }, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'tags:write');
+      const input = updateTagSchema.parse(args.input);
+      const tag = await tagService.updateTag(args.id, ctx.organizationId, input);
+      return { tag };
+    }),
+
+  deleteTag: (_parent: unknown, args: { id: string }, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'tags:write');
+      await tagService.deleteTag(args.id, ctx.organizationId);
+      return { deletedId: args.id };
+    }),
+
+  tagEntity: (
+    _parent: unknown,
+    args: { entityType: EntityTypeArg; entityId: string; name: string; color?: string | null },
+    ctx: GraphQLContext,
+  ) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, ENTITY_WRITE_SCOPES[args.entityType]);
+      const { name, color } = createTagSchema.parse({ name: args.name, color: args.color });
+      const tag = await tagService.tagEntity(ctx.organizationId, ENTITY_NAMES[args.entityType], args.entityId, {
+        name,
+        color,
+      });
+      return { tag };
+    }),
+
+  untagEntity: (
+    _parent: unknown,
+    args: { entityType: EntityTypeArg; entityId: string; tagId: string },
+    ctx: GraphQLContext,
+  ) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, ENTITY_WRITE_SCOPES[args.entityType]);
+      const tag = await tagService.untagEntity(ctx.organizationId, ENTITY_NAMES[args.entityType], args.entityId, args.tagId);
+      return { tag };
+    }),
+
+  // ---- Signals ----
+
+  ingestSignal: (_parent: unknown, args: Args<unknown>, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'signals:write');
+      const input = signalSchema.parse(withoutNulls(args.input));
+      await enforcePlanLimit(ctx, 'signals', 'Signal limit reached');
+
+      const result = await signalService.ingestSignal(ctx.organizationId, input);
+      if (result.dropped) {
+        return { signal: null, deduplicated: false, dropped: true, droppedBy: result.droppedBy };
+      }
+
+      if (!result.deduplicated) {
+        emitSignalIngested(ctx.organizationId, result);
+      }
+      return { signal: result, deduplicated: result.deduplicated, dropped: false, droppedBy: null };
+    }),
+
+  ingestSignals: (_parent: unknown, args: { input: unknown[] }, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'signals:write');
+      const inputs = signalBatchSchema.parse((args.input ?? []).map(withoutNulls));
+      await enforcePlanLimit(ctx, 'signals', 'Signal limit reached');
+
+      const results = await signalService.ingestSignalBatch(ctx.organizationId, inputs);
+      logger.info(`GraphQL batch signal ingest: ${results.length} signals`);
+
+      return {
+        results: results.map((r, index) => ({
+          index,
+          success: r.success,
+          signal: r.signal ?? null,
+          deduplicated: r.deduplicated ?? false,
+          dropped: r.dropped ?? false,
+          droppedBy: r.droppedBy ?? null,
+          error: r.error ?? null,
+        })),
+        succeeded: results.filter((r) => r.success).length,
+        failed: results.filter((r) => !r.success).length,
+        dropped: results.filter((r) => r.dropped).length,
+      };
+    }),
+
+  // ---- Scoring ----
+
+  recomputeAccountScore: (_parent: unknown, args: { accountId: string }, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertWriteScope(ctx, 'accounts:write');
+      await assertCompanyInOrg(ctx, args.accountId);
+      const score = await accountScoreService.computeAccountScore(ctx.organizationId, args.accountId);
+      return { score };
+    }),
+
+  recomputeScores: (_parent: unknown, _args: unknown, ctx: GraphQLContext) =>
+    runMutation(async () => {
+      assertUser(ctx, 'ADMIN');
+      const config = await scoringRules.getScoringConfig(ctx.organizationId);
+      const result = await scoringRules.applyAndRecompute(ctx.organizationId, config);
+      logger.info('Scores recomputed via GraphQL', { organizationId: ctx.organizationId, updated: result.updated });
+      return { updated: result.updated };
+    }),
+};
+
+export default mutationResolvers;
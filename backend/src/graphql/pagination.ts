@@ -0,0 +1,246 @@
+import { badUserInput } from './errors';
+
+// ============================================================
+// Relay-style connections backed by keyset queries
+// ============================================================
+//
+// `first`/`after` page by seeking past the last row seen (sort value, then
+// id as a tie-breaker) instead of OFFSET, so deep pages cost the same as
+// the first one and stay stable while new rows arrive. The legacy
+// `page`/`limit` arguments still work and return the same edges.
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface SortOption {
+  /** Prisma scalar field to order by */
+  field: string;
+  type: 'date' | 'string' | 'number';
+  /** Optional columns sort nulls last in both directions */
+  nullable?: boolean;
+}
+
+/** Sort options keyed by their GraphQL enum value */
+export type SortOptions = Record<string, SortOption>;
+
+export interface SortInput {
+  field: string;
+  direction?: SortDirection | null;
+}
+
+export interface ConnectionArgs {
+  page?: number | null;
+  limit?: number | null;
+  first?: number | null;
+  after?: string | null;
+}
+
+export interface ResolvedSort extends SortOption {
+  name: string;
+  direction: 'asc' | 'desc';
+}
+
+type CursorValue = string | number | null;
+
+/** Where the next page starts: the last edge's sort value and id */
+export interface Cursor {
+  value: CursorValue;
+  id: string;
+}
+
+export interface ConnectionPlan {
+  where: Record<string, unknown>;
+  orderBy: Record<string, unknown>[];
+  skip?: number;
+  /** One more than the page size, to learn whether another page exists */
+  take: number;
+  sort: ResolvedSort;
+  pageSize: number;
+  page: number;
+  hasPreviousPage: boolean;
+}
+
+export interface Connection<T> {
+  edges: { cursor: string; node: T }[];
+  items: T[];
+  pageInfo: {
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    startCursor: string | null;
+    endCursor: string | null;
+  };
+  /** 1 for cursor-paginated requests */
+  page: number;
+  pageSize: number;
+  /** Counted only when `total` or `totalPages` is selected */
+  count: () => Promise<number>;
+}
+
+// ============================================================
+// Cursors — opaque base64url of [sort, direction, value, id]
+// ============================================================
+
+function toCursorValue(value: unknown): CursorValue {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  return null;
+}
+
+export function encodeCursor(sort: ResolvedSort, row: Record<string, unknown>): string {
+  const payload = [sort.name, sort.direction, toCursorValue(row[sort.field]), row.id];
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(sort: ResolvedSort, cursor: string): Cursor {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw badUserInput('Invalid cursor', 'after');
+  }
+
+  if (!Array.isArray(payload) || payload.length !== 4 || typeof payload[3] !== 'string') {
+    throw badUserInput('Invalid cursor', 'after');
+  }
+
+  const [name, direction, value, id] = payload as [unknown, unknown, unknown, string];
+  if (name !== sort.name || direction !== sort.direction) {
+    throw badUserInput('Cursor was issued for a different orderBy', 'after');
+  }
+
+  if (value === null) {
+    if (!sort.nullable) throw badUserInput('Invalid cursor', 'after');
+    return { value: null, id };
+  }
+
+  const valid =
+    sort.type === 'number'
+      ? typeof value === 'number'
+      : typeof value === 'string' && (sort.type === 'string' || !Number.isNaN(Date.parse(value)));
+  if (!valid) throw badUserInput('Invalid cursor', 'after');
+
+  return { value: value as string | number, id };
+}
+
+// ============================================================
+// Query planning
+// ============================================================
+
+export function resolveSort(
+  options: SortOptions,
+  input: SortInput | null | undefined,
+  fallback: SortInput,
+): ResolvedSort {
+  const name = input?.field ?? fallback.field;
+  const option = options[name];
+  if (!option) throw badUserInput(`Unsupported sort field: ${name}`, 'orderBy');
+
+  const direction = input?.direction ?? fallback.direction ?? 'DESC';
+  return { ...option, name, direction: direction === 'ASC' ? 'asc' : 'desc' };
+}
+
+function cursorValue(sort: ResolvedSort, value: string | number): Date | string | number {
+  return sort.type === 'date' ? new Date(value as string) : value;
+}
+
+/** Rows strictly after the cursor in (sort value, id) order, nulls last. */
+function seekPast(sort: ResolvedSort, cursor: Cursor): Record<string, unknown> {
+  const op = sort.direction === 'asc' ? 'gt' : 'lt';
+
+  if (cursor.value === null) {
+    return { [sort.field]: null, id: { [op]: cursor.id } };
+  }
+
+  const value = cursorValue(sort, cursor.value);
+  return {
+    OR: [
+      { [sort.field]: { [op]: value } },
+      { [sort.field]: value, id: { [op]: cursor.id } },
+      ...(sort.nullable ? [{ [sort.field]: null }] : []),
+    ],
+  };
+}
+
+/**
+ * Builds the findMany arguments for one page. `first`/`after` select keyset
+ * mode; otherwise `page`/`limit` fall back to offset paging with the same
+ * ordering, so cursors from either mode can continue with `after`.
+ */
+export function planConnection(
+  where: Record<string, unknown>,
+  sort: ResolvedSort,
+  args: ConnectionArgs,
+): ConnectionPlan {
+  const requested = args.first ?? args.limit ?? DEFAULT_PAGE_SIZE;
+  if (requested < 0) throw badUserInput('first must not be negative', 'first');
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, requested));
+
+  const orderBy = [
+    { [sort.field]: sort.nullable ? { sort: sort.direction, nulls: 'last' } : sort.direction },
+    { id: sort.direction },
+  ];
+
+  const keyset = args.first != null || args.after != null;
+  if (keyset) {
+    const seek = args.after ? seekPast(sort, decodeCursor(sort, args.after)) : null;
+    return {
+      where: seek ? { AND: [where, seek] } : where,
+      orderBy,
+      take: pageSize + 1,
+      sort,
+      pageSize,
+      page: 1,
+      hasPreviousPage: Boolean(args.after),
+    };
+  }
+
+  const page = Math.max(1, args.page ?? 1);
+  return {
+    where,
+    orderBy,
+    skip: (page - 1) * pageSize,
+    take: pageSize + 1,
+    sort,
+    pageSize,
+    page,
+    hasPreviousPage: page > 1,
+  };
+}
+
+/** Shapes the fetched rows (page size + 1) into a connection. */
+export function toConnection<T extends { id: string }>(
+  rows: T[],
+  plan: ConnectionPlan,
+  count: () => Promise<number>,
+): Connection<T> {
+  const items = rows.slice(0, plan.pageSize);
+  const edges = items.map((node) => ({
+    cursor: encodeCursor(plan.sort, node as unknown as Record<string, unknown>),
+    node,
+  }));
+
+  let total: Promise<number> | null = null;
+
+  return {
+    edges,
+    items,
+    pageInfo: {
+      hasNextPage: rows.length > plan.pageSize,
+      hasPreviousPage: plan.hasPreviousPage,
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+    },
+    page: plan.page,
+    pageSize: plan.pageSize,
+    count: () => (total ??= count()),
+  };
+}
+
+/** Field resolvers shared by every *Connection type */
+export const connectionFieldResolvers = {
+  total: (connection: Connection<unknown>) => connection.count(),
+  totalPages: async (connection: Connection<unknown>) =>
+    Math.ceil((await connection.count()) / connection.pageSize),
+};
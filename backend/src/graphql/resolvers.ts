@@ -1,14 +1,46 @@
 import { GraphQLScalarType, Kind, type ValueNode } from 'graphql';
-import type { PrismaClient, Company, Contact, Deal, Signal, AccountScore } from '@prisma/client';
+import type { PrismaClient, Company, Contact, Deal, Signal, AccountScore, Note, OrgRole } from '@prisma/client';
 import type { DataLoaders } from './dataloader';
+import { mutationErrorResolvers } from './errors';
+import mutationResolvers from './mutations';
+import subscriptionResolvers from './subscriptions';
+import { assertReadScope } from './scopes';
+import {
+  accountWhere,
+  contactWhere,
+  dealWhere,
+  signalWhere,
+  ACCOUNT_SORT,
+  CONTACT_SORT,
+  DEAL_SORT,
+  SIGNAL_SORT,
+  type AccountFilter,
+  type ContactFilter,
+  type DealFilter,
+  type SignalFilter,
+} from './filters';
+import {
+  connectionFieldResolvers,
+  planConnection,
+  resolveSort,
+  toConnection,
+  type ConnectionArgs,
+  type SortInput,
+} from './pagination';
 
 // ============================================================
 // Context type used by all resolvers
 // ============================================================
 
 export interface GraphQLContext {
-  userId: string;
+  /** Null when the request authenticated with an API key */
+  userId: string | null;
   organizationId: string;
+  /** Caller's role in the organization; null for API keys */
+  orgRole: OrgRole | null;
+  apiKeyId: string | null;
+  /** Scopes of the API key; null for user tokens, which are not scope-limited */
+  scopes: string[] | null;
   prisma: PrismaClient;
   loaders: DataLoaders;
 }
@@ -55,16 +87,6 @@ const JSONScalar = new GraphQLScalarType({
   parseLiteral: parseJsonLiteral,
 });
 
-// ============================================================
-// Helper — pagination defaults
-// ============================================================
-
-function paginate(page?: number | null, limit?: number | null) {
-  const p = Math.max(1, page ?? 1);
-  const l = Math.min(100, Math.max(1, limit ?? 20));
-  return { skip: (p - 1) * l, take: l, page: p, limit: l };
-}
-
 // ============================================================
 // Resolvers
 // ============================================================
@@ -81,31 +103,21 @@ const resolvers = {
 
     accounts: async (
       _parent: unknown,
-      args: { page?: number; limit?: number; search?: string },
+      args: ConnectionArgs & { search?: string; filter?: AccountFilter; orderBy?: SortInput },
       ctx: GraphQLContext,
     ) => {
-      const { skip, take, page, limit } = paginate(args.page, args.limit);
-      const where: Record<string, unknown> = { organizationId: ctx.organizationId };
-
-      if (args.search) {
-        where.OR = [
-          { name: { contains: args.search, mode: 'insensitive' } },
-          { domain: { contains: args.search, mode: 'insensitive' } },
-          { industry: { contains: args.search, mode: 'insensitive' } },
-        ];
-      }
+      assertReadScope(ctx, 'accounts:read');
+      const where = accountWhere(ctx.organizationId, { search: args.search, ...args.filter });
+      const plan = planConnection(where, resolveSort(ACCOUNT_SORT, args.orderBy, { field: 'CREATED_AT' }), args);
+
+      const rows = await ctx.prisma.company.findMany({
+        where: plan.where,
+        orderBy: plan.orderBy,
+        skip: plan.skip,
+        take: plan.take,
+      });
 
-      const [items, total] = await Promise.all([
-        ctx.prisma.company.findMany({ where, skip, take, orderBy: { createdAt: 'desc' } }),
-        ctx.prisma.company.count({ where }),
-      ]);
-
-      return {
-        items,
-        total,
-        page,
-        totalPages: Math.ceil(total / limit),
-      };
+      return toConnection(rows, plan, () => ctx.prisma.company.count({ where }));
     },
 
     account: async (
@@ -113,6 +125,7 @@ const resolvers = {
       args: { id: string },
       ctx: GraphQLContext,
     ) => {
+      assertReadScope(ctx, 'accounts:read');
       return ctx.prisma.company.findFirst({
         where: { id: args.id, organizationId: ctx.organizationId },
       });
@@ -122,35 +135,25 @@ const resolvers = {
 
     contacts: async (
       _parent: unknown,
-      args: { page?: number; limit?: number; search?: string; companyId?: string },
+      args: ConnectionArgs & { search?: string; companyId?: string; filter?: ContactFilter; orderBy?: SortInput },
       ctx: GraphQLContext,
     ) => {
-      const { skip, take, page, limit } = paginate(args.page, args.limit);
-      const where: Record<string, unknown> = { organizationId: ctx.organizationId };
-
-      if (args.companyId) {
-        where.companyId = args.companyId;
-      }
+      assertReadScope(ctx, 'contacts:read');
+      const where = contactWhere(ctx.organizationId, {
+        search: args.search,
+        companyId: args.companyId,
+        ...args.filter,
+      });
+      const plan = planConnection(where, resolveSort(CONTACT_SORT, args.orderBy, { field: 'CREATED_AT' }), args);
 
-      if (args.search) {
-        where.OR = [
-          { firstName: { contains: args.search, mode: 'insensitive' } },
-          { lastName: { contains: args.search, mode: 'insensitive' } },
-          { email: { contains: args.search, mode: 'insensitive' } },
-        ];
-      }
+      const rows = await ctx.prisma.contact.findMany({
+        where: plan.where,
+        orderBy: plan.orderBy,
+        skip: plan.skip,
+        take: plan.take,
+      });
 
-      const [items, total] = await Promise.all([
-        ctx.prisma.contact.findMany({ where, skip, take, orderBy: { createdAt: 'desc' } }),
-        ctx.prisma.contact.count({ where }),
-      ]);
-
-      return {
-        items,
-        total,
-        page,
-        totalPages: Math.ceil(total / limit),
-      };
+      return toConnection(rows, plan, () => ctx.prisma.contact.count({ where }));
     },
 
     contact: async (
@@ -158,6 +161,7 @@ const resolvers = {
       args: { id: string },
       ctx: GraphQLContext,
     ) => {
+      assertReadScope(ctx, 'contacts:read');
       return ctx.prisma.contact.findFirst({
         where: { id: args.id, organizationId: ctx.organizationId },
       });
@@ -167,31 +171,25 @@ const resolvers = {
 
     deals: async (
       _parent: unknown,
-      args: { page?: number; limit?: number; stage?: string; companyId?: string },
+      args: ConnectionArgs & { stage?: string; companyId?: string; filter?: DealFilter; orderBy?: SortInput },
       ctx: GraphQLContext,
     ) => {
-      const { skip, take, page, limit } = paginate(args.page, args.limit);
-      const where: Record<string, unknown> = { organizationId: ctx.organizationId };
-
-      if (args.stage) {
-        where.stage = args.stage;
-      }
+      assertReadScope(ctx, 'deals:read');
+      const where = dealWhere(ctx.organizationId, {
+        stage: args.stage ? [args.stage] : undefined,
+        companyId: args.companyId,
+        ...args.filter,
+      });
+      const plan = planConnection(where, resolveSort(DEAL_SORT, args.orderBy, { field: 'CREATED_AT' }), args);
 
-      if (args.companyId) {
-        where.companyId = args.companyId;
-      }
+      const rows = await ctx.prisma.deal.findMany({
+        where: plan.where,
+        orderBy: plan.orderBy,
+        skip: plan.skip,
+        take: plan.take,
+      });
 
-      const [items, total] = await Promise.all([
-        ctx.prisma.deal.findMany({ where, skip, take, orderBy: { createdAt: 'desc' } }),
-        ctx.prisma.deal.count({ where }),
-      ]);
-
-      return {
-        items,
-        total,
-        page,
-        totalPages: Math.ceil(total / limit),
-      };
+      return toConnection(rows, plan, () => ctx.prisma.deal.count({ where }));
     },
 
     deal: async (
@@ -199,6 +197,7 @@ const resolvers = {
       args: { id: string },
       ctx: GraphQLContext,
     ) => {
+      assertReadScope(ctx, 'deals:read');
       return ctx.prisma.deal.findFirst({
         where: { id: args.id, organizationId: ctx.organizationId },
       });
@@ -208,38 +207,33 @@ const resolvers = {
 
     signals: async (
       _parent: unknown,
-      args: { page?: number; limit?: number; type?: string; accountId?: string; from?: string; to?: string },
+      args: ConnectionArgs & {
+        type?: string;
+        accountId?: string;
+        from?: string;
+        to?: string;
+        filter?: SignalFilter;
+        orderBy?: SortInput;
+      },
       ctx: GraphQLContext,
     ) => {
-      const { skip, take, page, limit } = paginate(args.page, args.limit);
-      const where: Record<string, unknown> = { organizationId: ctx.organizationId };
-
-      if (args.type) {
-        where.type = args.type;
-      }
-
-      if (args.accountId) {
-        where.accountId = args.accountId;
-      }
+      assertReadScope(ctx, 'signals:read');
+      const where = signalWhere(ctx.organizationId, {
+        types: args.type ? [args.type] : undefined,
+        accountId: args.accountId,
+        timestamp: { from: args.from, to: args.to },
+        ...args.filter,
+      });
+      const plan = planConnection(where, resolveSort(SIGNAL_SORT, args.orderBy, { field: 'TIMESTAMP' }), args);
 
-      if (args.from || args.to) {
-        const timestamp: Record<string, Date> = {};
-        if (args.from) timestamp.gte = new Date(args.from);
-        if (args.to) timestamp.lte = new Date(args.to);
-        where.timestamp = timestamp;
-      }
+      const rows = await ctx.prisma.signal.findMany({
+        where: plan.where,
+        orderBy: plan.orderBy,
+        skip: plan.skip,
+        take: plan.take,
+      });
 
-      const [items, total] = await Promise.all([
-        ctx.prisma.signal.findMany({ where, skip, take, orderBy: { timestamp: 'desc' } }),
-        ctx.prisma.signal.count({ where }),
-      ]);
-
-      return {
-        items,
-        total,
-        page,
-        totalPages: Math.ceil(total / limit),
-      };
+      return toConnection(rows, plan, () => ctx.prisma.signal.count({ where }));
     },
 
     // ---- Top Accounts (scoring) ----
@@ -249,6 +243,7 @@ const resolvers = {
       args: { limit?: number; tier?: string },
       ctx: GraphQLContext,
     ) => {
+      assertReadScope(ctx, 'accounts:read');
       const take = Math.min(100, Math.max(1, args.limit ?? 10));
       const where: Record<string, unknown> = { organizationId: ctx.organizationId };
 
@@ -270,6 +265,7 @@ const resolvers = {
       _args: unknown,
       ctx: GraphQLContext,
     ) => {
+      assertReadScope(ctx, 'signals:read');
       return ctx.prisma.signalSource.findMany({
         where: { organizationId: ctx.organizationId },
         orderBy: { createdAt: 'desc' },
@@ -277,25 +273,59 @@ const resolvers = {
     },
   },
 
+  // ============================================================
+  // Mutation resolvers
+  // ============================================================
+
+  Mutation: mutationResolvers,
+
+  ...mutationErrorResolvers,
+
+  // ============================================================
+  // Subscription resolvers
+  // ============================================================
+
+  Subscription: subscriptionResolvers,
+
+  // ============================================================
+  // Connections — total/totalPages are counted on demand
+  // ============================================================
+
+  AccountConnection: connectionFieldResolvers,
+  ContactConnection: connectionFieldResolvers,
+  DealConnection: connectionFieldResolvers,
+  SignalConnection: connectionFieldResolvers,
+
   // ============================================================
   // Field resolvers — Account (Company)
   // ============================================================
+  // Fields that reach another entity check its read scope, so a narrowly
+  // scoped API key cannot read contacts, deals or signals by nesting them.
 
   Account: {
-    contacts: (parent: Company, _args: unknown, ctx: GraphQLContext) =>
-      ctx.loaders.contactsByCompanyId.load(parent.id),
+    contacts: (parent: Company, _args: unknown, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'contacts:read');
+      return ctx.loaders.contactsByCompanyId.load(parent.id);
+    },
 
-    deals: (parent: Company, _args: unknown, ctx: GraphQLContext) =>
-      ctx.loaders.dealsByCompanyId.load(parent.id),
+    deals: (parent: Company, _args: unknown, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'deals:read');
+      return ctx.loaders.dealsByCompanyId.load(parent.id);
+    },
 
-    signals: (parent: Company, _args: unknown, ctx: GraphQLContext) =>
-      ctx.loaders.signalsByAccountId.load(parent.id),
+    signals: (parent: Company, _args: unknown, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'signals:read');
+      return ctx.loaders.signalsByAccountId.load(parent.id);
+    },
 
     score: (parent: Company, _args: unknown, ctx: GraphQLContext) =>
       ctx.loaders.scoreByAccountId.load(parent.id),
 
     brief: (parent: Company, _args: unknown, ctx: GraphQLContext) =>
       ctx.loaders.briefByAccountId.load(parent.id),
+
+    tags: (parent: Company, _args: unknown, ctx: GraphQLContext) =>
+      ctx.loaders.tagsByCompanyId.load(parent.id),
   },
 
   // ============================================================
@@ -304,6 +334,7 @@ const resolvers = {
 
   Contact: {
     company: (parent: Contact, _args: unknown, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'accounts:read');
       if (!parent.companyId) return null;
       return ctx.loaders.companyById.load(parent.companyId);
     },
@@ -311,8 +342,13 @@ const resolvers = {
     identities: (parent: Contact, _args: unknown, ctx: GraphQLContext) =>
       ctx.loaders.identitiesByContactId.load(parent.id),
 
-    signals: (parent: Contact, _args: unknown, ctx: GraphQLContext) =>
-      ctx.loaders.signalsByActorId.load(parent.id),
+    signals: (parent: Contact, _args: unknown, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'signals:read');
+      return ctx.loaders.signalsByActorId.load(parent.id);
+    },
+
+    tags: (parent: Contact, _args: unknown, ctx: GraphQLContext) =>
+      ctx.loaders.tagsByContactId.load(parent.id),
   },
 
   // ============================================================
@@ -321,11 +357,13 @@ const resolvers = {
 
   Deal: {
     contact: (parent: Deal, _args: unknown, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'contacts:read');
       if (!parent.contactId) return null;
       return ctx.loaders.contactById.load(parent.contactId);
     },
 
     company: (parent: Deal, _args: unknown, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'accounts:read');
       if (!parent.companyId) return null;
       return ctx.loaders.companyById.load(parent.companyId);
     },
@@ -334,6 +372,9 @@ const resolvers = {
       if (!parent.ownerId) return null;
       return ctx.loaders.userById.load(parent.ownerId);
     },
+
+    tags: (parent: Deal, _args: unknown, ctx: GraphQLContext) =>
+      ctx.loaders.tagsByDealId.load(parent.id),
   },
 
   // ============================================================
@@ -342,11 +383,13 @@ const resolvers = {
 
   Signal: {
     actor: (parent: Signal, _args: unknown, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'contacts:read');
       if (!parent.actorId) return null;
       return ctx.loaders.contactById.load(parent.actorId);
     },
 
     account: (parent: Signal, _args: unknown, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'accounts:read');
       if (!parent.accountId) return null;
       return ctx.loaders.companyById.load(parent.accountId);
     },
@@ -360,8 +403,41 @@ const resolvers = {
   // ============================================================
 
   AccountScore: {
-    account: (parent: AccountScore, _args: unknown, ctx: GraphQLContext) =>
-      ctx.loaders.companyById.load(parent.accountId),
+    account: (parent: AccountScore, _args: unknown, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'accounts:read');
+      return ctx.loaders.companyById.load(parent.accountId);
+    },
+  },
+
+  // ============================================================
+  // Field resolvers — subscription events
+  // ============================================================
+
+  ScoreChange: {
+    account: (parent: { accountId: string }, _args: unknown, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'accounts:read');
+      return ctx.loaders.companyById.load(parent.accountId);
+    },
+  },
+
+  AnomalyEvent: {
+    account: (parent: { accountId: string }, _args: unknown, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'accounts:read');
+      return ctx.loaders.companyById.load(parent.accountId);
+    },
+  },
+
+  // ============================================================
+  // Field resolvers — Note
+  // ============================================================
+
+  Note: {
+    // Stored as 'company' | 'contact' | 'deal'; the API calls companies accounts
+    entityType: (parent: Note) =>
+      parent.entityType === 'company' ? 'ACCOUNT' : parent.entityType.toUpperCase(),
+
+    author: (parent: Note, _args: unknown, ctx: GraphQLContext) =>
+      ctx.loaders.userById.load(parent.authorId),
   },
 };
 
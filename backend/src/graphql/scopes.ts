@@ -0,0 +1,41 @@
+import type { GraphQLContext } from './resolvers';
+import { forbiddenError, forbiddenQuery, MutationFailure } from './errors';
+
+// ============================================================
+// API key scopes — same rules as requireScope() on REST:
+// JWT callers pass (their org role governs access), API keys
+// need the exact scope or the '*' wildcard.
+// ============================================================
+
+export function hasScope(ctx: GraphQLContext, scope: string): boolean {
+  if (!ctx.scopes) return true;
+  return ctx.scopes.includes(scope) || ctx.scopes.includes('*');
+}
+
+/** For queries: throws a FORBIDDEN GraphQL error when the scope is missing. */
+export function assertReadScope(ctx: GraphQLContext, scope: string): void {
+  if (!hasScope(ctx, scope)) {
+    throw forbiddenQuery(scope);
+  }
+}
+
+/** For mutations: ends the mutation with a typed ForbiddenError when the scope is missing. */
+export function assertWriteScope(ctx: GraphQLContext, scope: string): void {
+  if (!hasScope(ctx, scope)) {
+    throw new MutationFailure(forbiddenError(`API key is missing the ${scope} scope`, scope));
+  }
+}
+
+/**
+ * For mutations that act as a user (notes, org-wide recomputes): API keys
+ * are rejected, and `minimumRole` when given must be ADMIN or OWNER.
+ */
+export function assertUser(ctx: GraphQLContext, minimumRole?: 'ADMIN'): string {
+  if (!ctx.userId) {
+    throw new MutationFailure(forbiddenError('This mutation requires a user token, not an API key'));
+  }
+  if (minimumRole && ctx.orgRole !== 'ADMIN' && ctx.orgRole !== 'OWNER') {
+    throw new MutationFailure(forbiddenError('Insufficient organization permissions'));
+  }
+  return ctx.userId;
+}
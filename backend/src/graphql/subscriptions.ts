@@ -0,0 +1,124 @@
+import type { Signal } from '@prisma/client';
+import { onOrgEvent } from '../services/websocket';
+import type { GraphQLContext } from './resolvers';
+import { assertReadScope } from './scopes';
+
+// ============================================================
+// Subscriptions — fed by the same broadcasts as the /ws stream
+// ============================================================
+
+/** Events queued for a slow subscriber before the oldest are dropped */
+const MAX_QUEUED_EVENTS = 1000;
+
+export interface ScoreChangeEvent {
+  accountId: string;
+  companyName: string;
+  oldScore: number;
+  newScore: number;
+  oldTier: string;
+  newTier: string;
+  delta: number;
+  scoredAt: string;
+}
+
+export interface AnomalyEvent {
+  accountId: string;
+  companyName: string;
+  type: 'SPIKE' | 'DROP';
+  zScore: number;
+  severity: string;
+}
+
+/**
+ * Async iterator over one event type broadcast to an organization. The
+ * listener is removed when the client unsubscribes (`return()`).
+ */
+export function orgEventIterator<T>(
+  organizationId: string,
+  eventType: string,
+  filter: (data: T) => boolean = () => true,
+): AsyncIterableIterator<T> {
+  const queue: T[] = [];
+  const waiting: ((result: IteratorResult<T>) => void)[] = [];
+  let done = false;
+
+  const unsubscribe = onOrgEvent(organizationId, (event) => {
+    if (event.type !== eventType) return;
+    const data = event.data as T;
+    if (!filter(data)) return;
+
+    const next = waiting.shift();
+    if (next) {
+      next({ value: data, done: false });
+      return;
+    }
+    queue.push(data);
+    if (queue.length > MAX_QUEUED_EVENTS) queue.shift();
+  });
+
+  const finish = (): Promise<IteratorResult<T>> => {
+    if (!done) {
+      done = true;
+      unsubscribe();
+      queue.length = 0;
+      waiting.splice(0).forEach((resolve) => resolve({ value: undefined, done: true }));
+    }
+    return Promise.resolve({ value: undefined, done: true });
+  };
+
+  return {
+    next: () => {
+      if (queue.length > 0) return Promise.resolve({ value: queue.shift()!, done: false });
+      if (done) return Promise.resolve({ value: undefined, done: true });
+      return new Promise((resolve) => waiting.push(resolve));
+    },
+    return: finish,
+    throw: (error: unknown) => {
+      finish();
+      return Promise.reject(error);
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
+
+const subscriptionResolvers = {
+  signalCreated: {
+    subscribe: (_parent: unknown, args: { accountId?: string | null }, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'signals:read');
+      return orgEventIterator<Signal>(
+        ctx.organizationId,
+        'signal.created',
+        (signal) => !args.accountId || signal.accountId === args.accountId,
+      );
+    },
+    resolve: (signal: Signal) => signal,
+  },
+
+  scoreChanged: {
+    subscribe: (_parent: unknown, args: { tier?: string | null }, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'accounts:read');
+      // An account entering or leaving the tier counts as a change for that tier
+      return orgEventIterator<ScoreChangeEvent>(
+        ctx.organizationId,
+        'score.changed',
+        (change) => !args.tier || change.newTier === args.tier || change.oldTier === args.tier,
+      );
+    },
+    resolve: (change: ScoreChangeEvent) => ({
+      ...change,
+      tierChanged: change.oldTier !== change.newTier,
+    }),
+  },
+
+  anomalyDetected: {
+    subscribe: (_parent: unknown, _args: unknown, ctx: GraphQLContext) => {
+      assertReadScope(ctx, 'accounts:read');
+      return orgEventIterator<AnomalyEvent>(ctx.organizationId, 'anomaly.detected');
+    },
+    resolve: (anomaly: AnomalyEvent) => anomaly,
+  },
+};
+
+export default subscriptionResolvers;
@@ -93,6 +93,59 @@ const typeDefs = gql`
     VIEWER
   }
 
+  "CRM entities that notes and tags attach to"
+  enum EntityType {
+    ACCOUNT
+    CONTACT
+    DEAL
+  }
+
+  enum AnomalyType {
+    SPIKE
+    DROP
+  }
+
+  enum SortDirection {
+    ASC
+    DESC
+  }
+
+  enum AccountSortField {
+    CREATED_AT
+    UPDATED_AT
+    NAME
+  }
+
+  enum ContactSortField {
+    CREATED_AT
+    UPDATED_AT
+    FIRST_NAME
+    LAST_NAME
+  }
+
+  "AMOUNT and EXPECTED_CLOSE_DATE sort deals without a value last"
+  enum DealSortField {
+    CREATED_AT
+    UPDATED_AT
+    TITLE
+    AMOUNT
+    EXPECTED_CLOSE_DATE
+  }
+
+  enum SignalSortField {
+    TIMESTAMP
+    CREATED_AT
+  }
+
+  enum MutationErrorCode {
+    VALIDATION
+    NOT_FOUND
+    FORBIDDEN
+    CONFLICT
+    LIMIT_EXCEEDED
+    INTERNAL
+  }
+
   # ============================================================
   # CORE TYPES
   # ============================================================
@@ -142,6 +195,7 @@ const typeDefs = gql`
     signals: [Signal!]!
     score: AccountScore
     brief: AccountBrief
+    tags: [Tag!]!
   }
 
   type Contact {
@@ -170,6 +224,7 @@ const typeDefs = gql`
     company: Account
     identities: [ContactIdentity!]!
     signals: [Signal!]!
+    tags: [Tag!]!
   }
 
   type Deal {
@@ -190,6 +245,7 @@ const typeDefs = gql`
     contact: Contact
     company: Account
     owner: User
+    tags: [Tag!]!
   }
 
   type Signal {
@@ -273,36 +329,123 @@ const typeDefs = gql`
     createdAt: String!
   }
 
+  type Note {
+    id: ID!
+    entityType: EntityType!
+    entityId: ID!
+    content: String!
+    mentions: [ID!]!
+    isPinned: Boolean!
+    createdAt: String!
+    updatedAt: String!
+
+    # Resolved relation
+    author: User
+  }
+
+  type Tag {
+    id: ID!
+    name: String!
+    color: String
+    createdAt: String!
+  }
+
+  # ============================================================
+  # SUBSCRIPTION EVENTS
+  # ============================================================
+
+  type ScoreChange {
+    accountId: ID!
+    companyName: String!
+    oldScore: Int!
+    newScore: Int!
+    oldTier: ScoreTier!
+    newTier: ScoreTier!
+    delta: Int!
+    tierChanged: Boolean!
+    scoredAt: String!
+
+    # Resolved relation
+    account: Account
+  }
+
+  "Unusual signal volume for an account compared to its baseline"
+  type AnomalyEvent {
+    accountId: ID!
+    companyName: String!
+    type: AnomalyType!
+    zScore: Float!
+    severity: String!
+
+    # Resolved relation
+    account: Account
+  }
+
   # ============================================================
   # PAGINATION (Connection types)
   # ============================================================
 
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type AccountEdge {
+    cursor: String!
+    node: Account!
+  }
+
   type AccountConnection {
+    edges: [AccountEdge!]!
+    pageInfo: PageInfo!
     items: [Account!]!
     total: Int!
-    page: Int!
-    totalPages: Int!
+    page: Int! @deprecated(reason: "Use first/after and pageInfo")
+    totalPages: Int! @deprecated(reason: "Use first/after and pageInfo")
+  }
+
+  type ContactEdge {
+    cursor: String!
+    node: Contact!
   }
 
   type ContactConnection {
+    edges: [ContactEdge!]!
+    pageInfo: PageInfo!
     items: [Contact!]!
     total: Int!
-    page: Int!
-    totalPages: Int!
+    page: Int! @deprecated(reason: "Use first/after and pageInfo")
+    totalPages: Int! @deprecated(reason: "Use first/after and pageInfo")
+  }
+
+  type DealEdge {
+    cursor: String!
+    node: Deal!
   }
 
   type DealConnection {
+    edges: [DealEdge!]!
+    pageInfo: PageInfo!
     items: [Deal!]!
     total: Int!
-    page: Int!
-    totalPages: Int!
+    page: Int! @deprecated(reason: "Use first/after and pageInfo")
+    totalPages: Int! @deprecated(reason: "Use first/after and pageInfo")
+  }
+
+  type SignalEdge {
+    cursor: String!
+    node: Signal!
   }
 
   type SignalConnection {
+    edges: [SignalEdge!]!
+    pageInfo: PageInfo!
     items: [Signal!]!
     total: Int!
-    page: Int!
-    totalPages: Int!
+    page: Int! @deprecated(reason: "Use first/after and pageInfo")
+    totalPages: Int! @deprecated(reason: "Use first/after and pageInfo")
   }
 
   # ============================================================
@@ -311,25 +454,423 @@ const typeDefs = gql`
 
   scalar JSON
 
+  # ============================================================
+  # QUERY FILTERS & SORTING
+  # ============================================================
+
+  "Inclusive ISO 8601 bounds; either end may be omitted"
+  input DateRange {
+    from: String
+    to: String
+  }
+
+  input IntRange {
+    min: Int
+    max: Int
+  }
+
+  input FloatRange {
+    min: Float
+    max: Float
+  }
+
+  "Matches records whose customFields[key] equals the given JSON value"
+  input CustomFieldFilter {
+    key: String!
+    equals: JSON
+  }
+
+  input AccountFilter {
+    search: String
+    industry: String
+    size: [CompanySize!]
+    tier: [ScoreTier!]
+    score: IntRange
+    "Tagged with any of these tag names"
+    tags: [String!]
+    customFields: [CustomFieldFilter!]
+    createdAt: DateRange
+    updatedAt: DateRange
+  }
+
+  input ContactFilter {
+    search: String
+    companyId: ID
+    "Lead score tier"
+    tier: [ScoreTier!]
+    "Lead score range"
+    score: IntRange
+    tags: [String!]
+    customFields: [CustomFieldFilter!]
+    createdAt: DateRange
+    updatedAt: DateRange
+  }
+
+  input DealFilter {
+    search: String
+    stage: [DealStage!]
+    companyId: ID
+    contactId: ID
+    ownerId: ID
+    amount: FloatRange
+    expectedCloseDate: DateRange
+    tags: [String!]
+    customFields: [CustomFieldFilter!]
+    createdAt: DateRange
+    updatedAt: DateRange
+  }
+
+  input SignalFilter {
+    types: [String!]
+    accountId: ID
+    actorId: ID
+    sourceId: ID
+    timestamp: DateRange
+    accountTier: [ScoreTier!]
+    accountScore: IntRange
+  }
+
+  input AccountSort {
+    field: AccountSortField!
+    direction: SortDirection = DESC
+  }
+
+  input ContactSort {
+    field: ContactSortField!
+    direction: SortDirection = DESC
+  }
+
+  input DealSort {
+    field: DealSortField!
+    direction: SortDirection = DESC
+  }
+
+  input SignalSort {
+    field: SignalSortField!
+    direction: SortDirection = DESC
+  }
+
+  # ============================================================
+  # MUTATION INPUTS
+  # ============================================================
+
+  input CreateAccountInput {
+    name: String!
+    domain: String
+    industry: String
+    size: CompanySize
+    email: String
+    phone: String
+    website: String
+    address: String
+    city: String
+    state: String
+    postalCode: String
+    country: String
+    linkedIn: String
+    twitter: String
+    githubOrg: String
+    description: String
+  }
+
+  input UpdateAccountInput {
+    name: String
+    domain: String
+    industry: String
+    size: CompanySize
+    email: String
+    phone: String
+    website: String
+    address: String
+    city: String
+    state: String
+    postalCode: String
+    country: String
+    linkedIn: String
+    twitter: String
+    githubOrg: String
+    description: String
+  }
+
+  input CreateContactInput {
+    firstName: String!
+    lastName: String!
+    email: String
+    phone: String
+    mobile: String
+    title: String
+    companyId: ID
+    address: String
+    city: String
+    state: String
+    postalCode: String
+    country: String
+    linkedIn: String
+    twitter: String
+    github: String
+    notes: String
+  }
+
+  input UpdateContactInput {
+    firstName: String
+    lastName: String
+    email: String
+    phone: String
+    mobile: String
+    title: String
+    companyId: ID
+    address: String
+    city: String
+    state: String
+    postalCode: String
+    country: String
+    linkedIn: String
+    twitter: String
+    github: String
+    notes: String
+  }
+
+  input CreateDealInput {
+    title: String!
+    amount: Float
+    currency: String
+    stage: DealStage
+    probability: Int
+    contactId: ID
+    companyId: ID
+    ownerId: ID
+    expectedCloseDate: String
+    description: String
+  }
+
+  input UpdateDealInput {
+    title: String
+    amount: Float
+    currency: String
+    stage: DealStage
+    probability: Int
+    contactId: ID
+    companyId: ID
+    ownerId: ID
+    expectedCloseDate: String
+    closedAt: String
+    description: String
+  }
+
+  input CreateNoteInput {
+    entityType: EntityType!
+    entityId: ID!
+    "Supports @[Display Name](userId) mentions"
+    content: String!
+  }
+
+  input CreateTagInput {
+    name: String!
+    color: String
+  }
+
+  input UpdateTagInput {
+    name: String
+    color: String
+  }
+
+  input SignalInput {
+    sourceId: ID!
+    type: String!
+    actorId: ID
+    accountId: ID
+    anonymousId: String
+    metadata: JSON
+    idempotencyKey: String
+    timestamp: String
+  }
+
+  # ============================================================
+  # MUTATION ERRORS
+  # ============================================================
+
+  """
+  Expected failures are returned in each payload's errors list instead of
+  as top-level GraphQL errors. Query the concrete types for details.
+  """
+  interface MutationError {
+    code: MutationErrorCode!
+    message: String!
+  }
+
+  type ValidationError implements MutationError {
+    code: MutationErrorCode!
+    message: String!
+    "Dotted path of the invalid input field, when known"
+    field: String
+  }
+
+  type NotFoundError implements MutationError {
+    code: MutationErrorCode!
+    message: String!
+    resource: String
+    id: ID
+  }
+
+  type ForbiddenError implements MutationError {
+    code: MutationErrorCode!
+    message: String!
+    "API key scope the mutation needs, when a scope was the reason"
+    requiredScope: String
+  }
+
+  type ConflictError implements MutationError {
+    code: MutationErrorCode!
+    message: String!
+  }
+
+  type LimitExceededError implements MutationError {
+    code: MutationErrorCode!
+    message: String!
+    limit: Int!
+    current: Int!
+  }
+
+  type InternalError implements MutationError {
+    code: MutationErrorCode!
+    message: String!
+  }
+
+  # ============================================================
+  # MUTATION PAYLOADS
+  # ============================================================
+
+  type AccountPayload {
+    account: Account
+    errors: [MutationError!]!
+  }
+
+  type ContactPayload {
+    contact: Contact
+    errors: [MutationError!]!
+  }
+
+  type DealPayload {
+    deal: Deal
+    errors: [MutationError!]!
+  }
+
+  type NotePayload {
+    note: Note
+    errors: [MutationError!]!
+  }
+
+  type TagPayload {
+    tag: Tag
+    errors: [MutationError!]!
+  }
+
+  type DeletePayload {
+    deletedId: ID
+    errors: [MutationError!]!
+  }
+
+  type IngestionRuleRef {
+    id: ID!
+    name: String!
+  }
+
+  type SignalPayload {
+    "Null when an ingestion rule dropped the signal"
+    signal: Signal
+    deduplicated: Boolean
+    dropped: Boolean
+    droppedBy: IngestionRuleRef
+    errors: [MutationError!]!
+  }
+
+  type SignalBatchItem {
+    index: Int!
+    success: Boolean!
+    signal: Signal
+    deduplicated: Boolean!
+    dropped: Boolean!
+    droppedBy: IngestionRuleRef
+    error: String
+  }
+
+  type SignalBatchPayload {
+    results: [SignalBatchItem!]
+    succeeded: Int
+    failed: Int
+    dropped: Int
+    errors: [MutationError!]!
+  }
+
+  type AccountScorePayload {
+    score: AccountScore
+    errors: [MutationError!]!
+  }
+
+  type RecomputeScoresPayload {
+    "Number of account scores recomputed"
+    updated: Int
+    errors: [MutationError!]!
+  }
+
   # ============================================================
   # QUERIES
   # ============================================================
+  # List queries page with first/after (at most 100 per page); page/limit
+  # and the flat filter arguments are kept for existing clients.
 
   type Query {
     # Accounts (Companies)
-    accounts(page: Int, limit: Int, search: String): AccountConnection!
+    accounts(
+      first: Int
+      after: String
+      filter: AccountFilter
+      orderBy: AccountSort
+      page: Int
+      limit: Int
+      search: String
+    ): AccountConnection!
     account(id: ID!): Account
 
     # Contacts
-    contacts(page: Int, limit: Int, search: String, companyId: ID): ContactConnection!
+    contacts(
+      first: Int
+      after: String
+      filter: ContactFilter
+      orderBy: ContactSort
+      page: Int
+      limit: Int
+      search: String
+      companyId: ID
+    ): ContactConnection!
     contact(id: ID!): Contact
 
     # Deals
-    deals(page: Int, limit: Int, stage: DealStage, companyId: ID): DealConnection!
+    deals(
+      first: Int
+      after: String
+      filter: DealFilter
+      orderBy: DealSort
+      page: Int
+      limit: Int
+      stage: DealStage
+      companyId: ID
+    ): DealConnection!
     deal(id: ID!): Deal
 
-    # Signals
-    signals(page: Int, limit: Int, type: String, accountId: ID, from: String, to: String): SignalConnection!
+    # Signals (newest first unless orderBy says otherwise)
+    signals(
+      first: Int
+      after: String
+      filter: SignalFilter
+      orderBy: SignalSort
+      page: Int
+      limit: Int
+      type: String
+      accountId: ID
+      from: String
+      to: String
+    ): SignalConnection!
 
     # Scoring
     topAccounts(limit: Int, tier: ScoreTier): [AccountScore!]!
@@ -337,6 +878,69 @@ const typeDefs = gql`
     # Signal Sources
     signalSources: [SignalSource!]!
   }
+
+  # ============================================================
+  # MUTATIONS
+  # ============================================================
+  # API keys need the matching :write scope (tags:write for tag
+  # CRUD; tagging an entity needs that entity's scope). Notes and
+  # recomputeScores need a user token; recomputeScores needs ADMIN.
+
+  type Mutation {
+    # Accounts (Companies)
+    createAccount(input: CreateAccountInput!): AccountPayload!
+    updateAccount(id: ID!, input: UpdateAccountInput!): AccountPayload!
+    deleteAccount(id: ID!): DeletePayload!
+
+    # Contacts
+    createContact(input: CreateContactInput!): ContactPayload!
+    updateContact(id: ID!, input: UpdateContactInput!): ContactPayload!
+    deleteContact(id: ID!): DeletePayload!
+
+    # Deals
+    createDeal(input: CreateDealInput!): DealPayload!
+    updateDeal(id: ID!, input: UpdateDealInput!): DealPayload!
+    deleteDeal(id: ID!): DeletePayload!
+
+    # Notes
+    createNote(input: CreateNoteInput!): NotePayload!
+    updateNote(id: ID!, content: String!): NotePayload!
+    deleteNote(id: ID!): DeletePayload!
+
+    # Tags
+    createTag(input: CreateTagInput!): TagPayload!
+    updateTag(id: ID!, input: UpdateTagInput!): TagPayload!
+    deleteTag(id: ID!): DeletePayload!
+    "Attaches a tag by name, creating it if needed"
+    tagEntity(entityType: EntityType!, entityId: ID!, name: String!, color: String): TagPayload!
+    untagEntity(entityType: EntityType!, entityId: ID!, tagId: ID!): TagPayload!
+
+    # Signals
+    ingestSignal(input: SignalInput!): SignalPayload!
+    "Up to 1000 signals per call"
+    ingestSignals(input: [SignalInput!]!): SignalBatchPayload!
+
+    # Scoring
+    recomputeAccountScore(accountId: ID!): AccountScorePayload!
+    recomputeScores: RecomputeScoresPayload!
+  }
+
+  # ============================================================
+  # SUBSCRIPTIONS (graphql-ws protocol on /api/v1/graphql)
+  # ============================================================
+  # Authenticate in connectionParams with authorization (Bearer
+  # JWT or API key) or x-api-key; JWTs also need organizationId.
+
+  type Subscription {
+    "New signals, optionally for one account only (needs signals:read)"
+    signalCreated(accountId: ID): Signal!
+
+    "Account score changes; with tier, only accounts entering or leaving it (needs accounts:read)"
+    scoreChanged(tier: ScoreTier): ScoreChange!
+
+    "Signal volume spikes and drops (needs accounts:read)"
+    anomalyDetected: AnomalyEvent!
+  }
 `;
 
 export default typeDefs;
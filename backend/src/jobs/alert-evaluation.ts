@@ -14,6 +14,7 @@ import { logger } from '../utils/logger';
 import { notifyOrgUsers } from '../services/notifications';
 import { sendEmail } from '../services/email-sender';
 import { getSlackWebhookUrl, sendSlackBlockMessage } from '../services/slack-notifications';
+import { fireAlertTriggered } from '../services/webhook-events';
 import type { AccountAlertRule } from '@prisma/client';
 
 // ---------------------------------------------------------------------------
@@ -109,6 +110,7 @@ async function evaluateScoreDrop(
     where: {
       companyId: ctx.accountId,
       organizationId: ctx.organizationId,
+      modelId: null,
       capturedAt: { gte: since },
     },
     orderBy: { capturedAt: 'asc' },
@@ -161,6 +163,7 @@ async function evaluateScoreRise(
     where: {
       companyId: ctx.accountId,
       organizationId: ctx.organizationId,
+      modelId: null,
       capturedAt: { gte: since },
     },
     orderBy: { capturedAt: 'asc' },
@@ -372,6 +375,18 @@ async function dispatchAlert(
   const alertTitle = `Alert: ${rule.name}`;
   const alertBody = `${accountName} - ${reason}`;
 
+  // Webhook event to subscribers (fire-and-forget, independent of channels)
+  fireAlertTriggered(ctx.organizationId, {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    triggerType: rule.triggerType,
+    accountId: ctx.accountId,
+    accountName,
+    reason,
+    oldScore: ctx.oldScore,
+    newScore: ctx.newScore,
+  }).catch((err) => logger.error('Webhook fire error (alert.triggered):', err));
+
   // 1. In-app notification (to all org users)
   if (channels.inApp !== false) {
     try {
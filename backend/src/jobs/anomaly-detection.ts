@@ -16,6 +16,7 @@ import { scanOrganizationAnomalies } from '../services/signal-anomaly';
 import type { AnomalyResult } from '../services/signal-anomaly';
 import { notifyOrgUsers } from '../services/notifications';
 import { broadcastAnomaly } from '../services/websocket';
+import { fireAnomalyDetected } from '../services/webhook-events';
 
 const COOLDOWN_HOURS = 24;
 
@@ -148,6 +149,18 @@ export async function processAnomalyDetection(
       severity: anomaly.severity,
     });
 
+    // Webhook event to subscribers (fire-and-forget)
+    fireAnomalyDetected(organizationId, {
+      accountId: anomaly.accountId,
+      accountName: anomaly.accountName,
+      anomalyType: anomaly.anomalyType,
+      severity: anomaly.severity,
+      todayCount: anomaly.todayCount,
+      expectedMin: anomaly.expectedMin,
+      expectedMax: anomaly.expectedMax,
+      zScore: anomaly.zScore,
+    }).catch((err) => logger.error('Webhook fire error (anomaly.detected):', err));
+
     notificationsCreated++;
   }
 
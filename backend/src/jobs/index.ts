@@ -35,10 +35,14 @@ export { setupScheduler } from './scheduler';
 export {
   enqueueSignalProcessing,
   enqueueScoreComputation,
+  enqueueContactScoreComputation,
+  enqueueBulkScoreComputation,
+  enqueueModelScoreComputation,
   enqueueWebhookDelivery,
   enqueueEnrichment,
   enqueueSignalSync,
   enqueueSignalSyncAll,
   enqueueWorkflowExecution,
+  enqueueWorkflowResume,
   enqueueAlertEvaluation,
 } from './producers';
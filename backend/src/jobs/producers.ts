@@ -45,6 +45,10 @@ import {
   WeeklyDigestJobData,
   dataExportQueue,
   DataExportJobData,
+  csvImportQueue,
+  CsvImportJobData,
+  webhookReplayQueue,
+  WebhookReplayJobData,
 } from './queue';
 
 // ---------------------------------------------------------------------------
@@ -97,6 +101,73 @@ export const enqueueScoreComputation = async (
   return job;
 };
 
+/**
+ * Enqueue a contact (lead) score recomputation on the score queue, with the
+ * same per-contact deduplication as account scores.
+ */
+export const enqueueContactScoreComputation = async (
+  organizationId: string,
+  contactId: string,
+): Promise<Job<ScoreComputationJobData>> => {
+  const job = await scoreComputationQueue.add(
+    'compute-contact-score',
+    { organizationId, contactId },
+    {
+      jobId: `contact-score-${contactId}`,
+    },
+  );
+  logger.debug('Enqueued contact score computation', { jobId: job.id, organizationId, contactId });
+  return job;
+};
+
+/**
+ * Enqueue recomputes for many accounts and contacts at once (e.g. after the
+ * org's decay half-lives change). Job ids carry a per-batch suffix: the score
+ * queue keeps completed jobs, so reusing the single-item ids would silently
+ * skip every entity scored recently.
+ */
+export const enqueueBulkScoreComputation = async (
+  organizationId: string,
+  targets: { accountIds?: string[]; contactIds?: string[] },
+): Promise<number> => {
+  const batch = Date.now().toString(36);
+  const jobs = [
+    ...(targets.accountIds ?? []).map((accountId) => ({
+      name: 'compute-score',
+      data: { organizationId, accountId },
+      opts: { jobId: `score-${accountId}-${batch}` },
+    })),
+    ...(targets.contactIds ?? []).map((contactId) => ({
+      name: 'compute-contact-score',
+      data: { organizationId, contactId },
+      opts: { jobId: `contact-score-${contactId}-${batch}` },
+    })),
+  ];
+  if (jobs.length === 0) return 0;
+
+  await scoreComputationQueue.addBulk(jobs);
+  logger.debug('Enqueued bulk score computation', { organizationId, count: jobs.length });
+  return jobs.length;
+};
+
+/**
+ * Enqueue a recompute of a scoring model's stored scores (after its config
+ * changes). Each request gets its own job so a completed run for an older
+ * config never swallows it.
+ */
+export const enqueueModelScoreComputation = async (
+  organizationId: string,
+  modelId: string,
+): Promise<Job<ScoreComputationJobData>> => {
+  const job = await scoreComputationQueue.add(
+    'compute-model-scores',
+    { organizationId, modelId },
+    { jobId: `model-scores-${modelId}-${Date.now().toString(36)}` },
+  );
+  logger.debug('Enqueued scoring model recompute', { jobId: job.id, organizationId, modelId });
+  return job;
+};
+
 // ---------------------------------------------------------------------------
 // Webhook Delivery
 // ---------------------------------------------------------------------------
@@ -194,6 +265,29 @@ export const enqueueWorkflowExecution = async (
   return job;
 };
 
+/**
+ * Schedule a paused workflow run to resume once its wait step elapses.
+ */
+export const enqueueWorkflowResume = async (
+  organizationId: string,
+  runId: string,
+  resumeAt: Date,
+): Promise<Job<WorkflowExecutionJobData>> => {
+  const delay = Math.max(0, resumeAt.getTime() - Date.now());
+
+  const job = await workflowExecutionQueue.add(
+    'resume-run',
+    { organizationId, eventType: 'workflow_resume', data: {}, runId },
+    {
+      delay,
+      // One job per wait: a run can pause several times, each with its own resume time
+      jobId: `workflow-resume-${runId}-${resumeAt.getTime()}`,
+    },
+  );
+  logger.debug('Enqueued workflow resume', { jobId: job.id, organizationId, runId, delay });
+  return job;
+};
+
 // ---------------------------------------------------------------------------
 // Email Send
 // ---------------------------------------------------------------------------
@@ -542,6 +636,53 @@ export const enqueueDataExport = async (
   return job;
 };
 
+// ---------------------------------------------------------------------------
+// CSV Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Enqueue a confirmed CSV import. The job ID is the import ID, so starting the
+ * same import twice only queues it once.
+ */
+export const enqueueCsvImport = async (
+  data: CsvImportJobData,
+): Promise<Job<CsvImportJobData>> => {
+  const job = await csvImportQueue.add(
+    'run-import',
+    data,
+    {
+      jobId: `csv-import-${data.importId}`,
+    },
+  );
+  logger.debug('Enqueued CSV import', {
+    jobId: job.id,
+    organizationId: data.organizationId,
+    importId: data.importId,
+  });
+  return job;
+};
+
+// ---------------------------------------------------------------------------
+// Webhook Replay
+// ---------------------------------------------------------------------------
+
+/**
+ * Enqueue a dead-letter replay for one subscription. Only one replay runs per
+ * subscription at a time; the caller claims the subscription (status
+ * REPLAYING) before enqueueing.
+ */
+export const enqueueWebhookReplay = async (
+  data: WebhookReplayJobData,
+): Promise<Job<WebhookReplayJobData>> => {
+  const job = await webhookReplayQueue.add('replay-dead-letters', data);
+  logger.debug('Enqueued webhook replay', {
+    jobId: job.id,
+    organizationId: data.organizationId,
+    subscriptionId: data.subscriptionId,
+  });
+  return job;
+};
+
 // ---------------------------------------------------------------------------
 // Alert Evaluation
 // ---------------------------------------------------------------------------
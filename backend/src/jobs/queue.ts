@@ -31,6 +31,8 @@ export const QUEUE_NAMES = {
   ALERT_EVALUATION: 'alert-evaluation',
   ALERT_CHECK: 'alert-check',
   ANOMALY_DETECTION: 'anomaly-detection',
+  CSV_IMPORT: 'csv-import',
+  WEBHOOK_REPLAY: 'webhook-replay',
 } as const;
 
 export type QueueName = (typeof QUEUE_NAMES)[keyof typeof QUEUE_NAMES];
@@ -52,9 +54,13 @@ export interface SignalProcessingJobData {
   };
 }
 
+/** Exactly one of accountId (account PQA score) or contactId (lead score). */
 export interface ScoreComputationJobData {
   organizationId: string;
-  accountId: string;
+  accountId?: string;
+  contactId?: string;
+  /** Recompute a scoring model's stored scores instead of a live score */
+  modelId?: string;
 }
 
 export interface WebhookDeliveryJobData {
@@ -64,7 +70,6 @@ export interface WebhookDeliveryJobData {
   /** Per-subscription delivery fields (set by fireEvent in webhook-subscriptions service) */
   subscriptionId?: string;
   targetUrl?: string;
-  secret?: string;
 }
 
 export interface EnrichmentJobData {
@@ -82,6 +87,8 @@ export interface WorkflowExecutionJobData {
   organizationId: string;
   eventType: string;
   data: Record<string, unknown>;
+  /** Set on delayed `resume-run` jobs: the WAITING WorkflowRun to continue. */
+  runId?: string;
 }
 
 export interface EmailSendJobData {
@@ -153,6 +160,19 @@ export interface DataExportJobData {
   filters?: Record<string, unknown>;
 }
 
+export interface CsvImportJobData {
+  organizationId: string;
+  importId: string;
+}
+
+export interface WebhookReplayJobData {
+  organizationId: string;
+  subscriptionId: string;
+  /** ISO timestamps bounding the original event time of the dead letters to replay. */
+  from: string;
+  to: string;
+}
+
 export interface DemoCleanupJobData {
   /** Placeholder field — the job is self-contained (finds stale orgs itself). */
   trigger: 'scheduled' | 'manual';
@@ -425,6 +445,36 @@ export const dataExportQueue = new Queue<DataExportJobData>(
   },
 );
 
+// Imports are not retried: a rerun would re-import rows written before the
+// failure, and the ImportJob row already records what went wrong.
+export const csvImportQueue = new Queue<CsvImportJobData>(
+  QUEUE_NAMES.CSV_IMPORT,
+  {
+    ...defaultQueueOpts,
+    defaultJobOptions: {
+      ...defaultQueueOpts.defaultJobOptions,
+      attempts: 1,
+      removeOnComplete: { count: 500 },
+      removeOnFail: { count: 1000 },
+    },
+  },
+);
+
+// Replays are not retried: the worker stops at the first failed delivery and
+// leaves the rest of the dead letters pending, so a new replay picks up there.
+export const webhookReplayQueue = new Queue<WebhookReplayJobData>(
+  QUEUE_NAMES.WEBHOOK_REPLAY,
+  {
+    ...defaultQueueOpts,
+    defaultJobOptions: {
+      ...defaultQueueOpts.defaultJobOptions,
+      attempts: 1,
+      removeOnComplete: { count: 500 },
+      removeOnFail: { count: 1000 },
+    },
+  },
+);
+
 export const demoCleanupQueue = new Queue<DemoCleanupJobData>(
   QUEUE_NAMES.DEMO_CLEANUP,
   {
@@ -498,6 +548,8 @@ const allQueues: Queue[] = [
   scoreSnapshotQueue,
   weeklyDigestQueue,
   dataExportQueue,
+  csvImportQueue,
+  webhookReplayQueue,
   demoCleanupQueue,
   alertEvaluationQueue,
   alertCheckQueue,
@@ -3,16 +3,19 @@ import { bullConnection } from '../config/redis';
 import { logger } from '../utils/logger';
 import { ingestSignal } from '../services/signals';
 import { computeAccountScore } from '../services/account-scores';
+import { computeContactScore } from '../services/contact-scores';
+import { recomputeModelScores } from '../services/scoring-models';
 import { dispatchWebhookEvent } from '../services/webhooks';
 import {
   deliverToSubscription,
+  getSubscriptionSigningConfig,
   recordSubscriptionDelivery,
   markSubscriptionFailing,
   markSubscriptionHealthy,
 } from '../services/webhook-subscriptions';
 import { syncNpmSource, syncAllNpmSources } from '../services/npm-connector';
 import { syncPypiSource, syncAllPypiSources } from '../services/pypi-connector';
-import { processEvent } from '../services/workflows';
+import { processEvent, resumeWorkflowRun } from '../services/workflows';
 import { runSync } from '../services/hubspot-sync';
 import { runSync as runSalesforceSync } from '../services/salesforce-sync';
 import { syncDiscordServer } from '../services/discord-connector';
@@ -45,6 +48,8 @@ import {
   ScoreSnapshotJobData,
   WeeklyDigestJobData,
   DataExportJobData,
+  CsvImportJobData,
+  WebhookReplayJobData,
   DemoCleanupJobData,
   AlertEvaluationJobData,
   AlertCheckJobData,
@@ -52,6 +57,8 @@ import {
   anomalyDetectionQueue,
 } from './queue';
 import { generateExport, setExportStatus } from '../services/data-export';
+import { runImportJob } from '../services/import-jobs';
+import { createDeadLetter, deferIfReplaying, runReplay } from '../services/webhook-replay';
 import { processEmailStep } from '../services/email-sequences';
 import { generateWeeklyDigest } from '../services/weekly-digest';
 import { renderWeeklyDigestEmail, renderWeeklyDigestSubject } from '../services/email-templates';
@@ -81,6 +88,10 @@ function createSignalProcessingWorker(): Worker<SignalProcessingJobData> {
       // ingestSignal already handles identity resolution (actor lookup, anonymous-id
       // domain matching) and account matching internally.
       const signal = await ingestSignal(organizationId, signalData);
+      if (signal.dropped) {
+        logger.info('Signal dropped by ingestion rule', { jobId: job.id, ruleId: signal.droppedBy.id });
+        return { dropped: true, ruleId: signal.droppedBy.id };
+      }
 
       logger.info('Signal processing completed', { jobId: job.id, signalId: signal.id });
       return { signalId: signal.id, accountId: signal.accountId };
@@ -99,7 +110,29 @@ function createScoreComputationWorker(): Worker<ScoreComputationJobData> {
   return new Worker<ScoreComputationJobData>(
     QUEUE_NAMES.SCORE_COMPUTATION,
     async (job: Job<ScoreComputationJobData>) => {
-      const { organizationId, accountId } = job.data;
+      const { organizationId, accountId, contactId, modelId } = job.data;
+
+      if (modelId) {
+        logger.info('Scoring model recompute started', { jobId: job.id, organizationId, modelId });
+        const result = await recomputeModelScores(organizationId, modelId);
+        return { modelId, updated: result.updated };
+      }
+
+      if (contactId) {
+        logger.info('Contact score computation started', { jobId: job.id, organizationId, contactId });
+        const contactScore = await computeContactScore(organizationId, contactId);
+        logger.info('Contact score computation completed', {
+          jobId: job.id,
+          contactId,
+          score: contactScore.score,
+          tier: contactScore.tier,
+        });
+        return { contactId, score: contactScore.score, tier: contactScore.tier };
+      }
+
+      if (!accountId) {
+        throw new Error('Score computation job requires accountId or contactId');
+      }
       logger.info('Score computation started', { jobId: job.id, organizationId, accountId });
 
       const score = await computeAccountScore(organizationId, accountId);
@@ -126,14 +159,31 @@ function createWebhookDeliveryWorker(): Worker<WebhookDeliveryJobData> {
   return new Worker<WebhookDeliveryJobData>(
     QUEUE_NAMES.WEBHOOK_DELIVERY,
     async (job: Job<WebhookDeliveryJobData>) => {
-      const { organizationId, event, payload, subscriptionId, targetUrl, secret } = job.data;
+      const { organizationId, event, payload, subscriptionId, targetUrl } = job.data;
       const attempt = job.attemptsMade + 1;
       const maxAttempts = (job.opts.attempts ?? 5);
 
       // ---------------------------------------------------------------
       // Per-subscription delivery (Zapier/Make REST Hook pattern)
       // ---------------------------------------------------------------
-      if (subscriptionId && targetUrl && secret) {
+      if (subscriptionId && targetUrl) {
+        // A replay is sending older events to this endpoint -- queue behind it
+        const deferred = await deferIfReplaying({
+          subscriptionId,
+          event,
+          payload,
+          eventAt: new Date(job.timestamp),
+          jobId: job.id,
+        });
+        if (deferred) {
+          logger.info('Webhook subscription delivery deferred behind replay', {
+            jobId: job.id,
+            subscriptionId,
+            event,
+          });
+          return;
+        }
+
         logger.info('Webhook subscription delivery started', {
           jobId: job.id,
           subscriptionId,
@@ -143,7 +193,15 @@ function createWebhookDeliveryWorker(): Worker<WebhookDeliveryJobData> {
           maxAttempts,
         });
 
-        const result = await deliverToSubscription(targetUrl, secret, event, payload);
+        // Secrets and client certificates are read at send time, so a rotation
+        // applies to retries already in the queue
+        const signing = await getSubscriptionSigningConfig(subscriptionId);
+        if (!signing) {
+          logger.info('Webhook subscription deleted before delivery, skipping', { jobId: job.id, subscriptionId });
+          return;
+        }
+
+        const result = await deliverToSubscription(targetUrl, signing, event, payload, `msg_${job.id}`);
 
         // Record the delivery attempt in the database
         await recordSubscriptionDelivery({
@@ -185,8 +243,25 @@ function createWebhookDeliveryWorker(): Worker<WebhookDeliveryJobData> {
               });
             });
 
-            // Don't throw -- let the job complete as failed on final attempt
-            // so BullMQ records it in the dead-letter set
+            // Keep the event so it can be redelivered or replayed later
+            await createDeadLetter({
+              subscriptionId,
+              event,
+              payload,
+              reason: 'DELIVERY_FAILED',
+              eventAt: new Date(job.timestamp),
+              attempts: maxAttempts,
+              statusCode: result.statusCode,
+              error: result.error,
+              jobId: job.id,
+            }).catch((err) => {
+              logger.error('Failed to store webhook dead letter', {
+                subscriptionId,
+                error: err instanceof Error ? err.message : String(err),
+              });
+            });
+
+            // Throw so BullMQ records the final attempt as failed
             throw new Error(
               `Webhook delivery to ${targetUrl} failed after ${maxAttempts} attempts: ${result.error || `HTTP ${result.statusCode}`}`,
             );
@@ -319,7 +394,7 @@ function createWorkflowExecutionWorker(): Worker<WorkflowExecutionJobData> {
   return new Worker<WorkflowExecutionJobData>(
     QUEUE_NAMES.WORKFLOW_EXECUTION,
     async (job: Job<WorkflowExecutionJobData>) => {
-      const { organizationId, eventType, data } = job.data;
+      const { organizationId, eventType, data, runId } = job.data;
       logger.info('Workflow execution started', {
         jobId: job.id,
         organizationId,
@@ -327,7 +402,11 @@ function createWorkflowExecutionWorker(): Worker<WorkflowExecutionJobData> {
         attempt: job.attemptsMade + 1,
       });
 
-      await processEvent(organizationId, eventType, data);
+      if (runId) {
+        await resumeWorkflowRun(organizationId, runId);
+      } else {
+        await processEvent(organizationId, eventType, data);
+      }
 
       logger.info('Workflow execution completed', { jobId: job.id, eventType });
     },
@@ -943,6 +1022,65 @@ function createDataExportWorker(): Worker<DataExportJobData> {
   );
 }
 
+// ---------------------------------------------------------------------------
+// CSV Import Worker
+// ---------------------------------------------------------------------------
+function createCsvImportWorker(): Worker<CsvImportJobData> {
+  return new Worker<CsvImportJobData>(
+    QUEUE_NAMES.CSV_IMPORT,
+    async (job: Job<CsvImportJobData>) => {
+      const { organizationId, importId } = job.data;
+
+      logger.info('CSV import started', { jobId: job.id, organizationId, importId });
+
+      const result = await runImportJob(importId);
+
+      logger.info('CSV import completed', {
+        jobId: job.id,
+        organizationId,
+        importId,
+        imported: result.imported,
+        skipped: result.skipped,
+      });
+
+      return result;
+    },
+    {
+      connection: bullConnection,
+      concurrency: 2,
+    },
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Webhook Replay Worker
+// ---------------------------------------------------------------------------
+function createWebhookReplayWorker(): Worker<WebhookReplayJobData> {
+  return new Worker<WebhookReplayJobData>(
+    QUEUE_NAMES.WEBHOOK_REPLAY,
+    async (job: Job<WebhookReplayJobData>) => {
+      const { organizationId, subscriptionId } = job.data;
+
+      logger.info('Webhook replay started', { jobId: job.id, organizationId, subscriptionId });
+
+      const result = await runReplay(job.data);
+
+      logger.info('Webhook replay completed', {
+        jobId: job.id,
+        subscriptionId,
+        delivered: result.delivered,
+        remaining: result.remaining,
+      });
+
+      return result;
+    },
+    {
+      connection: bullConnection,
+      concurrency: 2,
+    },
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Demo Cleanup Worker
 // ---------------------------------------------------------------------------
@@ -1172,12 +1310,14 @@ export const startWorkers = (): void => {
   const scoreSnapshotWorker = createScoreSnapshotWorker();
   const weeklyDigestWorker = createWeeklyDigestWorker();
   const dataExportWorker = createDataExportWorker();
+  const csvImportWorker = createCsvImportWorker();
+  const webhookReplayWorker = createWebhookReplayWorker();
   const demoCleanupWorker = createDemoCleanupWorker();
   const anomalyDetectionWorker = createAnomalyDetectionWorker();
   const alertEvaluationWorker = createAlertEvaluationWorker();
   const alertCheckWorker = createAlertCheckWorker();
 
-  [signalWorker, scoreWorker, webhookWorker, enrichmentWorker, signalSyncWorker, workflowWorker, emailSendWorker, hubspotSyncWorker, discordSyncWorker, salesforceSyncWorker, stackoverflowSyncWorker, twitterSyncWorker, redditSyncWorker, linkedinSyncWorker, posthogSyncWorker, bulkEnrichmentWorker, scoreSnapshotWorker, weeklyDigestWorker, dataExportWorker, demoCleanupWorker, anomalyDetectionWorker, alertEvaluationWorker, alertCheckWorker].forEach((w) => {
+  [signalWorker, scoreWorker, webhookWorker, enrichmentWorker, signalSyncWorker, workflowWorker, emailSendWorker, hubspotSyncWorker, discordSyncWorker, salesforceSyncWorker, stackoverflowSyncWorker, twitterSyncWorker, redditSyncWorker, linkedinSyncWorker, posthogSyncWorker, bulkEnrichmentWorker, scoreSnapshotWorker, weeklyDigestWorker, dataExportWorker, csvImportWorker, webhookReplayWorker, demoCleanupWorker, anomalyDetectionWorker, alertEvaluationWorker, alertCheckWorker].forEach((w) => {
     attachLogging(w);
     workers.push(w);
   });
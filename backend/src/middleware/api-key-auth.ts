@@ -8,7 +8,7 @@ const API_KEY_PREFIX = 'ds_live_';
  * Extracts an API key from the request headers.
  * Checks `x-api-key` header first, then `Authorization: Bearer ds_live_*`.
  */
-function extractApiKey(req: Request): string | null {
+export function extractApiKey(req: Pick<Request, 'headers'>): string | null {
   // Check x-api-key header
   const xApiKey = req.headers['x-api-key'];
   if (typeof xApiKey === 'string' && xApiKey.startsWith(API_KEY_PREFIX)) {
@@ -5,7 +5,9 @@ import { Request, Response, NextFunction } from 'express';
 //
 // Tracks per-org request counts, endpoint paths, methods, status codes,
 // and response times in a rolling 24h window. Data is stored in memory
-// and grouped by hour for efficient time-series queries.
+// and grouped by hour for efficient time-series queries. GraphQL query
+// costs charged to API keys are kept in the same rolling window, with a
+// running total per key for the current minute so budget checks stay O(1).
 //
 // This is designed to be lightweight — it adds < 1ms overhead per request.
 // ---------------------------------------------------------------------------
@@ -20,9 +22,25 @@ export interface ApiRequestRecord {
   hourBucket: string; // YYYY-MM-DD-HH
 }
 
+/** Static cost of one GraphQL operation, charged to the API key that ran it. */
+export interface QueryCostRecord {
+  apiKeyId: string;
+  cost: number;
+  timestamp: number; // epoch ms
+}
+
 /** Per-org rolling buffer of API request records. */
 const orgUsageStore = new Map<string, ApiRequestRecord[]>();
 
+/** Per-org rolling buffer of GraphQL query costs (API keys only). */
+const orgQueryCostStore = new Map<string, QueryCostRecord[]>();
+
+/** GraphQL cost spent per API key in the current minute, keyed `${orgId}:${apiKeyId}`. */
+const keyMinuteCostStore = new Map<string, { windowStart: number; cost: number }>();
+
+/** Length of an API key's GraphQL cost budget window (one minute). */
+export const QUERY_COST_WINDOW_MS = 60 * 1000;
+
 /** How long to retain records (24 hours). */
 const RETENTION_MS = 24 * 60 * 60 * 1000;
 
@@ -33,22 +51,32 @@ const EVICTION_INTERVAL_MS = 5 * 60 * 1000;
 // Eviction — remove records older than 24h
 // ---------------------------------------------------------------------------
 
-function evictStaleRecords(): void {
-  const cutoff = Date.now() - RETENTION_MS;
-  for (const [orgId, records] of orgUsageStore.entries()) {
+function evictStale<T extends { timestamp: number }>(store: Map<string, T[]>, cutoff: number): void {
+  for (const [orgId, records] of store.entries()) {
     // Records are appended in order, so we can find the first valid index
     let firstValid = 0;
     while (firstValid < records.length && records[firstValid].timestamp < cutoff) {
       firstValid++;
     }
     if (firstValid === records.length) {
-      orgUsageStore.delete(orgId);
+      store.delete(orgId);
     } else if (firstValid > 0) {
-      orgUsageStore.set(orgId, records.slice(firstValid));
+      store.set(orgId, records.slice(firstValid));
     }
   }
 }
 
+function evictStaleRecords(): void {
+  const cutoff = Date.now() - RETENTION_MS;
+  evictStale(orgUsageStore, cutoff);
+  evictStale(orgQueryCostStore, cutoff);
+
+  const windowStart = currentCostWindowStart();
+  for (const [key, total] of keyMinuteCostStore.entries()) {
+    if (total.windowStart < windowStart) keyMinuteCostStore.delete(key);
+  }
+}
+
 // Run periodic eviction
 const evictionTimer = setInterval(evictStaleRecords, EVICTION_INTERVAL_MS);
 // Allow the process to exit cleanly without waiting for the timer
@@ -69,6 +97,11 @@ function toHourBucket(ts: number): string {
   return `${yyyy}-${mm}-${dd}-${hh}`;
 }
 
+function currentCostWindowStart(): number {
+  const now = Date.now();
+  return now - (now % QUERY_COST_WINDOW_MS);
+}
+
 // ---------------------------------------------------------------------------
 // Middleware
 // ---------------------------------------------------------------------------
@@ -124,7 +157,7 @@ function normalizeEndpoint(path: string): string {
 }
 
 // ---------------------------------------------------------------------------
-// Public accessor — used by the api-usage service
+// Public accessors — used by the api-usage service
 // ---------------------------------------------------------------------------
 
 /**
@@ -132,10 +165,47 @@ function normalizeEndpoint(path: string): string {
  * Returns a shallow copy to prevent external mutation.
  */
 export function getOrgRecords(orgId: string): ApiRequestRecord[] {
-  const records = orgUsageStore.get(orgId);
+  return getRetained(orgUsageStore, orgId);
+}
+
+/**
+ * Charge a GraphQL operation's cost to an API key. Budget checks happen in
+ * the api-usage service; this only records what was spent.
+ */
+export function recordQueryCost(orgId: string, apiKeyId: string, cost: number): void {
+  let records = orgQueryCostStore.get(orgId);
+  if (!records) {
+    records = [];
+    orgQueryCostStore.set(orgId, records);
+  }
+  records.push({ apiKeyId, cost, timestamp: Date.now() });
+
+  const current = getQueryCostThisMinute(orgId, apiKeyId);
+  keyMinuteCostStore.set(`${orgId}:${apiKeyId}`, { windowStart: current.windowStart, cost: current.cost + cost });
+}
+
+/**
+ * GraphQL cost an API key has spent in the current minute, and when that
+ * minute started.
+ */
+export function getQueryCostThisMinute(orgId: string, apiKeyId: string): { windowStart: number; cost: number } {
+  const windowStart = currentCostWindowStart();
+  const total = keyMinuteCostStore.get(`${orgId}:${apiKeyId}`);
+  return { windowStart, cost: total && total.windowStart === windowStart ? total.cost : 0 };
+}
+
+/**
+ * Get all GraphQL query costs for an organization within the retention window.
+ */
+export function getOrgQueryCosts(orgId: string): QueryCostRecord[] {
+  return getRetained(orgQueryCostStore, orgId);
+}
+
+/** Shallow copy of an org's records, evicting stale ones opportunistically. */
+function getRetained<T extends { timestamp: number }>(store: Map<string, T[]>, orgId: string): T[] {
+  const records = store.get(orgId);
   if (!records) return [];
 
-  // Opportunistic eviction for this org
   const cutoff = Date.now() - RETENTION_MS;
   let firstValid = 0;
   while (firstValid < records.length && records[firstValid].timestamp < cutoff) {
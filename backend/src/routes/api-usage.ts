@@ -5,6 +5,7 @@ import {
   getUsageTimeSeries,
   getEndpointBreakdown,
   getRateLimitStatus,
+  getQueryCostSummary,
 } from '../services/api-usage';
 import { logger } from '../utils/logger';
 
@@ -150,4 +151,36 @@ router.get('/rate-limits', async (req: Request, res: Response) => {
   }
 });
 
+// ---------------------------------------------------------------------------
+// GET /api/v1/api-usage/graphql-cost
+// ---------------------------------------------------------------------------
+
+/**
+ * @openapi
+ * /api-usage/graphql-cost:
+ *   get:
+ *     tags: [API Usage]
+ *     summary: Get GraphQL query cost usage
+ *     description: |
+ *       Returns GraphQL query cost spent per API key in the current minute
+ *       and today, alongside the plan's per-key budget per minute.
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *     responses:
+ *       200:
+ *         description: GraphQL query cost usage
+ */
+router.get('/graphql-cost', async (req: Request, res: Response) => {
+  try {
+    const orgId = req.organizationId!;
+    const summary = await getQueryCostSummary(orgId);
+    res.json(summary);
+  } catch (error) {
+    logger.error('Failed to fetch GraphQL query cost usage:', error);
+    res.status(500).json({ error: 'Failed to fetch GraphQL query cost usage' });
+  }
+});
+
 export default router;
@@ -1,6 +1,15 @@
 import { Router } from 'express';
-import { getCompanies, getCompany, createCompany, updateCompany, deleteCompany, exportCompanies } from '../controllers/companies';
-import { authenticate, requireOrganization } from '../middleware/auth';
+import {
+  getCompanies,
+  getCompany,
+  createCompany,
+  updateCompany,
+  deleteCompany,
+  exportCompanies,
+  getDuplicates,
+  mergeCompany,
+} from '../controllers/companies';
+import { authenticate, requireOrganization, requireOrgRole } from '../middleware/auth';
 import { validate } from '../middleware/validate';
 import { z } from 'zod';
 
@@ -49,6 +58,10 @@ const updateCompanySchema = z.object({
   description: z.string().optional(),
 });
 
+const mergeCompanySchema = z.object({
+  duplicateIds: z.array(z.string()).min(1).max(50),
+});
+
 /**
  * @openapi
  * /companies:
@@ -176,6 +189,51 @@ router.get('/', getCompanies);
  */
 router.get('/export', exportCompanies);
 
+/**
+ * @openapi
+ * /companies/duplicates:
+ *   get:
+ *     tags: [Companies]
+ *     summary: Find duplicate companies
+ *     description: Returns groups of potential duplicate companies matched by domain, normalized name, or contacts recorded under more than one company.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *     responses:
+ *       200:
+ *         description: Duplicate company groups
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 groups:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       primaryCompanyId:
+ *                         type: string
+ *                       primaryName:
+ *                         type: string
+ *                       primaryDomain:
+ *                         type: string
+ *                         nullable: true
+ *                       duplicates:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *       401:
+ *         description: Missing or invalid authorization
+ *       403:
+ *         description: Access to organization denied
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/duplicates', getDuplicates);
+
 /**
  * @openapi
  * /companies/{id}:
@@ -344,6 +402,70 @@ router.post('/', validate(createCompanySchema), createCompany);
  */
 router.put('/:id', validate(updateCompanySchema), updateCompany);
 
+/**
+ * @openapi
+ * /companies/{id}/merge:
+ *   post:
+ *     tags: [Companies]
+ *     summary: Merge duplicate companies
+ *     description: |
+ *       Moves contacts, deals, signals, activities, notes, tags, custom field
+ *       values and score history from each duplicate onto the primary company,
+ *       deletes the duplicates, and recomputes the primary's account and
+ *       scoring model scores. The duplicates' HubSpot and Salesforce IDs are
+ *       kept on the primary so CRM pulls still match them. Requires the ADMIN
+ *       or OWNER role.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The primary company ID to merge into
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [duplicateIds]
+ *             properties:
+ *               duplicateIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: IDs of companies to merge into the primary
+ *     responses:
+ *       200:
+ *         description: Merge result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 merged:
+ *                   type: integer
+ *                 errors:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Missing or invalid authorization
+ *       403:
+ *         description: Access to organization denied or insufficient role
+ *       404:
+ *         description: Company not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/merge', requireOrgRole('ADMIN'), validate(mergeCompanySchema), mergeCompany);
+
 /**
  * @openapi
  * /companies/{id}:
@@ -1,5 +1,18 @@
 import { Router } from 'express';
-import { getContacts, getContact, createContact, updateContact, deleteContact, getDuplicates, mergeContact, exportContacts, bulkAction } from '../controllers/contacts';
+import {
+  getContacts,
+  getContact,
+  createContact,
+  updateContact,
+  deleteContact,
+  getDuplicates,
+  mergeContact,
+  exportContacts,
+  bulkAction,
+  getContactScore,
+  computeContactScore,
+  getContactScoreHistory,
+} from '../controllers/contacts';
 import { authenticate, requireOrganization } from '../middleware/auth';
 import { enforceContactLimit } from '../middleware/usage-limits';
 import { validate } from '../middleware/validate';
@@ -66,7 +79,7 @@ const mergeContactSchema = z.object({
  *   get:
  *     tags: [Contacts]
  *     summary: List contacts
- *     description: Returns a paginated list of contacts for the organization. Supports search by name or email and filtering by company.
+ *     description: Returns a paginated list of contacts for the organization. Supports search by name or email, filtering by company or lead score, and sorting (including by lead score).
  *     security:
  *       - BearerAuth: []
  *       - ApiKeyAuth: []
@@ -84,6 +97,29 @@ const mergeContactSchema = z.object({
  *         schema:
  *           type: string
  *         description: Filter by company ID
+ *       - in: query
+ *         name: leadTier
+ *         schema:
+ *           type: string
+ *           enum: [HOT, WARM, COLD, INACTIVE]
+ *         description: Filter by lead score tier
+ *       - in: query
+ *         name: minLeadScore
+ *         schema:
+ *           type: integer
+ *         description: Only contacts with a lead score at or above this value
+ *       - in: query
+ *         name: sortField
+ *         schema:
+ *           type: string
+ *           enum: [firstName, lastName, email, title, createdAt, updatedAt, leadScore]
+ *         description: Field to sort by (default createdAt)
+ *       - in: query
+ *         name: sortDirection
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *         description: Sort direction (default desc)
  *     responses:
  *       200:
  *         description: Paginated list of contacts
@@ -343,6 +379,91 @@ router.post('/bulk-action', validate(bulkActionSchema), bulkAction);
  */
 router.get('/:id', getContact);
 
+/**
+ * @openapi
+ * /contacts/{id}/score:
+ *   get:
+ *     tags: [Contacts]
+ *     summary: Get contact lead score
+ *     description: Returns the most recently computed lead score for the contact, based on signals where the contact is the actor.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Contact ID
+ *     responses:
+ *       200:
+ *         description: Lead score with factors, tier and trend
+ *       404:
+ *         description: No lead score computed for this contact yet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   post:
+ *     tags: [Contacts]
+ *     summary: Compute contact lead score
+ *     description: Recomputes the contact's lead score from the last 90 days of signals, with per-type decay.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Contact ID
+ *     responses:
+ *       200:
+ *         description: Newly computed lead score
+ *       404:
+ *         description: Contact not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/score', getContactScore);
+router.post('/:id/score', computeContactScore);
+
+/**
+ * @openapi
+ * /contacts/{id}/score/history:
+ *   get:
+ *     tags: [Contacts]
+ *     summary: Get contact lead score history
+ *     description: Returns daily lead score snapshots for the contact.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Contact ID
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *         description: Number of days of history (1-365)
+ *     responses:
+ *       200:
+ *         description: Score snapshots, oldest first
+ */
+router.get('/:id/score/history', getContactScoreHistory);
+
 /**
  * @openapi
  * /contacts:
@@ -39,7 +39,7 @@ const upload = multer({
 // ---------------------------------------------------------------------------
 
 const formatSchema = z.object({
-  format: z.enum(['hubspot', 'salesforce']),
+  format: z.enum(['hubspot', 'salesforce', 'pipedrive', 'attio', 'close', 'copper']),
 });
 
 // ---------------------------------------------------------------------------
@@ -47,7 +47,7 @@ const formatSchema = z.object({
 // ---------------------------------------------------------------------------
 
 /**
- * POST /detect — Detect CSV format (HubSpot vs Salesforce) and entity type
+ * POST /detect — Detect CSV format (HubSpot, Salesforce, Pipedrive, Attio, Close or Copper) and entity type
  * Accepts multipart file upload (field: "file")
  */
 router.post(
@@ -76,7 +76,7 @@ router.post(
 
 /**
  * POST /contacts — Import contacts from a CRM CSV export
- * Accepts multipart file upload (field: "file") + query param format (hubspot|salesforce)
+ * Accepts multipart file upload (field: "file") + query param format (hubspot|salesforce|pipedrive|attio|close|copper)
  */
 router.post(
   '/contacts',
@@ -91,7 +91,7 @@ router.post(
       const parsed = formatSchema.safeParse({ format: req.query.format });
       if (!parsed.success) {
         res.status(400).json({
-          error: 'Invalid or missing format query parameter. Must be "hubspot" or "salesforce".',
+          error: 'Invalid or missing format query parameter. Must be one of: hubspot, salesforce, pipedrive, attio, close, copper.',
           details: parsed.error.errors,
         });
         return;
@@ -118,7 +118,7 @@ router.post(
 
 /**
  * POST /companies — Import companies from a CRM CSV export
- * Accepts multipart file upload (field: "file") + query param format (hubspot|salesforce)
+ * Accepts multipart file upload (field: "file") + query param format (hubspot|salesforce|pipedrive|attio|close|copper)
  */
 router.post(
   '/companies',
@@ -133,7 +133,7 @@ router.post(
       const parsed = formatSchema.safeParse({ format: req.query.format });
       if (!parsed.success) {
         res.status(400).json({
-          error: 'Invalid or missing format query parameter. Must be "hubspot" or "salesforce".',
+          error: 'Invalid or missing format query parameter. Must be one of: hubspot, salesforce, pipedrive, attio, close, copper.',
           details: parsed.error.errors,
         });
         return;
@@ -160,7 +160,7 @@ router.post(
 
 /**
  * POST /deals — Import deals from a CRM CSV export
- * Accepts multipart file upload (field: "file") + query param format (hubspot|salesforce)
+ * Accepts multipart file upload (field: "file") + query param format (hubspot|salesforce|pipedrive|attio|close|copper)
  */
 router.post(
   '/deals',
@@ -175,7 +175,7 @@ router.post(
       const parsed = formatSchema.safeParse({ format: req.query.format });
       if (!parsed.success) {
         res.status(400).json({
-          error: 'Invalid or missing format query parameter. Must be "hubspot" or "salesforce".',
+          error: 'Invalid or missing format query parameter. Must be one of: hubspot, salesforce, pipedrive, attio, close, copper.',
           details: parsed.error.errors,
         });
         return;
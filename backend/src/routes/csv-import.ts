@@ -1,7 +1,22 @@
 import { Router } from 'express';
 import express from 'express';
-import { importContactsHandler, importCompaniesHandler } from '../controllers/csv-import';
-import { authenticate, requireOrganization } from '../middleware/auth';
+import { z } from 'zod';
+import {
+  importContactsHandler,
+  importCompaniesHandler,
+  createImportPreviewHandler,
+  previewImportMappingHandler,
+  startImportHandler,
+  getImportJobHandler,
+  listImportTemplatesHandler,
+  saveImportTemplateHandler,
+  deleteImportTemplateHandler,
+  listImportBatchesHandler,
+  getImportBatchHandler,
+  revertImportBatchHandler,
+} from '../controllers/csv-import';
+import { authenticate, requireOrganization, requireOrgRole } from '../middleware/auth';
+import { validate } from '../middleware/validate';
 
 const router = Router();
 
@@ -15,6 +30,37 @@ router.use(requireOrganization);
 // handles parsing (the controller checks for req.body.csv).
 router.use(express.text({ type: 'text/csv', limit: '10mb' }));
 
+// ---------------------------------------------------------------------------
+// Zod Schemas
+// ---------------------------------------------------------------------------
+
+const entityTypeSchema = z.enum(['contact', 'company']);
+
+// Keys are normalized (trimmed, lowercased) CSV headers; null ignores a column
+const mappingSchema = z.record(z.string(), z.string().min(1).nullable());
+
+const createPreviewSchema = z.object({
+  csv: z.string().min(1),
+  entityType: entityTypeSchema,
+  fileName: z.string().max(255).optional(),
+  templateId: z.string().optional(),
+});
+
+const previewMappingSchema = z.object({
+  mapping: mappingSchema,
+});
+
+const startImportSchema = z.object({
+  mapping: mappingSchema,
+  saveAsTemplate: z.string().min(1).max(100).optional(),
+});
+
+const saveTemplateSchema = z.object({
+  entityType: entityTypeSchema,
+  name: z.string().min(1).max(100),
+  mapping: mappingSchema,
+});
+
 /**
  * @openapi
  * /import/contacts:
@@ -76,6 +122,9 @@ router.use(express.text({ type: 'text/csv', limit: '10mb' }));
  *                         type: integer
  *                       error:
  *                         type: string
+ *                 batchId:
+ *                   type: string
+ *                   description: Import batch ID, for POST /import/batches/{batchId}/revert
  *       400:
  *         description: No CSV content provided
  *       401:
@@ -146,6 +195,9 @@ router.post('/contacts', importContactsHandler);
  *                         type: integer
  *                       error:
  *                         type: string
+ *                 batchId:
+ *                   type: string
+ *                   description: Import batch ID, for POST /import/batches/{batchId}/revert
  *       400:
  *         description: No CSV content provided
  *       401:
@@ -155,4 +207,270 @@ router.post('/contacts', importContactsHandler);
  */
 router.post('/companies', importCompaniesHandler);
 
+/**
+ * @openapi
+ * /import/preview:
+ *   post:
+ *     tags: [Import]
+ *     summary: Upload a CSV and preview its column mapping
+ *     description: |
+ *       First step of a mapped import. Stores the CSV as a pending import and returns
+ *       the detected columns, a suggested mapping (standard fields, "fullName" for
+ *       contacts, and "custom:<fieldName>" for custom fields), the first rows of the
+ *       file, and validation errors for every row under the suggested mapping.
+ *       Pass templateId to start from a saved mapping template.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [csv, entityType]
+ *             properties:
+ *               csv:
+ *                 type: string
+ *               entityType:
+ *                 type: string
+ *                 enum: [contact, company]
+ *               fileName:
+ *                 type: string
+ *               templateId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Pending import with mapping suggestion and validation preview
+ *       400:
+ *         description: Empty CSV, too many rows, or validation failed
+ *       404:
+ *         description: Template not found
+ */
+router.post('/preview', validate(createPreviewSchema), createImportPreviewHandler);
+
+/**
+ * @openapi
+ * /import/templates:
+ *   get:
+ *     tags: [Import]
+ *     summary: List saved column mapping templates
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [contact, company]
+ *     responses:
+ *       200:
+ *         description: Mapping templates
+ *   post:
+ *     tags: [Import]
+ *     summary: Save a column mapping template
+ *     description: Creates a template, or replaces the mapping of the template with the same name.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *     responses:
+ *       201:
+ *         description: Saved template
+ */
+router.get('/templates', listImportTemplatesHandler);
+router.post('/templates', validate(saveTemplateSchema), saveImportTemplateHandler);
+
+/**
+ * @openapi
+ * /import/templates/{templateId}:
+ *   delete:
+ *     tags: [Import]
+ *     summary: Delete a column mapping template
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Template deleted
+ *       404:
+ *         description: Template not found
+ */
+router.delete('/templates/:templateId', deleteImportTemplateHandler);
+
+/**
+ * @openapi
+ * /import/batches:
+ *   get:
+ *     tags: [Import]
+ *     summary: List recent import batches
+ *     description: |
+ *       Every CSV and CRM import writes a batch recording the records it created or
+ *       updated. Batches can be reverted until revertibleUntil (30 days after the import).
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Import batches, newest first
+ */
+router.get('/batches', listImportBatchesHandler);
+
+/**
+ * @openapi
+ * /import/batches/{batchId}:
+ *   get:
+ *     tags: [Import]
+ *     summary: Get an import batch
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Import batch with counts and undo deadline
+ *       404:
+ *         description: Import batch not found
+ */
+router.get('/batches/:batchId', getImportBatchHandler);
+
+/**
+ * @openapi
+ * /import/batches/{batchId}/revert:
+ *   post:
+ *     tags: [Import]
+ *     summary: Revert an import batch
+ *     description: |
+ *       Deletes the records the import created and restores the prior values of the
+ *       fields it updated. Fields edited after the import are left alone and reported
+ *       as conflicts. Requires ADMIN role and writes an audit log entry.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Revert result (deleted, restored, missing, conflicts)
+ *       404:
+ *         description: Import batch not found
+ *       409:
+ *         description: Import batch has already been reverted
+ *       410:
+ *         description: Import batch is older than the undo window
+ */
+router.post('/batches/:batchId/revert', requireOrgRole('ADMIN'), revertImportBatchHandler);
+
+/**
+ * @openapi
+ * /import/{importId}/preview:
+ *   post:
+ *     tags: [Import]
+ *     summary: Re-validate a pending import with an edited mapping
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: importId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Updated mapping and validation preview
+ *       400:
+ *         description: Mapping references an unknown column or field
+ *       409:
+ *         description: Import has already been started
+ */
+router.post('/:importId/preview', validate(previewMappingSchema), previewImportMappingHandler);
+
+/**
+ * @openapi
+ * /import/{importId}/start:
+ *   post:
+ *     tags: [Import]
+ *     summary: Confirm the mapping and run the import in the background
+ *     description: |
+ *       Queues the import. Rows that fail validation are skipped and reported in the
+ *       import's errors. Progress is broadcast over the WebSocket as import.progress,
+ *       import.completed and import.failed events, and can be polled with
+ *       GET /import/{importId}. Set saveAsTemplate to store the mapping under that name.
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: importId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Import queued
+ *       400:
+ *         description: Mapping references an unknown column or field
+ *       409:
+ *         description: Import has already been started
+ */
+router.post('/:importId/start', validate(startImportSchema), startImportHandler);
+
+/**
+ * @openapi
+ * /import/{importId}:
+ *   get:
+ *     tags: [Import]
+ *     summary: Get import status and results
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/OrganizationId'
+ *       - in: path
+ *         name: importId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Import status, counts and row errors
+ *       404:
+ *         description: Import not found
+ */
+router.get('/:importId', getImportJobHandler);
+
 export default router;
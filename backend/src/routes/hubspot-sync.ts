@@ -5,7 +5,11 @@ import { validate } from '../middleware/validate';
 import {
   connectHubSpot,
   disconnectHubSpot,
+  getConflictPolicy,
+  getConflicts,
+  getSyncHistory,
   getSyncStatus,
+  updateConflictPolicy,
 } from '../services/hubspot-sync';
 import { enqueueHubSpotSync } from '../jobs/producers';
 import { logger } from '../utils/logger';
@@ -31,6 +35,13 @@ const syncSchema = z.object({
   fullSync: z.boolean().optional().default(false),
 });
 
+const conflictPolicy = z.enum(['crm', 'sigscore', 'newest']);
+
+const conflictPolicySchema = z.object({
+  defaultPolicy: conflictPolicy.optional(),
+  fields: z.record(conflictPolicy).optional(),
+});
+
 // ---------------------------------------------------------------------------
 // POST /api/v1/integrations/hubspot/connect
 // Store OAuth tokens and register custom properties in HubSpot
@@ -121,6 +132,79 @@ router.get(
   },
 );
 
+// ---------------------------------------------------------------------------
+// GET /api/v1/integrations/hubspot/history
+// Recent sync runs with per-object counts and errors
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/hubspot/history',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organizationId = req.organizationId!;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 100);
+      const runs = await getSyncHistory(organizationId, limit);
+      res.json({ runs });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+// ---------------------------------------------------------------------------
+// GET /api/v1/integrations/hubspot/conflicts
+// Fields edited in both HubSpot and Sigscore, and how each was resolved
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/hubspot/conflicts',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organizationId = req.organizationId!;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 200);
+      const conflicts = await getConflicts(organizationId, limit);
+      res.json({ conflicts });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+// ---------------------------------------------------------------------------
+// GET /api/v1/integrations/hubspot/conflict-policy
+// Effective conflict policy for each field pulled from HubSpot
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/hubspot/conflict-policy',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const policy = await getConflictPolicy(req.organizationId!);
+      res.json(policy);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+// ---------------------------------------------------------------------------
+// PUT /api/v1/integrations/hubspot/conflict-policy
+// Set the default policy and per-field overrides (HubSpot wins / Sigscore wins / newest wins)
+// ---------------------------------------------------------------------------
+
+router.put(
+  '/hubspot/conflict-policy',
+  validate(conflictPolicySchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const policy = await updateConflictPolicy(req.organizationId!, req.body);
+      res.json(policy);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 // ---------------------------------------------------------------------------
 // DELETE /api/v1/integrations/hubspot/disconnect
 // Remove tokens and stop syncing
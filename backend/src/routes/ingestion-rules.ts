@@ -0,0 +1,195 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { authenticate, requireOrganization, requireOrgRole } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { logger } from '../utils/logger';
+import * as ingestionRules from '../services/ingestion-rules';
+
+const router = Router();
+
+// Authentication + organization required for all ingestion rule routes
+router.use(authenticate);
+router.use(requireOrganization);
+
+// ---------------------------------------------------------------------------
+// Validation schemas
+// ---------------------------------------------------------------------------
+
+const conditionSchema = z.object({
+  field: z.string().min(1).max(200),
+  operator: z.enum([
+    'eq',
+    'neq',
+    'gt',
+    'lt',
+    'contains',
+    'in',
+    'regex',
+    'exists',
+    'between',
+    'startsWith',
+    'endsWith',
+    'cidr',
+  ]),
+  value: z
+    .union([
+      z.string().max(1000),
+      z.number(),
+      z.boolean(),
+      z.array(z.union([z.string().max(200), z.number()])).max(100),
+    ])
+    .default(''),
+});
+
+const configSchema = z.object({
+  type: z.string().min(1).max(100).optional(),
+  metadata: z.record(z.string().min(1).max(200), z.unknown()).optional(),
+  fields: z.array(z.string().min(1).max(200)).max(50).optional(),
+  mode: z.enum(['remove', 'mask', 'hash']).optional(),
+});
+
+const ruleFields = {
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  enabled: z.boolean().optional(),
+  position: z.number().int().min(0).optional(),
+  match: z.enum(['all', 'any']).optional(),
+  conditions: z.array(conditionSchema).max(20).optional(),
+  action: z.enum(['DROP', 'RENAME_TYPE', 'SET_METADATA', 'REDACT']),
+  config: configSchema.optional(),
+};
+
+const createRuleSchema = z.object(ruleFields);
+
+const updateRuleSchema = z.object(ruleFields).partial();
+
+const reorderSchema = z.object({
+  ruleIds: z.array(z.string().min(1)).max(ingestionRules.MAX_INGESTION_RULES),
+});
+
+const sampleSchema = z.object({
+  type: z.string().min(1),
+  sourceId: z.string().optional(),
+  sourceType: z.string().optional(),
+  actorId: z.string().optional(),
+  accountId: z.string().optional(),
+  anonymousId: z.string().optional(),
+  metadata: z.record(z.unknown()).default({}),
+});
+
+const testSchema = z.object({
+  samples: z.array(sampleSchema).min(1).max(100),
+  /** Draft rules to test instead of the saved ones */
+  rules: z
+    .array(z.object({ ...ruleFields, id: z.string().min(1).optional() }))
+    .max(ingestionRules.MAX_INGESTION_RULES)
+    .optional(),
+});
+
+// ---------------------------------------------------------------------------
+// GET / — List rules in evaluation order with touched counts
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const rules = await ingestionRules.listIngestionRules(req.organizationId!);
+      res.json({ rules });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.get(
+  '/:id',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const rule = await ingestionRules.getIngestionRule(req.organizationId!, req.params.id);
+      res.json(rule);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+// ---------------------------------------------------------------------------
+// POST /test — Dry-run saved or draft rules against sample payloads
+// ---------------------------------------------------------------------------
+
+router.post(
+  '/test',
+  validate(testSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { samples, rules } = req.body as z.infer<typeof testSchema>;
+      const result = await ingestionRules.testIngestionRules(req.organizationId!, samples, rules);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+// --- All routes below require ADMIN role ---
+router.use(requireOrgRole('ADMIN'));
+
+router.post(
+  '/',
+  validate(createRuleSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const rule = await ingestionRules.createIngestionRule(req.organizationId!, req.body);
+      res.status(201).json(rule);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+// ---------------------------------------------------------------------------
+// PUT /order — Set the evaluation order; must list every rule once
+// ---------------------------------------------------------------------------
+
+router.put(
+  '/order',
+  validate(reorderSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organizationId = req.organizationId!;
+      const rules = await ingestionRules.reorderIngestionRules(organizationId, req.body.ruleIds);
+      logger.info('Ingestion rules reordered via API', { organizationId });
+      res.json({ rules });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.put(
+  '/:id',
+  validate(updateRuleSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const rule = await ingestionRules.updateIngestionRule(req.organizationId!, req.params.id, req.body);
+      res.json(rule);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.delete(
+  '/:id',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await ingestionRules.deleteIngestionRule(req.organizationId!, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export default router;
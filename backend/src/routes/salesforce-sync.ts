@@ -5,7 +5,12 @@ import { validate } from '../middleware/validate';
 import {
   connectSalesforce,
   disconnectSalesforce,
+  getConflictPolicy,
+  getConflicts,
+  getSyncHistory,
+  getSyncRun,
   getSyncStatus,
+  updateConflictPolicy,
 } from '../services/salesforce-sync';
 import { enqueueSalesforceSync } from '../jobs/producers';
 import { logger } from '../utils/logger';
@@ -31,6 +36,13 @@ const syncSchema = z.object({
   fullSync: z.boolean().optional().default(false),
 });
 
+const conflictPolicy = z.enum(['crm', 'sigscore', 'newest']);
+
+const conflictPolicySchema = z.object({
+  defaultPolicy: conflictPolicy.optional(),
+  fields: z.record(conflictPolicy).optional(),
+});
+
 // ---------------------------------------------------------------------------
 // POST /api/v1/integrations/salesforce/connect
 // Store OAuth tokens + instance URL and register custom fields
@@ -121,6 +133,97 @@ router.get(
   },
 );
 
+// ---------------------------------------------------------------------------
+// GET /api/v1/integrations/salesforce/history
+// Recent sync runs with per-object counts and errors
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/salesforce/history',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organizationId = req.organizationId!;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 100);
+      const runs = await getSyncHistory(organizationId, limit);
+      res.json({ runs });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+// ---------------------------------------------------------------------------
+// GET /api/v1/integrations/salesforce/history/:runId
+// A single sync run with the rows Salesforce rejected
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/salesforce/history/:runId',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organizationId = req.organizationId!;
+      const run = await getSyncRun(organizationId, req.params.runId);
+      res.json(run);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+// ---------------------------------------------------------------------------
+// GET /api/v1/integrations/salesforce/conflicts
+// Fields edited in both Salesforce and Sigscore, and how each was resolved
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/salesforce/conflicts',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organizationId = req.organizationId!;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 200);
+      const conflicts = await getConflicts(organizationId, limit);
+      res.json({ conflicts });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+// ---------------------------------------------------------------------------
+// GET /api/v1/integrations/salesforce/conflict-policy
+// Effective conflict policy for each field pulled from Salesforce
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/salesforce/conflict-policy',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const policy = await getConflictPolicy(req.organizationId!);
+      res.json(policy);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+// ---------------------------------------------------------------------------
+// PUT /api/v1/integrations/salesforce/conflict-policy
+// Set the default policy and per-field overrides (Salesforce wins / Sigscore wins / newest wins)
+// ---------------------------------------------------------------------------
+
+router.put(
+  '/salesforce/conflict-policy',
+  validate(conflictPolicySchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const policy = await updateConflictPolicy(req.organizationId!, req.body);
+      res.json(policy);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 // ---------------------------------------------------------------------------
 // DELETE /api/v1/integrations/salesforce/disconnect
 // Remove tokens and stop syncing
@@ -64,6 +64,7 @@ router.post(
 
 // ---------------------------------------------------------------------------
 // GET /:companyId — Get score history for a specific company
+// Pass ?modelId= for a non-primary scoring model's series.
 // ---------------------------------------------------------------------------
 
 router.get(
@@ -73,14 +74,16 @@ router.get(
       const organizationId = req.organizationId!;
       const { companyId } = req.params;
       const days = parseInt(req.query.days as string, 10) || 30;
+      const modelId = typeof req.query.modelId === 'string' ? req.query.modelId : null;
 
       const history = await scoreSnapshotService.getScoreHistory(
         companyId,
         organizationId,
         days,
+        modelId,
       );
 
-      res.json({ data: history, companyId, days });
+      res.json({ data: history, companyId, days, modelId });
     } catch (error) {
       next(error);
     }
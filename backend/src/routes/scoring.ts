@@ -4,11 +4,9 @@ import { authenticate, requireOrganization, requireOrgRole } from '../middleware
 import { validate } from '../middleware/validate';
 import { logger } from '../utils/logger';
 import * as scoringRules from '../services/scoring-rules';
-import {
-  SIGNAL_HALF_LIVES,
-  DEFAULT_HALF_LIFE,
-  computeDecayWeight,
-} from '../services/account-scores';
+import * as scoringModels from '../services/scoring-models';
+import { runBacktest } from '../services/scoring-backtest';
+import { computeDecayWeight, describeSignalDecay } from '../services/account-scores';
 
 const router = Router();
 
@@ -17,48 +15,57 @@ router.use(authenticate);
 router.use(requireOrganization);
 
 // ---------------------------------------------------------------------------
-// GET /decay-config — Return signal decay half-life configuration
+// GET /decay-config — Return the org's effective signal decay half-lives
 // Available to all authenticated users (not admin-only) so the frontend
 // can display decay parameters on score detail views.
 // ---------------------------------------------------------------------------
 
 router.get(
   '/decay-config',
-  async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
-    try {
-      // Build a response that includes the half-life map, the default, and
-      // example decay curves so the frontend can render explanatory charts.
-      const exampleDays = [0, 1, 3, 7, 14, 21, 30, 60, 90];
-      const exampleCurves: Record<string, { day: number; weight: number }[]> = {};
-
-      // Pick a few representative signal types for the example curves
-      const representativeTypes = [
-        'signup',        // very durable (60d half-life)
-        'repo_fork',     // durable (28d)
-        'api_call',      // medium (14d)
-        'page_view',     // transient (5d)
-      ];
-
-      for (const signalType of representativeTypes) {
-        exampleCurves[signalType] = exampleDays.map((day) => ({
-          day,
-          weight: Math.round(computeDecayWeight(signalType, day) * 1000) / 1000,
-        }));
-      }
-
-      res.json({
-        halfLives: SIGNAL_HALF_LIVES,
-        defaultHalfLife: DEFAULT_HALF_LIFE,
-        decayFormula: 'weight = e^(-ln(2) / halfLife * daysOld)',
-        windowDays: 90,
-        exampleCurves,
-      });
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      res.json(await buildDecayConfigResponse(req.organizationId!));
     } catch (error) {
       next(error);
     }
   },
 );
 
+/**
+ * Effective half-lives plus example decay curves so the frontend can
+ * render explanatory charts.
+ */
+async function buildDecayConfigResponse(organizationId: string) {
+  const decay = await describeSignalDecay(organizationId);
+  const settings = { halfLives: decay.overrides, defaultHalfLife: decay.defaultHalfLife };
+
+  const exampleDays = [0, 1, 3, 7, 14, 21, 30, 60, 90];
+  const exampleCurves: Record<string, { day: number; weight: number }[]> = {};
+
+  // Pick a few representative signal types for the example curves
+  const representativeTypes = [
+    'signup',        // very durable (60d half-life)
+    'repo_fork',     // durable (28d)
+    'api_call',      // medium (14d)
+    'page_view',     // transient (5d)
+  ];
+
+  for (const signalType of representativeTypes) {
+    exampleCurves[signalType] = exampleDays.map((day) => ({
+      day,
+      weight: Math.round(computeDecayWeight(signalType, day, settings) * 1000) / 1000,
+    }));
+  }
+
+  return {
+    halfLives: Object.fromEntries(decay.signalTypes.map((t) => [t.type, t.halfLife])),
+    ...decay,
+    decayFormula: 'weight = e^(-ln(2) / halfLife * daysOld)',
+    windowDays: 90,
+    exampleCurves,
+  };
+}
+
 // --- All routes below require ADMIN role ---
 router.use(requireOrgRole('ADMIN'));
 
@@ -67,9 +74,16 @@ router.use(requireOrgRole('ADMIN'));
 // ---------------------------------------------------------------------------
 
 const conditionSchema = z.object({
-  field: z.string().min(1),
-  operator: z.enum(['gt', 'lt', 'eq', 'contains']),
-  value: z.string(),
+  field: z.string().min(1).max(200),
+  operator: z.enum(['gt', 'lt', 'eq', 'contains', 'in', 'regex', 'exists', 'between']),
+  value: z
+    .union([
+      z.string().max(1000),
+      z.number(),
+      z.boolean(),
+      z.array(z.union([z.string().max(200), z.number()])).max(100),
+    ])
+    .default(''),
 });
 
 const scoringRuleSchema = z.object({
@@ -89,10 +103,48 @@ const tierThresholdsSchema = z.object({
   COLD: z.number().min(0).max(100),
 });
 
+const halfLifeSchema = z
+  .number()
+  .min(scoringRules.MIN_HALF_LIFE_DAYS)
+  .max(scoringRules.MAX_HALF_LIFE_DAYS);
+
+const halfLivesSchema = z.record(z.string().min(1).max(100), halfLifeSchema);
+
 const scoringConfigSchema = z.object({
   rules: z.array(scoringRuleSchema).min(1).max(50),
   tierThresholds: tierThresholdsSchema,
   maxScore: z.number().min(1).max(1000).default(100),
+  halfLives: halfLivesSchema.optional(),
+  defaultHalfLife: halfLifeSchema.nullable().optional(),
+});
+
+const decayConfigSchema = z.object({
+  halfLives: halfLivesSchema,
+  defaultHalfLife: halfLifeSchema.nullable().optional(),
+});
+
+const createModelSchema = z
+  .object({
+    name: z.string().min(1).max(100),
+    description: z.string().max(500).nullable().optional(),
+    config: scoringConfigSchema.optional(),
+    copyFromModelId: z.string().min(1).optional(),
+  })
+  .refine((data) => !(data.config && data.copyFromModelId), {
+    message: 'Provide either config or copyFromModelId, not both',
+  });
+
+const backtestSchema = z.object({
+  config: scoringConfigSchema.optional(),
+  modelId: z.string().min(1).optional(),
+  leadDays: z.number().int().min(0).max(180).default(30),
+  lookbackDays: z.number().int().min(30).max(730).default(365),
+});
+
+const updateModelSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  config: scoringConfigSchema.optional(),
 });
 
 // ---------------------------------------------------------------------------
@@ -132,6 +184,33 @@ router.put(
   },
 );
 
+// ---------------------------------------------------------------------------
+// PUT /decay-config — Replace the org's half-life overrides
+// Scores are recomputed in the background when the effective values change.
+// ---------------------------------------------------------------------------
+
+router.put(
+  '/decay-config',
+  validate(decayConfigSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organizationId = req.organizationId!;
+      const { halfLives, defaultHalfLife } = req.body as z.infer<typeof decayConfigSchema>;
+
+      const current = await scoringRules.getScoringConfig(organizationId);
+      await scoringRules.updateScoringConfig(organizationId, { ...current, halfLives, defaultHalfLife });
+      logger.info('Signal half-lives updated via API', {
+        organizationId,
+        overrides: Object.keys(halfLives).length,
+      });
+
+      res.json(await buildDecayConfigResponse(organizationId));
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 // ---------------------------------------------------------------------------
 // POST /preview — Preview scores with proposed config
 // ---------------------------------------------------------------------------
@@ -143,8 +222,39 @@ router.post(
     try {
       const organizationId = req.organizationId!;
       const proposedConfig = req.body as scoringRules.ScoringConfig;
-      const previews = await scoringRules.previewScores(organizationId, proposedConfig);
-      res.json({ previews });
+      const preview = await scoringRules.previewScores(organizationId, proposedConfig);
+      res.json(preview);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+// ---------------------------------------------------------------------------
+// POST /backtest — Replay a config against closed deals
+// ---------------------------------------------------------------------------
+
+router.post(
+  '/backtest',
+  validate(backtestSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organizationId = req.organizationId!;
+      const { config, modelId, leadDays, lookbackDays } = req.body as z.infer<typeof backtestSchema>;
+
+      // Explicit config wins, then a saved model, then the live config
+      let backtestConfig: scoringRules.ScoringConfig;
+      if (config) {
+        backtestConfig = config as scoringRules.ScoringConfig;
+      } else if (modelId) {
+        const model = await scoringModels.getScoringModel(organizationId, modelId);
+        backtestConfig = model.config as unknown as scoringRules.ScoringConfig;
+      } else {
+        backtestConfig = await scoringRules.getScoringConfig(organizationId);
+      }
+
+      const result = await runBacktest(organizationId, backtestConfig, { leadDays, lookbackDays });
+      res.json(result);
     } catch (error) {
       next(error);
     }
@@ -201,4 +311,114 @@ router.post(
   },
 );
 
+// ---------------------------------------------------------------------------
+// Scoring models — named configs scored side by side, one primary
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/models',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const models = await scoringModels.listScoringModels(req.organizationId!);
+      res.json({ models });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.post(
+  '/models',
+  validate(createModelSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const model = await scoringModels.createScoringModel(req.organizationId!, req.body);
+      res.status(201).json(model);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+// GET /models/compare?a=<modelId>&b=<modelId> — rank correlation + tier disagreements
+router.get(
+  '/models/compare',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { a, b } = req.query;
+      if (typeof a !== 'string' || typeof b !== 'string' || !a || !b) {
+        res.status(400).json({ error: 'Query parameters "a" and "b" (model ids) are required' });
+        return;
+      }
+      const comparison = await scoringModels.compareScoringModels(req.organizationId!, a, b);
+      res.json(comparison);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.get(
+  '/models/:id',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const model = await scoringModels.getScoringModel(req.organizationId!, req.params.id);
+      res.json(model);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.put(
+  '/models/:id',
+  validate(updateModelSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const model = await scoringModels.updateScoringModel(req.organizationId!, req.params.id, req.body);
+      res.json(model);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.delete(
+  '/models/:id',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await scoringModels.deleteScoringModel(req.organizationId!, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.post(
+  '/models/:id/primary',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organizationId = req.organizationId!;
+      const result = await scoringModels.setPrimaryModel(organizationId, req.params.id);
+      logger.info('Primary scoring model set via API', { organizationId, modelId: req.params.id });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.post(
+  '/models/:id/recompute',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await scoringModels.recomputeModelScores(req.organizationId!, req.params.id);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 export default router;
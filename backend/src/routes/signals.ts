@@ -46,6 +46,8 @@ const ingestBatchSchema = z.object({
  *       Ingests a single signal event. The system automatically resolves accountId from the actor's contact company if not provided.
  *       If the signal includes an email-like anonymousId, domain matching is attempted to resolve the account.
  *       On successful ingest, webhooks are dispatched asynchronously and the account score is recomputed if an account was resolved.
+ *       Org ingestion rules run first and may rewrite the signal or drop it, in which case nothing is stored and the
+ *       response is 200 with `dropped: true` and the rule in `droppedBy`.
  *     security:
  *       - BearerAuth: []
  *       - ApiKeyAuth: []
@@ -100,6 +102,7 @@ router.post('/', enforceSignalLimit, validate(ingestSignalSchema), ingestSignal)
  *     description: |
  *       Ingests up to 1000 signals in a single request. Each signal is processed independently --
  *       failures in individual signals do not block others. The response includes per-signal success/failure status and a summary.
+ *       Signals dropped by ingestion rules are reported with `dropped: true` and counted in `summary.dropped`.
  *     security:
  *       - BearerAuth: []
  *       - ApiKeyAuth: []
@@ -516,7 +519,9 @@ router.get('/accounts/:accountId/timeline', getAccountTimeline);
  *   get:
  *     tags: [Signals]
  *     summary: Get account PQA score
- *     description: Returns the most recently computed Product-Qualified Account score for the given account.
+ *     description: >
+ *       Returns the most recently computed Product-Qualified Account score for the given account,
+ *       including an explainable breakdown of per-factor points, decay applied and the top contributing signal types.
  *     security:
  *       - BearerAuth: []
  *       - ApiKeyAuth: []
@@ -14,8 +14,18 @@ import {
   sendTestWebhook,
   getSubscriptionDeliveries,
   getSubscriptionWithDeliveryStats,
+  rotateSubscriptionSecret,
+  previewTransform,
   WEBHOOK_EVENT_TYPES,
 } from '../services/webhook-subscriptions';
+import { DEFAULT_ROTATION_GRACE_HOURS, MAX_ROTATION_GRACE_HOURS } from '../services/webhook-signing';
+import { MAX_TRANSFORM_LENGTH } from '../services/payload-transform';
+import {
+  listDeadLetters,
+  redeliverDeadLetter,
+  redeliverDelivery,
+  startReplay,
+} from '../services/webhook-replay';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -56,6 +66,12 @@ const webhookFiltersSchema = z.object({
   tiers: z.array(z.string()).optional(),
   signalTypes: z.array(z.string()).optional(),
   accountIds: z.array(z.string()).optional(),
+  tierDirection: z.enum(['up', 'down']).optional(),
+  stages: z.array(z.string()).optional(),
+  severities: z.array(z.string()).optional(),
+  triggerTypes: z.array(z.string()).optional(),
+  entityTypes: z.array(z.string()).optional(),
+  workflowIds: z.array(z.string()).optional(),
 }).optional();
 
 const createSubscriptionSchema = z.object({
@@ -68,6 +84,9 @@ const createSubscriptionSchema = z.object({
   hookId: z.string().optional(),
   filters: webhookFiltersSchema,
   payloadTemplate: z.record(z.unknown()).optional(),
+  transform: z.string().max(MAX_TRANSFORM_LENGTH).optional(),
+  clientCert: z.string().max(20_000).optional(),
+  clientKey: z.string().max(20_000).optional(),
 });
 
 const updateSubscriptionSchema = z.object({
@@ -80,12 +99,34 @@ const updateSubscriptionSchema = z.object({
   active: z.boolean().optional(),
   filters: webhookFiltersSchema.nullable(),
   payloadTemplate: z.record(z.unknown()).nullable().optional(),
+  transform: z.string().max(MAX_TRANSFORM_LENGTH).nullable().optional(),
+  clientCert: z.string().max(20_000).nullable().optional(),
+  clientKey: z.string().max(20_000).nullable().optional(),
+});
+
+const transformPreviewSchema = z.object({
+  event: z.enum(WEBHOOK_EVENT_TYPES as unknown as [string, ...string[]], {
+    errorMap: () => ({
+      message: `event must be one of: ${WEBHOOK_EVENT_TYPES.join(', ')}`,
+    }),
+  }),
+  transform: z.string().max(MAX_TRANSFORM_LENGTH),
+  data: z.record(z.unknown()).optional(),
+});
+
+const rotateSecretSchema = z.object({
+  graceHours: z.number().int().min(0).max(MAX_ROTATION_GRACE_HOURS).optional(),
 });
 
 const toggleActiveSchema = z.object({
   active: z.boolean(),
 });
 
+const replaySchema = z.object({
+  from: z.string().datetime({ offset: true }),
+  to: z.string().datetime({ offset: true }).optional(),
+});
+
 // ---------------------------------------------------------------------------
 // Routes
 // ---------------------------------------------------------------------------
@@ -110,6 +151,19 @@ router.get('/events', (_req: Request, res: Response): void => {
   res.json({ events: WEBHOOK_EVENT_TYPES });
 });
 
+/**
+ * POST /webhooks/subscribe/transform/preview — run a payload transform against an event's test payload
+ * Optional `data` replaces the test payload. Transform errors come back as { success: false, error, position }.
+ */
+router.post('/transform/preview', ...flexAuth, validate(transformPreviewSchema), (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    const organizationId = req.organizationId!;
+    res.json(previewTransform(organizationId, req.body));
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /webhooks/subscribe/:id — get a single subscription
  */
@@ -125,7 +179,7 @@ router.get('/:id', ...flexAuth, async (req: Request, res: Response, next: NextFu
 
 /**
  * POST /webhooks/subscribe — create a new subscription (Zapier REST Hook pattern)
- * Supports optional filters and payloadTemplate for conditional dispatch.
+ * Supports optional filters, and payloadTemplate or transform to reshape payloads.
  */
 router.post('/', ...flexAuth, validate(createSubscriptionSchema), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -139,7 +193,7 @@ router.post('/', ...flexAuth, validate(createSubscriptionSchema), async (req: Re
 });
 
 /**
- * PUT /webhooks/subscribe/:id — update subscription (URL, event, filters, payloadTemplate)
+ * PUT /webhooks/subscribe/:id — update subscription (URL, event, filters, payloadTemplate, client certificate)
  */
 router.put('/:id', ...flexAuth, validate(updateSubscriptionSchema), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -159,6 +213,24 @@ router.put('/:id', ...flexAuth, validate(updateSubscriptionSchema), async (req:
   }
 });
 
+/**
+ * POST /webhooks/subscribe/:id/rotate-secret — issue a new signing secret
+ * The old secret keeps signing alongside it for `graceHours` (default 24, 0 retires it at once).
+ */
+router.post('/:id/rotate-secret', ...flexAuth, validate(rotateSecretSchema), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const subscription = await rotateSubscriptionSecret(
+      organizationId,
+      req.params.id,
+      req.body.graceHours ?? DEFAULT_ROTATION_GRACE_HOURS,
+    );
+    res.json(subscription);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * PATCH /webhooks/subscribe/:id — toggle active status
  */
@@ -214,6 +286,67 @@ router.get('/:id/deliveries', ...flexAuth, async (req: Request, res: Response, n
   }
 });
 
+/**
+ * POST /webhooks/subscribe/:id/deliveries/:deliveryId/redeliver — resend a logged delivery now
+ */
+router.post('/:id/deliveries/:deliveryId/redeliver', ...flexAuth, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const result = await redeliverDelivery(organizationId, req.params.id, req.params.deliveryId);
+    logger.info(`Webhook delivery redelivered: ${req.params.deliveryId} (${result.success ? 'OK' : 'FAILED'})`);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /webhooks/subscribe/:id/dead-letters — events that were never delivered
+ * Optional ?status=PENDING|REDELIVERED and ?limit (max 200).
+ */
+router.get('/:id/dead-letters', ...flexAuth, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const status = req.query.status === 'PENDING' || req.query.status === 'REDELIVERED' ? req.query.status : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+    const result = await listDeadLetters(organizationId, req.params.id, { status, limit });
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /webhooks/subscribe/:id/dead-letters/:deadLetterId/redeliver — resend one dead letter now
+ */
+router.post('/:id/dead-letters/:deadLetterId/redeliver', ...flexAuth, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const result = await redeliverDeadLetter(organizationId, req.params.id, req.params.deadLetterId);
+    logger.info(`Webhook dead letter redelivered: ${req.params.deadLetterId} (${result.success ? 'OK' : 'FAILED'})`);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /webhooks/subscribe/:id/replay — replay pending dead letters fired between `from` and `to`
+ * Runs in the background, oldest event first, and stops at the first failed delivery.
+ */
+router.post('/:id/replay', ...flexAuth, validate(replaySchema), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const organizationId = req.organizationId!;
+    const result = await startReplay(organizationId, req.params.id, {
+      from: new Date(req.body.from),
+      to: req.body.to ? new Date(req.body.to) : undefined,
+    });
+    res.status(result.queued ? 202 : 200).json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * POST /webhooks/subscribe/:id/test — send a test payload synchronously
  * Records the delivery in WebhookSubscriptionDelivery and returns full result.
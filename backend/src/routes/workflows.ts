@@ -15,6 +15,62 @@ router.use(requireOrganization);
 // Zod schemas
 // ---------------------------------------------------------------------------
 
+const conditionSchema = z.object({
+  field: z.string(),
+  operator: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in']),
+  value: z.unknown(),
+});
+
+const actionSchema = z.object({
+  type: z.enum([
+    'create_deal',
+    'update_deal_stage',
+    'send_webhook',
+    'send_slack',
+    'add_tag',
+    'log',
+    'enroll_in_sequence',
+    'create_note',
+    'assign_owner',
+    'set_custom_field',
+    'create_task',
+    'send_notification',
+  ]),
+  params: z.record(z.unknown()),
+});
+
+const stepIdSchema = z.string().min(1).max(64);
+
+const stepSchema = z.discriminatedUnion('type', [
+  z.object({
+    id: stepIdSchema,
+    type: z.literal('action'),
+    action: actionSchema,
+    next: stepIdSchema.nullable().optional(),
+  }),
+  z.object({
+    id: stepIdSchema,
+    type: z.literal('wait'),
+    duration: z.object({
+      amount: z.number().int().positive(),
+      unit: z.enum(['minutes', 'hours', 'days']),
+    }),
+    next: stepIdSchema.nullable().optional(),
+  }),
+  z.object({
+    id: stepIdSchema,
+    type: z.literal('branch'),
+    conditions: z.array(conditionSchema).min(1),
+    onTrue: stepIdSchema.nullable().optional(),
+    onFalse: stepIdSchema.nullable().optional(),
+  }),
+  z.object({
+    id: stepIdSchema,
+    type: z.literal('goto'),
+    target: stepIdSchema,
+  }),
+]);
+
 const createWorkflowSchema = z.object({
   name: z.string().min(1),
   description: z.string().optional(),
@@ -32,31 +88,13 @@ const createWorkflowSchema = z.object({
     ]),
     filters: z.record(z.unknown()).optional(),
   }),
-  conditions: z
-    .array(
-      z.object({
-        field: z.string(),
-        operator: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in']),
-        value: z.unknown(),
-      }),
-    )
-    .optional(),
-  actions: z
-    .array(
-      z.object({
-        type: z.enum([
-          'create_deal',
-          'update_deal_stage',
-          'send_webhook',
-          'send_slack',
-          'add_tag',
-          'log',
-        ]),
-        params: z.record(z.unknown()),
-      }),
-    )
-    .min(1),
+  conditions: z.array(conditionSchema).optional(),
+  actions: z.array(actionSchema).min(1).optional(),
+  steps: z.array(stepSchema).min(1).max(100).optional(),
   enabled: z.boolean().optional(),
+}).refine((data) => data.actions !== undefined || data.steps !== undefined, {
+  message: 'Either actions or steps is required',
+  path: ['actions'],
 });
 
 const updateWorkflowSchema = z.object({
@@ -78,34 +116,17 @@ const updateWorkflowSchema = z.object({
       filters: z.record(z.unknown()).optional(),
     })
     .optional(),
-  conditions: z
-    .array(
-      z.object({
-        field: z.string(),
-        operator: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in']),
-        value: z.unknown(),
-      }),
-    )
-    .optional(),
-  actions: z
-    .array(
-      z.object({
-        type: z.enum([
-          'create_deal',
-          'update_deal_stage',
-          'send_webhook',
-          'send_slack',
-          'add_tag',
-          'log',
-        ]),
-        params: z.record(z.unknown()),
-      }),
-    )
-    .min(1)
-    .optional(),
+  conditions: z.array(conditionSchema).optional(),
+  actions: z.array(actionSchema).min(1).optional(),
+  steps: z.array(stepSchema).min(1).max(100).nullable().optional(),
   enabled: z.boolean().optional(),
 });
 
+const simulateWorkflowSchema = z.object({
+  days: z.number().int().min(1).max(90).optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+});
+
 const processEventSchema = z.object({
   event: z.string().min(1),
   data: z.record(z.unknown()),
@@ -223,6 +244,44 @@ router.get(
   },
 );
 
+/**
+ * POST /:id/runs/:runId/retry - Re-run a failed run from the action that failed
+ */
+router.post(
+  '/:id/runs/:runId/retry',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organizationId = req.organizationId!;
+      const run = await workflowService.retryWorkflowRun(
+        req.params.id,
+        req.params.runId,
+        organizationId,
+      );
+      logger.info(`Workflow run retried: ${run.id} (${run.status})`);
+      res.json(run);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+/**
+ * POST /:id/simulate - Dry-run the workflow against the last N days of events
+ */
+router.post(
+  '/:id/simulate',
+  validate(simulateWorkflowSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organizationId = req.organizationId!;
+      const result = await workflowService.simulateWorkflow(req.params.id, organizationId, req.body);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 /**
  * POST /process-event - Manually trigger event processing (for testing)
  */
@@ -0,0 +1,222 @@
+import '../../__tests__/setup';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+const mockTx = {
+  contact: { updateMany: jest.fn() },
+  deal: { updateMany: jest.fn() },
+  signal: { updateMany: jest.fn() },
+  activity: { updateMany: jest.fn() },
+  note: { updateMany: jest.fn() },
+  scoreSnapshot: { updateMany: jest.fn() },
+  accountBrief: { updateMany: jest.fn() },
+  accountReport: { updateMany: jest.fn() },
+  companyTag: { findMany: jest.fn(), findUnique: jest.fn(), create: jest.fn() },
+  company: { findUnique: jest.fn(), update: jest.fn(), delete: jest.fn() },
+};
+
+const mockPrisma = {
+  company: { findMany: jest.fn(), findUnique: jest.fn() },
+  $queryRaw: jest.fn(),
+  $transaction: jest.fn((fn: (tx: typeof mockTx) => Promise<unknown>) => fn(mockTx)),
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+const mockComputeAccountScore = jest.fn();
+jest.mock('../account-scores', () => ({
+  computeAccountScore: mockComputeAccountScore,
+}));
+
+const mockRecomputeAccountModelScores = jest.fn();
+jest.mock('../scoring-models', () => ({
+  recomputeAccountModelScores: mockRecomputeAccountModelScores,
+}));
+
+const mockFireCompanyMerged = jest.fn();
+jest.mock('../webhook-events', () => ({
+  fireCompanyMerged: mockFireCompanyMerged,
+}));
+
+import { findCompanyDuplicates, mergeCompanies, normalizeDomain } from '../company-merge';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+
+function makeCompany(id: string, name: string, domain: string | null, day: number) {
+  return { id, name, domain, createdAt: new Date(2026, 0, day) };
+}
+
+describe('Company merge', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFireCompanyMerged.mockResolvedValue(undefined);
+    mockComputeAccountScore.mockResolvedValue({});
+    mockRecomputeAccountModelScores.mockResolvedValue(undefined);
+  });
+
+  // ================================================================
+  // findCompanyDuplicates
+  // ================================================================
+  describe('findCompanyDuplicates', () => {
+    it('should normalize domains before comparing', () => {
+      expect(normalizeDomain('https://www.Acme.com/about')).toBe('acme.com');
+      expect(normalizeDomain('acme.com.')).toBe('acme.com');
+    });
+
+    it('should combine domain, name and shared-contact matches into one group per company', async () => {
+      mockPrisma.company.findMany.mockResolvedValue([
+        makeCompany('co-acme', 'Acme', 'acme.com', 1),
+        makeCompany('co-acme-inc', 'Acme Inc.', null, 2),
+        makeCompany('co-acme-www', 'ACME Corporation', 'https://www.acme.com', 3),
+        makeCompany('co-globex', 'Globex', 'globex.com', 4),
+        makeCompany('co-globex-eu', 'Globex Europe', 'globex.eu', 5),
+        makeCompany('co-initech', 'Initech', 'initech.com', 6),
+      ]);
+      mockPrisma.$queryRaw.mockResolvedValue([
+        { email: 'hank@globex.com', company_ids: 'co-globex,co-globex-eu' },
+      ]);
+
+      const groups = await findCompanyDuplicates(ORG_ID);
+
+      expect(groups).toHaveLength(2);
+      expect(groups[0]).toEqual({
+        primaryCompanyId: 'co-acme',
+        primaryName: 'Acme',
+        primaryDomain: 'acme.com',
+        duplicates: [
+          {
+            companyId: 'co-acme-inc',
+            name: 'Acme Inc.',
+            domain: null,
+            matches: [{ type: 'NAME', value: 'acme', confidence: 0.7 }],
+            overallConfidence: 0.7,
+          },
+          {
+            companyId: 'co-acme-www',
+            name: 'ACME Corporation',
+            domain: 'https://www.acme.com',
+            matches: [
+              { type: 'DOMAIN', value: 'acme.com', confidence: 0.95 },
+              { type: 'NAME', value: 'acme', confidence: 0.7 },
+            ],
+            overallConfidence: 0.95,
+          },
+        ],
+      });
+      expect(groups[1]).toMatchObject({
+        primaryCompanyId: 'co-globex',
+        duplicates: [{
+          companyId: 'co-globex-eu',
+          matches: [{ type: 'SHARED_CONTACTS', value: 'hank@globex.com', confidence: 0.8 }],
+        }],
+      });
+    });
+  });
+
+  // ================================================================
+  // mergeCompanies
+  // ================================================================
+  describe('mergeCompanies', () => {
+    it('should reject companies outside the organization', async () => {
+      mockPrisma.company.findMany.mockResolvedValue([{ id: 'co-1' }]);
+
+      await expect(mergeCompanies(ORG_ID, 'co-1', ['co-other'])).rejects.toMatchObject({
+        message: 'Company co-other not found in organization',
+        statusCode: 404,
+      });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should re-parent related records, fill empty fields and rescore the survivor', async () => {
+      mockPrisma.company.findMany.mockResolvedValue([{ id: 'co-1' }, { id: 'co-2' }]);
+      mockTx.companyTag.findMany.mockResolvedValue([{ companyId: 'co-2', tagId: 'tag-a' }, { companyId: 'co-2', tagId: 'tag-b' }]);
+      mockTx.companyTag.findUnique.mockImplementation(({ where }) =>
+        Promise.resolve(where.companyId_tagId.tagId === 'tag-a' ? { tagId: 'tag-a' } : null),
+      );
+      mockTx.company.findUnique.mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.id === 'co-1'
+            ? { id: 'co-1', name: 'Acme', domain: 'acme.com', industry: null, customFields: { region: 'EMEA' } }
+            : { id: 'co-2', name: 'Acme Inc.', domain: 'acme.io', industry: 'DevTools', customFields: { region: 'US', plan: 'pro' } },
+        ),
+      );
+      const survivor = { id: 'co-1', name: 'Acme' };
+      mockPrisma.company.findUnique.mockResolvedValue(survivor);
+
+      const result = await mergeCompanies(ORG_ID, 'co-1', ['co-2']);
+
+      expect(result).toEqual({ merged: 1, errors: [] });
+      const moved = { where: { companyId: 'co-2' }, data: { companyId: 'co-1' } };
+      expect(mockTx.contact.updateMany).toHaveBeenCalledWith(moved);
+      expect(mockTx.deal.updateMany).toHaveBeenCalledWith(moved);
+      expect(mockTx.activity.updateMany).toHaveBeenCalledWith(moved);
+      expect(mockTx.scoreSnapshot.updateMany).toHaveBeenCalledWith(moved);
+      expect(mockTx.signal.updateMany).toHaveBeenCalledWith({ where: { accountId: 'co-2' }, data: { accountId: 'co-1' } });
+      expect(mockTx.note.updateMany).toHaveBeenCalledWith({
+        where: { organizationId: ORG_ID, entityType: 'company', entityId: 'co-2' },
+        data: { entityId: 'co-1' },
+      });
+
+      // Only the tag the primary lacks is copied
+      expect(mockTx.companyTag.create).toHaveBeenCalledTimes(1);
+      expect(mockTx.companyTag.create).toHaveBeenCalledWith({ data: { companyId: 'co-1', tagId: 'tag-b' } });
+
+      // Primary values win; gaps are filled from the duplicate
+      expect(mockTx.company.update).toHaveBeenCalledWith({
+        where: { id: 'co-1' },
+        data: { industry: 'DevTools', customFields: { region: 'EMEA', plan: 'pro' } },
+      });
+      expect(mockTx.company.delete).toHaveBeenCalledWith({ where: { id: 'co-2' } });
+
+      expect(mockComputeAccountScore).toHaveBeenCalledWith(ORG_ID, 'co-1');
+      expect(mockRecomputeAccountModelScores).toHaveBeenCalledWith(ORG_ID, 'co-1');
+      expect(mockFireCompanyMerged).toHaveBeenCalledWith(ORG_ID, survivor, ['co-2']);
+    });
+
+    it("should keep the duplicate's CRM ids on the survivor for later pulls", async () => {
+      mockPrisma.company.findMany.mockResolvedValue([{ id: 'co-1' }, { id: 'co-2' }]);
+      mockTx.companyTag.findMany.mockResolvedValue([]);
+      mockTx.company.findUnique.mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.id === 'co-1'
+            ? { id: 'co-1', name: 'Acme', customFields: { hubspotId: 'hs-1', hubspotMergedIds: ['hs-0'] } }
+            : { id: 'co-2', name: 'Acme Inc.', customFields: { hubspotId: 'hs-2', salesforceId: 'sf-2' } },
+        ),
+      );
+      mockPrisma.company.findUnique.mockResolvedValue({ id: 'co-1' });
+
+      await mergeCompanies(ORG_ID, 'co-1', ['co-2']);
+
+      // The survivor takes over the Salesforce id it lacked; the second HubSpot id is listed as merged
+      expect(mockTx.company.update).toHaveBeenCalledWith({
+        where: { id: 'co-1' },
+        data: {
+          customFields: {
+            hubspotId: 'hs-1',
+            salesforceId: 'sf-2',
+            hubspotMergedIds: ['hs-0', 'hs-2'],
+          },
+        },
+      });
+    });
+
+    it('should report per-duplicate failures and skip events when nothing merged', async () => {
+      mockPrisma.company.findMany.mockResolvedValue([{ id: 'co-1' }, { id: 'co-2' }]);
+      mockPrisma.$transaction.mockRejectedValueOnce(new Error('deadlock detected'));
+
+      const result = await mergeCompanies(ORG_ID, 'co-1', ['co-2']);
+
+      expect(result).toEqual({ merged: 0, errors: ['co-2: deadlock detected'] });
+      expect(mockComputeAccountScore).not.toHaveBeenCalled();
+      expect(mockFireCompanyMerged).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import '../../__tests__/setup';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+const mockPrisma = {
+  organization: {
+    findUnique: jest.fn(),
+  },
+  contact: {
+    findFirst: jest.fn(),
+  },
+  signal: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+  },
+  contactScore: {
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+  },
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+const mockFireContactScoreChanged = jest.fn().mockResolvedValue(undefined);
+
+jest.mock('../webhook-events', () => ({
+  fireContactScoreChanged: mockFireContactScoreChanged,
+}));
+
+import { computeContactScore } from '../contact-scores';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+const CONTACT_ID = 'contact-1';
+const HOUR = 60 * 60 * 1000;
+
+const CONTACT = {
+  id: CONTACT_ID,
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  email: 'ada@example.com',
+  companyId: 'company-1',
+};
+
+function mockSignals(types: string[], ageMs = HOUR) {
+  const timestamp = new Date(Date.now() - ageMs);
+  mockPrisma.signal.findMany.mockResolvedValue(types.map((type) => ({ type, timestamp })));
+  mockPrisma.signal.findFirst.mockResolvedValue(types.length > 0 ? { timestamp } : null);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Contact lead scores', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.organization.findUnique.mockResolvedValue({ settings: {} });
+    mockPrisma.contact.findFirst.mockResolvedValue(CONTACT);
+    mockPrisma.contactScore.findUnique.mockResolvedValue(null);
+    mockPrisma.contactScore.upsert.mockImplementation(({ create }) =>
+      Promise.resolve({ id: 'score-1', contactId: CONTACT_ID, ...create }),
+    );
+  });
+
+  it('should score a recently active contact as HOT and fire the change webhook', async () => {
+    mockSignals([
+      ...Array.from({ length: 30 }, () => 'app_login'),
+      'feature_used',
+      'api_call',
+      'docs_view',
+      'package_install',
+      'github_star',
+    ]);
+
+    const result = await computeContactScore(ORG_ID, CONTACT_ID);
+
+    expect(result.score).toBeGreaterThanOrEqual(70);
+    expect(result.tier).toBe('HOT');
+    expect(result.signalCount).toBe(35);
+    expect(mockFireContactScoreChanged).toHaveBeenCalledWith(
+      ORG_ID,
+      expect.objectContaining({
+        contactId: CONTACT_ID,
+        contactName: 'Ada Lovelace',
+        oldScore: null,
+        newTier: 'HOT',
+      }),
+    );
+  });
+
+  it('should score a contact without signals as INACTIVE', async () => {
+    mockSignals([]);
+
+    const result = await computeContactScore(ORG_ID, CONTACT_ID);
+
+    expect(result.score).toBe(0);
+    expect(result.tier).toBe('INACTIVE');
+    expect(result.lastSignalAt).toBeNull();
+  });
+
+  it('should not fire the webhook when the score is unchanged', async () => {
+    mockSignals([]);
+    mockPrisma.contactScore.findUnique.mockResolvedValue({ score: 0, tier: 'INACTIVE' });
+
+    await computeContactScore(ORG_ID, CONTACT_ID);
+
+    expect(mockFireContactScoreChanged).not.toHaveBeenCalled();
+  });
+
+  it('should decay signals with the org half-life overrides', async () => {
+    const TWO_WEEKS = 14 * 24 * HOUR;
+    mockSignals(Array.from({ length: 8 }, () => 'custom_deploy'), TWO_WEEKS);
+    const baseline = await computeContactScore(ORG_ID, CONTACT_ID);
+
+    mockPrisma.organization.findUnique.mockResolvedValue({
+      settings: {
+        scoringConfig: {
+          rules: [],
+          tierThresholds: { HOT: 80, WARM: 50, COLD: 20 },
+          halfLives: { custom_deploy: 1 },
+        },
+      },
+    });
+    const decayed = await computeContactScore(ORG_ID, CONTACT_ID);
+
+    expect(decayed.score).toBeLessThan(baseline.score);
+  });
+
+  it('should throw 404 for a contact outside the organization', async () => {
+    mockPrisma.contact.findFirst.mockResolvedValue(null);
+
+    await expect(computeContactScore(ORG_ID, 'missing')).rejects.toThrow('Contact not found');
+    expect(mockPrisma.contactScore.upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,125 @@
+import '../../__tests__/setup';
+import fs from 'fs';
+import path from 'path';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+jest.mock('../../config/database', () => ({
+  prisma: {},
+}));
+
+jest.mock('../audit', () => ({
+  logAudit: jest.fn(),
+}));
+
+import { DealStage } from '@prisma/client';
+import { parseCSV } from '../csv-import';
+import {
+  CrmFormat,
+  detectCrmFormat,
+  detectCsvFormat,
+  mapDealStage,
+  parseCompanies,
+  parseContacts,
+  parseDeals,
+} from '../crm-import';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+const FORMATS: CrmFormat[] = ['pipedrive', 'attio', 'close', 'copper'];
+
+function fixture(format: CrmFormat, entity: string): string {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', 'crm-import', `${format}-${entity}.csv`), 'utf-8');
+}
+
+function rows(format: CrmFormat, entity: string) {
+  return parseCSV(fixture(format, entity)).rows;
+}
+
+// Stages each fixture's two deals should land in
+const EXPECTED_STAGES: Record<string, [DealStage, DealStage]> = {
+  pipedrive: [DealStage.EXPANSION_SIGNAL, DealStage.CLOSED_WON],
+  attio: [DealStage.ACTIVATED, DealStage.CLOSED_WON],
+  close: [DealStage.EXPANSION_SIGNAL, DealStage.CLOSED_WON],
+  copper: [DealStage.TEAM_ADOPTION, DealStage.CLOSED_LOST],
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('CRM import formats', () => {
+  describe.each(FORMATS)('%s exports', (format) => {
+    it.each(['contacts', 'companies', 'deals'])('should detect the format and entity of a %s export', (entity) => {
+      const result = detectCsvFormat(fixture(format, entity));
+
+      expect(result.format).toBe(format);
+      expect(result.entityType).toBe(entity);
+      expect(result.totalRows).toBe(2);
+      expect(Object.keys(result.fieldMapping).length).toBeGreaterThan(0);
+    });
+
+    it('should map contact columns', () => {
+      const [ada, linus] = parseContacts(rows(format, 'contacts'), format, ORG_ID);
+
+      expect(ada).toEqual(
+        expect.objectContaining({
+          firstName: 'Ada',
+          lastName: 'Lovelace',
+          email: 'ada@analytical.dev',
+          phone: '+44 20 7946 0000',
+          companyName: 'Analytical Engines',
+        }),
+      );
+      expect(linus).toEqual(
+        expect.objectContaining({ firstName: 'Linus', lastName: 'Torvalds', email: 'linus@kernel.example' }),
+      );
+    });
+
+    it('should map company columns', () => {
+      const [analytical] = parseCompanies(rows(format, 'companies'), format, ORG_ID);
+
+      expect(analytical.name).toBe('Analytical Engines');
+      expect(analytical.domain ?? analytical.website).toMatch(/analytical\.dev$/);
+    });
+
+    it('should map deal columns and stages', () => {
+      const deals = parseDeals(rows(format, 'deals'), format, ORG_ID);
+
+      expect(deals[0]).toEqual(
+        expect.objectContaining({ companyName: 'Analytical Engines', value: 12500 }),
+      );
+      expect(deals[0].title).toMatch(/^Analytical Engines/);
+      expect(deals[1].value).toBe(4000);
+      expect(deals.map((deal) => mapDealStage(deal.stage!, format))).toEqual(EXPECTED_STAGES[format]);
+    });
+  });
+
+  it('should map the Pipedrive and Copper entry stage "Qualified" to IDENTIFIED', () => {
+    expect(mapDealStage('Qualified', 'pipedrive')).toBe(DealStage.IDENTIFIED);
+    expect(mapDealStage('qualified', 'copper')).toBe(DealStage.IDENTIFIED);
+    expect(mapDealStage('Qualification', 'salesforce')).toBe(DealStage.SALES_QUALIFIED);
+  });
+
+  it('should take the first address from multi-value Attio cells', () => {
+    const [analytical] = parseCompanies(rows('attio', 'companies'), 'attio', ORG_ID);
+    expect(analytical.domain).toBe('analytical.dev');
+  });
+
+  it('should convert Close opportunity values from cents when no formatted value is present', () => {
+    const [, kernel] = parseDeals(rows('close', 'deals'), 'close', ORG_ID);
+    expect(kernel).toEqual(expect.objectContaining({ title: 'Kernel Org opportunity', value: 4000, stage: 'won' }));
+  });
+
+  it('should still tell HubSpot and Salesforce exports apart', () => {
+    expect(detectCrmFormat(['First Name', 'Last Name', 'Email', 'Lifecycle Stage', 'Phone Number'])).toBe('hubspot');
+    expect(detectCrmFormat(['First Name', 'Last Name', 'Email', 'Account Name', 'Mailing City'])).toBe('salesforce');
+    expect(detectCrmFormat(['Deal Name', 'Deal Stage', 'Amount', 'Record ID'])).toBe('hubspot');
+    expect(detectCrmFormat(['Foo', 'Bar'])).toBe('unknown');
+  });
+});
@@ -0,0 +1,278 @@
+import '../../__tests__/setup';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+const mockPrisma = {
+  organization: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  syncHistory: {
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  contact: {
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  company: {
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  crmSyncConflict: {
+    createMany: jest.fn(),
+  },
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+jest.mock('../audit', () => ({
+  logAudit: jest.fn(),
+}));
+
+import { CrmAdapter, getCrmSyncStatus, runCrmSync } from '../crm-sync';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+const COUNTS = { created: 1, updated: 2, failed: 0 };
+
+let settings: Record<string, unknown>;
+
+function makeAdapter(overrides: Partial<CrmAdapter<string>> = {}): CrmAdapter<string> {
+  return {
+    provider: 'fakecrm',
+    label: 'FakeCRM',
+    settingsPrefix: 'fakecrm',
+    objectNames: { company: 'accounts', deal: 'opportunities', activity: 'tasks' },
+    connect: jest.fn().mockResolvedValue('token'),
+    registerFields: jest.fn().mockResolvedValue(undefined),
+    pushContacts: jest.fn().mockResolvedValue(COUNTS),
+    pushCompanies: jest.fn().mockResolvedValue(COUNTS),
+    pushDeals: jest.fn().mockResolvedValue(COUNTS),
+    ...overrides,
+  };
+}
+
+const lastHistoryUpdate = () => mockPrisma.syncHistory.update.mock.calls.at(-1)![0].data;
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('CRM sync framework', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    settings = { fakecrmAccessToken: 'token', fakecrmTotalAccountsSynced: 10 };
+    mockPrisma.organization.findUnique.mockImplementation(() => Promise.resolve({ settings }));
+    mockPrisma.organization.update.mockImplementation(({ data }) => {
+      settings = data.settings;
+      return Promise.resolve({});
+    });
+    mockPrisma.syncHistory.create.mockResolvedValue({ id: 'history-1' });
+    mockPrisma.syncHistory.update.mockResolvedValue({});
+  });
+
+  it('should key results by the adapter object names and record a completed run', async () => {
+    const result = await runCrmSync<string, Record<string, unknown>>(makeAdapter(), ORG_ID);
+
+    expect(result).toEqual({
+      contacts: COUNTS,
+      accounts: COUNTS,
+      opportunities: COUNTS,
+      tasks: { synced: 0, failed: 0 },
+      conflicts: 0,
+      errors: [],
+    });
+    expect(mockPrisma.syncHistory.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { organizationId: ORG_ID, provider: 'fakecrm' } }),
+    );
+    expect(lastHistoryUpdate()).toEqual(
+      expect.objectContaining({ status: 'COMPLETED', signalsCreated: 3, signalsUpdated: 6, errors: 0 }),
+    );
+    expect(settings).toEqual(
+      expect.objectContaining({
+        fakecrmSyncInProgress: false,
+        fakecrmTotalContactsSynced: 3,
+        fakecrmTotalAccountsSynced: 13,
+        fakecrmTotalOpportunitiesSynced: 3,
+      }),
+    );
+  });
+
+  it('should keep running later stages when one fails and mark the run partial', async () => {
+    const adapter = makeAdapter({
+      pushCompanies: jest.fn().mockRejectedValue(new Error('rate limited')),
+    });
+
+    const result = await runCrmSync<string, { errors: string[] }>(adapter, ORG_ID);
+
+    expect(result.errors).toEqual(['Account sync failed: rate limited']);
+    expect(adapter.pushDeals).toHaveBeenCalled();
+    expect(lastHistoryUpdate()).toEqual(
+      expect.objectContaining({ status: 'PARTIAL', errorDetails: 'Account sync failed: rate limited' }),
+    );
+  });
+
+  it('should mark the run failed and clear the in-progress flag when connecting fails', async () => {
+    const adapter = makeAdapter({ connect: jest.fn().mockRejectedValue(new Error('token revoked')) });
+
+    await expect(runCrmSync(adapter, ORG_ID)).rejects.toThrow('token revoked');
+
+    expect(lastHistoryUpdate()).toEqual(
+      expect.objectContaining({ status: 'FAILED', errorDetails: 'token revoked' }),
+    );
+    expect(settings.fakecrmSyncInProgress).toBe(false);
+  });
+
+  it('should resume pulls from the stored cursor and upsert pulled records, logging first-sync conflicts', async () => {
+    settings.fakecrmSyncCursor = '2026-01-01T00:00:00.000Z';
+    const pullChanges = jest.fn().mockResolvedValue({
+      companies: [{ externalId: 'A1', name: 'Acme', domain: 'acme.dev' }],
+      contacts: [{ externalId: 'C1', email: 'new@acme.dev', firstName: 'Ada', lastName: null }],
+      cursor: '2026-02-01T00:00:00.000Z',
+    });
+    mockPrisma.company.findFirst.mockResolvedValue({
+      id: 'company-1',
+      name: 'Acme Inc',
+      industry: 'DevTools',
+      phone: null,
+      customFields: { tier: 'gold' },
+    });
+    mockPrisma.contact.findFirst.mockResolvedValue(null);
+
+    const result = await runCrmSync<string, Record<string, unknown>>(makeAdapter({ pullChanges }), ORG_ID);
+
+    expect(pullChanges).toHaveBeenCalledWith('token', expect.objectContaining({ cursor: '2026-01-01T00:00:00.000Z' }));
+    expect(mockPrisma.company.update).toHaveBeenCalledWith({
+      where: { id: 'company-1' },
+      data: {
+        name: 'Acme',
+        customFields: { tier: 'gold', fakecrmId: 'A1', fakecrmSynced: { name: 'Acme' } },
+      },
+    });
+    expect(mockPrisma.crmSyncConflict.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ field: 'name', localValue: 'Acme Inc', remoteValue: 'Acme', winner: 'crm' })],
+    });
+    expect(result.conflicts).toBe(1);
+    // Pulled and pushed records are counted separately
+    expect(result.pulled).toEqual({
+      contacts: { created: 1, updated: 0, failed: 0 },
+      accounts: { created: 0, updated: 1, failed: 0 },
+      opportunities: { created: 0, updated: 0, failed: 0 },
+    });
+    expect(result.accounts).toEqual(COUNTS);
+    expect(lastHistoryUpdate()).toEqual(expect.objectContaining({ signalsCreated: 3, signalsUpdated: 6 }));
+    expect(mockPrisma.contact.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        email: 'new@acme.dev',
+        firstName: 'Ada',
+        lastName: 'new',
+        customFields: {
+          fakecrmId: 'C1',
+          source: 'fakecrm',
+          fakecrmSynced: { firstName: 'Ada' },
+        },
+      }),
+    });
+    expect(settings.fakecrmSyncCursor).toBe('2026-02-01T00:00:00.000Z');
+  });
+
+  it('should not rewrite pulled records that have not changed', async () => {
+    const pullChanges = jest.fn().mockResolvedValue({
+      companies: [{ externalId: 'A1', name: 'Acme', domain: 'acme.dev', industry: 'DevTools' }],
+      contacts: [],
+      cursor: null,
+    });
+    mockPrisma.company.findFirst.mockResolvedValue({
+      id: 'company-1',
+      name: 'Acme',
+      industry: 'DevTools',
+      phone: null,
+      ownerId: null,
+      updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+      customFields: { fakecrmId: 'A1', fakecrmSynced: { name: 'Acme', industry: 'DevTools' } },
+    });
+
+    const result = await runCrmSync<string, { pulled: Record<string, unknown> }>(makeAdapter({ pullChanges }), ORG_ID);
+
+    expect(mockPrisma.company.update).not.toHaveBeenCalled();
+    expect(result.pulled.accounts).toEqual({ created: 0, updated: 0, failed: 0 });
+  });
+
+  it('should match records merged into a company by their old CRM id without taking over its id', async () => {
+    const pullChanges = jest.fn().mockResolvedValue({
+      companies: [{ externalId: 'A2', name: 'Acme', domain: null, industry: 'Fintech' }],
+      contacts: [],
+      cursor: null,
+    });
+    mockPrisma.company.findFirst.mockResolvedValue({
+      id: 'company-1',
+      name: 'Acme',
+      industry: 'DevTools',
+      phone: null,
+      ownerId: null,
+      updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+      customFields: {
+        fakecrmId: 'A1',
+        fakecrmMergedIds: ['A2'],
+        fakecrmSynced: { name: 'Acme', industry: 'DevTools' },
+      },
+    });
+
+    await runCrmSync(makeAdapter({ pullChanges }), ORG_ID);
+
+    expect(mockPrisma.company.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          organizationId: ORG_ID,
+          OR: [
+            { customFields: { path: ['fakecrmId'], equals: 'A2' } },
+            { customFields: { path: ['fakecrmMergedIds'], array_contains: ['A2'] } },
+          ],
+        },
+      }),
+    );
+    expect(mockPrisma.company.update.mock.calls[0][0].data.customFields).toMatchObject({
+      fakecrmId: 'A1',
+      fakecrmMergedIds: ['A2'],
+    });
+  });
+
+  it('should ignore the cursor on a full sync', async () => {
+    settings.fakecrmSyncCursor = '2026-01-01T00:00:00.000Z';
+    settings.fakecrmLastSyncAt = '2026-01-01T00:00:00.000Z';
+    const pullChanges = jest.fn().mockResolvedValue({ companies: [], contacts: [], cursor: null });
+    const adapter = makeAdapter({ pullChanges });
+
+    await runCrmSync(adapter, ORG_ID, true);
+
+    expect(pullChanges).toHaveBeenCalledWith('token', expect.objectContaining({ cursor: null, since: null }));
+    expect(adapter.pushContacts).toHaveBeenCalledWith('token', { organizationId: ORG_ID, since: null, rowErrors: [] });
+  });
+
+  it('should report status with adapter totals and details', async () => {
+    const adapter = makeAdapter({ statusDetails: () => ({ instanceUrl: 'https://x.my.example.com' }) });
+
+    const status = await getCrmSyncStatus(adapter, ORG_ID);
+
+    expect(status).toEqual({
+      connected: true,
+      lastSyncAt: null,
+      lastSyncResult: null,
+      syncInProgress: false,
+      instanceUrl: 'https://x.my.example.com',
+      totalContactsSynced: 0,
+      totalAccountsSynced: 10,
+      totalOpportunitiesSynced: 0,
+    });
+  });
+});
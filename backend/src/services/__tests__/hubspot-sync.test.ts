@@ -0,0 +1,286 @@
+import '../../__tests__/setup';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+const mockPrisma = {
+  organization: { findUnique: jest.fn(), update: jest.fn() },
+  syncHistory: { create: jest.fn(), update: jest.fn() },
+  company: { findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn() },
+  contact: { findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn() },
+  deal: { findFirst: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+  signal: { findMany: jest.fn() },
+  user: { findMany: jest.fn() },
+  crmSyncConflict: { createMany: jest.fn() },
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+jest.mock('../audit', () => ({
+  logAudit: jest.fn(),
+}));
+
+import { runSync } from '../hubspot-sync';
+
+// ---------------------------------------------------------------------------
+// Local HubSpot stand-in
+// ---------------------------------------------------------------------------
+// Serves the endpoints a pull touches: token check, CRM search (paged two
+// records at a time) and owners. Push lookups find nothing, and there is
+// nothing local to push.
+
+type HubSpotRecord = { id: string; properties: Record<string, string> };
+
+interface SearchBody {
+  filterGroups: Array<{ filters: Array<{ propertyName: string; operator: string; value: string }> }>;
+  sorts?: unknown[];
+  after?: string;
+}
+
+const MODIFIED_PROPERTY: Record<string, string> = {
+  companies: 'hs_lastmodifieddate',
+  contacts: 'lastmodifieddate',
+  deals: 'hs_lastmodifieddate',
+};
+
+let remote: Record<string, HubSpotRecord[]>;
+let searches: Array<{ objectType: string; body: SearchBody }>;
+let server: http.Server;
+
+function handle(req: http.IncomingMessage, body: string, res: http.ServerResponse) {
+  const url = new URL(req.url!, 'http://localhost');
+  const reply = (payload: unknown) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  };
+
+  const search = url.pathname.match(/^\/crm\/v3\/objects\/(\w+)\/search$/);
+  if (req.method === 'POST' && search) {
+    const objectType = search[1];
+    const parsed = JSON.parse(body) as SearchBody;
+    searches.push({ objectType, body: parsed });
+
+    const modified = MODIFIED_PROPERTY[objectType];
+    const filter = parsed.filterGroups[0]?.filters[0];
+    if (filter && filter.propertyName !== modified) return reply({ total: 0, results: [] });
+
+    const matching = remote[objectType].filter(
+      (r) => !filter || new Date(r.properties[modified]).getTime() > Number(filter.value),
+    );
+    const offset = Number(parsed.after ?? 0);
+    const page = matching.slice(offset, offset + 2);
+    return reply({
+      total: matching.length,
+      results: page,
+      ...(offset + 2 < matching.length && { paging: { next: { after: String(offset + 2) } } }),
+    });
+  }
+
+  if (url.pathname === '/crm/v3/owners') {
+    return reply({ results: [{ id: '77', email: 'ae@example.com' }] });
+  }
+
+  return reply({ results: [] });
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+const LAST_SYNC = new Date('2026-03-01T00:00:00Z');
+
+let settings: Record<string, unknown>;
+
+const company = (id: string, modified: string, props: Record<string, string> = {}): HubSpotRecord => ({
+  id,
+  properties: { name: `Company ${id}`, domain: `${id}.dev`, hs_lastmodifieddate: modified, ...props },
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('HubSpot pull sync', () => {
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => handle(req, body, res));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env.HUBSPOT_API_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.HUBSPOT_API_BASE_URL;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    remote = { companies: [], contacts: [], deals: [] };
+    searches = [];
+    settings = { hubspotAccessToken: 'token', hubspotLastSyncAt: LAST_SYNC.toISOString() };
+
+    mockPrisma.organization.findUnique.mockImplementation(() => Promise.resolve({ settings }));
+    mockPrisma.organization.update.mockImplementation(({ data }) => {
+      settings = data.settings;
+      return Promise.resolve({});
+    });
+    mockPrisma.syncHistory.create.mockResolvedValue({ id: 'history-1' });
+    mockPrisma.company.findFirst.mockResolvedValue(null);
+    mockPrisma.contact.findFirst.mockResolvedValue(null);
+    mockPrisma.deal.findFirst.mockResolvedValue(null);
+    for (const model of [mockPrisma.company, mockPrisma.contact, mockPrisma.deal, mockPrisma.signal]) {
+      model.findMany.mockResolvedValue([]);
+    }
+    mockPrisma.user.findMany.mockResolvedValue([{ id: 'user-ae', email: 'ae@example.com' }]);
+  });
+
+  it('should page through changes, map owners and lifecycle stage, and store a per-object cursor', async () => {
+    remote.companies = [
+      company('a', '2026-03-02T00:00:00.000Z'),
+      company('b', '2026-03-03T00:00:00.000Z'),
+      company('c', '2026-03-04T00:00:00.000Z', { hubspot_owner_id: '77', lifecyclestage: 'customer' }),
+    ];
+    remote.deals = [
+      {
+        id: 'hs-deal-1',
+        properties: { sigscore_deal_id: 'deal-1', amount: '5000', hs_lastmodifieddate: '2026-03-05T00:00:00.000Z' },
+      },
+    ];
+    mockPrisma.deal.findFirst.mockResolvedValue({
+      id: 'deal-1',
+      title: 'Expansion',
+      amount: null,
+      expectedCloseDate: null,
+      ownerId: null,
+      customFields: null,
+      updatedAt: LAST_SYNC,
+    });
+
+    const result = await runSync(ORG_ID);
+
+    const companySearches = searches.filter((s) => s.objectType === 'companies' && s.body.sorts);
+    expect(companySearches).toHaveLength(2);
+    expect(companySearches[0].body.filterGroups[0].filters[0]).toEqual({
+      propertyName: 'hs_lastmodifieddate',
+      operator: 'GT',
+      value: String(LAST_SYNC.getTime()),
+    });
+
+    expect(result.pulled.companies.created).toBe(3);
+    expect(mockPrisma.company.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: 'Company c',
+        ownerId: 'user-ae',
+        customFields: expect.objectContaining({ hubspotId: 'c', lifecycleStage: 'customer' }),
+      }),
+    });
+    expect(mockPrisma.deal.update).toHaveBeenCalledWith({
+      where: { id: 'deal-1' },
+      data: expect.objectContaining({ amount: 5000 }),
+    });
+
+    expect(JSON.parse(settings.hubspotSyncCursor as string)).toEqual({
+      companies: new Date('2026-03-04T00:00:00.000Z').getTime(),
+      contacts: LAST_SYNC.getTime(),
+      deals: new Date('2026-03-05T00:00:00.000Z').getTime(),
+    });
+  });
+
+  it('should resume each object type from its own cursor', async () => {
+    settings.hubspotSyncCursor = JSON.stringify({ companies: 100, contacts: 200, deals: 300 });
+
+    await runSync(ORG_ID);
+
+    const filterValue = (objectType: string) =>
+      searches.find((s) => s.objectType === objectType && s.body.sorts)!.body.filterGroups[0].filters[0].value;
+    expect(filterValue('companies')).toBe('100');
+    expect(filterValue('contacts')).toBe('200');
+    expect(filterValue('deals')).toBe('300');
+  });
+
+  it('should apply HubSpot edits to fields Sigscore has not changed since the last sync', async () => {
+    remote.companies = [company('a', '2026-03-02T00:00:00.000Z', { industry: 'Fintech' })];
+    mockPrisma.company.findFirst.mockResolvedValue({
+      id: 'company-a',
+      name: 'Company a',
+      industry: 'DevTools',
+      phone: null,
+      ownerId: null,
+      updatedAt: LAST_SYNC,
+      customFields: { hubspotSynced: { name: 'Company a', industry: 'DevTools' } },
+    });
+
+    const result = await runSync(ORG_ID);
+
+    expect(mockPrisma.company.update.mock.calls[0][0].data.industry).toBe('Fintech');
+    expect(mockPrisma.crmSyncConflict.createMany).not.toHaveBeenCalled();
+    expect(result.conflicts).toBe(0);
+  });
+
+  it('should resolve fields edited on both sides by the field policy and log the conflict', async () => {
+    settings.hubspotConflictPolicy = { defaultPolicy: 'crm', fields: { 'company.name': 'sigscore' } };
+    remote.companies = [company('a', '2026-03-02T00:00:00.000Z', { name: 'Acme HubSpot', industry: 'Fintech' })];
+    mockPrisma.company.findFirst.mockResolvedValue({
+      id: 'company-a',
+      name: 'Acme Sigscore',
+      industry: 'Security',
+      phone: null,
+      ownerId: null,
+      updatedAt: LAST_SYNC,
+      customFields: { hubspotSynced: { name: 'Acme', industry: 'DevTools' } },
+    });
+
+    const result = await runSync(ORG_ID);
+
+    const data = mockPrisma.company.update.mock.calls[0][0].data;
+    expect(data.name).toBeUndefined();
+    expect(data.industry).toBe('Fintech');
+    expect(data.customFields.hubspotSynced).toEqual({ name: 'Acme HubSpot', industry: 'Fintech' });
+    expect(mockPrisma.crmSyncConflict.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          provider: 'hubspot',
+          objectType: 'company',
+          recordId: 'company-a',
+          field: 'name',
+          localValue: 'Acme Sigscore',
+          remoteValue: 'Acme HubSpot',
+          policy: 'sigscore',
+          winner: 'sigscore',
+        }),
+        expect.objectContaining({ field: 'industry', policy: 'crm', winner: 'crm' }),
+      ],
+    });
+    expect(result.conflicts).toBe(2);
+  });
+
+  it('should keep the Sigscore value under newest-wins when the local edit is more recent', async () => {
+    settings.hubspotConflictPolicy = { defaultPolicy: 'newest', fields: {} };
+    remote.companies = [company('a', '2026-03-02T00:00:00.000Z', { name: 'Acme HubSpot' })];
+    mockPrisma.company.findFirst.mockResolvedValue({
+      id: 'company-a',
+      name: 'Acme Sigscore',
+      industry: null,
+      phone: null,
+      ownerId: null,
+      updatedAt: new Date('2026-03-10T00:00:00Z'),
+      customFields: { hubspotSynced: { name: 'Acme' } },
+    });
+
+    await runSync(ORG_ID);
+
+    expect(mockPrisma.company.update.mock.calls[0][0].data.name).toBeUndefined();
+    expect(mockPrisma.crmSyncConflict.createMany.mock.calls[0][0].data[0]).toEqual(
+      expect.objectContaining({ field: 'name', policy: 'newest', winner: 'sigscore' }),
+    );
+  });
+});
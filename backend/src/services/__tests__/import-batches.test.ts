@@ -0,0 +1,185 @@
+import '../../__tests__/setup';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+const mockPrisma = {
+  importBatch: { findFirst: jest.fn(), updateMany: jest.fn() },
+  importBatchRecord: { findMany: jest.fn() },
+  contact: { findFirst: jest.fn(), update: jest.fn(), deleteMany: jest.fn() },
+  company: { findFirst: jest.fn(), update: jest.fn(), deleteMany: jest.fn() },
+  deal: { findFirst: jest.fn(), update: jest.fn(), deleteMany: jest.fn() },
+  contactTag: { deleteMany: jest.fn() },
+  companyTag: { deleteMany: jest.fn() },
+  dealTag: { deleteMany: jest.fn() },
+  tag: { deleteMany: jest.fn() },
+  $transaction: jest.fn(),
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+jest.mock('../audit', () => ({
+  logAudit: jest.fn(),
+}));
+
+import { Prisma } from '@prisma/client';
+import { logAudit } from '../audit';
+import { diffFields, revertImportBatch } from '../import-batches';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+const IMPORTED_AT = new Date('2026-03-10T00:00:00Z');
+
+function batch(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'batch-1',
+    organizationId: ORG_ID,
+    source: 'hubspot',
+    entityType: 'contact',
+    createdAt: IMPORTED_AT,
+    revertedAt: null,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Import batches', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-20T00:00:00Z'));
+    mockPrisma.importBatch.findFirst.mockResolvedValue(batch());
+    mockPrisma.importBatch.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.$transaction.mockImplementation((fn: (tx: typeof mockPrisma) => Promise<unknown>) => fn(mockPrisma));
+    mockPrisma.contact.deleteMany.mockResolvedValue({ count: 1 });
+    mockPrisma.company.deleteMany.mockResolvedValue({ count: 2 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should record only changed fields, in their stored JSON form', () => {
+    const before = {
+      title: 'CTO',
+      phone: null,
+      customFields: { b: 1, a: 2 },
+      expectedCloseDate: new Date('2026-04-01T00:00:00Z'),
+    };
+
+    const changes = diffFields(before, {
+      title: 'CTO',
+      phone: '+1 555 0100',
+      customFields: { a: 2, b: 1 },
+      expectedCloseDate: new Date('2026-04-01T00:00:00Z'),
+    });
+
+    expect(changes).toEqual({ phone: { from: null, to: '+1 555 0100' } });
+    expect(diffFields({ customFields: null }, { customFields: Prisma.JsonNull })).toEqual({});
+  });
+
+  it('should restore untouched fields, keep later edits, delete created rows and write an audit entry', async () => {
+    mockPrisma.importBatchRecord.findMany.mockResolvedValue([
+      {
+        action: 'UPDATED',
+        entityType: 'contact',
+        entityId: 'contact-1',
+        changes: {
+          phone: { from: null, to: '+1 555 0100' },
+          title: { from: null, to: 'CTO' },
+          customFields: { from: null, to: { leadStatus: 'new' } },
+        },
+      },
+      { action: 'CREATED', entityType: 'contact', entityId: 'contact-2' },
+      { action: 'CREATED', entityType: 'company', entityId: 'company-1' },
+      { action: 'CREATED', entityType: 'company', entityId: 'company-2' },
+    ]);
+    mockPrisma.contact.findFirst.mockResolvedValue({
+      id: 'contact-1',
+      phone: '+1 555 0100',
+      title: 'VP Engineering',
+      customFields: { leadStatus: 'new' },
+    });
+
+    const result = await revertImportBatch(ORG_ID, 'batch-1', 'user-1');
+
+    expect(mockPrisma.contact.update).toHaveBeenCalledWith({
+      where: { id: 'contact-1' },
+      data: { phone: null, customFields: Prisma.JsonNull },
+    });
+    expect(mockPrisma.contact.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: ['contact-2'] }, organizationId: ORG_ID },
+    });
+    expect(mockPrisma.contact.deleteMany.mock.invocationCallOrder[0]).toBeLessThan(
+      mockPrisma.company.deleteMany.mock.invocationCallOrder[0],
+    );
+    expect(result).toEqual({
+      deleted: 3,
+      restored: 1,
+      missing: 0,
+      conflicts: [{ entityType: 'contact', entityId: 'contact-1', field: 'title' }],
+    });
+    expect(mockPrisma.importBatch.updateMany).toHaveBeenCalledWith({
+      where: { id: 'batch-1', revertedAt: null },
+      data: { revertedAt: expect.any(Date), revertedById: 'user-1' },
+    });
+    expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), { timeout: 120_000 });
+    expect(logAudit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'import_revert',
+        entityType: 'import_batch',
+        entityId: 'batch-1',
+        metadata: expect.objectContaining({ deleted: 3, restored: 1, conflicts: 1 }),
+      }),
+    );
+  });
+
+  it('should take off tags the import added and delete tags it created once unused', async () => {
+    mockPrisma.importBatchRecord.findMany.mockResolvedValue([
+      { action: 'CREATED', entityType: 'company_tag', entityId: 'company-9', tagId: 'tag-1' },
+      { action: 'CREATED', entityType: 'company', entityId: 'company-1' },
+      { action: 'CREATED', entityType: 'tag', entityId: 'tag-1' },
+    ]);
+    mockPrisma.company.deleteMany.mockResolvedValue({ count: 1 });
+
+    const result = await revertImportBatch(ORG_ID, 'batch-1');
+
+    expect(mockPrisma.companyTag.deleteMany).toHaveBeenCalledWith({ where: { companyId: 'company-9', tagId: 'tag-1' } });
+    expect(mockPrisma.tag.deleteMany).toHaveBeenCalledWith({
+      where: {
+        id: { in: ['tag-1'] },
+        organizationId: ORG_ID,
+        contacts: { none: {} },
+        companies: { none: {} },
+        deals: { none: {} },
+      },
+    });
+    expect(result).toMatchObject({ deleted: 1, missing: 0 });
+  });
+
+  it('should roll back when a concurrent revert claimed the batch first', async () => {
+    mockPrisma.importBatch.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(revertImportBatch(ORG_ID, 'batch-1')).rejects.toThrow('already been reverted');
+    expect(mockPrisma.importBatchRecord.findMany).not.toHaveBeenCalled();
+    expect(logAudit).not.toHaveBeenCalled();
+  });
+
+  it('should refuse batches that were already reverted or are past the undo window', async () => {
+    mockPrisma.importBatch.findFirst.mockResolvedValueOnce(batch({ revertedAt: new Date() }));
+    await expect(revertImportBatch(ORG_ID, 'batch-1')).rejects.toThrow('already been reverted');
+
+    mockPrisma.importBatch.findFirst.mockResolvedValueOnce(batch({ createdAt: new Date('2026-01-01T00:00:00Z') }));
+    await expect(revertImportBatch(ORG_ID, 'batch-1')).rejects.toThrow('within 30 days');
+
+    expect(mockPrisma.importBatchRecord.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,237 @@
+import '../../__tests__/setup';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+const mockPrisma = {
+  customFieldDefinition: { findMany: jest.fn() },
+  importJob: { create: jest.fn(), findFirst: jest.fn(), findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+  importMappingTemplate: { findFirst: jest.fn(), upsert: jest.fn() },
+  importBatch: { create: jest.fn(), update: jest.fn() },
+  importBatchRecord: { create: jest.fn() },
+  contact: { findFirst: jest.fn(), create: jest.fn() },
+  company: { findFirst: jest.fn(), create: jest.fn() },
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+jest.mock('../../jobs/producers', () => ({
+  enqueueCsvImport: jest.fn(),
+}));
+
+jest.mock('../websocket', () => ({
+  broadcastImportProgress: jest.fn(),
+}));
+
+import { enqueueCsvImport } from '../../jobs/producers';
+import { broadcastImportProgress } from '../websocket';
+import { createImportPreview, runImportJob, startImport } from '../import-jobs';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+
+const CSV = [
+  'Full Name,E-mail,Plan Tier,Seats',
+  'Ada Lovelace,ada@example.com,Pro,12',
+  'Grace,grace@example.com,Pro,many',
+  'Alan Turing,not-an-email,,3',
+].join('\n');
+
+const DEFINITIONS = [
+  { fieldName: 'plan_tier', displayName: 'Plan Tier', fieldType: 'select', options: ['Free', 'Pro'], required: false },
+  { fieldName: 'seats', displayName: 'Seats', fieldType: 'number', options: null, required: false },
+];
+
+const MAPPING = {
+  'full name': 'fullName',
+  'e-mail': 'email',
+  'plan tier': 'custom:plan_tier',
+  seats: 'custom:seats',
+};
+
+function importJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'import-1',
+    organizationId: ORG_ID,
+    userId: 'user-1',
+    entityType: 'contact',
+    fileName: 'contacts.csv',
+    status: 'PENDING',
+    csvContent: CSV,
+    mapping: MAPPING,
+    totalRows: 3,
+    processedRows: 0,
+    imported: 0,
+    skipped: 0,
+    errors: null,
+    createdAt: new Date('2026-03-09T00:00:00Z'),
+    startedAt: null,
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Mapped CSV imports', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.customFieldDefinition.findMany.mockResolvedValue(DEFINITIONS);
+    mockPrisma.importJob.create.mockImplementation(({ data }) => Promise.resolve(importJob(data)));
+    mockPrisma.importJob.update.mockImplementation(({ data }) => Promise.resolve(importJob(data)));
+    mockPrisma.importJob.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.importBatch.create.mockResolvedValue({ id: 'batch-1' });
+    mockPrisma.contact.findFirst.mockResolvedValue(null);
+    mockPrisma.company.findFirst.mockResolvedValue(null);
+    mockPrisma.contact.create.mockResolvedValue({ id: 'contact-1' });
+  });
+
+  it('should suggest standard and custom field targets and validate every row', async () => {
+    const preview = await createImportPreview(ORG_ID, 'user-1', {
+      csv: CSV,
+      entityType: 'contact',
+      fileName: 'contacts.csv',
+    });
+
+    expect(preview.columns[0]).toEqual({ header: 'full name', label: 'Full Name' });
+    expect(preview.mapping).toEqual(MAPPING);
+    expect(preview.targets).toContainEqual({ value: 'custom:seats', label: 'Seats', custom: true, required: false });
+    expect(preview.sampleRows).toHaveLength(3);
+    expect(preview.validation).toEqual({
+      totalRows: 3,
+      validRows: 1,
+      invalidRows: 2,
+      errors: [
+        { row: 3, errors: ['Field "Seats" must be a number', 'Missing first name or last name'] },
+        { row: 4, errors: ['Invalid email address: not-an-email'] },
+      ],
+    });
+    expect(mockPrisma.importJob.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ organizationId: ORG_ID, entityType: 'contact', csvContent: CSV, totalRows: 3 }),
+    });
+  });
+
+  it('should start from a saved template mapping', async () => {
+    mockPrisma.importMappingTemplate.findFirst.mockResolvedValue({
+      id: 'template-1',
+      mapping: { 'plan tier': null, seats: 'custom:seats', 'e-mail': 'notes' },
+    });
+
+    const preview = await createImportPreview(ORG_ID, 'user-1', {
+      csv: CSV,
+      entityType: 'contact',
+      templateId: 'template-1',
+    });
+
+    expect(preview.mapping).toEqual({
+      'full name': 'fullName',
+      'e-mail': 'notes',
+      'plan tier': null,
+      seats: 'custom:seats',
+    });
+  });
+
+  it('should reject mappings to unknown fields and queue confirmed imports', async () => {
+    mockPrisma.importJob.findFirst.mockResolvedValue(importJob());
+
+    await expect(
+      startImport(ORG_ID, 'import-1', { mapping: { ...MAPPING, seats: 'custom:missing' } }),
+    ).rejects.toThrow('Unknown contact field for column "seats": custom:missing');
+    expect(enqueueCsvImport).not.toHaveBeenCalled();
+
+    const job = await startImport(ORG_ID, 'import-1', { mapping: MAPPING, saveAsTemplate: 'Product export' });
+
+    expect(job.status).toBe('QUEUED');
+    expect(mockPrisma.importMappingTemplate.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: { organizationId: ORG_ID, entityType: 'contact', name: 'Product export', mapping: MAPPING },
+      }),
+    );
+    expect(mockPrisma.importJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'import-1', status: 'PENDING' },
+      data: { status: 'QUEUED', mapping: MAPPING },
+    });
+    expect(enqueueCsvImport).toHaveBeenCalledWith({ organizationId: ORG_ID, importId: 'import-1' });
+  });
+
+  it('should not queue an import twice when two confirmations race', async () => {
+    mockPrisma.importJob.findFirst.mockResolvedValue(importJob());
+    mockPrisma.importJob.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(startImport(ORG_ID, 'import-1', { mapping: MAPPING })).rejects.toMatchObject({
+      message: 'Import has already been started',
+      statusCode: 409,
+    });
+    expect(enqueueCsvImport).not.toHaveBeenCalled();
+  });
+
+  it('should hand the import back for confirmation when it cannot be queued', async () => {
+    mockPrisma.importJob.findFirst.mockResolvedValue(importJob());
+    (enqueueCsvImport as jest.Mock).mockRejectedValueOnce(new Error('Redis connection lost'));
+
+    await expect(startImport(ORG_ID, 'import-1', { mapping: MAPPING })).rejects.toThrow('Redis connection lost');
+
+    expect(mockPrisma.importJob.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'import-1', status: 'QUEUED' },
+      data: { status: 'PENDING' },
+    });
+  });
+
+  it('should drop the stored file when an import fails', async () => {
+    mockPrisma.importJob.findUnique.mockResolvedValue(importJob({ status: 'QUEUED', csvContent: null }));
+
+    await expect(runImportJob('import-1')).rejects.toThrow('no longer available');
+
+    expect(mockPrisma.importJob.update.mock.calls.at(-1)![0].data).toEqual(
+      expect.objectContaining({ status: 'FAILED', csvContent: null }),
+    );
+  });
+
+  it('should import valid rows into an undo batch, record row errors and broadcast completion', async () => {
+    mockPrisma.importJob.findUnique.mockResolvedValue(importJob({ status: 'QUEUED' }));
+
+    const result = await runImportJob('import-1');
+
+    expect(result).toEqual({
+      total: 3,
+      imported: 1,
+      skipped: 2,
+      errors: [
+        { row: 3, error: 'Field "Seats" must be a number; Missing first name or last name' },
+        { row: 4, error: 'Invalid email address: not-an-email' },
+      ],
+      batchId: 'batch-1',
+    });
+    expect(mockPrisma.importBatchRecord.create).toHaveBeenCalledWith({
+      data: { batchId: 'batch-1', entityType: 'contact', entityId: 'contact-1', action: 'CREATED' },
+    });
+    expect(mockPrisma.importBatch.update).toHaveBeenCalledWith({
+      where: { id: 'batch-1' },
+      data: { createdCount: 1, updatedCount: 0 },
+    });
+    expect(mockPrisma.contact.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        firstName: 'Ada',
+        lastName: 'Lovelace',
+        email: 'ada@example.com',
+        customFields: { plan_tier: 'Pro', seats: 12 },
+      }),
+    });
+    expect(mockPrisma.importJob.update.mock.calls.at(-1)![0].data).toEqual(
+      expect.objectContaining({ status: 'COMPLETED', csvContent: null, processedRows: 3, imported: 1, skipped: 2 }),
+    );
+    expect(broadcastImportProgress).toHaveBeenLastCalledWith(
+      ORG_ID,
+      'completed',
+      expect.objectContaining({ importId: 'import-1', processedRows: 3, imported: 1 }),
+    );
+  });
+});
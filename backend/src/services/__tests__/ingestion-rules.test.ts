@@ -0,0 +1,262 @@
+import '../../__tests__/setup';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+const mockPrisma = {
+  ingestionRule: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    updateMany: jest.fn(),
+  },
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+jest.mock('../../jobs/producers', () => ({
+  enqueueBulkScoreComputation: jest.fn(),
+}));
+
+import {
+  IngestionRuleDefinition,
+  applyIngestionRules,
+  createIngestionRule,
+  runIngestionRules,
+  testIngestionRules,
+} from '../ingestion-rules';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+
+function rule(overrides: Partial<IngestionRuleDefinition> & Pick<IngestionRuleDefinition, 'id' | 'action'>) {
+  return {
+    name: overrides.id,
+    match: 'all' as const,
+    conditions: [],
+    config: {},
+    ...overrides,
+  };
+}
+
+function row(definition: ReturnType<typeof rule>, position: number) {
+  return {
+    ...definition,
+    organizationId: ORG_ID,
+    description: null,
+    enabled: true,
+    position,
+    touchedCount: 0,
+    lastTouchedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+const dropBots = rule({
+  id: 'drop-bots',
+  action: 'DROP',
+  match: 'any',
+  conditions: [
+    { field: 'metadata.user_agent', operator: 'regex', value: 'bot|crawler|spider' },
+    { field: 'metadata.ip', operator: 'cidr', value: '10.0.0.0/8, 192.168.0.0/16' },
+    { field: 'metadata.email', operator: 'endsWith', value: ['@sigscore.dev'] },
+  ],
+});
+
+const renameViews = rule({
+  id: 'rename-views',
+  action: 'RENAME_TYPE',
+  conditions: [{ field: 'type', operator: 'eq', value: 'pageview' }],
+  config: { type: 'page_view' },
+});
+
+const redactEmail = rule({
+  id: 'redact-email',
+  action: 'REDACT',
+  config: { fields: ['email', 'user.phone'], mode: 'hash' },
+});
+
+function signal(metadata: Record<string, unknown>, type = 'pageview') {
+  return { sourceId: 'src-1', type, metadata };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Ingestion rules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.ingestionRule.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should drop bots, internal IPs and employee emails', () => {
+    const rules = [dropBots, renameViews];
+
+    expect(applyIngestionRules(rules, signal({ user_agent: 'Googlebot/2.1' }))).toEqual({
+      signal: null,
+      droppedBy: { id: 'drop-bots', name: 'drop-bots' },
+      touched: ['drop-bots'],
+    });
+    expect(applyIngestionRules(rules, signal({ ip: '::ffff:10.1.2.3' })).signal).toBeNull();
+    expect(applyIngestionRules(rules, signal({ email: 'Ada@Sigscore.dev' })).signal).toBeNull();
+
+    const kept = applyIngestionRules(rules, signal({ ip: '203.0.113.7', email: 'grace@acme.com' }));
+    expect(kept.droppedBy).toBeNull();
+    expect(kept.signal?.type).toBe('page_view');
+    expect(kept.touched).toEqual(['rename-views']);
+  });
+
+  it('should rename, enrich and redact in order without mutating the input', () => {
+    const enrich = rule({
+      id: 'tag-docs',
+      action: 'SET_METADATA',
+      conditions: [{ field: 'type', operator: 'eq', value: 'page_view' }],
+      config: { metadata: { 'enrichment.area': 'docs', source: 'web' } },
+    });
+    const input = signal({ email: 'grace@acme.com', user: { phone: '+1 555 0100', name: 'Grace' }, source: 'web' });
+
+    const result = applyIngestionRules([renameViews, enrich, redactEmail], input);
+
+    expect(result.touched).toEqual(['rename-views', 'tag-docs', 'redact-email']);
+    expect(result.signal).toEqual({
+      sourceId: 'src-1',
+      type: 'page_view',
+      metadata: {
+        email: expect.stringMatching(/^sha256:[0-9a-f]{64}$/),
+        user: { phone: expect.stringMatching(/^sha256:/), name: 'Grace' },
+        source: 'web',
+        enrichment: { area: 'docs' },
+      },
+    });
+    expect(input.type).toBe('pageview');
+    expect(input.metadata.email).toBe('grace@acme.com');
+
+    // Rules that match but change nothing do not count as touching the signal
+    const untouched = applyIngestionRules([redactEmail], signal({ name: 'Alan' }));
+    expect(untouched.touched).toEqual([]);
+  });
+
+  it('should run enabled rules in order and add to touched counts', async () => {
+    mockPrisma.ingestionRule.findMany.mockResolvedValue([row(dropBots, 0), row(renameViews, 1)]);
+
+    const outcomes = await runIngestionRules(ORG_ID, [
+      { signal: signal({ user_agent: 'AhrefsBot' }) },
+      { signal: signal({}) },
+      { signal: signal({}) },
+      { signal: signal({}, 'signup') },
+    ]);
+
+    expect(outcomes.map((o) => o.signal?.type ?? null)).toEqual([null, 'page_view', 'page_view', 'signup']);
+    expect(mockPrisma.ingestionRule.findMany).toHaveBeenCalledWith({
+      where: { organizationId: ORG_ID, enabled: true },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+    expect(mockPrisma.ingestionRule.updateMany).toHaveBeenCalledWith({
+      where: { id: 'drop-bots' },
+      data: { touchedCount: { increment: 1 }, lastTouchedAt: expect.any(Date) },
+    });
+    expect(mockPrisma.ingestionRule.updateMany).toHaveBeenCalledWith({
+      where: { id: 'rename-views' },
+      data: { touchedCount: { increment: 2 }, lastTouchedAt: expect.any(Date) },
+    });
+  });
+
+  it('should test draft rules against samples without touching counters', async () => {
+    const result = await testIngestionRules(
+      ORG_ID,
+      [
+        { type: 'pageview', metadata: { user_agent: 'Bingbot' } },
+        { type: 'pageview', metadata: { email: 'grace@acme.com' } },
+        { type: 'repo_star', sourceType: 'GITHUB', metadata: {} },
+      ],
+      [
+        { ...dropBots, id: undefined, name: 'Drop bots' },
+        { name: 'GitHub only', action: 'RENAME_TYPE', enabled: false, config: { type: 'x' } },
+        { ...redactEmail, id: undefined, name: 'Redact email', config: { fields: ['email'], mode: 'remove' } },
+      ],
+    );
+
+    expect(result.summary).toEqual({ total: 3, dropped: 1, changed: 1, unchanged: 1 });
+    expect(result.rules).toEqual([
+      { id: 'draft-1', name: 'Drop bots', action: 'DROP', touched: 1 },
+      { id: 'draft-3', name: 'Redact email', action: 'REDACT', touched: 1 },
+    ]);
+    expect(result.results[1].output?.metadata).toEqual({});
+    expect(mockPrisma.ingestionRule.findMany).not.toHaveBeenCalled();
+    expect(mockPrisma.ingestionRule.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should reject rules that can never work', async () => {
+    mockPrisma.ingestionRule.count.mockResolvedValue(0);
+
+    await expect(
+      createIngestionRule(ORG_ID, {
+        name: 'Internal',
+        action: 'DROP',
+        conditions: [{ field: 'metadata.ip', operator: 'cidr', value: '10.0.0.0/33' }],
+      }),
+    ).rejects.toThrow('cidr expects IP addresses or ranges');
+    await expect(
+      createIngestionRule(ORG_ID, { name: 'Rename', action: 'RENAME_TYPE', config: {} }),
+    ).rejects.toThrow('RENAME_TYPE rules need a new signal type');
+    await expect(
+      createIngestionRule(ORG_ID, { name: 'Pollute', action: 'SET_METADATA', config: { metadata: { '__proto__.x': 1 } } }),
+    ).rejects.toThrow('invalid metadata path');
+    await expect(
+      createIngestionRule(ORG_ID, {
+        name: 'Unknown',
+        action: 'DROP',
+        conditions: [{ field: 'actor.email', operator: 'eq', value: 'x' }],
+      }),
+    ).rejects.toThrow('unknown field');
+    await expect(
+      createIngestionRule(ORG_ID, {
+        name: 'Slow bots',
+        action: 'DROP',
+        conditions: [{ field: 'metadata.user_agent', operator: 'regex', value: '^(\\w+\\s?)+bot$' }],
+      }),
+    ).rejects.toThrow('regex must not nest quantifiers');
+    await expect(
+      createIngestionRule(ORG_ID, {
+        name: 'Slow digits',
+        action: 'DROP',
+        conditions: [{ field: 'metadata.user_agent', operator: 'regex', value: '(\\w|\\d)+$' }],
+      }),
+    ).rejects.toThrow('regex must not repeat a group with alternatives');
+    expect(mockPrisma.ingestionRule.create).not.toHaveBeenCalled();
+  });
+
+  it('should give up on slow regex conditions and keep evaluating the other rules', () => {
+    const slow = rule({
+      id: 'slow',
+      action: 'DROP',
+      conditions: [{ field: 'metadata.user_agent', operator: 'regex', value: '\\w*\\w*\\w*\\w*!$' }],
+    });
+    const rename = rule({
+      id: 'rename',
+      action: 'RENAME_TYPE',
+      conditions: [{ field: 'type', operator: 'eq', value: 'page_view' }],
+      config: { type: 'web_visit' },
+    });
+
+    const started = Date.now();
+    const outcome = applyIngestionRules([slow, slow, rename], {
+      type: 'page_view',
+      metadata: { user_agent: 'a'.repeat(1000) },
+    });
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(outcome.droppedBy).toBeNull();
+    expect(outcome.signal?.type).toBe('web_visit');
+    expect(outcome.touched).toEqual(['rename']);
+  });
+});
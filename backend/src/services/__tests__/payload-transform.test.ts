@@ -0,0 +1,108 @@
+import '../../__tests__/setup';
+
+import { applyTransform, TransformError, validateTransform } from '../payload-transform';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ENVELOPE = {
+  event: 'deal.closed',
+  timestamp: '2026-03-01T12:34:56.789Z',
+  organizationId: 'org-test-123',
+  data: {
+    id: 'deal-1',
+    title: 'Acme Expansion',
+    amount: 48000,
+    stage: 'CLOSED_WON',
+    closedAt: '2026-03-01T23:30:00Z',
+    owner: { firstName: 'Ada', lastName: 'Lovelace' },
+    contacts: [
+      { name: 'Grace', email: 'GRACE@ACME.COM', score: 91 },
+      { name: 'Alan', email: 'alan@acme.com', score: 40 },
+    ],
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Payload transforms', () => {
+  it('should rename fields, branch on conditions and map arrays', () => {
+    const result = applyTransform(
+      `{
+        "dealId": data.id,
+        "owner": data.owner.firstName & ' ' & data.owner.lastName,
+        "size": data.amount >= 10000 ? 'enterprise' : 'smb',
+        "emails": data.contacts.email,
+        "hot": data.contacts[score > 80][].{ "name": name, "email": $lowercase(email) },
+        "first": data.contacts[0].name,
+        "total": $sum(data.contacts.score),
+        "missing": data.nope.field
+      }`,
+      ENVELOPE,
+    );
+
+    expect(result).toEqual({
+      dealId: 'deal-1',
+      owner: 'Ada Lovelace',
+      size: 'enterprise',
+      emails: ['GRACE@ACME.COM', 'alan@acme.com'],
+      hot: [{ name: 'Grace', email: 'grace@acme.com' }],
+      first: 'Grace',
+      total: 131,
+    });
+  });
+
+  it('should format dates in UTC or a given time zone', () => {
+    const result = applyTransform(
+      `($closed := data.closedAt; {
+        "utc": $formatDate($closed, 'YYYY-MM-DD HH:mm'),
+        "berlin": $formatDate($closed, 'ddd D MMM YYYY [at] HH:mm Z', 'Europe/Berlin'),
+        "millis": $toMillis(timestamp),
+        "iso": $fromMillis(0)
+      })`,
+      ENVELOPE,
+    );
+
+    expect(result).toEqual({
+      utc: '2026-03-01 23:30',
+      berlin: 'Mon 2 Mar 2026 at 00:30 +01:00',
+      millis: Date.parse('2026-03-01T12:34:56.789Z'),
+      iso: '1970-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => validateTransform('{ "id": data.id, }')).toThrow(TransformError);
+
+    let error: unknown;
+    try {
+      validateTransform('{ "id": data.id + }');
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(TransformError);
+    expect((error as TransformError).position).toBe(18);
+    expect((error as TransformError).statusCode).toBe(400);
+  });
+
+  it('should stay inside the sandbox and its limits', () => {
+    // Only own properties of the input are visible
+    expect(applyTransform('{ "c": data.constructor, "p": data.__proto__, "t": data.toString }', ENVELOPE)).toEqual({});
+    // Keys are set as plain fields, never as the prototype
+    const result = applyTransform('{ "__proto__": { "polluted": true } }', ENVELOPE);
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+
+    expect(() => applyTransform('{ "x": $eval("1") }', ENVELOPE)).toThrow('Unknown function $eval');
+    expect(() =>
+      applyTransform(
+        `($a := $pad('', 90000, 'x'); { "big": $a & $a })`,
+        ENVELOPE,
+      ),
+    ).toThrow('Strings are limited to 100000 characters');
+    expect(() => applyTransform('data.title', ENVELOPE)).toThrow('Transform must produce an object, got a string');
+  });
+});
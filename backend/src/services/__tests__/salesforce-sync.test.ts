@@ -0,0 +1,320 @@
+import '../../__tests__/setup';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+const mockPrisma = {
+  organization: { findUnique: jest.fn(), update: jest.fn() },
+  syncHistory: { create: jest.fn(), update: jest.fn() },
+  company: { findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn() },
+  contact: { findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn(), update: jest.fn() },
+  deal: { findMany: jest.fn() },
+  signal: { findMany: jest.fn() },
+  user: { findMany: jest.fn() },
+  crmSyncConflict: { createMany: jest.fn() },
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+jest.mock('../audit', () => ({
+  logAudit: jest.fn(),
+}));
+
+import { runSync } from '../salesforce-sync';
+
+// ---------------------------------------------------------------------------
+// Local Salesforce stand-in
+// ---------------------------------------------------------------------------
+// Serves SOQL queries (always empty), Composite API pushes, Tooling API field
+// registration and the Bulk API 2.0 ingest lifecycle. Jobs finish as soon as
+// they are polled; rows whose Sigscore ID starts with "bad" fail, and upserted
+// rows are created. Fields listed in `existingFields` already exist.
+
+interface ToolingField {
+  id: string;
+  metadata: Record<string, unknown>;
+}
+
+interface IngestJob {
+  id: string;
+  object: string;
+  operation: string;
+  externalIdFieldName?: string;
+  state: string;
+  csv: string;
+}
+
+const API = '/services/data/v59.0';
+
+let jobs: IngestJob[];
+let compositeCalls: number;
+let createdFields: string[];
+let existingFields: Map<string, ToolingField>;
+let failJobs: boolean;
+let server: http.Server;
+
+function csvRows(csv: string): Array<Record<string, string>> {
+  const [header, ...lines] = csv.trim().split('\n');
+  const columns = header.split(',');
+  return lines.map((line) => Object.fromEntries(line.split(',').map((cell, i) => [columns[i], cell])));
+}
+
+function handle(req: http.IncomingMessage, body: string, res: http.ServerResponse) {
+  const url = new URL(req.url!, 'http://localhost');
+  const path = url.pathname.replace(API, '');
+  const reply = (payload: unknown, status = 200) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  };
+
+  if (path === '/query') return reply({ totalSize: 0, done: true, records: [] });
+
+  if (path === '/composite/sobjects') {
+    compositeCalls++;
+    const { records } = JSON.parse(body) as { records: unknown[] };
+    return reply(records.map((_, i) => ({ id: `003${i}`, success: true, errors: [] })));
+  }
+
+  if (path === '/tooling/sobjects/CustomField') {
+    const { FullName } = JSON.parse(body) as { FullName: string };
+    if (existingFields.has(FullName)) {
+      return reply([{ errorCode: 'DUPLICATE_DEVELOPER_NAME', message: 'There is already a field named that' }], 400);
+    }
+    createdFields.push(FullName);
+    return reply({ id: '00N1', success: true }, 201);
+  }
+
+  if (path === '/tooling/query') {
+    const soql = url.searchParams.get('q')!;
+    const [, objectName, developerName] = soql.match(/TableEnumOrId = '(\w+)' AND DeveloperName = '(\w+)'/)!;
+    const field = existingFields.get(`${objectName}.${developerName}__c`);
+    return reply({ totalSize: 1, done: true, records: field ? [{ Id: field.id, Metadata: field.metadata }] : [] });
+  }
+
+  const toolingField = path.match(/^\/tooling\/sobjects\/CustomField\/(\w+)$/);
+  if (toolingField && req.method === 'PATCH') {
+    const field = [...existingFields.values()].find((f) => f.id === toolingField[1])!;
+    field.metadata = JSON.parse(body).Metadata;
+    res.writeHead(204);
+    return res.end();
+  }
+
+  if (req.method === 'POST' && path === '/jobs/ingest') {
+    const job: IngestJob = { id: `750${jobs.length}`, state: 'Open', csv: '', ...JSON.parse(body) };
+    jobs.push(job);
+    return reply(job);
+  }
+
+  const jobPath = path.match(/^\/jobs\/ingest\/(\w+)(\/\w+)?\/?$/);
+  const job = jobPath && jobs.find((j) => j.id === jobPath[1]);
+  if (job) {
+    const rows = csvRows(job.csv);
+    const key = job.externalIdFieldName ?? 'Sigscore_Id__c';
+    const failed = rows.filter((row) => row[key].startsWith('bad'));
+
+    if (jobPath[2] === '/batches') {
+      job.csv = body;
+      res.writeHead(201);
+      return res.end();
+    }
+    if (jobPath[2] === '/successfulResults') {
+      res.writeHead(200, { 'Content-Type': 'text/csv' });
+      const created = job.operation === 'upsert' ? 'true' : 'false';
+      const lines = rows.filter((row) => !failed.includes(row)).map((row, i) => `a00${i},${created},${row[key]}`);
+      return res.end(['"sf__Id","sf__Created",' + key, ...lines].join('\n') + '\n');
+    }
+    if (jobPath[2] === '/failedResults') {
+      res.writeHead(200, { 'Content-Type': 'text/csv' });
+      const lines = failed.map((row) => `"",REQUIRED_FIELD_MISSING:Required fields are missing: [LastName],${row[key]}`);
+      return res.end(['"sf__Id","sf__Error",' + key, ...lines].join('\n') + '\n');
+    }
+    if (req.method === 'PATCH') {
+      job.state = JSON.parse(body).state;
+      return reply(job);
+    }
+    if (failJobs) return reply({ ...job, state: 'Failed', errorMessage: 'InvalidBatch : Field name not found' });
+    return reply({
+      ...job,
+      state: 'JobComplete',
+      numberRecordsProcessed: rows.length,
+      numberRecordsFailed: failed.length,
+    });
+  }
+
+  return reply({});
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+
+let settings: Record<string, unknown>;
+
+const contacts = (count: number, overrides: (i: number) => Record<string, unknown> = () => ({})) =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `contact-${i}`,
+    email: `dev${i}@example.com`,
+    firstName: 'Dev',
+    lastName: `Number ${i}`,
+    title: null,
+    phone: null,
+    customFields: null,
+    company: null,
+    ...overrides(i),
+  }));
+
+const lastHistoryUpdate = () => mockPrisma.syncHistory.update.mock.calls.at(-1)![0].data;
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Salesforce bulk sync', () => {
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => handle(req, body, res));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jobs = [];
+    compositeCalls = 0;
+    createdFields = [];
+    existingFields = new Map();
+    failJobs = false;
+    settings = {
+      salesforceAccessToken: 'token',
+      salesforceInstanceUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    };
+
+    mockPrisma.organization.findUnique.mockImplementation(() => Promise.resolve({ settings }));
+    mockPrisma.organization.update.mockImplementation(({ data }) => {
+      settings = data.settings;
+      return Promise.resolve({});
+    });
+    mockPrisma.syncHistory.create.mockResolvedValue({ id: 'history-1' });
+    mockPrisma.syncHistory.update.mockResolvedValue({});
+    for (const model of [mockPrisma.company, mockPrisma.contact, mockPrisma.deal, mockPrisma.signal]) {
+      model.findMany.mockResolvedValue([]);
+    }
+    mockPrisma.user.findMany.mockResolvedValue([]);
+  });
+
+  it('should push large change sets as bulk jobs and record rejected rows on the sync run', async () => {
+    mockPrisma.contact.findMany.mockResolvedValue(
+      contacts(2500, (i) => ({
+        ...(i === 7 && { id: 'bad-contact' }),
+        ...(i < 3 && { customFields: { salesforceId: `003SF${i}` } }),
+      })),
+    );
+
+    const result = await runSync(ORG_ID);
+
+    expect(compositeCalls).toBe(0);
+    expect(jobs.map(({ object, operation, externalIdFieldName }) => ({ object, operation, externalIdFieldName }))).toEqual([
+      { object: 'Contact', operation: 'update', externalIdFieldName: undefined },
+      { object: 'Contact', operation: 'upsert', externalIdFieldName: 'Sigscore_Id__c' },
+    ]);
+    expect(jobs.every((job) => job.state === 'UploadComplete')).toBe(true);
+
+    const updated = csvRows(jobs[0].csv);
+    expect(updated).toHaveLength(3);
+    expect(updated[0]).toEqual(
+      expect.objectContaining({ Id: '003SF0', Email: 'dev0@example.com', Sigscore_Id__c: 'contact-0' }),
+    );
+    const upserted = csvRows(jobs[1].csv);
+    expect(upserted).toHaveLength(2497);
+    expect(upserted[0]).not.toHaveProperty('Id');
+
+    expect(result.contacts).toEqual({ created: 2496, updated: 3, failed: 1 });
+    expect(lastHistoryUpdate()).toEqual(
+      expect.objectContaining({
+        status: 'PARTIAL',
+        rowErrors: [
+          {
+            object: 'Contact',
+            recordId: 'bad-contact',
+            error: 'REQUIRED_FIELD_MISSING:Required fields are missing: [LastName]',
+          },
+        ],
+      }),
+    );
+  });
+
+  it('should keep small change sets on the REST Composite API', async () => {
+    mockPrisma.contact.findMany.mockResolvedValue(contacts(5));
+
+    const result = await runSync(ORG_ID);
+
+    expect(jobs).toHaveLength(0);
+    expect(compositeCalls).toBe(1);
+    expect(result.contacts).toEqual({ created: 0, updated: 5, failed: 0 });
+    expect(lastHistoryUpdate().rowErrors).toBeUndefined();
+    // REST pushes send Sigscore_Id__c too, so the ID fields are ensured first
+    expect(createdFields).toEqual([
+      'Contact.Sigscore_Id__c',
+      'Account.Sigscore_Id__c',
+      'Opportunity.Sigscore_Deal_Id__c',
+    ]);
+  });
+
+  it('should promote an existing Sigscore deal id field to an external ID', async () => {
+    existingFields.set('Opportunity.Sigscore_Deal_Id__c', {
+      id: '00N9',
+      metadata: { label: 'Sigscore Deal ID', type: 'Text', length: 255 },
+    });
+    existingFields.set('Contact.Sigscore_Id__c', {
+      id: '00N8',
+      metadata: { label: 'Sigscore ID', type: 'Text', length: 255, externalId: true, unique: true },
+    });
+    mockPrisma.contact.findMany.mockResolvedValue(contacts(1));
+
+    await runSync(ORG_ID);
+
+    expect(existingFields.get('Opportunity.Sigscore_Deal_Id__c')!.metadata).toEqual(
+      expect.objectContaining({ externalId: true, unique: true }),
+    );
+    expect(createdFields).toEqual(['Account.Sigscore_Id__c']);
+  });
+
+  it('should upsert opportunities on the Sigscore deal id and report failed jobs as stage errors', async () => {
+    failJobs = true;
+    mockPrisma.deal.findMany.mockResolvedValue(
+      Array.from({ length: 2000 }, (_, i) => ({
+        id: `deal-${i}`,
+        title: `Deal ${i}`,
+        stage: 'IDENTIFIED',
+        amount: null,
+        description: null,
+        expectedCloseDate: new Date('2026-12-31T00:00:00Z'),
+      })),
+    );
+
+    const result = await runSync(ORG_ID);
+
+    expect(jobs[0]).toEqual(
+      expect.objectContaining({ object: 'Opportunity', operation: 'upsert', externalIdFieldName: 'Sigscore_Deal_Id__c' }),
+    );
+    expect(csvRows(jobs[0].csv)[0]).toEqual(
+      expect.objectContaining({ Name: 'Deal 0', StageName: 'Prospecting', CloseDate: '2026-12-31' }),
+    );
+    expect(result.errors).toEqual([
+      expect.stringContaining('Opportunity sync failed: Salesforce bulk Opportunity job 7500 failed: InvalidBatch'),
+    ]);
+  });
+});
@@ -0,0 +1,160 @@
+import '../../__tests__/setup';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+const mockPrisma = {
+  deal: {
+    findMany: jest.fn(),
+  },
+  signal: {
+    findMany: jest.fn(),
+  },
+  company: {
+    findFirst: jest.fn(),
+  },
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+import { runBacktest } from '../scoring-backtest';
+import { ScoringConfig } from '../scoring-rules';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+const DAY = 24 * 60 * 60 * 1000;
+const CLOSED_AT = new Date('2026-06-30T00:00:00Z');
+
+const CONFIG: ScoringConfig = {
+  rules: [
+    {
+      id: 'custom_rule',
+      name: 'Usage',
+      description: '',
+      signalType: 'app_login',
+      weight: 100,
+      decay: 'none',
+      conditions: [],
+      enabled: true,
+    },
+  ],
+  tierThresholds: { HOT: 80, WARM: 50, COLD: 20 },
+  maxScore: 100,
+};
+
+function makeDeal(id: string, companyId: string | null, stage: 'CLOSED_WON' | 'CLOSED_LOST') {
+  return {
+    id,
+    title: `Deal ${id}`,
+    stage,
+    closedAt: CLOSED_AT,
+    updatedAt: CLOSED_AT,
+    companyId,
+    company: companyId ? { name: `Company ${companyId}` } : null,
+  };
+}
+
+/** Signal counts per company, all stamped one day before the scoring date. */
+function mockSignals(countsByCompany: Record<string, number>) {
+  mockPrisma.signal.findMany.mockImplementation(({ where }) => {
+    const timestamp = new Date(where.timestamp.lte.getTime() - DAY);
+    return Promise.resolve(
+      Array.from({ length: countsByCompany[where.accountId] ?? 0 }, () => ({
+        type: 'app_login',
+        timestamp,
+        actorId: 'user-1',
+        metadata: {},
+      })),
+    );
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Scoring backtest', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.company.findFirst.mockResolvedValue({
+      size: null,
+      industry: null,
+      domain: null,
+      customFields: null,
+      contacts: [],
+    });
+  });
+
+  it('should only read signals from before the lead window', async () => {
+    mockPrisma.deal.findMany.mockResolvedValue([makeDeal('d1', 'c1', 'CLOSED_WON')]);
+    mockSignals({ c1: 3 });
+
+    const result = await runBacktest(ORG_ID, CONFIG, { leadDays: 14 });
+
+    const scoredAt = new Date(CLOSED_AT.getTime() - 14 * DAY);
+    expect(mockPrisma.signal.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          accountId: 'c1',
+          timestamp: { gte: new Date(scoredAt.getTime() - 90 * DAY), lte: scoredAt },
+        }),
+      }),
+    );
+    expect(result.samples[0].scoredAt).toEqual(scoredAt);
+    expect(result.samples[0].score).toBeGreaterThan(0);
+  });
+
+  it('should report precision and lift by tier and a perfect AUC when scores separate outcomes', async () => {
+    mockPrisma.deal.findMany.mockResolvedValue([
+      makeDeal('d1', 'c1', 'CLOSED_WON'),
+      makeDeal('d2', 'c2', 'CLOSED_WON'),
+      makeDeal('d3', 'c3', 'CLOSED_LOST'),
+      makeDeal('d4', 'c4', 'CLOSED_LOST'),
+      makeDeal('d5', null, 'CLOSED_LOST'),
+    ]);
+    mockSignals({ c1: 100, c2: 80 });
+
+    const result = await runBacktest(ORG_ID, CONFIG);
+
+    expect(result.deals).toBe(4);
+    expect(result.skipped).toBe(1);
+    expect(result.baseWinRate).toBe(0.5);
+    expect(result.auc).toBe(1);
+
+    const hot = result.tiers.find((t) => t.tier === 'HOT')!;
+    const inactive = result.tiers.find((t) => t.tier === 'INACTIVE')!;
+    expect(hot).toEqual(expect.objectContaining({ deals: 2, won: 2, precision: 1, lift: 2 }));
+    expect(inactive).toEqual(expect.objectContaining({ deals: 2, won: 0, precision: 0, lift: 0 }));
+
+    expect(result.roc[0]).toEqual(expect.objectContaining({ tpr: 0, fpr: 0 }));
+    expect(result.roc[result.roc.length - 1]).toEqual(expect.objectContaining({ tpr: 1, fpr: 1 }));
+  });
+
+  it('should count tied scores as half in the AUC', async () => {
+    mockPrisma.deal.findMany.mockResolvedValue([
+      makeDeal('d1', 'c1', 'CLOSED_WON'),
+      makeDeal('d2', 'c2', 'CLOSED_LOST'),
+    ]);
+    mockSignals({});
+
+    const result = await runBacktest(ORG_ID, CONFIG);
+
+    expect(result.auc).toBe(0.5);
+  });
+
+  it('should leave AUC empty when only one outcome is present', async () => {
+    mockPrisma.deal.findMany.mockResolvedValue([makeDeal('d1', 'c1', 'CLOSED_WON')]);
+    mockSignals({ c1: 5 });
+
+    const result = await runBacktest(ORG_ID, CONFIG);
+
+    expect(result.auc).toBeNull();
+    expect(result.roc).toEqual([]);
+  });
+});
@@ -0,0 +1,216 @@
+import '../../__tests__/setup';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+const mockPrisma = {
+  scoringModel: {
+    findFirst: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    delete: jest.fn(),
+  },
+  scoringModelScore: {
+    findMany: jest.fn(),
+    upsert: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  accountScore: {
+    findMany: jest.fn(),
+  },
+  $transaction: jest.fn((ops: Promise<unknown>[]) => Promise.all(ops)),
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+const mockApplyAndRecompute = jest.fn();
+const mockComputeScoreForAccount = jest.fn();
+
+jest.mock('../scoring-rules', () => ({
+  ...jest.requireActual('../scoring-rules'),
+  applyAndRecompute: mockApplyAndRecompute,
+  computeScoreForAccount: mockComputeScoreForAccount,
+}));
+
+jest.mock('../../jobs/producers', () => ({
+  enqueueModelScoreComputation: jest.fn(),
+  enqueueBulkScoreComputation: jest.fn(),
+}));
+
+import { compareScoringModels, deleteScoringModel, setPrimaryModel } from '../scoring-models';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+
+const COMPUTED_AT = new Date('2026-03-01T00:00:00.000Z');
+
+const CONFIG = {
+  rules: [],
+  tierThresholds: { HOT: 80, WARM: 50, COLD: 20 },
+  maxScore: 100,
+};
+
+function makeModel(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    organizationId: ORG_ID,
+    name: id === 'model-a' ? 'PLG adoption' : 'Enterprise intent',
+    isPrimary: false,
+    config: CONFIG,
+    lastComputedAt: null,
+    ...overrides,
+  };
+}
+
+function mockModels(...models: ReturnType<typeof makeModel>[]) {
+  mockPrisma.scoringModel.findFirst.mockImplementation(({ where }) =>
+    Promise.resolve(models.find((m) => m.id === where.id) ?? null),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Scoring models', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('compareScoringModels', () => {
+    it('should report rank correlation and tier disagreements over shared accounts', async () => {
+      mockModels(makeModel('model-a', { lastComputedAt: COMPUTED_AT }), makeModel('model-b', { lastComputedAt: COMPUTED_AT }));
+      mockPrisma.scoringModelScore.findMany
+        .mockResolvedValueOnce([
+          { accountId: 'acc-1', score: 90, tier: 'HOT', account: { name: 'Acme' } },
+          { accountId: 'acc-2', score: 60, tier: 'WARM', account: { name: 'Globex' } },
+          { accountId: 'acc-3', score: 30, tier: 'COLD', account: { name: 'Initech' } },
+          { accountId: 'acc-4', score: 10, tier: 'INACTIVE', account: { name: 'Only in A' } },
+        ])
+        .mockResolvedValueOnce([
+          { accountId: 'acc-1', score: 25, tier: 'COLD' },
+          { accountId: 'acc-2', score: 55, tier: 'WARM' },
+          { accountId: 'acc-3', score: 85, tier: 'HOT' },
+        ]);
+
+      const result = await compareScoringModels(ORG_ID, 'model-a', 'model-b');
+
+      expect(result.accounts).toBe(3);
+      expect(result.rankCorrelation).toBe(-1);
+      expect(result.tierAgreement).toBe(0.333);
+      expect(result.tierMatrix.HOT.COLD).toBe(1);
+      expect(result.tierMatrix.WARM.WARM).toBe(1);
+      expect(result.disagreementCount).toBe(2);
+      expect(result.disagreements[0]).toEqual(
+        expect.objectContaining({ accountName: 'Acme', tierA: 'HOT', tierB: 'COLD', rankA: 1, rankB: 3 }),
+      );
+    });
+
+    it('should give tied scores the same rank', async () => {
+      mockModels(makeModel('model-a', { lastComputedAt: COMPUTED_AT }), makeModel('model-b', { lastComputedAt: COMPUTED_AT }));
+      mockPrisma.scoringModelScore.findMany
+        .mockResolvedValueOnce([
+          { accountId: 'acc-1', score: 50, tier: 'WARM', account: { name: 'Acme' } },
+          { accountId: 'acc-2', score: 50, tier: 'WARM', account: { name: 'Globex' } },
+          { accountId: 'acc-3', score: 10, tier: 'INACTIVE', account: { name: 'Initech' } },
+        ])
+        .mockResolvedValueOnce([
+          { accountId: 'acc-1', score: 70, tier: 'WARM' },
+          { accountId: 'acc-2', score: 60, tier: 'WARM' },
+          { accountId: 'acc-3', score: 5, tier: 'INACTIVE' },
+        ]);
+
+      const result = await compareScoringModels(ORG_ID, 'model-a', 'model-b');
+
+      expect(result.rankCorrelation).toBe(0.866);
+      expect(result.disagreementCount).toBe(0);
+    });
+
+    it('should recompute stale models before comparing them', async () => {
+      const modelA = makeModel('model-a', { lastComputedAt: COMPUTED_AT });
+      const modelB = makeModel('model-b', {
+        config: { ...CONFIG, tierThresholds: { HOT: 40, WARM: 20, COLD: 10 } },
+      });
+      mockModels(modelA, modelB);
+      mockPrisma.scoringModel.update.mockImplementation(({ where, data }) => {
+        if (where.id === 'model-b') Object.assign(modelB, data);
+        return Promise.resolve(modelB);
+      });
+      mockPrisma.accountScore.findMany.mockResolvedValue([{ accountId: 'acc-1' }, { accountId: 'acc-2' }]);
+      mockComputeScoreForAccount.mockImplementation((_org, accountId) =>
+        Promise.resolve(accountId === 'acc-1' ? 45 : 15),
+      );
+      mockPrisma.scoringModelScore.findMany
+        .mockResolvedValueOnce([
+          { accountId: 'acc-1', score: 45, tier: 'COLD', account: { name: 'Acme' } },
+          { accountId: 'acc-2', score: 15, tier: 'INACTIVE', account: { name: 'Globex' } },
+        ])
+        .mockImplementationOnce(() =>
+          Promise.resolve(
+            mockPrisma.scoringModelScore.upsert.mock.calls.map(([{ create }]) => ({
+              accountId: create.accountId,
+              score: create.score,
+              tier: create.tier,
+            })),
+          ),
+        );
+
+      const result = await compareScoringModels(ORG_ID, 'model-a', 'model-b');
+
+      // Only the never-computed model is rescored, with its own thresholds
+      expect(mockComputeScoreForAccount).toHaveBeenCalledTimes(2);
+      expect(mockComputeScoreForAccount).toHaveBeenCalledWith(ORG_ID, 'acc-1', modelB.config);
+      expect(mockPrisma.scoringModelScore.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { modelId_accountId: { modelId: 'model-b', accountId: 'acc-1' } },
+        update: expect.objectContaining({ score: 45, tier: 'HOT' }),
+      }));
+      expect(result.modelB.lastComputedAt).toBeInstanceOf(Date);
+      expect(result.accounts).toBe(2);
+      expect(result.tierMatrix.COLD.HOT).toBe(1);
+      expect(result.tierMatrix.INACTIVE.COLD).toBe(1);
+    });
+
+    it('should refuse to compare a model that scored no accounts', async () => {
+      mockModels(makeModel('model-a', { lastComputedAt: COMPUTED_AT }), makeModel('model-b', { lastComputedAt: COMPUTED_AT }));
+      mockPrisma.scoringModelScore.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+
+      await expect(compareScoringModels(ORG_ID, 'model-a', 'model-b')).rejects.toThrow(
+        'has no scored accounts to compare',
+      );
+    });
+  });
+
+  describe('setPrimaryModel', () => {
+    it('should swap the primary flag and recompute live scores with the new config', async () => {
+      mockModels(makeModel('model-b'));
+      mockPrisma.scoringModel.update.mockResolvedValue(makeModel('model-b', { isPrimary: true }));
+      mockApplyAndRecompute.mockResolvedValue({ updated: 12, config: CONFIG });
+
+      const result = await setPrimaryModel(ORG_ID, 'model-b');
+
+      expect(mockPrisma.scoringModel.updateMany).toHaveBeenCalledWith({
+        where: { organizationId: ORG_ID, isPrimary: true },
+        data: { isPrimary: false },
+      });
+      expect(mockApplyAndRecompute).toHaveBeenCalledWith(ORG_ID, CONFIG);
+      expect(result.updated).toBe(12);
+    });
+  });
+
+  describe('deleteScoringModel', () => {
+    it('should refuse to delete the primary model', async () => {
+      mockModels(makeModel('model-a', { isPrimary: true }));
+
+      await expect(deleteScoringModel(ORG_ID, 'model-a')).rejects.toThrow(
+        'Cannot delete the primary scoring model',
+      );
+      expect(mockPrisma.scoringModel.delete).not.toHaveBeenCalled();
+    });
+  });
+});
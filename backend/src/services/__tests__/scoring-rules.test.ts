@@ -0,0 +1,421 @@
+import '../../__tests__/setup';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+const mockPrisma = {
+  organization: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  scoringModel: {
+    findFirst: jest.fn(),
+    update: jest.fn(),
+  },
+  accountScore: {
+    findMany: jest.fn(),
+    count: jest.fn(),
+    groupBy: jest.fn(),
+  },
+  contactScore: {
+    findMany: jest.fn(),
+  },
+  signal: {
+    count: jest.fn(),
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    groupBy: jest.fn(),
+  },
+  company: {
+    findFirst: jest.fn(),
+  },
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+const mockEnqueueBulkScoreComputation = jest.fn();
+const mockEnqueueModelScoreComputation = jest.fn();
+
+jest.mock('../../jobs/producers', () => ({
+  enqueueBulkScoreComputation: mockEnqueueBulkScoreComputation,
+  enqueueModelScoreComputation: mockEnqueueModelScoreComputation,
+}));
+
+import {
+  explainScoreForAccount,
+  matchesScoringCondition,
+  previewScores,
+  regexPatternError,
+  updateScoringConfig,
+  ScoringConfig,
+  ScoringRule,
+} from '../scoring-rules';
+import { buildScoreBreakdown } from '../score-breakdown';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+
+function makeConfig(rule: Partial<ScoringRule>): ScoringConfig {
+  return {
+    rules: [
+      {
+        id: 'custom_rule',
+        name: 'Custom',
+        description: '',
+        signalType: 'npm_download',
+        weight: 100,
+        decay: 'none',
+        conditions: [],
+        enabled: true,
+        ...rule,
+      },
+    ],
+    tierThresholds: { HOT: 80, WARM: 50, COLD: 20 },
+    maxScore: 100,
+  };
+}
+
+/**
+ * Mocks the per-account queries made by computeScoreForAccount. The
+ * distinct-actor lookup, the metadata scan and the breakdown's top-signal
+ * lookup all use signal.findMany.
+ */
+function mockAccountData(opts: {
+  signals: { type: string; metadata: Record<string, unknown> }[];
+  topSignals?: { id: string; type: string; timestamp: Date; actorId: string | null }[];
+  company?: Record<string, unknown>;
+}) {
+  mockPrisma.signal.count.mockResolvedValue(opts.signals.length);
+  mockPrisma.signal.findMany.mockImplementation(({ select }) =>
+    Promise.resolve(select.metadata ? opts.signals : select.id ? opts.topSignals ?? [] : []),
+  );
+  mockPrisma.signal.groupBy.mockResolvedValue([{ type: 'npm_download', _count: opts.signals.length }]);
+  mockPrisma.signal.findFirst.mockResolvedValue({ timestamp: new Date() });
+  mockPrisma.company.findFirst.mockResolvedValue({
+    size: 'MEDIUM',
+    industry: 'Fintech',
+    domain: 'acme.io',
+    customFields: { plan: 'enterprise' },
+    contacts: [],
+    ...opts.company,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Scoring rules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('matchesScoringCondition', () => {
+    it('should match in against arrays and comma-separated lists', () => {
+      expect(matchesScoringCondition({ field: 'company.size', operator: 'in', value: 'small, medium' }, 'MEDIUM')).toBe(true);
+      expect(matchesScoringCondition({ field: 'company.size', operator: 'in', value: ['LARGE'] }, 'MEDIUM')).toBe(false);
+    });
+
+    it('should match between inclusively', () => {
+      const cond = { field: 'user_count', operator: 'between' as const, value: [5, 10] };
+      expect(matchesScoringCondition(cond, 5)).toBe(true);
+      expect(matchesScoringCondition(cond, 10)).toBe(true);
+      expect(matchesScoringCondition(cond, 11)).toBe(false);
+    });
+
+    it('should test regex case-insensitively and never match invalid patterns', () => {
+      expect(matchesScoringCondition({ field: 'company.domain', operator: 'regex', value: '\\.IO$' }, 'acme.io')).toBe(true);
+      expect(matchesScoringCondition({ field: 'company.domain', operator: 'regex', value: '([' }, 'acme.io')).toBe(false);
+    });
+
+    it('should refuse nested quantifiers and only test the start of long values', () => {
+      expect(regexPatternError('(a+)+$')).toBe('regex must not nest quantifiers, e.g. (a+)+');
+      expect(regexPatternError('^((\\w*)\\.)*$')).toBe('regex must not nest quantifiers, e.g. (a+)+');
+      expect(regexPatternError('(?:[a-z]{2,})+')).toBe('regex must not nest quantifiers, e.g. (a+)+');
+      expect(regexPatternError('^(bot|crawler)\\d+ [(+*)]+$')).toBeNull();
+      expect(matchesScoringCondition({ field: 'metadata.ua', operator: 'regex', value: '(a+)+$' }, 'a'.repeat(40) + '!')).toBe(false);
+      expect(matchesScoringCondition({ field: 'metadata.ua', operator: 'regex', value: 'bot$' }, 'x'.repeat(1000) + 'bot')).toBe(false);
+    });
+
+    it('should refuse repeated groups with alternatives', () => {
+      const alternation = 'regex must not repeat a group with alternatives, e.g. (a|b)+; use a character class such as [ab]+';
+      expect(regexPatternError('(\\w|\\d)+$')).toBe(alternation);
+      expect(regexPatternError('(a|a)+$')).toBe(alternation);
+      expect(regexPatternError('^((a|a)b)*$')).toBe(alternation);
+      expect(regexPatternError('^(?:www\\.)?(acme|globex)\\.io$')).toBeNull();
+      expect(regexPatternError('^[\\w|]+$')).toBeNull();
+      expect(matchesScoringCondition({ field: 'metadata.ua', operator: 'regex', value: '(a|a)+$' }, 'a'.repeat(40) + '!')).toBe(false);
+    });
+
+    it('should check presence with exists', () => {
+      expect(matchesScoringCondition({ field: 'metadata.ci', operator: 'exists', value: '' }, true)).toBe(true);
+      expect(matchesScoringCondition({ field: 'metadata.ci', operator: 'exists', value: '' }, undefined)).toBe(false);
+      expect(matchesScoringCondition({ field: 'metadata.ci', operator: 'exists', value: false }, undefined)).toBe(true);
+    });
+
+    it('should match when any array element matches', () => {
+      expect(matchesScoringCondition({ field: 'metadata.tags', operator: 'eq', value: 'beta' }, ['alpha', 'beta'])).toBe(true);
+    });
+  });
+
+  describe('previewScores', () => {
+    it('should count only signals whose metadata matches', async () => {
+      mockPrisma.accountScore.findMany.mockResolvedValue([
+        { accountId: 'acc-1', score: 10, tier: 'INACTIVE', account: { id: 'acc-1', name: 'Acme', domain: 'acme.io' } },
+      ]);
+      mockPrisma.accountScore.count.mockResolvedValue(1);
+      mockAccountData({
+        signals: [
+          { type: 'npm_download', metadata: { package: { version: '2.1.0' } } },
+          { type: 'npm_download', metadata: { package: { version: '2.0.3' } } },
+          { type: 'npm_download', metadata: { package: { version: '1.9.0' } } },
+        ],
+      });
+
+      const { previews } = await previewScores(
+        ORG_ID,
+        makeConfig({ conditions: [{ field: 'metadata.package.version', operator: 'regex', value: '^2\\.' }] }),
+      );
+
+      // log2(2 + 1) * 15 = 24 (two matching signals, not three)
+      expect(previews[0].projectedScore).toBe(24);
+    });
+
+    it('should gate rules on company firmographics and custom fields', async () => {
+      mockPrisma.accountScore.findMany.mockResolvedValue([
+        { accountId: 'acc-1', score: 10, tier: 'INACTIVE', account: { id: 'acc-1', name: 'Acme', domain: 'acme.io' } },
+      ]);
+      mockPrisma.accountScore.count.mockResolvedValue(1);
+      mockAccountData({ signals: [{ type: 'npm_download', metadata: {} }] });
+
+      const matching = await previewScores(
+        ORG_ID,
+        makeConfig({
+          conditions: [
+            { field: 'company.size', operator: 'in', value: ['SMALL', 'MEDIUM'] },
+            { field: 'company.custom.plan', operator: 'eq', value: 'enterprise' },
+          ],
+        }),
+      );
+      const excluded = await previewScores(
+        ORG_ID,
+        makeConfig({ conditions: [{ field: 'company.industry', operator: 'eq', value: 'Retail' }] }),
+      );
+
+      expect(matching.previews[0].projectedScore).toBeGreaterThan(0);
+      expect(excluded.previews[0].projectedScore).toBe(0);
+    });
+
+    it('should summarize projected tier movement', async () => {
+      mockPrisma.accountScore.findMany.mockResolvedValue([
+        { accountId: 'acc-1', score: 10, tier: 'INACTIVE', account: { id: 'acc-1', name: 'Acme', domain: null } },
+        { accountId: 'acc-2', score: 15, tier: 'INACTIVE', account: { id: 'acc-2', name: 'Globex', domain: null } },
+      ]);
+      mockPrisma.accountScore.count.mockResolvedValue(2);
+      mockAccountData({ signals: Array.from({ length: 7 }, () => ({ type: 'npm_download', metadata: {} })) });
+
+      const { tierImpact } = await previewScores(ORG_ID, makeConfig({}));
+
+      // log2(7 + 1) * 15 = 45 -> COLD
+      expect(tierImpact).toEqual({
+        sampled: 2,
+        totalAccounts: 2,
+        current: { HOT: 0, WARM: 0, COLD: 0, INACTIVE: 2 },
+        projected: { HOT: 0, WARM: 0, COLD: 2, INACTIVE: 0 },
+        transitions: [{ from: 'INACTIVE', to: 'COLD', count: 2 }],
+      });
+    });
+
+    it('should sample each tier at a random offset for large orgs', async () => {
+      mockPrisma.accountScore.count.mockResolvedValue(1000);
+      mockPrisma.accountScore.groupBy.mockResolvedValue([
+        { tier: 'HOT', _count: { _all: 100 } },
+        { tier: 'INACTIVE', _count: { _all: 900 } },
+      ]);
+      mockPrisma.accountScore.findMany.mockImplementation(({ where, take }) =>
+        Promise.resolve(
+          Array.from({ length: take }, (_, i) => ({
+            accountId: `acc-${where.tier ?? 'top'}-${i}`,
+            score: where.tier === 'HOT' ? 90 : 5,
+            tier: where.tier ?? 'HOT',
+            account: null,
+          })),
+        ),
+      );
+      mockAccountData({ signals: [] });
+      const random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      const { previews, tierImpact } = await previewScores(ORG_ID, makeConfig({}));
+
+      expect(mockPrisma.accountScore.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { organizationId: ORG_ID }, orderBy: { score: 'desc' }, take: 10 }),
+      );
+      expect(mockPrisma.accountScore.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { organizationId: ORG_ID, tier: 'HOT' }, skip: 40, take: 20 }),
+      );
+      expect(mockPrisma.accountScore.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { organizationId: ORG_ID, tier: 'INACTIVE' }, skip: 360, take: 180 }),
+      );
+      expect(previews).toHaveLength(10);
+      expect(tierImpact).toMatchObject({
+        sampled: 200,
+        totalAccounts: 1000,
+        current: { HOT: 20, WARM: 0, COLD: 0, INACTIVE: 180 },
+      });
+      random.mockRestore();
+    });
+
+    it('should reject invalid regex conditions', async () => {
+      await expect(
+        previewScores(
+          ORG_ID,
+          makeConfig({ conditions: [{ field: 'company.domain', operator: 'regex', value: '([' }] }),
+        ),
+      ).rejects.toThrow('invalid regex');
+      expect(mockPrisma.accountScore.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('explainScoreForAccount', () => {
+    it('should split each rule into points and decay that add up to the score', async () => {
+      const lastSignalAt = new Date(Date.now() - 3.5 * 24 * 60 * 60 * 1000);
+      mockAccountData({
+        signals: Array.from({ length: 7 }, () => ({ type: 'npm_download', metadata: {} })),
+        topSignals: [{ id: 'sig-7', type: 'npm_download', timestamp: lastSignalAt, actorId: 'contact-1' }],
+      });
+      // Last signal 3.5 days ago: a 7d linear decay keeps half the points
+      mockPrisma.signal.findFirst.mockResolvedValue({ timestamp: lastSignalAt });
+      mockPrisma.signal.groupBy.mockResolvedValue([
+        { type: 'npm_download', _count: 7, _max: { timestamp: new Date() } },
+      ]);
+
+      const config = makeConfig({});
+      config.rules.push({ ...config.rules[0], id: 'decaying_rule', name: 'Decaying', decay: '7d' });
+
+      const breakdown = await explainScoreForAccount(ORG_ID, 'acc-1', config);
+
+      // Each rule: log2(7 + 1) * 15 = 45 raw, half the total weight -> 22.5 points
+      expect(breakdown.source).toBe('rules');
+      expect(breakdown.contributions).toEqual([
+        expect.objectContaining({ id: 'custom_rule', kind: 'rule', points: 22.5, decay: 0 }),
+        expect.objectContaining({ id: 'decaying_rule', kind: 'rule', points: 22.5 }),
+      ]);
+      expect(breakdown.contributions[1].decay).toBeCloseTo(-11.25, 0);
+      expect(breakdown.score).toBe(34);
+      const steps = breakdown.contributions.reduce((sum, c) => sum + c.points + c.decay, 0);
+      expect(steps + breakdown.adjustment).toBeCloseTo(breakdown.score, 5);
+      expect(breakdown.topSignalTypes).toEqual([
+        expect.objectContaining({ type: 'npm_download', count: 7, weightedCount: null }),
+      ]);
+      expect(breakdown.topSignals).toEqual([
+        { id: 'sig-7', type: 'npm_download', timestamp: lastSignalAt, actorId: 'contact-1', weight: null },
+      ]);
+      expect(mockPrisma.signal.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ accountId: 'acc-1', organizationId: ORG_ID }),
+          orderBy: { timestamp: 'desc' },
+          take: 5,
+        }),
+      );
+    });
+
+    it('should rank decayed signals by the weight they still carry', () => {
+      const day = 24 * 60 * 60 * 1000;
+      const signal = (id: string, daysOld: number, weight: number) => ({
+        id,
+        type: 'page_view',
+        timestamp: new Date(Date.now() - daysOld * day),
+        actorId: null,
+        weight,
+      });
+
+      const breakdown = buildScoreBreakdown('pqa', 10, [], [], [
+        signal('old', 20, 0.123),
+        signal('fresh', 0, 1),
+        signal('recent', 2, 0.906),
+        ...Array.from({ length: 5 }, (_, i) => signal(`stale-${i}`, 60, 0.05)),
+      ]);
+
+      expect(breakdown.topSignals.map((s) => s.id)).toEqual(['fresh', 'recent', 'old', 'stale-0', 'stale-1']);
+      expect(breakdown.topSignals[1].weight).toBe(0.91);
+      expect(breakdown.topSignals[2].weight).toBe(0.12);
+    });
+  });
+
+  describe('updateScoringConfig half-lives', () => {
+    function mockStoredConfig(stored: Partial<ScoringConfig> | null) {
+      mockPrisma.organization.findUnique.mockResolvedValue({
+        settings: stored ? { scoringConfig: { ...makeConfig({}), ...stored } } : {},
+      });
+    }
+
+    it('should queue a recompute of scored accounts and contacts when overrides change', async () => {
+      mockStoredConfig(null);
+      mockPrisma.accountScore.findMany.mockResolvedValue([{ accountId: 'acc-1' }, { accountId: 'acc-2' }]);
+      mockPrisma.contactScore.findMany.mockResolvedValue([{ contactId: 'contact-1' }]);
+
+      const saved = await updateScoringConfig(ORG_ID, {
+        ...makeConfig({}),
+        halfLives: { custom_deploy: 30 },
+      });
+
+      expect(saved.halfLives).toEqual({ custom_deploy: 30 });
+      expect(mockEnqueueBulkScoreComputation).toHaveBeenCalledWith(ORG_ID, {
+        accountIds: ['acc-1', 'acc-2'],
+        contactIds: ['contact-1'],
+      });
+    });
+
+    it('should keep stored half-lives when the config omits them', async () => {
+      mockStoredConfig({ halfLives: { custom_deploy: 30 }, defaultHalfLife: 10 });
+
+      const saved = await updateScoringConfig(ORG_ID, makeConfig({ weight: 50 }));
+
+      expect(saved).toEqual(expect.objectContaining({ halfLives: { custom_deploy: 30 }, defaultHalfLife: 10 }));
+      expect(mockEnqueueBulkScoreComputation).not.toHaveBeenCalled();
+    });
+
+    it('should reset the default half-life when it is explicitly null', async () => {
+      mockStoredConfig({ halfLives: { custom_deploy: 30 }, defaultHalfLife: 10 });
+      mockPrisma.accountScore.findMany.mockResolvedValue([{ accountId: 'acc-1' }]);
+      mockPrisma.contactScore.findMany.mockResolvedValue([]);
+
+      const saved = await updateScoringConfig(ORG_ID, { ...makeConfig({}), defaultHalfLife: null });
+
+      expect(saved).not.toHaveProperty('defaultHalfLife');
+      expect(saved.halfLives).toEqual({ custom_deploy: 30 });
+      expect(mockEnqueueBulkScoreComputation).toHaveBeenCalledWith(ORG_ID, {
+        accountIds: ['acc-1'],
+        contactIds: [],
+      });
+    });
+
+    it('should mark the primary model stale and queue its recompute', async () => {
+      mockStoredConfig(null);
+      mockPrisma.scoringModel.findFirst.mockResolvedValue({ id: 'model-primary' });
+
+      const saved = await updateScoringConfig(ORG_ID, makeConfig({ weight: 50 }));
+
+      expect(mockPrisma.scoringModel.update).toHaveBeenCalledWith({
+        where: { id: 'model-primary' },
+        data: { config: saved, lastComputedAt: null },
+      });
+      expect(mockEnqueueModelScoreComputation).toHaveBeenCalledWith(ORG_ID, 'model-primary');
+    });
+
+    it('should reject half-lives outside the allowed range', async () => {
+      mockStoredConfig(null);
+
+      await expect(
+        updateScoringConfig(ORG_ID, { ...makeConfig({}), halfLives: { page_view: 0 } }),
+      ).rejects.toThrow('Half-life for "page_view" must be between 0.5 and 365 days');
+      expect(mockPrisma.organization.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import '../../__tests__/setup';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+const mockPrisma = {
+  webhookSubscription: {
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  webhookDeadLetter: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+    count: jest.fn(),
+  },
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+jest.mock('../../jobs/producers', () => ({
+  enqueueWebhookReplay: jest.fn(),
+}));
+
+jest.mock('../webhook-subscriptions', () => ({
+  deliverToSubscription: jest.fn(),
+  recordSubscriptionDelivery: jest.fn().mockResolvedValue({}),
+  markSubscriptionHealthy: jest.fn().mockResolvedValue({ count: 1 }),
+}));
+
+import { enqueueWebhookReplay } from '../../jobs/producers';
+import { deliverToSubscription, markSubscriptionHealthy } from '../webhook-subscriptions';
+import { deferIfReplaying, redeliverDeadLetter, runReplay, startReplay } from '../webhook-replay';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+const SUB_ID = 'sub-456';
+const FROM = new Date('2026-03-01T00:00:00Z');
+const TO = new Date('2026-03-02T00:00:00Z');
+
+function subscription(overrides: Record<string, unknown> = {}) {
+  return {
+    id: SUB_ID,
+    organizationId: ORG_ID,
+    targetUrl: 'https://hooks.example.com/webhook',
+    event: 'deal.closed',
+    secret: 'a'.repeat(64),
+    active: true,
+    status: 'FAILING',
+    replayStartedAt: null,
+    ...overrides,
+  };
+}
+
+function deadLetter(id: string, eventAt: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    subscriptionId: SUB_ID,
+    event: 'deal.closed',
+    payload: { event: 'deal.closed', data: { id } },
+    reason: 'DELIVERY_FAILED',
+    status: 'PENDING',
+    attempts: 5,
+    eventAt: new Date(eventAt),
+    createdAt: new Date(eventAt),
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Webhook dead letters and replay', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.webhookSubscription.findFirst.mockResolvedValue(subscription());
+  });
+
+  it('should claim the subscription and queue a replay of dead letters in range', async () => {
+    mockPrisma.webhookDeadLetter.count.mockResolvedValue(3);
+    mockPrisma.webhookSubscription.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await startReplay(ORG_ID, SUB_ID, { from: FROM, to: TO });
+
+    expect(result).toEqual({ queued: true, pending: 3 });
+    expect(mockPrisma.webhookSubscription.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { status: 'REPLAYING', replayStartedAt: expect.any(Date) } }),
+    );
+    expect(enqueueWebhookReplay).toHaveBeenCalledWith({
+      organizationId: ORG_ID,
+      subscriptionId: SUB_ID,
+      from: FROM.toISOString(),
+      to: TO.toISOString(),
+    });
+
+    mockPrisma.webhookSubscription.updateMany.mockResolvedValue({ count: 0 });
+    await expect(startReplay(ORG_ID, SUB_ID, { from: FROM, to: TO })).rejects.toThrow(
+      'A replay is already running for this subscription',
+    );
+  });
+
+  it('should replay oldest first and stop at the first failed delivery', async () => {
+    const claimedAt = new Date();
+    mockPrisma.webhookSubscription.findUnique.mockResolvedValue(
+      subscription({ status: 'REPLAYING', replayStartedAt: claimedAt }),
+    );
+    mockPrisma.webhookSubscription.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.webhookDeadLetter.findFirst
+      .mockResolvedValueOnce(deadLetter('dl-1', '2026-03-01T01:00:00Z'))
+      .mockResolvedValueOnce(deadLetter('dl-2', '2026-03-01T02:00:00Z'));
+    (deliverToSubscription as jest.Mock)
+      .mockResolvedValueOnce({ success: true, statusCode: 200 })
+      .mockResolvedValueOnce({ success: false, statusCode: 503 });
+    mockPrisma.webhookDeadLetter.count.mockResolvedValue(2);
+
+    const result = await runReplay({
+      organizationId: ORG_ID,
+      subscriptionId: SUB_ID,
+      from: FROM.toISOString(),
+      to: TO.toISOString(),
+    });
+
+    expect(result).toEqual({ delivered: 1, failed: 1, remaining: 2, error: 'HTTP 503' });
+    expect(mockPrisma.webhookDeadLetter.findFirst).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.webhookDeadLetter.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ orderBy: [{ eventAt: 'asc' }, { createdAt: 'asc' }] }),
+    );
+    expect(mockPrisma.webhookDeadLetter.update).toHaveBeenNthCalledWith(1, {
+      where: { id: 'dl-1' },
+      data: expect.objectContaining({ status: 'REDELIVERED' }),
+    });
+    expect(mockPrisma.webhookDeadLetter.update).toHaveBeenNthCalledWith(2, {
+      where: { id: 'dl-2' },
+      data: expect.objectContaining({ statusCode: 503, error: 'HTTP 503' }),
+    });
+    expect(mockPrisma.webhookSubscription.updateMany).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.webhookSubscription.updateMany).toHaveBeenCalledWith({
+      where: { id: SUB_ID, status: 'REPLAYING', replayStartedAt: claimedAt },
+      data: { status: 'FAILING', replayStartedAt: null },
+    });
+  });
+
+  it('should re-claim and send events deferred just before the claim was released', async () => {
+    mockPrisma.webhookSubscription.findUnique.mockResolvedValue(
+      subscription({ status: 'REPLAYING', replayStartedAt: new Date() }),
+    );
+    mockPrisma.webhookSubscription.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.webhookDeadLetter.findFirst
+      .mockResolvedValueOnce(deadLetter('dl-1', '2026-03-01T01:00:00Z'))
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(deadLetter('dl-late', '2026-03-03T00:00:00Z', { reason: 'REPLAY_DEFERRED' }))
+      .mockResolvedValueOnce(null);
+    // Late arrival found after the first release; nothing left after the second
+    mockPrisma.webhookDeadLetter.count.mockResolvedValueOnce(1).mockResolvedValueOnce(0).mockResolvedValueOnce(0);
+    (deliverToSubscription as jest.Mock).mockResolvedValue({ success: true, statusCode: 200 });
+
+    const result = await runReplay({
+      organizationId: ORG_ID,
+      subscriptionId: SUB_ID,
+      from: FROM.toISOString(),
+      to: TO.toISOString(),
+    });
+
+    expect(result).toEqual({ delivered: 2, failed: 0, remaining: 0 });
+    expect(mockPrisma.webhookSubscription.updateMany).toHaveBeenCalledWith({
+      where: { id: SUB_ID, status: { not: 'REPLAYING' } },
+      data: { status: 'REPLAYING', replayStartedAt: expect.any(Date) },
+    });
+    expect(mockPrisma.webhookSubscription.updateMany).toHaveBeenLastCalledWith({
+      where: { id: SUB_ID, status: 'REPLAYING', replayStartedAt: expect.any(Date) },
+      data: { status: 'HEALTHY', replayStartedAt: null },
+    });
+  });
+
+  it('should dead-letter live events while a replay is running', async () => {
+    const payload = { event: 'deal.closed', data: { id: 'deal-1' } };
+    mockPrisma.webhookSubscription.findUnique.mockResolvedValue({ status: 'HEALTHY', replayStartedAt: null });
+
+    expect(
+      await deferIfReplaying({ subscriptionId: SUB_ID, event: 'deal.closed', payload, eventAt: TO }),
+    ).toBe(false);
+    expect(mockPrisma.webhookDeadLetter.create).not.toHaveBeenCalled();
+
+    mockPrisma.webhookSubscription.findUnique.mockResolvedValue({ status: 'REPLAYING', replayStartedAt: new Date() });
+
+    expect(
+      await deferIfReplaying({ subscriptionId: SUB_ID, event: 'deal.closed', payload, eventAt: TO, jobId: '42' }),
+    ).toBe(true);
+    expect(mockPrisma.webhookDeadLetter.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ reason: 'REPLAY_DEFERRED', eventAt: TO, jobId: '42' }),
+    });
+  });
+
+  it('should resume live delivery once the replay has finished, even with dead letters pending', async () => {
+    const payload = { event: 'deal.closed', data: { id: 'deal-2' } };
+    mockPrisma.webhookDeadLetter.findFirst.mockResolvedValue({ id: 'dl-1' });
+
+    // Replay stopped at a failure and released its claim
+    mockPrisma.webhookSubscription.findUnique.mockResolvedValue({ status: 'FAILING', replayStartedAt: null });
+    expect(
+      await deferIfReplaying({ subscriptionId: SUB_ID, event: 'deal.closed', payload, eventAt: TO }),
+    ).toBe(false);
+
+    // Claim abandoned by a crashed worker
+    mockPrisma.webhookSubscription.findUnique.mockResolvedValue({
+      status: 'REPLAYING',
+      replayStartedAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+    });
+    expect(
+      await deferIfReplaying({ subscriptionId: SUB_ID, event: 'deal.closed', payload, eventAt: TO }),
+    ).toBe(false);
+
+    expect(mockPrisma.webhookDeadLetter.create).not.toHaveBeenCalled();
+  });
+
+  it('should mark a redelivered dead letter and clear the failing status', async () => {
+    mockPrisma.webhookDeadLetter.findFirst.mockResolvedValue(deadLetter('dl-1', '2026-03-01T01:00:00Z'));
+    (deliverToSubscription as jest.Mock).mockResolvedValue({ success: true, statusCode: 204 });
+
+    const result = await redeliverDeadLetter(ORG_ID, SUB_ID, 'dl-1');
+
+    expect(result).toEqual({ success: true, statusCode: 204 });
+    expect(markSubscriptionHealthy).toHaveBeenCalledWith(SUB_ID);
+    expect(mockPrisma.webhookDeadLetter.update).toHaveBeenCalledWith({
+      where: { id: 'dl-1' },
+      data: { status: 'REDELIVERED', redeliveredAt: expect.any(Date), attempts: { increment: 1 } },
+    });
+
+    mockPrisma.webhookDeadLetter.findFirst.mockResolvedValue(
+      deadLetter('dl-1', '2026-03-01T01:00:00Z', { status: 'REDELIVERED' }),
+    );
+    await expect(redeliverDeadLetter(ORG_ID, SUB_ID, 'dl-1')).rejects.toThrow('already been redelivered');
+  });
+});
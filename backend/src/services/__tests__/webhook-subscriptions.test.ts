@@ -39,6 +39,10 @@ import {
   fireEvent,
   deliverToSubscription,
   getTestPayload,
+  evaluateFilters,
+  getTierDirection,
+  rotateSubscriptionSecret,
+  updateSubscription,
   WEBHOOK_EVENT_TYPES,
 } from '../webhook-subscriptions';
 
@@ -64,6 +68,11 @@ function makeSubscription(overrides: Record<string, unknown> = {}) {
   };
 }
 
+/** Subscription as the service returns it (no client key or old secret). */
+function asPublic(sub: Record<string, unknown>) {
+  return { ...sub, hasClientCertificate: false, previousSecretActive: false };
+}
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -77,8 +86,8 @@ describe('Webhook Subscriptions', () => {
   // WEBHOOK_EVENT_TYPES
   // ================================================================
   describe('WEBHOOK_EVENT_TYPES', () => {
-    it('should include all 8 supported event types', () => {
-      expect(WEBHOOK_EVENT_TYPES).toHaveLength(8);
+    it('should include all 19 supported event types', () => {
+      expect(WEBHOOK_EVENT_TYPES).toHaveLength(19);
       expect(WEBHOOK_EVENT_TYPES).toContain('signal.created');
       expect(WEBHOOK_EVENT_TYPES).toContain('contact.created');
       expect(WEBHOOK_EVENT_TYPES).toContain('contact.updated');
@@ -87,6 +96,58 @@ describe('Webhook Subscriptions', () => {
       expect(WEBHOOK_EVENT_TYPES).toContain('deal.stage_changed');
       expect(WEBHOOK_EVENT_TYPES).toContain('score.changed');
       expect(WEBHOOK_EVENT_TYPES).toContain('tier.changed');
+      expect(WEBHOOK_EVENT_TYPES).toContain('contact.score_changed');
+      expect(WEBHOOK_EVENT_TYPES).toContain('contact.merged');
+      expect(WEBHOOK_EVENT_TYPES).toContain('company.updated');
+      expect(WEBHOOK_EVENT_TYPES).toContain('company.merged');
+      expect(WEBHOOK_EVENT_TYPES).toContain('deal.updated');
+      expect(WEBHOOK_EVENT_TYPES).toContain('deal.closed');
+      expect(WEBHOOK_EVENT_TYPES).toContain('note.created');
+      expect(WEBHOOK_EVENT_TYPES).toContain('anomaly.detected');
+      expect(WEBHOOK_EVENT_TYPES).toContain('alert.triggered');
+      expect(WEBHOOK_EVENT_TYPES).toContain('workflow.run_failed');
+      expect(WEBHOOK_EVENT_TYPES).toContain('enrichment.completed');
+    });
+  });
+
+  // ================================================================
+  // evaluateFilters
+  // ================================================================
+  describe('evaluateFilters', () => {
+    it('should match tier changes by direction', () => {
+      const upgrade = getTestPayload('tier.changed');
+      const downgrade = { ...upgrade, oldTier: 'HOT', newTier: 'COLD' };
+
+      expect(getTierDirection('WARM', 'HOT')).toBe('up');
+      expect(getTierDirection('HOT', 'HOT')).toBeNull();
+      expect(evaluateFilters({ tierDirection: 'up' }, upgrade)).toBe(true);
+      expect(evaluateFilters({ tierDirection: 'up' }, downgrade)).toBe(false);
+      expect(evaluateFilters({ tierDirection: 'down' }, downgrade)).toBe(true);
+      expect(evaluateFilters({ tierDirection: 'down' }, { oldTier: 'WARM', newTier: 'WARM' })).toBe(false);
+    });
+
+    it('should apply event-specific filters to the new event payloads', () => {
+      expect(evaluateFilters({ stages: ['CLOSED_WON'] }, getTestPayload('deal.closed'))).toBe(true);
+      expect(evaluateFilters({ stages: ['CLOSED_LOST'] }, getTestPayload('deal.closed'))).toBe(false);
+      expect(evaluateFilters({ severities: ['high'] }, getTestPayload('anomaly.detected'))).toBe(true);
+      expect(evaluateFilters({ severities: ['moderate'] }, getTestPayload('anomaly.detected'))).toBe(false);
+      expect(evaluateFilters({ triggerTypes: ['score_threshold'] }, getTestPayload('alert.triggered'))).toBe(true);
+      expect(evaluateFilters({ entityTypes: ['contact'] }, getTestPayload('enrichment.completed'))).toBe(false);
+      expect(evaluateFilters({ entityTypes: ['company'] }, getTestPayload('note.created'))).toBe(true);
+      expect(evaluateFilters({ workflowIds: ['workflow_test_505'] }, getTestPayload('workflow.run_failed'))).toBe(true);
+      expect(evaluateFilters({ workflowIds: ['other'] }, getTestPayload('workflow.run_failed'))).toBe(false);
+    });
+
+    it('should match account filters on deal, contact and company payloads', () => {
+      const filters = { accountIds: ['company_test_789'] };
+
+      expect(evaluateFilters(filters, getTestPayload('deal.updated'), 'deal.updated')).toBe(true);
+      expect(evaluateFilters(filters, getTestPayload('contact.merged'), 'contact.merged')).toBe(true);
+      expect(evaluateFilters(filters, getTestPayload('company.updated'), 'company.updated')).toBe(true);
+      expect(evaluateFilters({ accountIds: ['other'] }, getTestPayload('company.updated'), 'company.updated')).toBe(false);
+      expect(evaluateFilters(filters, getTestPayload('company.merged'), 'company.merged')).toBe(true);
+      // A bare id is only treated as the account on company events
+      expect(evaluateFilters(filters, { id: 'company_test_789' }, 'note.created')).toBe(false);
     });
   });
 
@@ -103,7 +164,7 @@ describe('Webhook Subscriptions', () => {
         event: 'signal.created',
       });
 
-      expect(result).toEqual(sub);
+      expect(result).toEqual(asPublic(sub));
       expect(mockWebhookSubscription.create).toHaveBeenCalledWith({
         data: expect.objectContaining({
           organization: { connect: { id: ORG_ID } },
@@ -113,9 +174,9 @@ describe('Webhook Subscriptions', () => {
         }),
       });
 
-      // Verify the secret is a 64-char hex string (32 bytes)
+      // Verify the secret is a Standard Webhooks secret (whsec_ + base64 of 32 bytes)
       const createCall = mockWebhookSubscription.create.mock.calls[0][0];
-      expect(createCall.data.secret).toMatch(/^[a-f0-9]{64}$/);
+      expect(createCall.data.secret).toMatch(/^whsec_[A-Za-z0-9+/]{43}=$/);
     });
 
     it('should accept all valid event types', async () => {
@@ -226,7 +287,7 @@ describe('Webhook Subscriptions', () => {
 
       const result = await listSubscriptions(ORG_ID);
 
-      expect(result).toEqual(subs);
+      expect(result).toEqual(subs.map(asPublic));
       expect(mockWebhookSubscription.findMany).toHaveBeenCalledWith({
         where: { organizationId: ORG_ID },
         orderBy: { createdAt: 'desc' },
@@ -252,7 +313,7 @@ describe('Webhook Subscriptions', () => {
 
       const result = await getSubscription(ORG_ID, SUB_ID);
 
-      expect(result).toEqual(sub);
+      expect(result).toEqual(asPublic(sub));
       expect(mockWebhookSubscription.findFirst).toHaveBeenCalledWith({
         where: { id: SUB_ID, organizationId: ORG_ID },
       });
@@ -308,6 +369,52 @@ describe('Webhook Subscriptions', () => {
     });
   });
 
+  // ================================================================
+  // rotateSubscriptionSecret
+  // ================================================================
+  describe('rotateSubscriptionSecret', () => {
+    it('should keep the old secret signing for the grace period', async () => {
+      const sub = makeSubscription({ secret: 'whsec_old' });
+      mockWebhookSubscription.findFirst.mockResolvedValue(sub);
+      mockWebhookSubscription.update.mockImplementation(({ data }) => Promise.resolve({ ...sub, ...data }));
+
+      const result = await rotateSubscriptionSecret(ORG_ID, SUB_ID, 48);
+
+      const { data } = mockWebhookSubscription.update.mock.calls[0][0];
+      expect(data.secret).toMatch(/^whsec_/);
+      expect(data.secret).not.toBe('whsec_old');
+      expect(data.previousSecret).toBe('whsec_old');
+      expect(data.previousSecretExpiresAt.getTime()).toBeGreaterThan(Date.now() + 47 * 60 * 60 * 1000);
+      expect(result.previousSecretActive).toBe(true);
+      expect(result).not.toHaveProperty('previousSecret');
+    });
+
+    it('should retire the old secret at once with a grace of 0', async () => {
+      mockWebhookSubscription.findFirst.mockResolvedValue(makeSubscription());
+      mockWebhookSubscription.update.mockResolvedValue(makeSubscription());
+
+      await rotateSubscriptionSecret(ORG_ID, SUB_ID, 0);
+
+      expect(mockWebhookSubscription.update).toHaveBeenCalledWith({
+        where: { id: SUB_ID },
+        data: { secret: expect.stringMatching(/^whsec_/), previousSecret: null, previousSecretExpiresAt: null },
+      });
+      await expect(rotateSubscriptionSecret(ORG_ID, SUB_ID, 500)).rejects.toThrow('graceHours must be between 0 and 168');
+    });
+
+    it('should require the client certificate and key together', async () => {
+      mockWebhookSubscription.findFirst.mockResolvedValue(makeSubscription());
+
+      await expect(
+        updateSubscription(ORG_ID, SUB_ID, { clientCert: '-----BEGIN CERTIFICATE-----' }),
+      ).rejects.toThrow('clientCert and clientKey must be set together');
+      await expect(
+        updateSubscription(ORG_ID, SUB_ID, { clientCert: 'not a cert', clientKey: 'not a key' }),
+      ).rejects.toThrow('Client certificate must be a PEM-encoded X.509 certificate');
+      expect(mockWebhookSubscription.update).not.toHaveBeenCalled();
+    });
+  });
+
   // ================================================================
   // fireEvent
   // ================================================================
@@ -345,9 +452,27 @@ describe('Webhook Subscriptions', () => {
           }),
           subscriptionId: 'sub-1',
           targetUrl: 'https://hooks.a.com',
-          secret: 'a'.repeat(64),
         }),
       );
+      // Secrets are read at delivery time and never stored in the queue
+      expect(mockQueueAdd.mock.calls[0][1]).not.toHaveProperty('secret');
+    });
+
+    it('should send the transformed payload when a transform is set', async () => {
+      mockWebhookSubscription.findMany.mockResolvedValue([
+        makeSubscription({
+          transform: '{ "kind": event, "signal": data.type, "repo": $uppercase(data.repo) }',
+          payloadTemplate: { ignored: '{{type}}' },
+        }),
+      ]);
+
+      await fireEvent(ORG_ID, 'signal.created', { id: 'sig-123', type: 'repo_clone', repo: 'acme/sdk' });
+
+      expect(mockQueueAdd.mock.calls[0][1].payload).toEqual({
+        kind: 'signal.created',
+        signal: 'repo_clone',
+        repo: 'ACME/SDK',
+      });
     });
 
     it('should not enqueue anything when no active subscribers exist', async () => {
@@ -483,6 +608,31 @@ describe('Webhook Subscriptions', () => {
 
       expect(fetchCall.headers['X-Sigscore-Signature']).toBe(`sha256=${expectedSig}`);
     });
+
+    it('should send Standard Webhooks headers signed with every active secret', async () => {
+      const crypto = await import('crypto');
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+
+      const current = `whsec_${Buffer.from('current-key').toString('base64')}`;
+      const previous = `whsec_${Buffer.from('previous-key').toString('base64')}`;
+
+      await deliverToSubscription(
+        'https://hooks.example.com/webhook',
+        { secret: current, previousSecret: previous },
+        'signal.created',
+        { id: 'sig-1' },
+        'msg_42',
+      );
+
+      const { headers, body } = mockFetch.mock.calls[0][1];
+      const timestamp = headers['webhook-timestamp'];
+      const sign = (key: string) =>
+        `v1,${crypto.createHmac('sha256', key).update(`msg_42.${timestamp}.${body}`).digest('base64')}`;
+
+      expect(headers['webhook-id']).toBe('msg_42');
+      expect(Math.abs(Number(timestamp) - Date.now() / 1000)).toBeLessThan(5);
+      expect(headers['webhook-signature']).toBe(`${sign('current-key')} ${sign('previous-key')}`);
+    });
   });
 
   // ================================================================
@@ -494,6 +644,7 @@ describe('Webhook Subscriptions', () => {
         const payload = getTestPayload(eventType);
         expect(payload).toBeDefined();
         expect(typeof payload).toBe('object');
+        expect(payload).not.toHaveProperty('message', 'Test event');
       }
     });
 
@@ -0,0 +1,646 @@
+import '../../__tests__/setup';
+
+// ---------------------------------------------------------------------------
+// Mocks - must be declared before imports
+// ---------------------------------------------------------------------------
+
+const mockPrisma = {
+  workflow: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn().mockResolvedValue({}),
+  },
+  workflowRun: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    update: jest.fn().mockResolvedValue({}),
+    updateMany: jest.fn(),
+  },
+  accountScore: {
+    findFirst: jest.fn(),
+  },
+  deal: {
+    findFirst: jest.fn(),
+    update: jest.fn().mockResolvedValue({}),
+  },
+  contact: {
+    findFirst: jest.fn(),
+  },
+  company: {
+    findFirst: jest.fn(),
+  },
+  userOrganization: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+  },
+  organization: {
+    findUnique: jest.fn(),
+    update: jest.fn().mockResolvedValue({}),
+  },
+  emailSequence: {
+    findFirst: jest.fn(),
+  },
+  signal: {
+    findMany: jest.fn(),
+  },
+  scoreSnapshot: {
+    findMany: jest.fn(),
+  },
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: mockPrisma,
+}));
+
+const mockEnqueueWorkflowResume = jest.fn().mockResolvedValue(undefined);
+
+jest.mock('../../jobs/producers', () => ({
+  enqueueWorkflowResume: mockEnqueueWorkflowResume,
+}));
+
+jest.mock('../notifications', () => ({
+  notifyOrgUsers: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../slack-notifications', () => ({
+  getSlackWebhookUrl: jest.fn().mockResolvedValue(null),
+}));
+
+const mockFireWorkflowRunFailed = jest.fn().mockResolvedValue(undefined);
+
+jest.mock('../webhook-events', () => ({
+  fireWorkflowRunFailed: mockFireWorkflowRunFailed,
+}));
+
+const mockEnrollContact = jest.fn();
+
+jest.mock('../email-sequences', () => ({
+  enrollContact: mockEnrollContact,
+}));
+
+const mockCreateActivity = jest.fn();
+
+jest.mock('../activities', () => ({
+  createActivity: mockCreateActivity,
+}));
+
+import { AppError } from '../../utils/errors';
+import {
+  buildLinearSteps,
+  evaluateConditions,
+  executeAction,
+  processEvent,
+  resumeWorkflowRun,
+  retryWorkflowRun,
+  simulateWorkflow,
+  updateWorkflow,
+  validateWorkflowSteps,
+  WorkflowStep,
+} from '../workflows';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const ORG_ID = 'org-test-123';
+
+const GRAPH: WorkflowStep[] = [
+  { id: 'wait', type: 'wait', duration: { amount: 3, unit: 'days' }, next: 'check' },
+  {
+    id: 'check',
+    type: 'branch',
+    conditions: [{ field: 'account.tier', operator: 'eq', value: 'HOT' }],
+    onTrue: 'hot',
+    onFalse: 'cold',
+  },
+  { id: 'hot', type: 'action', action: { type: 'log', params: { path: 'hot' } }, next: null },
+  { id: 'cold', type: 'action', action: { type: 'log', params: { path: 'cold' } }, next: null },
+];
+
+function makeWorkflow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'wf-1',
+    organizationId: ORG_ID,
+    name: 'Nurture hot accounts',
+    trigger: { event: 'score_changed' },
+    conditions: [],
+    actions: [{ type: 'log', params: {} }],
+    steps: null,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Workflow graph engine', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.workflowRun.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'run-1', ...data }),
+    );
+  });
+
+  describe('buildLinearSteps', () => {
+    it('should chain actions in order', () => {
+      const steps = buildLinearSteps([
+        { type: 'log', params: {} },
+        { type: 'add_tag', params: { tag: 'hot' } },
+      ]);
+
+      expect(steps).toEqual([
+        { id: 'step_1', type: 'action', action: { type: 'log', params: {} }, next: 'step_2' },
+        { id: 'step_2', type: 'action', action: { type: 'add_tag', params: { tag: 'hot' } }, next: null },
+      ]);
+    });
+  });
+
+  describe('validateWorkflowSteps', () => {
+    it('should accept a well-formed graph', () => {
+      expect(() => validateWorkflowSteps(GRAPH)).not.toThrow();
+    });
+
+    it('should reject edges to unknown steps', () => {
+      expect(() =>
+        validateWorkflowSteps([{ id: 'a', type: 'goto', target: 'missing' }]),
+      ).toThrow('points to unknown step');
+    });
+
+    it('should reject duplicate step ids', () => {
+      expect(() =>
+        validateWorkflowSteps([
+          { id: 'a', type: 'action', action: { type: 'log', params: {} } },
+          { id: 'a', type: 'action', action: { type: 'log', params: {} } },
+        ]),
+      ).toThrow('Duplicate workflow step id');
+    });
+  });
+
+  describe('evaluateConditions', () => {
+    it('should resolve dotted fields into nested objects', () => {
+      expect(
+        evaluateConditions(
+          [{ field: 'account.tier', operator: 'eq', value: 'HOT' }],
+          { account: { tier: 'HOT' } },
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe('processEvent', () => {
+    it('should run a linear workflow to completion', async () => {
+      mockPrisma.workflow.findMany.mockResolvedValue([makeWorkflow()]);
+
+      await processEvent(ORG_ID, 'score_changed', { accountId: 'acc-1' });
+
+      expect(mockPrisma.workflowRun.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          status: 'SUCCESS',
+          results: [{ stepId: 'step_1', type: 'log', logged: true }],
+        }),
+      });
+      expect(mockEnqueueWorkflowResume).not.toHaveBeenCalled();
+    });
+
+    it('should pause at a wait step and schedule a resume', async () => {
+      mockPrisma.workflow.findMany.mockResolvedValue([makeWorkflow({ steps: GRAPH })]);
+
+      await processEvent(ORG_ID, 'score_changed', { accountId: 'acc-1' });
+
+      expect(mockPrisma.workflowRun.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          status: 'WAITING',
+          currentStepId: 'check',
+          context: { accountId: 'acc-1' },
+        }),
+      });
+      expect(mockEnqueueWorkflowResume).toHaveBeenCalledWith(ORG_ID, 'run-1', expect.any(Date));
+    });
+
+    it('should fail runs that loop through goto steps forever', async () => {
+      mockPrisma.workflow.findMany.mockResolvedValue([
+        makeWorkflow({
+          steps: [
+            { id: 'a', type: 'goto', target: 'b' },
+            { id: 'b', type: 'goto', target: 'a' },
+          ],
+        }),
+      ]);
+
+      await processEvent(ORG_ID, 'score_changed', {});
+
+      expect(mockPrisma.workflowRun.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          status: 'FAILED',
+          error: expect.stringContaining('possible goto loop'),
+        }),
+      });
+      expect(mockFireWorkflowRunFailed).toHaveBeenCalledWith(ORG_ID, {
+        workflowId: 'wf-1',
+        workflowName: 'Nurture hot accounts',
+        runId: 'run-1',
+        failedStepId: null,
+        error: expect.stringContaining('possible goto loop'),
+      });
+    });
+  });
+
+  describe('resumeWorkflowRun', () => {
+    function makeWaitingRun(workflowOverrides: Record<string, unknown> = {}) {
+      return {
+        id: 'run-1',
+        status: 'WAITING',
+        currentStepId: 'check',
+        context: { accountId: 'acc-1' },
+        triggerData: { accountId: 'acc-1' },
+        results: [{ stepId: 'wait', type: 'wait' }],
+        duration: 5,
+        workflow: makeWorkflow({ steps: GRAPH, ...workflowOverrides }),
+      };
+    }
+
+    beforeEach(() => {
+      mockPrisma.workflowRun.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('should take the true branch using the live account tier', async () => {
+      mockPrisma.workflowRun.findFirst.mockResolvedValue(makeWaitingRun());
+      mockPrisma.accountScore.findFirst.mockResolvedValue({ score: 90, tier: 'HOT' });
+
+      await resumeWorkflowRun(ORG_ID, 'run-1');
+
+      const { data } = mockPrisma.workflowRun.update.mock.calls[0][0];
+      expect(data.status).toBe('SUCCESS');
+      expect(data.results).toEqual([
+        { stepId: 'wait', type: 'wait' },
+        { stepId: 'check', type: 'branch', matched: true },
+        { stepId: 'hot', type: 'log', logged: true },
+      ]);
+      expect(data.currentStepId).toBeNull();
+    });
+
+    it('should take the false branch when the account cooled down', async () => {
+      mockPrisma.workflowRun.findFirst.mockResolvedValue(makeWaitingRun());
+      mockPrisma.accountScore.findFirst.mockResolvedValue({ score: 20, tier: 'COLD' });
+
+      await resumeWorkflowRun(ORG_ID, 'run-1');
+
+      const { data } = mockPrisma.workflowRun.update.mock.calls[0][0];
+      expect(data.results[2]).toEqual({ stepId: 'cold', type: 'log', logged: true });
+    });
+
+    it('should cancel the run when the workflow was disabled', async () => {
+      mockPrisma.workflowRun.findFirst.mockResolvedValue(makeWaitingRun({ enabled: false }));
+
+      await resumeWorkflowRun(ORG_ID, 'run-1');
+
+      expect(mockPrisma.workflowRun.updateMany).toHaveBeenCalledWith({
+        where: { id: 'run-1', status: 'WAITING' },
+        data: expect.objectContaining({ status: 'CANCELLED' }),
+      });
+      expect(mockPrisma.workflowRun.update).not.toHaveBeenCalled();
+    });
+
+    it('should not repeat steps when a duplicate resume job claimed the run first', async () => {
+      mockPrisma.workflowRun.findFirst.mockResolvedValue(makeWaitingRun());
+      mockPrisma.workflowRun.updateMany.mockResolvedValue({ count: 0 });
+
+      await resumeWorkflowRun(ORG_ID, 'run-1');
+
+      expect(mockPrisma.workflowRun.updateMany).toHaveBeenCalledWith({
+        where: { id: 'run-1', status: 'WAITING' },
+        data: { status: 'RUNNING' },
+      });
+      expect(mockPrisma.accountScore.findFirst).not.toHaveBeenCalled();
+      expect(mockPrisma.workflowRun.update).not.toHaveBeenCalled();
+    });
+
+    it('should ignore runs that are no longer waiting', async () => {
+      mockPrisma.workflowRun.findFirst.mockResolvedValue({ ...makeWaitingRun(), status: 'SUCCESS' });
+
+      await resumeWorkflowRun(ORG_ID, 'run-1');
+
+      expect(mockPrisma.workflowRun.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retryWorkflowRun', () => {
+    function makeFailedRun(overrides: Record<string, unknown> = {}) {
+      return {
+        id: 'run-1',
+        status: 'FAILED',
+        currentStepId: 'step_2',
+        context: { accountId: 'acc-1' },
+        triggerData: { accountId: 'acc-1' },
+        results: [{ stepId: 'step_1', type: 'log', logged: true }],
+        error: 'Slack webhook returned 500',
+        duration: 12,
+        workflow: makeWorkflow({
+          actions: [
+            { type: 'log', params: { n: 1 } },
+            { type: 'log', params: { n: 2 } },
+          ],
+        }),
+        ...overrides,
+      };
+    }
+
+    beforeEach(() => {
+      mockPrisma.workflowRun.update.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'run-1', ...data }),
+      );
+      mockPrisma.workflowRun.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('should continue from the failing step and append results', async () => {
+      mockPrisma.workflowRun.findFirst.mockResolvedValue(makeFailedRun());
+
+      const run = await retryWorkflowRun('wf-1', 'run-1', ORG_ID);
+
+      expect(mockPrisma.workflowRun.updateMany).toHaveBeenCalledWith({
+        where: { id: 'run-1', status: 'FAILED' },
+        data: { status: 'RUNNING' },
+      });
+
+      expect(run.status).toBe('SUCCESS');
+      expect(run.error).toBeNull();
+      expect(run.results).toEqual([
+        { stepId: 'step_1', type: 'log', logged: true },
+        { stepId: 'step_2', type: 'log', logged: true },
+      ]);
+    });
+
+    it('should derive the failing step for legacy linear runs', async () => {
+      mockPrisma.workflowRun.findFirst.mockResolvedValue(makeFailedRun({ currentStepId: null }));
+
+      const run = await retryWorkflowRun('wf-1', 'run-1', ORG_ID);
+
+      expect(run.results).toHaveLength(2);
+      expect((run.results as Record<string, unknown>[])[1].stepId).toBe('step_2');
+    });
+
+    it('should reject runs that did not fail', async () => {
+      mockPrisma.workflowRun.findFirst.mockResolvedValue(makeFailedRun({ status: 'SUCCESS' }));
+
+      await expect(retryWorkflowRun('wf-1', 'run-1', ORG_ID)).rejects.toThrow(
+        'Only failed runs can be retried',
+      );
+      expect(mockPrisma.workflowRun.update).not.toHaveBeenCalled();
+    });
+
+    it('should not replay actions when a concurrent retry claimed the run first', async () => {
+      mockPrisma.workflowRun.findFirst.mockResolvedValue(makeFailedRun());
+      mockPrisma.workflowRun.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(retryWorkflowRun('wf-1', 'run-1', ORG_ID)).rejects.toMatchObject({
+        message: 'Run is already being retried',
+        statusCode: 409,
+      });
+      expect(mockPrisma.workflowRun.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateWorkflow', () => {
+    const ACTIONS = [{ type: 'log' as const, params: { n: 2 } }];
+
+    it('should reject actions for a workflow that runs a step graph', async () => {
+      mockPrisma.workflow.findFirst.mockResolvedValue(makeWorkflow({ steps: GRAPH }));
+
+      await expect(updateWorkflow('wf-1', ORG_ID, { actions: ACTIONS })).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(mockPrisma.workflow.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject actions sent alongside a step graph', async () => {
+      mockPrisma.workflow.findFirst.mockResolvedValue(makeWorkflow());
+
+      await expect(
+        updateWorkflow('wf-1', ORG_ID, { actions: ACTIONS, steps: GRAPH }),
+      ).rejects.toThrow(AppError);
+      expect(mockPrisma.workflow.update).not.toHaveBeenCalled();
+    });
+
+    it('should accept actions when the same update clears the graph', async () => {
+      mockPrisma.workflow.findFirst.mockResolvedValue(makeWorkflow({ steps: GRAPH }));
+
+      await updateWorkflow('wf-1', ORG_ID, { actions: ACTIONS, steps: null });
+
+      expect(mockPrisma.workflow.update).toHaveBeenCalledWith({
+        where: { id: 'wf-1' },
+        data: expect.objectContaining({ actions: ACTIONS, steps: expect.anything() }),
+      });
+    });
+
+    it('should accept actions for a linear workflow', async () => {
+      mockPrisma.workflow.findFirst.mockResolvedValue(makeWorkflow());
+
+      await updateWorkflow('wf-1', ORG_ID, { actions: ACTIONS });
+
+      expect(mockPrisma.workflow.update).toHaveBeenCalledWith({
+        where: { id: 'wf-1' },
+        data: { actions: ACTIONS },
+      });
+    });
+  });
+
+  describe('simulateWorkflow', () => {
+    it('should replay historical signals without executing actions', async () => {
+      mockPrisma.workflow.findFirst.mockResolvedValue(
+        makeWorkflow({
+          trigger: { event: 'signal_received', filters: { type: 'pricing_page_visit' } },
+          conditions: [{ field: 'metadata.plan', operator: 'eq', value: 'enterprise' }],
+          actions: [{ type: 'create_note', params: { content: 'Visit from {{accountId}}' } }],
+        }),
+      );
+      mockPrisma.signal.findMany.mockResolvedValue([
+        {
+          id: 'sig-1',
+          type: 'pricing_page_visit',
+          accountId: 'acc-1',
+          actorId: null,
+          metadata: { plan: 'enterprise' },
+          timestamp: new Date(),
+        },
+        {
+          id: 'sig-2',
+          type: 'pricing_page_visit',
+          accountId: 'acc-2',
+          actorId: null,
+          metadata: { plan: 'starter' },
+          timestamp: new Date(),
+        },
+        {
+          id: 'sig-3',
+          type: 'signup',
+          accountId: 'acc-3',
+          actorId: null,
+          metadata: {},
+          timestamp: new Date(),
+        },
+      ]);
+
+      const result = await simulateWorkflow('wf-1', ORG_ID, { days: 3 });
+
+      expect(result.summary).toEqual({
+        eventsReplayed: 3,
+        triggerMatched: 2,
+        conditionsMet: 1,
+        actionsWouldFire: { create_note: 1 },
+      });
+      expect(result.events[0].steps).toEqual([
+        { stepId: 'step_1', type: 'create_note', params: { content: 'Visit from acc-1' } },
+      ]);
+      expect(result.events[1].conditions[0]).toEqual(
+        expect.objectContaining({ actual: 'starter', matched: false }),
+      );
+      expect(mockPrisma.workflowRun.create).not.toHaveBeenCalled();
+    });
+
+    it('should page through score snapshots when replaying score changes', async () => {
+      mockPrisma.workflow.findFirst.mockResolvedValue(makeWorkflow({ trigger: { event: 'score_changed' } }));
+      mockPrisma.organization.findUnique.mockResolvedValue({ settings: {} });
+      const capturedAt = (minutesAgo: number) => new Date(Date.now() - minutesAgo * 60 * 1000);
+      const firstPage = Array.from({ length: 1000 }, (_, i) => ({
+        id: `snap-${i}`,
+        companyId: 'acc-1',
+        score: 40,
+        capturedAt: capturedAt(2000 - i),
+        company: { name: 'Acme' },
+      }));
+      mockPrisma.scoreSnapshot.findMany
+        .mockResolvedValueOnce(firstPage)
+        .mockResolvedValueOnce([
+          { id: 'snap-1000', companyId: 'acc-1', score: 85, capturedAt: capturedAt(1), company: { name: 'Acme' } },
+        ]);
+
+      const result = await simulateWorkflow('wf-1', ORG_ID);
+
+      expect(mockPrisma.scoreSnapshot.findMany).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.scoreSnapshot.findMany.mock.calls[0][0]).toMatchObject({ take: 1000 });
+      expect(mockPrisma.scoreSnapshot.findMany.mock.calls[1][0]).toMatchObject({
+        take: 1000,
+        cursor: { id: 'snap-999' },
+        skip: 1,
+      });
+      // The change spans the page boundary
+      expect(result.events.map((e) => e.eventData)).toEqual([
+        expect.objectContaining({ accountId: 'acc-1', oldScore: 40, newScore: 85, oldTier: 'COLD', newTier: 'HOT' }),
+      ]);
+    });
+
+    it('should report unsupported triggers', async () => {
+      mockPrisma.workflow.findFirst.mockResolvedValue(makeWorkflow({ trigger: { event: 'tag_added' } }));
+
+      const result = await simulateWorkflow('wf-1', ORG_ID);
+
+      expect(result.supported).toBe(false);
+      expect(result.events).toEqual([]);
+    });
+  });
+
+  describe('executeAction', () => {
+    it('should rotate owner assignment through org members', async () => {
+      mockPrisma.userOrganization.findMany.mockResolvedValue([
+        { userId: 'user-a' },
+        { userId: 'user-b' },
+      ]);
+      mockPrisma.organization.update.mockResolvedValueOnce({ ownerAssignmentCount: 4 });
+      mockPrisma.deal.findFirst.mockResolvedValue({ id: 'deal-1' });
+
+      const result = await executeAction(
+        { type: 'assign_owner', params: {} },
+        ORG_ID,
+        { dealId: 'deal-1' },
+      );
+
+      expect(result).toEqual({ type: 'assign_owner', entityType: 'deal', entityId: 'deal-1', ownerId: 'user-b' });
+      expect(mockPrisma.deal.update).toHaveBeenCalledWith({
+        where: { id: 'deal-1' },
+        data: { ownerId: 'user-b' },
+      });
+      expect(mockPrisma.organization.update).toHaveBeenCalledWith({
+        where: { id: ORG_ID },
+        data: { ownerAssignmentCount: { increment: 1 } },
+        select: { ownerAssignmentCount: true },
+      });
+    });
+
+    it('should treat an existing sequence enrollment as skipped', async () => {
+      mockPrisma.emailSequence.findFirst.mockResolvedValue({ id: 'seq-1' });
+      mockEnrollContact.mockRejectedValue(new AppError('Contact is already enrolled in this sequence', 409));
+
+      const result = await executeAction(
+        { type: 'enroll_in_sequence', params: { sequenceId: 'seq-1' } },
+        ORG_ID,
+        { actorId: 'contact-1' },
+      );
+
+      expect(result).toEqual({
+        type: 'enroll_in_sequence',
+        sequenceId: 'seq-1',
+        contactId: 'contact-1',
+        status: 'skipped',
+        reason: 'already_enrolled',
+      });
+    });
+
+    it('should reject sequences from another organization', async () => {
+      mockPrisma.emailSequence.findFirst.mockResolvedValue(null);
+
+      await expect(
+        executeAction(
+          { type: 'enroll_in_sequence', params: { sequenceId: 'seq-other' } },
+          ORG_ID,
+          { contactId: 'contact-1' },
+        ),
+      ).rejects.toThrow('not found in organization');
+      expect(mockEnrollContact).not.toHaveBeenCalled();
+    });
+
+    describe('create_task', () => {
+      const CREATE_TASK = { type: 'create_task' as const, params: { title: 'Call them' } };
+
+      beforeEach(() => {
+        mockPrisma.userOrganization.findFirst.mockResolvedValue({ userId: 'user-a' });
+        mockCreateActivity.mockResolvedValue({ id: 'task-1', dueDate: null });
+      });
+
+      it('should link the task to records the organization owns', async () => {
+        mockPrisma.contact.findFirst.mockResolvedValue({ id: 'contact-1' });
+        mockPrisma.company.findFirst.mockResolvedValue({ id: 'acc-1' });
+
+        const result = await executeAction(CREATE_TASK, ORG_ID, { actorId: 'contact-1', accountId: 'acc-1' });
+
+        expect(result).toMatchObject({ type: 'create_task', activityId: 'task-1' });
+        expect(mockPrisma.contact.findFirst).toHaveBeenCalledWith({
+          where: { id: 'contact-1', organizationId: ORG_ID },
+          select: { id: true },
+        });
+        expect(mockCreateActivity).toHaveBeenCalledWith(
+          ORG_ID,
+          'user-a',
+          expect.objectContaining({
+            contact: { connect: { id: 'contact-1' } },
+            company: { connect: { id: 'acc-1' } },
+          }),
+        );
+      });
+
+      it('should fail the step for a record from another organization', async () => {
+        mockPrisma.deal.findFirst.mockResolvedValue(null);
+
+        await expect(
+          executeAction(CREATE_TASK, ORG_ID, { dealId: 'deal-other' }),
+        ).rejects.toThrow('Deal deal-other not found in organization');
+        expect(mockPrisma.deal.findFirst).toHaveBeenCalledWith({
+          where: { id: 'deal-other', organizationId: ORG_ID },
+          select: { id: true },
+        });
+        expect(mockCreateActivity).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
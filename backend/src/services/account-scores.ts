@@ -3,9 +3,15 @@ import { prisma } from '../config/database';
 import { logger } from '../utils/logger';
 import { notifyTierChange, sendAccountAlert } from './slack-notifications';
 import { enqueueWorkflowExecution, enqueueAlertEvaluation } from '../jobs/producers';
-import { getScoringConfig, computeTierWithThresholds, type TierThresholds } from './scoring-rules';
+import {
+  getScoringConfig,
+  computeTierWithThresholds,
+  type ScoringConfig,
+  type TierThresholds,
+} from './scoring-rules';
 import { fireScoreChanged } from './webhook-events';
 import { broadcastScoreChange, broadcastTierChange } from './websocket';
+import { ScoreContribution, TopSignal, TopSignalType, buildScoreBreakdown } from './score-breakdown';
 
 interface ScoreFactor {
   name: string;
@@ -21,6 +27,10 @@ interface ScoreFactor {
 // Shorter half-life means the signal type is transient (page views).
 // Longer half-life means the signal type has durable buying intent (signups).
 // The decay formula is: weight = e^(-lambda * days_old)  where lambda = ln(2) / half_life
+//
+// These are the built-in values. Orgs can override any type (including
+// custom types from CUSTOM_WEBHOOK sources) and the fallback through the
+// `halfLives` / `defaultHalfLife` fields of their scoring config.
 // ---------------------------------------------------------------------------
 
 export const SIGNAL_HALF_LIVES: Record<string, number> = {
@@ -52,17 +62,76 @@ export const SIGNAL_HALF_LIVES: Record<string, number> = {
 
 export const DEFAULT_HALF_LIFE = 14;
 
+/** Org-level half-life overrides, as stored on the scoring config. */
+export type DecaySettings = Pick<ScoringConfig, 'halfLives' | 'defaultHalfLife'>;
+
+export type HalfLifeSource = 'override' | 'built_in' | 'default';
+
+/**
+ * Resolve the half-life for a signal type: org override first, then the
+ * built-in value, then the org's default, then DEFAULT_HALF_LIFE.
+ */
+export function resolveHalfLife(
+  signalType: string,
+  settings?: DecaySettings,
+): { halfLife: number; source: HalfLifeSource } {
+  const override = settings?.halfLives?.[signalType];
+  if (override !== undefined) return { halfLife: override, source: 'override' };
+  if (SIGNAL_HALF_LIVES[signalType] !== undefined) {
+    return { halfLife: SIGNAL_HALF_LIVES[signalType], source: 'built_in' };
+  }
+  return { halfLife: settings?.defaultHalfLife ?? DEFAULT_HALF_LIFE, source: 'default' };
+}
+
 /**
  * Compute the exponential decay weight for a signal based on its type and age.
  * Returns a value in (0, 1] where 1 means "just happened" and values approach
  * 0 for very old signals.
  */
-export function computeDecayWeight(signalType: string, daysOld: number): number {
-  const halfLife = SIGNAL_HALF_LIVES[signalType] || DEFAULT_HALF_LIFE;
+export function computeDecayWeight(signalType: string, daysOld: number, settings?: DecaySettings): number {
+  const { halfLife } = resolveHalfLife(signalType, settings);
   const lambda = Math.LN2 / halfLife;
   return Math.exp(-lambda * Math.max(0, daysOld));
 }
 
+/**
+ * Effective half-lives for an org: every built-in type, every override and
+ * every signal type seen in the decay window, with where its value came from.
+ */
+export async function describeSignalDecay(organizationId: string) {
+  const config = await getScoringConfig(organizationId);
+  const windowStart = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+
+  const observed = await prisma.signal.groupBy({
+    by: ['type'],
+    where: { organizationId, timestamp: { gte: windowStart } },
+    _count: { _all: true },
+  });
+  const observedCounts = new Map(observed.map((o) => [o.type, o._count._all]));
+
+  const types = new Set([
+    ...Object.keys(SIGNAL_HALF_LIVES),
+    ...Object.keys(config.halfLives ?? {}),
+    ...observedCounts.keys(),
+  ]);
+
+  const signalTypes = [...types]
+    .map((type) => ({
+      type,
+      ...resolveHalfLife(type, config),
+      builtInHalfLife: SIGNAL_HALF_LIVES[type] ?? null,
+      signalCount: observedCounts.get(type) ?? 0,
+    }))
+    .sort((a, b) => b.signalCount - a.signalCount || a.type.localeCompare(b.type));
+
+  return {
+    overrides: config.halfLives ?? {},
+    defaultHalfLife: config.defaultHalfLife ?? DEFAULT_HALF_LIFE,
+    builtInDefaultHalfLife: DEFAULT_HALF_LIFE,
+    signalTypes,
+  };
+}
+
 const DEFAULT_THRESHOLDS: TierThresholds = { HOT: 80, WARM: 50, COLD: 20 };
 
 const computeTier = (score: number, thresholds?: TierThresholds): ScoreTier => {
@@ -70,7 +139,7 @@ const computeTier = (score: number, thresholds?: TierThresholds): ScoreTier => {
   return computeTierWithThresholds(score, t);
 };
 
-const computeTrend = (currentScore: number, previousScore: number | null): ScoreTrend => {
+export const computeTrend = (currentScore: number, previousScore: number | null): ScoreTrend => {
   if (previousScore === null) return 'STABLE';
   const delta = currentScore - previousScore;
   if (delta >= 5) return 'RISING';
@@ -79,11 +148,13 @@ const computeTrend = (currentScore: number, previousScore: number | null): Score
 };
 
 export const computeAccountScore = async (organizationId: string, accountId: string) => {
-  // Load org-specific scoring config for tier thresholds
+  // Load org-specific scoring config for tier thresholds and decay half-lives
   let tierThresholds: TierThresholds = DEFAULT_THRESHOLDS;
+  let decaySettings: DecaySettings | undefined;
   try {
     const scoringConfig = await getScoringConfig(organizationId);
     tierThresholds = scoringConfig.tierThresholds;
+    decaySettings = scoringConfig;
   } catch (err) {
     logger.debug('Failed to load custom scoring config, using defaults', { organizationId, err });
   }
@@ -103,7 +174,7 @@ export const computeAccountScore = async (organizationId: string, accountId: str
       // All signals in the 90-day decay window (type + timestamp for weighting)
       prisma.signal.findMany({
         where: { accountId, organizationId, timestamp: { gte: ninetyDaysAgo } },
-        select: { type: true, timestamp: true, actorId: true },
+        select: { id: true, type: true, timestamp: true, actorId: true },
       }),
       // Unique actors (user count) — still scoped to 90 days
       prisma.signal.findMany({
@@ -150,14 +221,34 @@ export const computeAccountScore = async (organizationId: string, accountId: str
   let recentDecayWeightedSignals = 0;  // sum of decay weights for signals in last 7 days
   let totalDecaySum = 0;               // raw sum of decay weights (for avg calculation)
   const signalTypeSet = new Set<string>();
+  const signalTypeStats = new Map<string, TopSignalType>();
+  const weightedSignals: TopSignal[] = [];
 
   for (const signal of signals) {
     const daysOld = (now.getTime() - signal.timestamp.getTime()) / MS_PER_DAY;
-    const decayWeight = computeDecayWeight(signal.type, daysOld);
+    const decayWeight = computeDecayWeight(signal.type, daysOld, decaySettings);
 
     totalDecayWeightedSignals += decayWeight;
     totalDecaySum += decayWeight;
     signalTypeSet.add(signal.type);
+    weightedSignals.push({
+      id: signal.id,
+      type: signal.type,
+      timestamp: signal.timestamp,
+      actorId: signal.actorId,
+      weight: decayWeight,
+    });
+
+    const stats = signalTypeStats.get(signal.type) ?? {
+      type: signal.type,
+      count: 0,
+      weightedCount: 0,
+      lastSeenAt: null,
+    };
+    stats.count++;
+    stats.weightedCount = (stats.weightedCount ?? 0) + decayWeight;
+    if (!stats.lastSeenAt || signal.timestamp > stats.lastSeenAt) stats.lastSeenAt = signal.timestamp;
+    signalTypeStats.set(signal.type, stats);
 
     if (signal.timestamp >= sevenDaysAgo) {
       recentDecayWeightedSignals += decayWeight;
@@ -284,6 +375,21 @@ export const computeAccountScore = async (organizationId: string, accountId: str
   const tier = computeTier(totalScore, tierThresholds);
   const trend = computeTrend(totalScore, existingScore?.score ?? null);
 
+  // Explainable breakdown. Decay shows up in signal freshness: with every
+  // signal brand new it would score its full 10 points.
+  const contributions: ScoreContribution[] = factors.map((f) =>
+    f.name === 'signal_freshness' && signalCount > 0
+      ? { id: f.name, label: f.name, kind: 'factor', points: 10, decay: f.value - 10, description: f.description }
+      : { id: f.name, label: f.name, kind: 'factor', points: f.value, decay: 0, description: f.description },
+  );
+  const breakdown = buildScoreBreakdown(
+    'pqa',
+    totalScore,
+    contributions,
+    [...signalTypeStats.values()],
+    weightedSignals,
+  );
+
   // Upsert the score
   const score = await prisma.accountScore.upsert({
     where: { accountId },
@@ -293,6 +399,7 @@ export const computeAccountScore = async (organizationId: string, accountId: str
       score: totalScore,
       tier,
       factors: factors as unknown as Prisma.InputJsonValue,
+      breakdown: breakdown as unknown as Prisma.InputJsonValue,
       signalCount: totalSignals,
       userCount,
       lastSignalAt: lastSignal?.timestamp || null,
@@ -303,6 +410,7 @@ export const computeAccountScore = async (organizationId: string, accountId: str
       score: totalScore,
       tier,
       factors: factors as unknown as Prisma.InputJsonValue,
+      breakdown: breakdown as unknown as Prisma.InputJsonValue,
       signalCount: totalSignals,
       userCount,
       lastSignalAt: lastSignal?.timestamp || null,
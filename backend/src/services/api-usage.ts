@@ -1,4 +1,10 @@
-import { getOrgRecords } from '../middleware/api-usage';
+import {
+  QUERY_COST_WINDOW_MS,
+  getOrgQueryCosts,
+  getOrgRecords,
+  getQueryCostThisMinute,
+  recordQueryCost,
+} from '../middleware/api-usage';
 import { getPlanForOrg } from './usage';
 import type { PlanName } from './usage';
 
@@ -39,6 +45,14 @@ const RATE_LIMITS_BY_PLAN: Record<PlanName, RateLimitTier[]> = {
   ],
 };
 
+// GraphQL query cost budget per API key (cost points per minute)
+const GRAPHQL_COST_BUDGET_BY_PLAN: Record<PlanName, number> = {
+  free: 10000,
+  pro: 50000,
+  growth: 100000,
+  scale: 500000,
+};
+
 // ---------------------------------------------------------------------------
 // Time helpers
 // ---------------------------------------------------------------------------
@@ -288,3 +302,83 @@ export async function getRateLimitStatus(orgId: string): Promise<RateLimitStatus
 
   return { plan, limits };
 }
+
+export interface QueryCostBudget {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string; // when the current minute's budget window ends
+}
+
+function costBudget(orgId: string, apiKeyId: string, limit: number): QueryCostBudget {
+  const { windowStart, cost: used } = getQueryCostThisMinute(orgId, apiKeyId);
+
+  return {
+    limit,
+    used,
+    remaining: Math.max(limit - used, 0),
+    resetAt: new Date(windowStart + QUERY_COST_WINDOW_MS).toISOString(),
+  };
+}
+
+/**
+ * Charges a GraphQL operation's static cost against the API key's
+ * per-minute budget. Over-budget operations are refused and not charged.
+ */
+export async function chargeQueryCost(
+  orgId: string,
+  apiKeyId: string,
+  cost: number,
+): Promise<{ allowed: boolean; budget: QueryCostBudget }> {
+  const plan = await getPlanForOrg(orgId);
+  const budget = costBudget(orgId, apiKeyId, GRAPHQL_COST_BUDGET_BY_PLAN[plan]);
+
+  if (budget.used + cost > budget.limit) {
+    return { allowed: false, budget };
+  }
+
+  recordQueryCost(orgId, apiKeyId, cost);
+  return { allowed: true, budget: costBudget(orgId, apiKeyId, budget.limit) };
+}
+
+export interface QueryCostSummary {
+  plan: PlanName;
+  limitPerMinute: number;
+  apiKeys: {
+    apiKeyId: string;
+    usedLastMinute: number;
+    usedToday: number;
+    queriesToday: number;
+  }[];
+}
+
+/**
+ * Returns GraphQL query cost consumption per API key for the org.
+ */
+export async function getQueryCostSummary(orgId: string): Promise<QueryCostSummary> {
+  const plan = await getPlanForOrg(orgId);
+  const todayCutoff = startOfDay();
+
+  const keys = new Map<string, QueryCostSummary['apiKeys'][number]>();
+  for (const record of getOrgQueryCosts(orgId)) {
+    if (record.timestamp < todayCutoff) continue;
+    let entry = keys.get(record.apiKeyId);
+    if (!entry) {
+      entry = {
+        apiKeyId: record.apiKeyId,
+        usedLastMinute: getQueryCostThisMinute(orgId, record.apiKeyId).cost,
+        usedToday: 0,
+        queriesToday: 0,
+      };
+      keys.set(record.apiKeyId, entry);
+    }
+    entry.usedToday += record.cost;
+    entry.queriesToday++;
+  }
+
+  return {
+    plan,
+    limitPerMinute: GRAPHQL_COST_BUDGET_BY_PLAN[plan],
+    apiKeys: [...keys.values()].sort((a, b) => b.usedToday - a.usedToday),
+  };
+}
@@ -18,6 +18,7 @@ import { prisma } from '../config/database';
 import { redis } from '../config/redis';
 import { AppError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { fireEnrichmentCompleted } from './webhook-events';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -471,6 +472,15 @@ export async function enrichCompany(
     cached: fromCache,
   });
 
+  fireEnrichmentCompleted(organizationId, {
+    entityType: 'company',
+    entityId: companyId,
+    accountId: companyId,
+    provider: 'clearbit',
+    fieldsUpdated,
+    cached: fromCache,
+  }).catch((err) => logger.error('Webhook fire error (enrichment.completed):', err));
+
   return { success: true, fieldsUpdated, cached: fromCache };
 }
 
@@ -619,6 +629,15 @@ export async function enrichContact(
     cached: fromCache,
   });
 
+  fireEnrichmentCompleted(organizationId, {
+    entityType: 'contact',
+    entityId: contactId,
+    accountId: contact.companyId,
+    provider: 'clearbit',
+    fieldsUpdated,
+    cached: fromCache,
+  }).catch((err) => logger.error('Webhook fire error (enrichment.completed):', err));
+
   return { success: true, fieldsUpdated, cached: fromCache };
 }
 
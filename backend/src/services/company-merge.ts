@@ -0,0 +1,400 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { computeAccountScore } from './account-scores';
+import { mergedIdsKey } from './crm-sync';
+import { normalizeCompanyName } from './identity-resolution';
+import { recomputeAccountModelScores } from './scoring-models';
+import { fireCompanyMerged } from './webhook-events';
+
+// ---------------------------------------------------------------------------
+// Company (account) duplicate detection and merge
+//
+// Enrichment and CRM imports regularly create "Acme" and "Acme Inc." as two
+// companies. Detection groups them by domain, normalized name and contacts
+// that appear under both; merging folds the duplicates into a surviving
+// company and deletes them.
+// ---------------------------------------------------------------------------
+
+export const COMPANY_MATCH_CONFIDENCE = {
+  DOMAIN: 0.95,
+  SHARED_CONTACTS: 0.8,
+  NAME: 0.7,
+} as const;
+
+export type CompanyMatchType = keyof typeof COMPANY_MATCH_CONFIDENCE;
+
+export interface CompanyDuplicateGroup {
+  primaryCompanyId: string;
+  primaryName: string;
+  primaryDomain: string | null;
+  duplicates: Array<{
+    companyId: string;
+    name: string;
+    domain: string | null;
+    matches: Array<{
+      type: CompanyMatchType;
+      value: string;
+      confidence: number;
+    }>;
+    overallConfidence: number;
+  }>;
+}
+
+/** Groups returned per scan, strongest first */
+const MAX_DUPLICATE_GROUPS = 50;
+
+/** "https://www.Acme.com/about" -> "acme.com" */
+export function normalizeDomain(domain: string): string {
+  return domain
+    .toLowerCase()
+    .trim()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/\.$/, '');
+}
+
+interface MatchCluster {
+  type: CompanyMatchType;
+  value: string;
+  companyIds: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Duplicate Detection
+// ---------------------------------------------------------------------------
+
+/**
+ * Scans for likely duplicate companies within an organization: the same
+ * domain, the same name after `normalizeCompanyName`, or contacts (by email)
+ * recorded under more than one company. Overlapping matches are combined
+ * into one group whose primary is the oldest company.
+ */
+export async function findCompanyDuplicates(
+  organizationId: string,
+): Promise<CompanyDuplicateGroup[]> {
+  const companies = await prisma.company.findMany({
+    where: { organizationId },
+    select: { id: true, name: true, domain: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  const byId = new Map(companies.map((c) => [c.id, c]));
+
+  const clusters: MatchCluster[] = [];
+  const bucket = (type: CompanyMatchType, keyOf: (c: (typeof companies)[number]) => string | null) => {
+    const buckets = new Map<string, string[]>();
+    for (const company of companies) {
+      const key = keyOf(company);
+      if (!key) continue;
+      const ids = buckets.get(key) ?? [];
+      ids.push(company.id);
+      buckets.set(key, ids);
+    }
+    for (const [value, companyIds] of buckets) {
+      if (companyIds.length > 1) clusters.push({ type, value, companyIds });
+    }
+  };
+
+  // Strategy 1: Same domain
+  bucket('DOMAIN', (c) => (c.domain ? normalizeDomain(c.domain) || null : null));
+
+  // Strategy 2: Same normalized name ("Acme Inc." / "acme")
+  bucket('NAME', (c) => normalizeCompanyName(c.name) || null);
+
+  // Strategy 3: The same contact email recorded under different companies
+  const sharedContacts = await prisma.$queryRaw<
+    Array<{ email: string; company_ids: string }>
+  >`
+    SELECT lower(email) as email, string_agg(DISTINCT "companyId", ',') as company_ids
+    FROM contacts
+    WHERE "organizationId" = ${organizationId}
+      AND email IS NOT NULL
+      AND email != ''
+      AND "companyId" IS NOT NULL
+    GROUP BY lower(email)
+    HAVING count(DISTINCT "companyId") > 1
+    LIMIT 200
+  `;
+  for (const row of sharedContacts) {
+    const companyIds = row.company_ids.split(',').filter((id) => byId.has(id));
+    if (companyIds.length > 1) clusters.push({ type: 'SHARED_CONTACTS', value: row.email, companyIds });
+  }
+
+  // Union overlapping clusters so each company lands in a single group
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const p = parent.get(id) ?? id;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  for (const cluster of clusters) {
+    const [first, ...rest] = cluster.companyIds;
+    for (const id of rest) {
+      const a = find(first);
+      const b = find(id);
+      if (a !== b) parent.set(b, a);
+    }
+  }
+
+  const components = new Map<string, string[]>();
+  for (const cluster of clusters) {
+    for (const id of cluster.companyIds) {
+      const root = find(id);
+      const members = components.get(root) ?? [];
+      if (!members.includes(id)) members.push(id);
+      components.set(root, members);
+    }
+  }
+
+  const groups: CompanyDuplicateGroup[] = [];
+  for (const members of components.values()) {
+    const sorted = members
+      .map((id) => byId.get(id)!)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const [primary, ...duplicates] = sorted;
+
+    groups.push({
+      primaryCompanyId: primary.id,
+      primaryName: primary.name,
+      primaryDomain: primary.domain,
+      duplicates: duplicates.map((company) => {
+        const matches = clusters
+          .filter((c) => c.companyIds.includes(company.id))
+          .map((c) => ({ type: c.type, value: c.value, confidence: COMPANY_MATCH_CONFIDENCE[c.type] }));
+        return {
+          companyId: company.id,
+          name: company.name,
+          domain: company.domain,
+          matches,
+          overallConfidence: Math.max(...matches.map((m) => m.confidence)),
+        };
+      }),
+    });
+  }
+
+  const strongest = (g: CompanyDuplicateGroup) => Math.max(...g.duplicates.map((d) => d.overallConfidence));
+  return groups.sort((a, b) => strongest(b) - strongest(a)).slice(0, MAX_DUPLICATE_GROUPS);
+}
+
+// ---------------------------------------------------------------------------
+// Merge
+// ---------------------------------------------------------------------------
+
+/** Fields copied from a duplicate when the primary has no value */
+const FILLABLE_FIELDS = [
+  'domain',
+  'industry',
+  'size',
+  'logo',
+  'email',
+  'phone',
+  'website',
+  'address',
+  'city',
+  'state',
+  'postalCode',
+  'country',
+  'linkedIn',
+  'twitter',
+  'githubOrg',
+  'description',
+  'ownerId',
+] as const;
+
+/** CRMs whose record ids live in customFields as `<provider>Id` */
+const CRM_PROVIDERS = ['hubspot', 'salesforce'] as const;
+
+function isJsonObject(value: unknown): value is Prisma.JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * customFields entries that keep the duplicate's CRM ids on the primary. The
+ * primary's own `<provider>Id` stays; any other id the duplicate carried
+ * joins the merged-ids list that CRM pulls match against.
+ */
+function mergedCrmIds(primary: Prisma.JsonObject, duplicate: Prisma.JsonObject): Prisma.JsonObject {
+  const result: Prisma.JsonObject = {};
+  for (const provider of CRM_PROVIDERS) {
+    const idKey = `${provider}Id`;
+    const listKey = mergedIdsKey(provider);
+    const ownId = primary[idKey] ?? duplicate[idKey];
+    const existing = Array.isArray(primary[listKey]) ? (primary[listKey] as Prisma.JsonArray) : [];
+
+    const ids = new Set(existing);
+    for (const id of [duplicate[idKey], ...(Array.isArray(duplicate[listKey]) ? duplicate[listKey] : [])]) {
+      if (typeof id === 'string' && id !== '' && id !== ownId) ids.add(id);
+    }
+    if (ids.size > existing.length) result[listKey] = [...ids];
+  }
+  return result;
+}
+
+/**
+ * Merges duplicate companies into a primary company. Contacts, deals,
+ * signals, activities, notes, tags, briefs, shared reports and score history
+ * move to the primary; empty fields and missing custom field values are
+ * filled from the duplicate; then the duplicate is deleted. Each duplicate
+ * merges in its own transaction, so one failure does not undo the others.
+ * The duplicate's HubSpot and Salesforce ids stay reachable through the
+ * primary's merged-ids lists. The primary's AccountScore and scoring model
+ * scores are recomputed from the combined signals.
+ */
+export async function mergeCompanies(
+  organizationId: string,
+  primaryId: string,
+  duplicateIds: string[],
+): Promise<{ merged: number; errors: string[] }> {
+  // Verify all companies belong to this organization
+  const allIds = [primaryId, ...duplicateIds];
+  const companies = await prisma.company.findMany({
+    where: { id: { in: allIds }, organizationId },
+    select: { id: true },
+  });
+
+  const foundIds = new Set(companies.map((c) => c.id));
+  for (const id of allIds) {
+    if (!foundIds.has(id)) {
+      throw new AppError(`Company ${id} not found in organization`, 404);
+    }
+  }
+
+  if (duplicateIds.includes(primaryId)) {
+    throw new AppError('Primary company ID must not be in the duplicates list', 400);
+  }
+
+  let merged = 0;
+  const mergedIds: string[] = [];
+  const errors: string[] = [];
+
+  for (const duplicateId of duplicateIds) {
+    try {
+      await prisma.$transaction(async (tx) => {
+        // Reassign people, pipeline and activity
+        await tx.contact.updateMany({
+          where: { companyId: duplicateId },
+          data: { companyId: primaryId },
+        });
+        await tx.deal.updateMany({
+          where: { companyId: duplicateId },
+          data: { companyId: primaryId },
+        });
+        await tx.signal.updateMany({
+          where: { accountId: duplicateId },
+          data: { accountId: primaryId },
+        });
+        await tx.activity.updateMany({
+          where: { companyId: duplicateId },
+          data: { companyId: primaryId },
+        });
+
+        // Notes reference companies polymorphically
+        await tx.note.updateMany({
+          where: { organizationId, entityType: 'company', entityId: duplicateId },
+          data: { entityId: primaryId },
+        });
+
+        // Score history, AI briefs and shared reports would otherwise cascade away
+        await tx.scoreSnapshot.updateMany({
+          where: { companyId: duplicateId },
+          data: { companyId: primaryId },
+        });
+        await tx.accountBrief.updateMany({
+          where: { accountId: duplicateId },
+          data: { accountId: primaryId },
+        });
+        await tx.accountReport.updateMany({
+          where: { companyId: duplicateId },
+          data: { companyId: primaryId },
+        });
+
+        // Move tags (skip conflicts)
+        const dupeTags = await tx.companyTag.findMany({
+          where: { companyId: duplicateId },
+        });
+        for (const tag of dupeTags) {
+          const exists = await tx.companyTag.findUnique({
+            where: {
+              companyId_tagId: { companyId: primaryId, tagId: tag.tagId },
+            },
+          });
+          if (!exists) {
+            await tx.companyTag.create({
+              data: { companyId: primaryId, tagId: tag.tagId },
+            });
+          }
+        }
+
+        // Merge company data: fill in empty fields and custom field values on primary
+        const primary = await tx.company.findUnique({ where: { id: primaryId } });
+        const duplicate = await tx.company.findUnique({ where: { id: duplicateId } });
+
+        if (primary && duplicate) {
+          const updates: Record<string, unknown> = {};
+          for (const field of FILLABLE_FIELDS) {
+            if (!primary[field] && duplicate[field]) {
+              updates[field] = duplicate[field];
+            }
+          }
+
+          if (isJsonObject(duplicate.customFields)) {
+            const primaryFields = isJsonObject(primary.customFields) ? primary.customFields : {};
+            const missing = Object.keys(duplicate.customFields).filter((key) => !(key in primaryFields));
+            const crmIds = mergedCrmIds(primaryFields, duplicate.customFields);
+            if (missing.length > 0 || Object.keys(crmIds).length > 0) {
+              updates.customFields = { ...duplicate.customFields, ...primaryFields, ...crmIds };
+            }
+          }
+
+          if (Object.keys(updates).length > 0) {
+            await tx.company.update({
+              where: { id: primaryId },
+              data: updates as Prisma.CompanyUncheckedUpdateInput,
+            });
+          }
+        }
+
+        // Delete the duplicate company (its AccountScore and model scores cascade)
+        await tx.company.delete({ where: { id: duplicateId } });
+      });
+
+      merged++;
+      mergedIds.push(duplicateId);
+      logger.info('Merged duplicate company', {
+        primaryId,
+        duplicateId,
+        organizationId,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown merge error';
+      errors.push(`${duplicateId}: ${message}`);
+      logger.error('Failed to merge company', {
+        primaryId,
+        duplicateId,
+        organizationId,
+        error: err,
+      });
+    }
+  }
+
+  if (mergedIds.length > 0) {
+    try {
+      await computeAccountScore(organizationId, primaryId);
+      await recomputeAccountModelScores(organizationId, primaryId);
+    } catch (err) {
+      logger.error('Failed to recompute score after company merge', { organizationId, primaryId, error: err });
+    }
+
+    const primary = await prisma.company.findUnique({ where: { id: primaryId } });
+    if (primary) {
+      fireCompanyMerged(organizationId, primary as unknown as Record<string, unknown>, mergedIds)
+        .catch((err) => logger.error('Webhook fire error (company.merged):', err));
+    }
+  }
+
+  return { merged, errors };
+}
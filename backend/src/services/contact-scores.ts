@@ -0,0 +1,205 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { computeDecayWeight, computeTrend } from './account-scores';
+import { computeTierWithThresholds, getScoringConfig, type TierThresholds } from './scoring-rules';
+import { fireContactScoreChanged } from './webhook-events';
+
+// ---------------------------------------------------------------------------
+// Contact (lead) scoring
+// ---------------------------------------------------------------------------
+// Scores an individual developer from the signals they are the actor on,
+// using the same per-type exponential decay as account scores. Contacts have
+// fewer signals than accounts, so tier thresholds sit lower.
+// ---------------------------------------------------------------------------
+
+interface ContactScoreFactor {
+  name: string;
+  weight: number;
+  value: number;
+  description: string;
+}
+
+export const CONTACT_TIER_THRESHOLDS: TierThresholds = { HOT: 70, WARM: 40, COLD: 15 };
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const SCORE_WINDOW_DAYS = 90;
+
+export const computeContactScore = async (organizationId: string, contactId: string) => {
+  const contact = await prisma.contact.findFirst({
+    where: { id: contactId, organizationId },
+    select: { id: true, firstName: true, lastName: true, email: true, companyId: true },
+  });
+  if (!contact) throw new AppError('Contact not found', 404);
+
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - SCORE_WINDOW_DAYS * MS_PER_DAY);
+  const sevenDaysAgo = new Date(now.getTime() - 7 * MS_PER_DAY);
+
+  const [decaySettings, signals, lastSignal] = await Promise.all([
+    getScoringConfig(organizationId),
+    prisma.signal.findMany({
+      where: { organizationId, actorId: contactId, timestamp: { gte: windowStart } },
+      select: { type: true, timestamp: true },
+    }),
+    prisma.signal.findFirst({
+      where: { organizationId, actorId: contactId },
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true },
+    }),
+  ]);
+
+  let weightedSignals = 0;
+  let recentWeightedSignals = 0;
+  const signalTypes = new Set<string>();
+
+  for (const signal of signals) {
+    const daysOld = (now.getTime() - signal.timestamp.getTime()) / MS_PER_DAY;
+    const decayWeight = computeDecayWeight(signal.type, daysOld, decaySettings);
+    weightedSignals += decayWeight;
+    if (signal.timestamp >= sevenDaysAgo) recentWeightedSignals += decayWeight;
+    signalTypes.add(signal.type);
+  }
+
+  const factors: ContactScoreFactor[] = [];
+
+  // Factor 1: Activity volume — log-scaled so a handful of signals counts (0-40)
+  factors.push({
+    name: 'activity_volume',
+    weight: 0.4,
+    value: Math.min(Math.round(Math.log2(weightedSignals + 1) * 10), 40),
+    description: `${weightedSignals.toFixed(1)} decay-weighted signals from ${signals.length} in last ${SCORE_WINDOW_DAYS} days`,
+  });
+
+  // Factor 2: Usage velocity — share of weighted activity in the last 7 days (0-20)
+  const velocityRatio = weightedSignals > 0 ? recentWeightedSignals / weightedSignals : 0;
+  factors.push({
+    name: 'usage_velocity',
+    weight: 0.2,
+    value: Math.round(velocityRatio * 20),
+    description: `${recentWeightedSignals.toFixed(1)} weighted signals in last 7 days`,
+  });
+
+  // Factor 3: Feature breadth — distinct signal types (0-20)
+  factors.push({
+    name: 'feature_breadth',
+    weight: 0.2,
+    value: Math.min(signalTypes.size * 4, 20),
+    description: `${signalTypes.size} different signal types`,
+  });
+
+  // Factor 4: Engagement recency (0-20)
+  let recencyScore = 0;
+  let daysSinceLastSignal: number | null = null;
+  if (lastSignal) {
+    daysSinceLastSignal = (now.getTime() - lastSignal.timestamp.getTime()) / MS_PER_DAY;
+    if (daysSinceLastSignal <= 1) recencyScore = 20;
+    else if (daysSinceLastSignal <= 3) recencyScore = 16;
+    else if (daysSinceLastSignal <= 7) recencyScore = 10;
+    else if (daysSinceLastSignal <= 14) recencyScore = 5;
+  }
+  factors.push({
+    name: 'engagement_recency',
+    weight: 0.2,
+    value: recencyScore,
+    description:
+      daysSinceLastSignal !== null
+        ? `Last signal ${Math.round(daysSinceLastSignal)} days ago`
+        : 'No signals recorded',
+  });
+
+  const totalScore = Math.min(
+    factors.reduce((sum, f) => sum + f.value, 0),
+    100,
+  );
+
+  const existing = await prisma.contactScore.findUnique({
+    where: { contactId },
+    select: { score: true, tier: true },
+  });
+
+  const tier = computeTierWithThresholds(totalScore, CONTACT_TIER_THRESHOLDS);
+  const trend = computeTrend(totalScore, existing?.score ?? null);
+
+  const data = {
+    score: totalScore,
+    tier,
+    factors: factors as unknown as Prisma.InputJsonValue,
+    signalCount: signals.length,
+    lastSignalAt: lastSignal?.timestamp || null,
+    trend,
+    computedAt: now,
+  };
+
+  const score = await prisma.contactScore.upsert({
+    where: { contactId },
+    create: {
+      organization: { connect: { id: organizationId } },
+      contact: { connect: { id: contactId } },
+      ...data,
+    },
+    update: data,
+  });
+
+  // Fire webhook event if score changed (fire-and-forget)
+  if (!existing || existing.score !== totalScore) {
+    fireContactScoreChanged(organizationId, {
+      contactId,
+      contactName: `${contact.firstName} ${contact.lastName}`.trim(),
+      email: contact.email,
+      companyId: contact.companyId,
+      oldScore: existing?.score ?? null,
+      newScore: totalScore,
+      oldTier: existing?.tier ?? null,
+      newTier: tier,
+    }).catch((err) => logger.error('Webhook fire error (contact.score_changed):', err));
+  }
+
+  return score;
+};
+
+export const getContactScore = async (organizationId: string, contactId: string) => {
+  return prisma.contactScore.findFirst({
+    where: { contactId, organizationId },
+  });
+};
+
+/**
+ * Chronological lead score snapshots for a contact (last `days` days).
+ */
+export const getContactScoreHistory = async (organizationId: string, contactId: string, days = 30) => {
+  const since = new Date(Date.now() - days * MS_PER_DAY);
+
+  return prisma.contactScoreSnapshot.findMany({
+    where: { organizationId, contactId, capturedAt: { gte: since } },
+    orderBy: { capturedAt: 'asc' },
+    select: { id: true, score: true, tier: true, capturedAt: true },
+  });
+};
+
+/**
+ * Snapshot every contact score in the org. Called alongside the daily
+ * account score snapshot; returns the number of snapshots created.
+ */
+export const captureContactScoreSnapshots = async (
+  organizationId: string,
+  capturedAt: Date,
+): Promise<number> => {
+  const scores = await prisma.contactScore.findMany({
+    where: { organizationId },
+    select: { contactId: true, score: true, tier: true },
+  });
+  if (scores.length === 0) return 0;
+
+  const result = await prisma.contactScoreSnapshot.createMany({
+    data: scores.map((s) => ({
+      organizationId,
+      contactId: s.contactId,
+      score: s.score,
+      tier: s.tier,
+      capturedAt,
+    })),
+  });
+  return result.count;
+};
@@ -1,16 +1,37 @@
-import { Prisma } from '@prisma/client';
+import { Prisma, ScoreTier } from '@prisma/client';
 import { prisma } from '../config/database';
 import { AppError } from '../utils/errors';
 
 export interface ContactFilters {
   search?: string;
   companyId?: string;
+  /** Lead score tier; contacts without a lead score never match. */
+  leadTier?: ScoreTier;
+  minLeadScore?: number;
+  sortField?: string;
+  sortDirection?: 'asc' | 'desc';
   page?: number;
   limit?: number;
 }
 
+/** Sortable list columns; `leadScore` sorts by the contact's lead score. */
+export const CONTACT_SORT_FIELDS = ['firstName', 'lastName', 'email', 'title', 'createdAt', 'updatedAt', 'leadScore'] as const;
+
+const buildContactOrderBy = (
+  sortField: string | undefined,
+  sortDirection: 'asc' | 'desc' = 'desc',
+): Prisma.ContactOrderByWithRelationInput => {
+  if (!sortField || !(CONTACT_SORT_FIELDS as readonly string[]).includes(sortField)) {
+    return { createdAt: 'desc' };
+  }
+  if (sortField === 'leadScore') {
+    return { leadScore: { score: sortDirection } };
+  }
+  return { [sortField]: sortDirection };
+};
+
 export const getContacts = async (organizationId: string, filters: ContactFilters) => {
-  const { search, companyId, page = 1, limit } = filters;
+  const { search, companyId, leadTier, minLeadScore, sortField, sortDirection, page = 1, limit } = filters;
   const clampedLimit = Math.min(100, Math.max(1, limit ?? 20));
   const skip = (page - 1) * clampedLimit;
 
@@ -24,6 +45,14 @@ export const getContacts = async (organizationId: string, filters: ContactFilter
       ],
     }),
     ...(companyId && { companyId }),
+    ...((leadTier || minLeadScore !== undefined) && {
+      leadScore: {
+        is: {
+          ...(leadTier && { tier: leadTier }),
+          ...(minLeadScore !== undefined && { score: { gte: minLeadScore } }),
+        },
+      },
+    }),
   };
 
   const [contacts, total] = await Promise.all([
@@ -38,8 +67,11 @@ export const getContacts = async (organizationId: string, filters: ContactFilter
         tags: {
           include: { tag: true },
         },
+        leadScore: {
+          select: { score: true, tier: true, trend: true },
+        },
       },
-      orderBy: { createdAt: 'desc' },
+      orderBy: buildContactOrderBy(sortField, sortDirection),
     }),
     prisma.contact.count({ where }),
   ]);
@@ -68,6 +100,7 @@ export const getContactById = async (id: string, organizationId: string) => {
       tags: {
         include: { tag: true },
       },
+      leadScore: true,
     },
   });
 };
@@ -3,18 +3,30 @@ import { prisma } from '../config/database';
 import { logger } from '../utils/logger';
 import { parseCSV } from './csv-import';
 import { logAudit } from './audit';
+import {
+  createImportBatch,
+  finishImportBatch,
+  recordImportCreated,
+  recordImportTagged,
+  recordImportUpdated,
+} from './import-batches';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export type CrmFormat = 'hubspot' | 'salesforce' | 'unknown';
+export type CrmFormat = 'hubspot' | 'salesforce' | 'pipedrive' | 'attio' | 'close' | 'copper' | 'unknown';
+
+type KnownCrmFormat = Exclude<CrmFormat, 'unknown'>;
+type CrmEntityType = 'contacts' | 'companies' | 'deals';
 
 export interface ImportResult {
   created: number;
   updated: number;
   skipped: number;
   errors: string[];
+  /** Import batch to pass to the revert endpoint. */
+  batchId?: string;
 }
 
 export interface ParsedContact {
@@ -103,9 +115,65 @@ const SALESFORCE_STAGE_MAP: Record<string, DealStage> = {
   'closed lost': DealStage.CLOSED_LOST,
 };
 
-function mapDealStage(stage: string, format: CrmFormat): DealStage {
+// Pipedrive default pipeline; won/lost come from "Deal - Status"
+const PIPEDRIVE_STAGE_MAP: Record<string, DealStage> = {
+  'lead in': DealStage.IDENTIFIED,
+  // Pipedrive's first stage: a lead worth working, not a sales-qualified deal
+  'qualified': DealStage.IDENTIFIED,
+  'contact made': DealStage.ACTIVATED,
+  'demo scheduled': DealStage.TEAM_ADOPTION,
+  'proposal made': DealStage.EXPANSION_SIGNAL,
+  'negotiations started': DealStage.NEGOTIATION,
+  'won': DealStage.CLOSED_WON,
+  'lost': DealStage.CLOSED_LOST,
+};
+
+// Attio's default deal stages
+const ATTIO_STAGE_MAP: Record<string, DealStage> = {
+  'lead': DealStage.IDENTIFIED,
+  'in progress': DealStage.ACTIVATED,
+  'won': DealStage.CLOSED_WON,
+  'won 🎉': DealStage.CLOSED_WON,
+  'lost': DealStage.CLOSED_LOST,
+};
+
+// Close opportunity statuses are org-defined; status_type is always active/won/lost
+const CLOSE_STAGE_MAP: Record<string, DealStage> = {
+  'active': DealStage.IDENTIFIED,
+  'demo completed': DealStage.TEAM_ADOPTION,
+  'proposal sent': DealStage.EXPANSION_SIGNAL,
+  'contract sent': DealStage.NEGOTIATION,
+  'won': DealStage.CLOSED_WON,
+  'lost': DealStage.CLOSED_LOST,
+};
+
+// Copper default sales pipeline; won/lost/abandoned come from "Status"
+const COPPER_STAGE_MAP: Record<string, DealStage> = {
+  // Entry stage of the pipeline, as in Pipedrive
+  'qualified': DealStage.IDENTIFIED,
+  'follow-up': DealStage.ACTIVATED,
+  'presentation': DealStage.TEAM_ADOPTION,
+  'contract sent': DealStage.NEGOTIATION,
+  'won': DealStage.CLOSED_WON,
+  'lost': DealStage.CLOSED_LOST,
+  'abandoned': DealStage.CLOSED_LOST,
+};
+
+const STAGE_MAPS: Record<KnownCrmFormat, Record<string, DealStage>> = {
+  hubspot: HUBSPOT_STAGE_MAP,
+  salesforce: SALESFORCE_STAGE_MAP,
+  pipedrive: PIPEDRIVE_STAGE_MAP,
+  attio: ATTIO_STAGE_MAP,
+  close: CLOSE_STAGE_MAP,
+  copper: COPPER_STAGE_MAP,
+};
+
+/** Deal statuses that override the pipeline stage (the deal is closed). */
+const CLOSED_DEAL_STATUSES = ['won', 'lost', 'abandoned'];
+
+export function mapDealStage(stage: string, format: CrmFormat): DealStage {
   const normalized = stage.toLowerCase().trim();
-  const map = format === 'hubspot' ? HUBSPOT_STAGE_MAP : SALESFORCE_STAGE_MAP;
+  const map = STAGE_MAPS[format === 'unknown' ? 'salesforce' : format];
   return map[normalized] ?? DealStage.IDENTIFIED;
 }
 
@@ -220,62 +288,294 @@ const SALESFORCE_DEAL_MAP: Record<string, string> = {
   'description': 'description',
 };
 
+// ---------------------------------------------------------------------------
+// Pipedrive Field Maps
+// ---------------------------------------------------------------------------
+// Pipedrive prefixes every exported column with the entity ("Person - Name").
+
+const PIPEDRIVE_CONTACT_MAP: Record<string, string> = {
+  'person - first name': 'firstName',
+  'person - last name': 'lastName',
+  'person - email - work': 'email',
+  'person - email - home': 'email',
+  'person - email - other': 'email',
+  'person - phone - work': 'phone',
+  'person - phone - mobile': 'phone',
+  'person - phone - home': 'phone',
+  'person - phone - other': 'phone',
+  'person - job title': 'title',
+  'person - organization': 'companyName',
+  'person - label': 'leadStatus',
+  'person - add time': 'createdAt',
+  'person - postal address': 'address',
+  'person - postal address - city/town/village/locality': 'city',
+  'person - postal address - state/county': 'state',
+  'person - postal address - country': 'country',
+};
+
+const PIPEDRIVE_COMPANY_MAP: Record<string, string> = {
+  'organization - name': 'name',
+  'organization - website': 'website',
+  'organization - industry': 'industry',
+  'organization - number of employees': 'size',
+  'organization - annual revenue': 'annualRevenue',
+  'organization - linkedin profile': 'linkedIn',
+  'organization - address': 'address',
+  'organization - address - city/town/village/locality': 'city',
+  'organization - address - state/county': 'state',
+  'organization - address - country': 'country',
+};
+
+const PIPEDRIVE_DEAL_MAP: Record<string, string> = {
+  'deal - title': 'title',
+  'deal - stage': 'stage',
+  'deal - status': 'status',
+  'deal - value': 'value',
+  'deal - expected close date': 'expectedCloseDate',
+  'deal - organization': 'companyName',
+  'deal - pipeline': 'pipeline',
+};
+
+// ---------------------------------------------------------------------------
+// Attio Field Maps
+// ---------------------------------------------------------------------------
+
+const ATTIO_CONTACT_MAP: Record<string, string> = {
+  'first name': 'firstName',
+  'last name': 'lastName',
+  'email addresses': 'email',
+  'phone numbers': 'phone',
+  'job title': 'title',
+  'company': 'companyName',
+  'linkedin': 'linkedIn',
+  'twitter': 'twitter',
+  'description': 'notes',
+  'created at': 'createdAt',
+};
+
+const ATTIO_COMPANY_MAP: Record<string, string> = {
+  'name': 'name',
+  'domains': 'domain',
+  'categories': 'industry',
+  'employee range': 'size',
+  'estimated arr': 'annualRevenue',
+  'linkedin': 'linkedIn',
+  'twitter': 'twitter',
+  'description': 'description',
+};
+
+const ATTIO_DEAL_MAP: Record<string, string> = {
+  'name': 'title',
+  'deal stage': 'stage',
+  'deal value': 'value',
+  'associated company': 'companyName',
+};
+
+// ---------------------------------------------------------------------------
+// Close Field Maps
+// ---------------------------------------------------------------------------
+// Close exports use snake_case headers. Companies are Close "leads".
+
+const CLOSE_CONTACT_MAP: Record<string, string> = {
+  'first_name': 'firstName',
+  'last_name': 'lastName',
+  'primary_email': 'email',
+  'primary_phone': 'phone',
+  'title': 'title',
+  'lead_name': 'companyName',
+  'date_created': 'createdAt',
+};
+
+const CLOSE_COMPANY_MAP: Record<string, string> = {
+  'display_name': 'name',
+  'url': 'website',
+  'description': 'description',
+  'address_1_address_1': 'address',
+  'address_1_city': 'city',
+  'address_1_state': 'state',
+  'address_1_country': 'country',
+};
+
+const CLOSE_DEAL_MAP: Record<string, string> = {
+  'lead_name': 'companyName',
+  'status_label': 'stage',
+  'status_type': 'status',
+  'value_formatted': 'value',
+  'value': 'valueCents', // Close stores opportunity values in cents
+  'date_won': 'expectedCloseDate',
+  'note': 'description',
+};
+
+// ---------------------------------------------------------------------------
+// Copper Field Maps
+// ---------------------------------------------------------------------------
+
+const COPPER_CONTACT_MAP: Record<string, string> = {
+  'first name': 'firstName',
+  'last name': 'lastName',
+  'work email': 'email',
+  'personal email': 'email',
+  'other email': 'email',
+  'work phone': 'phone',
+  'mobile phone': 'phone',
+  'title': 'title',
+  'company': 'companyName',
+  'date added': 'createdAt',
+  'linkedin': 'linkedIn',
+  'twitter': 'twitter',
+  'details': 'notes',
+  'street': 'address',
+  'city': 'city',
+  'state': 'state',
+  'country': 'country',
+};
+
+const COPPER_COMPANY_MAP: Record<string, string> = {
+  'name': 'name',
+  'email domain': 'domain',
+  'website': 'website',
+  'industry': 'industry',
+  'work phone': 'phone',
+  'linkedin': 'linkedIn',
+  'twitter': 'twitter',
+  'details': 'description',
+  'street': 'address',
+  'city': 'city',
+  'state': 'state',
+  'country': 'country',
+};
+
+const COPPER_DEAL_MAP: Record<string, string> = {
+  'name': 'title',
+  'stage': 'stage',
+  'status': 'status',
+  'value': 'value',
+  'close date': 'expectedCloseDate',
+  'company': 'companyName',
+  'pipeline': 'pipeline',
+  'details': 'description',
+};
+
+const FIELD_MAPS: Record<KnownCrmFormat, Record<CrmEntityType, Record<string, string>>> = {
+  hubspot: { contacts: HUBSPOT_CONTACT_MAP, companies: HUBSPOT_COMPANY_MAP, deals: HUBSPOT_DEAL_MAP },
+  salesforce: { contacts: SALESFORCE_CONTACT_MAP, companies: SALESFORCE_COMPANY_MAP, deals: SALESFORCE_DEAL_MAP },
+  pipedrive: { contacts: PIPEDRIVE_CONTACT_MAP, companies: PIPEDRIVE_COMPANY_MAP, deals: PIPEDRIVE_DEAL_MAP },
+  attio: { contacts: ATTIO_CONTACT_MAP, companies: ATTIO_COMPANY_MAP, deals: ATTIO_DEAL_MAP },
+  close: { contacts: CLOSE_CONTACT_MAP, companies: CLOSE_COMPANY_MAP, deals: CLOSE_DEAL_MAP },
+  copper: { contacts: COPPER_CONTACT_MAP, companies: COPPER_COMPANY_MAP, deals: COPPER_DEAL_MAP },
+};
+
+/** Field map used to parse rows; unrecognised exports fall back to Salesforce names. */
+function parseFieldMap(format: CrmFormat, entityType: CrmEntityType): Record<string, string> {
+  return FIELD_MAPS[format === 'unknown' ? 'salesforce' : format][entityType];
+}
+
 // ---------------------------------------------------------------------------
 // Format detection
 // ---------------------------------------------------------------------------
 
-/** Unique HubSpot headers that distinguish it from Salesforce */
-const HUBSPOT_MARKERS = [
-  'company domain name',
-  'lifecycle stage',
-  'deal name',
-  'deal stage',
-  'associated company',
-  'lead status',
-  'phone number',
-  'number of employees',
-  'annual revenue',
-  'state/region',
-  'country/region',
-];
+/** Headers that only (or mostly) appear in each CRM's exports */
+const FORMAT_MARKERS: Record<KnownCrmFormat, string[]> = {
+  hubspot: [
+    'company domain name',
+    'lifecycle stage',
+    'deal name',
+    'deal stage',
+    'associated company',
+    'lead status',
+    'phone number',
+    'number of employees',
+    'annual revenue',
+    'state/region',
+    'country/region',
+  ],
+  salesforce: [
+    'account name',
+    'opportunity name',
+    'lead source',
+    'billing city',
+    'billing state',
+    'billing country',
+    'mailing city',
+    'mailing state',
+    'mailing country',
+    'created date',
+  ],
+  pipedrive: [
+    'person - name',
+    'person - email - work',
+    'person - phone - work',
+    'person - organization',
+    'organization - name',
+    'organization - address',
+    'deal - title',
+    'deal - value',
+    'deal - stage',
+    'deal - status',
+    'deal - pipeline',
+  ],
+  attio: [
+    'email addresses',
+    'phone numbers',
+    'domains',
+    'employee range',
+    'estimated arr',
+    'deal value',
+    'associated people',
+    'primary location',
+  ],
+  close: [
+    'lead_id',
+    'lead_name',
+    'display_name',
+    'status_label',
+    'status_type',
+    'primary_email',
+    'primary_phone',
+    'value_currency',
+    'value_formatted',
+    'date_won',
+  ],
+  copper: [
+    'work email',
+    'personal email',
+    'email domain',
+    'owned by',
+    'contact type',
+    'date added',
+    'primary contact',
+    'loss reason',
+    'win probability',
+  ],
+};
 
-/** Unique Salesforce headers that distinguish it from HubSpot */
-const SALESFORCE_MARKERS = [
-  'account name',
-  'opportunity name',
-  'lead source',
-  'billing city',
-  'billing state',
-  'billing country',
-  'mailing city',
-  'mailing state',
-  'mailing country',
-  'created date',
+/** Headers that settle a tie between formats, checked in order */
+const TIE_BREAKERS: Array<[string, KnownCrmFormat]> = [
+  ['company domain name', 'hubspot'],
+  ['deal name', 'hubspot'],
+  ['account name', 'salesforce'],
+  ['opportunity name', 'salesforce'],
+  ['deal value', 'attio'],
+  ['email addresses', 'attio'],
+  ['email domain', 'copper'],
+  ['work email', 'copper'],
 ];
 
 export function detectCrmFormat(headers: string[]): CrmFormat {
   const normalized = headers.map((h) => h.toLowerCase().trim());
 
-  let hubspotScore = 0;
-  let salesforceScore = 0;
-
-  for (const marker of HUBSPOT_MARKERS) {
-    if (normalized.includes(marker)) hubspotScore++;
-  }
-  for (const marker of SALESFORCE_MARKERS) {
-    if (normalized.includes(marker)) salesforceScore++;
-  }
+  const scores = (Object.keys(FORMAT_MARKERS) as KnownCrmFormat[]).map((format) => ({
+    format,
+    score: FORMAT_MARKERS[format].filter((marker) => normalized.includes(marker)).length,
+  }));
+  const best = Math.max(...scores.map((s) => s.score));
+  if (best === 0) return 'unknown';
 
-  if (hubspotScore === 0 && salesforceScore === 0) return 'unknown';
-  if (hubspotScore > salesforceScore) return 'hubspot';
-  if (salesforceScore > hubspotScore) return 'salesforce';
+  const leaders = scores.filter((s) => s.score === best).map((s) => s.format);
+  if (leaders.length === 1) return leaders[0];
 
-  // Tie-break: check for HubSpot-specific naming conventions
-  if (normalized.includes('company domain name') || normalized.includes('deal name')) {
-    return 'hubspot';
-  }
-  if (normalized.includes('account name') || normalized.includes('opportunity name')) {
-    return 'salesforce';
+  for (const [header, format] of TIE_BREAKERS) {
+    if (leaders.includes(format) && normalized.includes(header)) return format;
   }
 
   return 'unknown';
@@ -285,7 +585,7 @@ export function detectCrmFormat(headers: string[]): CrmFormat {
 function detectEntityType(
   headers: string[],
   format: CrmFormat,
-): 'contacts' | 'companies' | 'deals' | 'unknown' {
+): CrmEntityType | 'unknown' {
   const normalized = headers.map((h) => h.toLowerCase().trim());
 
   // Deal detection
@@ -293,7 +593,10 @@ function detectEntityType(
     normalized.includes('deal name') ||
     normalized.includes('deal stage') ||
     normalized.includes('opportunity name') ||
-    (normalized.includes('stage') && normalized.includes('amount'))
+    normalized.includes('deal - title') ||
+    normalized.includes('status_type') ||
+    (normalized.includes('stage') && normalized.includes('amount')) ||
+    (normalized.includes('stage') && normalized.includes('value'))
   ) {
     return 'deals';
   }
@@ -302,6 +605,10 @@ function detectEntityType(
   if (
     normalized.includes('company domain name') ||
     normalized.includes('annual revenue') ||
+    normalized.includes('domains') ||
+    normalized.includes('email domain') ||
+    normalized.includes('display_name') ||
+    (normalized.includes('organization - name') && !normalized.includes('person - name')) ||
     (normalized.includes('account name') &&
       !normalized.includes('email') &&
       !normalized.includes('first name'))
@@ -313,7 +620,11 @@ function detectEntityType(
   if (
     normalized.includes('first name') ||
     normalized.includes('email') ||
-    normalized.includes('last name')
+    normalized.includes('last name') ||
+    normalized.includes('person - name') ||
+    normalized.includes('email addresses') ||
+    normalized.includes('primary_email') ||
+    normalized.includes('work email')
   ) {
     return 'contacts';
   }
@@ -371,17 +682,8 @@ function getFieldMap(
   format: CrmFormat,
   entityType: string,
 ): Record<string, string> {
-  if (format === 'hubspot') {
-    if (entityType === 'contacts') return HUBSPOT_CONTACT_MAP;
-    if (entityType === 'companies') return HUBSPOT_COMPANY_MAP;
-    if (entityType === 'deals') return HUBSPOT_DEAL_MAP;
-  }
-  if (format === 'salesforce') {
-    if (entityType === 'contacts') return SALESFORCE_CONTACT_MAP;
-    if (entityType === 'companies') return SALESFORCE_COMPANY_MAP;
-    if (entityType === 'deals') return SALESFORCE_DEAL_MAP;
-  }
-  return {};
+  if (format === 'unknown' || !(entityType in FIELD_MAPS[format])) return {};
+  return FIELD_MAPS[format][entityType as CrmEntityType];
 }
 
 // ---------------------------------------------------------------------------
@@ -396,13 +698,19 @@ function mapRow(
   for (const [csvCol, value] of Object.entries(row)) {
     const normalizedCol = csvCol.trim().toLowerCase();
     const mappedField = fieldMap[normalizedCol];
-    if (mappedField && value.trim()) {
+    // First non-empty column wins (e.g. work email before home email)
+    if (mappedField && value.trim() && !mapped[mappedField]) {
       mapped[mappedField] = value.trim();
     }
   }
   return mapped;
 }
 
+/** First entry of a multi-value cell ("a@x.dev, b@x.dev"), as Attio exports emails and domains */
+function firstListValue(value: string | undefined): string | undefined {
+  return value?.split(/[,;]/)[0].trim() || undefined;
+}
+
 /**
  * Collect unmapped fields as custom fields
  */
@@ -429,8 +737,7 @@ export function parseContacts(
   format: CrmFormat,
   _orgId: string,
 ): ParsedContact[] {
-  const fieldMap =
-    format === 'hubspot' ? HUBSPOT_CONTACT_MAP : SALESFORCE_CONTACT_MAP;
+  const fieldMap = parseFieldMap(format, 'contacts');
   const contacts: ParsedContact[] = [];
 
   for (const row of rows) {
@@ -443,6 +750,7 @@ export function parseContacts(
         row['full name'] ||
         row['fullname'] ||
         row['contact name'] ||
+        row['person - name'] ||
         '';
       if (fullName.trim()) {
         const parts = fullName.trim().split(/\s+/);
@@ -454,7 +762,7 @@ export function parseContacts(
     contacts.push({
       firstName: mapped.firstName || '',
       lastName: mapped.lastName || '',
-      email: mapped.email,
+      email: firstListValue(mapped.email),
       phone: mapped.phone,
       title: mapped.title,
       companyName: mapped.companyName,
@@ -482,8 +790,7 @@ export function parseCompanies(
   format: CrmFormat,
   _orgId: string,
 ): ParsedCompany[] {
-  const fieldMap =
-    format === 'hubspot' ? HUBSPOT_COMPANY_MAP : SALESFORCE_COMPANY_MAP;
+  const fieldMap = parseFieldMap(format, 'companies');
   const companies: ParsedCompany[] = [];
 
   for (const row of rows) {
@@ -491,7 +798,7 @@ export function parseCompanies(
 
     companies.push({
       name: mapped.name || '',
-      domain: mapped.domain,
+      domain: firstListValue(mapped.domain),
       industry: mapped.industry,
       size: mapped.size,
       annualRevenue: mapped.annualRevenue,
@@ -518,17 +825,26 @@ export function parseDeals(
   format: CrmFormat,
   _orgId: string,
 ): ParsedDeal[] {
-  const fieldMap =
-    format === 'hubspot' ? HUBSPOT_DEAL_MAP : SALESFORCE_DEAL_MAP;
+  const fieldMap = parseFieldMap(format, 'deals');
   const deals: ParsedDeal[] = [];
 
   for (const row of rows) {
     const mapped = mapRow(row, fieldMap);
 
+    // A won/lost status outranks the pipeline stage the deal closed in
+    const status = mapped.status?.toLowerCase();
+    const stage = status && CLOSED_DEAL_STATUSES.includes(status) ? status : mapped.stage;
+
+    let value = mapped.value ? parseFloat(mapped.value.replace(/[^0-9.-]/g, '')) : undefined;
+    if (value === undefined && mapped.valueCents) {
+      value = parseFloat(mapped.valueCents) / 100;
+    }
+
     deals.push({
-      title: mapped.title || '',
-      stage: mapped.stage,
-      value: mapped.value ? parseFloat(mapped.value.replace(/[^0-9.-]/g, '')) : undefined,
+      // Close opportunities have no name of their own
+      title: mapped.title || (format === 'close' && mapped.companyName ? `${mapped.companyName} opportunity` : ''),
+      stage,
+      value,
       expectedCloseDate: mapped.expectedCloseDate,
       companyName: mapped.companyName,
       pipeline: mapped.pipeline,
@@ -587,15 +903,27 @@ function extractDomain(website: string): string | null {
 const BATCH_SIZE = 100;
 const MAX_ROWS = 10_000;
 
+// Brand colour of each CRM for its import tag
+const IMPORT_TAG_COLORS: Record<KnownCrmFormat, string> = {
+  hubspot: '#ff7a59',
+  salesforce: '#00a1e0',
+  pipedrive: '#017737',
+  attio: '#266df0',
+  close: '#3b82f6',
+  copper: '#f15c4f',
+};
+
 /**
- * Find or create the import tracking tag
+ * Find or create the import tracking tag. A tag created here is recorded on
+ * the import batch so a revert can remove it once nothing uses it.
  */
 async function getOrCreateImportTag(
   orgId: string,
   format: CrmFormat,
+  batchId: string,
 ): Promise<string> {
-  const tagName =
-    format === 'hubspot' ? '__hubspot_import' : '__salesforce_import';
+  const tagFormat = format === 'unknown' ? 'salesforce' : format;
+  const tagName = `__${tagFormat}_import`;
 
   const existing = await prisma.tag.findUnique({
     where: { organizationId_name: { organizationId: orgId, name: tagName } },
@@ -607,19 +935,22 @@ async function getOrCreateImportTag(
     data: {
       organizationId: orgId,
       name: tagName,
-      color: format === 'hubspot' ? '#ff7a59' : '#00a1e0',
+      color: IMPORT_TAG_COLORS[tagFormat],
     },
   });
+  await recordImportCreated(batchId, 'tag', tag.id);
 
   return tag.id;
 }
 
 /**
- * Look up or create a company by name/domain within the org
+ * Look up or create a company by name/domain within the org. Companies created
+ * here are recorded on the import batch so a revert removes them too.
  */
 async function findOrCreateCompany(
   orgId: string,
   companyName: string,
+  batchId: string,
 ): Promise<string | null> {
   if (!companyName) return null;
 
@@ -641,6 +972,7 @@ async function findOrCreateCompany(
       name: companyName,
     },
   });
+  await recordImportCreated(batchId, 'company', company.id);
 
   return company.id;
 }
@@ -662,7 +994,9 @@ export async function importContacts(
     return result;
   }
 
-  const tagId = await getOrCreateImportTag(orgId, format);
+  const importBatch = await createImportBatch(orgId, { source: format, entityType: 'contact', userId });
+  const tagId = await getOrCreateImportTag(orgId, format, importBatch.id);
+  result.batchId = importBatch.id;
 
   // Process in batches
   for (let i = 0; i < contacts.length; i += BATCH_SIZE) {
@@ -689,7 +1023,7 @@ export async function importContacts(
         // Look up company
         let companyId: string | null = null;
         if (contact.companyName) {
-          companyId = await findOrCreateCompany(orgId, contact.companyName);
+          companyId = await findOrCreateCompany(orgId, contact.companyName, importBatch.id);
         }
 
         // Build custom fields
@@ -718,34 +1052,32 @@ export async function importContacts(
 
         if (existing) {
           // Update existing contact with new data (non-destructive: only fill in blanks)
-          await prisma.contact.update({
-            where: { id: existing.id },
-            data: {
-              firstName: existing.firstName || contact.firstName,
-              lastName: existing.lastName || contact.lastName,
-              phone: existing.phone || contact.phone || null,
-              title: existing.title || contact.title || null,
-              companyId: existing.companyId || companyId,
-              linkedIn: existing.linkedIn || contact.linkedIn || null,
-              twitter: existing.twitter || contact.twitter || null,
-              github: existing.github || contact.github || null,
-              notes: existing.notes || contact.notes || null,
-              address: existing.address || contact.address || null,
-              city: existing.city || contact.city || null,
-              state: existing.state || contact.state || null,
-              country: existing.country || contact.country || null,
-              customFields: customFieldsJson,
-            },
-          });
-
-          // Ensure tag
-          await prisma.contactTag
+          const data = {
+            firstName: existing.firstName || contact.firstName,
+            lastName: existing.lastName || contact.lastName,
+            phone: existing.phone || contact.phone || null,
+            title: existing.title || contact.title || null,
+            companyId: existing.companyId || companyId,
+            linkedIn: existing.linkedIn || contact.linkedIn || null,
+            twitter: existing.twitter || contact.twitter || null,
+            github: existing.github || contact.github || null,
+            notes: existing.notes || contact.notes || null,
+            address: existing.address || contact.address || null,
+            city: existing.city || contact.city || null,
+            state: existing.state || contact.state || null,
+            country: existing.country || contact.country || null,
+            customFields: customFieldsJson,
+          };
+          await prisma.contact.update({ where: { id: existing.id }, data });
+          await recordImportUpdated(importBatch.id, 'contact', existing.id, existing, data);
+
+          // Ensure tag, recording it if this import added it
+          const tagged = await prisma.contactTag
             .create({
               data: { contactId: existing.id, tagId },
             })
-            .catch(() => {
-              /* already exists */
-            });
+            .catch(() => null /* already exists */);
+          if (tagged) await recordImportTagged(importBatch.id, 'contact', existing.id, tagId);
 
           result.updated++;
         } else {
@@ -771,6 +1103,8 @@ export async function importContacts(
             },
           });
 
+          await recordImportCreated(importBatch.id, 'contact', newContact.id);
+
           // Tag the contact
           await prisma.contactTag
             .create({
@@ -791,7 +1125,8 @@ export async function importContacts(
     }
   }
 
-  // Audit log
+  await finishImportBatch(importBatch.id, { created: result.created, updated: result.updated });
+
   logAudit({
     organizationId: orgId,
     userId,
@@ -800,6 +1135,7 @@ export async function importContacts(
     entityName: `${format} contact import`,
     metadata: {
       format,
+      batchId: importBatch.id,
       created: result.created,
       updated: result.updated,
       skipped: result.skipped,
@@ -831,7 +1167,9 @@ export async function importCompanies(
     return result;
   }
 
-  const tagId = await getOrCreateImportTag(orgId, format);
+  const importBatch = await createImportBatch(orgId, { source: format, entityType: 'company', userId });
+  const tagId = await getOrCreateImportTag(orgId, format, importBatch.id);
+  result.batchId = importBatch.id;
 
   for (let i = 0; i < companies.length; i += BATCH_SIZE) {
     const batch = companies.slice(i, i + BATCH_SIZE);
@@ -889,32 +1227,32 @@ export async function importCompanies(
 
         if (existing) {
           // Update existing company (non-destructive)
-          await prisma.company.update({
-            where: { id: existing.id },
-            data: {
-              domain: existing.domain || domain || null,
-              industry: existing.industry || company.industry || null,
-              size: existing.size || normalizedSize,
-              website: existing.website || company.website || null,
-              email: existing.email || company.email || null,
-              phone: existing.phone || company.phone || null,
-              linkedIn: existing.linkedIn || company.linkedIn || null,
-              twitter: existing.twitter || company.twitter || null,
-              githubOrg: existing.githubOrg || company.githubOrg || null,
-              description: existing.description || company.description || null,
-              address: existing.address || company.address || null,
-              city: existing.city || company.city || null,
-              state: existing.state || company.state || null,
-              country: existing.country || company.country || null,
-              customFields: customFieldsJson,
-            },
-          });
-
-          await prisma.companyTag
+          const data = {
+            domain: existing.domain || domain || null,
+            industry: existing.industry || company.industry || null,
+            size: existing.size || normalizedSize,
+            website: existing.website || company.website || null,
+            email: existing.email || company.email || null,
+            phone: existing.phone || company.phone || null,
+            linkedIn: existing.linkedIn || company.linkedIn || null,
+            twitter: existing.twitter || company.twitter || null,
+            githubOrg: existing.githubOrg || company.githubOrg || null,
+            description: existing.description || company.description || null,
+            address: existing.address || company.address || null,
+            city: existing.city || company.city || null,
+            state: existing.state || company.state || null,
+            country: existing.country || company.country || null,
+            customFields: customFieldsJson,
+          };
+          await prisma.company.update({ where: { id: existing.id }, data });
+          await recordImportUpdated(importBatch.id, 'company', existing.id, existing, data);
+
+          const tagged = await prisma.companyTag
             .create({
               data: { companyId: existing.id, tagId },
             })
-            .catch(() => {});
+            .catch(() => null);
+          if (tagged) await recordImportTagged(importBatch.id, 'company', existing.id, tagId);
 
           result.updated++;
         } else {
@@ -940,6 +1278,8 @@ export async function importCompanies(
             },
           });
 
+          await recordImportCreated(importBatch.id, 'company', newCompany.id);
+
           await prisma.companyTag
             .create({
               data: { companyId: newCompany.id, tagId },
@@ -957,6 +1297,8 @@ export async function importCompanies(
     }
   }
 
+  await finishImportBatch(importBatch.id, { created: result.created, updated: result.updated });
+
   logAudit({
     organizationId: orgId,
     userId,
@@ -965,6 +1307,7 @@ export async function importCompanies(
     entityName: `${format} company import`,
     metadata: {
       format,
+      batchId: importBatch.id,
       created: result.created,
       updated: result.updated,
       skipped: result.skipped,
@@ -996,7 +1339,9 @@ export async function importDeals(
     return result;
   }
 
-  const tagId = await getOrCreateImportTag(orgId, format);
+  const importBatch = await createImportBatch(orgId, { source: format, entityType: 'deal', userId });
+  const tagId = await getOrCreateImportTag(orgId, format, importBatch.id);
+  result.batchId = importBatch.id;
 
   for (let i = 0; i < deals.length; i += BATCH_SIZE) {
     const batch = deals.slice(i, i + BATCH_SIZE);
@@ -1015,7 +1360,7 @@ export async function importDeals(
         // Look up company
         let companyId: string | null = null;
         if (deal.companyName) {
-          companyId = await findOrCreateCompany(orgId, deal.companyName);
+          companyId = await findOrCreateCompany(orgId, deal.companyName, importBatch.id);
         }
 
         // Map stage
@@ -1056,23 +1401,23 @@ export async function importDeals(
 
         if (existing) {
           // Update existing deal
-          await prisma.deal.update({
-            where: { id: existing.id },
-            data: {
-              stage: existing.stage === DealStage.ANONYMOUS_USAGE ? stage : existing.stage,
-              amount: existing.amount ?? deal.value ?? null,
-              companyId: existing.companyId || companyId,
-              expectedCloseDate: existing.expectedCloseDate || expectedCloseDate,
-              description: existing.description || deal.description || null,
-              customFields: customFieldsJson,
-            },
-          });
-
-          await prisma.dealTag
+          const data = {
+            stage: existing.stage === DealStage.ANONYMOUS_USAGE ? stage : existing.stage,
+            amount: existing.amount ?? deal.value ?? null,
+            companyId: existing.companyId || companyId,
+            expectedCloseDate: existing.expectedCloseDate || expectedCloseDate,
+            description: existing.description || deal.description || null,
+            customFields: customFieldsJson,
+          };
+          await prisma.deal.update({ where: { id: existing.id }, data });
+          await recordImportUpdated(importBatch.id, 'deal', existing.id, existing, data);
+
+          const tagged = await prisma.dealTag
             .create({
               data: { dealId: existing.id, tagId },
             })
-            .catch(() => {});
+            .catch(() => null);
+          if (tagged) await recordImportTagged(importBatch.id, 'deal', existing.id, tagId);
 
           result.updated++;
         } else {
@@ -1089,6 +1434,8 @@ export async function importDeals(
             },
           });
 
+          await recordImportCreated(importBatch.id, 'deal', newDeal.id);
+
           await prisma.dealTag
             .create({
               data: { dealId: newDeal.id, tagId },
@@ -1106,6 +1453,8 @@ export async function importDeals(
     }
   }
 
+  await finishImportBatch(importBatch.id, { created: result.created, updated: result.updated });
+
   logAudit({
     organizationId: orgId,
     userId,
@@ -1114,6 +1463,7 @@ export async function importDeals(
     entityName: `${format} deal import`,
     metadata: {
       format,
+      batchId: importBatch.id,
       created: result.created,
       updated: result.updated,
       skipped: result.skipped,
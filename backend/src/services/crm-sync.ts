@@ -0,0 +1,1108 @@
+import { Prisma, SyncHistoryStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import { logAudit } from './audit';
+
+// ---------------------------------------------------------------------------
+// CRM sync framework
+// ---------------------------------------------------------------------------
+// Each CRM (HubSpot, Salesforce, ...) implements CrmAdapter: how to open a
+// connection, register Sigscore fields, push companies / contacts / deals /
+// activity, and optionally pull remote changes from a cursor. Everything else
+// -- credential storage, sync status, running totals, SyncHistory rows, the
+// pull cursor, field-level conflict resolution and upserting pulled records
+// -- lives here, so a new CRM is a new adapter rather than another copy of
+// the sync loop.
+//
+// Adapter state lives in Organization.settings under the adapter's prefix,
+// e.g. `hubspotAccessToken`, `hubspotLastSyncAt`, `hubspotSyncCursor`.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CrmPushCounts {
+  created: number;
+  updated: number;
+  failed: number;
+}
+
+export interface CrmActivityCounts {
+  synced: number;
+  failed: number;
+}
+
+/** A single record the CRM rejected during a push. */
+export interface CrmRowError {
+  /** CRM object name, e.g. "Contact". */
+  object: string;
+  /** Sigscore record id, when the CRM echoed it back. */
+  recordId: string | null;
+  error: string;
+}
+
+export interface CrmSyncContext {
+  organizationId: string;
+  /** Only push records changed since this time; null for a full sync. */
+  since: Date | null;
+  /** Adapters append rejected records here; stored on the SyncHistory row. */
+  rowErrors: CrmRowError[];
+}
+
+export interface CrmPullContext extends CrmSyncContext {
+  /** Opaque adapter cursor from the previous pull; null for a full sync. */
+  cursor: string | null;
+}
+
+/** Fields common to every record an adapter pulls. */
+interface CrmRemoteRecord {
+  externalId: string;
+  /** Remote last-modified time, used by the `newest` conflict policy. */
+  modifiedAt?: Date | null;
+  /** Owner email; matched to an org member to set ownerId. */
+  ownerEmail?: string | null;
+  /** Kept in customFields.lifecycleStage. */
+  lifecycleStage?: string | null;
+}
+
+/** A remote company normalized by the adapter. */
+export interface CrmCompanyRecord extends CrmRemoteRecord {
+  name: string;
+  domain: string | null;
+  website?: string | null;
+  industry?: string | null;
+  phone?: string | null;
+}
+
+/** A remote contact normalized by the adapter. */
+export interface CrmContactRecord extends CrmRemoteRecord {
+  email: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  title?: string | null;
+  phone?: string | null;
+}
+
+/**
+ * A remote deal normalized by the adapter. Deals are only pulled into
+ * existing Sigscore deals (matched by `sigscoreId` or the stored CRM id).
+ */
+export interface CrmDealRecord extends CrmRemoteRecord {
+  sigscoreId?: string | null;
+  title?: string | null;
+  amount?: number | null;
+  expectedCloseDate?: Date | null;
+}
+
+export interface CrmPullBatch {
+  companies: CrmCompanyRecord[];
+  contacts: CrmContactRecord[];
+  deals?: CrmDealRecord[];
+  /** Cursor to resume from next time; null keeps the previous one. */
+  cursor: string | null;
+}
+
+/**
+ * How a field edited on both sides since the last sync is resolved:
+ * `crm` keeps the CRM value, `sigscore` keeps ours, `newest` compares the
+ * remote modified time with the local updatedAt.
+ */
+export type CrmConflictPolicy = 'crm' | 'sigscore' | 'newest';
+
+export type CrmObjectType = 'company' | 'contact' | 'deal';
+
+export const CRM_CONFLICT_POLICIES: CrmConflictPolicy[] = ['crm', 'sigscore', 'newest'];
+
+export const DEFAULT_CONFLICT_POLICY: CrmConflictPolicy = 'crm';
+
+/** Fields reconciled on pull. Policy keys are `<objectType>.<field>`. */
+export const CRM_PULLED_FIELDS: Record<CrmObjectType, string[]> = {
+  company: ['name', 'industry', 'phone', 'ownerId', 'lifecycleStage'],
+  contact: ['firstName', 'lastName', 'title', 'phone', 'lifecycleStage'],
+  deal: ['title', 'amount', 'expectedCloseDate', 'ownerId'],
+};
+
+/**
+ * Read access to an adapter's org settings. Keys are given without the
+ * prefix: `settings.get('AccessToken')` reads `hubspotAccessToken`.
+ */
+export interface CrmSettings {
+  raw: Record<string, unknown>;
+  get<T = unknown>(key: string): T | undefined;
+}
+
+/**
+ * Status fields every CRM reports. Adapters extend it with their statusDetails
+ * and `total<Object>Synced` counters.
+ */
+export interface CrmSyncStatus {
+  connected: boolean;
+  lastSyncAt: string | null;
+  lastSyncResult: unknown;
+  syncInProgress: boolean;
+}
+
+export interface CrmAdapter<TConnection> {
+  /** Stable id used for SyncHistory.provider, audit actions and customFields ids. */
+  provider: string;
+  /** Display name, e.g. "HubSpot". */
+  label: string;
+  /** Org settings key prefix, e.g. "hubspot". */
+  settingsPrefix: string;
+  /**
+   * Result keys for companies, deals and activity, which differ per CRM
+   * (e.g. Salesforce uses accounts / opportunities / tasks).
+   */
+  objectNames: { company: string; deal: string; activity: string };
+
+  /** Open a connection with valid credentials, refreshing tokens if needed. */
+  connect(organizationId: string, settings: CrmSettings): Promise<TConnection>;
+  /** Create the Sigscore custom fields / properties in the CRM (idempotent). */
+  registerFields(connection: TConnection): Promise<void>;
+
+  pushContacts(connection: TConnection, ctx: CrmSyncContext): Promise<CrmPushCounts>;
+  pushCompanies(connection: TConnection, ctx: CrmSyncContext): Promise<CrmPushCounts>;
+  pushDeals(connection: TConnection, ctx: CrmSyncContext): Promise<CrmPushCounts>;
+  /** Push recent signals as CRM activity (notes, tasks). */
+  pushActivities?(connection: TConnection, ctx: CrmSyncContext): Promise<CrmActivityCounts>;
+  /** Fetch remote companies and contacts changed since the cursor. */
+  pullChanges?(connection: TConnection, ctx: CrmPullContext): Promise<CrmPullBatch>;
+
+  /** Extra adapter fields for the status response (portal id, instance URL). */
+  statusDetails?(settings: CrmSettings): Record<string, unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// Settings helpers
+// ---------------------------------------------------------------------------
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+/** Singular, capitalized object name for stage errors: "opportunities" -> "Opportunity". */
+const stageName = (objectName: string): string =>
+  capitalize(objectName.replace(/ies$/, 'y').replace(/s$/, ''));
+
+export async function loadCrmSettings(organizationId: string, prefix: string): Promise<CrmSettings> {
+  const org = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { settings: true },
+  });
+
+  if (!org) {
+    throw new AppError('Organization not found', 404);
+  }
+
+  const raw = (org.settings as Record<string, unknown>) ?? {};
+  return {
+    raw,
+    get: <T = unknown>(key: string) => raw[`${prefix}${key}`] as T | undefined,
+  };
+}
+
+/**
+ * Merge prefixed keys into org settings: `{ AccessToken: 'x' }` under the
+ * "hubspot" prefix writes `hubspotAccessToken`.
+ */
+export async function saveCrmSettings(
+  organizationId: string,
+  prefix: string,
+  patch: Record<string, unknown>,
+): Promise<void> {
+  const org = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { settings: true },
+  });
+  if (!org) return;
+
+  const current = (org.settings as Record<string, unknown>) ?? {};
+  const prefixed = Object.fromEntries(
+    Object.entries(patch).map(([key, value]) => [`${prefix}${key}`, value]),
+  );
+
+  await prisma.organization.update({
+    where: { id: organizationId },
+    data: { settings: { ...current, ...prefixed } as Prisma.InputJsonValue },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers for adapters
+// ---------------------------------------------------------------------------
+
+/** Split records into batches of at most `size`. */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Follow a paginated API until it runs out of pages (or `maxPages`, to
+ * bound a runaway sync). `fetchPage` receives the previous page's cursor.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (cursor: string | null) => Promise<{ items: T[]; next: string | null }>,
+  maxPages = 50,
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | null = null;
+
+  for (let page = 0; page < maxPages; page++) {
+    const result = await fetchPage(cursor);
+    items.push(...result.items);
+    if (!result.next) return items;
+    cursor = result.next;
+  }
+
+  logger.warn('CRM pagination stopped at page limit', { maxPages, fetched: items.length });
+  return items;
+}
+
+/** YYYY-MM-DD, the date format CRM date fields expect. */
+export function toCrmDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/** Extract a bare hostname from a CRM website field. */
+export function domainFromWebsite(website: string | null | undefined): string | null {
+  if (!website) return null;
+  try {
+    return new URL(website.startsWith('http') ? website : `https://${website}`).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// ---------------------------------------------------------------------------
+// Conflict resolution
+// ---------------------------------------------------------------------------
+
+export interface CrmConflictPolicySettings {
+  defaultPolicy: CrmConflictPolicy;
+  /** Per-field overrides keyed `<objectType>.<field>`. */
+  fields: Record<string, CrmConflictPolicy>;
+}
+
+export interface CrmFieldConflict {
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  policy: CrmConflictPolicy;
+  winner: 'crm' | 'sigscore';
+}
+
+interface ReconcileInput {
+  objectType: CrmObjectType;
+  local: Record<string, unknown>;
+  remote: Record<string, unknown>;
+  /** Field values recorded at the last sync; undefined if never synced. */
+  shadow: Record<string, unknown> | undefined;
+  localUpdatedAt: Date;
+  remoteModifiedAt?: Date | null;
+  policies: CrmConflictPolicySettings;
+}
+
+const isEmpty = (value: unknown): boolean => value === null || value === undefined || value === '';
+
+/** JSON-safe, comparable form of a field value. */
+const normalizeValue = (value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : isEmpty(value) ? null : value;
+
+const sameValue = (a: unknown, b: unknown): boolean => normalizeValue(a) === normalizeValue(b);
+
+/**
+ * Three-way merge of pulled fields against the local record and the values
+ * recorded at the last sync (the shadow). A field changed on one side only
+ * takes that side's value; a field changed on both sides is a conflict
+ * settled by its policy. Empty remote values never clear local data.
+ *
+ * Returns the local changes to apply, the conflicts, and the new shadow.
+ */
+export function reconcileFields(input: ReconcileInput): {
+  changes: Record<string, unknown>;
+  conflicts: CrmFieldConflict[];
+  synced: Record<string, unknown>;
+} {
+  const { objectType, local, remote, shadow, policies } = input;
+  const changes: Record<string, unknown> = {};
+  const conflicts: CrmFieldConflict[] = [];
+  const synced: Record<string, unknown> = { ...shadow };
+
+  for (const [field, remoteValue] of Object.entries(remote)) {
+    if (isEmpty(remoteValue)) continue;
+
+    const localValue = local[field];
+    synced[field] = normalizeValue(remoteValue);
+    if (sameValue(localValue, remoteValue)) continue;
+
+    const known = shadow !== undefined && field in shadow;
+    const remoteChanged = !known || !sameValue(remoteValue, shadow[field]);
+    const localChanged = !known || !sameValue(localValue, shadow[field]);
+
+    // Only Sigscore changed since the last sync -- keep our value
+    if (!remoteChanged) continue;
+
+    if (isEmpty(localValue) || !localChanged) {
+      changes[field] = remoteValue;
+      continue;
+    }
+
+    const policy = policies.fields[`${objectType}.${field}`] ?? policies.defaultPolicy;
+    let winner: CrmFieldConflict['winner'] = policy === 'sigscore' ? 'sigscore' : 'crm';
+    if (policy === 'newest' && input.remoteModifiedAt) {
+      winner = input.remoteModifiedAt > input.localUpdatedAt ? 'crm' : 'sigscore';
+    }
+
+    if (winner === 'crm') changes[field] = remoteValue;
+    conflicts.push({
+      field,
+      localValue: normalizeValue(localValue),
+      remoteValue: normalizeValue(remoteValue),
+      policy,
+      winner,
+    });
+  }
+
+  return { changes, conflicts, synced };
+}
+
+// ---------------------------------------------------------------------------
+// Pulled record upserts
+// ---------------------------------------------------------------------------
+
+interface PullState {
+  provider: string;
+  organizationId: string;
+  policies: CrmConflictPolicySettings;
+  /** Lowercased owner email -> Sigscore user id. */
+  owners: Map<string, string>;
+  conflicts: Prisma.CrmSyncConflictCreateManyInput[];
+}
+
+interface PulledCounts {
+  companies: CrmPushCounts;
+  contacts: CrmPushCounts;
+  deals: CrmPushCounts;
+  conflicts: number;
+}
+
+/** Match CRM owner emails to members of the organization. */
+async function resolveOwners(organizationId: string, batch: CrmPullBatch): Promise<Map<string, string>> {
+  const emails = [
+    ...new Set(
+      [...batch.companies, ...batch.contacts, ...(batch.deals ?? [])]
+        .map((record) => record.ownerEmail?.toLowerCase())
+        .filter((email): email is string => !!email),
+    ),
+  ];
+  if (emails.length === 0) return new Map();
+
+  const users = await prisma.user.findMany({
+    where: {
+      email: { in: emails, mode: 'insensitive' },
+      organizations: { some: { organizationId } },
+    },
+    select: { id: true, email: true },
+  });
+
+  return new Map(users.map((user) => [user.email.toLowerCase(), user.id]));
+}
+
+/**
+ * customFields key listing the CRM ids of companies merged into a record, so
+ * pulls of those CRM records still find it (see mergeCompanies).
+ */
+export const mergedIdsKey = (provider: string): string => `${provider}MergedIds`;
+
+const ownerIdFor = (state: PullState, record: CrmRemoteRecord): string | undefined =>
+  record.ownerEmail ? state.owners.get(record.ownerEmail.toLowerCase()) : undefined;
+
+/** Shadow values for a record created from the CRM. */
+const initialShadow = (remote: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(remote)
+      .filter(([, value]) => !isEmpty(value))
+      .map(([field, value]) => [field, normalizeValue(value)]),
+  );
+
+/**
+ * Reconcile a pulled record against an existing Sigscore record and build
+ * the update data: changed columns plus customFields carrying the CRM id,
+ * the lifecycle stage and the new shadow. Conflicts are queued on `state`.
+ *
+ * Returns null when nothing would change. Writing anyway would bump
+ * `updatedAt`, so the following push would send the record straight back.
+ */
+function buildPulledUpdate(
+  state: PullState,
+  objectType: CrmObjectType,
+  existing: { id: string; updatedAt: Date; customFields: Prisma.JsonValue },
+  localColumns: Record<string, unknown>,
+  record: CrmRemoteRecord,
+  remote: Record<string, unknown>,
+): Record<string, unknown> | null {
+  const custom = (existing.customFields as Record<string, unknown>) ?? {};
+  const shadowKey = `${state.provider}Synced`;
+  const idKey = `${state.provider}Id`;
+  const shadow = custom[shadowKey] as Record<string, unknown> | undefined;
+  // A record merged into this one keeps pointing here without taking over its id
+  const mergedIds = custom[mergedIdsKey(state.provider)];
+  const viaMerge = Array.isArray(mergedIds) && mergedIds.includes(record.externalId);
+
+  const { changes, conflicts, synced } = reconcileFields({
+    objectType,
+    local: { ...localColumns, lifecycleStage: custom.lifecycleStage },
+    remote,
+    shadow,
+    localUpdatedAt: existing.updatedAt,
+    remoteModifiedAt: record.modifiedAt,
+    policies: state.policies,
+  });
+
+  for (const conflict of conflicts) {
+    state.conflicts.push({
+      organizationId: state.organizationId,
+      provider: state.provider,
+      objectType,
+      recordId: existing.id,
+      externalId: record.externalId,
+      field: conflict.field,
+      localValue: conflict.localValue as Prisma.InputJsonValue,
+      remoteValue: conflict.remoteValue as Prisma.InputJsonValue,
+      policy: conflict.policy,
+      winner: conflict.winner,
+    });
+  }
+
+  const shadowUnchanged =
+    shadow !== undefined &&
+    Object.keys(synced).length === Object.keys(shadow).length &&
+    Object.entries(synced).every(([field, value]) => sameValue(value, shadow[field]));
+  if (Object.keys(changes).length === 0 && (viaMerge || custom[idKey] === record.externalId) && shadowUnchanged) {
+    return null;
+  }
+
+  const { lifecycleStage, ...columns } = changes;
+  return {
+    ...columns,
+    customFields: {
+      ...custom,
+      ...(lifecycleStage !== undefined && { lifecycleStage }),
+      ...(!viaMerge && { [idKey]: record.externalId }),
+      [shadowKey]: synced,
+    } as Prisma.InputJsonValue,
+  };
+}
+
+/**
+ * Upsert remote companies, matched by domain, a previously stored CRM id or
+ * the id of a company merged into one of ours.
+ */
+async function upsertPulledCompanies(state: PullState, records: CrmCompanyRecord[]): Promise<CrmPushCounts> {
+  const result = { created: 0, updated: 0, failed: 0 };
+  const { provider, organizationId } = state;
+  const idField = `${provider}Id`;
+
+  for (const record of records) {
+    try {
+      const remote = {
+        name: record.name,
+        industry: record.industry,
+        phone: record.phone,
+        ownerId: ownerIdFor(state, record),
+        lifecycleStage: record.lifecycleStage,
+      };
+
+      const existing = await prisma.company.findFirst({
+        where: {
+          organizationId,
+          OR: [
+            ...(record.domain ? [{ domain: record.domain }] : []),
+            { customFields: { path: [idField], equals: record.externalId } },
+            { customFields: { path: [mergedIdsKey(provider)], array_contains: [record.externalId] } },
+          ],
+        },
+        select: {
+          id: true,
+          name: true,
+          industry: true,
+          phone: true,
+          ownerId: true,
+          customFields: true,
+          updatedAt: true,
+        },
+      });
+
+      if (existing) {
+        const { name, industry, phone, ownerId } = existing;
+        const data = buildPulledUpdate(state, 'company', existing, { name, industry, phone, ownerId }, record, remote);
+        if (data) {
+          await prisma.company.update({ where: { id: existing.id }, data });
+          result.updated++;
+        }
+      } else {
+        await prisma.company.create({
+          data: {
+            organizationId,
+            name: record.name,
+            domain: record.domain,
+            website: record.website ?? null,
+            industry: record.industry ?? null,
+            phone: record.phone ?? null,
+            ownerId: remote.ownerId ?? null,
+            customFields: {
+              [idField]: record.externalId,
+              source: provider,
+              ...(record.lifecycleStage && { lifecycleStage: record.lifecycleStage }),
+              [`${provider}Synced`]: initialShadow(remote),
+            } as Prisma.InputJsonValue,
+          },
+        });
+        result.created++;
+      }
+    } catch (error) {
+      result.failed++;
+      logger.warn(`Failed to upsert company from ${provider}`, {
+        externalId: record.externalId,
+        error: errorMessage(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+/** Upsert remote contacts, matched by email. */
+async function upsertPulledContacts(state: PullState, records: CrmContactRecord[]): Promise<CrmPushCounts> {
+  const result = { created: 0, updated: 0, failed: 0 };
+  const { provider, organizationId } = state;
+
+  for (const record of records) {
+    try {
+      const remote = {
+        firstName: record.firstName,
+        lastName: record.lastName,
+        title: record.title,
+        phone: record.phone,
+        lifecycleStage: record.lifecycleStage,
+      };
+
+      const existing = await prisma.contact.findFirst({
+        where: { organizationId, email: record.email },
+      });
+
+      if (existing) {
+        const { firstName, lastName, title, phone } = existing;
+        const data = buildPulledUpdate(state, 'contact', existing, { firstName, lastName, title, phone }, record, remote);
+        if (data) {
+          await prisma.contact.update({ where: { id: existing.id }, data });
+          result.updated++;
+        }
+      } else {
+        await prisma.contact.create({
+          data: {
+            organizationId,
+            email: record.email,
+            firstName: record.firstName || 'Unknown',
+            lastName: record.lastName || record.email.split('@')[0],
+            title: record.title || null,
+            phone: record.phone || null,
+            customFields: {
+              [`${provider}Id`]: record.externalId,
+              source: provider,
+              ...(record.lifecycleStage && { lifecycleStage: record.lifecycleStage }),
+              [`${provider}Synced`]: initialShadow(remote),
+            } as Prisma.InputJsonValue,
+          },
+        });
+        result.created++;
+      }
+    } catch (error) {
+      result.failed++;
+      logger.warn(`Failed to upsert contact from ${provider}`, {
+        externalId: record.externalId,
+        error: errorMessage(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply remote deal changes to existing Sigscore deals. Deals that only
+ * exist in the CRM are skipped: their pipeline stages don't map onto ours.
+ */
+async function updatePulledDeals(state: PullState, records: CrmDealRecord[]): Promise<CrmPushCounts> {
+  const result = { created: 0, updated: 0, failed: 0 };
+  const { provider, organizationId } = state;
+
+  for (const record of records) {
+    try {
+      const existing = await prisma.deal.findFirst({
+        where: {
+          organizationId,
+          ...(record.sigscoreId
+            ? { id: record.sigscoreId }
+            : { customFields: { path: [`${provider}Id`], equals: record.externalId } }),
+        },
+      });
+      if (!existing) continue;
+
+      const { title, amount, expectedCloseDate, ownerId } = existing;
+      const data = buildPulledUpdate(
+        state,
+        'deal',
+        existing,
+        { title, amount, expectedCloseDate, ownerId },
+        record,
+        {
+          title: record.title,
+          amount: record.amount,
+          expectedCloseDate: record.expectedCloseDate,
+          ownerId: ownerIdFor(state, record),
+        },
+      );
+      if (!data) continue;
+
+      await prisma.deal.update({ where: { id: existing.id }, data });
+      result.updated++;
+    } catch (error) {
+      result.failed++;
+      logger.warn(`Failed to update deal from ${provider}`, {
+        externalId: record.externalId,
+        error: errorMessage(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+/** Upsert a pulled batch and persist any field conflicts to the conflict log. */
+async function applyPulledBatch(
+  provider: string,
+  organizationId: string,
+  batch: CrmPullBatch,
+  policies: CrmConflictPolicySettings,
+): Promise<PulledCounts> {
+  const state: PullState = {
+    provider,
+    organizationId,
+    policies,
+    owners: await resolveOwners(organizationId, batch),
+    conflicts: [],
+  };
+
+  const companies = await upsertPulledCompanies(state, batch.companies);
+  const contacts = await upsertPulledContacts(state, batch.contacts);
+  const deals = await updatePulledDeals(state, batch.deals ?? []);
+
+  if (state.conflicts.length > 0) {
+    await prisma.crmSyncConflict.createMany({ data: state.conflicts });
+  }
+
+  return { companies, contacts, deals, conflicts: state.conflicts.length };
+}
+
+const loadConflictPolicies = (settings: CrmSettings): CrmConflictPolicySettings => {
+  const stored = settings.get<Partial<CrmConflictPolicySettings>>('ConflictPolicy');
+  return {
+    defaultPolicy: stored?.defaultPolicy ?? DEFAULT_CONFLICT_POLICY,
+    fields: stored?.fields ?? {},
+  };
+};
+
+const emptyCounts = (): CrmPushCounts => ({ created: 0, updated: 0, failed: 0 });
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Store credentials (unprefixed keys, e.g. `{ AccessToken, RefreshToken }`)
+ * and register Sigscore fields in the CRM.
+ */
+export async function connectCrm<TConnection>(
+  adapter: CrmAdapter<TConnection>,
+  organizationId: string,
+  credentials: Record<string, unknown>,
+): Promise<void> {
+  await saveCrmSettings(organizationId, adapter.settingsPrefix, credentials);
+
+  const settings = await loadCrmSettings(organizationId, adapter.settingsPrefix);
+  const connection = await adapter.connect(organizationId, settings);
+  await adapter.registerFields(connection);
+
+  logAudit({
+    organizationId,
+    action: `${adapter.provider}_connect`,
+    entityType: 'integration',
+    entityName: adapter.label,
+    metadata: adapter.statusDetails?.(settings),
+  });
+
+  logger.info(`${adapter.label} connected`, { organizationId });
+}
+
+/** Remove every setting under the adapter's prefix. */
+export async function disconnectCrm<TConnection>(
+  adapter: CrmAdapter<TConnection>,
+  organizationId: string,
+): Promise<void> {
+  const { raw } = await loadCrmSettings(organizationId, adapter.settingsPrefix);
+
+  const rest = Object.fromEntries(
+    Object.entries(raw).filter(([key]) => !key.startsWith(adapter.settingsPrefix)),
+  );
+
+  await prisma.organization.update({
+    where: { id: organizationId },
+    data: { settings: rest as Prisma.InputJsonValue },
+  });
+
+  logAudit({
+    organizationId,
+    action: `${adapter.provider}_disconnect`,
+    entityType: 'integration',
+    entityName: adapter.label,
+  });
+
+  logger.info(`${adapter.label} disconnected`, { organizationId });
+}
+
+/**
+ * Sync status: connection, last result, in-progress flag and running totals
+ * (`totalContactsSynced`, `total<Company>Synced`, `total<Deal>Synced`).
+ */
+export async function getCrmSyncStatus<TConnection, TStatus extends CrmSyncStatus>(
+  adapter: CrmAdapter<TConnection>,
+  organizationId: string,
+): Promise<TStatus> {
+  const settings = await loadCrmSettings(organizationId, adapter.settingsPrefix);
+  const totalKeys = ['contacts', adapter.objectNames.company, adapter.objectNames.deal].map(
+    (name) => `Total${capitalize(name)}Synced`,
+  );
+
+  return {
+    connected: !!settings.get('AccessToken'),
+    lastSyncAt: settings.get<string>('LastSyncAt') || null,
+    lastSyncResult: settings.get('LastSyncResult') || null,
+    syncInProgress: settings.get<boolean>('SyncInProgress') || false,
+    ...adapter.statusDetails?.(settings),
+    ...Object.fromEntries(totalKeys.map((key) => [`t${key.slice(1)}`, settings.get<number>(key) || 0])),
+  } as TStatus;
+}
+
+/**
+ * Effective conflict policy for every pulled field, plus the org default.
+ */
+export async function getCrmConflictPolicy<TConnection>(
+  adapter: CrmAdapter<TConnection>,
+  organizationId: string,
+): Promise<CrmConflictPolicySettings> {
+  const settings = await loadCrmSettings(organizationId, adapter.settingsPrefix);
+  const policies = loadConflictPolicies(settings);
+
+  const fields: Record<string, CrmConflictPolicy> = {};
+  for (const [objectType, names] of Object.entries(CRM_PULLED_FIELDS)) {
+    for (const name of names) {
+      const key = `${objectType}.${name}`;
+      fields[key] = policies.fields[key] ?? policies.defaultPolicy;
+    }
+  }
+
+  return { defaultPolicy: policies.defaultPolicy, fields };
+}
+
+/**
+ * Update the default policy and/or the per-field overrides. A `fields` map
+ * replaces the stored overrides; fields left out follow the default.
+ */
+export async function updateCrmConflictPolicy<TConnection>(
+  adapter: CrmAdapter<TConnection>,
+  organizationId: string,
+  update: { defaultPolicy?: CrmConflictPolicy; fields?: Record<string, CrmConflictPolicy> },
+): Promise<CrmConflictPolicySettings> {
+  const known = new Set(
+    Object.entries(CRM_PULLED_FIELDS).flatMap(([objectType, names]) => names.map((n) => `${objectType}.${n}`)),
+  );
+  for (const key of Object.keys(update.fields ?? {})) {
+    if (!known.has(key)) {
+      throw new AppError(`Unknown sync field "${key}"`, 400);
+    }
+  }
+
+  const current = loadConflictPolicies(await loadCrmSettings(organizationId, adapter.settingsPrefix));
+  await saveCrmSettings(organizationId, adapter.settingsPrefix, {
+    ConflictPolicy: {
+      defaultPolicy: update.defaultPolicy ?? current.defaultPolicy,
+      fields: update.fields ?? current.fields,
+    },
+  });
+
+  return getCrmConflictPolicy(adapter, organizationId);
+}
+
+/** Recent field conflicts for a CRM, newest first. */
+export async function getCrmConflicts<TConnection>(
+  adapter: CrmAdapter<TConnection>,
+  organizationId: string,
+  limit = 50,
+) {
+  return prisma.crmSyncConflict.findMany({
+    where: { organizationId, provider: adapter.provider },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
+
+/** Recent sync runs for a CRM, newest first. */
+export async function getCrmSyncHistory<TConnection>(
+  adapter: CrmAdapter<TConnection>,
+  organizationId: string,
+  limit = 50,
+) {
+  return prisma.syncHistory.findMany({
+    where: { organizationId, provider: adapter.provider },
+    orderBy: { startedAt: 'desc' },
+    take: limit,
+    select: {
+      id: true,
+      status: true,
+      signalsCreated: true,
+      signalsUpdated: true,
+      errors: true,
+      errorDetails: true,
+      details: true,
+      durationMs: true,
+      startedAt: true,
+      completedAt: true,
+    },
+  });
+}
+
+/** A sync run including the records the CRM rejected. */
+export async function getCrmSyncRun<TConnection>(
+  adapter: CrmAdapter<TConnection>,
+  organizationId: string,
+  runId: string,
+) {
+  const run = await prisma.syncHistory.findFirst({
+    where: { id: runId, organizationId, provider: adapter.provider },
+  });
+  if (!run) {
+    throw new AppError('Sync run not found', 404);
+  }
+  return run;
+}
+
+// Cap on rejected rows stored per run; the error count still covers all of them
+const MAX_STORED_ROW_ERRORS = 1000;
+
+/**
+ * Run a full or incremental sync: pull remote changes (if the adapter
+ * supports it), then push contacts, companies, deals and activity. A failing
+ * stage is recorded in `errors` without stopping the others. Every run gets a
+ * SyncHistory row, with any records the CRM rejected in `rowErrors`; sync
+ * status and totals are kept in org settings.
+ *
+ * Returns `{ contacts, <company>, <deal>, <activity>, errors }` keyed by the
+ * adapter's object names, counting pushed records. Adapters that pull also
+ * get `pulled: { contacts, <company>, <deal> }`.
+ */
+export async function runCrmSync<TConnection, TResult>(
+  adapter: CrmAdapter<TConnection>,
+  organizationId: string,
+  fullSync = false,
+): Promise<TResult> {
+  const prefix = adapter.settingsPrefix;
+  const settings = await loadCrmSettings(organizationId, prefix);
+
+  if (!settings.get('AccessToken')) {
+    throw new AppError(`${adapter.label} is not connected`, 400);
+  }
+
+  await saveCrmSettings(organizationId, prefix, { SyncInProgress: true });
+
+  const startedAt = Date.now();
+  const history = await prisma.syncHistory.create({
+    data: { organizationId, provider: adapter.provider },
+    select: { id: true },
+  });
+
+  const { company, deal, activity } = adapter.objectNames;
+  const counts = {
+    contacts: emptyCounts(),
+    companies: emptyCounts(),
+    deals: emptyCounts(),
+    activities: { synced: 0, failed: 0 },
+  };
+  const pulled = adapter.pullChanges
+    ? { contacts: emptyCounts(), companies: emptyCounts(), deals: emptyCounts() }
+    : null;
+  const errors: string[] = [];
+  const rowErrors: CrmRowError[] = [];
+  let conflicts = 0;
+
+  const buildResult = () =>
+    ({
+      contacts: counts.contacts,
+      [company]: counts.companies,
+      [deal]: counts.deals,
+      [activity]: counts.activities,
+      ...(pulled && {
+        pulled: { contacts: pulled.contacts, [company]: pulled.companies, [deal]: pulled.deals },
+      }),
+      conflicts,
+      errors,
+    }) as TResult;
+
+  const storedRowErrors = () =>
+    rowErrors.length > 0
+      ? { rowErrors: rowErrors.slice(0, MAX_STORED_ROW_ERRORS) as unknown as Prisma.InputJsonValue }
+      : {};
+
+  const runStage = async (name: string, stage: () => Promise<void>) => {
+    try {
+      await stage();
+    } catch (error) {
+      const msg = errorMessage(error);
+      errors.push(`${name} sync failed: ${msg}`);
+      logger.error(`${adapter.label} ${name.toLowerCase()} sync failed`, { organizationId, error: msg });
+    }
+  };
+
+  try {
+    const connection = await adapter.connect(organizationId, settings);
+    const lastSyncAt = settings.get<string>('LastSyncAt');
+    const since = !fullSync && lastSyncAt ? new Date(lastSyncAt) : null;
+    const ctx: CrmSyncContext = { organizationId, since, rowErrors };
+
+    // Pull first so pushes don't overwrite fresher remote values
+    let nextCursor = null as string | null;
+    if (adapter.pullChanges) {
+      await runStage('Pull', async () => {
+        // Adapters that predate cursors resume from the last sync time
+        const cursor = fullSync ? null : settings.get<string>('SyncCursor') ?? lastSyncAt ?? null;
+        const batch = await adapter.pullChanges!(connection, { ...ctx, cursor });
+        const applied = await applyPulledBatch(
+          adapter.provider,
+          organizationId,
+          batch,
+          loadConflictPolicies(settings),
+        );
+        Object.assign(pulled!, { companies: applied.companies, contacts: applied.contacts, deals: applied.deals });
+        conflicts = applied.conflicts;
+        nextCursor = batch.cursor;
+      });
+    }
+
+    await runStage('Contact', async () => {
+      counts.contacts = await adapter.pushContacts(connection, ctx);
+    });
+    await runStage(stageName(company), async () => {
+      counts.companies = await adapter.pushCompanies(connection, ctx);
+    });
+    await runStage(stageName(deal), async () => {
+      counts.deals = await adapter.pushDeals(connection, ctx);
+    });
+    if (adapter.pushActivities) {
+      await runStage(stageName(activity), async () => {
+        counts.activities = await adapter.pushActivities!(connection, ctx);
+      });
+    }
+
+    const result = buildResult();
+    const synced = (c: CrmPushCounts) => c.created + c.updated;
+
+    await saveCrmSettings(organizationId, prefix, {
+      LastSyncAt: new Date(startedAt).toISOString(),
+      LastSyncResult: result,
+      SyncInProgress: false,
+      ...(nextCursor && { SyncCursor: nextCursor }),
+      TotalContactsSynced: (settings.get<number>('TotalContactsSynced') || 0) + synced(counts.contacts),
+      [`Total${capitalize(company)}Synced`]:
+        (settings.get<number>(`Total${capitalize(company)}Synced`) || 0) + synced(counts.companies),
+      [`Total${capitalize(deal)}Synced`]:
+        (settings.get<number>(`Total${capitalize(deal)}Synced`) || 0) + synced(counts.deals),
+    });
+
+    const pullFailed = pulled ? pulled.contacts.failed + pulled.companies.failed + pulled.deals.failed : 0;
+    const failed =
+      counts.contacts.failed + counts.companies.failed + counts.deals.failed + counts.activities.failed + pullFailed;
+    await prisma.syncHistory.update({
+      where: { id: history.id },
+      data: {
+        status: errors.length > 0 || failed > 0 ? SyncHistoryStatus.PARTIAL : SyncHistoryStatus.COMPLETED,
+        signalsCreated: counts.contacts.created + counts.companies.created + counts.deals.created,
+        signalsUpdated: counts.contacts.updated + counts.companies.updated + counts.deals.updated,
+        errors: failed + errors.length,
+        errorDetails: errors[errors.length - 1] ?? null,
+        details: result as unknown as Prisma.InputJsonValue,
+        ...storedRowErrors(),
+        durationMs: Date.now() - startedAt,
+        completedAt: new Date(),
+      },
+    });
+
+    logAudit({
+      organizationId,
+      action: `${adapter.provider}_sync`,
+      entityType: 'integration',
+      entityName: adapter.label,
+      metadata: { fullSync, ...counts, ...(pulled && { pulled }), conflicts, errorCount: errors.length },
+    });
+
+    logger.info(`${adapter.label} sync completed`, { organizationId, ...counts });
+
+    return result;
+  } catch (error) {
+    // Mark sync as no longer in progress on failure
+    await saveCrmSettings(organizationId, prefix, { SyncInProgress: false });
+
+    const msg = errorMessage(error);
+    await prisma.syncHistory.update({
+      where: { id: history.id },
+      data: {
+        status: SyncHistoryStatus.FAILED,
+        errors: errors.length + 1,
+        errorDetails: msg,
+        details: buildResult() as unknown as Prisma.InputJsonValue,
+        ...storedRowErrors(),
+        durationMs: Date.now() - startedAt,
+        completedAt: new Date(),
+      },
+    });
+
+    logger.error(`${adapter.label} sync failed`, { organizationId, error: msg });
+
+    throw error;
+  }
+}
+
+/**
+ * Organizations with this CRM connected. Used by the scheduler to trigger
+ * periodic syncs.
+ */
+export async function getCrmConnectedOrganizations<TConnection>(
+  adapter: CrmAdapter<TConnection>,
+): Promise<string[]> {
+  const orgs = await prisma.organization.findMany({
+    where: {
+      settings: {
+        path: [`${adapter.settingsPrefix}AccessToken`],
+        not: Prisma.AnyNull,
+      },
+    },
+    select: { id: true },
+  });
+
+  return orgs.map((org) => org.id);
+}
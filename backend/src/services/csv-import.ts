@@ -1,12 +1,24 @@
+import { CustomFieldDefinition, Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
+import { AppError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { coerceCustomFieldValue, CustomFieldEntityType } from './custom-fields';
+import { createImportBatch, finishImportBatch, recordImportCreated } from './import-batches';
 
 // ---------------------------------------------------------------------------
 // CSV Parser — handles quoted fields, commas inside quotes, double-quote
 // escaping ("" -> "), \r\n and \n line endings, and BOM stripping.
 // ---------------------------------------------------------------------------
 
-export function parseCSV(content: string): { headers: string[]; rows: Record<string, string>[] } {
+export interface ParsedCSV {
+  /** Trimmed, lowercased header names; these key every row. */
+  headers: string[];
+  /** Header names as written in the file, for display. */
+  labels: string[];
+  rows: Record<string, string>[];
+}
+
+export function parseCSV(content: string): ParsedCSV {
   // Strip BOM
   let csv = content.replace(/^\uFEFF/, '');
 
@@ -72,7 +84,7 @@ export function parseCSV(content: string): { headers: string[]; rows: Record<str
   }
 
   if (rows.length === 0) {
-    return { headers: [], rows: [] };
+    return { headers: [], labels: [], rows: [] };
   }
 
   // First row is headers — normalize to trimmed lowercase
@@ -92,7 +104,7 @@ export function parseCSV(content: string): { headers: string[]; rows: Record<str
     dataRows.push(obj);
   }
 
-  return { headers, rows: dataRows };
+  return { headers, labels: rawHeaders.map((h) => h.trim()), rows: dataRows };
 }
 
 // ---------------------------------------------------------------------------
@@ -252,6 +264,396 @@ function normalizeCompanySize(size: string): string | undefined {
   return undefined;
 }
 
+// ---------------------------------------------------------------------------
+// Column Mapping — user-confirmed mappings for two-phase imports
+// ---------------------------------------------------------------------------
+// A mapping is keyed by normalized CSV header. Each header maps to a standard
+// field, 'fullName' (contacts only, split into first/last name), a custom
+// field as 'custom:<fieldName>', or null to ignore the column.
+
+export type ImportEntityType = CustomFieldEntityType;
+
+export type ColumnMapping = Record<string, string | null>;
+
+export type ImportFieldDefinition = Pick<
+  CustomFieldDefinition,
+  'fieldName' | 'displayName' | 'fieldType' | 'options' | 'required'
+>;
+
+export interface ImportTarget {
+  value: string;
+  label: string;
+  custom: boolean;
+  required: boolean;
+}
+
+export interface MappedRow {
+  fields: Record<string, string>;
+  customFields: Record<string, unknown>;
+}
+
+export interface ImportValidation {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  /** Per-row errors, capped at MAX_VALIDATION_ERRORS rows. */
+  errors: Array<{ row: number; errors: string[] }>;
+}
+
+export const CUSTOM_TARGET_PREFIX = 'custom:';
+const FULL_NAME_TARGET = 'fullName';
+const FULL_NAME_COLUMNS = ['name', 'full name', 'fullname', 'contact name', 'contact'];
+const MAX_VALIDATION_ERRORS = 200;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const CONTACT_TARGETS: Record<string, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  [FULL_NAME_TARGET]: 'Full name (split into first and last)',
+  email: 'Email',
+  phone: 'Phone',
+  mobile: 'Mobile',
+  title: 'Title',
+  companyName: 'Company name',
+  linkedIn: 'LinkedIn',
+  twitter: 'Twitter',
+  github: 'GitHub',
+  notes: 'Notes',
+  address: 'Address',
+  city: 'City',
+  state: 'State',
+  postalCode: 'Postal code',
+  country: 'Country',
+};
+
+const COMPANY_TARGETS: Record<string, string> = {
+  name: 'Name',
+  domain: 'Domain',
+  website: 'Website',
+  industry: 'Industry',
+  size: 'Size',
+  email: 'Email',
+  phone: 'Phone',
+  linkedIn: 'LinkedIn',
+  twitter: 'Twitter',
+  githubOrg: 'GitHub organization',
+  description: 'Description',
+  address: 'Address',
+  city: 'City',
+  state: 'State',
+  postalCode: 'Postal code',
+  country: 'Country',
+};
+
+const REQUIRED_TARGETS: Record<ImportEntityType, string[]> = {
+  contact: ['firstName', 'lastName'],
+  company: ['name'],
+};
+
+/**
+ * Fields a column can be mapped to: the entity's standard fields followed by
+ * the organization's custom fields for that entity.
+ */
+export function listImportTargets(
+  entityType: ImportEntityType,
+  definitions: ImportFieldDefinition[],
+): ImportTarget[] {
+  const standard = entityType === 'contact' ? CONTACT_TARGETS : COMPANY_TARGETS;
+  return [
+    ...Object.entries(standard).map(([value, label]) => ({
+      value,
+      label,
+      custom: false,
+      required: REQUIRED_TARGETS[entityType].includes(value),
+    })),
+    ...definitions.map((d) => ({
+      value: `${CUSTOM_TARGET_PREFIX}${d.fieldName}`,
+      label: d.displayName,
+      custom: true,
+      required: d.required,
+    })),
+  ];
+}
+
+/**
+ * Suggest a target for each header using the built-in column aliases, then
+ * custom field names. Each target is suggested for at most one column.
+ */
+export function suggestColumnMapping(
+  entityType: ImportEntityType,
+  headers: string[],
+  definitions: ImportFieldDefinition[],
+): ColumnMapping {
+  const columnMap = entityType === 'contact' ? CONTACT_COLUMN_MAP : COMPANY_COLUMN_MAP;
+  const used = new Set<string>();
+  const mapping: ColumnMapping = {};
+
+  for (const header of headers) {
+    let target: string | undefined = columnMap[header];
+    if (!target && entityType === 'contact' && FULL_NAME_COLUMNS.includes(header)) {
+      target = FULL_NAME_TARGET;
+    }
+    if (!target) {
+      const normalized = header.replace(/[\s-]+/g, '_');
+      const definition = definitions.find(
+        (d) => d.fieldName === normalized || d.displayName.trim().toLowerCase() === header,
+      );
+      if (definition) target = `${CUSTOM_TARGET_PREFIX}${definition.fieldName}`;
+    }
+
+    if (target && !used.has(target)) {
+      used.add(target);
+      mapping[header] = target;
+    } else {
+      mapping[header] = null;
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Reject mappings that reference unknown columns or targets, or that map two
+ * columns to the same target.
+ */
+export function checkColumnMapping(
+  entityType: ImportEntityType,
+  headers: string[],
+  mapping: ColumnMapping,
+  definitions: ImportFieldDefinition[],
+): void {
+  const targets = new Set(listImportTargets(entityType, definitions).map((t) => t.value));
+  const used = new Set<string>();
+
+  for (const [header, target] of Object.entries(mapping)) {
+    if (!headers.includes(header)) {
+      throw new AppError(`Unknown column in mapping: ${header}`, 400);
+    }
+    if (target === null) continue;
+    if (!targets.has(target)) {
+      throw new AppError(`Unknown ${entityType} field for column "${header}": ${target}`, 400);
+    }
+    if (used.has(target)) {
+      throw new AppError(`Field ${target} is mapped to more than one column`, 400);
+    }
+    used.add(target);
+  }
+}
+
+/**
+ * Apply a confirmed mapping to a parsed row. Custom field values are coerced
+ * to their declared type; values that cannot be coerced become row errors.
+ */
+export function applyColumnMapping(
+  row: Record<string, string>,
+  mapping: ColumnMapping,
+  definitions: ImportFieldDefinition[],
+): { mapped: MappedRow; errors: string[] } {
+  const mapped: MappedRow = { fields: {}, customFields: {} };
+  const errors: string[] = [];
+  let fullName = '';
+
+  for (const [header, target] of Object.entries(mapping)) {
+    const value = (row[header] ?? '').trim();
+    if (!target || !value) continue;
+
+    if (target === FULL_NAME_TARGET) {
+      fullName = value;
+    } else if (target.startsWith(CUSTOM_TARGET_PREFIX)) {
+      const fieldName = target.slice(CUSTOM_TARGET_PREFIX.length);
+      const definition = definitions.find((d) => d.fieldName === fieldName);
+      if (!definition) continue;
+      try {
+        mapped.customFields[fieldName] = coerceCustomFieldValue(definition, value);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    } else {
+      mapped.fields[target] = value;
+    }
+  }
+
+  if (fullName && !mapped.fields.firstName && !mapped.fields.lastName) {
+    const parts = fullName.split(/\s+/);
+    mapped.fields.firstName = parts[0] || '';
+    mapped.fields.lastName = parts.slice(1).join(' ') || '';
+  }
+
+  for (const definition of definitions) {
+    if (definition.required && mapped.customFields[definition.fieldName] == null) {
+      errors.push(`Missing required field "${definition.displayName}"`);
+    }
+  }
+
+  return { mapped, errors };
+}
+
+/**
+ * Checks that do not need the database: required fields and email format.
+ */
+export function validateMappedRow(entityType: ImportEntityType, mapped: MappedRow): string[] {
+  const errors: string[] = [];
+  const { fields } = mapped;
+
+  if (entityType === 'contact') {
+    if (!fields.firstName || !fields.lastName) errors.push('Missing first name or last name');
+  } else if (!fields.name) {
+    errors.push('Missing company name');
+  }
+  if (fields.email && !EMAIL_PATTERN.test(fields.email)) {
+    errors.push(`Invalid email address: ${fields.email}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate every row against a mapping without writing anything. Row numbers
+ * are 1-based file lines (the header is line 1).
+ */
+export function validateImportRows(
+  entityType: ImportEntityType,
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  definitions: ImportFieldDefinition[],
+): ImportValidation {
+  const validation: ImportValidation = { totalRows: rows.length, validRows: 0, invalidRows: 0, errors: [] };
+
+  rows.forEach((row, i) => {
+    const { mapped, errors } = applyColumnMapping(row, mapping, definitions);
+    errors.push(...validateMappedRow(entityType, mapped));
+    if (errors.length === 0) {
+      validation.validRows++;
+      return;
+    }
+    validation.invalidRows++;
+    if (validation.errors.length < MAX_VALIDATION_ERRORS) {
+      validation.errors.push({ row: i + 2, errors });
+    }
+  });
+
+  return validation;
+}
+
+// ---------------------------------------------------------------------------
+// Row Writes — shared by the one-shot and background imports
+// ---------------------------------------------------------------------------
+
+function customFieldsInput(customFields: Record<string, unknown>): Prisma.InputJsonValue | undefined {
+  return Object.keys(customFields).length > 0 ? (customFields as Prisma.InputJsonValue) : undefined;
+}
+
+/**
+ * Create a contact from a mapped row. Returns the new contact's id, or null
+ * when a contact with the same email already exists.
+ */
+export async function importContactRow(organizationId: string, mapped: MappedRow): Promise<string | null> {
+  const { fields } = mapped;
+
+  // Duplicate detection by email
+  if (fields.email) {
+    const existing = await prisma.contact.findFirst({
+      where: { organizationId, email: fields.email },
+    });
+    if (existing) return null;
+  }
+
+  // Try to match company by name (case-insensitive)
+  let companyId: string | undefined;
+  if (fields.companyName) {
+    const company = await prisma.company.findFirst({
+      where: {
+        organizationId,
+        name: { equals: fields.companyName, mode: 'insensitive' },
+      },
+    });
+    companyId = company?.id;
+  }
+
+  const contact = await prisma.contact.create({
+    data: {
+      organizationId,
+      firstName: fields.firstName,
+      lastName: fields.lastName,
+      email: fields.email || null,
+      phone: fields.phone || null,
+      mobile: fields.mobile || null,
+      title: fields.title || null,
+      companyId: companyId || null,
+      linkedIn: fields.linkedIn || null,
+      twitter: fields.twitter || null,
+      github: fields.github || null,
+      notes: fields.notes || null,
+      address: fields.address || null,
+      city: fields.city || null,
+      state: fields.state || null,
+      postalCode: fields.postalCode || null,
+      country: fields.country || null,
+      customFields: customFieldsInput(mapped.customFields),
+    },
+  });
+
+  return contact.id;
+}
+
+/**
+ * Create a company from a mapped row. Returns the new company's id, or null
+ * when a company with the same name (case-insensitive) already exists.
+ */
+export async function importCompanyRow(organizationId: string, mapped: MappedRow): Promise<string | null> {
+  const { fields } = mapped;
+
+  // Duplicate detection by name (case-insensitive)
+  const existing = await prisma.company.findFirst({
+    where: {
+      organizationId,
+      name: { equals: fields.name, mode: 'insensitive' },
+    },
+  });
+  if (existing) return null;
+
+  // Extract domain from website if not provided
+  let domain = fields.domain;
+  if (!domain && fields.website) {
+    try {
+      const url = fields.website.startsWith('http')
+        ? fields.website
+        : `https://${fields.website}`;
+      domain = new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+      // Ignore invalid URLs
+    }
+  }
+
+  // Normalize company size
+  const normalizedSize = fields.size ? normalizeCompanySize(fields.size) : undefined;
+
+  const company = await prisma.company.create({
+    data: {
+      organizationId,
+      name: fields.name,
+      domain: domain || null,
+      website: fields.website || null,
+      industry: fields.industry || null,
+      size: normalizedSize ? (normalizedSize as any) : null,
+      email: fields.email || null,
+      phone: fields.phone || null,
+      linkedIn: fields.linkedIn || null,
+      twitter: fields.twitter || null,
+      githubOrg: fields.githubOrg || null,
+      description: fields.description || null,
+      address: fields.address || null,
+      city: fields.city || null,
+      state: fields.state || null,
+      postalCode: fields.postalCode || null,
+      country: fields.country || null,
+      customFields: customFieldsInput(mapped.customFields),
+    },
+  });
+
+  return company.id;
+}
+
 // ---------------------------------------------------------------------------
 // Import Result
 // ---------------------------------------------------------------------------
@@ -261,9 +663,11 @@ export interface ImportResult {
   imported: number;
   skipped: number;
   errors: Array<{ row: number; error: string }>;
+  /** Import batch to pass to the revert endpoint. */
+  batchId?: string;
 }
 
-const MAX_ROWS = 10_000;
+export const MAX_ROWS = 10_000;
 
 // ---------------------------------------------------------------------------
 // Import Contacts
@@ -272,6 +676,7 @@ const MAX_ROWS = 10_000;
 export async function importContacts(
   organizationId: string,
   csvContent: string,
+  userId?: string,
 ): Promise<ImportResult> {
   const { rows } = parseCSV(csvContent);
   const result: ImportResult = { total: rows.length, imported: 0, skipped: 0, errors: [] };
@@ -285,19 +690,16 @@ export async function importContacts(
     };
   }
 
+  const batch = await createImportBatch(organizationId, { source: 'csv', entityType: 'contact', userId });
+  result.batchId = batch.id;
+
   for (let i = 0; i < rows.length; i++) {
     try {
       const mapped = mapColumns(rows[i], CONTACT_COLUMN_MAP);
 
       // If no first/last name was mapped, try to split a "name" / "full name" column
       if (!mapped.firstName && !mapped.lastName) {
-        const fullName =
-          rows[i]['name'] ||
-          rows[i]['full name'] ||
-          rows[i]['fullname'] ||
-          rows[i]['contact name'] ||
-          rows[i]['contact'] ||
-          '';
+        const fullName = FULL_NAME_COLUMNS.map((col) => rows[i][col]).find((v) => v) || '';
         if (fullName.trim()) {
           const parts = fullName.trim().split(/\s+/);
           mapped.firstName = parts[0] || '';
@@ -311,52 +713,13 @@ export async function importContacts(
         continue;
       }
 
-      // Duplicate detection by email
-      if (mapped.email) {
-        const existing = await prisma.contact.findFirst({
-          where: { organizationId, email: mapped.email },
-        });
-        if (existing) {
-          result.skipped++;
-          continue;
-        }
-      }
-
-      // Try to match company by name (case-insensitive)
-      let companyId: string | undefined;
-      if (mapped.companyName) {
-        const company = await prisma.company.findFirst({
-          where: {
-            organizationId,
-            name: { equals: mapped.companyName, mode: 'insensitive' },
-          },
-        });
-        companyId = company?.id;
+      const id = await importContactRow(organizationId, { fields: mapped, customFields: {} });
+      if (id) {
+        await recordImportCreated(batch.id, 'contact', id);
+        result.imported++;
+      } else {
+        result.skipped++;
       }
-
-      await prisma.contact.create({
-        data: {
-          organizationId,
-          firstName: mapped.firstName,
-          lastName: mapped.lastName,
-          email: mapped.email || null,
-          phone: mapped.phone || null,
-          mobile: mapped.mobile || null,
-          title: mapped.title || null,
-          companyId: companyId || null,
-          linkedIn: mapped.linkedIn || null,
-          twitter: mapped.twitter || null,
-          github: mapped.github || null,
-          notes: mapped.notes || null,
-          address: mapped.address || null,
-          city: mapped.city || null,
-          state: mapped.state || null,
-          postalCode: mapped.postalCode || null,
-          country: mapped.country || null,
-        },
-      });
-
-      result.imported++;
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       result.errors.push({ row: i + 2, error: message });
@@ -365,6 +728,8 @@ export async function importContacts(
     }
   }
 
+  await finishImportBatch(batch.id, { created: result.imported, updated: 0 });
+
   logger.info(
     `Contact CSV import complete: ${result.imported} imported, ${result.skipped} skipped, ${result.errors.length} errors`,
   );
@@ -379,6 +744,7 @@ export async function importContacts(
 export async function importCompanies(
   organizationId: string,
   csvContent: string,
+  userId?: string,
 ): Promise<ImportResult> {
   const { rows } = parseCSV(csvContent);
   const result: ImportResult = { total: rows.length, imported: 0, skipped: 0, errors: [] };
@@ -392,6 +758,9 @@ export async function importCompanies(
     };
   }
 
+  const batch = await createImportBatch(organizationId, { source: 'csv', entityType: 'company', userId });
+  result.batchId = batch.id;
+
   for (let i = 0; i < rows.length; i++) {
     try {
       const mapped = mapColumns(rows[i], COMPANY_COLUMN_MAP);
@@ -402,57 +771,13 @@ export async function importCompanies(
         continue;
       }
 
-      // Duplicate detection by name (case-insensitive)
-      const existing = await prisma.company.findFirst({
-        where: {
-          organizationId,
-          name: { equals: mapped.name, mode: 'insensitive' },
-        },
-      });
-      if (existing) {
+      const id = await importCompanyRow(organizationId, { fields: mapped, customFields: {} });
+      if (id) {
+        await recordImportCreated(batch.id, 'company', id);
+        result.imported++;
+      } else {
         result.skipped++;
-        continue;
-      }
-
-      // Extract domain from website if not provided
-      let domain = mapped.domain;
-      if (!domain && mapped.website) {
-        try {
-          const url = mapped.website.startsWith('http')
-            ? mapped.website
-            : `https://${mapped.website}`;
-          domain = new URL(url).hostname.replace(/^www\./, '');
-        } catch {
-          // Ignore invalid URLs
-        }
       }
-
-      // Normalize company size
-      const normalizedSize = mapped.size ? normalizeCompanySize(mapped.size) : undefined;
-
-      await prisma.company.create({
-        data: {
-          organizationId,
-          name: mapped.name,
-          domain: domain || null,
-          website: mapped.website || null,
-          industry: mapped.industry || null,
-          size: normalizedSize ? (normalizedSize as any) : null,
-          email: mapped.email || null,
-          phone: mapped.phone || null,
-          linkedIn: mapped.linkedIn || null,
-          twitter: mapped.twitter || null,
-          githubOrg: mapped.githubOrg || null,
-          description: mapped.description || null,
-          address: mapped.address || null,
-          city: mapped.city || null,
-          state: mapped.state || null,
-          postalCode: mapped.postalCode || null,
-          country: mapped.country || null,
-        },
-      });
-
-      result.imported++;
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       result.errors.push({ row: i + 2, error: message });
@@ -461,6 +786,8 @@ export async function importCompanies(
     }
   }
 
+  await finishImportBatch(batch.id, { created: result.imported, updated: 0 });
+
   logger.info(
     `Company CSV import complete: ${result.imported} imported, ${result.skipped} skipped, ${result.errors.length} errors`,
   );
@@ -0,0 +1,112 @@
+import { CustomFieldDefinition, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors';
+
+export type CustomFieldEntityType = 'contact' | 'company';
+
+// ---------------------------------------------------------------------------
+// Value coercion
+// ---------------------------------------------------------------------------
+
+/**
+ * Coerces a raw value (often a string from a template or CSV cell) into the
+ * type declared by a field definition. Throws a 400 AppError when the value
+ * cannot be represented. null / empty string clear the field.
+ */
+export function coerceCustomFieldValue(
+  definition: Pick<CustomFieldDefinition, 'displayName' | 'fieldType' | 'options'>,
+  raw: unknown,
+): unknown {
+  if (raw === null || raw === undefined || raw === '') return null;
+
+  switch (definition.fieldType) {
+    case 'number': {
+      const num = typeof raw === 'number' ? raw : Number(raw);
+      if (isNaN(num)) {
+        throw new AppError(`Field "${definition.displayName}" must be a number`, 400);
+      }
+      return num;
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return raw;
+      const normalized = String(raw).trim().toLowerCase();
+      if (['true', 'yes', '1'].includes(normalized)) return true;
+      if (['false', 'no', '0'].includes(normalized)) return false;
+      throw new AppError(`Field "${definition.displayName}" must be a boolean`, 400);
+    }
+    case 'date': {
+      if (typeof raw !== 'string' || isNaN(Date.parse(raw))) {
+        throw new AppError(`Field "${definition.displayName}" must be a valid date string`, 400);
+      }
+      return raw;
+    }
+    case 'select': {
+      const options = Array.isArray(definition.options) ? (definition.options as string[]) : [];
+      if (options.length > 0 && !options.includes(String(raw))) {
+        throw new AppError(
+          `Field "${definition.displayName}" must be one of: ${options.join(', ')}`,
+          400,
+        );
+      }
+      return String(raw);
+    }
+    default:
+      return typeof raw === 'string' ? raw : String(raw);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+/**
+ * Validates a single custom field value against its definition and merges it
+ * into the entity's customFields JSONB. Returns the stored (coerced) value.
+ */
+export async function setCustomFieldValue(
+  organizationId: string,
+  entityType: CustomFieldEntityType,
+  entityId: string,
+  fieldName: string,
+  raw: unknown,
+): Promise<unknown> {
+  const definition = await prisma.customFieldDefinition.findFirst({
+    where: { organizationId, entityType, fieldName },
+  });
+  if (!definition) {
+    throw new AppError(`Unknown custom field: ${fieldName}`, 400);
+  }
+
+  const value = coerceCustomFieldValue(definition, raw);
+  if (definition.required && value === null) {
+    throw new AppError(`Field "${definition.displayName}" is required`, 400);
+  }
+
+  if (entityType === 'contact') {
+    const entity = await prisma.contact.findFirst({
+      where: { id: entityId, organizationId },
+      select: { customFields: true },
+    });
+    if (!entity) throw new AppError('Contact not found', 404);
+
+    const merged = { ...((entity.customFields as Record<string, unknown>) || {}), [fieldName]: value };
+    await prisma.contact.update({
+      where: { id: entityId },
+      data: { customFields: merged as unknown as Prisma.InputJsonValue },
+    });
+  } else {
+    const entity = await prisma.company.findFirst({
+      where: { id: entityId, organizationId },
+      select: { customFields: true },
+    });
+    if (!entity) throw new AppError('Company not found', 404);
+
+    const merged = { ...((entity.customFields as Record<string, unknown>) || {}), [fieldName]: value };
+    await prisma.company.update({
+      where: { id: entityId },
+      data: { customFields: merged as unknown as Prisma.InputJsonValue },
+    });
+  }
+
+  return value;
+}
@@ -0,0 +1,316 @@
+import { isDeepStrictEqual } from 'util';
+import { Prisma, type Company, type Contact, type Deal } from '@prisma/client';
+import {
+  enqueueContactScoreComputation,
+  enqueueScoreComputation,
+  enqueueWebhookDelivery,
+  enqueueWorkflowExecution,
+} from '../jobs/producers';
+import { logAudit } from './audit';
+import { notifyOrgUsers } from './notifications';
+import { notifyHighValueSignal, sendDealAlert, sendSignupAlert } from './slack-notifications';
+import {
+  fireCompanyCreated,
+  fireCompanyUpdated,
+  fireContactCreated,
+  fireContactUpdated,
+  fireDealClosed,
+  fireDealCreated,
+  fireDealStageChanged,
+  fireDealUpdated,
+} from './webhook-events';
+import { logger } from '../utils/logger';
+
+// ---------------------------------------------------------------------------
+// Entity events
+// ---------------------------------------------------------------------------
+// Side effects of CRM and signal writes: audit log, workflows, score
+// recomputes, notifications, Slack alerts and webhook events. Shared by the
+// REST controllers and GraphQL mutations so both behave the same. Everything
+// here is fire-and-forget; failures are logged and never reach the caller.
+// `userId` is absent for API-key requests.
+
+/** The parts of a stored signal (with actor and account included) the events read. */
+export interface IngestedSignal {
+  id: string;
+  type: string;
+  accountId: string | null;
+  actorId: string | null;
+  metadata: Prisma.JsonValue;
+  actor?: { firstName: string; lastName: string } | null;
+  account?: { name: string } | null;
+}
+
+/**
+ * Columns whose stored value differs between the record before and after an
+ * update. `updatedAt` always moves, so it is left out.
+ */
+function changedFields(fields: string[], before: object | null, after: object): string[] {
+  if (!before) return [];
+  const previous = before as Record<string, unknown>;
+  const current = after as Record<string, unknown>;
+  return fields.filter((field) => field !== 'updatedAt' && !isDeepStrictEqual(previous[field], current[field]));
+}
+
+// ---------------------------------------------------------------------------
+// Companies
+// ---------------------------------------------------------------------------
+
+export function emitCompanyCreated(organizationId: string, company: Company, userId?: string): void {
+  logAudit({
+    organizationId,
+    userId,
+    action: 'create',
+    entityType: 'company',
+    entityId: company.id,
+    entityName: company.name,
+  }).catch(() => {});
+
+  fireCompanyCreated(organizationId, company as unknown as Record<string, unknown>)
+    .catch((err) => logger.error('Webhook fire error (company.created):', err));
+}
+
+/** `before` is the company as it was read before the update. */
+export function emitCompanyUpdated(
+  organizationId: string,
+  company: Company,
+  before: Company | null,
+  userId?: string,
+): void {
+  logAudit({
+    organizationId,
+    userId,
+    action: 'update',
+    entityType: 'company',
+    entityId: company.id,
+    entityName: company.name,
+  }).catch(() => {});
+
+  const changed = changedFields(Object.values(Prisma.CompanyScalarFieldEnum), before, company);
+  fireCompanyUpdated(organizationId, company as unknown as Record<string, unknown>, changed)
+    .catch((err) => logger.error('Webhook fire error (company.updated):', err));
+}
+
+export function emitCompanyDeleted(organizationId: string, companyId: string, userId?: string): void {
+  logAudit({
+    organizationId,
+    userId,
+    action: 'delete',
+    entityType: 'company',
+    entityId: companyId,
+  }).catch(() => {});
+}
+
+// ---------------------------------------------------------------------------
+// Contacts
+// ---------------------------------------------------------------------------
+
+export function emitContactCreated(organizationId: string, contact: Contact, userId?: string): void {
+  logAudit({
+    organizationId,
+    userId,
+    action: 'create',
+    entityType: 'contact',
+    entityId: contact.id,
+    entityName: `${contact.firstName} ${contact.lastName}`,
+  }).catch(() => {});
+
+  // Enqueue workflow processing via BullMQ (async with retries)
+  enqueueWorkflowExecution(organizationId, 'contact_created', {
+    contactId: contact.id,
+    firstName: contact.firstName,
+    lastName: contact.lastName,
+    email: contact.email,
+    companyId: contact.companyId,
+  }).catch((err) => logger.error('Workflow enqueue error:', err));
+
+  notifyOrgUsers(organizationId, {
+    type: 'contact_created',
+    title: `New contact: ${contact.firstName} ${contact.lastName}`,
+    body: contact.email || undefined,
+    entityType: 'contact',
+    entityId: contact.id,
+    excludeUserId: userId,
+  }).catch((err) => logger.error('Notification error:', err));
+
+  // Rich Slack signup alert
+  sendSignupAlert(organizationId, contact.id)
+    .catch((err) => logger.error('Slack signup alert failed', { err }));
+
+  fireContactCreated(organizationId, contact as unknown as Record<string, unknown>)
+    .catch((err) => logger.error('Webhook fire error (contact.created):', err));
+}
+
+export function emitContactUpdated(organizationId: string, contact: Contact, userId?: string): void {
+  logAudit({
+    organizationId,
+    userId,
+    action: 'update',
+    entityType: 'contact',
+    entityId: contact.id,
+    entityName: `${contact.firstName} ${contact.lastName}`,
+  }).catch(() => {});
+
+  fireContactUpdated(organizationId, contact as unknown as Record<string, unknown>)
+    .catch((err) => logger.error('Webhook fire error (contact.updated):', err));
+}
+
+export function emitContactDeleted(organizationId: string, contactId: string, userId?: string): void {
+  logAudit({
+    organizationId,
+    userId,
+    action: 'delete',
+    entityType: 'contact',
+    entityId: contactId,
+  }).catch(() => {});
+}
+
+// ---------------------------------------------------------------------------
+// Deals
+// ---------------------------------------------------------------------------
+
+export function emitDealCreated(organizationId: string, deal: Deal, userId?: string): void {
+  logAudit({
+    organizationId,
+    userId,
+    action: 'create',
+    entityType: 'deal',
+    entityId: deal.id,
+    entityName: deal.title,
+  }).catch(() => {});
+
+  notifyOrgUsers(organizationId, {
+    type: 'deal_created',
+    title: `New deal: ${deal.title}`,
+    body: deal.amount ? `$${Number(deal.amount).toLocaleString()}` : undefined,
+    entityType: 'deal',
+    entityId: deal.id,
+    excludeUserId: userId,
+  }).catch((err) => logger.error('Notification error:', err));
+
+  fireDealCreated(organizationId, deal as unknown as Record<string, unknown>)
+    .catch((err) => logger.error('Webhook fire error (deal.created):', err));
+}
+
+/**
+ * `before` is the deal as it was read before the update; stage-change
+ * workflows, alerts and webhooks fire only when its stage differs from the
+ * deal's new stage.
+ */
+export function emitDealUpdated(
+  organizationId: string,
+  deal: Deal,
+  before: Deal | null,
+  userId?: string,
+): void {
+  const oldStage = before?.stage;
+  const stageChanged = !!oldStage && deal.stage !== oldStage;
+
+  logAudit({
+    organizationId,
+    userId,
+    action: 'update',
+    entityType: 'deal',
+    entityId: deal.id,
+    entityName: deal.title,
+    changes: stageChanged ? { stage: { from: oldStage, to: deal.stage } } : undefined,
+  }).catch(() => {});
+
+  if (oldStage && stageChanged) {
+    enqueueWorkflowExecution(organizationId, 'deal_stage_changed', {
+      dealId: deal.id,
+      oldStage,
+      newStage: deal.stage,
+      title: deal.title,
+      amount: deal.amount,
+      companyId: deal.companyId,
+      contactId: deal.contactId,
+    }).catch((err) => logger.error('Workflow enqueue error:', err));
+
+    notifyOrgUsers(organizationId, {
+      type: 'deal_stage_changed',
+      title: `Deal "${deal.title}" moved to ${deal.stage}`,
+      body: deal.amount ? `$${Number(deal.amount).toLocaleString()}` : undefined,
+      entityType: 'deal',
+      entityId: deal.id,
+      excludeUserId: userId,
+    }).catch((err) => logger.error('Notification error:', err));
+
+    // Rich Slack deal stage alert
+    sendDealAlert(organizationId, deal.id, oldStage, deal.stage)
+      .catch((err) => logger.error('Slack deal alert failed', { err }));
+
+    fireDealStageChanged(organizationId, deal as unknown as Record<string, unknown>, oldStage)
+      .catch((err) => logger.error('Webhook fire error (deal.stage_changed):', err));
+
+    if (deal.stage === 'CLOSED_WON' || deal.stage === 'CLOSED_LOST') {
+      fireDealClosed(organizationId, deal as unknown as Record<string, unknown>, oldStage)
+        .catch((err) => logger.error('Webhook fire error (deal.closed):', err));
+    }
+  }
+
+  const changed = changedFields(Object.values(Prisma.DealScalarFieldEnum), before, deal);
+  fireDealUpdated(organizationId, deal as unknown as Record<string, unknown>, changed)
+    .catch((err) => logger.error('Webhook fire error (deal.updated):', err));
+}
+
+export function emitDealDeleted(organizationId: string, dealId: string, userId?: string): void {
+  logAudit({
+    organizationId,
+    userId,
+    action: 'delete',
+    entityType: 'deal',
+    entityId: dealId,
+  }).catch(() => {});
+}
+
+// ---------------------------------------------------------------------------
+// Signals
+// ---------------------------------------------------------------------------
+
+/**
+ * Follow-up work for a newly stored signal (not for deduplicated or dropped
+ * ones): webhook delivery, score recomputes, workflows and Slack alerts.
+ */
+export function emitSignalIngested(organizationId: string, signal: IngestedSignal): void {
+  // Ingestion rules may have rewritten the metadata, so read it from the stored signal
+  const metadata = (signal.metadata ?? {}) as Record<string, unknown>;
+
+  // Enqueue webhook delivery via BullMQ (reliable retry)
+  enqueueWebhookDelivery(organizationId, 'signal.received', {
+    signalId: signal.id,
+    type: signal.type,
+    accountId: signal.accountId,
+    actorId: signal.actorId,
+  }).catch((err) => logger.error('Webhook enqueue error:', err));
+
+  // Enqueue async score recomputation (deduplicated per account via BullMQ)
+  if (signal.accountId) {
+    enqueueScoreComputation(organizationId, signal.accountId)
+      .catch((err) => logger.error('Score enqueue error:', err));
+  }
+  if (signal.actorId) {
+    enqueueContactScoreComputation(organizationId, signal.actorId)
+      .catch((err) => logger.error('Contact score enqueue error:', err));
+  }
+
+  enqueueWorkflowExecution(organizationId, 'signal_received', {
+    signalId: signal.id,
+    type: signal.type,
+    accountId: signal.accountId,
+    actorId: signal.actorId,
+    metadata,
+  }).catch((err) => logger.error('Workflow enqueue error:', err));
+
+  // Notify Slack for high-value signals
+  const actorName = signal.actor
+    ? `${signal.actor.firstName} ${signal.actor.lastName}`.trim()
+    : null;
+  notifyHighValueSignal(
+    organizationId,
+    signal.type,
+    signal.account?.name || null,
+    actorName,
+    metadata,
+  ).catch((err) => logger.error('Slack signal notification error:', err));
+}
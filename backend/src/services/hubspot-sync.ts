@@ -1,8 +1,33 @@
-import { Prisma, DealStage } from '@prisma/client';
+import { DealStage } from '@prisma/client';
 import { prisma } from '../config/database';
 import { logger } from '../utils/logger';
 import { AppError } from '../utils/errors';
-import { logAudit } from './audit';
+import {
+  type CrmAdapter,
+  type CrmCompanyRecord,
+  type CrmConflictPolicy,
+  type CrmContactRecord,
+  type CrmDealRecord,
+  type CrmPullBatch,
+  type CrmPullContext,
+  type CrmSettings,
+  type CrmSyncContext,
+  type CrmSyncStatus,
+  connectCrm,
+  disconnectCrm,
+  domainFromWebsite,
+  fetchAllPages,
+  getCrmConflictPolicy,
+  getCrmConflicts,
+  getCrmConnectedOrganizations,
+  getCrmSyncHistory,
+  getCrmSyncStatus,
+  loadCrmSettings,
+  runCrmSync,
+  saveCrmSettings,
+  toCrmDate,
+  updateCrmConflictPolicy,
+} from './crm-sync';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -13,32 +38,25 @@ export interface HubSpotSyncResult {
   companies: { created: number; updated: number; failed: number };
   deals: { created: number; updated: number; failed: number };
   signals: { synced: number; failed: number };
+  /** Records pulled from HubSpot and applied locally; the counts above are pushes. */
+  pulled: {
+    contacts: { created: number; updated: number; failed: number };
+    companies: { created: number; updated: number; failed: number };
+    deals: { created: number; updated: number; failed: number };
+  };
+  /** Fields edited on both sides since the last sync. */
+  conflicts: number;
   errors: string[];
 }
 
-export interface HubSpotSyncStatus {
-  connected: boolean;
-  lastSyncAt: string | null;
+export interface HubSpotSyncStatus extends CrmSyncStatus {
   lastSyncResult: HubSpotSyncResult | null;
-  syncInProgress: boolean;
   portalId: string | null;
   totalContactsSynced: number;
   totalCompaniesSynced: number;
   totalDealsSynced: number;
 }
 
-interface HubSpotSettings {
-  hubspotAccessToken?: string;
-  hubspotRefreshToken?: string;
-  hubspotPortalId?: string;
-  hubspotLastSyncAt?: string;
-  hubspotLastSyncResult?: HubSpotSyncResult;
-  hubspotSyncInProgress?: boolean;
-  hubspotTotalContactsSynced?: number;
-  hubspotTotalCompaniesSynced?: number;
-  hubspotTotalDealsSynced?: number;
-}
-
 interface HubSpotTokenResponse {
   access_token: string;
   refresh_token: string;
@@ -66,13 +84,15 @@ interface HubSpotSearchResponse {
     id: string;
     properties: Record<string, string>;
   }>;
+  paging?: { next?: { after: string } };
 }
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-const HUBSPOT_API_BASE = 'https://api.hubapi.com';
+// Overridable so tests and local development can point at a stand-in server
+const hubspotApiBase = (): string => process.env.HUBSPOT_API_BASE_URL || 'https://api.hubapi.com';
 const BATCH_SIZE = 100;
 
 const SIGSCORE_CONTACT_PROPERTIES = [
@@ -173,57 +193,7 @@ const DEAL_STAGE_LABELS: Record<string, string> = {
   [DealStage.CLOSED_LOST]: 'Closed Lost',
 };
 
-// ---------------------------------------------------------------------------
-// Settings helpers
-// ---------------------------------------------------------------------------
-
-async function getOrgSettings(organizationId: string): Promise<{
-  hubspot: HubSpotSettings;
-  rawSettings: Record<string, unknown>;
-}> {
-  const org = await prisma.organization.findUnique({
-    where: { id: organizationId },
-    select: { settings: true },
-  });
-
-  if (!org) {
-    throw new AppError('Organization not found', 404);
-  }
-
-  const rawSettings = (org.settings as Record<string, unknown>) ?? {};
-  const hubspot: HubSpotSettings = {
-    hubspotAccessToken: rawSettings.hubspotAccessToken as string | undefined,
-    hubspotRefreshToken: rawSettings.hubspotRefreshToken as string | undefined,
-    hubspotPortalId: rawSettings.hubspotPortalId as string | undefined,
-    hubspotLastSyncAt: rawSettings.hubspotLastSyncAt as string | undefined,
-    hubspotLastSyncResult: rawSettings.hubspotLastSyncResult as HubSpotSyncResult | undefined,
-    hubspotSyncInProgress: rawSettings.hubspotSyncInProgress as boolean | undefined,
-    hubspotTotalContactsSynced: rawSettings.hubspotTotalContactsSynced as number | undefined,
-    hubspotTotalCompaniesSynced: rawSettings.hubspotTotalCompaniesSynced as number | undefined,
-    hubspotTotalDealsSynced: rawSettings.hubspotTotalDealsSynced as number | undefined,
-  };
-
-  return { hubspot, rawSettings };
-}
-
-async function updateOrgSettings(
-  organizationId: string,
-  patch: Record<string, unknown>,
-): Promise<void> {
-  const org = await prisma.organization.findUnique({
-    where: { id: organizationId },
-    select: { settings: true },
-  });
-  if (!org) return;
-
-  const current = (org.settings as Record<string, unknown>) ?? {};
-  const merged = { ...current, ...patch };
-
-  await prisma.organization.update({
-    where: { id: organizationId },
-    data: { settings: merged as Prisma.InputJsonValue },
-  });
-}
+const SETTINGS_PREFIX = 'hubspot';
 
 // ---------------------------------------------------------------------------
 // HubSpot API helpers
@@ -253,7 +223,7 @@ async function hubspotFetch(
     fetchOptions.body = JSON.stringify(body);
   }
 
-  const response = await fetch(`${HUBSPOT_API_BASE}${path}`, fetchOptions);
+  const response = await fetch(`${hubspotApiBase()}${path}`, fetchOptions);
 
   if (response.status === 401) {
     throw new AppError('HubSpot token expired or invalid', 401);
@@ -297,7 +267,7 @@ async function refreshAccessToken(
     );
   }
 
-  const response = await fetch('https://api.hubapi.com/oauth/v1/token', {
+  const response = await fetch(`${hubspotApiBase()}/oauth/v1/token`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
     body: new URLSearchParams({
@@ -320,9 +290,9 @@ async function refreshAccessToken(
   const data = (await response.json()) as HubSpotTokenResponse;
 
   // Store new tokens
-  await updateOrgSettings(organizationId, {
-    hubspotAccessToken: data.access_token,
-    hubspotRefreshToken: data.refresh_token,
+  await saveCrmSettings(organizationId, SETTINGS_PREFIX, {
+    AccessToken: data.access_token,
+    RefreshToken: data.refresh_token,
   });
 
   return data.access_token;
@@ -331,22 +301,26 @@ async function refreshAccessToken(
 /**
  * Get a valid access token, refreshing if needed.
  */
-async function getValidAccessToken(organizationId: string): Promise<string> {
-  const { hubspot } = await getOrgSettings(organizationId);
+async function getValidAccessToken(
+  organizationId: string,
+  settings: CrmSettings,
+): Promise<string> {
+  const accessToken = settings.get<string>('AccessToken');
+  const refreshToken = settings.get<string>('RefreshToken');
 
-  if (!hubspot.hubspotAccessToken) {
+  if (!accessToken) {
     throw new AppError('HubSpot is not connected', 400);
   }
 
   try {
     // Test the token with a simple API call
-    await hubspotFetch(hubspot.hubspotAccessToken, '/crm/v3/objects/contacts?limit=1');
-    return hubspot.hubspotAccessToken;
+    await hubspotFetch(accessToken, '/crm/v3/objects/contacts?limit=1');
+    return accessToken;
   } catch (error) {
-    if (error instanceof AppError && error.statusCode === 401 && hubspot.hubspotRefreshToken) {
+    if (error instanceof AppError && error.statusCode === 401 && refreshToken) {
       // Token expired, try refreshing
       logger.info('HubSpot token expired, refreshing...', { organizationId });
-      return refreshAccessToken(organizationId, hubspot.hubspotRefreshToken);
+      return refreshAccessToken(organizationId, refreshToken);
     }
     throw error;
   }
@@ -452,13 +426,9 @@ async function ensureProperty(
 }
 
 /**
- * Register all Sigscore custom properties in HubSpot.
+ * Create the Sigscore property groups and properties on an open connection.
  */
-export async function registerCustomProperties(
-  organizationId: string,
-): Promise<void> {
-  const accessToken = await getValidAccessToken(organizationId);
-
+async function ensureSigscoreProperties(accessToken: string): Promise<void> {
   // Create property groups
   await ensurePropertyGroup(accessToken, 'contacts');
   await ensurePropertyGroup(accessToken, 'companies');
@@ -479,9 +449,18 @@ export async function registerCustomProperties(
     await ensureProperty(accessToken, 'deals', prop);
   }
 
-  logger.info('All Sigscore custom properties registered in HubSpot', {
-    organizationId,
-  });
+  logger.info('All Sigscore custom properties registered in HubSpot');
+}
+
+/**
+ * Register all Sigscore custom properties in HubSpot.
+ */
+export async function registerCustomProperties(
+  organizationId: string,
+): Promise<void> {
+  const settings = await loadCrmSettings(organizationId, SETTINGS_PREFIX);
+  const accessToken = await getValidAccessToken(organizationId, settings);
+  await ensureSigscoreProperties(accessToken);
 }
 
 // ---------------------------------------------------------------------------
@@ -524,9 +503,8 @@ async function findHubSpotContactByEmail(
  * Sync contacts from Sigscore to HubSpot using batch upsert.
  */
 async function syncContacts(
-  organizationId: string,
   accessToken: string,
-  since: Date | null,
+  { organizationId, since }: CrmSyncContext,
 ): Promise<{ created: number; updated: number; failed: number }> {
   const result = { created: 0, updated: 0, failed: 0 };
 
@@ -588,9 +566,9 @@ async function syncContacts(
             contact.company.score.signalCount,
           );
           if (contact.company.score.lastSignalAt) {
-            properties.sigscore_last_signal_date = contact.company.score.lastSignalAt
-              .toISOString()
-              .split('T')[0];
+            properties.sigscore_last_signal_date = toCrmDate(
+              contact.company.score.lastSignalAt,
+            );
           }
         }
 
@@ -706,9 +684,8 @@ async function getTopSignalType(
  * Sync companies from Sigscore to HubSpot.
  */
 async function syncCompanies(
-  organizationId: string,
   accessToken: string,
-  since: Date | null,
+  { organizationId, since }: CrmSyncContext,
 ): Promise<{ created: number; updated: number; failed: number }> {
   const result = { created: 0, updated: 0, failed: 0 };
 
@@ -774,9 +751,9 @@ async function syncCompanies(
         }
 
         if (company.score?.lastSignalAt) {
-          properties.sigscore_last_signal_date = company.score.lastSignalAt
-            .toISOString()
-            .split('T')[0];
+          properties.sigscore_last_signal_date = toCrmDate(
+            company.score.lastSignalAt,
+          );
         }
 
         if (hubspotId) {
@@ -873,9 +850,8 @@ async function findHubSpotDealBySigscoreId(
  * Sync deals from Sigscore to HubSpot.
  */
 async function syncDeals(
-  organizationId: string,
   accessToken: string,
-  since: Date | null,
+  { organizationId, since }: CrmSyncContext,
 ): Promise<{ created: number; updated: number; failed: number }> {
   const result = { created: 0, updated: 0, failed: 0 };
 
@@ -920,7 +896,7 @@ async function syncDeals(
           properties.amount = String(deal.amount);
         }
         if (deal.expectedCloseDate) {
-          properties.closedate = deal.expectedCloseDate.toISOString().split('T')[0];
+          properties.closedate = toCrmDate(deal.expectedCloseDate);
         }
         if (deal.description) {
           properties.description = deal.description;
@@ -988,9 +964,8 @@ async function syncDeals(
  * Sync recent signals as notes on HubSpot contacts.
  */
 async function syncSignalNotes(
-  organizationId: string,
   accessToken: string,
-  since: Date | null,
+  { organizationId, since }: CrmSyncContext,
 ): Promise<{ synced: number; failed: number }> {
   const result = { synced: 0, failed: 0 };
 
@@ -1034,7 +1009,7 @@ async function syncSignalNotes(
         `Sigscore: ${signal.type}`,
         packageName ? `Package: ${packageName}` : '',
         `Company: ${companyName}`,
-        `Date: ${signal.timestamp.toISOString().split('T')[0]}`,
+        `Date: ${toCrmDate(signal.timestamp)}`,
         metadata?.version ? `Version: ${metadata.version}` : '',
       ]
         .filter(Boolean)
@@ -1075,6 +1050,186 @@ async function syncSignalNotes(
   return result;
 }
 
+// ---------------------------------------------------------------------------
+// Pull Changes
+// ---------------------------------------------------------------------------
+
+type HubSpotPulledObject = 'companies' | 'contacts' | 'deals';
+
+/** Per-object high-water marks (epoch ms of the last modified record seen). */
+type HubSpotPullCursor = Record<HubSpotPulledObject, number | null>;
+
+// Contacts use a different last-modified property than companies and deals
+const MODIFIED_PROPERTY: Record<HubSpotPulledObject, string> = {
+  companies: 'hs_lastmodifieddate',
+  contacts: 'lastmodifieddate',
+  deals: 'hs_lastmodifieddate',
+};
+
+const PULLED_PROPERTIES: Record<HubSpotPulledObject, string[]> = {
+  companies: ['name', 'domain', 'website', 'industry', 'phone', 'lifecyclestage', 'hubspot_owner_id'],
+  contacts: ['email', 'firstname', 'lastname', 'jobtitle', 'phone', 'lifecyclestage', 'hubspot_owner_id'],
+  deals: ['dealname', 'amount', 'closedate', 'hubspot_owner_id', 'sigscore_deal_id'],
+};
+
+/**
+ * Parse the stored cursor. Before the first pull the framework hands us the
+ * last sync time instead, which seeds every object type.
+ */
+function parsePullCursor(cursor: string | null): HubSpotPullCursor {
+  if (cursor?.startsWith('{')) {
+    try {
+      return { companies: null, contacts: null, deals: null, ...JSON.parse(cursor) };
+    } catch {
+      // Fall through to a full pull
+    }
+  }
+  const since = cursor ? new Date(cursor).getTime() || null : null;
+  return { companies: since, contacts: since, deals: since };
+}
+
+/**
+ * Fetch every record of a type modified after `since`, oldest first, so an
+ * interrupted pull can resume from the last record seen.
+ */
+async function searchModifiedSince(
+  accessToken: string,
+  objectType: HubSpotPulledObject,
+  since: number | null,
+): Promise<HubSpotSearchResponse['results']> {
+  const modifiedProperty = MODIFIED_PROPERTY[objectType];
+
+  return fetchAllPages(async (after) => {
+    const page = (await hubspotFetch(accessToken, `/crm/v3/objects/${objectType}/search`, {
+      method: 'POST',
+      body: {
+        filterGroups: since
+          ? [{ filters: [{ propertyName: modifiedProperty, operator: 'GT', value: String(since) }] }]
+          : [],
+        sorts: [{ propertyName: modifiedProperty, direction: 'ASCENDING' }],
+        properties: [...PULLED_PROPERTIES[objectType], modifiedProperty],
+        limit: BATCH_SIZE,
+        ...(after && { after }),
+      },
+    })) as HubSpotSearchResponse;
+
+    return { items: page.results, next: page.paging?.next?.after ?? null };
+  });
+}
+
+/** HubSpot owner id -> owner email, for the owners referenced by a pull. */
+async function fetchOwnerEmails(accessToken: string): Promise<Map<string, string>> {
+  const owners = await fetchAllPages(async (after) => {
+    const query = new URLSearchParams({ limit: String(BATCH_SIZE), ...(after && { after }) });
+    const page = (await hubspotFetch(accessToken, `/crm/v3/owners?${query}`)) as {
+      results: Array<{ id: string; email?: string | null }>;
+      paging?: { next?: { after: string } };
+    };
+    return { items: page.results, next: page.paging?.next?.after ?? null };
+  });
+
+  return new Map(
+    owners.filter((owner) => owner.email).map((owner) => [String(owner.id), owner.email!]),
+  );
+}
+
+const parseHubSpotDate = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const date = new Date(/^\d+$/.test(value) ? Number(value) : value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Pull companies, contacts and deals changed in HubSpot since the cursor.
+ */
+async function pullChanges(
+  accessToken: string,
+  { cursor }: CrmPullContext,
+): Promise<CrmPullBatch> {
+  const since = parsePullCursor(cursor);
+  const next: HubSpotPullCursor = { ...since };
+
+  const results = {} as Record<HubSpotPulledObject, HubSpotSearchResponse['results']>;
+  for (const objectType of Object.keys(MODIFIED_PROPERTY) as HubSpotPulledObject[]) {
+    results[objectType] = await searchModifiedSince(accessToken, objectType, since[objectType]);
+
+    for (const record of results[objectType]) {
+      const modified = parseHubSpotDate(record.properties[MODIFIED_PROPERTY[objectType]]);
+      if (modified && modified.getTime() > (next[objectType] ?? 0)) {
+        next[objectType] = modified.getTime();
+      }
+    }
+  }
+
+  const referencesOwner = Object.values(results).some((records) =>
+    records.some((record) => record.properties.hubspot_owner_id),
+  );
+  const owners = referencesOwner ? await fetchOwnerEmails(accessToken) : new Map<string, string>();
+  const ownerEmail = (props: Record<string, string>) =>
+    props.hubspot_owner_id ? owners.get(props.hubspot_owner_id) ?? null : null;
+
+  const companies: CrmCompanyRecord[] = results.companies
+    .filter((record) => record.properties.name)
+    .map(({ id, properties: p }) => ({
+      externalId: id,
+      name: p.name,
+      domain: p.domain || domainFromWebsite(p.website),
+      website: p.website || null,
+      industry: p.industry || null,
+      phone: p.phone || null,
+      lifecycleStage: p.lifecyclestage || null,
+      ownerEmail: ownerEmail(p),
+      modifiedAt: parseHubSpotDate(p.hs_lastmodifieddate),
+    }));
+
+  const contacts: CrmContactRecord[] = results.contacts
+    .filter((record) => record.properties.email)
+    .map(({ id, properties: p }) => ({
+      externalId: id,
+      email: p.email,
+      firstName: p.firstname || null,
+      lastName: p.lastname || null,
+      title: p.jobtitle || null,
+      phone: p.phone || null,
+      lifecycleStage: p.lifecyclestage || null,
+      ownerEmail: ownerEmail(p),
+      modifiedAt: parseHubSpotDate(p.lastmodifieddate),
+    }));
+
+  const deals: CrmDealRecord[] = results.deals.map(({ id, properties: p }) => ({
+    externalId: id,
+    sigscoreId: p.sigscore_deal_id || null,
+    title: p.dealname || null,
+    amount: p.amount ? Number(p.amount) : null,
+    expectedCloseDate: parseHubSpotDate(p.closedate),
+    ownerEmail: ownerEmail(p),
+    modifiedAt: parseHubSpotDate(p.hs_lastmodifieddate),
+  }));
+
+  return { companies, contacts, deals, cursor: JSON.stringify(next) };
+}
+
+// ---------------------------------------------------------------------------
+// Adapter
+// ---------------------------------------------------------------------------
+
+export const hubspotAdapter: CrmAdapter<string> = {
+  provider: 'hubspot',
+  label: 'HubSpot',
+  settingsPrefix: SETTINGS_PREFIX,
+  objectNames: { company: 'companies', deal: 'deals', activity: 'signals' },
+
+  connect: getValidAccessToken,
+  registerFields: ensureSigscoreProperties,
+  pushContacts: syncContacts,
+  pushCompanies: syncCompanies,
+  pushDeals: syncDeals,
+  pushActivities: syncSignalNotes,
+  pullChanges,
+
+  statusDetails: (settings) => ({ portalId: settings.get<string>('PortalId') || null }),
+};
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -1088,25 +1243,11 @@ export async function connectHubSpot(
   refreshToken: string,
   portalId?: string,
 ): Promise<void> {
-  // Store tokens in org settings
-  await updateOrgSettings(organizationId, {
-    hubspotAccessToken: accessToken,
-    hubspotRefreshToken: refreshToken,
-    hubspotPortalId: portalId || null,
+  await connectCrm(hubspotAdapter, organizationId, {
+    AccessToken: accessToken,
+    RefreshToken: refreshToken,
+    PortalId: portalId || null,
   });
-
-  // Register custom properties
-  await registerCustomProperties(organizationId);
-
-  logAudit({
-    organizationId,
-    action: 'hubspot_connect',
-    entityType: 'integration',
-    entityName: 'HubSpot',
-    metadata: { portalId } as unknown as Record<string, unknown>,
-  });
-
-  logger.info('HubSpot connected', { organizationId, portalId });
 }
 
 /**
@@ -1115,35 +1256,7 @@ export async function connectHubSpot(
 export async function disconnectHubSpot(
   organizationId: string,
 ): Promise<void> {
-  const { rawSettings } = await getOrgSettings(organizationId);
-
-  // Remove all HubSpot-related settings
-  const {
-    hubspotAccessToken: _a,
-    hubspotRefreshToken: _b,
-    hubspotPortalId: _c,
-    hubspotLastSyncAt: _d,
-    hubspotLastSyncResult: _e,
-    hubspotSyncInProgress: _f,
-    hubspotTotalContactsSynced: _g,
-    hubspotTotalCompaniesSynced: _h,
-    hubspotTotalDealsSynced: _i,
-    ...rest
-  } = rawSettings;
-
-  await prisma.organization.update({
-    where: { id: organizationId },
-    data: { settings: rest as Prisma.InputJsonValue },
-  });
-
-  logAudit({
-    organizationId,
-    action: 'hubspot_disconnect',
-    entityType: 'integration',
-    entityName: 'HubSpot',
-  });
-
-  logger.info('HubSpot disconnected', { organizationId });
+  await disconnectCrm(hubspotAdapter, organizationId);
 }
 
 /**
@@ -1152,166 +1265,47 @@ export async function disconnectHubSpot(
 export async function getSyncStatus(
   organizationId: string,
 ): Promise<HubSpotSyncStatus> {
-  const { hubspot } = await getOrgSettings(organizationId);
-
-  return {
-    connected: !!hubspot.hubspotAccessToken,
-    lastSyncAt: hubspot.hubspotLastSyncAt || null,
-    lastSyncResult: hubspot.hubspotLastSyncResult || null,
-    syncInProgress: hubspot.hubspotSyncInProgress || false,
-    portalId: hubspot.hubspotPortalId || null,
-    totalContactsSynced: hubspot.hubspotTotalContactsSynced || 0,
-    totalCompaniesSynced: hubspot.hubspotTotalCompaniesSynced || 0,
-    totalDealsSynced: hubspot.hubspotTotalDealsSynced || 0,
-  };
+  return getCrmSyncStatus<string, HubSpotSyncStatus>(hubspotAdapter, organizationId);
+}
+
+/**
+ * Recent HubSpot sync runs, newest first.
+ */
+export async function getSyncHistory(organizationId: string, limit?: number) {
+  return getCrmSyncHistory(hubspotAdapter, organizationId, limit);
 }
 
 /**
- * Run a full or incremental sync to HubSpot.
+ * Conflict policy for fields pulled back from HubSpot.
+ */
+export async function getConflictPolicy(organizationId: string) {
+  return getCrmConflictPolicy(hubspotAdapter, organizationId);
+}
+
+export async function updateConflictPolicy(
+  organizationId: string,
+  update: { defaultPolicy?: CrmConflictPolicy; fields?: Record<string, CrmConflictPolicy> },
+) {
+  return updateCrmConflictPolicy(hubspotAdapter, organizationId, update);
+}
+
+/**
+ * Recent fields edited in both HubSpot and Sigscore, with how each was resolved.
+ */
+export async function getConflicts(organizationId: string, limit?: number) {
+  return getCrmConflicts(hubspotAdapter, organizationId, limit);
+}
+
+/**
+ * Run a full or incremental sync with HubSpot: pull changes made in HubSpot,
+ * then push Sigscore data.
  * This is the main entry point called by the BullMQ worker.
  */
 export async function runSync(
   organizationId: string,
   fullSync = false,
 ): Promise<HubSpotSyncResult> {
-  const { hubspot } = await getOrgSettings(organizationId);
-
-  if (!hubspot.hubspotAccessToken) {
-    throw new AppError('HubSpot is not connected', 400);
-  }
-
-  // Mark sync as in progress
-  await updateOrgSettings(organizationId, {
-    hubspotSyncInProgress: true,
-  });
-
-  const result: HubSpotSyncResult = {
-    contacts: { created: 0, updated: 0, failed: 0 },
-    companies: { created: 0, updated: 0, failed: 0 },
-    deals: { created: 0, updated: 0, failed: 0 },
-    signals: { synced: 0, failed: 0 },
-    errors: [],
-  };
-
-  try {
-    const accessToken = await getValidAccessToken(organizationId);
-    const since =
-      !fullSync && hubspot.hubspotLastSyncAt
-        ? new Date(hubspot.hubspotLastSyncAt)
-        : null;
-
-    // Sync contacts
-    try {
-      result.contacts = await syncContacts(organizationId, accessToken, since);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      result.errors.push(`Contact sync failed: ${msg}`);
-      logger.error('HubSpot contact sync failed', {
-        organizationId,
-        error: msg,
-      });
-    }
-
-    // Sync companies
-    try {
-      result.companies = await syncCompanies(
-        organizationId,
-        accessToken,
-        since,
-      );
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      result.errors.push(`Company sync failed: ${msg}`);
-      logger.error('HubSpot company sync failed', {
-        organizationId,
-        error: msg,
-      });
-    }
-
-    // Sync deals
-    try {
-      result.deals = await syncDeals(organizationId, accessToken, since);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      result.errors.push(`Deal sync failed: ${msg}`);
-      logger.error('HubSpot deal sync failed', {
-        organizationId,
-        error: msg,
-      });
-    }
-
-    // Sync signal notes
-    try {
-      result.signals = await syncSignalNotes(
-        organizationId,
-        accessToken,
-        since,
-      );
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      result.errors.push(`Signal note sync failed: ${msg}`);
-      logger.error('HubSpot signal note sync failed', {
-        organizationId,
-        error: msg,
-      });
-    }
-
-    // Update sync status
-    await updateOrgSettings(organizationId, {
-      hubspotLastSyncAt: new Date().toISOString(),
-      hubspotLastSyncResult: result as unknown as Prisma.InputJsonValue,
-      hubspotSyncInProgress: false,
-      hubspotTotalContactsSynced:
-        (hubspot.hubspotTotalContactsSynced || 0) +
-        result.contacts.created +
-        result.contacts.updated,
-      hubspotTotalCompaniesSynced:
-        (hubspot.hubspotTotalCompaniesSynced || 0) +
-        result.companies.created +
-        result.companies.updated,
-      hubspotTotalDealsSynced:
-        (hubspot.hubspotTotalDealsSynced || 0) +
-        result.deals.created +
-        result.deals.updated,
-    });
-
-    logAudit({
-      organizationId,
-      action: 'hubspot_sync',
-      entityType: 'integration',
-      entityName: 'HubSpot',
-      metadata: {
-        fullSync,
-        contacts: result.contacts,
-        companies: result.companies,
-        deals: result.deals,
-        signals: result.signals,
-        errorCount: result.errors.length,
-      } as unknown as Record<string, unknown>,
-    });
-
-    logger.info('HubSpot sync completed', {
-      organizationId,
-      contacts: result.contacts,
-      companies: result.companies,
-      deals: result.deals,
-      signals: result.signals,
-    });
-
-    return result;
-  } catch (error) {
-    // Mark sync as no longer in progress on failure
-    await updateOrgSettings(organizationId, {
-      hubspotSyncInProgress: false,
-    });
-
-    const msg = error instanceof Error ? error.message : String(error);
-    result.errors.push(`Sync failed: ${msg}`);
-
-    logger.error('HubSpot sync failed', { organizationId, error: msg });
-
-    throw error;
-  }
+  return runCrmSync<string, HubSpotSyncResult>(hubspotAdapter, organizationId, fullSync);
 }
 
 /**
@@ -1319,16 +1313,5 @@ export async function runSync(
  * Used by the scheduler to trigger periodic syncs.
  */
 export async function getConnectedOrganizations(): Promise<string[]> {
-  // Query organizations with hubspotAccessToken in settings JSON
-  const orgs = await prisma.organization.findMany({
-    where: {
-      settings: {
-        path: ['hubspotAccessToken'],
-        not: Prisma.AnyNull,
-      },
-    },
-    select: { id: true },
-  });
-
-  return orgs.map((org) => org.id);
+  return getCrmConnectedOrganizations(hubspotAdapter);
 }
@@ -20,6 +20,7 @@ import { prisma } from '../config/database';
 import { AppError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { notifyOrgUsers } from './notifications';
+import { fireContactMerged } from './webhook-events';
 
 // ---------------------------------------------------------------------------
 // Free email provider list (50+ domains to skip during domain -> company)
@@ -719,6 +720,7 @@ export async function mergeContacts(
   }
 
   let merged = 0;
+  const mergedIds: string[] = [];
   const errors: string[] = [];
 
   for (const duplicateId of duplicateIds) {
@@ -829,6 +831,7 @@ export async function mergeContacts(
       });
 
       merged++;
+      mergedIds.push(duplicateId);
       logger.info('Merged duplicate contact', {
         primaryId,
         duplicateId,
@@ -846,6 +849,14 @@ export async function mergeContacts(
     }
   }
 
+  if (mergedIds.length > 0) {
+    const primary = await prisma.contact.findUnique({ where: { id: primaryId } });
+    if (primary) {
+      fireContactMerged(organizationId, primary as unknown as Record<string, unknown>, mergedIds)
+        .catch((err) => logger.error('Webhook fire error (contact.merged):', err));
+    }
+  }
+
   return { merged, errors };
 }
 
@@ -0,0 +1,371 @@
+import { ImportBatch, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { logAudit } from './audit';
+
+// ---------------------------------------------------------------------------
+// Import batches — undo for CSV and CRM imports
+// ---------------------------------------------------------------------------
+// Each import run opens a batch and records every row it creates or updates.
+// Updates keep the prior and imported value of each changed field, so a revert
+// can restore fields nobody has edited since while leaving later edits alone.
+// Tags an import creates, and tags it adds to records that already existed,
+// are recorded too so a revert can take them off again.
+
+export type ImportBatchEntityType = 'contact' | 'company' | 'deal';
+
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface RevertResult {
+  deleted: number;
+  restored: number;
+  /** Records that no longer exist (deleted by hand or by another revert). */
+  missing: number;
+  /** Fields left as they are because they changed after the import. */
+  conflicts: Array<{ entityType: string; entityId: string; field: string }>;
+}
+
+export const IMPORT_UNDO_WINDOW_DAYS = 30;
+
+const UNDO_WINDOW_MS = IMPORT_UNDO_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+// Reverting a 10k-row import runs well past Prisma's 5s transaction default
+const REVERT_TIMEOUT_MS = 120_000;
+const JSON_FIELDS = new Set(['customFields']);
+// Children before parents, so deleting a company never orphans its contacts first
+const DELETE_ORDER: ImportBatchEntityType[] = ['deal', 'contact', 'company'];
+
+// ---------------------------------------------------------------------------
+// Value comparison
+// ---------------------------------------------------------------------------
+
+/** Reduce a Prisma field value to the JSON form it is stored in. */
+function toJsonValue(value: unknown): unknown {
+  if (value === undefined || value === Prisma.JsonNull || value === Prisma.DbNull) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value === null ? null : JSON.parse(JSON.stringify(value));
+}
+
+/** JSON with sorted object keys, since JSONB does not keep key order. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(toJsonValue(a)) === stableStringify(toJsonValue(b));
+}
+
+/**
+ * Fields in `data` whose value differs from `before`, as { from, to } pairs.
+ */
+export function diffFields(before: Record<string, unknown>, data: Record<string, unknown>): FieldChanges {
+  const changes: FieldChanges = {};
+  for (const [field, value] of Object.entries(data)) {
+    if (!sameValue(before[field], value)) {
+      changes[field] = { from: toJsonValue(before[field]), to: toJsonValue(value) };
+    }
+  }
+  return changes;
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+export async function createImportBatch(
+  organizationId: string,
+  input: { source: string; entityType: ImportBatchEntityType; userId?: string },
+): Promise<ImportBatch> {
+  return prisma.importBatch.create({
+    data: {
+      organizationId,
+      source: input.source,
+      entityType: input.entityType,
+      userId: input.userId ?? null,
+    },
+  });
+}
+
+export async function recordImportCreated(
+  batchId: string,
+  entityType: ImportBatchEntityType | 'tag',
+  entityId: string,
+): Promise<void> {
+  await prisma.importBatchRecord.create({
+    data: { batchId, entityType, entityId, action: 'CREATED' },
+  });
+}
+
+/**
+ * Record a tag an import added to a record it did not create. Links on
+ * created records go away with the record, so they need no entry.
+ */
+export async function recordImportTagged(
+  batchId: string,
+  entityType: ImportBatchEntityType,
+  entityId: string,
+  tagId: string,
+): Promise<void> {
+  await prisma.importBatchRecord.create({
+    data: { batchId, entityType: `${entityType}_tag`, entityId, tagId, action: 'CREATED' },
+  });
+}
+
+/**
+ * Record an update made by an import. `before` is the record as it was read
+ * before the update and `data` the update payload.
+ */
+export async function recordImportUpdated(
+  batchId: string,
+  entityType: ImportBatchEntityType,
+  entityId: string,
+  before: Record<string, unknown>,
+  data: Record<string, unknown>,
+): Promise<void> {
+  await prisma.importBatchRecord.create({
+    data: {
+      batchId,
+      entityType,
+      entityId,
+      action: 'UPDATED',
+      changes: diffFields(before, data) as Prisma.InputJsonValue,
+    },
+  });
+}
+
+export async function finishImportBatch(
+  batchId: string,
+  counts: { created: number; updated: number },
+): Promise<void> {
+  await prisma.importBatch.update({
+    where: { id: batchId },
+    data: { createdCount: counts.created, updatedCount: counts.updated },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+function withUndoDeadline(batch: ImportBatch) {
+  return { ...batch, revertibleUntil: new Date(batch.createdAt.getTime() + UNDO_WINDOW_MS) };
+}
+
+export async function listImportBatches(organizationId: string, limit = 50) {
+  const batches = await prisma.importBatch.findMany({
+    where: { organizationId },
+    orderBy: { createdAt: 'desc' },
+    take: Math.min(Math.max(limit, 1), 200),
+  });
+  return batches.map(withUndoDeadline);
+}
+
+export async function getImportBatch(organizationId: string, batchId: string) {
+  const batch = await prisma.importBatch.findFirst({ where: { id: batchId, organizationId } });
+  if (!batch) {
+    throw new AppError('Import batch not found', 404);
+  }
+  return withUndoDeadline(batch);
+}
+
+// ---------------------------------------------------------------------------
+// Revert
+// ---------------------------------------------------------------------------
+
+async function findEntity(
+  tx: Prisma.TransactionClient,
+  organizationId: string,
+  entityType: string,
+  id: string,
+): Promise<Record<string, unknown> | null> {
+  const where = { id, organizationId };
+  switch (entityType) {
+    case 'contact':
+      return tx.contact.findFirst({ where });
+    case 'company':
+      return tx.company.findFirst({ where });
+    case 'deal':
+      return tx.deal.findFirst({ where });
+    default:
+      return null;
+  }
+}
+
+async function updateEntity(
+  tx: Prisma.TransactionClient,
+  entityType: string,
+  id: string,
+  data: Record<string, unknown>,
+): Promise<void> {
+  switch (entityType) {
+    case 'contact':
+      await tx.contact.update({ where: { id }, data: data as Prisma.ContactUncheckedUpdateInput });
+      break;
+    case 'company':
+      await tx.company.update({ where: { id }, data: data as Prisma.CompanyUncheckedUpdateInput });
+      break;
+    case 'deal':
+      await tx.deal.update({ where: { id }, data: data as Prisma.DealUncheckedUpdateInput });
+      break;
+  }
+}
+
+async function deleteEntities(
+  tx: Prisma.TransactionClient,
+  organizationId: string,
+  entityType: string,
+  ids: string[],
+): Promise<number> {
+  const where = { id: { in: ids }, organizationId };
+  switch (entityType) {
+    case 'contact':
+      return (await tx.contact.deleteMany({ where })).count;
+    case 'company':
+      return (await tx.company.deleteMany({ where })).count;
+    case 'deal':
+      return (await tx.deal.deleteMany({ where })).count;
+    default:
+      return 0;
+  }
+}
+
+async function removeTag(tx: Prisma.TransactionClient, entityType: string, id: string, tagId: string): Promise<void> {
+  switch (entityType) {
+    case 'contact_tag':
+      await tx.contactTag.deleteMany({ where: { contactId: id, tagId } });
+      break;
+    case 'company_tag':
+      await tx.companyTag.deleteMany({ where: { companyId: id, tagId } });
+      break;
+    case 'deal_tag':
+      await tx.dealTag.deleteMany({ where: { dealId: id, tagId } });
+      break;
+  }
+}
+
+/**
+ * Revert an import: restore the fields it updated (unless they changed
+ * since), take off the tags it added, and delete the records and unused tags
+ * it created, all in one transaction. Only allowed once, within
+ * IMPORT_UNDO_WINDOW_DAYS of the import.
+ */
+export async function revertImportBatch(
+  organizationId: string,
+  batchId: string,
+  userId?: string,
+): Promise<RevertResult> {
+  const batch = await prisma.importBatch.findFirst({ where: { id: batchId, organizationId } });
+  if (!batch) {
+    throw new AppError('Import batch not found', 404);
+  }
+  if (batch.revertedAt) {
+    throw new AppError('Import batch has already been reverted', 409);
+  }
+  if (Date.now() - batch.createdAt.getTime() > UNDO_WINDOW_MS) {
+    throw new AppError(`Imports can only be reverted within ${IMPORT_UNDO_WINDOW_DAYS} days`, 410);
+  }
+
+  const result: RevertResult = { deleted: 0, restored: 0, missing: 0, conflicts: [] };
+
+  await prisma.$transaction(
+    async (tx) => {
+      // Claim the batch first so two concurrent reverts cannot both run
+      const claimed = await tx.importBatch.updateMany({
+        where: { id: batchId, revertedAt: null },
+        data: { revertedAt: new Date(), revertedById: userId ?? null },
+      });
+      if (claimed.count === 0) {
+        throw new AppError('Import batch has already been reverted', 409);
+      }
+
+      const records = await tx.importBatchRecord.findMany({
+        where: { batchId },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      for (const record of records) {
+        if (record.action !== 'UPDATED') continue;
+
+        const current = await findEntity(tx, organizationId, record.entityType, record.entityId);
+        if (!current) {
+          result.missing++;
+          continue;
+        }
+
+        const data: Record<string, unknown> = {};
+        for (const [field, change] of Object.entries((record.changes as FieldChanges | null) ?? {})) {
+          if (!sameValue(current[field], change.to)) {
+            result.conflicts.push({ entityType: record.entityType, entityId: record.entityId, field });
+            continue;
+          }
+          data[field] = change.from === null && JSON_FIELDS.has(field) ? Prisma.JsonNull : change.from;
+        }
+
+        if (Object.keys(data).length > 0) {
+          await updateEntity(tx, record.entityType, record.entityId, data);
+          result.restored++;
+        }
+      }
+
+      for (const record of records) {
+        if (record.tagId) await removeTag(tx, record.entityType, record.entityId, record.tagId);
+      }
+
+      for (const entityType of DELETE_ORDER) {
+        const ids = records
+          .filter((r) => r.action === 'CREATED' && r.entityType === entityType)
+          .map((r) => r.entityId);
+        if (ids.length === 0) continue;
+
+        const deleted = await deleteEntities(tx, organizationId, entityType, ids);
+        result.deleted += deleted;
+        result.missing += ids.length - deleted;
+      }
+
+      // Tags the import created, unless a later import or a user still uses them
+      const tagIds = records.filter((r) => r.action === 'CREATED' && r.entityType === 'tag').map((r) => r.entityId);
+      if (tagIds.length > 0) {
+        await tx.tag.deleteMany({
+          where: {
+            id: { in: tagIds },
+            organizationId,
+            contacts: { none: {} },
+            companies: { none: {} },
+            deals: { none: {} },
+          },
+        });
+      }
+    },
+    { timeout: REVERT_TIMEOUT_MS },
+  );
+
+  logAudit({
+    organizationId,
+    userId,
+    action: 'import_revert',
+    entityType: 'import_batch',
+    entityId: batchId,
+    entityName: `${batch.source} ${batch.entityType} import`,
+    metadata: {
+      source: batch.source,
+      importedAt: batch.createdAt.toISOString(),
+      deleted: result.deleted,
+      restored: result.restored,
+      missing: result.missing,
+      conflicts: result.conflicts.length,
+    },
+  });
+
+  logger.info(
+    `Reverted import batch ${batchId}: ${result.deleted} deleted, ${result.restored} restored, ${result.conflicts.length} conflicts`,
+  );
+
+  return result;
+}
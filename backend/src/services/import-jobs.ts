@@ -0,0 +1,431 @@
+import { ImportJob, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { enqueueCsvImport } from '../jobs/producers';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import {
+  applyColumnMapping,
+  checkColumnMapping,
+  ColumnMapping,
+  ImportEntityType,
+  ImportFieldDefinition,
+  ImportResult,
+  ImportTarget,
+  ImportValidation,
+  importCompanyRow,
+  importContactRow,
+  listImportTargets,
+  MAX_ROWS,
+  parseCSV,
+  suggestColumnMapping,
+  validateImportRows,
+  validateMappedRow,
+} from './csv-import';
+import { createImportBatch, finishImportBatch, recordImportCreated } from './import-batches';
+import { broadcastImportProgress } from './websocket';
+
+// ---------------------------------------------------------------------------
+// Two-phase CSV imports
+// ---------------------------------------------------------------------------
+// 1. Upload: the file is parsed and stored on an ImportJob, and the caller gets
+//    the detected columns, a suggested mapping and a validation preview.
+// 2. Start: the confirmed mapping is saved and the import runs on the
+//    csv-import queue, reporting progress over the WebSocket.
+
+export interface ImportPreview {
+  importId: string;
+  entityType: ImportEntityType;
+  fileName: string | null;
+  columns: Array<{ header: string; label: string }>;
+  mapping: ColumnMapping;
+  targets: ImportTarget[];
+  sampleRows: Record<string, string>[];
+  validation: ImportValidation;
+}
+
+export interface ImportJobSummary {
+  id: string;
+  entityType: string;
+  fileName: string | null;
+  status: string;
+  mapping: ColumnMapping | null;
+  totalRows: number;
+  processedRows: number;
+  imported: number;
+  skipped: number;
+  errors: ImportResult['errors'];
+  batchId: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+const SAMPLE_ROWS = 5;
+const PROGRESS_INTERVAL = 100;
+const MAX_STORED_ERRORS = 1000;
+
+function summarize(job: ImportJob): ImportJobSummary {
+  return {
+    id: job.id,
+    entityType: job.entityType,
+    fileName: job.fileName,
+    status: job.status,
+    mapping: (job.mapping as ColumnMapping | null) ?? null,
+    totalRows: job.totalRows,
+    processedRows: job.processedRows,
+    imported: job.imported,
+    skipped: job.skipped,
+    errors: (job.errors as ImportResult['errors'] | null) ?? [],
+    batchId: job.batchId,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+  };
+}
+
+async function getFieldDefinitions(
+  organizationId: string,
+  entityType: ImportEntityType,
+): Promise<ImportFieldDefinition[]> {
+  return prisma.customFieldDefinition.findMany({
+    where: { organizationId, entityType },
+    select: { fieldName: true, displayName: true, fieldType: true, options: true, required: true },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+async function findImportJob(organizationId: string, importId: string): Promise<ImportJob> {
+  const job = await prisma.importJob.findFirst({ where: { id: importId, organizationId } });
+  if (!job) {
+    throw new AppError('Import not found', 404);
+  }
+  return job;
+}
+
+function parseStoredFile(job: ImportJob) {
+  if (job.csvContent === null) {
+    throw new AppError('The uploaded file for this import is no longer available', 409);
+  }
+  return parseCSV(job.csvContent);
+}
+
+function buildPreview(
+  job: ImportJob,
+  parsed: ReturnType<typeof parseCSV>,
+  mapping: ColumnMapping,
+  definitions: ImportFieldDefinition[],
+): ImportPreview {
+  const entityType = job.entityType as ImportEntityType;
+  return {
+    importId: job.id,
+    entityType,
+    fileName: job.fileName,
+    columns: parsed.headers.map((header, i) => ({ header, label: parsed.labels[i] })),
+    mapping,
+    targets: listImportTargets(entityType, definitions),
+    sampleRows: parsed.rows.slice(0, SAMPLE_ROWS),
+    validation: validateImportRows(entityType, parsed.rows, mapping, definitions),
+  };
+}
+
+/**
+ * Parse an uploaded CSV and store it as a pending import. When a template is
+ * given, its mapping is used for every column it knows about and still valid;
+ * the remaining columns get suggestions.
+ */
+export async function createImportPreview(
+  organizationId: string,
+  userId: string | undefined,
+  input: { csv: string; entityType: ImportEntityType; fileName?: string; templateId?: string },
+): Promise<ImportPreview> {
+  const parsed = parseCSV(input.csv);
+  if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+    throw new AppError('CSV must contain a header row and at least one data row', 400);
+  }
+  if (parsed.rows.length > MAX_ROWS) {
+    throw new AppError(`CSV exceeds the maximum of ${MAX_ROWS} rows (got ${parsed.rows.length})`, 400);
+  }
+
+  const definitions = await getFieldDefinitions(organizationId, input.entityType);
+  const mapping = suggestColumnMapping(input.entityType, parsed.headers, definitions);
+
+  if (input.templateId) {
+    const template = await prisma.importMappingTemplate.findFirst({
+      where: { id: input.templateId, organizationId, entityType: input.entityType },
+    });
+    if (!template) {
+      throw new AppError('Import template not found', 404);
+    }
+    const targets = new Set(listImportTargets(input.entityType, definitions).map((t) => t.value));
+    const saved = template.mapping as ColumnMapping;
+    const claimed = new Set(Object.values(saved).filter((t): t is string => !!t && targets.has(t)));
+
+    // Drop suggestions that would collide with a target the template assigns
+    for (const header of parsed.headers) {
+      if (mapping[header] && claimed.has(mapping[header]!)) mapping[header] = null;
+    }
+    for (const header of parsed.headers) {
+      const target = saved[header];
+      if (target === null) mapping[header] = null;
+      else if (target && targets.has(target)) mapping[header] = target;
+    }
+  }
+
+  const job = await prisma.importJob.create({
+    data: {
+      organizationId,
+      userId: userId ?? null,
+      entityType: input.entityType,
+      fileName: input.fileName ?? null,
+      csvContent: input.csv,
+      mapping: mapping as Prisma.InputJsonValue,
+      totalRows: parsed.rows.length,
+    },
+  });
+
+  return buildPreview(job, parsed, mapping, definitions);
+}
+
+/**
+ * Re-validate a pending import against an edited mapping.
+ */
+export async function previewImportMapping(
+  organizationId: string,
+  importId: string,
+  mapping: ColumnMapping,
+): Promise<ImportPreview> {
+  const job = await findImportJob(organizationId, importId);
+  if (job.status !== 'PENDING') {
+    throw new AppError(`Import has already been started (status ${job.status})`, 409);
+  }
+
+  const entityType = job.entityType as ImportEntityType;
+  const parsed = parseStoredFile(job);
+  const definitions = await getFieldDefinitions(organizationId, entityType);
+  checkColumnMapping(entityType, parsed.headers, mapping, definitions);
+
+  const updated = await prisma.importJob.update({
+    where: { id: job.id },
+    data: { mapping: mapping as Prisma.InputJsonValue },
+  });
+
+  return buildPreview(updated, parsed, mapping, definitions);
+}
+
+/**
+ * Confirm the mapping and queue the import. Optionally saves the mapping as a
+ * named template for later uploads of the same shape.
+ */
+export async function startImport(
+  organizationId: string,
+  importId: string,
+  input: { mapping: ColumnMapping; saveAsTemplate?: string },
+): Promise<ImportJobSummary> {
+  const job = await findImportJob(organizationId, importId);
+  if (job.status !== 'PENDING') {
+    throw new AppError(`Import has already been started (status ${job.status})`, 409);
+  }
+
+  const entityType = job.entityType as ImportEntityType;
+  const parsed = parseStoredFile(job);
+  const definitions = await getFieldDefinitions(organizationId, entityType);
+  checkColumnMapping(entityType, parsed.headers, input.mapping, definitions);
+
+  if (input.saveAsTemplate) {
+    await saveImportTemplate(organizationId, {
+      entityType,
+      name: input.saveAsTemplate,
+      mapping: input.mapping,
+    });
+  }
+
+  // Only the first of two concurrent confirmations moves the job out of PENDING
+  const claimed = await prisma.importJob.updateMany({
+    where: { id: job.id, status: 'PENDING' },
+    data: { status: 'QUEUED', mapping: input.mapping as Prisma.InputJsonValue },
+  });
+  if (claimed.count === 0) {
+    throw new AppError('Import has already been started', 409);
+  }
+  try {
+    await enqueueCsvImport({ organizationId, importId: job.id });
+  } catch (err) {
+    // Nothing will pick up a QUEUED job that never reached the queue, so hand
+    // it back for another confirmation
+    await prisma.importJob.updateMany({
+      where: { id: job.id, status: 'QUEUED' },
+      data: { status: 'PENDING' },
+    });
+    throw err;
+  }
+
+  return summarize({ ...job, status: 'QUEUED', mapping: input.mapping as Prisma.JsonObject });
+}
+
+export async function getImportJob(organizationId: string, importId: string): Promise<ImportJobSummary> {
+  return summarize(await findImportJob(organizationId, importId));
+}
+
+/**
+ * Run a queued import. Called by the csv-import worker. Progress is saved
+ * every PROGRESS_INTERVAL rows and broadcast as import.* WebSocket events.
+ */
+export async function runImportJob(importId: string): Promise<ImportResult> {
+  const job = await prisma.importJob.findUnique({ where: { id: importId } });
+  if (!job) {
+    throw new AppError('Import not found', 404);
+  }
+  if (job.status !== 'QUEUED') {
+    throw new AppError(`Import is not queued (status ${job.status})`, 409);
+  }
+
+  const { organizationId } = job;
+  const entityType = job.entityType as ImportEntityType;
+  const mapping = (job.mapping as ColumnMapping | null) ?? {};
+  const result: ImportResult = { total: job.totalRows, imported: 0, skipped: 0, errors: [] };
+  let processedRows = 0;
+
+  const progress = (status: string, error?: string) => ({
+    importId,
+    entityType,
+    status,
+    totalRows: result.total,
+    processedRows,
+    imported: result.imported,
+    skipped: result.skipped,
+    ...(error && { error }),
+  });
+
+  const batch = await createImportBatch(organizationId, {
+    source: 'csv',
+    entityType,
+    userId: job.userId ?? undefined,
+  });
+  result.batchId = batch.id;
+
+  await prisma.importJob.update({
+    where: { id: importId },
+    data: { status: 'RUNNING', startedAt: new Date(), batchId: batch.id },
+  });
+  broadcastImportProgress(organizationId, 'progress', progress('RUNNING'));
+
+  try {
+    const { rows } = parseStoredFile(job);
+    const definitions = await getFieldDefinitions(organizationId, entityType);
+    result.total = rows.length;
+
+    for (let i = 0; i < rows.length; i++) {
+      try {
+        const { mapped, errors } = applyColumnMapping(rows[i], mapping, definitions);
+        errors.push(...validateMappedRow(entityType, mapped));
+
+        if (errors.length > 0) {
+          result.errors.push({ row: i + 2, error: errors.join('; ') });
+          result.skipped++;
+        } else {
+          const id = entityType === 'contact'
+            ? await importContactRow(organizationId, mapped)
+            : await importCompanyRow(organizationId, mapped);
+          if (id) {
+            await recordImportCreated(batch.id, entityType, id);
+            result.imported++;
+          } else {
+            result.skipped++;
+          }
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.errors.push({ row: i + 2, error: message });
+        result.skipped++;
+      }
+
+      processedRows = i + 1;
+      if (processedRows % PROGRESS_INTERVAL === 0 && processedRows < rows.length) {
+        await prisma.importJob.update({
+          where: { id: importId },
+          data: { processedRows, imported: result.imported, skipped: result.skipped },
+        });
+        broadcastImportProgress(organizationId, 'progress', progress('RUNNING'));
+      }
+    }
+
+    await finishImportBatch(batch.id, { created: result.imported, updated: 0 });
+    await prisma.importJob.update({
+      where: { id: importId },
+      data: {
+        status: 'COMPLETED',
+        csvContent: null,
+        processedRows,
+        imported: result.imported,
+        skipped: result.skipped,
+        errors: result.errors.slice(0, MAX_STORED_ERRORS) as unknown as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+    broadcastImportProgress(organizationId, 'completed', progress('COMPLETED'));
+
+    logger.info(
+      `CSV ${entityType} import ${importId} complete: ${result.imported} imported, ${result.skipped} skipped, ${result.errors.length} errors`,
+    );
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await finishImportBatch(batch.id, { created: result.imported, updated: 0 });
+    await prisma.importJob.update({
+      where: { id: importId },
+      data: {
+        status: 'FAILED',
+        csvContent: null,
+        processedRows,
+        imported: result.imported,
+        skipped: result.skipped,
+        errors: [...result.errors.slice(0, MAX_STORED_ERRORS - 1), { row: 0, error: message }] as unknown as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+    broadcastImportProgress(organizationId, 'failed', progress('FAILED', message));
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Mapping templates
+// ---------------------------------------------------------------------------
+
+export async function listImportTemplates(organizationId: string, entityType?: ImportEntityType) {
+  return prisma.importMappingTemplate.findMany({
+    where: { organizationId, ...(entityType && { entityType }) },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/**
+ * Create a template, or replace the mapping of the one with the same name.
+ */
+export async function saveImportTemplate(
+  organizationId: string,
+  input: { entityType: ImportEntityType; name: string; mapping: ColumnMapping },
+) {
+  const mapping = input.mapping as Prisma.InputJsonValue;
+  return prisma.importMappingTemplate.upsert({
+    where: {
+      organizationId_entityType_name: {
+        organizationId,
+        entityType: input.entityType,
+        name: input.name,
+      },
+    },
+    create: { organizationId, entityType: input.entityType, name: input.name, mapping },
+    update: { mapping },
+  });
+}
+
+export async function deleteImportTemplate(organizationId: string, templateId: string): Promise<void> {
+  const template = await prisma.importMappingTemplate.findFirst({
+    where: { id: templateId, organizationId },
+  });
+  if (!template) {
+    throw new AppError('Import template not found', 404);
+  }
+  await prisma.importMappingTemplate.delete({ where: { id: templateId } });
+}
@@ -0,0 +1,725 @@
+import crypto from 'crypto';
+import net from 'net';
+import { IngestionRule, IngestionRuleAction, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import {
+  ScoringCondition,
+  ScoringConditionOperator,
+  matchesRegexWithin,
+  matchesScoringCondition,
+  regexPatternError,
+} from './scoring-rules';
+import type { SignalInput } from './signals';
+
+// ---------------------------------------------------------------------------
+// Ingestion rules
+// ---------------------------------------------------------------------------
+// Org-defined rules run on every signal passed to ingestSignal /
+// ingestSignalBatch before deduplication and storage. Enabled rules are
+// evaluated in position order; each sees the signal as left by the rules
+// before it, and a DROP stops evaluation. A rule "touches" a signal when it
+// drops or changes it, and the running total is kept on the rule.
+// Regex conditions share a per-signal time budget, since rules run on the
+// request path: once it is spent, the remaining ones count as no match.
+
+export type IngestionConditionOperator = ScoringConditionOperator | 'neq' | 'startsWith' | 'endsWith' | 'cidr';
+
+/**
+ * A condition on an ingestion rule. Supported fields are `type`, `sourceId`,
+ * `sourceType`, `actorId`, `accountId`, `anonymousId` and `metadata.<path>`.
+ *
+ * Operators are those of scoring conditions plus `neq`, `startsWith` and
+ * `endsWith` (each taking one value or a list, matched case-insensitively)
+ * and `cidr`, which takes a list of ranges or addresses such as
+ * `10.0.0.0/8,192.168.0.0/16`.
+ */
+export interface IngestionCondition {
+  field: string;
+  operator: IngestionConditionOperator;
+  value: ScoringCondition['value'];
+}
+
+export type RedactionMode = 'remove' | 'mask' | 'hash';
+
+/** Action settings; only the keys for the rule's action are kept. */
+export interface IngestionRuleConfig {
+  /** RENAME_TYPE: the new signal type */
+  type?: string;
+  /** SET_METADATA: values to set, keyed by metadata path (e.g. `team.name`) */
+  metadata?: Record<string, unknown>;
+  /** REDACT: metadata paths to redact */
+  fields?: string[];
+  /** REDACT: delete the field, replace it with a mask, or replace it with its SHA-256 hash */
+  mode?: RedactionMode;
+}
+
+export type IngestionRuleMatch = 'all' | 'any';
+
+/** What rule evaluation needs; saved rules and unsaved drafts both fit. */
+export interface IngestionRuleDefinition {
+  id: string;
+  name: string;
+  match: IngestionRuleMatch;
+  conditions: IngestionCondition[];
+  action: IngestionRuleAction;
+  config: IngestionRuleConfig;
+}
+
+export interface CreateIngestionRuleInput {
+  name: string;
+  description?: string | null;
+  enabled?: boolean;
+  /** Defaults to after the org's last rule */
+  position?: number;
+  match?: IngestionRuleMatch;
+  conditions?: IngestionCondition[];
+  action: IngestionRuleAction;
+  config?: IngestionRuleConfig;
+}
+
+export type UpdateIngestionRuleInput = Partial<CreateIngestionRuleInput>;
+
+/** The signal fields rules read and write. */
+export type IngestibleSignal = Pick<SignalInput, 'type' | 'metadata'> &
+  Partial<Pick<SignalInput, 'sourceId' | 'actorId' | 'accountId' | 'anonymousId'>>;
+
+export interface IngestionOutcome<T extends IngestibleSignal = SignalInput> {
+  /** The signal to store, or null when a rule dropped it */
+  signal: T | null;
+  droppedBy: { id: string; name: string } | null;
+  /** Rules that dropped or changed the signal, in evaluation order */
+  touched: string[];
+}
+
+export interface IngestionSample extends Partial<IngestibleSignal> {
+  type: string;
+  /** Source type to test `sourceType` conditions against (e.g. GITHUB) */
+  sourceType?: string;
+}
+
+export interface IngestionRuleTestResult {
+  results: Array<{
+    input: IngestionSample;
+    output: IngestibleSignal | null;
+    dropped: boolean;
+    droppedBy: { id: string; name: string } | null;
+    touched: string[];
+  }>;
+  /** How many samples each rule dropped or changed */
+  rules: Array<{ id: string; name: string; action: IngestionRuleAction; touched: number }>;
+  summary: { total: number; dropped: number; changed: number; unchanged: number };
+}
+
+export const MAX_INGESTION_RULES = 50;
+
+const MASK = '[REDACTED]';
+
+const SIGNAL_FIELDS = ['type', 'sourceId', 'sourceType', 'actorId', 'accountId', 'anonymousId'];
+
+const UNSAFE_PATH_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+
+const REDACTION_MODES: RedactionMode[] = ['remove', 'mask', 'hash'];
+
+/** Time regex conditions may take, in total, while rules run over one signal. */
+const REGEX_BUDGET_MS = 50;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toList(value: IngestionCondition['value']): string[] {
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return items.map((item) => String(item).trim()).filter((item) => item !== '');
+}
+
+function splitPath(path: string): string[] | null {
+  const segments = path.split('.');
+  if (segments.some((s) => s === '' || UNSAFE_PATH_SEGMENTS.has(s))) return null;
+  return segments;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function getPath(source: unknown, path: string): unknown {
+  let current = source;
+  for (const key of path.split('.')) {
+    if (!isRecord(current) || !Object.prototype.hasOwnProperty.call(current, key)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+/** The object holding the last path segment, created on the way when `create` is set. */
+function getParent(
+  metadata: Record<string, unknown>,
+  path: string,
+  create: boolean,
+): { parent: Record<string, unknown>; key: string } | null {
+  const segments = splitPath(path);
+  if (!segments) return null;
+
+  let parent = metadata;
+  for (const key of segments.slice(0, -1)) {
+    if (!isRecord(parent[key])) {
+      if (!create) return null;
+      parent[key] = {};
+    }
+    parent = parent[key] as Record<string, unknown>;
+  }
+  return { parent, key: segments[segments.length - 1] };
+}
+
+function resolveField(field: string, signal: IngestibleSignal, sourceType: string | undefined): unknown {
+  if (field.startsWith('metadata.')) {
+    return getPath(signal.metadata, field.slice('metadata.'.length));
+  }
+  switch (field) {
+    case 'type':
+      return signal.type;
+    case 'sourceId':
+      return signal.sourceId;
+    case 'sourceType':
+      return sourceType;
+    case 'actorId':
+      return signal.actorId;
+    case 'accountId':
+      return signal.accountId;
+    case 'anonymousId':
+      return signal.anonymousId;
+    default:
+      return undefined;
+  }
+}
+
+const blockListCache = new Map<string, net.BlockList | null>();
+
+/** Parses a list of CIDR ranges and addresses; null when any entry is invalid. */
+function toBlockList(value: IngestionCondition['value']): net.BlockList | null {
+  const cacheKey = toList(value).join(',');
+  if (!blockListCache.has(cacheKey)) {
+    let list: net.BlockList | null = new net.BlockList();
+    for (const entry of toList(value)) {
+      const [address, prefix, ...rest] = entry.split('/');
+      const family = net.isIP(address);
+      const bits = Number(prefix);
+      if (!family || rest.length > 0) {
+        list = null;
+        break;
+      }
+      const type = family === 4 ? 'ipv4' : 'ipv6';
+      if (prefix === undefined) {
+        list.addAddress(address, type);
+      } else if (Number.isInteger(bits) && bits >= 0 && bits <= (family === 4 ? 32 : 128)) {
+        list.addSubnet(address, bits, type);
+      } else {
+        list = null;
+        break;
+      }
+    }
+    if (blockListCache.size > 500) blockListCache.clear();
+    blockListCache.set(cacheKey, list);
+  }
+  return blockListCache.get(cacheKey) ?? null;
+}
+
+function inRanges(value: string, cond: IngestionCondition): boolean {
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as IPv4
+  const address = /^::ffff:\d+\.\d+\.\d+\.\d+$/i.test(value) ? value.slice(7) : value;
+  const family = net.isIP(address);
+  const list = family ? toBlockList(cond.value) : null;
+  return list !== null && list.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Tests a resolved field value against a condition. Array values match when
+ * any element matches, as for scoring conditions. Regex conditions give up
+ * at `deadline` (epoch ms).
+ */
+export function matchesIngestionCondition(
+  cond: IngestionCondition,
+  fieldValue: unknown,
+  deadline: number = Date.now() + REGEX_BUDGET_MS,
+): boolean {
+  switch (cond.operator) {
+    case 'neq':
+      return !matchesScoringCondition({ ...cond, operator: 'eq' }, fieldValue);
+    case 'regex':
+    case 'startsWith':
+    case 'endsWith':
+    case 'cidr':
+      break;
+    default:
+      return matchesScoringCondition(cond as ScoringCondition, fieldValue);
+  }
+
+  if (fieldValue === undefined || fieldValue === null || fieldValue === '') return false;
+  if (Array.isArray(fieldValue)) {
+    return fieldValue.some((item) => matchesIngestionCondition(cond, item, deadline));
+  }
+  if (typeof fieldValue === 'object') return false;
+
+  if (cond.operator === 'regex') {
+    return matchesRegexWithin(String(cond.value), String(fieldValue), deadline - Date.now());
+  }
+
+  const text = String(fieldValue).trim();
+  if (cond.operator === 'cidr') return inRanges(text, cond);
+
+  const lower = text.toLowerCase();
+  return toList(cond.value).some((item) =>
+    cond.operator === 'startsWith' ? lower.startsWith(item.toLowerCase()) : lower.endsWith(item.toLowerCase()),
+  );
+}
+
+function ruleMatches(
+  rule: IngestionRuleDefinition,
+  signal: IngestibleSignal,
+  sourceType: string | undefined,
+  deadline: number,
+): boolean {
+  if (rule.conditions.length === 0) return true;
+  const test = (cond: IngestionCondition) =>
+    matchesIngestionCondition(cond, resolveField(cond.field, signal, sourceType), deadline);
+  return rule.match === 'any' ? rule.conditions.some(test) : rule.conditions.every(test);
+}
+
+function redactedValue(value: unknown, mode: RedactionMode): unknown {
+  if (mode === 'mask') return MASK;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `sha256:${crypto.createHash('sha256').update(text).digest('hex')}`;
+}
+
+/** Applies a matched rule's rewrite in place. Returns whether anything changed. */
+function applyRewrite(rule: IngestionRuleDefinition, signal: IngestibleSignal): boolean {
+  const { config } = rule;
+  let changed = false;
+
+  switch (rule.action) {
+    case 'RENAME_TYPE':
+      if (config.type && signal.type !== config.type) {
+        signal.type = config.type;
+        changed = true;
+      }
+      break;
+
+    case 'SET_METADATA':
+      for (const [path, value] of Object.entries(config.metadata ?? {})) {
+        if (JSON.stringify(getPath(signal.metadata, path)) === JSON.stringify(value)) continue;
+        const target = getParent(signal.metadata, path, true);
+        if (!target) continue;
+        target.parent[target.key] = value;
+        changed = true;
+      }
+      break;
+
+    case 'REDACT': {
+      const mode = config.mode ?? 'mask';
+      for (const path of config.fields ?? []) {
+        const target = getParent(signal.metadata, path, false);
+        if (!target || !Object.prototype.hasOwnProperty.call(target.parent, target.key)) continue;
+
+        const current = target.parent[target.key];
+        if (mode === 'remove') {
+          delete target.parent[target.key];
+        } else {
+          const replacement = redactedValue(current, mode);
+          if (current === replacement) continue;
+          target.parent[target.key] = replacement;
+        }
+        changed = true;
+      }
+      break;
+    }
+
+    default:
+      break;
+  }
+
+  return changed;
+}
+
+/**
+ * Runs rules over one signal without touching the input. Rules are taken in
+ * the order given.
+ */
+export function applyIngestionRules<T extends IngestibleSignal>(
+  rules: IngestionRuleDefinition[],
+  input: T,
+  sourceType?: string,
+): IngestionOutcome<T> {
+  if (rules.length === 0) {
+    return { signal: input, droppedBy: null, touched: [] };
+  }
+
+  const signal: T = { ...input, metadata: structuredClone(input.metadata ?? {}) };
+  const touched: string[] = [];
+  const deadline = Date.now() + REGEX_BUDGET_MS;
+
+  for (const rule of rules) {
+    if (!ruleMatches(rule, signal, sourceType, deadline)) continue;
+
+    if (rule.action === 'DROP') {
+      touched.push(rule.id);
+      return { signal: null, droppedBy: { id: rule.id, name: rule.name }, touched };
+    }
+    if (applyRewrite(rule, signal)) touched.push(rule.id);
+  }
+
+  return { signal, droppedBy: null, touched };
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function validateConditions(conditions: IngestionCondition[]): void {
+  for (const cond of conditions) {
+    const where = `Condition on "${cond.field}"`;
+
+    if (cond.field.startsWith('metadata.')) {
+      if (!splitPath(cond.field.slice('metadata.'.length))) {
+        throw new AppError(`${where}: invalid metadata path`, 400);
+      }
+    } else if (!SIGNAL_FIELDS.includes(cond.field)) {
+      throw new AppError(
+        `${where}: unknown field; use ${SIGNAL_FIELDS.join(', ')} or metadata.<path>`,
+        400,
+      );
+    }
+
+    switch (cond.operator) {
+      case 'regex': {
+        const error = regexPatternError(String(cond.value));
+        if (error) throw new AppError(`${where}: ${error}`, 400);
+        break;
+      }
+      case 'in':
+      case 'startsWith':
+      case 'endsWith':
+        if (toList(cond.value).length === 0) {
+          throw new AppError(`${where}: ${cond.operator} expects at least one value`, 400);
+        }
+        break;
+      case 'cidr':
+        if (toList(cond.value).length === 0 || !toBlockList(cond.value)) {
+          throw new AppError(`${where}: cidr expects IP addresses or ranges such as 10.0.0.0/8`, 400);
+        }
+        break;
+      case 'between': {
+        const parts = toList(cond.value).map(Number);
+        if (parts.length !== 2 || parts.some((n) => isNaN(n))) {
+          throw new AppError(`${where}: between expects two numbers (min,max)`, 400);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+}
+
+function assertSafePaths(paths: string[], what: string): void {
+  for (const path of paths) {
+    if (!splitPath(path)) {
+      throw new AppError(`${what}: invalid metadata path "${path}"`, 400);
+    }
+  }
+}
+
+/** Checks an action's settings and returns only the keys that action uses. */
+function normalizeConfig(action: IngestionRuleAction, config: IngestionRuleConfig): IngestionRuleConfig {
+  switch (action) {
+    case 'DROP':
+      return {};
+    case 'RENAME_TYPE': {
+      const type = config.type?.trim();
+      if (!type) throw new AppError('RENAME_TYPE rules need a new signal type (config.type)', 400);
+      return { type };
+    }
+    case 'SET_METADATA': {
+      const metadata = config.metadata ?? {};
+      if (!isRecord(metadata) || Object.keys(metadata).length === 0) {
+        throw new AppError('SET_METADATA rules need at least one metadata value (config.metadata)', 400);
+      }
+      assertSafePaths(Object.keys(metadata), 'SET_METADATA');
+      return { metadata };
+    }
+    case 'REDACT': {
+      const fields = config.fields ?? [];
+      if (fields.length === 0) {
+        throw new AppError('REDACT rules need at least one metadata field (config.fields)', 400);
+      }
+      assertSafePaths(fields, 'REDACT');
+      const mode = config.mode ?? 'mask';
+      if (!REDACTION_MODES.includes(mode)) {
+        throw new AppError(`REDACT mode must be one of ${REDACTION_MODES.join(', ')}`, 400);
+      }
+      return { fields, mode };
+    }
+    default:
+      throw new AppError(`Unknown ingestion rule action "${action}"`, 400);
+  }
+}
+
+/**
+ * Validates a complete rule and returns it with its config normalized.
+ * Throws a 400 AppError naming the first problem.
+ */
+export function validateIngestionRule<R extends Omit<IngestionRuleDefinition, 'id'>>(rule: R): R {
+  validateConditions(rule.conditions);
+  return { ...rule, config: normalizeConfig(rule.action, rule.config) };
+}
+
+function toDefinition(rule: IngestionRule): IngestionRuleDefinition {
+  return {
+    id: rule.id,
+    name: rule.name,
+    match: rule.match === 'any' ? 'any' : 'all',
+    conditions: (rule.conditions as unknown as IngestionCondition[]) ?? [],
+    action: rule.action,
+    config: (rule.config as unknown as IngestionRuleConfig) ?? {},
+  };
+}
+
+// ---------------------------------------------------------------------------
+// CRUD
+// ---------------------------------------------------------------------------
+
+async function findRuleOrThrow(organizationId: string, ruleId: string): Promise<IngestionRule> {
+  const rule = await prisma.ingestionRule.findFirst({ where: { id: ruleId, organizationId } });
+  if (!rule) {
+    throw new AppError('Ingestion rule not found', 404);
+  }
+  return rule;
+}
+
+/**
+ * List the org's rules in evaluation order, with how many signals each has
+ * dropped or changed.
+ */
+export async function listIngestionRules(organizationId: string): Promise<IngestionRule[]> {
+  return prisma.ingestionRule.findMany({
+    where: { organizationId },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+export async function getIngestionRule(organizationId: string, ruleId: string): Promise<IngestionRule> {
+  return findRuleOrThrow(organizationId, ruleId);
+}
+
+export async function createIngestionRule(
+  organizationId: string,
+  input: CreateIngestionRuleInput,
+): Promise<IngestionRule> {
+  const count = await prisma.ingestionRule.count({ where: { organizationId } });
+  if (count >= MAX_INGESTION_RULES) {
+    throw new AppError(`Organizations can have at most ${MAX_INGESTION_RULES} ingestion rules`, 400);
+  }
+
+  const rule = validateIngestionRule({
+    name: input.name,
+    match: input.match ?? 'all',
+    conditions: input.conditions ?? [],
+    action: input.action,
+    config: input.config ?? {},
+  });
+
+  let position = input.position;
+  if (position === undefined) {
+    const last = await prisma.ingestionRule.findFirst({
+      where: { organizationId },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+    position = last ? last.position + 1 : 0;
+  }
+
+  const created = await prisma.ingestionRule.create({
+    data: {
+      organizationId,
+      name: rule.name,
+      description: input.description ?? null,
+      enabled: input.enabled ?? true,
+      position,
+      match: rule.match,
+      conditions: rule.conditions as unknown as Prisma.InputJsonValue,
+      action: rule.action,
+      config: rule.config as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info('Ingestion rule created', { organizationId, ruleId: created.id, action: created.action });
+  return created;
+}
+
+/**
+ * Update a rule. Conditions, action and config are validated together, so
+ * changing the action may also require a new config.
+ */
+export async function updateIngestionRule(
+  organizationId: string,
+  ruleId: string,
+  input: UpdateIngestionRuleInput,
+): Promise<IngestionRule> {
+  const existing = await findRuleOrThrow(organizationId, ruleId);
+  const current = toDefinition(existing);
+
+  const rule = validateIngestionRule({
+    name: input.name ?? current.name,
+    match: input.match ?? current.match,
+    conditions: input.conditions ?? current.conditions,
+    action: input.action ?? current.action,
+    config: input.config ?? current.config,
+  });
+
+  return prisma.ingestionRule.update({
+    where: { id: existing.id },
+    data: {
+      name: rule.name,
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.enabled !== undefined && { enabled: input.enabled }),
+      ...(input.position !== undefined && { position: input.position }),
+      match: rule.match,
+      conditions: rule.conditions as unknown as Prisma.InputJsonValue,
+      action: rule.action,
+      config: rule.config as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+export async function deleteIngestionRule(organizationId: string, ruleId: string): Promise<void> {
+  const rule = await findRuleOrThrow(organizationId, ruleId);
+  await prisma.ingestionRule.delete({ where: { id: rule.id } });
+  logger.info('Ingestion rule deleted', { organizationId, ruleId });
+}
+
+/**
+ * Set the evaluation order. `ruleIds` must list every rule of the org once.
+ */
+export async function reorderIngestionRules(organizationId: string, ruleIds: string[]): Promise<IngestionRule[]> {
+  const rules = await prisma.ingestionRule.findMany({ where: { organizationId }, select: { id: true } });
+  const known = new Set(rules.map((r) => r.id));
+
+  if (ruleIds.length !== known.size || new Set(ruleIds).size !== ruleIds.length || !ruleIds.every((id) => known.has(id))) {
+    throw new AppError('ruleIds must list every ingestion rule of the organization exactly once', 400);
+  }
+
+  await prisma.$transaction(
+    ruleIds.map((id, position) => prisma.ingestionRule.update({ where: { id }, data: { position } })),
+  );
+
+  return listIngestionRules(organizationId);
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function recordTouches(outcomes: Array<IngestionOutcome<IngestibleSignal>>): void {
+  const counts = new Map<string, number>();
+  for (const outcome of outcomes) {
+    for (const ruleId of outcome.touched) {
+      counts.set(ruleId, (counts.get(ruleId) ?? 0) + 1);
+    }
+  }
+
+  const now = new Date();
+  for (const [ruleId, count] of counts) {
+    prisma.ingestionRule
+      .updateMany({
+        where: { id: ruleId },
+        data: { touchedCount: { increment: count }, lastTouchedAt: now },
+      })
+      .catch((err) => logger.error('Ingestion rule counter update failed', { ruleId, err }));
+  }
+}
+
+/**
+ * Runs the org's enabled rules over signals about to be ingested and adds
+ * to each rule's touched count (fire-and-forget). Outcomes are in input order.
+ */
+export async function runIngestionRules(
+  organizationId: string,
+  items: Array<{ signal: SignalInput; sourceType?: string }>,
+): Promise<Array<IngestionOutcome<SignalInput>>> {
+  const rows = await prisma.ingestionRule.findMany({
+    where: { organizationId, enabled: true },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+  });
+  const rules = rows.map(toDefinition);
+
+  const outcomes = items.map(({ signal, sourceType }) => applyIngestionRules(rules, signal, sourceType));
+  recordTouches(outcomes);
+
+  return outcomes;
+}
+
+/**
+ * Dry-runs rules against sample payloads without storing anything or
+ * changing counters. Uses the org's enabled rules unless draft rules are
+ * given; drafts without an id are labelled `draft-<n>`.
+ */
+export async function testIngestionRules(
+  organizationId: string,
+  samples: IngestionSample[],
+  drafts?: Array<CreateIngestionRuleInput & { id?: string }>,
+): Promise<IngestionRuleTestResult> {
+  let rules: IngestionRuleDefinition[];
+
+  if (drafts) {
+    rules = drafts
+      .map((draft, index) => ({ draft, index }))
+      .filter(({ draft }) => draft.enabled !== false)
+      .map(({ draft, index }) => ({
+        id: draft.id ?? `draft-${index + 1}`,
+        ...validateIngestionRule({
+          name: draft.name,
+          match: draft.match ?? 'all',
+          conditions: draft.conditions ?? [],
+          action: draft.action,
+          config: draft.config ?? {},
+        }),
+      }));
+  } else {
+    const rows = await prisma.ingestionRule.findMany({
+      where: { organizationId, enabled: true },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+    rules = rows.map(toDefinition);
+  }
+
+  const touchedByRule = new Map<string, number>();
+  const results = samples.map((sample) => {
+    const { sourceType, ...signal } = sample;
+    const outcome = applyIngestionRules(rules, { ...signal, metadata: signal.metadata ?? {} }, sourceType);
+    for (const ruleId of outcome.touched) {
+      touchedByRule.set(ruleId, (touchedByRule.get(ruleId) ?? 0) + 1);
+    }
+    return {
+      input: sample,
+      output: outcome.signal,
+      dropped: outcome.signal === null,
+      droppedBy: outcome.droppedBy,
+      touched: outcome.touched,
+    };
+  });
+
+  const dropped = results.filter((r) => r.dropped).length;
+  const changed = results.filter((r) => !r.dropped && r.touched.length > 0).length;
+
+  return {
+    results,
+    rules: rules.map((rule) => ({
+      id: rule.id,
+      name: rule.name,
+      action: rule.action,
+      touched: touchedByRule.get(rule.id) ?? 0,
+    })),
+    summary: { total: samples.length, dropped, changed, unchanged: samples.length - dropped - changed },
+  };
+}
@@ -1,6 +1,8 @@
 import { prisma } from '../config/database';
 import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
 import { logAudit } from './audit';
+import { fireNoteCreated } from './webhook-events';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -106,6 +108,16 @@ export async function createNote(params: CreateNoteParams) {
     },
   });
 
+  fireNoteCreated(params.organizationId, {
+    id: note.id,
+    entityType: note.entityType,
+    entityId: note.entityId,
+    content: note.content,
+    authorId: note.authorId,
+    mentions: note.mentions,
+    createdAt: note.createdAt,
+  }).catch((err) => logger.error('Webhook fire error (note.created):', err));
+
   return note;
 }
 
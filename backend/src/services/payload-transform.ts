@@ -0,0 +1,1013 @@
+import { AppError } from '../utils/errors';
+
+// ---------------------------------------------------------------------------
+// Webhook payload transforms
+// ---------------------------------------------------------------------------
+// A small JSONata-style expression language for reshaping webhook payloads:
+//
+//   {
+//     "id": data.id,
+//     "owner": data.firstName & ' ' & data.lastName,
+//     "priority": data.score >= 80 ? 'high' : 'normal',
+//     "emails": data.contacts.email,
+//     "contacts": data.contacts[].{ "name": name, "email": $lowercase(email) },
+//     "closedOn": $formatDate(data.closedAt, 'YYYY-MM-DD', 'Europe/Berlin')
+//   }
+//
+// Paths map over arrays (`data.contacts.email` lists every email), `[expr]`
+// filters by predicate or index, `[]` keeps a single match as an array, and
+// `$` / `$$` are the current item and the whole input. `($x := expr; ...)`
+// binds variables in a block. Only the built-in functions below can be
+// called.
+//
+// Expressions are parsed and interpreted here -- nothing is handed to eval or
+// vm -- property lookups only see own properties of the input, string
+// replacement takes no regular expressions, and every run is bounded by
+// step, time and size limits.
+
+export const MAX_TRANSFORM_LENGTH = 10_000;
+export const TRANSFORM_TIME_LIMIT_MS = 50;
+
+const MAX_NESTING = 64;
+const MAX_STEPS = 200_000;
+const MAX_STRING_LENGTH = 100_000;
+const MAX_ARRAY_LENGTH = 10_000;
+const MAX_OUTPUT_BYTES = 256 * 1024;
+const CACHE_SIZE = 500;
+
+/**
+ * A transform that failed to parse or run. `position` is the character offset
+ * in the expression, when known.
+ */
+export class TransformError extends AppError {
+  public readonly position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message, 400);
+    this.position = position;
+    Object.setPrototypeOf(this, TransformError.prototype);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type TokenType = 'number' | 'string' | 'name' | 'variable' | 'operator' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  pos: number;
+}
+
+const OPERATORS = [':=', '!=', '<=', '>=', '.', '[', ']', '{', '}', '(', ')', ',', ':', ';', '?', '+', '-', '*', '/', '%', '&', '=', '<', '>'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      if (end === -1) throw new TransformError('Unterminated comment', i);
+      i = end + 2;
+      continue;
+    }
+
+    const start = i;
+
+    if (ch === '"' || ch === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\') {
+          const next = source[i + 1];
+          const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', "'": "'", '\\': '\\', '/': '/' };
+          if (next === 'u' && /^[0-9a-fA-F]{4}$/.test(source.slice(i + 2, i + 6))) {
+            value += String.fromCharCode(parseInt(source.slice(i + 2, i + 6), 16));
+            i += 6;
+            continue;
+          }
+          if (next === undefined || !(next in escapes)) throw new TransformError('Invalid escape sequence', i);
+          value += escapes[next];
+          i += 2;
+          continue;
+        }
+        value += source[i++];
+      }
+      if (i >= source.length) throw new TransformError('Unterminated string', start);
+      i++;
+      tokens.push({ type: 'string', value, pos: start });
+      continue;
+    }
+
+    if (ch === '`') {
+      const end = source.indexOf('`', i + 1);
+      if (end === -1) throw new TransformError('Unterminated quoted name', i);
+      tokens.push({ type: 'name', value: source.slice(i + 1, end), pos: start });
+      i = end + 1;
+      continue;
+    }
+
+    const number = /^(?:\d+\.?\d*(?:[eE][+-]?\d+)?)/.exec(source.slice(i));
+    if (number && /\d/.test(ch)) {
+      tokens.push({ type: 'number', value: number[0], pos: start });
+      i += number[0].length;
+      continue;
+    }
+
+    if (ch === '$') {
+      const name = /^\$\$|^\$[A-Za-z_][A-Za-z0-9_]*|^\$/.exec(source.slice(i))![0];
+      tokens.push({ type: 'variable', value: name.slice(1), pos: start });
+      i += name.length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], pos: start });
+      i += name[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (!operator) throw new TransformError(`Unexpected character "${ch}"`, i);
+    tokens.push({ type: 'operator', value: operator, pos: start });
+    i += operator.length;
+  }
+
+  tokens.push({ type: 'end', value: '', pos: source.length });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+interface PathStep {
+  node: Node;
+  predicates: Node[];
+  keepArray: boolean;
+}
+
+type Node =
+  | { type: 'literal'; value: unknown; pos: number }
+  | { type: 'name'; name: string; pos: number }
+  | { type: 'variable'; name: string; pos: number }
+  | { type: 'path'; steps: PathStep[]; pos: number }
+  | { type: 'unary'; operand: Node; pos: number }
+  | { type: 'binary'; op: string; left: Node; right: Node; pos: number }
+  | { type: 'condition'; test: Node; then: Node; otherwise?: Node; pos: number }
+  | { type: 'object'; entries: Array<[Node, Node]>; pos: number }
+  | { type: 'array'; items: Node[]; pos: number }
+  | { type: 'call'; name: string; args: Node[]; pos: number }
+  | { type: 'block'; body: Node[]; pos: number }
+  | { type: 'bind'; name: string; value: Node; pos: number };
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  or: 1,
+  and: 2,
+  '=': 3,
+  '!=': 3,
+  '<': 3,
+  '<=': 3,
+  '>': 3,
+  '>=': 3,
+  '+': 4,
+  '-': 4,
+  '&': 4,
+  '*': 5,
+  '/': 5,
+  '%': 5,
+};
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.expression();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new TransformError(`Unexpected "${token.value}"`, token.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private expect(value: string): Token {
+    const token = this.next();
+    if (token.type !== 'operator' || token.value !== value) {
+      throw new TransformError(
+        token.type === 'end' ? `Expected "${value}" before end of expression` : `Expected "${value}" but found "${token.value}"`,
+        token.pos,
+      );
+    }
+    return token;
+  }
+
+  private nested<T>(pos: number, parse: () => T): T {
+    if (++this.depth > MAX_NESTING) {
+      throw new TransformError(`Expression is nested more than ${MAX_NESTING} levels deep`, pos);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private expression(): Node {
+    return this.nested(this.peek().pos, () => {
+      const start = this.peek();
+      if (start.type === 'variable' && start.value && this.tokens[this.index + 1]?.value === ':=') {
+        this.index += 2;
+        return { type: 'bind', name: start.value, value: this.expression(), pos: start.pos };
+      }
+
+      const test = this.binary(1);
+      if (!this.isOperator('?')) return test;
+
+      const pos = this.next().pos;
+      const then = this.expression();
+      if (!this.isOperator(':')) return { type: 'condition', test, then, pos };
+      this.next();
+      return { type: 'condition', test, then, otherwise: this.expression(), pos };
+    });
+  }
+
+  private binaryOperator(): string | null {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value in BINARY_PRECEDENCE) return token.value;
+    if (token.type === 'name' && (token.value === 'and' || token.value === 'or')) return token.value;
+    return null;
+  }
+
+  private binary(minPrecedence: number): Node {
+    let left = this.unary();
+    for (;;) {
+      const op = this.binaryOperator();
+      if (!op || BINARY_PRECEDENCE[op] < minPrecedence) return left;
+      const pos = this.next().pos;
+      const right = this.binary(BINARY_PRECEDENCE[op] + 1);
+      left = { type: 'binary', op, left, right, pos };
+    }
+  }
+
+  private unary(): Node {
+    if (this.isOperator('-')) {
+      const pos = this.next().pos;
+      return this.nested(pos, () => ({ type: 'unary', operand: this.unary(), pos }));
+    }
+    return this.path();
+  }
+
+  private path(): Node {
+    const first = this.primary();
+    const steps: PathStep[] = [{ node: first, predicates: [], keepArray: false }];
+
+    for (;;) {
+      if (this.isOperator('.')) {
+        this.next();
+        steps.push({ node: this.step(), predicates: [], keepArray: false });
+      } else if (this.isOperator('[')) {
+        const pos = this.next().pos;
+        const step = steps[steps.length - 1];
+        if (this.isOperator(']')) {
+          step.keepArray = true;
+        } else {
+          step.predicates.push(this.nested(pos, () => this.expression()));
+        }
+        this.expect(']');
+      } else {
+        break;
+      }
+    }
+
+    if (steps.length === 1 && steps[0].predicates.length === 0 && !steps[0].keepArray) return first;
+    return { type: 'path', steps, pos: first.pos };
+  }
+
+  private step(): Node {
+    const token = this.peek();
+    if (token.type === 'name') {
+      this.next();
+      return { type: 'name', name: token.value, pos: token.pos };
+    }
+    if (token.type === 'variable' || this.isOperator('(') || this.isOperator('{')) {
+      return this.primary();
+    }
+    throw new TransformError(`Expected a field name after "." but found "${token.value || 'end of expression'}"`, token.pos);
+  }
+
+  private primary(): Node {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value), pos: token.pos };
+      case 'string':
+        return { type: 'literal', value: token.value, pos: token.pos };
+      case 'name':
+        if (token.value === 'true' || token.value === 'false') {
+          return { type: 'literal', value: token.value === 'true', pos: token.pos };
+        }
+        if (token.value === 'null') return { type: 'literal', value: null, pos: token.pos };
+        return { type: 'name', name: token.value, pos: token.pos };
+      case 'variable':
+        if (this.isOperator('(')) {
+          return { type: 'call', name: token.value, args: this.list('(', ')'), pos: token.pos };
+        }
+        return { type: 'variable', name: token.value, pos: token.pos };
+      case 'operator':
+        if (token.value === '(') return this.block(token.pos);
+        if (token.value === '[') {
+          this.index--;
+          return { type: 'array', items: this.list('[', ']'), pos: token.pos };
+        }
+        if (token.value === '{') return this.object(token.pos);
+        break;
+      case 'end':
+        throw new TransformError('Unexpected end of expression', token.pos);
+    }
+    throw new TransformError(`Unexpected "${token.value}"`, token.pos);
+  }
+
+  private list(open: string, close: string): Node[] {
+    const pos = this.expect(open).pos;
+    const items: Node[] = [];
+    if (this.isOperator(close)) {
+      this.next();
+      return items;
+    }
+    return this.nested(pos, () => {
+      for (;;) {
+        items.push(this.expression());
+        if (this.isOperator(',')) {
+          this.next();
+          continue;
+        }
+        this.expect(close);
+        return items;
+      }
+    });
+  }
+
+  private block(pos: number): Node {
+    return this.nested(pos, () => {
+      const body: Node[] = [this.expression()];
+      while (this.isOperator(';')) {
+        this.next();
+        if (this.isOperator(')')) break;
+        body.push(this.expression());
+      }
+      this.expect(')');
+      return { type: 'block', body, pos };
+    });
+  }
+
+  private object(pos: number): Node {
+    return this.nested(pos, () => {
+      const entries: Array<[Node, Node]> = [];
+      if (this.isOperator('}')) {
+        this.next();
+        return { type: 'object', entries, pos };
+      }
+      for (;;) {
+        const key = this.expression();
+        this.expect(':');
+        entries.push([key, this.expression()]);
+        if (this.isOperator(',')) {
+          this.next();
+          continue;
+        }
+        this.expect('}');
+        return { type: 'object', entries, pos };
+      }
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Value helpers
+// ---------------------------------------------------------------------------
+
+type Scope = Map<string, unknown>;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function ownProperty(value: Record<string, unknown>, key: string): unknown {
+  return Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined;
+}
+
+function setOwnProperty(target: Record<string, unknown>, key: string, value: unknown): void {
+  // defineProperty so a "__proto__" key stays an ordinary field
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+/** JSONata truthiness: empty strings, arrays and objects are false. */
+function toBoolean(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(toBoolean);
+  if (isObject(value)) return Object.keys(value).length > 0;
+  return !!value;
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  return `a ${typeof value}`;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  const aKeys = Object.keys(a as object);
+  const bKeys = Object.keys(b as object);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) => deepEqual((a as Record<string, unknown>)[key], ownProperty(b as Record<string, unknown>, key)))
+  );
+}
+
+/** Collapse a sequence the way paths do: nothing, one value, or an array. */
+function collapse(items: unknown[], keepArray: boolean): unknown {
+  if (keepArray) return items;
+  if (items.length === 0) return undefined;
+  return items.length === 1 ? items[0] : items;
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// ---------------------------------------------------------------------------
+// Dates
+// ---------------------------------------------------------------------------
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DATE_TOKENS = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|mm|ss|SSS|Z/g;
+
+function toDate(value: unknown, pos: number): Date {
+  const date = typeof value === 'number' || typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new TransformError(`Expected a date string or milliseconds but got ${describe(value)}`, pos);
+  }
+  return date;
+}
+
+/** Calendar fields of `date` in `timeZone`, plus its UTC offset in minutes. */
+function dateParts(date: Date, timeZone: string, pos: number) {
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+  } catch {
+    throw new TransformError(`Unknown time zone "${timeZone}"`, pos);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const offset = Math.round((local - (date.getTime() - date.getUTCMilliseconds())) / 60_000);
+  const weekday = new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay();
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: date.getUTCMilliseconds(),
+    weekday,
+    offset,
+  };
+}
+
+function formatDate(date: Date, picture: string, timeZone: string, pos: number): string {
+  const p = dateParts(date, timeZone, pos);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const offset = `${p.offset < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(p.offset) / 60))}:${pad(Math.abs(p.offset) % 60)}`;
+
+  return picture.replace(DATE_TOKENS, (token, literal: string | undefined) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'YYYY': return pad(p.year, 4);
+      case 'YY': return pad(p.year % 100);
+      case 'MMMM': return MONTHS[p.month - 1];
+      case 'MMM': return MONTHS[p.month - 1].slice(0, 3);
+      case 'MM': return pad(p.month);
+      case 'M': return String(p.month);
+      case 'DD': return pad(p.day);
+      case 'D': return String(p.day);
+      case 'dddd': return WEEKDAYS[p.weekday];
+      case 'ddd': return WEEKDAYS[p.weekday].slice(0, 3);
+      case 'HH': return pad(p.hour);
+      case 'H': return String(p.hour);
+      case 'mm': return pad(p.minute);
+      case 'ss': return pad(p.second);
+      case 'SSS': return pad(p.millisecond, 3);
+      default: return timeZone === 'UTC' ? 'Z' : offset;
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Built-in functions
+// ---------------------------------------------------------------------------
+
+interface CallContext {
+  pos: number;
+  now: Date;
+  checkString: (value: string) => string;
+  checkArray: <T>(value: T[]) => T[];
+}
+
+type BuiltIn = (args: unknown[], ctx: CallContext) => unknown;
+
+function argString(args: unknown[], index: number, fn: string, pos: number): string {
+  const value = args[index];
+  if (typeof value !== 'string') {
+    throw new TransformError(`Argument ${index + 1} of $${fn} must be a string, got ${describe(value)}`, pos);
+  }
+  return value;
+}
+
+function argNumber(args: unknown[], index: number, fn: string, pos: number): number {
+  const value = args[index];
+  if (typeof value !== 'number') {
+    throw new TransformError(`Argument ${index + 1} of $${fn} must be a number, got ${describe(value)}`, pos);
+  }
+  return value;
+}
+
+function numbers(value: unknown, fn: string, pos: number): number[] {
+  const items = toArray(value);
+  if (!items.every((n) => typeof n === 'number')) {
+    throw new TransformError(`$${fn} expects an array of numbers`, pos);
+  }
+  return items as number[];
+}
+
+/** Built-ins that return undefined when their first argument is undefined. */
+function unary(fn: BuiltIn): BuiltIn {
+  return (args, ctx) => (args[0] === undefined ? undefined : fn(args, ctx));
+}
+
+const FUNCTIONS: Record<string, BuiltIn> = {
+  // Strings
+  string: unary(([value], { checkString }) => checkString(stringify(value))),
+  length: unary((args, { pos }) => argString(args, 0, 'length', pos).length),
+  uppercase: unary((args, { pos }) => argString(args, 0, 'uppercase', pos).toUpperCase()),
+  lowercase: unary((args, { pos }) => argString(args, 0, 'lowercase', pos).toLowerCase()),
+  trim: unary((args, { pos }) => argString(args, 0, 'trim', pos).trim().replace(/\s+/g, ' ')),
+  substring: unary((args, { pos }) => {
+    const chars = Array.from(argString(args, 0, 'substring', pos));
+    const start = argNumber(args, 1, 'substring', pos);
+    const from = start < 0 ? Math.max(chars.length + start, 0) : start;
+    const length = args[2] === undefined ? undefined : argNumber(args, 2, 'substring', pos);
+    return chars.slice(from, length === undefined ? undefined : from + Math.max(length, 0)).join('');
+  }),
+  contains: unary((args, { pos }) => argString(args, 0, 'contains', pos).includes(argString(args, 1, 'contains', pos))),
+  split: unary((args, { pos, checkArray }) => {
+    const parts = argString(args, 0, 'split', pos).split(argString(args, 1, 'split', pos));
+    return checkArray(args[2] === undefined ? parts : parts.slice(0, argNumber(args, 2, 'split', pos)));
+  }),
+  join: unary((args, { pos, checkString }) => {
+    const items = toArray(args[0]);
+    if (!items.every((s) => typeof s === 'string')) {
+      throw new TransformError('$join expects an array of strings', pos);
+    }
+    const separator = args[1] === undefined ? '' : argString(args, 1, 'join', pos);
+    return checkString(items.join(separator));
+  }),
+  replace: unary((args, { pos, checkString }) => {
+    const value = argString(args, 0, 'replace', pos);
+    const pattern = argString(args, 1, 'replace', pos);
+    if (!pattern) throw new TransformError('The pattern of $replace cannot be empty', pos);
+    const replacement = argString(args, 2, 'replace', pos);
+    const limit = args[3] === undefined ? Infinity : argNumber(args, 3, 'replace', pos);
+    let count = 0;
+    return checkString(value.split(pattern).reduce((out, part, i) => {
+      if (i === 0) return part;
+      return out + (count++ < limit ? replacement : pattern) + part;
+    }, ''));
+  }),
+  pad: unary((args, { pos, checkString }) => {
+    const value = stringify(args[0]);
+    const width = argNumber(args, 1, 'pad', pos);
+    const fill = args[2] === undefined ? ' ' : argString(args, 2, 'pad', pos) || ' ';
+    if (Math.abs(width) > MAX_STRING_LENGTH) throw new TransformError('$pad width is too large', pos);
+    return checkString(width < 0 ? value.padStart(-width, fill) : value.padEnd(width, fill));
+  }),
+
+  // Numbers
+  number: unary(([value], { pos }) => {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+    if (!Number.isFinite(n)) throw new TransformError(`Cannot convert ${JSON.stringify(value)} to a number`, pos);
+    return n;
+  }),
+  abs: unary((args, { pos }) => Math.abs(argNumber(args, 0, 'abs', pos))),
+  floor: unary((args, { pos }) => Math.floor(argNumber(args, 0, 'floor', pos))),
+  ceil: unary((args, { pos }) => Math.ceil(argNumber(args, 0, 'ceil', pos))),
+  round: unary((args, { pos }) => {
+    const factor = 10 ** (args[1] === undefined ? 0 : argNumber(args, 1, 'round', pos));
+    return Math.round(argNumber(args, 0, 'round', pos) * factor) / factor;
+  }),
+  sum: ([value], { pos }) => numbers(value, 'sum', pos).reduce((a, b) => a + b, 0),
+  max: ([value], { pos }) => {
+    const items = numbers(value, 'max', pos);
+    return items.length ? Math.max(...items) : undefined;
+  },
+  min: ([value], { pos }) => {
+    const items = numbers(value, 'min', pos);
+    return items.length ? Math.min(...items) : undefined;
+  },
+  average: ([value], { pos }) => {
+    const items = numbers(value, 'average', pos);
+    return items.length ? items.reduce((a, b) => a + b, 0) / items.length : undefined;
+  },
+  count: ([value]) => toArray(value).length,
+
+  // Booleans
+  boolean: unary(([value]) => toBoolean(value)),
+  not: unary(([value]) => !toBoolean(value)),
+  exists: ([value]) => value !== undefined,
+
+  // Arrays and objects
+  append: (args, { checkArray }) => {
+    if (args[0] === undefined) return args[1];
+    if (args[1] === undefined) return args[0];
+    return checkArray([...toArray(args[0]), ...toArray(args[1])]);
+  },
+  distinct: unary(([value]) => {
+    const out: unknown[] = [];
+    for (const item of toArray(value)) {
+      if (!out.some((seen) => deepEqual(seen, item))) out.push(item);
+    }
+    return out;
+  }),
+  reverse: unary(([value]) => [...toArray(value)].reverse()),
+  sort: unary(([value], { pos }) => {
+    const items = toArray(value);
+    if (items.every((n) => typeof n === 'number')) return [...(items as number[])].sort((a, b) => a - b);
+    if (items.every((s) => typeof s === 'string')) return [...(items as string[])].sort();
+    throw new TransformError('$sort expects an array of numbers or an array of strings', pos);
+  }),
+  keys: unary(([value]) => {
+    const keys = new Set<string>();
+    for (const item of toArray(value)) {
+      if (isObject(item)) Object.keys(item).forEach((key) => keys.add(key));
+    }
+    return collapse([...keys], false);
+  }),
+  lookup: unary((args, { pos }) => {
+    const key = argString(args, 1, 'lookup', pos);
+    return collapse(toArray(args[0]).filter(isObject).map((item) => ownProperty(item, key)).filter((v) => v !== undefined), false);
+  }),
+  merge: unary(([value], { pos }) => {
+    const out: Record<string, unknown> = {};
+    for (const item of toArray(value)) {
+      if (!isObject(item)) throw new TransformError('$merge expects an array of objects', pos);
+      for (const [key, v] of Object.entries(item)) setOwnProperty(out, key, v);
+    }
+    return out;
+  }),
+
+  // Dates (UTC unless a time zone is given)
+  now: (_args, { now }) => now.toISOString(),
+  millis: (_args, { now }) => now.getTime(),
+  toMillis: unary(([value], { pos }) => toDate(value, pos).getTime()),
+  fromMillis: unary((args, { pos }) => {
+    const date = toDate(argNumber(args, 0, 'fromMillis', pos), pos);
+    if (args[1] === undefined) return date.toISOString();
+    const timeZone = args[2] === undefined ? 'UTC' : argString(args, 2, 'fromMillis', pos);
+    return formatDate(date, argString(args, 1, 'fromMillis', pos), timeZone, pos);
+  }),
+  formatDate: unary((args, { pos }) => {
+    const date = toDate(args[0], pos);
+    if (args[1] === undefined) return date.toISOString();
+    const timeZone = args[2] === undefined ? 'UTC' : argString(args, 2, 'formatDate', pos);
+    return formatDate(date, argString(args, 1, 'formatDate', pos), timeZone, pos);
+  }),
+};
+
+export const TRANSFORM_FUNCTIONS = Object.keys(FUNCTIONS).sort();
+
+// ---------------------------------------------------------------------------
+// Interpreter
+// ---------------------------------------------------------------------------
+
+class Evaluator {
+  private steps = 0;
+  private readonly deadline: number;
+  private readonly now = new Date();
+
+  constructor(private readonly root: unknown, timeLimitMs: number) {
+    this.deadline = Date.now() + timeLimitMs;
+  }
+
+  private tick(pos: number): void {
+    if (++this.steps > MAX_STEPS) {
+      throw new TransformError(`Transform exceeded ${MAX_STEPS} evaluation steps`, pos);
+    }
+    if ((this.steps & 0xff) === 0 && Date.now() > this.deadline) {
+      throw new TransformError('Transform timed out', pos);
+    }
+  }
+
+  private checkString = (value: string): string => {
+    if (value.length > MAX_STRING_LENGTH) {
+      throw new TransformError(`Strings are limited to ${MAX_STRING_LENGTH} characters`);
+    }
+    return value;
+  };
+
+  private checkArray = <T>(value: T[]): T[] => {
+    if (value.length > MAX_ARRAY_LENGTH) {
+      throw new TransformError(`Arrays are limited to ${MAX_ARRAY_LENGTH} items`);
+    }
+    return value;
+  };
+
+  evaluate(node: Node, input: unknown, scope: Scope): unknown {
+    this.tick(node.pos);
+
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+      case 'name':
+        return this.lookup(input, node.name, node.pos);
+      case 'variable':
+        if (node.name === '') return input;
+        if (node.name === '$') return this.root;
+        return scope.get(node.name);
+      case 'path':
+        return this.path(node.steps, input, scope);
+      case 'unary': {
+        const value = this.evaluate(node.operand, input, scope);
+        if (value === undefined) return undefined;
+        if (typeof value !== 'number') throw new TransformError(`Cannot negate ${describe(value)}`, node.pos);
+        return -value;
+      }
+      case 'binary':
+        return this.binary(node.op, node.left, node.right, node.pos, input, scope);
+      case 'condition':
+        if (toBoolean(this.evaluate(node.test, input, scope))) return this.evaluate(node.then, input, scope);
+        return node.otherwise ? this.evaluate(node.otherwise, input, scope) : undefined;
+      case 'object': {
+        const out: Record<string, unknown> = {};
+        for (const [keyNode, valueNode] of node.entries) {
+          const key = this.evaluate(keyNode, input, scope);
+          if (typeof key !== 'string') {
+            throw new TransformError(`Object keys must be strings, got ${describe(key)}`, keyNode.pos);
+          }
+          const value = this.evaluate(valueNode, input, scope);
+          if (value !== undefined) setOwnProperty(out, key, value);
+        }
+        return out;
+      }
+      case 'array': {
+        const out: unknown[] = [];
+        for (const item of node.items) {
+          const value = this.evaluate(item, input, scope);
+          if (value === undefined) continue;
+          // Nested sequences flatten, literal arrays stay nested
+          if (Array.isArray(value) && item.type !== 'array') out.push(...value);
+          else out.push(value);
+        }
+        return this.checkArray(out);
+      }
+      case 'call': {
+        const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+        if (!fn) throw new TransformError(`Unknown function $${node.name}`, node.pos);
+        const args = node.args.map((arg) => this.evaluate(arg, input, scope));
+        return fn(args, { pos: node.pos, now: this.now, checkString: this.checkString, checkArray: this.checkArray });
+      }
+      case 'block': {
+        const blockScope = new Map(scope);
+        let result: unknown;
+        for (const expr of node.body) result = this.evaluate(expr, input, blockScope);
+        return result;
+      }
+      case 'bind': {
+        const value = this.evaluate(node.value, input, scope);
+        scope.set(node.name, value);
+        return value;
+      }
+    }
+  }
+
+  /** Field lookup; arrays map the lookup over their items and flatten. */
+  private lookup(input: unknown, name: string, pos: number): unknown {
+    if (Array.isArray(input)) {
+      const out: unknown[] = [];
+      for (const item of input) {
+        this.tick(pos);
+        const value = this.lookup(item, name, pos);
+        if (Array.isArray(value)) out.push(...value);
+        else if (value !== undefined) out.push(value);
+      }
+      return collapse(this.checkArray(out), false);
+    }
+    return isObject(input) ? ownProperty(input, name) : undefined;
+  }
+
+  private path(steps: PathStep[], input: unknown, scope: Scope): unknown {
+    let current = this.step(steps[0], input, scope);
+
+    for (const step of steps.slice(1)) {
+      if (current === undefined) return undefined;
+      if (!Array.isArray(current)) {
+        current = this.step(step, current, scope);
+        continue;
+      }
+
+      const out: unknown[] = [];
+      for (const item of current) {
+        const value = this.step(step, item, scope);
+        if (value === undefined) continue;
+        if (Array.isArray(value) && step.node.type !== 'array') out.push(...value);
+        else out.push(value);
+      }
+      current = collapse(this.checkArray(out), false);
+    }
+
+    // `[]` on any step keeps the result an array even with a single match
+    return steps.some((s) => s.keepArray) && current !== undefined ? toArray(current) : current;
+  }
+
+  private step(step: PathStep, input: unknown, scope: Scope): unknown {
+    let value = this.evaluate(step.node, input, scope);
+
+    for (const predicate of step.predicates) {
+      if (value === undefined) return undefined;
+      const items = toArray(value);
+      const kept: unknown[] = [];
+      items.forEach((item, i) => {
+        const test = this.evaluate(predicate, item, scope);
+        if (typeof test === 'number') {
+          const index = Math.floor(test) < 0 ? items.length + Math.floor(test) : Math.floor(test);
+          if (index === i) kept.push(item);
+        } else if (toBoolean(test)) {
+          kept.push(item);
+        }
+      });
+      value = collapse(kept, false);
+    }
+
+    return value;
+  }
+
+  private binary(op: string, leftNode: Node, rightNode: Node, pos: number, input: unknown, scope: Scope): unknown {
+    if (op === 'and') {
+      return toBoolean(this.evaluate(leftNode, input, scope)) && toBoolean(this.evaluate(rightNode, input, scope));
+    }
+    if (op === 'or') {
+      return toBoolean(this.evaluate(leftNode, input, scope)) || toBoolean(this.evaluate(rightNode, input, scope));
+    }
+
+    const left = this.evaluate(leftNode, input, scope);
+    const right = this.evaluate(rightNode, input, scope);
+
+    switch (op) {
+      case '&':
+        return this.checkString(stringify(left) + stringify(right));
+      case '=':
+        return left !== undefined && right !== undefined && deepEqual(left, right);
+      case '!=':
+        return left !== undefined && right !== undefined && !deepEqual(left, right);
+      case '<':
+      case '<=':
+      case '>':
+      case '>=': {
+        if (left === undefined || right === undefined) return false;
+        const comparable =
+          (typeof left === 'number' && typeof right === 'number') ||
+          (typeof left === 'string' && typeof right === 'string');
+        if (!comparable) {
+          throw new TransformError(`Cannot compare ${describe(left)} with ${describe(right)}`, pos);
+        }
+        const l = left as number | string;
+        const r = right as number | string;
+        return op === '<' ? l < r : op === '<=' ? l <= r : op === '>' ? l > r : l >= r;
+      }
+      default: {
+        if (left === undefined || right === undefined) return undefined;
+        if (typeof left !== 'number' || typeof right !== 'number') {
+          throw new TransformError(`The ${op} operator expects numbers, got ${describe(left)} and ${describe(right)}`, pos);
+        }
+        const result =
+          op === '+' ? left + right : op === '-' ? left - right : op === '*' ? left * right : op === '/' ? left / right : left % right;
+        if (!Number.isFinite(result)) throw new TransformError('Arithmetic result is not a finite number', pos);
+        return result;
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+const compiled = new Map<string, Node>();
+
+/** Parse an expression, caching the result by source. */
+function compile(source: string): Node {
+  const cached = compiled.get(source);
+  if (cached) return cached;
+
+  if (source.length > MAX_TRANSFORM_LENGTH) {
+    throw new TransformError(`Transforms are limited to ${MAX_TRANSFORM_LENGTH} characters`);
+  }
+  if (!source.trim()) {
+    throw new TransformError('Transform is empty');
+  }
+
+  const ast = new Parser(tokenize(source)).parse();
+  if (compiled.size >= CACHE_SIZE) {
+    compiled.delete(compiled.keys().next().value as string);
+  }
+  compiled.set(source, ast);
+  return ast;
+}
+
+/**
+ * Check that a transform parses, throwing a TransformError (400) describing
+ * the first syntax error.
+ */
+export function validateTransform(source: string): void {
+  compile(source);
+}
+
+/**
+ * Run a transform against a webhook envelope and return the payload to send.
+ * The result must be a JSON object within the output size limit.
+ */
+export function applyTransform(
+  source: string,
+  input: Record<string, unknown>,
+  options: { timeLimitMs?: number } = {},
+): Record<string, unknown> {
+  const ast = compile(source);
+  const result = new Evaluator(input, options.timeLimitMs ?? TRANSFORM_TIME_LIMIT_MS).evaluate(ast, input, new Map());
+
+  if (!isObject(result)) {
+    throw new TransformError(
+      result === undefined ? 'Transform produced no output' : `Transform must produce an object, got ${describe(result)}`,
+    );
+  }
+  if (Buffer.byteLength(JSON.stringify(result)) > MAX_OUTPUT_BYTES) {
+    throw new TransformError(`Transform output is larger than ${MAX_OUTPUT_BYTES / 1024} KB`);
+  }
+  return result;
+}
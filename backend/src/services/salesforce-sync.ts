@@ -1,8 +1,37 @@
-import { Prisma, DealStage } from '@prisma/client';
+import { Deal, DealStage, Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { logger } from '../utils/logger';
 import { AppError } from '../utils/errors';
-import { logAudit } from './audit';
+import { parseCSV } from './csv-import';
+import {
+  type CrmAdapter,
+  type CrmCompanyRecord,
+  type CrmConflictPolicy,
+  type CrmContactRecord,
+  type CrmPullBatch,
+  type CrmPullContext,
+  type CrmPushCounts,
+  type CrmRowError,
+  type CrmSettings,
+  type CrmSyncContext,
+  type CrmSyncStatus,
+  chunk,
+  connectCrm,
+  disconnectCrm,
+  domainFromWebsite,
+  fetchAllPages,
+  getCrmConflictPolicy,
+  getCrmConflicts,
+  getCrmConnectedOrganizations,
+  getCrmSyncHistory,
+  getCrmSyncRun,
+  getCrmSyncStatus,
+  loadCrmSettings,
+  runCrmSync,
+  saveCrmSettings,
+  toCrmDate,
+  updateCrmConflictPolicy,
+} from './crm-sync';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -13,30 +42,32 @@ export interface SalesforceSyncResult {
   accounts: { created: number; updated: number; failed: number };
   opportunities: { created: number; updated: number; failed: number };
   tasks: { synced: number; failed: number };
+  /** Records pulled from Salesforce and applied locally; the counts above are pushes. */
+  pulled: {
+    contacts: { created: number; updated: number; failed: number };
+    accounts: { created: number; updated: number; failed: number };
+    opportunities: { created: number; updated: number; failed: number };
+  };
+  /** Fields edited on both sides since the last sync. */
+  conflicts: number;
   errors: string[];
 }
 
-export interface SalesforceSyncStatus {
-  connected: boolean;
-  lastSyncAt: string | null;
+export interface SalesforceSyncStatus extends CrmSyncStatus {
   lastSyncResult: SalesforceSyncResult | null;
-  syncInProgress: boolean;
   instanceUrl: string | null;
   totalContactsSynced: number;
   totalAccountsSynced: number;
   totalOpportunitiesSynced: number;
 }
 
-interface SalesforceSettings {
-  salesforceAccessToken?: string;
-  salesforceRefreshToken?: string;
-  salesforceInstanceUrl?: string;
-  salesforceLastSyncAt?: string;
-  salesforceLastSyncResult?: SalesforceSyncResult;
-  salesforceSyncInProgress?: boolean;
-  salesforceTotalContactsSynced?: number;
-  salesforceTotalAccountsSynced?: number;
-  salesforceTotalOpportunitiesSynced?: number;
+/** An open Salesforce connection; the token is replaced in place on refresh. */
+interface SalesforceConnection {
+  organizationId: string;
+  instanceUrl: string;
+  accessToken: string;
+  /** Set once the Sigscore ID (external ID) fields have been checked this run. */
+  idFieldsReady?: boolean;
 }
 
 interface SalesforceTokenResponse {
@@ -59,6 +90,16 @@ interface SalesforceCompositeResponse {
   errors: Array<{ statusCode: string; message: string; fields: string[] }>;
 }
 
+type BulkJobState = 'Open' | 'UploadComplete' | 'InProgress' | 'JobComplete' | 'Failed' | 'Aborted';
+
+interface SalesforceBulkJob {
+  id: string;
+  state: BulkJobState;
+  numberRecordsProcessed?: number;
+  numberRecordsFailed?: number;
+  errorMessage?: string;
+}
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
@@ -66,6 +107,12 @@ interface SalesforceCompositeResponse {
 const SF_API_VERSION = 'v59.0';
 const BATCH_SIZE = 200; // Salesforce Composite API max per call
 
+// Objects with at least this many changed records are pushed with Bulk API 2.0
+const BULK_THRESHOLD = 2000;
+const BULK_JOB_MAX_ROWS = 100_000; // Keeps each upload well under the 100 MB limit
+const BULK_POLL_INTERVAL_MS = 5000;
+const BULK_POLL_TIMEOUT_MS = 30 * 60 * 1000;
+
 // Sigscore -> Salesforce Opportunity stage mapping
 const DEAL_STAGE_TO_SF: Record<string, string> = {
   [DealStage.ANONYMOUS_USAGE]: 'Prospecting',
@@ -87,6 +134,8 @@ interface CustomFieldDef {
   length?: number;
   scale?: number;
   precision?: number;
+  /** Unique external ID, used as the Bulk API upsert key. */
+  externalId?: boolean;
 }
 
 const CUSTOM_FIELDS: Record<string, CustomFieldDef[]> = {
@@ -95,70 +144,22 @@ const CUSTOM_FIELDS: Record<string, CustomFieldDef[]> = {
     { fullName: 'Contact.Signal_Count__c', label: 'Sigscore Signal Count', type: 'Number', length: 18, scale: 0, precision: 8 },
     { fullName: 'Contact.Last_Signal_Date__c', label: 'Sigscore Last Signal Date', type: 'Date' },
     { fullName: 'Contact.Sigscore_Source__c', label: 'Sigscore Source', type: 'Text', length: 255 },
+    { fullName: 'Contact.Sigscore_Id__c', label: 'Sigscore ID', type: 'Text', length: 255, externalId: true },
   ],
   Account: [
     { fullName: 'Account.PQA_Score__c', label: 'Sigscore PQA Score', type: 'Number', length: 18, scale: 0, precision: 3 },
     { fullName: 'Account.Signal_Count__c', label: 'Sigscore Signal Count', type: 'Number', length: 18, scale: 0, precision: 8 },
     { fullName: 'Account.Last_Signal_Date__c', label: 'Sigscore Last Signal Date', type: 'Date' },
     { fullName: 'Account.Sigscore_Source__c', label: 'Sigscore Source', type: 'Text', length: 255 },
+    { fullName: 'Account.Sigscore_Id__c', label: 'Sigscore ID', type: 'Text', length: 255, externalId: true },
   ],
   Opportunity: [
-    { fullName: 'Opportunity.Sigscore_Deal_Id__c', label: 'Sigscore Deal ID', type: 'Text', length: 255 },
+    { fullName: 'Opportunity.Sigscore_Deal_Id__c', label: 'Sigscore Deal ID', type: 'Text', length: 255, externalId: true },
     { fullName: 'Opportunity.Sigscore_Source__c', label: 'Sigscore Source', type: 'Text', length: 255 },
   ],
 };
 
-// ---------------------------------------------------------------------------
-// Settings helpers
-// ---------------------------------------------------------------------------
-
-async function getOrgSettings(organizationId: string): Promise<{
-  salesforce: SalesforceSettings;
-  rawSettings: Record<string, unknown>;
-}> {
-  const org = await prisma.organization.findUnique({
-    where: { id: organizationId },
-    select: { settings: true },
-  });
-
-  if (!org) {
-    throw new AppError('Organization not found', 404);
-  }
-
-  const rawSettings = (org.settings as Record<string, unknown>) ?? {};
-  const salesforce: SalesforceSettings = {
-    salesforceAccessToken: rawSettings.salesforceAccessToken as string | undefined,
-    salesforceRefreshToken: rawSettings.salesforceRefreshToken as string | undefined,
-    salesforceInstanceUrl: rawSettings.salesforceInstanceUrl as string | undefined,
-    salesforceLastSyncAt: rawSettings.salesforceLastSyncAt as string | undefined,
-    salesforceLastSyncResult: rawSettings.salesforceLastSyncResult as SalesforceSyncResult | undefined,
-    salesforceSyncInProgress: rawSettings.salesforceSyncInProgress as boolean | undefined,
-    salesforceTotalContactsSynced: rawSettings.salesforceTotalContactsSynced as number | undefined,
-    salesforceTotalAccountsSynced: rawSettings.salesforceTotalAccountsSynced as number | undefined,
-    salesforceTotalOpportunitiesSynced: rawSettings.salesforceTotalOpportunitiesSynced as number | undefined,
-  };
-
-  return { salesforce, rawSettings };
-}
-
-async function updateOrgSettings(
-  organizationId: string,
-  patch: Record<string, unknown>,
-): Promise<void> {
-  const org = await prisma.organization.findUnique({
-    where: { id: organizationId },
-    select: { settings: true },
-  });
-  if (!org) return;
-
-  const current = (org.settings as Record<string, unknown>) ?? {};
-  const merged = { ...current, ...patch };
-
-  await prisma.organization.update({
-    where: { id: organizationId },
-    data: { settings: merged as Prisma.InputJsonValue },
-  });
-}
+const SETTINGS_PREFIX = 'salesforce';
 
 // ---------------------------------------------------------------------------
 // Salesforce API helper
@@ -166,30 +167,40 @@ async function updateOrgSettings(
 
 /**
  * Make an authenticated Salesforce REST API call with automatic token refresh on 401.
+ * Bodies are JSON unless a content type is given (Bulk API uploads send CSV);
+ * `responseType: 'text'` returns the raw body (Bulk API result downloads).
  */
 async function salesforceApi(
-  organizationId: string,
-  instanceUrl: string,
-  accessToken: string,
+  conn: SalesforceConnection,
   path: string,
   options: {
     method?: string;
     body?: unknown;
+    contentType?: string;
+    responseType?: 'json' | 'text';
   } = {},
 ): Promise<unknown> {
-  const { method = 'GET', body } = options;
+  const { method = 'GET', body, contentType = 'application/json', responseType = 'json' } = options;
+  const { organizationId, instanceUrl, accessToken } = conn;
 
   const headers: Record<string, string> = {
     Authorization: `Bearer ${accessToken}`,
-    'Content-Type': 'application/json',
+    'Content-Type': contentType,
   };
 
   const fetchOptions: RequestInit = { method, headers };
 
   if (body) {
-    fetchOptions.body = JSON.stringify(body);
+    fetchOptions.body = contentType === 'application/json' ? JSON.stringify(body) : (body as string);
   }
 
+  const readBody = async (res: Response): Promise<unknown> => {
+    // 201 may have a body, 204 does not
+    const text = await res.text();
+    if (responseType === 'text') return text;
+    return text ? JSON.parse(text) : null;
+  };
+
   const response = await fetch(`${instanceUrl}/services/data/${SF_API_VERSION}${path}`, fetchOptions);
 
   // Rate limit handling
@@ -207,19 +218,18 @@ async function salesforceApi(
       const errorBody = await retryResponse.text();
       throw new AppError(`Salesforce API error after retry: ${retryResponse.status} - ${errorBody}`, retryResponse.status);
     }
-    if (retryResponse.status === 204) return null;
-    return retryResponse.json();
+    return readBody(retryResponse);
   }
 
   // Token expired -- attempt refresh
   if (response.status === 401) {
     logger.info('Salesforce token expired, attempting refresh', { organizationId });
     const newToken = await refreshAccessToken(organizationId);
+    conn.accessToken = newToken;
 
     // Retry with new token
     const retryHeaders = { ...headers, Authorization: `Bearer ${newToken}` };
-    const retryOptions: RequestInit = { method, headers: retryHeaders };
-    if (body) retryOptions.body = JSON.stringify(body);
+    const retryOptions: RequestInit = { ...fetchOptions, headers: retryHeaders };
 
     const retryResponse = await fetch(
       `${instanceUrl}/services/data/${SF_API_VERSION}${path}`,
@@ -239,8 +249,7 @@ async function salesforceApi(
       );
     }
 
-    if (retryResponse.status === 204) return null;
-    return retryResponse.json();
+    return readBody(retryResponse);
   }
 
   if (!response.ok) {
@@ -256,22 +265,17 @@ async function salesforceApi(
     );
   }
 
-  if (response.status === 204 || response.status === 201) {
-    // 201 may have a body, 204 does not
-    const text = await response.text();
-    return text ? JSON.parse(text) : null;
-  }
-
-  return response.json();
+  return readBody(response);
 }
 
 /**
  * Refresh the Salesforce OAuth2 access token using the refresh token.
  */
 async function refreshAccessToken(organizationId: string): Promise<string> {
-  const { salesforce } = await getOrgSettings(organizationId);
+  const settings = await loadCrmSettings(organizationId, SETTINGS_PREFIX);
+  const refreshToken = settings.get<string>('RefreshToken');
 
-  if (!salesforce.salesforceRefreshToken) {
+  if (!refreshToken) {
     throw new AppError('Salesforce refresh token not available', 401);
   }
 
@@ -292,7 +296,7 @@ async function refreshAccessToken(organizationId: string): Promise<string> {
       grant_type: 'refresh_token',
       client_id: clientId,
       client_secret: clientSecret,
-      refresh_token: salesforce.salesforceRefreshToken,
+      refresh_token: refreshToken,
     }),
   });
 
@@ -309,16 +313,16 @@ async function refreshAccessToken(organizationId: string): Promise<string> {
 
   // Store new tokens (Salesforce may or may not return a new refresh_token)
   const patch: Record<string, unknown> = {
-    salesforceAccessToken: data.access_token,
+    AccessToken: data.access_token,
   };
   if (data.refresh_token) {
-    patch.salesforceRefreshToken = data.refresh_token;
+    patch.RefreshToken = data.refresh_token;
   }
   if (data.instance_url) {
-    patch.salesforceInstanceUrl = data.instance_url;
+    patch.InstanceUrl = data.instance_url;
   }
 
-  await updateOrgSettings(organizationId, patch);
+  await saveCrmSettings(organizationId, SETTINGS_PREFIX, patch);
 
   return data.access_token;
 }
@@ -326,40 +330,28 @@ async function refreshAccessToken(organizationId: string): Promise<string> {
 /**
  * Get valid access token and instance URL, refreshing if needed.
  */
-async function getValidCredentials(organizationId: string): Promise<{
-  accessToken: string;
-  instanceUrl: string;
-}> {
-  const { salesforce } = await getOrgSettings(organizationId);
+async function getValidCredentials(
+  organizationId: string,
+  settings: CrmSettings,
+): Promise<SalesforceConnection> {
+  const accessToken = settings.get<string>('AccessToken');
+  const instanceUrl = settings.get<string>('InstanceUrl');
 
-  if (!salesforce.salesforceAccessToken || !salesforce.salesforceInstanceUrl) {
+  if (!accessToken || !instanceUrl) {
     throw new AppError('Salesforce is not connected', 400);
   }
 
-  // Quick validation call
-  try {
-    await salesforceApi(
-      organizationId,
-      salesforce.salesforceInstanceUrl,
-      salesforce.salesforceAccessToken,
-      '/query?q=' + encodeURIComponent('SELECT Id FROM Contact LIMIT 1'),
-    );
-    return {
-      accessToken: salesforce.salesforceAccessToken,
-      instanceUrl: salesforce.salesforceInstanceUrl,
-    };
-  } catch (error) {
-    if (error instanceof AppError && error.statusCode === 401 && salesforce.salesforceRefreshToken) {
-      const newToken = await refreshAccessToken(organizationId);
-      // Re-read instance URL in case it changed
-      const { salesforce: updated } = await getOrgSettings(organizationId);
-      return {
-        accessToken: newToken,
-        instanceUrl: updated.salesforceInstanceUrl || salesforce.salesforceInstanceUrl,
-      };
-    }
-    throw error;
+  // Quick validation call -- salesforceApi refreshes the token on 401
+  const conn: SalesforceConnection = { organizationId, instanceUrl, accessToken };
+  await salesforceApi(conn, '/query?q=' + encodeURIComponent('SELECT Id FROM Contact LIMIT 1'));
+
+  if (conn.accessToken !== accessToken) {
+    // Re-read instance URL in case the refresh changed it
+    const updated = await loadCrmSettings(organizationId, SETTINGS_PREFIX);
+    conn.instanceUrl = updated.get<string>('InstanceUrl') || instanceUrl;
   }
+
+  return conn;
 }
 
 // ---------------------------------------------------------------------------
@@ -367,142 +359,396 @@ async function getValidCredentials(organizationId: string): Promise<{
 // ---------------------------------------------------------------------------
 
 /**
- * Register Sigscore custom fields on Salesforce objects using the Tooling API.
- * Fields that already exist are silently skipped.
+ * Create Sigscore custom fields on Salesforce objects using the Tooling API.
+ * Fields that already exist are skipped, except that ID fields created before
+ * bulk mode are promoted to external IDs.
+ */
+async function ensureCustomFields(
+  conn: SalesforceConnection,
+  fields: CustomFieldDef[] = Object.values(CUSTOM_FIELDS).flat(),
+): Promise<void> {
+  for (const field of fields) {
+    const metadata: Record<string, unknown> = {
+      label: field.label,
+      type: field.type,
+      ...(field.type === 'Text' && { length: field.length }),
+      ...(field.type === 'Number' && {
+        precision: field.precision,
+        scale: field.scale,
+      }),
+      ...(field.externalId && { externalId: true, unique: true }),
+    };
+
+    try {
+      await salesforceApi(
+        conn,
+        '/tooling/sobjects/CustomField',
+        { method: 'POST', body: { FullName: field.fullName, Metadata: metadata } },
+      );
+      logger.info(`Created Salesforce custom field: ${field.fullName}`);
+    } catch (error) {
+      // Field may already exist (DUPLICATE_VALUE) -- that's fine
+      const msg = error instanceof Error ? error.message : String(error);
+      if (msg.includes('DUPLICATE') || msg.includes('already exists')) {
+        logger.debug(`Salesforce field already exists: ${field.fullName}`);
+        if (field.externalId) {
+          await promoteToExternalId(conn, field, metadata).catch((err) =>
+            logger.warn(`Could not make Salesforce field ${field.fullName} an external ID`, {
+              error: err instanceof Error ? err.message : String(err),
+            }),
+          );
+        }
+      } else {
+        logger.warn(`Could not create Salesforce field ${field.fullName}`, {
+          error: msg,
+        });
+      }
+    }
+  }
+
+  logger.info('Salesforce custom field registration complete', {
+    organizationId: conn.organizationId,
+  });
+}
+
+/**
+ * Set the external ID flag on an existing custom field. Bulk upserts key on
+ * these fields, and the Opportunity one predates bulk mode in older orgs.
+ */
+async function promoteToExternalId(
+  conn: SalesforceConnection,
+  field: CustomFieldDef,
+  metadata: Record<string, unknown>,
+): Promise<void> {
+  const [objectName, fieldName] = field.fullName.split('.');
+  const soql =
+    `SELECT Id, Metadata FROM CustomField WHERE TableEnumOrId = '${objectName}' ` +
+    `AND DeveloperName = '${fieldName.replace(/__c$/, '')}' LIMIT 1`;
+  const existing = (await salesforceApi(
+    conn,
+    `/tooling/query?q=${encodeURIComponent(soql)}`,
+  )) as SalesforceQueryResponse<{ Id: string; Metadata: Record<string, unknown> | null }>;
+
+  const record = existing.records[0];
+  if (!record || record.Metadata?.externalId) return;
+
+  await salesforceApi(conn, `/tooling/sobjects/CustomField/${record.Id}`, {
+    method: 'PATCH',
+    body: { Metadata: { ...record.Metadata, ...metadata } },
+  });
+  logger.info(`Made Salesforce field an external ID: ${field.fullName}`);
+}
+
+/**
+ * Every push sends the Sigscore ID fields, so check once per run that they
+ * exist as external IDs. Orgs connected before they were introduced would
+ * otherwise reject each row with INVALID_FIELD.
+ */
+async function ensureIdFields(conn: SalesforceConnection): Promise<void> {
+  if (conn.idFieldsReady) return;
+  await ensureCustomFields(conn, Object.values(CUSTOM_FIELDS).flat().filter((field) => field.externalId));
+  conn.idFieldsReady = true;
+}
+
+/**
+ * Register Sigscore custom fields on Salesforce objects.
  */
 export async function registerCustomFields(
   organizationId: string,
 ): Promise<void> {
-  const { salesforce } = await getOrgSettings(organizationId);
-  if (!salesforce.salesforceAccessToken || !salesforce.salesforceInstanceUrl) {
+  const settings = await loadCrmSettings(organizationId, SETTINGS_PREFIX);
+  const accessToken = settings.get<string>('AccessToken');
+  const instanceUrl = settings.get<string>('InstanceUrl');
+  if (!accessToken || !instanceUrl) {
     throw new AppError('Salesforce is not connected', 400);
   }
 
-  const instanceUrl = salesforce.salesforceInstanceUrl;
-  const token = salesforce.salesforceAccessToken;
-
-  for (const [_objectName, fields] of Object.entries(CUSTOM_FIELDS)) {
-    for (const field of fields) {
-      try {
-        const metadata: Record<string, unknown> = {
-          FullName: field.fullName,
-          Metadata: {
-            label: field.label,
-            type: field.type,
-            ...(field.type === 'Text' && { length: field.length }),
-            ...(field.type === 'Number' && {
-              precision: field.precision,
-              scale: field.scale,
-            }),
-          },
-        };
+  await ensureCustomFields({ organizationId, instanceUrl, accessToken });
+}
 
-        await salesforceApi(
-          organizationId,
-          instanceUrl,
-          token,
-          '/tooling/sobjects/CustomField',
-          { method: 'POST', body: metadata },
-        );
-        logger.info(`Created Salesforce custom field: ${field.fullName}`);
-      } catch (error) {
-        // Field may already exist (DUPLICATE_VALUE) -- that's fine
-        const msg = error instanceof Error ? error.message : String(error);
-        if (msg.includes('DUPLICATE') || msg.includes('already exists')) {
-          logger.debug(`Salesforce field already exists: ${field.fullName}`);
-        } else {
-          logger.warn(`Could not create Salesforce field ${field.fullName}`, {
-            error: msg,
-          });
-        }
-      }
+// ---------------------------------------------------------------------------
+// Pull Changes
+// ---------------------------------------------------------------------------
+
+/**
+ * Run a SOQL query and follow nextRecordsUrl until every page is read.
+ */
+async function queryAll<T>(conn: SalesforceConnection, soql: string): Promise<T[]> {
+  const apiPrefix = `/services/data/${SF_API_VERSION}`;
+
+  return fetchAllPages<T>(async (nextRecordsUrl) => {
+    const path = nextRecordsUrl
+      ? nextRecordsUrl.replace(apiPrefix, '')
+      : `/query?q=${encodeURIComponent(soql)}`;
+    const page = (await salesforceApi(conn, path)) as SalesforceQueryResponse<T>;
+    return { items: page.records, next: page.done ? null : page.nextRecordsUrl ?? null };
+  });
+}
+
+/**
+ * Fetch Salesforce accounts and contacts modified since the cursor (an ISO
+ * timestamp). The next cursor is the latest LastModifiedDate seen.
+ */
+async function pullChanges(
+  conn: SalesforceConnection,
+  { cursor }: CrmPullContext,
+): Promise<CrmPullBatch> {
+  const sinceStr = cursor ? new Date(cursor).toISOString() : '1970-01-01T00:00:00.000Z';
+
+  const accounts = await queryAll<{
+    Id: string;
+    Name: string;
+    Website: string | null;
+    Industry: string | null;
+    Phone: string | null;
+    LastModifiedDate: string;
+  }>(
+    conn,
+    `SELECT Id,Name,Website,Industry,Phone,LastModifiedDate FROM Account WHERE LastModifiedDate > ${sinceStr}`,
+  );
+
+  const contacts = await queryAll<{
+    Id: string;
+    Email: string;
+    FirstName: string | null;
+    LastName: string | null;
+    Title: string | null;
+    LastModifiedDate: string;
+  }>(
+    conn,
+    `SELECT Id,Email,FirstName,LastName,Title,LastModifiedDate FROM Contact WHERE LastModifiedDate > ${sinceStr} AND Email != null`,
+  );
+
+  const companies: CrmCompanyRecord[] = accounts.map((sfAccount) => ({
+    externalId: sfAccount.Id,
+    name: sfAccount.Name,
+    // Match by domain (extracted from Website)
+    domain: domainFromWebsite(sfAccount.Website),
+    website: sfAccount.Website,
+    industry: sfAccount.Industry,
+    phone: sfAccount.Phone,
+    modifiedAt: new Date(sfAccount.LastModifiedDate),
+  }));
+
+  const pulledContacts: CrmContactRecord[] = contacts
+    .filter((sfContact) => sfContact.Email)
+    .map((sfContact) => ({
+      externalId: sfContact.Id,
+      email: sfContact.Email,
+      firstName: sfContact.FirstName,
+      lastName: sfContact.LastName,
+      title: sfContact.Title,
+      modifiedAt: new Date(sfContact.LastModifiedDate),
+    }));
+
+  const latest = [...accounts, ...contacts].reduce<number>(
+    (max, record) => Math.max(max, new Date(record.LastModifiedDate).getTime() || 0),
+    0,
+  );
+
+  return {
+    companies,
+    contacts: pulledContacts,
+    cursor: latest > 0 ? new Date(latest).toISOString() : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Bulk API 2.0
+// ---------------------------------------------------------------------------
+
+/** Quote a CSV cell when it contains a delimiter, quote or line break. */
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Serialize rows as CSV. Columns are the union of keys with a defined value;
+ * a missing value is an empty cell, which Salesforce leaves unchanged.
+ */
+function toCsv(rows: Record<string, unknown>[]): string {
+  const columns = [
+    ...new Set(rows.flatMap((row) => Object.keys(row).filter((key) => row[key] !== undefined))),
+  ];
+  const lines = rows.map((row) => columns.map((column) => csvCell(row[column])).join(','));
+  return [columns.join(','), ...lines].join('\n') + '\n';
+}
+
+/**
+ * Poll an ingest job until Salesforce finishes processing it.
+ */
+async function waitForBulkJob(conn: SalesforceConnection, jobId: string): Promise<SalesforceBulkJob> {
+  const deadline = Date.now() + BULK_POLL_TIMEOUT_MS;
+
+  for (;;) {
+    const job = (await salesforceApi(conn, `/jobs/ingest/${jobId}`)) as SalesforceBulkJob;
+    if (job.state === 'JobComplete' || job.state === 'Failed' || job.state === 'Aborted') {
+      return job;
+    }
+    if (Date.now() > deadline) {
+      throw new AppError(
+        `Salesforce bulk job ${jobId} did not finish within ${BULK_POLL_TIMEOUT_MS / 60000} minutes`,
+        504,
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, BULK_POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Run one Bulk API 2.0 ingest job: create it, upload the CSV, mark the upload
+ * complete and wait for it to finish. Rejected rows are downloaded from
+ * failedResults and appended to `rowErrors`, identified by `keyField`.
+ */
+async function runBulkJob(
+  conn: SalesforceConnection,
+  object: string,
+  operation: 'upsert' | 'update',
+  keyField: string,
+  rows: Record<string, unknown>[],
+  rowErrors: CrmRowError[],
+): Promise<CrmPushCounts> {
+  const job = (await salesforceApi(conn, '/jobs/ingest', {
+    method: 'POST',
+    body: {
+      object,
+      operation,
+      contentType: 'CSV',
+      lineEnding: 'LF',
+      ...(operation === 'upsert' && { externalIdFieldName: keyField }),
+    },
+  })) as SalesforceBulkJob;
+
+  await salesforceApi(conn, `/jobs/ingest/${job.id}/batches`, {
+    method: 'PUT',
+    body: toCsv(rows),
+    contentType: 'text/csv',
+  });
+  await salesforceApi(conn, `/jobs/ingest/${job.id}`, {
+    method: 'PATCH',
+    body: { state: 'UploadComplete' },
+  });
+
+  const finished = await waitForBulkJob(conn, job.id);
+  if (finished.state !== 'JobComplete') {
+    throw new AppError(
+      `Salesforce bulk ${object} job ${job.id} ${finished.state.toLowerCase()}: ${finished.errorMessage || 'no details'}`,
+      502,
+    );
+  }
+
+  const failed = finished.numberRecordsFailed ?? 0;
+  if (failed > 0) {
+    const csv = (await salesforceApi(conn, `/jobs/ingest/${job.id}/failedResults/`, {
+      responseType: 'text',
+    })) as string;
+    // parseCSV lowercases headers
+    const keyColumn = keyField.toLowerCase();
+    for (const row of parseCSV(csv).rows) {
+      rowErrors.push({ object, recordId: row[keyColumn] || null, error: row.sf__error || 'Unknown error' });
     }
   }
 
-  logger.info('Salesforce custom field registration complete', { organizationId });
+  // Updates by Id never insert; upserts report each row in sf__Created
+  const succeeded = (finished.numberRecordsProcessed ?? 0) - failed;
+  let created = 0;
+  if (operation === 'upsert' && succeeded > 0) {
+    const csv = (await salesforceApi(conn, `/jobs/ingest/${job.id}/successfulResults/`, {
+      responseType: 'text',
+    })) as string;
+    created = parseCSV(csv).rows.filter((row) => row.sf__created === 'true').length;
+  }
+
+  logger.info('Salesforce bulk job finished', {
+    organizationId: conn.organizationId,
+    jobId: job.id,
+    object,
+    operation,
+    processed: finished.numberRecordsProcessed ?? 0,
+    created,
+    failed,
+  });
+
+  return { created, updated: succeeded - created, failed };
 }
 
+/**
+ * Push records with Bulk API 2.0. Rows carrying a Salesforce `Id` (matched by
+ * an earlier pull) are updated by Id, which also backfills the Sigscore ID;
+ * the rest are upserted on `keyField`.
+ */
+async function bulkPush(
+  conn: SalesforceConnection,
+  { rowErrors }: CrmSyncContext,
+  object: string,
+  keyField: string,
+  rows: Record<string, unknown>[],
+): Promise<CrmPushCounts> {
+  const result = { created: 0, updated: 0, failed: 0 };
+  const groups = [
+    { operation: 'update' as const, rows: rows.filter((row) => row.Id) },
+    { operation: 'upsert' as const, rows: rows.filter((row) => !row.Id) },
+  ];
+
+  for (const group of groups) {
+    for (const batch of chunk(group.rows, BULK_JOB_MAX_ROWS)) {
+      const counts = await runBulkJob(conn, object, group.operation, keyField, batch, rowErrors);
+      result.created += counts.created;
+      result.updated += counts.updated;
+      result.failed += counts.failed;
+    }
+  }
+
+  return result;
+}
+
+/** Salesforce record id stored by the pull stage, if this record was matched. */
+const salesforceIdOf = (customFields: Prisma.JsonValue): string | undefined =>
+  ((customFields as Record<string, unknown> | null)?.salesforceId as string | undefined) || undefined;
+
 // ---------------------------------------------------------------------------
 // Contact Sync
 // ---------------------------------------------------------------------------
 
+type ContactWithScore = Prisma.ContactGetPayload<{ include: { company: { include: { score: true } } } }>;
+
+function contactFields(contact: ContactWithScore): Record<string, unknown> {
+  const rec: Record<string, unknown> = {
+    Email: contact.email,
+    FirstName: contact.firstName || '',
+    LastName: contact.lastName || contact.email?.split('@')[0] || 'Unknown',
+  };
+
+  if (contact.title) rec.Title = contact.title;
+  if (contact.phone) rec.Phone = contact.phone;
+
+  // Sigscore custom fields
+  if (contact.company?.score) {
+    rec.PQA_Score__c = contact.company.score.score;
+    rec.Signal_Count__c = contact.company.score.signalCount;
+    if (contact.company.score.lastSignalAt) {
+      rec.Last_Signal_Date__c = toCrmDate(contact.company.score.lastSignalAt);
+    }
+  }
+  rec.Sigscore_Source__c = 'Sigscore';
+  rec.Sigscore_Id__c = contact.id;
+
+  return rec;
+}
+
 /**
- * Query Salesforce contacts modified since last sync and upsert into Sigscore,
- * then push Sigscore contacts back to Salesforce.
+ * Push Sigscore contacts to Salesforce, switching to Bulk API 2.0 for large
+ * change sets.
  */
 async function syncContacts(
-  organizationId: string,
-  accessToken: string,
-  instanceUrl: string,
-  since: Date | null,
+  conn: SalesforceConnection,
+  ctx: CrmSyncContext,
 ): Promise<{ created: number; updated: number; failed: number }> {
+  const { organizationId, since } = ctx;
   const result = { created: 0, updated: 0, failed: 0 };
 
-  // --- Pull from Salesforce ---
-  const sinceStr = since ? since.toISOString() : '1970-01-01T00:00:00.000Z';
-  const soql = `SELECT Id,Email,FirstName,LastName,Title,Account.Name FROM Contact WHERE LastModifiedDate > ${sinceStr} AND Email != null`;
-
-  try {
-    const queryResult = (await salesforceApi(
-      organizationId,
-      instanceUrl,
-      accessToken,
-      `/query?q=${encodeURIComponent(soql)}`,
-    )) as SalesforceQueryResponse<{
-      Id: string;
-      Email: string;
-      FirstName: string | null;
-      LastName: string | null;
-      Title: string | null;
-      Account?: { Name: string } | null;
-    }>;
-
-    for (const sfContact of queryResult.records) {
-      if (!sfContact.Email) continue;
-
-      try {
-        const existing = await prisma.contact.findFirst({
-          where: { organizationId, email: sfContact.Email },
-        });
-
-        if (existing) {
-          const existingCustom = (existing.customFields as Record<string, unknown>) ?? {};
-          await prisma.contact.update({
-            where: { id: existing.id },
-            data: {
-              firstName: sfContact.FirstName || existing.firstName,
-              lastName: sfContact.LastName || existing.lastName,
-              title: sfContact.Title || existing.title,
-              customFields: { ...existingCustom, salesforceId: sfContact.Id } as unknown as Prisma.InputJsonValue,
-            },
-          });
-          result.updated++;
-        } else {
-          await prisma.contact.create({
-            data: {
-              organizationId,
-              email: sfContact.Email,
-              firstName: sfContact.FirstName || 'Unknown',
-              lastName: sfContact.LastName || sfContact.Email.split('@')[0],
-              title: sfContact.Title || null,
-              customFields: { salesforceId: sfContact.Id, source: 'salesforce' } as unknown as Prisma.InputJsonValue,
-            },
-          });
-          result.created++;
-        }
-      } catch (error) {
-        result.failed++;
-        logger.warn('Failed to upsert contact from Salesforce', {
-          sfContactId: sfContact.Id,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    }
-  } catch (error) {
-    const msg = error instanceof Error ? error.message : String(error);
-    logger.error('Salesforce contact pull failed', { organizationId, error: msg });
-  }
-
   // --- Push Sigscore contacts to Salesforce ---
   const dsWhere: Record<string, unknown> = {
     organizationId,
@@ -522,6 +768,14 @@ async function syncContacts(
   });
 
   if (dsContacts.length === 0) return result;
+  await ensureIdFields(conn);
+
+  if (dsContacts.length >= BULK_THRESHOLD) {
+    const rows = dsContacts
+      .filter((c) => c.email)
+      .map((contact) => ({ Id: salesforceIdOf(contact.customFields), ...contactFields(contact) }));
+    return bulkPush(conn, ctx, 'Contact', 'Sigscore_Id__c', rows);
+  }
 
   // Push in batches using Composite API
   for (let i = 0; i < dsContacts.length; i += BATCH_SIZE) {
@@ -529,39 +783,13 @@ async function syncContacts(
 
     const records = batch
       .filter((c) => c.email)
-      .map((contact) => {
-        const rec: Record<string, unknown> = {
-          attributes: { type: 'Contact' },
-          Email: contact.email,
-          FirstName: contact.firstName || '',
-          LastName: contact.lastName || contact.email?.split('@')[0] || 'Unknown',
-        };
-
-        if (contact.title) rec.Title = contact.title;
-        if (contact.phone) rec.Phone = contact.phone;
-
-        // Sigscore custom fields
-        if (contact.company?.score) {
-          rec.PQA_Score__c = contact.company.score.score;
-          rec.Signal_Count__c = contact.company.score.signalCount;
-          if (contact.company.score.lastSignalAt) {
-            rec.Last_Signal_Date__c = contact.company.score.lastSignalAt
-              .toISOString()
-              .split('T')[0];
-          }
-        }
-        rec.Sigscore_Source__c = 'Sigscore';
-
-        return rec;
-      });
+      .map((contact): Record<string, unknown> => ({ attributes: { type: 'Contact' }, ...contactFields(contact) }));
 
     if (records.length === 0) continue;
 
     try {
       const compositeResult = (await salesforceApi(
-        organizationId,
-        instanceUrl,
-        accessToken,
+        conn,
         '/composite/sobjects',
         {
           method: 'POST',
@@ -572,17 +800,22 @@ async function syncContacts(
         },
       )) as SalesforceCompositeResponse[];
 
-      for (const r of compositeResult) {
+      compositeResult.forEach((r, index) => {
         if (r.success) {
           result.updated++;
         } else {
           result.failed++;
+          ctx.rowErrors.push({
+            object: 'Contact',
+            recordId: records[index].Sigscore_Id__c as string,
+            error: r.errors.map((e) => e.message).join('; '),
+          });
           logger.warn('Salesforce contact push failed', {
             sfId: r.id,
             errors: r.errors,
           });
         }
-      }
+      });
     } catch (error) {
       result.failed += records.length;
       logger.error('Salesforce contact batch push failed', {
@@ -599,97 +832,42 @@ async function syncContacts(
 // Account Sync
 // ---------------------------------------------------------------------------
 
+type CompanyWithScore = Prisma.CompanyGetPayload<{ include: { score: true } }>;
+
+function accountFields(company: CompanyWithScore): Record<string, unknown> {
+  const rec: Record<string, unknown> = {
+    Name: company.name,
+  };
+
+  if (company.domain) rec.Website = `https://${company.domain}`;
+  if (company.industry) rec.Industry = company.industry;
+  if (company.phone) rec.Phone = company.phone;
+
+  // Custom fields
+  if (company.score) {
+    rec.PQA_Score__c = company.score.score;
+    rec.Signal_Count__c = company.score.signalCount;
+    if (company.score.lastSignalAt) {
+      rec.Last_Signal_Date__c = toCrmDate(company.score.lastSignalAt);
+    }
+  }
+  rec.Sigscore_Source__c = 'Sigscore';
+  rec.Sigscore_Id__c = company.id;
+
+  return rec;
+}
+
 /**
- * Sync companies (Sigscore) <-> accounts (Salesforce) bidirectionally.
+ * Push Sigscore companies to Salesforce accounts, switching to Bulk API 2.0
+ * for large change sets.
  */
 async function syncAccounts(
-  organizationId: string,
-  accessToken: string,
-  instanceUrl: string,
-  since: Date | null,
+  conn: SalesforceConnection,
+  ctx: CrmSyncContext,
 ): Promise<{ created: number; updated: number; failed: number }> {
+  const { organizationId, since } = ctx;
   const result = { created: 0, updated: 0, failed: 0 };
 
-  // --- Pull Salesforce accounts ---
-  const sinceStr = since ? since.toISOString() : '1970-01-01T00:00:00.000Z';
-  const soql = `SELECT Id,Name,Website,Industry,Phone FROM Account WHERE LastModifiedDate > ${sinceStr}`;
-
-  try {
-    const queryResult = (await salesforceApi(
-      organizationId,
-      instanceUrl,
-      accessToken,
-      `/query?q=${encodeURIComponent(soql)}`,
-    )) as SalesforceQueryResponse<{
-      Id: string;
-      Name: string;
-      Website: string | null;
-      Industry: string | null;
-      Phone: string | null;
-    }>;
-
-    for (const sfAccount of queryResult.records) {
-      try {
-        // Try to match by domain (extracted from Website)
-        let domain: string | null = null;
-        if (sfAccount.Website) {
-          try {
-            domain = new URL(
-              sfAccount.Website.startsWith('http')
-                ? sfAccount.Website
-                : `https://${sfAccount.Website}`,
-            ).hostname.replace(/^www\./, '');
-          } catch {
-            domain = null;
-          }
-        }
-
-        const existing = domain
-          ? await prisma.company.findFirst({
-              where: { organizationId, domain },
-              select: { id: true, name: true, industry: true, phone: true, customFields: true },
-            })
-          : null;
-
-        if (existing) {
-          const existingCustom = (existing.customFields as Record<string, unknown>) ?? {};
-          await prisma.company.update({
-            where: { id: existing.id },
-            data: {
-              name: sfAccount.Name || existing.name,
-              industry: sfAccount.Industry || existing.industry,
-              phone: sfAccount.Phone || existing.phone,
-              customFields: { ...existingCustom, salesforceId: sfAccount.Id } as unknown as Prisma.InputJsonValue,
-            },
-          });
-          result.updated++;
-        } else {
-          await prisma.company.create({
-            data: {
-              organizationId,
-              name: sfAccount.Name,
-              domain: domain,
-              website: sfAccount.Website,
-              industry: sfAccount.Industry,
-              phone: sfAccount.Phone,
-              customFields: { salesforceId: sfAccount.Id, source: 'salesforce' } as unknown as Prisma.InputJsonValue,
-            },
-          });
-          result.created++;
-        }
-      } catch (error) {
-        result.failed++;
-        logger.warn('Failed to upsert account from Salesforce', {
-          sfAccountId: sfAccount.Id,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    }
-  } catch (error) {
-    const msg = error instanceof Error ? error.message : String(error);
-    logger.error('Salesforce account pull failed', { organizationId, error: msg });
-  }
-
   // --- Push Sigscore companies to Salesforce ---
   const dsWhere: Record<string, unknown> = {
     organizationId,
@@ -708,40 +886,27 @@ async function syncAccounts(
   });
 
   if (dsCompanies.length === 0) return result;
+  await ensureIdFields(conn);
+
+  if (dsCompanies.length >= BULK_THRESHOLD) {
+    const rows = dsCompanies.map((company) => ({
+      Id: salesforceIdOf(company.customFields),
+      ...accountFields(company),
+    }));
+    return bulkPush(conn, ctx, 'Account', 'Sigscore_Id__c', rows);
+  }
 
   for (let i = 0; i < dsCompanies.length; i += BATCH_SIZE) {
     const batch = dsCompanies.slice(i, i + BATCH_SIZE);
 
-    const records = batch.map((company) => {
-      const rec: Record<string, unknown> = {
-        attributes: { type: 'Account' },
-        Name: company.name,
-      };
-
-      if (company.domain) rec.Website = `https://${company.domain}`;
-      if (company.industry) rec.Industry = company.industry;
-      if (company.phone) rec.Phone = company.phone;
-
-      // Custom fields
-      if (company.score) {
-        rec.PQA_Score__c = company.score.score;
-        rec.Signal_Count__c = company.score.signalCount;
-        if (company.score.lastSignalAt) {
-          rec.Last_Signal_Date__c = company.score.lastSignalAt
-            .toISOString()
-            .split('T')[0];
-        }
-      }
-      rec.Sigscore_Source__c = 'Sigscore';
-
-      return rec;
-    });
+    const records = batch.map((company): Record<string, unknown> => ({
+      attributes: { type: 'Account' },
+      ...accountFields(company),
+    }));
 
     try {
       const compositeResult = (await salesforceApi(
-        organizationId,
-        instanceUrl,
-        accessToken,
+        conn,
         '/composite/sobjects',
         {
           method: 'POST',
@@ -749,17 +914,22 @@ async function syncAccounts(
         },
       )) as SalesforceCompositeResponse[];
 
-      for (const r of compositeResult) {
+      compositeResult.forEach((r, index) => {
         if (r.success) {
           result.updated++;
         } else {
           result.failed++;
+          ctx.rowErrors.push({
+            object: 'Account',
+            recordId: records[index].Sigscore_Id__c as string,
+            error: r.errors.map((e) => e.message).join('; '),
+          });
           logger.warn('Salesforce account push failed', {
             sfId: r.id,
             errors: r.errors,
           });
         }
-      }
+      });
     } catch (error) {
       result.failed += records.length;
       logger.error('Salesforce account batch push failed', {
@@ -776,15 +946,36 @@ async function syncAccounts(
 // Opportunity Sync
 // ---------------------------------------------------------------------------
 
+function opportunityFields(deal: Deal): Record<string, unknown> {
+  const oppData: Record<string, unknown> = {
+    Name: deal.title,
+    StageName: DEAL_STAGE_TO_SF[deal.stage] || 'Prospecting',
+    CloseDate: toCrmDate(
+      deal.expectedCloseDate ?? new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), // Default 90 days
+    ),
+    Sigscore_Deal_Id__c: deal.id,
+    Sigscore_Source__c: 'Sigscore',
+  };
+
+  if (deal.amount !== null) {
+    oppData.Amount = Number(deal.amount);
+  }
+  if (deal.description) {
+    oppData.Description = deal.description;
+  }
+
+  return oppData;
+}
+
 /**
- * Map Sigscore deals to Salesforce Opportunities.
+ * Map Sigscore deals to Salesforce Opportunities. Large change sets are
+ * upserted with Bulk API 2.0 on Sigscore_Deal_Id__c.
  */
 async function syncOpportunities(
-  organizationId: string,
-  accessToken: string,
-  instanceUrl: string,
-  since: Date | null,
+  conn: SalesforceConnection,
+  ctx: CrmSyncContext,
 ): Promise<{ created: number; updated: number; failed: number }> {
+  const { organizationId, since } = ctx;
   const result = { created: 0, updated: 0, failed: 0 };
 
   const where: Record<string, unknown> = { organizationId };
@@ -801,45 +992,28 @@ async function syncOpportunities(
   });
 
   if (deals.length === 0) return result;
+  await ensureIdFields(conn);
+
+  if (deals.length >= BULK_THRESHOLD) {
+    return bulkPush(conn, ctx, 'Opportunity', 'Sigscore_Deal_Id__c', deals.map(opportunityFields));
+  }
 
   for (const deal of deals) {
     try {
       // Check if opportunity already exists by Sigscore_Deal_Id__c
       const searchSoql = `SELECT Id FROM Opportunity WHERE Sigscore_Deal_Id__c = '${deal.id}' LIMIT 1`;
       const existingResult = (await salesforceApi(
-        organizationId,
-        instanceUrl,
-        accessToken,
+        conn,
         `/query?q=${encodeURIComponent(searchSoql)}`,
       )) as SalesforceQueryResponse<{ Id: string }>;
 
-      const sfStage = DEAL_STAGE_TO_SF[deal.stage] || 'Prospecting';
-      const closeDate = deal.expectedCloseDate
-        ? deal.expectedCloseDate.toISOString().split('T')[0]
-        : new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]; // Default 90 days
-
-      const oppData: Record<string, unknown> = {
-        Name: deal.title,
-        StageName: sfStage,
-        CloseDate: closeDate,
-        Sigscore_Deal_Id__c: deal.id,
-        Sigscore_Source__c: 'Sigscore',
-      };
-
-      if (deal.amount !== null) {
-        oppData.Amount = Number(deal.amount);
-      }
-      if (deal.description) {
-        oppData.Description = deal.description;
-      }
+      const oppData = opportunityFields(deal);
 
       if (existingResult.records.length > 0) {
         // Update existing
         const sfId = existingResult.records[0].Id;
         await salesforceApi(
-          organizationId,
-          instanceUrl,
-          accessToken,
+          conn,
           `/sobjects/Opportunity/${sfId}`,
           { method: 'PATCH', body: oppData },
         );
@@ -847,19 +1021,19 @@ async function syncOpportunities(
       } else {
         // Create new
         await salesforceApi(
-          organizationId,
-          instanceUrl,
-          accessToken,
+          conn,
           '/sobjects/Opportunity',
           { method: 'POST', body: oppData },
         );
         result.created++;
       }
     } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
       result.failed++;
+      ctx.rowErrors.push({ object: 'Opportunity', recordId: deal.id, error: msg });
       logger.warn('Failed to sync deal to Salesforce Opportunity', {
         dealId: deal.id,
-        error: error instanceof Error ? error.message : String(error),
+        error: msg,
       });
     }
   }
@@ -875,10 +1049,8 @@ async function syncOpportunities(
  * Push recent signals as Salesforce Tasks on Contact records.
  */
 async function syncSignalTasks(
-  organizationId: string,
-  accessToken: string,
-  instanceUrl: string,
-  since: Date | null,
+  conn: SalesforceConnection,
+  { organizationId, since }: CrmSyncContext,
 ): Promise<{ synced: number; failed: number }> {
   const result = { synced: 0, failed: 0 };
 
@@ -909,9 +1081,7 @@ async function syncSignalTasks(
       // Find the Salesforce Contact by email
       const soql = `SELECT Id FROM Contact WHERE Email = '${signal.actor.email.replace(/'/g, "\\'")}' LIMIT 1`;
       const contactResult = (await salesforceApi(
-        organizationId,
-        instanceUrl,
-        accessToken,
+        conn,
         `/query?q=${encodeURIComponent(soql)}`,
       )) as SalesforceQueryResponse<{ Id: string }>;
 
@@ -937,13 +1107,11 @@ async function syncSignalTasks(
         WhoId: sfContactId,
         Status: 'Completed',
         Priority: 'Normal',
-        ActivityDate: signal.timestamp.toISOString().split('T')[0],
+        ActivityDate: toCrmDate(signal.timestamp),
       };
 
       await salesforceApi(
-        organizationId,
-        instanceUrl,
-        accessToken,
+        conn,
         '/sobjects/Task',
         { method: 'POST', body: taskData },
       );
@@ -961,6 +1129,27 @@ async function syncSignalTasks(
   return result;
 }
 
+// ---------------------------------------------------------------------------
+// Adapter
+// ---------------------------------------------------------------------------
+
+export const salesforceAdapter: CrmAdapter<SalesforceConnection> = {
+  provider: 'salesforce',
+  label: 'Salesforce',
+  settingsPrefix: SETTINGS_PREFIX,
+  objectNames: { company: 'accounts', deal: 'opportunities', activity: 'tasks' },
+
+  connect: getValidCredentials,
+  registerFields: ensureCustomFields,
+  pushContacts: syncContacts,
+  pushCompanies: syncAccounts,
+  pushDeals: syncOpportunities,
+  pushActivities: syncSignalTasks,
+  pullChanges,
+
+  statusDetails: (settings) => ({ instanceUrl: settings.get<string>('InstanceUrl') || null }),
+};
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -974,25 +1163,11 @@ export async function connectSalesforce(
   refreshToken: string,
   instanceUrl: string,
 ): Promise<void> {
-  // Store tokens in org settings
-  await updateOrgSettings(organizationId, {
-    salesforceAccessToken: accessToken,
-    salesforceRefreshToken: refreshToken,
-    salesforceInstanceUrl: instanceUrl,
-  });
-
-  // Register custom fields
-  await registerCustomFields(organizationId);
-
-  logAudit({
-    organizationId,
-    action: 'salesforce_connect',
-    entityType: 'integration',
-    entityName: 'Salesforce',
-    metadata: { instanceUrl } as unknown as Record<string, unknown>,
+  await connectCrm(salesforceAdapter, organizationId, {
+    AccessToken: accessToken,
+    RefreshToken: refreshToken,
+    InstanceUrl: instanceUrl,
   });
-
-  logger.info('Salesforce connected', { organizationId, instanceUrl });
 }
 
 /**
@@ -1001,35 +1176,7 @@ export async function connectSalesforce(
 export async function disconnectSalesforce(
   organizationId: string,
 ): Promise<void> {
-  const { rawSettings } = await getOrgSettings(organizationId);
-
-  // Remove all Salesforce-related settings
-  const {
-    salesforceAccessToken: _a,
-    salesforceRefreshToken: _b,
-    salesforceInstanceUrl: _c,
-    salesforceLastSyncAt: _d,
-    salesforceLastSyncResult: _e,
-    salesforceSyncInProgress: _f,
-    salesforceTotalContactsSynced: _g,
-    salesforceTotalAccountsSynced: _h,
-    salesforceTotalOpportunitiesSynced: _i,
-    ...rest
-  } = rawSettings;
-
-  await prisma.organization.update({
-    where: { id: organizationId },
-    data: { settings: rest as Prisma.InputJsonValue },
-  });
-
-  logAudit({
-    organizationId,
-    action: 'salesforce_disconnect',
-    entityType: 'integration',
-    entityName: 'Salesforce',
-  });
-
-  logger.info('Salesforce disconnected', { organizationId });
+  await disconnectCrm(salesforceAdapter, organizationId);
 }
 
 /**
@@ -1038,18 +1185,42 @@ export async function disconnectSalesforce(
 export async function getSyncStatus(
   organizationId: string,
 ): Promise<SalesforceSyncStatus> {
-  const { salesforce } = await getOrgSettings(organizationId);
+  return getCrmSyncStatus<SalesforceConnection, SalesforceSyncStatus>(salesforceAdapter, organizationId);
+}
 
-  return {
-    connected: !!salesforce.salesforceAccessToken,
-    lastSyncAt: salesforce.salesforceLastSyncAt || null,
-    lastSyncResult: salesforce.salesforceLastSyncResult || null,
-    syncInProgress: salesforce.salesforceSyncInProgress || false,
-    instanceUrl: salesforce.salesforceInstanceUrl || null,
-    totalContactsSynced: salesforce.salesforceTotalContactsSynced || 0,
-    totalAccountsSynced: salesforce.salesforceTotalAccountsSynced || 0,
-    totalOpportunitiesSynced: salesforce.salesforceTotalOpportunitiesSynced || 0,
-  };
+/**
+ * Recent Salesforce sync runs, newest first.
+ */
+export async function getSyncHistory(organizationId: string, limit?: number) {
+  return getCrmSyncHistory(salesforceAdapter, organizationId, limit);
+}
+
+/**
+ * A single Salesforce sync run, including the records Salesforce rejected.
+ */
+export async function getSyncRun(organizationId: string, runId: string) {
+  return getCrmSyncRun(salesforceAdapter, organizationId, runId);
+}
+
+/**
+ * Conflict policy for fields pulled back from Salesforce.
+ */
+export async function getConflictPolicy(organizationId: string) {
+  return getCrmConflictPolicy(salesforceAdapter, organizationId);
+}
+
+export async function updateConflictPolicy(
+  organizationId: string,
+  update: { defaultPolicy?: CrmConflictPolicy; fields?: Record<string, CrmConflictPolicy> },
+) {
+  return updateCrmConflictPolicy(salesforceAdapter, organizationId, update);
+}
+
+/**
+ * Recent fields edited in both Salesforce and Sigscore, with how each was resolved.
+ */
+export async function getConflicts(organizationId: string, limit?: number) {
+  return getCrmConflicts(salesforceAdapter, organizationId, limit);
 }
 
 /**
@@ -1060,124 +1231,11 @@ export async function runSync(
   organizationId: string,
   fullSync = false,
 ): Promise<SalesforceSyncResult> {
-  const { salesforce } = await getOrgSettings(organizationId);
-
-  if (!salesforce.salesforceAccessToken || !salesforce.salesforceInstanceUrl) {
-    throw new AppError('Salesforce is not connected', 400);
-  }
-
-  // Mark sync as in progress
-  await updateOrgSettings(organizationId, {
-    salesforceSyncInProgress: true,
-  });
-
-  const result: SalesforceSyncResult = {
-    contacts: { created: 0, updated: 0, failed: 0 },
-    accounts: { created: 0, updated: 0, failed: 0 },
-    opportunities: { created: 0, updated: 0, failed: 0 },
-    tasks: { synced: 0, failed: 0 },
-    errors: [],
-  };
-
-  try {
-    const { accessToken, instanceUrl } = await getValidCredentials(organizationId);
-    const since =
-      !fullSync && salesforce.salesforceLastSyncAt
-        ? new Date(salesforce.salesforceLastSyncAt)
-        : null;
-
-    // Sync contacts
-    try {
-      result.contacts = await syncContacts(organizationId, accessToken, instanceUrl, since);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      result.errors.push(`Contact sync failed: ${msg}`);
-      logger.error('Salesforce contact sync failed', { organizationId, error: msg });
-    }
-
-    // Sync accounts
-    try {
-      result.accounts = await syncAccounts(organizationId, accessToken, instanceUrl, since);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      result.errors.push(`Account sync failed: ${msg}`);
-      logger.error('Salesforce account sync failed', { organizationId, error: msg });
-    }
-
-    // Sync opportunities
-    try {
-      result.opportunities = await syncOpportunities(organizationId, accessToken, instanceUrl, since);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      result.errors.push(`Opportunity sync failed: ${msg}`);
-      logger.error('Salesforce opportunity sync failed', { organizationId, error: msg });
-    }
-
-    // Sync signal tasks
-    try {
-      result.tasks = await syncSignalTasks(organizationId, accessToken, instanceUrl, since);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      result.errors.push(`Signal task sync failed: ${msg}`);
-      logger.error('Salesforce signal task sync failed', { organizationId, error: msg });
-    }
-
-    // Update sync status
-    await updateOrgSettings(organizationId, {
-      salesforceLastSyncAt: new Date().toISOString(),
-      salesforceLastSyncResult: result as unknown as Prisma.InputJsonValue,
-      salesforceSyncInProgress: false,
-      salesforceTotalContactsSynced:
-        (salesforce.salesforceTotalContactsSynced || 0) +
-        result.contacts.created +
-        result.contacts.updated,
-      salesforceTotalAccountsSynced:
-        (salesforce.salesforceTotalAccountsSynced || 0) +
-        result.accounts.created +
-        result.accounts.updated,
-      salesforceTotalOpportunitiesSynced:
-        (salesforce.salesforceTotalOpportunitiesSynced || 0) +
-        result.opportunities.created +
-        result.opportunities.updated,
-    });
-
-    logAudit({
-      organizationId,
-      action: 'salesforce_sync',
-      entityType: 'integration',
-      entityName: 'Salesforce',
-      metadata: {
-        fullSync,
-        contacts: result.contacts,
-        accounts: result.accounts,
-        opportunities: result.opportunities,
-        tasks: result.tasks,
-        errorCount: result.errors.length,
-      } as unknown as Record<string, unknown>,
-    });
-
-    logger.info('Salesforce sync completed', {
-      organizationId,
-      contacts: result.contacts,
-      accounts: result.accounts,
-      opportunities: result.opportunities,
-      tasks: result.tasks,
-    });
-
-    return result;
-  } catch (error) {
-    // Mark sync as no longer in progress on failure
-    await updateOrgSettings(organizationId, {
-      salesforceSyncInProgress: false,
-    });
-
-    const msg = error instanceof Error ? error.message : String(error);
-    result.errors.push(`Sync failed: ${msg}`);
-
-    logger.error('Salesforce sync failed', { organizationId, error: msg });
-
-    throw error;
-  }
+  return runCrmSync<SalesforceConnection, SalesforceSyncResult>(
+    salesforceAdapter,
+    organizationId,
+    fullSync,
+  );
 }
 
 /**
@@ -1185,15 +1243,5 @@ export async function runSync(
  * Used by the scheduler to trigger periodic syncs.
  */
 export async function getConnectedOrganizations(): Promise<string[]> {
-  const orgs = await prisma.organization.findMany({
-    where: {
-      settings: {
-        path: ['salesforceAccessToken'],
-        not: Prisma.AnyNull,
-      },
-    },
-    select: { id: true },
-  });
-
-  return orgs.map((org) => org.id);
+  return getCrmConnectedOrganizations(salesforceAdapter);
 }
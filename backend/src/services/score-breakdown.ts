@@ -0,0 +1,118 @@
+// ---------------------------------------------------------------------------
+// Explainable score breakdown
+// ---------------------------------------------------------------------------
+// Persisted on AccountScore.breakdown so reps can see why an account landed
+// in its tier. Contributions are in final score points: summing every
+// `points` and `decay` plus `adjustment` gives back `score`, which is what
+// the waterfall on the account score card draws.
+// ---------------------------------------------------------------------------
+
+export interface ScoreContribution {
+  /** Factor name (PQA model) or scoring rule id. */
+  id: string;
+  label: string;
+  kind: 'factor' | 'rule';
+  /** Points before decay. */
+  points: number;
+  /** Points removed by decay (zero or negative). */
+  decay: number;
+  description: string;
+}
+
+export interface TopSignalType {
+  type: string;
+  count: number;
+  /** Decay-weighted count; null when the scoring path counts raw signals. */
+  weightedCount: number | null;
+  lastSeenAt: Date | null;
+}
+
+export interface TopSignal {
+  id: string;
+  type: string;
+  timestamp: Date;
+  actorId: string | null;
+  /** Decay weight still carried (1 = brand new); null when the scoring path counts raw signals. */
+  weight: number | null;
+}
+
+export interface ScoreBreakdown {
+  /** `pqa` = built-in 7-factor model, `rules` = the org's scoring config. */
+  source: 'pqa' | 'rules';
+  score: number;
+  contributions: ScoreContribution[];
+  /** Sum of all contribution decay. */
+  decayTotal: number;
+  /** Rounding and max-score capping, so the steps add up to `score`. */
+  adjustment: number;
+  topSignalTypes: TopSignalType[];
+  /** The individual signals carrying the most weight. */
+  topSignals: TopSignal[];
+}
+
+const TOP_SIGNAL_TYPES = 5;
+export const TOP_SIGNAL_COUNT = 5;
+
+const roundPoints = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Keep the signal types that drove the score: highest weighted count
+ * first (raw count when unweighted), then most recent.
+ */
+export function rankTopSignalTypes(signals: TopSignalType[]): TopSignalType[] {
+  return [...signals]
+    .sort(
+      (a, b) =>
+        (b.weightedCount ?? b.count) - (a.weightedCount ?? a.count) ||
+        (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0),
+    )
+    .slice(0, TOP_SIGNAL_TYPES)
+    .map((s) => ({
+      ...s,
+      weightedCount: s.weightedCount === null ? null : roundPoints(s.weightedCount),
+    }));
+}
+
+/**
+ * Keep the individual signals that drove the score: highest decay weight
+ * first (all equal when unweighted), then most recent.
+ */
+export function rankTopSignals(signals: TopSignal[]): TopSignal[] {
+  return [...signals]
+    .sort(
+      (a, b) =>
+        (b.weight ?? 1) - (a.weight ?? 1) ||
+        b.timestamp.getTime() - a.timestamp.getTime(),
+    )
+    .slice(0, TOP_SIGNAL_COUNT)
+    .map((s) => ({
+      ...s,
+      weight: s.weight === null ? null : Math.round(s.weight * 100) / 100,
+    }));
+}
+
+export function buildScoreBreakdown(
+  source: ScoreBreakdown['source'],
+  score: number,
+  contributions: ScoreContribution[],
+  topSignalTypes: TopSignalType[],
+  topSignals: TopSignal[],
+): ScoreBreakdown {
+  const rounded = contributions.map((c) => ({
+    ...c,
+    points: roundPoints(c.points),
+    decay: roundPoints(c.decay),
+  }));
+  const decayTotal = roundPoints(rounded.reduce((sum, c) => sum + c.decay, 0));
+  const gross = rounded.reduce((sum, c) => sum + c.points, 0);
+
+  return {
+    source,
+    score,
+    contributions: rounded,
+    decayTotal,
+    adjustment: roundPoints(score - gross - decayTotal),
+    topSignalTypes: rankTopSignalTypes(topSignalTypes),
+    topSignals: rankTopSignals(topSignals),
+  };
+}
@@ -1,6 +1,8 @@
 import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { logger } from '../utils/logger';
+import { recomputeModelScores } from './scoring-models';
+import { captureContactScoreSnapshots } from './contact-scores';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -37,8 +39,9 @@ interface OrgScorePoint {
 
 /**
  * Reads the latest AccountScore for every company in the given org and
- * persists a ScoreSnapshot row for each one. This is the core operation
- * that the scheduled BullMQ job invokes.
+ * persists a ScoreSnapshot row for each one, then does the same for every
+ * non-primary scoring model. This is the core operation that the scheduled
+ * BullMQ job invokes.
  *
  * Returns the number of snapshots created.
  */
@@ -57,7 +60,7 @@ export const captureScoreSnapshots = async (
 
   if (scores.length === 0) {
     logger.debug('No account scores to snapshot', { organizationId });
-    return { captured: 0 };
+    return { captured: await captureContactScoreSnapshots(organizationId, new Date()) };
   }
 
   const now = new Date();
@@ -93,12 +96,54 @@ export const captureScoreSnapshots = async (
     data: snapshotData,
   });
 
+  // Non-primary scoring models keep their own series, keyed by modelId
+  const modelCaptured = await captureModelScoreSnapshots(organizationId, now);
+  const contactCaptured = await captureContactScoreSnapshots(organizationId, now);
+
   logger.info('Score snapshots captured', {
     organizationId,
     captured: result.count,
+    modelCaptured,
+    contactCaptured,
+  });
+
+  return { captured: result.count + modelCaptured + contactCaptured };
+};
+
+/**
+ * Recomputes every non-primary scoring model and snapshots its scores.
+ * Returns the number of model snapshots created.
+ */
+const captureModelScoreSnapshots = async (organizationId: string, capturedAt: Date): Promise<number> => {
+  const models = await prisma.scoringModel.findMany({
+    where: { organizationId, isPrimary: false },
+    select: { id: true },
   });
 
-  return { captured: result.count };
+  let captured = 0;
+  for (const model of models) {
+    try {
+      await recomputeModelScores(organizationId, model.id);
+      const scores = await prisma.scoringModelScore.findMany({
+        where: { modelId: model.id },
+        select: { accountId: true, score: true },
+      });
+      const result = await prisma.scoreSnapshot.createMany({
+        data: scores.map((s) => ({
+          organizationId,
+          companyId: s.accountId,
+          modelId: model.id,
+          score: s.score,
+          capturedAt,
+        })),
+      });
+      captured += result.count;
+    } catch (err) {
+      logger.error('Failed to snapshot scoring model', { organizationId, modelId: model.id, err });
+    }
+  }
+
+  return captured;
 };
 
 // ---------------------------------------------------------------------------
@@ -107,12 +152,14 @@ export const captureScoreSnapshots = async (
 
 /**
  * Returns chronologically-ordered score snapshots for a given company.
- * Defaults to the last 30 days if `days` is not specified.
+ * Defaults to the last 30 days if `days` is not specified, and to the
+ * primary score series when no `modelId` is given.
  */
 export const getScoreHistory = async (
   companyId: string,
   organizationId: string,
   days = 30,
+  modelId: string | null = null,
 ): Promise<SnapshotRecord[]> => {
   const since = new Date();
   since.setDate(since.getDate() - days);
@@ -121,6 +168,7 @@ export const getScoreHistory = async (
     where: {
       companyId,
       organizationId,
+      modelId,
       capturedAt: { gte: since },
     },
     orderBy: { capturedAt: 'asc' },
@@ -174,6 +222,7 @@ export const getOrgScoreOverview = async (
       COUNT(*)                        AS snapshot_count
     FROM "score_snapshots"
     WHERE "organizationId" = ${organizationId}
+      AND "modelId" IS NULL
       AND "capturedAt" >= ${since}
     GROUP BY day
     ORDER BY day ASC
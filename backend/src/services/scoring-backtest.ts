@@ -0,0 +1,332 @@
+import { DealStage, ScoreTier } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+import { computeDecayWeight } from './account-scores';
+import {
+  ScoringConfig,
+  ScoringInputs,
+  computeTierWithThresholds,
+  configNeedsMetadata,
+  scoreFromInputs,
+  validateScoringConfig,
+} from './scoring-rules';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BacktestOptions {
+  /** Score each company this many days before its deal closed. */
+  leadDays?: number;
+  /** Only deals closed within this many days are replayed. */
+  lookbackDays?: number;
+  maxDeals?: number;
+}
+
+export interface BacktestSample {
+  dealId: string;
+  dealTitle: string;
+  companyId: string;
+  companyName: string;
+  outcome: 'WON' | 'LOST';
+  closedAt: Date;
+  scoredAt: Date;
+  score: number;
+  tier: ScoreTier;
+}
+
+export interface TierPrecision {
+  tier: ScoreTier;
+  deals: number;
+  won: number;
+  lost: number;
+  /** Win rate of deals in this tier; null when the tier is empty. */
+  precision: number | null;
+  /** precision / base win rate; > 1 means the tier beats picking at random. */
+  lift: number | null;
+}
+
+export interface RocPoint {
+  /** Minimum score counted as a predicted win. */
+  threshold: number;
+  tpr: number;
+  fpr: number;
+}
+
+export interface BacktestResult {
+  leadDays: number;
+  lookbackDays: number;
+  deals: number;
+  won: number;
+  lost: number;
+  /** Closed deals skipped because they are not linked to a company. */
+  skipped: number;
+  baseWinRate: number | null;
+  tiers: TierPrecision[];
+  /** Probability a won deal outscored a lost one; null without both outcomes. */
+  auc: number | null;
+  roc: RocPoint[];
+  samples: BacktestSample[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const DEFAULT_LEAD_DAYS = 30;
+const DEFAULT_LOOKBACK_DAYS = 365;
+const DEFAULT_MAX_DEALS = 500;
+
+/** Signals older than this (relative to the scoring date) are ignored. */
+const SIGNAL_WINDOW_DAYS = 90;
+const SIGNAL_SCAN_LIMIT = 5000;
+
+const TIERS: ScoreTier[] = ['HOT', 'WARM', 'COLD', 'INACTIVE'];
+
+const round = (value: number, places = 3): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+// ---------------------------------------------------------------------------
+// Score reconstruction
+// ---------------------------------------------------------------------------
+
+/**
+ * Rebuild a company's scoring inputs as they stood at `asOf`, from signals
+ * timestamped before it. Each signal counts with its exponential decay
+ * weight at `asOf` (see computeDecayWeight) under the config's half-lives,
+ * so stale activity fades the same way it does in live account scores.
+ * Contacts created after `asOf` are excluded; firmographics are current
+ * values (no history is kept).
+ */
+async function reconstructInputs(
+  organizationId: string,
+  companyId: string,
+  asOf: Date,
+  config: ScoringConfig,
+  includeMetadata: boolean,
+): Promise<ScoringInputs> {
+  const windowStart = new Date(asOf.getTime() - SIGNAL_WINDOW_DAYS * MS_PER_DAY);
+  const thirtyDaysAgo = asOf.getTime() - 30 * MS_PER_DAY;
+  const sevenDaysAgo = asOf.getTime() - 7 * MS_PER_DAY;
+
+  const [signals, company] = await Promise.all([
+    prisma.signal.findMany({
+      where: { organizationId, accountId: companyId, timestamp: { gte: windowStart, lte: asOf } },
+      orderBy: { timestamp: 'desc' },
+      take: SIGNAL_SCAN_LIMIT,
+      select: { type: true, timestamp: true, actorId: true, metadata: true },
+    }),
+    prisma.company.findFirst({
+      where: { id: companyId, organizationId },
+      select: {
+        size: true,
+        industry: true,
+        domain: true,
+        customFields: true,
+        contacts: { where: { createdAt: { lte: asOf } }, select: { title: true } },
+      },
+    }),
+  ]);
+
+  let totalSignals = 0;
+  let recentSignals = 0;
+  const actors = new Set<string>();
+  const signalTypeMap = new Map<string, number>();
+  const metadataSignals: ScoringInputs['metadataSignals'] = [];
+
+  for (const signal of signals) {
+    const time = signal.timestamp.getTime();
+    if (time < thirtyDaysAgo) continue;
+
+    const weight = computeDecayWeight(signal.type, (asOf.getTime() - time) / MS_PER_DAY, config);
+    totalSignals += weight;
+    if (time >= sevenDaysAgo) recentSignals += weight;
+    if (signal.actorId) actors.add(signal.actorId);
+    signalTypeMap.set(signal.type, (signalTypeMap.get(signal.type) ?? 0) + weight);
+    if (includeMetadata) {
+      metadataSignals.push({ type: signal.type, metadata: signal.metadata, weight });
+    }
+  }
+
+  return {
+    totalSignals,
+    recentSignals,
+    userCount: actors.size,
+    signalTypeCount: signalTypeMap.size,
+    signalTypeMap,
+    metadataSignals,
+    // Signals are newest first; older-than-window activity scores no recency anyway
+    lastSignal: signals[0] ? { timestamp: signals[0].timestamp } : null,
+    company,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+/**
+ * Mann-Whitney AUC: the probability that a randomly chosen won deal scored
+ * higher than a randomly chosen lost one (ties count half).
+ */
+function computeAuc(samples: BacktestSample[]): number | null {
+  const won = samples.filter((s) => s.outcome === 'WON').length;
+  const lost = samples.length - won;
+  if (won === 0 || lost === 0) return null;
+
+  // Ascending average ranks, ties sharing their mean rank
+  const sorted = [...samples].sort((a, b) => a.score - b.score);
+  let wonRankSum = 0;
+  let i = 0;
+  while (i < sorted.length) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1].score === sorted[i].score) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      if (sorted[k].outcome === 'WON') wonRankSum += averageRank;
+    }
+    i = j + 1;
+  }
+
+  return round((wonRankSum - (won * (won + 1)) / 2) / (won * lost));
+}
+
+/**
+ * ROC curve with one point per distinct score threshold, from strictest
+ * (nothing predicted to win) to loosest (everything predicted to win).
+ */
+function computeRoc(samples: BacktestSample[]): RocPoint[] {
+  const won = samples.filter((s) => s.outcome === 'WON').length;
+  const lost = samples.length - won;
+  if (won === 0 || lost === 0) return [];
+
+  const thresholds = [...new Set(samples.map((s) => s.score))].sort((a, b) => b - a);
+  const points: RocPoint[] = [{ threshold: thresholds[0] + 1, tpr: 0, fpr: 0 }];
+
+  for (const threshold of thresholds) {
+    const predicted = samples.filter((s) => s.score >= threshold);
+    const truePositives = predicted.filter((s) => s.outcome === 'WON').length;
+    points.push({
+      threshold,
+      tpr: round(truePositives / won),
+      fpr: round((predicted.length - truePositives) / lost),
+    });
+  }
+
+  return points;
+}
+
+function computeTierPrecision(samples: BacktestSample[], baseWinRate: number | null): TierPrecision[] {
+  return TIERS.map((tier) => {
+    const inTier = samples.filter((s) => s.tier === tier);
+    const won = inTier.filter((s) => s.outcome === 'WON').length;
+    const precision = inTier.length > 0 ? won / inTier.length : null;
+    return {
+      tier,
+      deals: inTier.length,
+      won,
+      lost: inTier.length - won,
+      precision: precision !== null ? round(precision) : null,
+      lift: precision !== null && baseWinRate ? round(precision / baseWinRate, 2) : null,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Backtest a scoring config against closed deals: score each deal's company
+ * as of `leadDays` before close and measure how well the score separated
+ * CLOSED_WON from CLOSED_LOST.
+ */
+export async function runBacktest(
+  organizationId: string,
+  config: ScoringConfig,
+  options: BacktestOptions = {},
+): Promise<BacktestResult> {
+  validateScoringConfig(config);
+
+  const leadDays = options.leadDays ?? DEFAULT_LEAD_DAYS;
+  const lookbackDays = options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS;
+  const maxDeals = options.maxDeals ?? DEFAULT_MAX_DEALS;
+  const since = new Date(Date.now() - lookbackDays * MS_PER_DAY);
+
+  const closedDeals = await prisma.deal.findMany({
+    where: {
+      organizationId,
+      stage: { in: [DealStage.CLOSED_WON, DealStage.CLOSED_LOST] },
+      OR: [{ closedAt: { gte: since } }, { closedAt: null, updatedAt: { gte: since } }],
+    },
+    orderBy: { updatedAt: 'desc' },
+    take: maxDeals,
+    select: {
+      id: true,
+      title: true,
+      stage: true,
+      closedAt: true,
+      updatedAt: true,
+      companyId: true,
+      company: { select: { name: true } },
+    },
+  });
+
+  const includeMetadata = configNeedsMetadata(config);
+  const samples: BacktestSample[] = [];
+  let skipped = 0;
+
+  for (const deal of closedDeals) {
+    if (!deal.companyId) {
+      skipped++;
+      continue;
+    }
+
+    // Deals closed before closedAt was tracked fall back to their last update
+    const closedAt = deal.closedAt ?? deal.updatedAt;
+    const scoredAt = new Date(closedAt.getTime() - leadDays * MS_PER_DAY);
+
+    const inputs = await reconstructInputs(organizationId, deal.companyId, scoredAt, config, includeMetadata);
+    const score = scoreFromInputs(config, inputs, scoredAt);
+
+    samples.push({
+      dealId: deal.id,
+      dealTitle: deal.title,
+      companyId: deal.companyId,
+      companyName: deal.company?.name || 'Unknown',
+      outcome: deal.stage === DealStage.CLOSED_WON ? 'WON' : 'LOST',
+      closedAt,
+      scoredAt,
+      score,
+      tier: computeTierWithThresholds(score, config.tierThresholds),
+    });
+  }
+
+  const won = samples.filter((s) => s.outcome === 'WON').length;
+  const baseWinRate = samples.length > 0 ? round(won / samples.length) : null;
+
+  logger.info('Scoring backtest complete', {
+    organizationId,
+    deals: samples.length,
+    won,
+    leadDays,
+  });
+
+  return {
+    leadDays,
+    lookbackDays,
+    deals: samples.length,
+    won,
+    lost: samples.length - won,
+    skipped,
+    baseWinRate,
+    tiers: computeTierPrecision(samples, baseWinRate),
+    auc: computeAuc(samples),
+    roc: computeRoc(samples),
+    samples: samples.sort((a, b) => b.score - a.score),
+  };
+}
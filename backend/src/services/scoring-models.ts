@@ -0,0 +1,466 @@
+import { Prisma, ScoreTier, ScoringModel } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { enqueueModelScoreComputation } from '../jobs/producers';
+import {
+  ScoringConfig,
+  applyAndRecompute,
+  computeScoreForAccount,
+  computeTierWithThresholds,
+  getScoringConfig,
+  updateScoringConfig,
+  validateScoringConfig,
+} from './scoring-rules';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CreateScoringModelInput {
+  name: string;
+  description?: string | null;
+  /** Defaults to a copy of `copyFromModelId`, or of the primary model. */
+  config?: ScoringConfig;
+  copyFromModelId?: string;
+}
+
+export interface UpdateScoringModelInput {
+  name?: string;
+  description?: string | null;
+  config?: ScoringConfig;
+}
+
+export interface TierDisagreement {
+  accountId: string;
+  accountName: string;
+  scoreA: number;
+  scoreB: number;
+  tierA: ScoreTier;
+  tierB: ScoreTier;
+  rankA: number;
+  rankB: number;
+}
+
+export interface ModelComparison {
+  modelA: { id: string; name: string; lastComputedAt: Date | null };
+  modelB: { id: string; name: string; lastComputedAt: Date | null };
+  /** Accounts scored by both models. */
+  accounts: number;
+  /** Spearman rank correlation in [-1, 1]; null with fewer than two accounts. */
+  rankCorrelation: number | null;
+  /** Share of accounts placed in the same tier by both models. */
+  tierAgreement: number | null;
+  /** tierMatrix[tierA][tierB] = number of accounts. */
+  tierMatrix: Record<ScoreTier, Record<ScoreTier, number>>;
+  disagreementCount: number;
+  /** Largest rank shifts first, capped at DISAGREEMENT_LIMIT. */
+  disagreements: TierDisagreement[];
+}
+
+const DEFAULT_MODEL_NAME = 'Default';
+
+const DISAGREEMENT_LIMIT = 50;
+
+const TIERS: ScoreTier[] = ['HOT', 'WARM', 'COLD', 'INACTIVE'];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Orgs that predate scoring models have a single config in settings. The
+ * first time models are used, that config becomes the primary "Default" model
+ * and is scored in the background.
+ */
+async function ensurePrimaryModel(organizationId: string): Promise<void> {
+  const count = await prisma.scoringModel.count({ where: { organizationId } });
+  if (count > 0) return;
+
+  const config = await getScoringConfig(organizationId);
+  const model = await prisma.scoringModel.create({
+    data: {
+      organizationId,
+      name: DEFAULT_MODEL_NAME,
+      description: 'Scoring config in use before named models were introduced',
+      config: config as unknown as Prisma.InputJsonValue,
+      isPrimary: true,
+    },
+  });
+  recomputeInBackground(organizationId, model.id);
+}
+
+async function findModelOrThrow(organizationId: string, modelId: string): Promise<ScoringModel> {
+  const model = await prisma.scoringModel.findFirst({ where: { id: modelId, organizationId } });
+  if (!model) {
+    throw new AppError('Scoring model not found', 404);
+  }
+  return model;
+}
+
+async function assertNameAvailable(organizationId: string, name: string, excludeId?: string): Promise<void> {
+  const existing = await prisma.scoringModel.findFirst({
+    where: { organizationId, name, ...(excludeId && { id: { not: excludeId } }) },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new AppError(`A scoring model named "${name}" already exists`, 409);
+  }
+}
+
+function recomputeInBackground(organizationId: string, modelId: string): void {
+  enqueueModelScoreComputation(organizationId, modelId).catch((err) =>
+    logger.error('Failed to enqueue scoring model recompute', { organizationId, modelId, err }),
+  );
+}
+
+/**
+ * 1-based ranks by descending score; tied scores share their average rank.
+ */
+function rankDescending(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => b.value - a.value);
+  const ranks = new Array<number>(values.length);
+
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = averageRank;
+    i = j + 1;
+  }
+
+  return ranks;
+}
+
+/**
+ * Spearman's rho: Pearson correlation of the two rank vectors (tie-safe).
+ * Returns null when there are fewer than two pairs or no variance.
+ */
+function spearmanCorrelation(ranksA: number[], ranksB: number[]): number | null {
+  const n = ranksA.length;
+  if (n < 2) return null;
+
+  const meanA = ranksA.reduce((sum, r) => sum + r, 0) / n;
+  const meanB = ranksB.reduce((sum, r) => sum + r, 0) / n;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = ranksA[i] - meanA;
+    const db = ranksB[i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+
+  if (varianceA === 0 || varianceB === 0) return null;
+  return Math.round((covariance / Math.sqrt(varianceA * varianceB)) * 1000) / 1000;
+}
+
+// ---------------------------------------------------------------------------
+// CRUD
+// ---------------------------------------------------------------------------
+
+/**
+ * List the org's scoring models, primary first.
+ */
+export async function listScoringModels(organizationId: string) {
+  await ensurePrimaryModel(organizationId);
+
+  return prisma.scoringModel.findMany({
+    where: { organizationId },
+    orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+    include: { _count: { select: { scores: true } } },
+  });
+}
+
+export async function getScoringModel(organizationId: string, modelId: string): Promise<ScoringModel> {
+  return findModelOrThrow(organizationId, modelId);
+}
+
+/**
+ * Create a non-primary model and score it in the background.
+ */
+export async function createScoringModel(
+  organizationId: string,
+  input: CreateScoringModelInput,
+): Promise<ScoringModel> {
+  await ensurePrimaryModel(organizationId);
+  await assertNameAvailable(organizationId, input.name);
+
+  let config = input.config;
+  if (!config && input.copyFromModelId) {
+    const source = await findModelOrThrow(organizationId, input.copyFromModelId);
+    config = source.config as unknown as ScoringConfig;
+  }
+  config = config ?? (await getScoringConfig(organizationId));
+  validateScoringConfig(config);
+
+  const model = await prisma.scoringModel.create({
+    data: {
+      organizationId,
+      name: input.name,
+      description: input.description ?? null,
+      config: config as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info('Scoring model created', { organizationId, modelId: model.id, name: model.name });
+  recomputeInBackground(organizationId, model.id);
+
+  return model;
+}
+
+/**
+ * Update a model. Config changes to the primary model go through
+ * updateScoringConfig so org settings stay the source for live tiers; that
+ * also queues the primary's recompute. A changed config marks the model's
+ * stored scores stale until the recompute finishes.
+ */
+export async function updateScoringModel(
+  organizationId: string,
+  modelId: string,
+  input: UpdateScoringModelInput,
+): Promise<ScoringModel> {
+  const model = await findModelOrThrow(organizationId, modelId);
+
+  if (input.name !== undefined && input.name !== model.name) {
+    await assertNameAvailable(organizationId, input.name, model.id);
+  }
+
+  let config = input.config;
+  if (config) {
+    if (model.isPrimary) {
+      config = await updateScoringConfig(organizationId, config);
+    } else {
+      validateScoringConfig(config);
+    }
+  }
+
+  const updated = await prisma.scoringModel.update({
+    where: { id: model.id },
+    data: {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(config && { config: config as unknown as Prisma.InputJsonValue, lastComputedAt: null }),
+    },
+  });
+
+  if (config && !model.isPrimary) {
+    recomputeInBackground(organizationId, model.id);
+  }
+
+  return updated;
+}
+
+export async function deleteScoringModel(organizationId: string, modelId: string): Promise<void> {
+  const model = await findModelOrThrow(organizationId, modelId);
+  if (model.isPrimary) {
+    throw new AppError('Cannot delete the primary scoring model; make another model primary first', 409);
+  }
+
+  await prisma.scoringModel.delete({ where: { id: model.id } });
+  logger.info('Scoring model deleted', { organizationId, modelId });
+}
+
+/**
+ * Make a model primary: its config replaces the org scoring config and all
+ * live account scores (tiers, alerts, webhooks) are recomputed with it.
+ */
+export async function setPrimaryModel(
+  organizationId: string,
+  modelId: string,
+): Promise<{ model: ScoringModel; updated: number }> {
+  const model = await findModelOrThrow(organizationId, modelId);
+  if (model.isPrimary) {
+    return { model, updated: 0 };
+  }
+
+  const [, promoted] = await prisma.$transaction([
+    prisma.scoringModel.updateMany({
+      where: { organizationId, isPrimary: true },
+      data: { isPrimary: false },
+    }),
+    prisma.scoringModel.update({
+      where: { id: model.id },
+      data: { isPrimary: true },
+    }),
+  ]);
+
+  const result = await applyAndRecompute(organizationId, model.config as unknown as ScoringConfig);
+
+  logger.info('Primary scoring model changed', { organizationId, modelId, updated: result.updated });
+
+  return { model: promoted, updated: result.updated };
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+/**
+ * Score every account that has a live AccountScore with the model's config
+ * and store the results as the model's scores.
+ */
+export async function recomputeModelScores(
+  organizationId: string,
+  modelId: string,
+): Promise<{ updated: number }> {
+  const model = await findModelOrThrow(organizationId, modelId);
+  const config = model.config as unknown as ScoringConfig;
+
+  const accounts = await prisma.accountScore.findMany({
+    where: { organizationId },
+    select: { accountId: true },
+  });
+
+  const now = new Date();
+  const scoredIds: string[] = [];
+
+  for (const { accountId } of accounts) {
+    try {
+      const score = await computeScoreForAccount(organizationId, accountId, config);
+      const tier = computeTierWithThresholds(score, config.tierThresholds);
+
+      await prisma.scoringModelScore.upsert({
+        where: { modelId_accountId: { modelId, accountId } },
+        create: { organizationId, modelId, accountId, score, tier, computedAt: now },
+        update: { score, tier, computedAt: now },
+      });
+      scoredIds.push(accountId);
+    } catch (err) {
+      logger.error('Failed to compute model score for account', { modelId, accountId, err });
+    }
+  }
+
+  // Drop scores for accounts that no longer have a live score
+  await prisma.scoringModelScore.deleteMany({
+    where: { modelId, accountId: { notIn: scoredIds } },
+  });
+  await prisma.scoringModel.update({
+    where: { id: modelId },
+    data: { lastComputedAt: now },
+  });
+
+  logger.info('Scoring model recomputed', { organizationId, modelId, updated: scoredIds.length });
+
+  return { updated: scoredIds.length };
+}
+
+/**
+ * Re-score a single account with every model, e.g. after a company merge
+ * moved another account's signals onto it.
+ */
+export async function recomputeAccountModelScores(organizationId: string, accountId: string): Promise<void> {
+  const models = await prisma.scoringModel.findMany({ where: { organizationId } });
+  const now = new Date();
+
+  for (const model of models) {
+    const config = model.config as unknown as ScoringConfig;
+    const score = await computeScoreForAccount(organizationId, accountId, config);
+    const tier = computeTierWithThresholds(score, config.tierThresholds);
+
+    await prisma.scoringModelScore.upsert({
+      where: { modelId_accountId: { modelId: model.id, accountId } },
+      create: { organizationId, modelId: model.id, accountId, score, tier, computedAt: now },
+      update: { score, tier, computedAt: now },
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// A/B comparison
+// ---------------------------------------------------------------------------
+
+/**
+ * Compare two models over the accounts both have scored: Spearman rank
+ * correlation, tier agreement matrix and the accounts they tier differently.
+ * Models whose scores are stale (never computed, or config changed since)
+ * are recomputed first so the comparison reflects their current configs.
+ */
+export async function compareScoringModels(
+  organizationId: string,
+  modelAId: string,
+  modelBId: string,
+): Promise<ModelComparison> {
+  if (modelAId === modelBId) {
+    throw new AppError('Choose two different scoring models to compare', 400);
+  }
+
+  let [modelA, modelB] = await Promise.all([
+    findModelOrThrow(organizationId, modelAId),
+    findModelOrThrow(organizationId, modelBId),
+  ]);
+
+  if (!modelA.lastComputedAt) {
+    await recomputeModelScores(organizationId, modelA.id);
+    modelA = await findModelOrThrow(organizationId, modelA.id);
+  }
+  if (!modelB.lastComputedAt) {
+    await recomputeModelScores(organizationId, modelB.id);
+    modelB = await findModelOrThrow(organizationId, modelB.id);
+  }
+
+  const [scoresA, scoresB] = await Promise.all([
+    prisma.scoringModelScore.findMany({
+      where: { modelId: modelA.id },
+      select: { accountId: true, score: true, tier: true, account: { select: { name: true } } },
+    }),
+    prisma.scoringModelScore.findMany({
+      where: { modelId: modelB.id },
+      select: { accountId: true, score: true, tier: true },
+    }),
+  ]);
+
+  for (const [model, scores] of [[modelA, scoresA], [modelB, scoresB]] as const) {
+    if (scores.length === 0) {
+      throw new AppError(`Scoring model "${model.name}" has no scored accounts to compare`, 409);
+    }
+  }
+
+  const byAccountB = new Map(scoresB.map((s) => [s.accountId, s]));
+  const pairs = scoresA
+    .filter((a) => byAccountB.has(a.accountId))
+    .map((a) => ({ a, b: byAccountB.get(a.accountId)! }));
+
+  const ranksA = rankDescending(pairs.map((p) => p.a.score));
+  const ranksB = rankDescending(pairs.map((p) => p.b.score));
+
+  const tierMatrix = Object.fromEntries(
+    TIERS.map((tierA) => [tierA, Object.fromEntries(TIERS.map((tierB) => [tierB, 0]))]),
+  ) as Record<ScoreTier, Record<ScoreTier, number>>;
+
+  const disagreements: TierDisagreement[] = [];
+  pairs.forEach(({ a, b }, i) => {
+    tierMatrix[a.tier][b.tier]++;
+    if (a.tier !== b.tier) {
+      disagreements.push({
+        accountId: a.accountId,
+        accountName: a.account?.name || 'Unknown',
+        scoreA: a.score,
+        scoreB: b.score,
+        tierA: a.tier,
+        tierB: b.tier,
+        rankA: ranksA[i],
+        rankB: ranksB[i],
+      });
+    }
+  });
+
+  disagreements.sort((x, y) => Math.abs(y.rankA - y.rankB) - Math.abs(x.rankA - x.rankB));
+
+  const agreeing = pairs.length - disagreements.length;
+
+  return {
+    modelA: { id: modelA.id, name: modelA.name, lastComputedAt: modelA.lastComputedAt },
+    modelB: { id: modelB.id, name: modelB.name, lastComputedAt: modelB.lastComputedAt },
+    accounts: pairs.length,
+    rankCorrelation: spearmanCorrelation(ranksA, ranksB),
+    tierAgreement: pairs.length > 0 ? Math.round((agreeing / pairs.length) * 1000) / 1000 : null,
+    tierMatrix,
+    disagreementCount: disagreements.length,
+    disagreements: disagreements.slice(0, DISAGREEMENT_LIMIT),
+  };
+}
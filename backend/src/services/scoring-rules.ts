@@ -1,16 +1,40 @@
+import vm from 'vm';
 import { Prisma, ScoreTier } from '@prisma/client';
 import { prisma } from '../config/database';
 import { AppError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { ScoreBreakdown, ScoreContribution, TOP_SIGNAL_COUNT, buildScoreBreakdown } from './score-breakdown';
+import { enqueueBulkScoreComputation, enqueueModelScoreComputation } from '../jobs/producers';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+export type ScoringConditionOperator =
+  | 'gt'
+  | 'lt'
+  | 'eq'
+  | 'contains'
+  | 'in'
+  | 'regex'
+  | 'exists'
+  | 'between';
+
+/**
+ * A condition on a scoring rule. Supported fields:
+ * - `signal_count`, `user_count`, `total_signals` — account aggregates
+ * - `metadata.<path>` — JSON path into Signal.metadata; narrows which signals
+ *   the rule counts (e.g. `metadata.package.version`)
+ * - `company.size`, `company.industry`, `company.domain`,
+ *   `company.custom.<fieldName>` — firmographics; gate the whole rule
+ *
+ * `in` takes an array or comma-separated list, `between` a `[min, max]` pair
+ * or `"min,max"` (inclusive), `exists` an optional boolean (default true).
+ */
 export interface ScoringCondition {
   field: string;
-  operator: 'gt' | 'lt' | 'eq' | 'contains';
-  value: string;
+  operator: ScoringConditionOperator;
+  value: string | number | boolean | Array<string | number>;
 }
 
 export interface ScoringRule {
@@ -34,6 +58,30 @@ export interface ScoringConfig {
   rules: ScoringRule[];
   tierThresholds: TierThresholds;
   maxScore: number;
+  /** Per-signal-type decay half-life overrides, in days. */
+  halfLives?: Record<string, number>;
+  /**
+   * Half-life for signal types with neither an override nor a built-in value.
+   * `null` on update clears it back to the built-in default.
+   */
+  defaultHalfLife?: number | null;
+}
+
+export type TierCounts = Record<ScoreTier, number>;
+
+export interface TierImpact {
+  /** Accounts re-scored to build the summary (capped for large orgs). */
+  sampled: number;
+  totalAccounts: number;
+  current: TierCounts;
+  projected: TierCounts;
+  /** Accounts moving between tiers, largest groups first. */
+  transitions: Array<{ from: ScoreTier; to: ScoreTier; count: number }>;
+}
+
+export interface ScorePreview {
+  previews: ScorePreviewEntry[];
+  tierImpact: TierImpact;
 }
 
 export interface ScorePreviewEntry {
@@ -122,6 +170,10 @@ const DEFAULT_TIER_THRESHOLDS: TierThresholds = {
 
 const DEFAULT_MAX_SCORE = 100;
 
+export const MIN_HALF_LIFE_DAYS = 0.5;
+export const MAX_HALF_LIFE_DAYS = 365;
+const MAX_HALF_LIFE_OVERRIDES = 200;
+
 export function getDefaultScoringConfig(): ScoringConfig {
   return {
     rules: DEFAULT_RULES,
@@ -181,6 +233,7 @@ export async function getScoringConfig(organizationId: string): Promise<ScoringC
       rules: stored.rules,
       tierThresholds: stored.tierThresholds,
       maxScore: stored.maxScore ?? DEFAULT_MAX_SCORE,
+      ...pickDecaySettings(stored),
     };
   }
 
@@ -188,9 +241,10 @@ export async function getScoringConfig(organizationId: string): Promise<ScoringC
 }
 
 /**
- * Save custom scoring rules to org settings.
+ * Validate a scoring config: rule weights, tier threshold ordering and
+ * condition values. Throws a 400 AppError on the first problem found.
  */
-export async function updateScoringConfig(organizationId: string, config: ScoringConfig): Promise<ScoringConfig> {
+export function validateScoringConfig(config: ScoringConfig): void {
   // Validate total weight is reasonable
   const enabledRules = config.rules.filter((r) => r.enabled);
   const totalWeight = enabledRules.reduce((sum, r) => sum + r.weight, 0);
@@ -199,6 +253,10 @@ export async function updateScoringConfig(organizationId: string, config: Scorin
     throw new AppError('Total weight of enabled rules must be greater than 0', 400);
   }
 
+  validateScoringConditions(config.rules);
+
+  validateHalfLives(config);
+
   // Validate tier thresholds are ordered: HOT > WARM > COLD
   if (config.tierThresholds.HOT <= config.tierThresholds.WARM) {
     throw new AppError('HOT threshold must be greater than WARM threshold', 400);
@@ -206,17 +264,133 @@ export async function updateScoringConfig(organizationId: string, config: Scorin
   if (config.tierThresholds.WARM <= config.tierThresholds.COLD) {
     throw new AppError('WARM threshold must be greater than COLD threshold', 400);
   }
+}
+
+function isValidHalfLife(days: unknown): boolean {
+  return (
+    typeof days === 'number' &&
+    Number.isFinite(days) &&
+    days >= MIN_HALF_LIFE_DAYS &&
+    days <= MAX_HALF_LIFE_DAYS
+  );
+}
+
+function validateHalfLives(config: ScoringConfig): void {
+  const range = `between ${MIN_HALF_LIFE_DAYS} and ${MAX_HALF_LIFE_DAYS} days`;
+
+  if (config.defaultHalfLife != null && !isValidHalfLife(config.defaultHalfLife)) {
+    throw new AppError(`Default half-life must be ${range}`, 400);
+  }
+  if (!config.halfLives) return;
+
+  const entries = Object.entries(config.halfLives);
+  if (entries.length > MAX_HALF_LIFE_OVERRIDES) {
+    throw new AppError(`At most ${MAX_HALF_LIFE_OVERRIDES} half-life overrides are allowed`, 400);
+  }
+  for (const [signalType, days] of entries) {
+    if (!signalType.trim() || signalType.length > 100) {
+      throw new AppError('Half-life overrides must be keyed by a signal type of 1-100 characters', 400);
+    }
+    if (!isValidHalfLife(days)) {
+      throw new AppError(`Half-life for "${signalType}" must be ${range}`, 400);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Signal decay half-lives
+// ---------------------------------------------------------------------------
+// Overrides live on the scoring config so they travel with scoring models.
+// Changing them re-weights every signal, so affected account and contact
+// scores are recomputed in the background through scoreComputationQueue.
+// ---------------------------------------------------------------------------
+
+function pickDecaySettings(config: Partial<ScoringConfig>): Pick<ScoringConfig, 'halfLives' | 'defaultHalfLife'> {
+  return {
+    ...(config.halfLives && { halfLives: config.halfLives }),
+    ...(config.defaultHalfLife != null && { defaultHalfLife: config.defaultHalfLife }),
+  };
+}
+
+function decaySettingsChanged(a: ScoringConfig, b: ScoringConfig): boolean {
+  if ((a.defaultHalfLife ?? null) !== (b.defaultHalfLife ?? null)) return true;
+
+  const aOverrides = a.halfLives ?? {};
+  const bOverrides = b.halfLives ?? {};
+  const types = new Set([...Object.keys(aOverrides), ...Object.keys(bOverrides)]);
+  for (const type of types) {
+    if (aOverrides[type] !== bOverrides[type]) return true;
+  }
+  return false;
+}
+
+/**
+ * Queue a recompute of every scored account and contact in the org.
+ * Returns the number of jobs queued.
+ */
+async function queueDecayRecompute(organizationId: string): Promise<number> {
+  const [accounts, contacts] = await Promise.all([
+    prisma.accountScore.findMany({ where: { organizationId }, select: { accountId: true } }),
+    prisma.contactScore.findMany({ where: { organizationId }, select: { contactId: true } }),
+  ]);
+
+  const queued = await enqueueBulkScoreComputation(organizationId, {
+    accountIds: accounts.map((a) => a.accountId),
+    contactIds: contacts.map((c) => c.contactId),
+  });
+
+  logger.info('Queued score recompute after half-life change', { organizationId, queued });
+  return queued;
+}
+
+/**
+ * Keep the primary scoring model (if the org has created models) in step
+ * with the config stored in org settings. Its stored scores are marked stale
+ * and recomputed in the background.
+ */
+async function syncPrimaryModelConfig(organizationId: string, config: ScoringConfig): Promise<void> {
+  const primary = await prisma.scoringModel.findFirst({
+    where: { organizationId, isPrimary: true },
+    select: { id: true },
+  });
+  if (!primary) return;
 
+  await prisma.scoringModel.update({
+    where: { id: primary.id },
+    data: { config: config as unknown as Prisma.InputJsonValue, lastComputedAt: null },
+  });
+  await enqueueModelScoreComputation(organizationId, primary.id);
+}
+
+/**
+ * Save custom scoring rules to org settings.
+ */
+export async function updateScoringConfig(organizationId: string, config: ScoringConfig): Promise<ScoringConfig> {
+  validateScoringConfig(config);
+
+  const previous = await getScoringConfig(organizationId);
+
+  // Half-lives are kept when omitted so rule-only clients don't wipe them;
+  // an explicit null default resets it to the built-in half-life
   const normalized: ScoringConfig = {
     rules: config.rules,
     tierThresholds: config.tierThresholds,
     maxScore: config.maxScore ?? DEFAULT_MAX_SCORE,
+    ...pickDecaySettings({
+      halfLives: config.halfLives ?? previous.halfLives,
+      defaultHalfLife: config.defaultHalfLife === undefined ? previous.defaultHalfLife : config.defaultHalfLife,
+    }),
   };
 
   await updateOrgSettings(organizationId, { scoringConfig: normalized });
+  await syncPrimaryModelConfig(organizationId, normalized);
 
   logger.info('Scoring config updated', { organizationId, ruleCount: config.rules.length });
 
+  if (decaySettingsChanged(previous, normalized)) {
+    await queueDecayRecompute(organizationId);
+  }
+
   return normalized;
 }
 
@@ -224,9 +398,15 @@ export async function updateScoringConfig(organizationId: string, config: Scorin
  * Reset scoring config to built-in defaults.
  */
 export async function resetToDefaults(organizationId: string): Promise<ScoringConfig> {
+  const previous = await getScoringConfig(organizationId);
   const defaults = getDefaultScoringConfig();
   await updateOrgSettings(organizationId, { scoringConfig: defaults });
+  await syncPrimaryModelConfig(organizationId, defaults);
   logger.info('Scoring config reset to defaults', { organizationId });
+
+  if (decaySettingsChanged(previous, defaults)) {
+    await queueDecayRecompute(organizationId);
+  }
   return defaults;
 }
 
@@ -241,35 +421,53 @@ export function computeTierWithThresholds(score: number, thresholds: TierThresho
 }
 
 /**
- * Compute a score for a single account using custom rules.
- * Returns the raw numeric score (0 to maxScore).
+ * Signal aggregates and firmographics a scoring config is evaluated against.
+ * Counts may be fractional when signals are decay-weighted (backtests).
  */
-async function computeScoreForAccount(
-  organizationId: string,
-  accountId: string,
-  config: ScoringConfig,
-): Promise<number> {
-  const now = new Date();
-  const enabledRules = config.rules.filter((r) => r.enabled);
-
-  if (enabledRules.length === 0) return 0;
+export interface ScoringInputs {
+  totalSignals: number;
+  recentSignals: number;
+  userCount: number;
+  signalTypeCount: number;
+  signalTypeMap: Map<string, number>;
+  /** Individual signals; only loaded when a rule has metadata conditions. */
+  metadataSignals: { type: string; metadata: Prisma.JsonValue; weight?: number }[];
+  lastSignal: { timestamp: Date } | null;
+  company: {
+    size: string | null;
+    industry: string | null;
+    domain: string | null;
+    customFields: Prisma.JsonValue;
+    contacts: { title: string | null }[];
+  } | null;
+}
 
-  const totalWeight = enabledRules.reduce((sum, r) => sum + r.weight, 0);
-  if (totalWeight === 0) return 0;
+const BUILT_IN_FACTOR_IDS = new Set(DEFAULT_RULES.map((r) => r.id));
 
-  // Precompute time windows
-  const windows: Record<string, Date> = {
-    '7d': new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000),
-    '14d': new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000),
-    '30d': new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000),
-    '90d': new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000),
-  };
+/**
+ * True when some enabled custom rule filters signals by metadata, meaning
+ * scoring needs individual signals rather than counts.
+ */
+export function configNeedsMetadata(config: ScoringConfig): boolean {
+  return config.rules.some(
+    (r) => r.enabled && !BUILT_IN_FACTOR_IDS.has(r.id) && r.conditions.some((c) => isMetadataField(c.field)),
+  );
+}
 
-  // Fetch all signal data we might need
-  const thirtyDaysAgo = windows['30d'];
-  const sevenDaysAgo = windows['7d'];
+/**
+ * Load the signal aggregates and firmographics a config is scored against
+ * (30-day window), plus per-type counts for explaining the score.
+ */
+async function loadScoringInputs(
+  organizationId: string,
+  accountId: string,
+  config: ScoringConfig,
+  now: Date,
+): Promise<{ inputs: ScoringInputs; signalTypes: { type: string; count: number; lastSeenAt: Date | null }[] }> {
+  const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+  const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
 
-  const [totalSignals, recentSignals, uniqueActors, signalsByType, lastSignal, company, signalsBySignalType] =
+  const [totalSignals, recentSignals, uniqueActors, lastSignal, company, signalsBySignalType] =
     await Promise.all([
       prisma.signal.count({
         where: { accountId, organizationId, timestamp: { gte: thirtyDaysAgo } },
@@ -282,11 +480,6 @@ async function computeScoreForAccount(
         distinct: ['actorId'],
         select: { actorId: true },
       }),
-      prisma.signal.groupBy({
-        by: ['type'],
-        where: { accountId, organizationId, timestamp: { gte: thirtyDaysAgo } },
-        _count: true,
-      }),
       prisma.signal.findFirst({
         where: { accountId, organizationId },
         orderBy: { timestamp: 'desc' },
@@ -294,19 +487,133 @@ async function computeScoreForAccount(
       }),
       prisma.company.findFirst({
         where: { id: accountId, organizationId },
-        select: { size: true, industry: true, contacts: { select: { title: true } } },
+        select: {
+          size: true,
+          industry: true,
+          domain: true,
+          customFields: true,
+          contacts: { select: { title: true } },
+        },
       }),
       // For per-signal-type rules: count by type
       prisma.signal.groupBy({
         by: ['type'],
         where: { accountId, organizationId, timestamp: { gte: thirtyDaysAgo } },
         _count: true,
+        _max: { timestamp: true },
       }),
     ]);
 
-  const userCount = uniqueActors.length;
-  const signalTypeCount = signalsByType.length;
-  const signalTypeMap = new Map(signalsBySignalType.map((s) => [s.type, s._count]));
+  // Metadata conditions need the individual signals, not just counts
+  const metadataSignals = configNeedsMetadata(config)
+    ? await prisma.signal.findMany({
+        where: { accountId, organizationId, timestamp: { gte: thirtyDaysAgo } },
+        orderBy: { timestamp: 'desc' },
+        take: METADATA_SIGNAL_SCAN_LIMIT,
+        select: { type: true, metadata: true },
+      })
+    : [];
+
+  return {
+    inputs: {
+      totalSignals,
+      recentSignals,
+      userCount: uniqueActors.length,
+      signalTypeCount: signalsBySignalType.length,
+      signalTypeMap: new Map(signalsBySignalType.map((s) => [s.type, s._count])),
+      metadataSignals,
+      lastSignal,
+      company,
+    },
+    signalTypes: signalsBySignalType.map((s) => ({
+      type: s.type,
+      count: s._count,
+      lastSeenAt: s._max?.timestamp ?? null,
+    })),
+  };
+}
+
+/**
+ * Compute a score for a single account using custom rules.
+ * Returns the raw numeric score (0 to maxScore).
+ */
+export async function computeScoreForAccount(
+  organizationId: string,
+  accountId: string,
+  config: ScoringConfig,
+): Promise<number> {
+  if (!config.rules.some((r) => r.enabled)) return 0;
+
+  const now = new Date();
+  const { inputs } = await loadScoringInputs(organizationId, accountId, config, now);
+  return scoreFromInputs(config, inputs, now);
+}
+
+/**
+ * Score a single account with custom rules and explain the result: points
+ * per rule, decay applied, and the signal types counted.
+ */
+export async function explainScoreForAccount(
+  organizationId: string,
+  accountId: string,
+  config: ScoringConfig,
+): Promise<ScoreBreakdown> {
+  const now = new Date();
+  const { inputs, signalTypes } = await loadScoringInputs(organizationId, accountId, config, now);
+  const { score, contributions } = explainScoreFromInputs(config, inputs, now);
+
+  // Rules decay per rule rather than per signal, so every signal in the
+  // window counts the same and the most recent ones are the top signals.
+  const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+  const topSignals = await prisma.signal.findMany({
+    where: { accountId, organizationId, timestamp: { gte: thirtyDaysAgo } },
+    orderBy: { timestamp: 'desc' },
+    take: TOP_SIGNAL_COUNT,
+    select: { id: true, type: true, timestamp: true, actorId: true },
+  });
+
+  return buildScoreBreakdown(
+    'rules',
+    score,
+    contributions,
+    signalTypes.map((s) => ({ ...s, weightedCount: null })),
+    topSignals.map((s) => ({ ...s, weight: null })),
+  );
+}
+
+/**
+ * Score pre-aggregated inputs with a config, treating `now` as the scoring
+ * time (for recency and decay). Pure — no database access.
+ */
+export function scoreFromInputs(config: ScoringConfig, inputs: ScoringInputs, now: Date): number {
+  return explainScoreFromInputs(config, inputs, now).score;
+}
+
+/**
+ * scoreFromInputs, plus each enabled rule's share of the final score in
+ * points, split into its undecayed value and the part decay took away.
+ */
+export function explainScoreFromInputs(
+  config: ScoringConfig,
+  inputs: ScoringInputs,
+  now: Date,
+): { score: number; contributions: ScoreContribution[] } {
+  const enabledRules = config.rules.filter((r) => r.enabled);
+
+  if (enabledRules.length === 0) return { score: 0, contributions: [] };
+
+  const totalWeight = enabledRules.reduce((sum, r) => sum + r.weight, 0);
+  if (totalWeight === 0) return { score: 0, contributions: [] };
+
+  // Precompute time windows
+  const windows: Record<string, Date> = {
+    '7d': new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000),
+    '14d': new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000),
+    '30d': new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000),
+    '90d': new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000),
+  };
+
+  const { totalSignals, recentSignals, userCount, signalTypeCount, lastSignal, company } = inputs;
 
   // Build a lookup of well-known factor computations
   const factorComputers: Record<string, () => number> = {
@@ -349,6 +656,7 @@ async function computeScoreForAccount(
 
   // Evaluate each enabled rule
   let weightedSum = 0;
+  const contributions: ScoreContribution[] = [];
 
   for (const rule of enabledRules) {
     let rawScore = 0;
@@ -358,17 +666,7 @@ async function computeScoreForAccount(
       rawScore = factorComputers[rule.id]();
     } else {
       // Custom rule: compute based on signal type matching and conditions
-      rawScore = computeCustomRuleScore(rule, {
-        totalSignals,
-        recentSignals,
-        userCount,
-        signalTypeCount,
-        signalTypeMap,
-        lastSignal,
-        company,
-        now,
-        windows,
-      });
+      rawScore = computeCustomRuleScore(rule, { ...inputs, now, windows });
     }
 
     // Apply time decay
@@ -378,6 +676,18 @@ async function computeScoreForAccount(
     // We cap rawScore at 100 as a generic maximum for custom rules
     const normalizedScore = Math.min(rawScore, 100);
     weightedSum += (normalizedScore / 100) * rule.weight * decayMultiplier;
+
+    const points = (normalizedScore / 100) * (rule.weight / totalWeight) * config.maxScore;
+    contributions.push({
+      id: rule.id,
+      label: rule.name,
+      kind: BUILT_IN_FACTOR_IDS.has(rule.id) ? 'factor' : 'rule',
+      points,
+      decay: decayMultiplier < 1 ? -points * (1 - decayMultiplier) : 0,
+      description:
+        `Raw ${Math.round(normalizedScore)}/100 at weight ${rule.weight}` +
+        (decayMultiplier < 1 ? `, ${Math.round(decayMultiplier * 100)}% kept after ${rule.decay} decay` : ''),
+    });
   }
 
   // Scale to maxScore
@@ -386,17 +696,10 @@ async function computeScoreForAccount(
     config.maxScore,
   );
 
-  return Math.max(0, finalScore);
+  return { score: Math.max(0, finalScore), contributions };
 }
 
-interface SignalContext {
-  totalSignals: number;
-  recentSignals: number;
-  userCount: number;
-  signalTypeCount: number;
-  signalTypeMap: Map<string, number>;
-  lastSignal: { timestamp: Date } | null;
-  company: { size: string | null; industry: string | null; contacts: { title: string | null }[] } | null;
+interface SignalContext extends ScoringInputs {
   now: Date;
   windows: Record<string, Date>;
 }
@@ -404,20 +707,36 @@ interface SignalContext {
 /**
  * Compute score for a custom (user-defined) rule.
  * For signal-type-specific rules, use the signal count for that type.
- * For wildcard rules, use total signal volume.
+ * For wildcard rules, use total signal volume. Metadata conditions narrow
+ * the count to signals whose metadata matches.
  */
 function computeCustomRuleScore(rule: ScoringRule, ctx: SignalContext): number {
+  const metadataConditions = rule.conditions.filter((c) => isMetadataField(c.field));
+  const accountConditions = rule.conditions.filter((c) => !isMetadataField(c.field));
+
   let signalCount: number;
 
-  if (rule.signalType === '*') {
+  if (metadataConditions.length > 0) {
+    signalCount = ctx.metadataSignals
+      .filter(
+        (signal) =>
+          (rule.signalType === '*' || signal.type === rule.signalType) &&
+          metadataConditions.every((cond) =>
+            matchesScoringCondition(cond, getPath(signal.metadata, cond.field.slice('metadata.'.length))),
+          ),
+      )
+      .reduce((sum, signal) => sum + (signal.weight ?? 1), 0);
+  } else if (rule.signalType === '*') {
     signalCount = ctx.totalSignals;
   } else {
     signalCount = ctx.signalTypeMap.get(rule.signalType) || 0;
   }
 
   // Evaluate conditions — if any condition fails, score is 0
-  for (const cond of rule.conditions) {
-    if (!evaluateCondition(cond, { signalCount, ...ctx })) {
+  for (const cond of accountConditions) {
+    const value = resolveAccountField(cond.field, { signalCount, ...ctx });
+    if (value === UNKNOWN_FIELD) continue; // Unknown field — pass condition by default
+    if (!matchesScoringCondition(cond, value)) {
       return 0;
     }
   }
@@ -428,27 +747,185 @@ function computeCustomRuleScore(rule: ScoringRule, ctx: SignalContext): number {
   return logScore;
 }
 
-function evaluateCondition(
-  cond: ScoringCondition,
-  ctx: { signalCount: number; userCount: number; totalSignals: number },
-): boolean {
-  // Supported fields: signal_count, user_count
-  let fieldValue: number | string;
+// ---------------------------------------------------------------------------
+// Condition evaluation
+// ---------------------------------------------------------------------------
+
+const UNKNOWN_FIELD = Symbol('unknown-field');
+
+/** Max signals scanned per account when evaluating metadata conditions. */
+const METADATA_SIGNAL_SCAN_LIMIT = 5000;
+
+const MAX_REGEX_LENGTH = 200;
+
+/** Longest field value tested against a regex condition; the rest is ignored. */
+const MAX_REGEX_INPUT_LENGTH = 1000;
+
+function isMetadataField(field: string): boolean {
+  return field.startsWith('metadata.');
+}
+
+function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, key) => {
+    if (current === null || current === undefined || typeof current !== 'object') return undefined;
+    return (current as Record<string, unknown>)[key];
+  }, source);
+}
 
-  switch (cond.field) {
+function resolveAccountField(
+  field: string,
+  ctx: Pick<SignalContext, 'userCount' | 'totalSignals' | 'company'> & { signalCount: number },
+): unknown {
+  switch (field) {
     case 'signal_count':
-      fieldValue = ctx.signalCount;
-      break;
+      return ctx.signalCount;
     case 'user_count':
-      fieldValue = ctx.userCount;
-      break;
+      return ctx.userCount;
     case 'total_signals':
-      fieldValue = ctx.totalSignals;
-      break;
-    default:
-      // Unknown field — pass condition by default
-      return true;
+      return ctx.totalSignals;
+    case 'company.size':
+      return ctx.company?.size ?? null;
+    case 'company.industry':
+      return ctx.company?.industry ?? null;
+    case 'company.domain':
+      return ctx.company?.domain ?? null;
+  }
+
+  if (field.startsWith('company.custom.')) {
+    return getPath(ctx.company?.customFields, field.slice('company.custom.'.length));
+  }
+
+  return UNKNOWN_FIELD;
+}
+
+function toList(value: ScoringCondition['value']): string[] {
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return items.map((item) => String(item).trim()).filter((item) => item !== '');
+}
+
+function toRange(value: ScoringCondition['value']): [number, number] | null {
+  const parts = toList(value).map(Number);
+  if (parts.length !== 2 || parts.some((n) => isNaN(n))) return null;
+  return [Math.min(parts[0], parts[1]), Math.max(parts[0], parts[1])];
+}
+
+/**
+ * Finds the repetition shapes that backtrack exponentially on input that
+ * almost matches: a quantified group that itself contains a quantifier,
+ * such as `(a+)+` or `((\w*)x)*`, or alternation, such as `(\w|\d)+` or
+ * `(a|a)+`. Returns why the pattern is unsafe, or null.
+ */
+function unsafeRepetition(pattern: string): string | null {
+  // One entry per open group: whether anything inside it is quantified or alternates
+  const groups: Array<{ quantified: boolean; alternation: boolean }> = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\') {
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (ch === ']') inClass = false;
+      continue;
+    }
+
+    const current = groups[groups.length - 1];
+    // `?` straight after `(` opens a group modifier such as `(?:`, not a quantifier
+    const quantifier =
+      ch === '*' || ch === '+' || (ch === '?' && pattern[i - 1] !== '(') || /^\{\d/.test(pattern.slice(i, i + 2));
+    if (ch === '[') {
+      inClass = true;
+    } else if (ch === '(') {
+      groups.push({ quantified: false, alternation: false });
+    } else if (ch === '|') {
+      if (current) current.alternation = true;
+    } else if (ch === ')') {
+      const inner = groups.pop() ?? { quantified: false, alternation: false };
+      const outerQuantified = /^[*+]|^\{\d/.test(pattern.slice(i + 1, i + 3));
+      if (outerQuantified && inner.quantified) return 'regex must not nest quantifiers, e.g. (a+)+';
+      if (outerQuantified && inner.alternation) {
+        return 'regex must not repeat a group with alternatives, e.g. (a|b)+; use a character class such as [ab]+';
+      }
+      const parent = groups[groups.length - 1];
+      if (parent) {
+        parent.quantified ||= inner.quantified || outerQuantified;
+        parent.alternation ||= inner.alternation;
+      }
+    } else if (quantifier && current) {
+      current.quantified = true;
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns why a regex condition is unsafe or unusable, or null when it can
+ * be evaluated.
+ */
+export function regexPatternError(pattern: string): string | null {
+  if (pattern.length > MAX_REGEX_LENGTH) return `regex must be at most ${MAX_REGEX_LENGTH} characters`;
+  try {
+    new RegExp(pattern);
+  } catch {
+    return 'invalid regex';
+  }
+  return unsafeRepetition(pattern);
+}
+
+const regexCache = new Map<string, RegExp | null>();
+
+function toRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    const compiled = regexPatternError(pattern) === null ? new RegExp(pattern, 'i') : null;
+    if (regexCache.size > 500) regexCache.clear();
+    regexCache.set(pattern, compiled);
+  }
+  return regexCache.get(pattern) ?? null;
+}
+
+const regexSandbox = vm.createContext({ regex: null, input: '' });
+const regexTestScript = new vm.Script('regex.test(input)');
+
+/**
+ * Tests a regex condition with a hard time limit, for paths shared by every
+ * tenant such as signal ingestion. Running out of time counts as no match.
+ */
+export function matchesRegexWithin(pattern: string, value: string, timeoutMs: number): boolean {
+  const regex = toRegex(pattern);
+  if (regex === null || timeoutMs < 1) return false;
+
+  regexSandbox.regex = regex;
+  regexSandbox.input = value.slice(0, MAX_REGEX_INPUT_LENGTH);
+  try {
+    return regexTestScript.runInContext(regexSandbox, { timeout: Math.floor(timeoutMs) }) === true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ERR_SCRIPT_EXECUTION_TIMEOUT') throw error;
+    logger.warn('Regex condition timed out', { pattern, timeoutMs });
+    return false;
+  } finally {
+    regexSandbox.input = '';
+  }
+}
+
+/**
+ * Tests a resolved field value against a condition. Array values (e.g.
+ * metadata tags) match when any element matches, except for `exists`.
+ */
+export function matchesScoringCondition(cond: ScoringCondition, fieldValue: unknown): boolean {
+  const missing = fieldValue === undefined || fieldValue === null || fieldValue === '';
+
+  if (cond.operator === 'exists') {
+    const expected = cond.value === '' || !['false', '0', 'no'].includes(String(cond.value).toLowerCase());
+    return expected ? !missing : missing;
   }
+  if (missing) return false;
+
+  if (Array.isArray(fieldValue)) {
+    return fieldValue.some((item) => matchesScoringCondition(cond, item));
+  }
+  if (typeof fieldValue === 'object') return false;
 
   const condValue = typeof cond.value === 'string' ? parseFloat(cond.value) : Number(cond.value);
 
@@ -461,11 +938,50 @@ function evaluateCondition(
       return String(fieldValue) === String(cond.value);
     case 'contains':
       return String(fieldValue).toLowerCase().includes(String(cond.value).toLowerCase());
+    case 'in': {
+      const needle = String(fieldValue).toLowerCase();
+      return toList(cond.value).some((item) => item.toLowerCase() === needle);
+    }
+    case 'regex': {
+      const regex = toRegex(String(cond.value));
+      return regex !== null && regex.test(String(fieldValue).slice(0, MAX_REGEX_INPUT_LENGTH));
+    }
+    case 'between': {
+      const range = toRange(cond.value);
+      const num = Number(fieldValue);
+      return range !== null && !isNaN(num) && num >= range[0] && num <= range[1];
+    }
     default:
       return true;
   }
 }
 
+/**
+ * Rejects conditions whose values can never match: bad regexes, malformed
+ * ranges, empty lists and bare `metadata.` / `company.custom.` paths.
+ */
+function validateScoringConditions(rules: ScoringRule[]): void {
+  for (const rule of rules) {
+    for (const cond of rule.conditions) {
+      const where = `Rule "${rule.name}" condition on "${cond.field}"`;
+
+      if (cond.field === 'metadata.' || cond.field === 'company.custom.') {
+        throw new AppError(`${where}: field path is empty`, 400);
+      }
+      if (cond.operator === 'regex') {
+        const error = regexPatternError(String(cond.value));
+        if (error) throw new AppError(`${where}: ${error}`, 400);
+      }
+      if (cond.operator === 'between' && !toRange(cond.value)) {
+        throw new AppError(`${where}: between expects two numbers (min,max)`, 400);
+      }
+      if (cond.operator === 'in' && toList(cond.value).length === 0) {
+        throw new AppError(`${where}: in expects at least one value`, 400);
+      }
+    }
+  }
+}
+
 function getDecayMultiplier(decay: ScoringRule['decay'], lastSignalAt: Date | null, now: Date): number {
   if (decay === 'none' || !lastSignalAt) return 1.0;
 
@@ -489,52 +1005,141 @@ function getDecayMultiplier(decay: ScoringRule['decay'], lastSignalAt: Date | nu
 // Preview: dry-run scoring with proposed rules
 // ---------------------------------------------------------------------------
 
+/** Accounts re-scored when summarizing projected tier movement. */
+const PREVIEW_IMPACT_SAMPLE = 200;
+
+const PREVIEW_TOP_ACCOUNTS = 10;
+
+const previewScoreInclude = {
+  account: { select: { id: true, name: true, domain: true } },
+} satisfies Prisma.AccountScoreInclude;
+
+type PreviewAccountScore = Prisma.AccountScoreGetPayload<{ include: typeof previewScoreInclude }>;
+
+function emptyTierCounts(): TierCounts {
+  return { HOT: 0, WARM: 0, COLD: 0, INACTIVE: 0 };
+}
+
+/**
+ * Draws about PREVIEW_IMPACT_SAMPLE account scores, split across tiers in
+ * proportion to their size. Each tier contributes a window starting at a
+ * random offset, so the sample is not skewed towards the highest scores.
+ */
+async function sampleAccountScores(organizationId: string, totalAccounts: number): Promise<PreviewAccountScore[]> {
+  const tiers = await prisma.accountScore.groupBy({
+    by: ['tier'],
+    where: { organizationId },
+    _count: { _all: true },
+  });
+
+  const batches = await Promise.all(
+    tiers.map(({ tier, _count }) => {
+      const take = Math.max(1, Math.round((PREVIEW_IMPACT_SAMPLE * _count._all) / totalAccounts));
+      const skip = Math.floor(Math.random() * Math.max(0, _count._all - take + 1));
+      return prisma.accountScore.findMany({
+        where: { organizationId, tier },
+        orderBy: { accountId: 'asc' },
+        skip,
+        take,
+        include: previewScoreInclude,
+      });
+    }),
+  );
+  return batches.flat();
+}
+
 /**
- * Preview how proposed scoring config would affect top accounts.
- * Returns up to 10 accounts with current vs projected scores.
+ * Preview how proposed scoring config would affect accounts.
+ * Returns the top 10 accounts with current vs projected scores, plus a
+ * projected tier distribution over every account, or over a tier-stratified
+ * random sample of 200 for larger orgs.
  */
 export async function previewScores(
   organizationId: string,
   proposedConfig: ScoringConfig,
-): Promise<ScorePreviewEntry[]> {
-  // Get current top accounts (existing scores)
-  const existingScores = await prisma.accountScore.findMany({
-    where: { organizationId },
-    orderBy: { score: 'desc' },
-    take: 10,
-    include: {
-      account: { select: { id: true, name: true, domain: true } },
-    },
-  });
+): Promise<ScorePreview> {
+  validateScoringConditions(proposedConfig.rules);
+
+  const totalAccounts = await prisma.accountScore.count({ where: { organizationId } });
+
+  let topScores: PreviewAccountScore[];
+  let sampledScores: PreviewAccountScore[];
+  if (totalAccounts <= PREVIEW_IMPACT_SAMPLE) {
+    topScores = sampledScores = await prisma.accountScore.findMany({
+      where: { organizationId },
+      orderBy: { score: 'desc' },
+      include: previewScoreInclude,
+    });
+  } else {
+    [topScores, sampledScores] = await Promise.all([
+      prisma.accountScore.findMany({
+        where: { organizationId },
+        orderBy: { score: 'desc' },
+        take: PREVIEW_TOP_ACCOUNTS,
+        include: previewScoreInclude,
+      }),
+      sampleAccountScores(organizationId, totalAccounts),
+    ]);
+  }
+
+  const tierImpact: TierImpact = {
+    sampled: sampledScores.length,
+    totalAccounts,
+    current: emptyTierCounts(),
+    projected: emptyTierCounts(),
+    transitions: [],
+  };
 
-  if (existingScores.length === 0) {
-    return [];
+  if (sampledScores.length === 0) {
+    return { previews: [], tierImpact };
   }
 
-  // Compute projected scores for each account using proposed config
-  const previews: ScorePreviewEntry[] = [];
+  // Compute projected scores once per account using proposed config
+  const projectedScores = new Map<string, number>();
+  const project = async (accountId: string): Promise<number> => {
+    let score = projectedScores.get(accountId);
+    if (score === undefined) {
+      score = await computeScoreForAccount(organizationId, accountId, proposedConfig);
+      projectedScores.set(accountId, score);
+    }
+    return score;
+  };
 
-  for (const existing of existingScores) {
-    const accountId = existing.accountId;
-    const projectedScore = await computeScoreForAccount(organizationId, accountId, proposedConfig);
-    const projectedTier = computeTierWithThresholds(projectedScore, proposedConfig.tierThresholds);
+  const transitions = new Map<string, { from: ScoreTier; to: ScoreTier; count: number }>();
+  for (const existing of sampledScores) {
+    const projectedTier = computeTierWithThresholds(await project(existing.accountId), proposedConfig.tierThresholds);
+
+    tierImpact.current[existing.tier]++;
+    tierImpact.projected[projectedTier]++;
+    if (projectedTier !== existing.tier) {
+      const key = `${existing.tier}:${projectedTier}`;
+      const transition = transitions.get(key) ?? { from: existing.tier, to: projectedTier, count: 0 };
+      transition.count++;
+      transitions.set(key, transition);
+    }
+  }
 
+  const previews: ScorePreviewEntry[] = [];
+  for (const existing of topScores.slice(0, PREVIEW_TOP_ACCOUNTS)) {
+    const projectedScore = await project(existing.accountId);
     previews.push({
-      accountId,
+      accountId: existing.accountId,
       accountName: existing.account?.name || 'Unknown',
       domain: existing.account?.domain || null,
       currentScore: existing.score,
       currentTier: existing.tier,
       projectedScore,
-      projectedTier,
+      projectedTier: computeTierWithThresholds(projectedScore, proposedConfig.tierThresholds),
       delta: projectedScore - existing.score,
     });
   }
 
+  tierImpact.transitions = [...transitions.values()].sort((a, b) => b.count - a.count);
+
   // Sort by absolute delta (biggest changes first)
   previews.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
 
-  return previews;
+  return { previews, tierImpact };
 }
 
 // ---------------------------------------------------------------------------
@@ -561,7 +1166,8 @@ export async function applyAndRecompute(
 
   for (const account of accounts) {
     try {
-      const newScore = await computeScoreForAccount(organizationId, account.accountId, savedConfig);
+      const breakdown = await explainScoreForAccount(organizationId, account.accountId, savedConfig);
+      const newScore = breakdown.score;
       const newTier = computeTierWithThresholds(newScore, savedConfig.tierThresholds);
 
       const trend =
@@ -577,6 +1183,7 @@ export async function applyAndRecompute(
           score: newScore,
           tier: newTier,
           trend,
+          breakdown: breakdown as unknown as Prisma.InputJsonValue,
           computedAt: new Date(),
         },
       });
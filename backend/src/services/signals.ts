@@ -5,6 +5,7 @@ import { resolveSignalIdentity, autoMergeIfHighConfidence } from './identity-res
 import { fireSignalCreated } from './webhook-events';
 import { logger } from '../utils/logger';
 import { generateDeduplicationKey } from '../utils/deduplication';
+import { runIngestionRules } from './ingestion-rules';
 
 /** 24-hour deduplication window */
 const DEDUP_WINDOW_MS = 24 * 60 * 60 * 1000;
@@ -33,22 +34,37 @@ export interface SignalFilters {
   limit?: number;
 }
 
-export const ingestSignal = async (organizationId: string, data: SignalInput) => {
+/** Returned instead of a signal when an ingestion rule dropped it. */
+export interface DroppedSignal {
+  dropped: true;
+  droppedBy: { id: string; name: string };
+}
+
+export const ingestSignal = async (organizationId: string, input: SignalInput) => {
   // Look up the source type for dedup key generation
   const source = await prisma.signalSource.findUnique({
-    where: { id: data.sourceId },
+    where: { id: input.sourceId },
     select: { type: true },
   });
 
   if (!source) {
     throw Object.assign(
-      new Error(`Signal source '${data.sourceId}' not found. Create a signal source first via POST /api/v1/signal-sources, or use the SDK.`),
+      new Error(`Signal source '${input.sourceId}' not found. Create a signal source first via POST /api/v1/signal-sources, or use the SDK.`),
       { statusCode: 400 },
     );
   }
 
   const sourceType = source.type;
 
+  // Org ingestion rules may drop the signal or rewrite it before storage
+  const [outcome] = await runIngestionRules(organizationId, [{ signal: input, sourceType }]);
+  if (!outcome.signal) {
+    logger.info(`Signal dropped by ingestion rule: ruleId=${outcome.droppedBy?.id} type=${input.type}`);
+    const dropped: DroppedSignal = { dropped: true, droppedBy: outcome.droppedBy! };
+    return dropped;
+  }
+  const data = outcome.signal;
+
   // Generate deduplication key
   const dedupKey = generateDeduplicationKey(
     sourceType,
@@ -74,7 +90,7 @@ export const ingestSignal = async (organizationId: string, data: SignalInput) =>
 
   if (existing) {
     logger.info(`Signal deduplicated: key=${dedupKey} existingId=${existing.id}`);
-    return { ...existing, deduplicated: true };
+    return { ...existing, deduplicated: true, dropped: false as const };
   }
 
   // Run identity resolution engine for comprehensive actor/account matching
@@ -123,20 +139,44 @@ export const ingestSignal = async (organizationId: string, data: SignalInput) =>
     }).catch((err) => logger.error('Auto-merge error (non-blocking):', err));
   }
 
-  return { ...signal, deduplicated: false };
+  return { ...signal, deduplicated: false, dropped: false as const };
 };
 
-export const ingestSignalBatch = async (organizationId: string, signals: SignalInput[]) => {
-  const results: { success: boolean; signal?: unknown; error?: string; input?: SignalInput; deduplicated?: boolean }[] = [];
+export const ingestSignalBatch = async (organizationId: string, inputs: SignalInput[]) => {
+  const results: {
+    success: boolean;
+    signal?: unknown;
+    error?: string;
+    input?: SignalInput;
+    deduplicated?: boolean;
+    dropped?: boolean;
+    droppedBy?: DroppedSignal['droppedBy'];
+  }[] = [];
 
   // Pre-fetch source types for all unique sourceIds in the batch
-  const uniqueSourceIds = [...new Set(signals.map((s) => s.sourceId))];
+  const uniqueSourceIds = [...new Set(inputs.map((s) => s.sourceId))];
   const sources = await prisma.signalSource.findMany({
     where: { id: { in: uniqueSourceIds } },
     select: { id: true, type: true },
   });
   const sourceTypeMap = new Map(sources.map((s) => [s.id, s.type]));
 
+  // Apply org ingestion rules; dropped signals are reported but not stored
+  const outcomes = await runIngestionRules(
+    organizationId,
+    inputs.map((signal) => ({ signal, sourceType: sourceTypeMap.get(signal.sourceId) })),
+  );
+  const signals: SignalInput[] = [];
+  const batchIndexes: number[] = [];
+  outcomes.forEach((outcome, i) => {
+    if (outcome.signal) {
+      signals.push(outcome.signal);
+      batchIndexes.push(i);
+    } else {
+      results[i] = { success: true, dropped: true, droppedBy: outcome.droppedBy! };
+    }
+  });
+
   const windowStart = new Date(Date.now() - DEDUP_WINDOW_MS);
 
   // Generate dedup keys for the whole batch
@@ -168,9 +208,9 @@ export const ingestSignalBatch = async (organizationId: string, signals: SignalI
     const dup = existingByKey.get(dedupKeys[i]);
     if (dup) {
       logger.info(`Batch signal deduplicated: key=${dedupKeys[i]} existingId=${dup.id}`);
-      results[i] = { success: true, signal: dup, deduplicated: true };
+      results[batchIndexes[i]] = { success: true, signal: dup, deduplicated: true };
     } else {
-      newSignals.push({ idx: i, data: signals[i], dedupKey: dedupKeys[i] });
+      newSignals.push({ idx: batchIndexes[i], data: signals[i], dedupKey: dedupKeys[i] });
     }
   }
 
@@ -0,0 +1,146 @@
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors';
+
+export type TaggableEntity = 'company' | 'contact' | 'deal';
+
+export interface TagInput {
+  name: string;
+  color?: string | null;
+}
+
+const TAGGABLE_LABELS: Record<TaggableEntity, string> = {
+  company: 'Company',
+  contact: 'Contact',
+  deal: 'Deal',
+};
+
+/** Throws 404 unless the company, contact or deal exists in the organization. */
+async function assertEntityExists(organizationId: string, entityType: TaggableEntity, entityId: string) {
+  const where = { id: entityId, organizationId };
+  const existing =
+    entityType === 'company'
+      ? await prisma.company.findFirst({ where, select: { id: true } })
+      : entityType === 'contact'
+        ? await prisma.contact.findFirst({ where, select: { id: true } })
+        : await prisma.deal.findFirst({ where, select: { id: true } });
+
+  if (!existing) throw new AppError(`${TAGGABLE_LABELS[entityType]} not found`, 404);
+}
+
+export const getTags = async (organizationId: string) => {
+  return prisma.tag.findMany({
+    where: { organizationId },
+    orderBy: { name: 'asc' },
+  });
+};
+
+export const createTag = async (organizationId: string, data: TagInput) => {
+  const existing = await prisma.tag.findUnique({
+    where: { organizationId_name: { organizationId, name: data.name } },
+  });
+  if (existing) throw new AppError(`Tag "${data.name}" already exists`, 409);
+
+  return prisma.tag.create({
+    data: {
+      name: data.name,
+      color: data.color ?? null,
+      organization: { connect: { id: organizationId } },
+    },
+  });
+};
+
+export const updateTag = async (id: string, organizationId: string, data: Partial<TagInput>) => {
+  const existing = await prisma.tag.findFirst({ where: { id, organizationId } });
+  if (!existing) throw new AppError('Tag not found', 404);
+
+  if (data.name && data.name !== existing.name) {
+    const clash = await prisma.tag.findUnique({
+      where: { organizationId_name: { organizationId, name: data.name } },
+    });
+    if (clash) throw new AppError(`Tag "${data.name}" already exists`, 409);
+  }
+
+  return prisma.tag.update({
+    where: { id },
+    data: {
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.color !== undefined && { color: data.color }),
+    },
+  });
+};
+
+export const deleteTag = async (id: string, organizationId: string) => {
+  const existing = await prisma.tag.findFirst({ where: { id, organizationId } });
+  if (!existing) throw new AppError('Tag not found', 404);
+  return prisma.tag.delete({
+    where: { id },
+  });
+};
+
+/**
+ * Attaches a tag to a company, contact or deal, creating the tag by name if
+ * it does not exist yet. Tagging an entity twice is a no-op.
+ */
+export const tagEntity = async (
+  organizationId: string,
+  entityType: TaggableEntity,
+  entityId: string,
+  data: TagInput,
+) => {
+  await assertEntityExists(organizationId, entityType, entityId);
+
+  const tag = await prisma.tag.upsert({
+    where: { organizationId_name: { organizationId, name: data.name } },
+    create: {
+      name: data.name,
+      color: data.color ?? null,
+      organization: { connect: { id: organizationId } },
+    },
+    update: data.color !== undefined ? { color: data.color } : {},
+  });
+
+  if (entityType === 'company') {
+    await prisma.companyTag.upsert({
+      where: { companyId_tagId: { companyId: entityId, tagId: tag.id } },
+      create: { companyId: entityId, tagId: tag.id },
+      update: {},
+    });
+  } else if (entityType === 'contact') {
+    await prisma.contactTag.upsert({
+      where: { contactId_tagId: { contactId: entityId, tagId: tag.id } },
+      create: { contactId: entityId, tagId: tag.id },
+      update: {},
+    });
+  } else {
+    await prisma.dealTag.upsert({
+      where: { dealId_tagId: { dealId: entityId, tagId: tag.id } },
+      create: { dealId: entityId, tagId: tag.id },
+      update: {},
+    });
+  }
+
+  return tag;
+};
+
+/** Detaches a tag from a company, contact or deal. The tag itself is kept. */
+export const untagEntity = async (
+  organizationId: string,
+  entityType: TaggableEntity,
+  entityId: string,
+  tagId: string,
+) => {
+  await assertEntityExists(organizationId, entityType, entityId);
+
+  const tag = await prisma.tag.findFirst({ where: { id: tagId, organizationId } });
+  if (!tag) throw new AppError('Tag not found', 404);
+
+  if (entityType === 'company') {
+    await prisma.companyTag.deleteMany({ where: { companyId: entityId, tagId } });
+  } else if (entityType === 'contact') {
+    await prisma.contactTag.deleteMany({ where: { contactId: entityId, tagId } });
+  } else {
+    await prisma.dealTag.deleteMany({ where: { dealId: entityId, tagId } });
+  }
+
+  return tag;
+};
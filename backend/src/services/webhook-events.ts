@@ -1,5 +1,5 @@
 import { logger } from '../utils/logger';
-import { fireEvent } from './webhook-subscriptions';
+import { fireEvent, getTierDirection } from './webhook-subscriptions';
 
 /**
  * Webhook event firing functions.
@@ -42,6 +42,22 @@ export const fireContactUpdated = async (
   }
 };
 
+/**
+ * contact.merged — the surviving contact after the merge, plus
+ * `mergedContactIds` (the duplicates that were folded in and deleted).
+ */
+export const fireContactMerged = async (
+  organizationId: string,
+  contact: Record<string, unknown>,
+  mergedContactIds: string[],
+): Promise<void> => {
+  try {
+    await fireEvent(organizationId, 'contact.merged', { ...contact, mergedContactIds });
+  } catch (err) {
+    logger.error('fireContactMerged webhook event failed', { organizationId, err });
+  }
+};
+
 export const fireCompanyCreated = async (
   organizationId: string,
   company: Record<string, unknown>,
@@ -53,6 +69,38 @@ export const fireCompanyCreated = async (
   }
 };
 
+/**
+ * company.updated — the updated company plus `changedFields`, the fields
+ * whose stored value the update changed.
+ */
+export const fireCompanyUpdated = async (
+  organizationId: string,
+  company: Record<string, unknown>,
+  changedFields: string[],
+): Promise<void> => {
+  try {
+    await fireEvent(organizationId, 'company.updated', { ...company, changedFields });
+  } catch (err) {
+    logger.error('fireCompanyUpdated webhook event failed', { organizationId, err });
+  }
+};
+
+/**
+ * company.merged — the surviving company after the merge, plus
+ * `mergedCompanyIds` (the duplicates that were folded in and deleted).
+ */
+export const fireCompanyMerged = async (
+  organizationId: string,
+  company: Record<string, unknown>,
+  mergedCompanyIds: string[],
+): Promise<void> => {
+  try {
+    await fireEvent(organizationId, 'company.merged', { ...company, mergedCompanyIds });
+  } catch (err) {
+    logger.error('fireCompanyMerged webhook event failed', { organizationId, err });
+  }
+};
+
 export const fireDealCreated = async (
   organizationId: string,
   deal: Record<string, unknown>,
@@ -64,6 +112,23 @@ export const fireDealCreated = async (
   }
 };
 
+/**
+ * deal.updated — the updated deal plus `changedFields`, the fields whose
+ * stored value the update changed. Fires on every update, including stage
+ * changes.
+ */
+export const fireDealUpdated = async (
+  organizationId: string,
+  deal: Record<string, unknown>,
+  changedFields: string[],
+): Promise<void> => {
+  try {
+    await fireEvent(organizationId, 'deal.updated', { ...deal, changedFields });
+  } catch (err) {
+    logger.error('fireDealUpdated webhook event failed', { organizationId, err });
+  }
+};
+
 export const fireDealStageChanged = async (
   organizationId: string,
   deal: Record<string, unknown>,
@@ -79,6 +144,44 @@ export const fireDealStageChanged = async (
   }
 };
 
+/**
+ * deal.closed — the deal plus `previousStage` and `outcome` ('won' or
+ * 'lost'). Fires when a deal moves into CLOSED_WON or CLOSED_LOST.
+ */
+export const fireDealClosed = async (
+  organizationId: string,
+  deal: Record<string, unknown>,
+  previousStage: string,
+): Promise<void> => {
+  try {
+    await fireEvent(organizationId, 'deal.closed', {
+      ...deal,
+      previousStage,
+      outcome: deal.stage === 'CLOSED_WON' ? 'won' : 'lost',
+    });
+  } catch (err) {
+    logger.error('fireDealClosed webhook event failed', { organizationId, err });
+  }
+};
+
+/**
+ * note.created — the note (id, entityType, entityId, content, authorId,
+ * mentions, createdAt). `accountId` is set for notes on a company.
+ */
+export const fireNoteCreated = async (
+  organizationId: string,
+  note: Record<string, unknown>,
+): Promise<void> => {
+  try {
+    await fireEvent(organizationId, 'note.created', {
+      ...note,
+      ...(note.entityType === 'company' && { accountId: note.entityId }),
+    });
+  } catch (err) {
+    logger.error('fireNoteCreated webhook event failed', { organizationId, err });
+  }
+};
+
 export const fireScoreChanged = async (
   organizationId: string,
   accountId: string,
@@ -97,7 +200,8 @@ export const fireScoreChanged = async (
       newTier,
     });
 
-    // Also fire tier.changed if tier actually differs
+    // Also fire tier.changed if tier actually differs; `direction` is 'up'
+    // for upgrades (e.g. WARM -> HOT) and 'down' for downgrades
     if (oldTier && oldTier !== newTier) {
       await fireEvent(organizationId, 'tier.changed', {
         accountId,
@@ -105,9 +209,83 @@ export const fireScoreChanged = async (
         newScore,
         oldTier,
         newTier,
+        direction: getTierDirection(oldTier, newTier),
       });
     }
   } catch (err) {
     logger.error('fireScoreChanged webhook event failed', { organizationId, err });
   }
 };
+
+export const fireContactScoreChanged = async (
+  organizationId: string,
+  change: Record<string, unknown>,
+): Promise<void> => {
+  try {
+    await fireEvent(organizationId, 'contact.score_changed', change);
+  } catch (err) {
+    logger.error('fireContactScoreChanged webhook event failed', { organizationId, err });
+  }
+};
+
+/**
+ * anomaly.detected — accountId, accountName, anomalyType ('SPIKE' or 'DROP'),
+ * severity ('moderate' or 'high'), todayCount, expectedMin, expectedMax and
+ * zScore.
+ */
+export const fireAnomalyDetected = async (
+  organizationId: string,
+  anomaly: Record<string, unknown>,
+): Promise<void> => {
+  try {
+    await fireEvent(organizationId, 'anomaly.detected', anomaly);
+  } catch (err) {
+    logger.error('fireAnomalyDetected webhook event failed', { organizationId, err });
+  }
+};
+
+/**
+ * alert.triggered — ruleId, ruleName, triggerType, accountId, accountName,
+ * reason, oldScore and newScore.
+ */
+export const fireAlertTriggered = async (
+  organizationId: string,
+  alert: Record<string, unknown>,
+): Promise<void> => {
+  try {
+    await fireEvent(organizationId, 'alert.triggered', alert);
+  } catch (err) {
+    logger.error('fireAlertTriggered webhook event failed', { organizationId, err });
+  }
+};
+
+/**
+ * workflow.run_failed — workflowId, workflowName, runId, failedStepId and
+ * error.
+ */
+export const fireWorkflowRunFailed = async (
+  organizationId: string,
+  run: Record<string, unknown>,
+): Promise<void> => {
+  try {
+    await fireEvent(organizationId, 'workflow.run_failed', run);
+  } catch (err) {
+    logger.error('fireWorkflowRunFailed webhook event failed', { organizationId, err });
+  }
+};
+
+/**
+ * enrichment.completed — entityType ('company' or 'contact'), entityId,
+ * provider, fieldsUpdated and cached. `accountId` is the enriched company,
+ * or the contact's company.
+ */
+export const fireEnrichmentCompleted = async (
+  organizationId: string,
+  enrichment: Record<string, unknown>,
+): Promise<void> => {
+  try {
+    await fireEvent(organizationId, 'enrichment.completed', enrichment);
+  } catch (err) {
+    logger.error('fireEnrichmentCompleted webhook event failed', { organizationId, err });
+  }
+};
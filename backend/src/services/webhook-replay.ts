@@ -0,0 +1,447 @@
+import { Prisma, WebhookDeadLetter, WebhookDeadLetterStatus, WebhookSubscription } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { enqueueWebhookReplay } from '../jobs/producers';
+import type { WebhookReplayJobData } from '../jobs/queue';
+import { deliverToSubscription, markSubscriptionHealthy, recordSubscriptionDelivery } from './webhook-subscriptions';
+import { getSigningConfig } from './webhook-signing';
+
+// ---------------------------------------------------------------------------
+// Webhook dead letters and replay
+// ---------------------------------------------------------------------------
+// Deliveries that exhaust their retries are kept as dead letters instead of
+// being dropped. A replay sends a subscription's pending dead letters one at a
+// time in original event order and stops at the first failure. While it runs,
+// new live events are dead-lettered behind it (REPLAY_DEFERRED) and sent by the
+// same run, so the endpoint never sees them before the replayed events. Once
+// the replay ends, live delivery resumes; anything still pending waits for the
+// next replay or a manual redelivery.
+
+/** A REPLAYING claim older than this is treated as abandoned (worker crash). */
+export const REPLAY_STALE_AFTER_MS = 60 * 60 * 1000;
+
+/** Upper bound on dead letters sent by a single replay run. */
+const MAX_REPLAY_DELIVERIES = 10_000;
+
+export interface ReplayResult {
+  delivered: number;
+  failed: number;
+  remaining: number;
+  error?: string;
+}
+
+export interface RedeliveryResult {
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Dead-letter store
+// ---------------------------------------------------------------------------
+
+export async function createDeadLetter(data: {
+  subscriptionId: string;
+  event: string;
+  payload: Record<string, unknown>;
+  reason: 'DELIVERY_FAILED' | 'REPLAY_DEFERRED';
+  eventAt: Date;
+  attempts?: number;
+  statusCode?: number;
+  error?: string;
+  jobId?: string;
+}): Promise<WebhookDeadLetter> {
+  return prisma.webhookDeadLetter.create({
+    data: {
+      subscriptionId: data.subscriptionId,
+      event: data.event,
+      payload: data.payload as Prisma.InputJsonValue,
+      reason: data.reason,
+      eventAt: data.eventAt,
+      attempts: data.attempts ?? 0,
+      statusCode: data.statusCode ?? null,
+      error: data.error ?? null,
+      jobId: data.jobId ?? null,
+    },
+  });
+}
+
+function isReplaying(subscription: Pick<WebhookSubscription, 'status' | 'replayStartedAt'>): boolean {
+  return (
+    subscription.status === 'REPLAYING' &&
+    !!subscription.replayStartedAt &&
+    Date.now() - subscription.replayStartedAt.getTime() < REPLAY_STALE_AFTER_MS
+  );
+}
+
+/**
+ * Called by the delivery worker before a live delivery. If a replay is running
+ * for the subscription, the event is dead-lettered behind it and true is
+ * returned; the running replay sends it once the older events are through.
+ * Pending dead letters alone do not defer, since nothing replays them until
+ * someone starts a replay.
+ */
+export async function deferIfReplaying(data: {
+  subscriptionId: string;
+  event: string;
+  payload: Record<string, unknown>;
+  eventAt: Date;
+  jobId?: string;
+}): Promise<boolean> {
+  const subscription = await prisma.webhookSubscription.findUnique({
+    where: { id: data.subscriptionId },
+    select: { status: true, replayStartedAt: true },
+  });
+  if (!subscription || !isReplaying(subscription)) return false;
+
+  await createDeadLetter({ ...data, reason: 'REPLAY_DEFERRED' });
+  return true;
+}
+
+async function findSubscription(organizationId: string, subscriptionId: string): Promise<WebhookSubscription> {
+  const subscription = await prisma.webhookSubscription.findFirst({
+    where: { id: subscriptionId, organizationId },
+  });
+  if (!subscription) {
+    throw new AppError('Webhook subscription not found', 404);
+  }
+  return subscription;
+}
+
+export async function listDeadLetters(
+  organizationId: string,
+  subscriptionId: string,
+  options: { status?: WebhookDeadLetterStatus; limit?: number } = {},
+) {
+  await findSubscription(organizationId, subscriptionId);
+
+  const where = { subscriptionId, ...(options.status && { status: options.status }) };
+  const [deadLetters, pending] = await Promise.all([
+    prisma.webhookDeadLetter.findMany({
+      where,
+      orderBy: [{ eventAt: 'asc' }, { createdAt: 'asc' }],
+      take: Math.min(Math.max(options.limit ?? 50, 1), 200),
+    }),
+    prisma.webhookDeadLetter.count({ where: { subscriptionId, status: 'PENDING' } }),
+  ]);
+
+  return { deadLetters, pending };
+}
+
+// ---------------------------------------------------------------------------
+// Manual redelivery
+// ---------------------------------------------------------------------------
+
+/**
+ * `webhook-id` for a resend. It reuses the original delivery's id so that
+ * receivers deduplicating on it treat the resend as a retry.
+ */
+function messageIdFor(originalJobId: string | null, fallbackId: string): string {
+  return `msg_${originalJobId ?? fallbackId}`;
+}
+
+/**
+ * Send a stored payload once, record it in the delivery log and, on success,
+ * clear a FAILING status.
+ */
+async function sendOnce(
+  subscription: WebhookSubscription,
+  event: string,
+  payload: Record<string, unknown>,
+  jobId: string,
+  messageId: string,
+): Promise<RedeliveryResult> {
+  const result = await deliverToSubscription(
+    subscription.targetUrl,
+    getSigningConfig(subscription),
+    event,
+    payload,
+    messageId,
+  );
+
+  await recordSubscriptionDelivery({
+    subscriptionId: subscription.id,
+    event,
+    payload,
+    statusCode: result.statusCode,
+    response: result.error,
+    success: result.success,
+    attempt: 1,
+    maxAttempts: 1,
+    jobId,
+  });
+
+  if (result.success) {
+    await markSubscriptionHealthy(subscription.id);
+  }
+
+  return result;
+}
+
+/**
+ * Redeliver one entry from the delivery log, e.g. an event the receiver
+ * accepted but lost.
+ */
+export async function redeliverDelivery(
+  organizationId: string,
+  subscriptionId: string,
+  deliveryId: string,
+): Promise<RedeliveryResult> {
+  const subscription = await findSubscription(organizationId, subscriptionId);
+  const delivery = await prisma.webhookSubscriptionDelivery.findFirst({
+    where: { id: deliveryId, subscriptionId },
+  });
+  if (!delivery) {
+    throw new AppError('Webhook delivery not found', 404);
+  }
+
+  return sendOnce(
+    subscription,
+    delivery.event,
+    delivery.payload as Record<string, unknown>,
+    `redeliver_${delivery.id}`,
+    messageIdFor(delivery.jobId, delivery.id),
+  );
+}
+
+/**
+ * Redeliver a single dead letter. On success it is marked REDELIVERED and
+ * drops out of future replays.
+ */
+export async function redeliverDeadLetter(
+  organizationId: string,
+  subscriptionId: string,
+  deadLetterId: string,
+): Promise<RedeliveryResult> {
+  const subscription = await findSubscription(organizationId, subscriptionId);
+  const deadLetter = await prisma.webhookDeadLetter.findFirst({
+    where: { id: deadLetterId, subscriptionId },
+  });
+  if (!deadLetter) {
+    throw new AppError('Dead letter not found', 404);
+  }
+  if (deadLetter.status === 'REDELIVERED') {
+    throw new AppError('Dead letter has already been redelivered', 409);
+  }
+  if (isReplaying(subscription)) {
+    throw new AppError('A replay is running for this subscription', 409);
+  }
+
+  const result = await sendOnce(
+    subscription,
+    deadLetter.event,
+    deadLetter.payload as Record<string, unknown>,
+    `redeliver_${deadLetter.id}`,
+    messageIdFor(deadLetter.jobId, deadLetter.id),
+  );
+  await markAttempt(deadLetter, result);
+  return result;
+}
+
+async function markAttempt(deadLetter: WebhookDeadLetter, result: RedeliveryResult): Promise<void> {
+  await prisma.webhookDeadLetter.update({
+    where: { id: deadLetter.id },
+    data: result.success
+      ? { status: 'REDELIVERED', redeliveredAt: new Date(), attempts: { increment: 1 } }
+      : {
+          attempts: { increment: 1 },
+          statusCode: result.statusCode ?? null,
+          error: result.error ?? (result.statusCode ? `HTTP ${result.statusCode}` : null),
+        },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Range replay
+// ---------------------------------------------------------------------------
+
+/**
+ * Claim the subscription for a replay of its pending dead letters fired
+ * between `from` and `to`, and queue the replay. Returns how many dead letters
+ * are in range; nothing is queued when there are none.
+ */
+export async function startReplay(
+  organizationId: string,
+  subscriptionId: string,
+  range: { from: Date; to?: Date },
+): Promise<{ queued: boolean; pending: number }> {
+  const subscription = await findSubscription(organizationId, subscriptionId);
+  const to = range.to ?? new Date();
+
+  if (range.from >= to) {
+    throw new AppError('"from" must be before "to"', 400);
+  }
+  if (!subscription.active) {
+    throw new AppError('Activate the subscription before replaying events', 400);
+  }
+
+  const pending = await prisma.webhookDeadLetter.count({
+    where: { subscriptionId, status: 'PENDING', eventAt: { gte: range.from, lte: to } },
+  });
+  if (pending === 0) {
+    return { queued: false, pending };
+  }
+
+  // Atomic claim: a second replay can only start once the first has finished
+  // or gone stale
+  const claimed = await prisma.webhookSubscription.updateMany({
+    where: {
+      id: subscriptionId,
+      OR: [
+        { status: { not: 'REPLAYING' } },
+        { replayStartedAt: null },
+        { replayStartedAt: { lt: new Date(Date.now() - REPLAY_STALE_AFTER_MS) } },
+      ],
+    },
+    data: { status: 'REPLAYING', replayStartedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw new AppError('A replay is already running for this subscription', 409);
+  }
+
+  try {
+    await enqueueWebhookReplay({
+      organizationId,
+      subscriptionId,
+      from: range.from.toISOString(),
+      to: to.toISOString(),
+    });
+  } catch (err) {
+    await releaseReplay(subscriptionId, subscription.status === 'REPLAYING' ? 'FAILING' : subscription.status);
+    throw err;
+  }
+
+  logger.info(`Webhook replay queued for subscription ${subscriptionId}: ${pending} dead letters`);
+  return { queued: true, pending };
+}
+
+/**
+ * Release a replay claim. With `claimedAt`, only that claim is released, so a
+ * run that outlived REPLAY_STALE_AFTER_MS cannot clear a newer replay's.
+ * Returns whether the claim was released.
+ */
+async function releaseReplay(
+  subscriptionId: string,
+  status: 'HEALTHY' | 'FAILING',
+  claimedAt?: Date | null,
+): Promise<boolean> {
+  const released = await prisma.webhookSubscription.updateMany({
+    where: { id: subscriptionId, status: 'REPLAYING', ...(claimedAt && { replayStartedAt: claimedAt }) },
+    data: { status, replayStartedAt: null },
+  });
+  return released.count > 0;
+}
+
+/**
+ * Worker entry point. Sends pending dead letters in the range, plus any
+ * events deferred while the replay runs, oldest first. Stops at the first
+ * failure and marks the subscription FAILING; a clean run marks it HEALTHY.
+ * An event deferred between the last lookup and the release is picked up by
+ * re-claiming the subscription and draining again.
+ */
+export async function runReplay(data: WebhookReplayJobData): Promise<ReplayResult> {
+  const subscription = await prisma.webhookSubscription.findUnique({ where: { id: data.subscriptionId } });
+  if (!subscription) {
+    return { delivered: 0, failed: 0, remaining: 0 };
+  }
+
+  const where: Prisma.WebhookDeadLetterWhereInput = {
+    subscriptionId: subscription.id,
+    status: 'PENDING',
+    OR: [
+      { eventAt: { gte: new Date(data.from), lte: new Date(data.to) } },
+      { reason: 'REPLAY_DEFERRED', createdAt: { gte: subscription.replayStartedAt ?? new Date(data.to) } },
+    ],
+  };
+  const result: ReplayResult = { delivered: 0, failed: 0, remaining: 0 };
+  let claimedAt = subscription.replayStartedAt;
+
+  for (;;) {
+    let finished = false;
+    let released = false;
+    try {
+      await drainDeadLetters(subscription, where, result);
+      finished = true;
+    } finally {
+      // Always release the claim, or live events would keep being deferred
+      released = await releaseReplay(
+        subscription.id,
+        finished && result.failed === 0 ? 'HEALTHY' : 'FAILING',
+        claimedAt,
+      );
+    }
+
+    if (!released || result.failed > 0 || result.delivered >= MAX_REPLAY_DELIVERIES) break;
+    const late = await prisma.webhookDeadLetter.count({ where });
+    if (late === 0) break;
+
+    claimedAt = new Date();
+    const reclaimed = await prisma.webhookSubscription.updateMany({
+      where: { id: subscription.id, status: { not: 'REPLAYING' } },
+      data: { status: 'REPLAYING', replayStartedAt: claimedAt },
+    });
+    if (reclaimed.count === 0) break;
+  }
+
+  result.remaining = await prisma.webhookDeadLetter.count({
+    where: { subscriptionId: subscription.id, status: 'PENDING' },
+  });
+
+  logger.info(
+    `Webhook replay for subscription ${subscription.id}: ${result.delivered} delivered, ${result.remaining} still pending`,
+    { error: result.error },
+  );
+
+  return result;
+}
+
+/**
+ * Send matching dead letters oldest first until none are left, one fails or
+ * the per-run cap is reached. Counts go into `result`.
+ */
+async function drainDeadLetters(
+  subscription: WebhookSubscription,
+  where: Prisma.WebhookDeadLetterWhereInput,
+  result: ReplayResult,
+): Promise<void> {
+  while (result.delivered < MAX_REPLAY_DELIVERIES) {
+    const next = await prisma.webhookDeadLetter.findFirst({
+      where,
+      orderBy: [{ eventAt: 'asc' }, { createdAt: 'asc' }],
+    });
+    if (!next) break;
+
+    const sent = await deliverToSubscription(
+      subscription.targetUrl,
+      getSigningConfig(subscription),
+      next.event,
+      next.payload as Record<string, unknown>,
+      messageIdFor(next.jobId, next.id),
+    );
+    await recordSubscriptionDelivery({
+      subscriptionId: subscription.id,
+      event: next.event,
+      payload: next.payload as Record<string, unknown>,
+      statusCode: sent.statusCode,
+      response: sent.error,
+      success: sent.success,
+      attempt: 1,
+      maxAttempts: 1,
+      jobId: `replay_${next.id}`,
+    }).catch((err) => {
+      logger.error('Failed to record replayed delivery', {
+        subscriptionId: subscription.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+    await markAttempt(next, sent);
+
+    if (!sent.success) {
+      result.failed = 1;
+      result.error = sent.error || `HTTP ${sent.statusCode}`;
+      break;
+    }
+    result.delivered++;
+  }
+}
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import type { WebhookSubscription } from '@prisma/client';
+import { AppError } from '../utils/errors';
+
+// ---------------------------------------------------------------------------
+// Webhook signing (Standard Webhooks)
+// ---------------------------------------------------------------------------
+// Subscription deliveries carry the Standard Webhooks headers
+// (https://www.standardwebhooks.com): `webhook-id`, `webhook-timestamp` and
+// `webhook-signature`, where each signature is
+// `v1,` + base64(HMAC-SHA256(key, `${id}.${timestamp}.${body}`)) and the key is
+// the base64-decoded secret without its `whsec_` prefix. During a secret
+// rotation window the header holds one signature per active secret, so
+// receivers can switch secrets without dropping events. The legacy
+// X-Sigscore-Signature header (hex HMAC of the body with the current secret)
+// is still sent for existing integrations.
+
+export const SECRET_PREFIX = 'whsec_';
+
+/** Longest grace period for a rotated-out secret. */
+export const MAX_ROTATION_GRACE_HOURS = 7 * 24;
+
+export const DEFAULT_ROTATION_GRACE_HOURS = 24;
+
+export interface ClientCertificate {
+  cert: string;
+  key: string;
+}
+
+/** Everything needed to sign and send a delivery for one subscription. */
+export interface SigningConfig {
+  secret: string;
+  /** Rotated-out secret, only while its grace period lasts */
+  previousSecret?: string | null;
+  clientCertificate?: ClientCertificate | null;
+}
+
+export interface SignedMessage {
+  messageId?: string;
+  event: string;
+  body: string;
+  timestamp?: number;
+}
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${crypto.randomBytes(32).toString('base64')}`;
+}
+
+export function generateMessageId(): string {
+  return `msg_${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+function secretKey(secret: string): Buffer {
+  return Buffer.from(secret.startsWith(SECRET_PREFIX) ? secret.slice(SECRET_PREFIX.length) : secret, 'base64');
+}
+
+/** One `v1,<base64>` signature for a message. */
+export function signPayload(secret: string, messageId: string, timestamp: number, body: string): string {
+  const signature = crypto
+    .createHmac('sha256', secretKey(secret))
+    .update(`${messageId}.${timestamp}.${body}`)
+    .digest('base64');
+  return `v1,${signature}`;
+}
+
+/**
+ * Request headers for a delivery: Standard Webhooks headers signed with every
+ * active secret, plus the legacy Sigscore headers.
+ */
+export function buildSignatureHeaders(config: SigningConfig, message: SignedMessage): Record<string, string> {
+  const messageId = message.messageId ?? generateMessageId();
+  const timestamp = message.timestamp ?? Math.floor(Date.now() / 1000);
+  const secrets = [config.secret, ...(config.previousSecret ? [config.previousSecret] : [])];
+
+  return {
+    'Content-Type': 'application/json',
+    'webhook-id': messageId,
+    'webhook-timestamp': String(timestamp),
+    'webhook-signature': secrets.map((s) => signPayload(s, messageId, timestamp, message.body)).join(' '),
+    'X-Sigscore-Signature': `sha256=${crypto.createHmac('sha256', config.secret).update(message.body).digest('hex')}`,
+    'X-Sigscore-Event': message.event,
+  };
+}
+
+/**
+ * Signing config for a subscription row. The previous secret is dropped once
+ * its grace period has passed.
+ */
+export function getSigningConfig(
+  subscription: Pick<
+    WebhookSubscription,
+    'secret' | 'previousSecret' | 'previousSecretExpiresAt' | 'clientCert' | 'clientKey'
+  >,
+): SigningConfig {
+  const previousActive =
+    !!subscription.previousSecret &&
+    !!subscription.previousSecretExpiresAt &&
+    subscription.previousSecretExpiresAt.getTime() > Date.now();
+
+  return {
+    secret: subscription.secret,
+    previousSecret: previousActive ? subscription.previousSecret : null,
+    clientCertificate:
+      subscription.clientCert && subscription.clientKey
+        ? { cert: subscription.clientCert, key: subscription.clientKey }
+        : null,
+  };
+}
+
+/**
+ * Check that a PEM certificate and private key parse and belong together.
+ * Throws a 400 AppError otherwise.
+ */
+export function validateClientCertificate(cert: string, key: string): void {
+  let certificate: crypto.X509Certificate;
+  let privateKey: crypto.KeyObject;
+
+  try {
+    certificate = new crypto.X509Certificate(cert);
+  } catch {
+    throw new AppError('Client certificate must be a PEM-encoded X.509 certificate', 400);
+  }
+  try {
+    privateKey = crypto.createPrivateKey(key);
+  } catch {
+    throw new AppError('Client key must be a PEM-encoded, unencrypted private key', 400);
+  }
+  if (!certificate.checkPrivateKey(privateKey)) {
+    throw new AppError('Client key does not match the client certificate', 400);
+  }
+  if (new Date(certificate.validTo).getTime() < Date.now()) {
+    throw new AppError('Client certificate has expired', 400);
+  }
+}
@@ -1,23 +1,47 @@
-import crypto from 'crypto';
-import { Prisma } from '@prisma/client';
+import https from 'https';
+import { Prisma, WebhookSubscription } from '@prisma/client';
 import { prisma } from '../config/database';
 import { logger } from '../utils/logger';
 import { AppError } from '../utils/errors';
 import { webhookDeliveryQueue } from '../jobs/queue';
+import { applyTransform, TransformError, validateTransform } from './payload-transform';
+import {
+  buildSignatureHeaders,
+  ClientCertificate,
+  DEFAULT_ROTATION_GRACE_HOURS,
+  generateWebhookSecret,
+  getSigningConfig,
+  MAX_ROTATION_GRACE_HOURS,
+  SigningConfig,
+  validateClientCertificate,
+} from './webhook-signing';
 
 // ---------------------------------------------------------------------------
 // Supported event types
 // ---------------------------------------------------------------------------
 
+// Payload shapes are documented on the matching fire* function in
+// webhook-events.ts; TEST_PAYLOADS below holds an example of each.
 export const WEBHOOK_EVENT_TYPES = [
   'signal.created',
   'contact.created',
   'contact.updated',
+  'contact.merged',
   'company.created',
+  'company.updated',
+  'company.merged',
   'deal.created',
+  'deal.updated',
   'deal.stage_changed',
+  'deal.closed',
+  'note.created',
   'score.changed',
   'tier.changed',
+  'contact.score_changed',
+  'anomaly.detected',
+  'alert.triggered',
+  'workflow.run_failed',
+  'enrichment.completed',
 ] as const;
 
 export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
@@ -26,14 +50,46 @@ export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
 // Filter & payload template types
 // ---------------------------------------------------------------------------
 
+export type TierDirection = 'up' | 'down';
+
 export interface WebhookFilters {
   scoreAbove?: number;
   scoreBelow?: number;
   tiers?: string[];
   signalTypes?: string[];
   accountIds?: string[];
+  /** tier.changed / score.changed: only upgrades (COLD -> WARM) or downgrades */
+  tierDirection?: TierDirection;
+  /** deal.* events: deal stage after the change */
+  stages?: string[];
+  /** anomaly.detected: anomaly severity ('moderate' or 'high') */
+  severities?: string[];
+  /** alert.triggered: alert rule trigger type */
+  triggerTypes?: string[];
+  /** note.created / enrichment.completed: 'company', 'contact' or 'deal' */
+  entityTypes?: string[];
+  /** workflow.run_failed: only runs of these workflows */
+  workflowIds?: string[];
 }
 
+const STRING_LIST_FILTERS = ['stages', 'severities', 'triggerTypes', 'entityTypes', 'workflowIds'] as const;
+
+const TIER_RANK: Record<string, number> = { INACTIVE: 0, COLD: 1, WARM: 2, HOT: 3 };
+
+/**
+ * Direction of a tier change, or null when either tier is unknown or they
+ * are equal.
+ */
+export const getTierDirection = (
+  oldTier: string | null | undefined,
+  newTier: string | null | undefined,
+): TierDirection | null => {
+  const from = oldTier ? TIER_RANK[oldTier] : undefined;
+  const to = newTier ? TIER_RANK[newTier] : undefined;
+  if (from === undefined || to === undefined || from === to) return null;
+  return to > from ? 'up' : 'down';
+};
+
 /**
  * Payload template is a JSON object where values can contain
  * {{variable}} placeholders that are resolved against the event data.
@@ -50,6 +106,11 @@ export interface CreateSubscriptionInput {
   hookId?: string;
   filters?: WebhookFilters;
   payloadTemplate?: PayloadTemplate;
+  /** Transform expression (see payload-transform.ts); replaces payloadTemplate when set */
+  transform?: string;
+  /** PEM client certificate and key, for endpoints that require mutual TLS */
+  clientCert?: string;
+  clientKey?: string;
 }
 
 export interface UpdateSubscriptionInput {
@@ -57,8 +118,42 @@ export interface UpdateSubscriptionInput {
   event?: string;
   filters?: WebhookFilters | null;
   payloadTemplate?: PayloadTemplate | null;
+  transform?: string | null;
+  /** Set both to configure mutual TLS, or both to null to turn it off */
+  clientCert?: string | null;
+  clientKey?: string | null;
 }
 
+/**
+ * Subscription as returned by the API: the client key and rotated-out secret
+ * never leave the server.
+ */
+export const toPublicSubscription = <T extends WebhookSubscription>(subscription: T) => {
+  const { clientKey, previousSecret, ...rest } = subscription;
+  return {
+    ...rest,
+    hasClientCertificate: !!(rest.clientCert && clientKey),
+    previousSecretActive:
+      !!previousSecret &&
+      !!rest.previousSecretExpiresAt &&
+      rest.previousSecretExpiresAt.getTime() > Date.now(),
+  };
+};
+
+/** Validates a client certificate change; returns null when nothing changes. */
+const resolveClientCertificate = (
+  cert: string | null | undefined,
+  key: string | null | undefined,
+): ClientCertificate | 'clear' | null => {
+  if (cert === undefined && key === undefined) return null;
+  if (!cert && !key) return 'clear';
+  if (!cert || !key) {
+    throw new AppError('clientCert and clientKey must be set together', 400);
+  }
+  validateClientCertificate(cert, key);
+  return { cert, key };
+};
+
 export const createSubscription = async (
   organizationId: string,
   data: CreateSubscriptionInput,
@@ -67,9 +162,11 @@ export const createSubscription = async (
     throw new AppError(`Unsupported event type: ${data.event}. Supported: ${WEBHOOK_EVENT_TYPES.join(', ')}`, 400);
   }
 
-  const secret = crypto.randomBytes(32).toString('hex');
+  if (data.transform) validateTransform(data.transform);
+  const clientCertificate = resolveClientCertificate(data.clientCert, data.clientKey);
+  const secret = generateWebhookSecret();
 
-  return prisma.webhookSubscription.create({
+  const subscription = await prisma.webhookSubscription.create({
     data: {
       organization: { connect: { id: organizationId } },
       targetUrl: data.targetUrl,
@@ -82,8 +179,15 @@ export const createSubscription = async (
       payloadTemplate: data.payloadTemplate
         ? (data.payloadTemplate as unknown as Prisma.InputJsonValue)
         : Prisma.JsonNull,
+      transform: data.transform || null,
+      ...(clientCertificate && clientCertificate !== 'clear' && {
+        clientCert: clientCertificate.cert,
+        clientKey: clientCertificate.key,
+      }),
     },
   });
+
+  return toPublicSubscription(subscription);
 };
 
 export const updateSubscription = async (
@@ -121,11 +225,62 @@ export const updateSubscription = async (
       ? (data.payloadTemplate as unknown as Prisma.InputJsonValue)
       : Prisma.JsonNull;
   }
+  if (data.transform !== undefined) {
+    if (data.transform) validateTransform(data.transform);
+    updateData.transform = data.transform || null;
+  }
+
+  const clientCertificate = resolveClientCertificate(data.clientCert, data.clientKey);
+  if (clientCertificate === 'clear') {
+    updateData.clientCert = null;
+    updateData.clientKey = null;
+  } else if (clientCertificate) {
+    updateData.clientCert = clientCertificate.cert;
+    updateData.clientKey = clientCertificate.key;
+  }
 
-  return prisma.webhookSubscription.update({
+  const updated = await prisma.webhookSubscription.update({
     where: { id: subscriptionId },
     data: updateData,
   });
+
+  return toPublicSubscription(updated);
+};
+
+/**
+ * Replace the signing secret. For `graceHours` the old secret keeps signing
+ * alongside the new one (both appear in `webhook-signature`), giving the
+ * receiver time to deploy the new secret. A grace of 0 retires it at once.
+ */
+export const rotateSubscriptionSecret = async (
+  organizationId: string,
+  subscriptionId: string,
+  graceHours = DEFAULT_ROTATION_GRACE_HOURS,
+) => {
+  if (graceHours < 0 || graceHours > MAX_ROTATION_GRACE_HOURS) {
+    throw new AppError(`graceHours must be between 0 and ${MAX_ROTATION_GRACE_HOURS}`, 400);
+  }
+
+  const subscription = await prisma.webhookSubscription.findFirst({
+    where: { id: subscriptionId, organizationId },
+  });
+
+  if (!subscription) {
+    throw new AppError('Webhook subscription not found', 404);
+  }
+
+  const updated = await prisma.webhookSubscription.update({
+    where: { id: subscriptionId },
+    data: {
+      secret: generateWebhookSecret(),
+      previousSecret: graceHours > 0 ? subscription.secret : null,
+      previousSecretExpiresAt: graceHours > 0 ? new Date(Date.now() + graceHours * 60 * 60 * 1000) : null,
+    },
+  });
+
+  logger.info(`Rotated signing secret for webhook subscription ${subscriptionId} (grace ${graceHours}h)`);
+
+  return toPublicSubscription(updated);
 };
 
 export const deleteSubscription = async (
@@ -144,10 +299,11 @@ export const deleteSubscription = async (
 };
 
 export const listSubscriptions = async (organizationId: string) => {
-  return prisma.webhookSubscription.findMany({
+  const subscriptions = await prisma.webhookSubscription.findMany({
     where: { organizationId },
     orderBy: { createdAt: 'desc' },
   });
+  return subscriptions.map(toPublicSubscription);
 };
 
 export const getSubscription = async (
@@ -162,7 +318,7 @@ export const getSubscription = async (
     throw new AppError('Webhook subscription not found', 404);
   }
 
-  return subscription;
+  return toPublicSubscription(subscription);
 };
 
 export const toggleSubscription = async (
@@ -178,10 +334,12 @@ export const toggleSubscription = async (
     throw new AppError('Webhook subscription not found', 404);
   }
 
-  return prisma.webhookSubscription.update({
+  const updated = await prisma.webhookSubscription.update({
     where: { id },
     data: { active },
   });
+
+  return toPublicSubscription(updated);
 };
 
 // ---------------------------------------------------------------------------
@@ -241,10 +399,36 @@ const parseFilters = (filtersJson: Prisma.JsonValue | null): WebhookFilters | nu
     filters.accountIds = raw.accountIds.filter((t): t is string => typeof t === 'string');
     if (filters.accountIds.length > 0) hasFilter = true;
   }
+  if (raw.tierDirection === 'up' || raw.tierDirection === 'down') {
+    filters.tierDirection = raw.tierDirection;
+    hasFilter = true;
+  }
+  for (const key of STRING_LIST_FILTERS) {
+    const value = raw[key];
+    if (Array.isArray(value) && value.length > 0) {
+      const list = value.filter((t): t is string => typeof t === 'string');
+      if (list.length > 0) {
+        filters[key] = list;
+        hasFilter = true;
+      }
+    }
+  }
 
   return hasFilter ? filters : null;
 };
 
+/** First string value among `keys`, checked on the payload then on payload.data. */
+const pickString = (payload: Record<string, unknown>, ...keys: string[]): string | undefined => {
+  const data = payload.data as Record<string, unknown> | undefined;
+  for (const source of [payload, data]) {
+    if (!source || typeof source !== 'object') continue;
+    for (const key of keys) {
+      if (typeof source[key] === 'string') return source[key] as string;
+    }
+  }
+  return undefined;
+};
+
 /**
  * Evaluates all filter conditions against an event payload (AND logic).
  * Returns true if the event should be dispatched to the subscriber.
@@ -253,6 +437,7 @@ const parseFilters = (filtersJson: Prisma.JsonValue | null): WebhookFilters | nu
 export const evaluateFilters = (
   filters: WebhookFilters | null,
   payload: Record<string, unknown>,
+  event?: string,
 ): boolean => {
   if (!filters) return true;
 
@@ -309,11 +494,45 @@ export const evaluateFilters = (
         : undefined) ??
       (typeof (payload.data as Record<string, unknown> | undefined)?.companyId === 'string'
         ? (payload.data as Record<string, unknown>).companyId as string
-        : undefined);
+        : undefined) ??
+      (typeof payload.companyId === 'string' ? payload.companyId : undefined) ??
+      // company.* payloads are the company itself
+      (event?.startsWith('company.') && typeof payload.id === 'string' ? payload.id : undefined);
 
     if (!accountId || !filters.accountIds.includes(accountId)) return false;
   }
 
+  // Tier direction: derived from oldTier -> newTier, so same-tier score changes never match
+  if (filters.tierDirection) {
+    const direction = getTierDirection(pickString(payload, 'oldTier'), pickString(payload, 'newTier'));
+    if (direction !== filters.tierDirection) return false;
+  }
+
+  if (filters.stages && filters.stages.length > 0) {
+    const stage = pickString(payload, 'stage');
+    if (!stage || !filters.stages.includes(stage)) return false;
+  }
+
+  if (filters.severities && filters.severities.length > 0) {
+    const severity = pickString(payload, 'severity');
+    if (!severity || !filters.severities.includes(severity)) return false;
+  }
+
+  if (filters.triggerTypes && filters.triggerTypes.length > 0) {
+    const triggerType = pickString(payload, 'triggerType');
+    if (!triggerType || !filters.triggerTypes.includes(triggerType)) return false;
+  }
+
+  if (filters.entityTypes && filters.entityTypes.length > 0) {
+    const entityType = pickString(payload, 'entityType');
+    if (!entityType || !filters.entityTypes.includes(entityType)) return false;
+  }
+
+  if (filters.workflowIds && filters.workflowIds.length > 0) {
+    const workflowId = pickString(payload, 'workflowId');
+    if (!workflowId || !filters.workflowIds.includes(workflowId)) return false;
+  }
+
   return true;
 };
 
@@ -386,8 +605,9 @@ export const applyPayloadTemplate = (
  * independent retry with exponential backoff (30s, 60s, 120s, 240s, 480s).
  *
  * Subscriptions with filters are evaluated before enqueuing -- only matching
- * events are dispatched. Subscriptions with a payloadTemplate get a custom
- * payload shape instead of the default envelope.
+ * events are dispatched. Subscriptions with a transform or payloadTemplate get
+ * a custom payload shape instead of the default envelope. A transform that
+ * fails at run time is logged as a failed delivery and nothing is sent.
  */
 export const fireEvent = async (
   organizationId: string,
@@ -415,7 +635,7 @@ export const fireEvent = async (
     try {
       // Evaluate filters -- skip this subscription if conditions do not match
       const filters = parseFilters(sub.filters);
-      if (!evaluateFilters(filters, payload)) {
+      if (!evaluateFilters(filters, payload, event)) {
         logger.debug('Webhook subscription skipped by filter', {
           subscriptionId: sub.id,
           event,
@@ -424,14 +644,34 @@ export const fireEvent = async (
         return;
       }
 
-      // Apply payload template if configured, otherwise use the default envelope
-      const customPayload = applyPayloadTemplate(sub.payloadTemplate, {
-        ...payload,
-        event,
-        organizationId,
-        timestamp: defaultEnvelope.timestamp,
-      });
-      const finalPayload = customPayload ?? defaultEnvelope;
+      let finalPayload: Record<string, unknown>;
+      if (sub.transform) {
+        try {
+          finalPayload = applyTransform(sub.transform, defaultEnvelope);
+        } catch (err) {
+          if (!(err instanceof TransformError)) throw err;
+          logger.warn('Webhook payload transform failed', { subscriptionId: sub.id, event, error: err.message });
+          await recordSubscriptionDelivery({
+            subscriptionId: sub.id,
+            event,
+            payload: defaultEnvelope,
+            response: `Transform failed: ${err.message}`,
+            success: false,
+            attempt: 1,
+            maxAttempts: 1,
+          });
+          return;
+        }
+      } else {
+        // Apply payload template if configured, otherwise use the default envelope
+        const customPayload = applyPayloadTemplate(sub.payloadTemplate, {
+          ...payload,
+          event,
+          organizationId,
+          timestamp: defaultEnvelope.timestamp,
+        });
+        finalPayload = customPayload ?? defaultEnvelope;
+      }
 
       await webhookDeliveryQueue.add(
         'deliver-subscription-webhook',
@@ -441,7 +681,6 @@ export const fireEvent = async (
           payload: finalPayload,
           subscriptionId: sub.id,
           targetUrl: sub.targetUrl,
-          secret: sub.secret,
         },
       );
     } catch (err) {
@@ -460,33 +699,91 @@ export const fireEvent = async (
 // Direct delivery (used for test endpoint and subscription delivery worker)
 // ---------------------------------------------------------------------------
 
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+type DeliveryResponse = Pick<Response, 'ok' | 'status' | 'text'>;
+
+/**
+ * POST a signed body. fetch cannot present a client certificate, so
+ * mutual TLS deliveries go through https.request instead.
+ */
+const postWebhook = (
+  targetUrl: string,
+  headers: Record<string, string>,
+  body: string,
+  clientCertificate?: ClientCertificate | null,
+): Promise<DeliveryResponse> => {
+  if (!clientCertificate) {
+    return fetch(targetUrl, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+  }
+
+  const url = new URL(targetUrl);
+  if (url.protocol !== 'https:') {
+    return Promise.reject(new Error('Mutual TLS requires an https target URL'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const req = https.request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+        cert: clientCertificate.cert,
+        key: clientCertificate.key,
+        timeout: DELIVERY_TIMEOUT_MS,
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('error', reject);
+        res.on('end', () => {
+          const status = res.statusCode ?? 0;
+          const text = Buffer.concat(chunks).toString('utf8');
+          resolve({ ok: status >= 200 && status < 300, status, text: async () => text });
+        });
+      },
+    );
+    req.on('timeout', () => req.destroy(new Error('The operation was aborted due to timeout')));
+    req.on('error', reject);
+    req.end(body);
+  });
+};
+
+/**
+ * Signing config for a stored subscription, read at delivery time so a
+ * rotation or certificate change applies to queued retries too.
+ */
+export const getSubscriptionSigningConfig = async (subscriptionId: string): Promise<SigningConfig | null> => {
+  const subscription = await prisma.webhookSubscription.findUnique({ where: { id: subscriptionId } });
+  return subscription ? getSigningConfig(subscription) : null;
+};
+
 /**
  * Immediately delivers a payload to a specific subscription URL.
  * Returns the delivery result for logging.
+ *
+ * `secret` may be a plain secret or a full signing config (rotation window,
+ * client certificate). `messageId` becomes the `webhook-id` header and should
+ * stay the same across retries of one event so receivers can deduplicate.
  */
 export const deliverToSubscription = async (
   targetUrl: string,
-  secret: string,
+  secret: string | SigningConfig,
   event: string,
   payload: Record<string, unknown>,
+  messageId?: string,
 ): Promise<{ success: boolean; statusCode?: number; error?: string }> => {
+  const config = typeof secret === 'string' ? { secret } : secret;
   const body = JSON.stringify(payload);
-  const signature = crypto
-    .createHmac('sha256', secret)
-    .update(body)
-    .digest('hex');
+  const headers = buildSignatureHeaders(config, { messageId, event, body });
 
   try {
-    const response = await fetch(targetUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Sigscore-Signature': `sha256=${signature}`,
-        'X-Sigscore-Event': event,
-      },
-      body,
-      signal: AbortSignal.timeout(10000),
-    });
+    const response = await postWebhook(targetUrl, headers, body, config.clientCertificate);
 
     return { success: response.ok, statusCode: response.status };
   } catch (err) {
@@ -554,7 +851,7 @@ export const getSubscriptionWithDeliveryStats = async (
   const failureRate = total > 0 ? Math.round((failed / total) * 100) : 0;
 
   return {
-    ...subscription,
+    ...toPublicSubscription(subscription),
     deliveryStats: {
       period: '7d',
       total,
@@ -572,10 +869,11 @@ export const getSubscriptionWithDeliveryStats = async (
 
 /**
  * Mark a subscription as FAILING after exhausting all retry attempts.
+ * A running replay owns the status until it finishes, so REPLAYING is left as is.
  */
 export const markSubscriptionFailing = async (subscriptionId: string) => {
-  return prisma.webhookSubscription.update({
-    where: { id: subscriptionId },
+  return prisma.webhookSubscription.updateMany({
+    where: { id: subscriptionId, status: { not: 'REPLAYING' } },
     data: { status: 'FAILING' },
   });
 };
@@ -584,8 +882,8 @@ export const markSubscriptionFailing = async (subscriptionId: string) => {
  * Clear the FAILING status back to HEALTHY after a successful delivery.
  */
 export const markSubscriptionHealthy = async (subscriptionId: string) => {
-  return prisma.webhookSubscription.update({
-    where: { id: subscriptionId },
+  return prisma.webhookSubscription.updateMany({
+    where: { id: subscriptionId, status: 'FAILING' },
     data: { status: 'HEALTHY' },
   });
 };
@@ -646,12 +944,34 @@ const TEST_PAYLOADS: Record<string, Record<string, unknown>> = {
     email: 'jane@example.com',
     title: 'Senior Engineer',
   },
+  'contact.merged': {
+    id: 'contact_test_456',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    email: 'jane@example.com',
+    companyId: 'company_test_789',
+    mergedContactIds: ['contact_test_457'],
+  },
   'company.created': {
     id: 'company_test_789',
     name: 'Acme Corp',
     domain: 'acme.com',
     industry: 'Technology',
   },
+  'company.updated': {
+    id: 'company_test_789',
+    name: 'Acme Corp',
+    domain: 'acme.com',
+    industry: 'Developer Tools',
+    changedFields: ['industry'],
+  },
+  'company.merged': {
+    id: 'company_test_789',
+    name: 'Acme Corp',
+    domain: 'acme.com',
+    industry: 'Developer Tools',
+    mergedCompanyIds: ['company_test_790'],
+  },
   'deal.created': {
     id: 'deal_test_101',
     title: 'Acme Corp - Pro Plan',
@@ -659,6 +979,14 @@ const TEST_PAYLOADS: Record<string, Record<string, unknown>> = {
     stage: 'IDENTIFIED',
     companyId: 'company_test_789',
   },
+  'deal.updated': {
+    id: 'deal_test_101',
+    title: 'Acme Corp - Pro Plan',
+    amount: 12000,
+    stage: 'SALES_QUALIFIED',
+    companyId: 'company_test_789',
+    changedFields: ['amount'],
+  },
   'deal.stage_changed': {
     id: 'deal_test_101',
     title: 'Acme Corp - Pro Plan',
@@ -667,6 +995,25 @@ const TEST_PAYLOADS: Record<string, Record<string, unknown>> = {
     previousStage: 'EXPANSION_SIGNAL',
     companyId: 'company_test_789',
   },
+  'deal.closed': {
+    id: 'deal_test_101',
+    title: 'Acme Corp - Pro Plan',
+    amount: 12000,
+    stage: 'CLOSED_WON',
+    previousStage: 'NEGOTIATION',
+    outcome: 'won',
+    companyId: 'company_test_789',
+  },
+  'note.created': {
+    id: 'note_test_202',
+    entityType: 'company',
+    entityId: 'company_test_789',
+    accountId: 'company_test_789',
+    content: 'Spoke with their platform team about the Pro plan.',
+    authorId: 'user_test_303',
+    mentions: [],
+    createdAt: new Date().toISOString(),
+  },
   'score.changed': {
     accountId: 'company_test_789',
     accountName: 'Acme Corp',
@@ -682,6 +1029,52 @@ const TEST_PAYLOADS: Record<string, Record<string, unknown>> = {
     newScore: 82,
     oldTier: 'WARM',
     newTier: 'HOT',
+    direction: 'up',
+  },
+  'contact.score_changed': {
+    contactId: 'contact_test_456',
+    contactName: 'Jane Doe',
+    email: 'jane@example.com',
+    companyId: 'company_test_789',
+    oldScore: 38,
+    newScore: 74,
+    oldTier: 'COLD',
+    newTier: 'HOT',
+  },
+  'anomaly.detected': {
+    accountId: 'company_test_789',
+    accountName: 'Acme Corp',
+    anomalyType: 'SPIKE',
+    severity: 'high',
+    todayCount: 148,
+    expectedMin: 12,
+    expectedMax: 40,
+    zScore: 4.2,
+  },
+  'alert.triggered': {
+    ruleId: 'alert_rule_test_404',
+    ruleName: 'Hot account',
+    triggerType: 'score_threshold',
+    accountId: 'company_test_789',
+    accountName: 'Acme Corp',
+    reason: 'Score rose to 82 (threshold 80)',
+    oldScore: 45,
+    newScore: 82,
+  },
+  'workflow.run_failed': {
+    workflowId: 'workflow_test_505',
+    workflowName: 'Route hot accounts',
+    runId: 'run_test_606',
+    failedStepId: 'step_2',
+    error: 'Slack webhook returned 404',
+  },
+  'enrichment.completed': {
+    entityType: 'company',
+    entityId: 'company_test_789',
+    accountId: 'company_test_789',
+    provider: 'clearbit',
+    fieldsUpdated: ['industry', 'size', 'customFields.techStack'],
+    cached: false,
   },
 };
 
@@ -689,6 +1082,54 @@ export const getTestPayload = (event: string): Record<string, unknown> => {
   return TEST_PAYLOADS[event] || { message: 'Test event', event };
 };
 
+// ---------------------------------------------------------------------------
+// Transform preview
+// ---------------------------------------------------------------------------
+
+export interface TransformPreviewResult {
+  success: boolean;
+  /** Envelope the transform ran against */
+  input: Record<string, unknown>;
+  output: Record<string, unknown> | null;
+  error: string | null;
+  /** Character offset of the error in the expression, when known */
+  position: number | null;
+  duration: number;
+}
+
+/**
+ * Runs a transform against the test payload for an event (or `data`, when
+ * given) wrapped in the default envelope, exactly as fireEvent would.
+ * Transform errors are reported in the result rather than thrown.
+ */
+export const previewTransform = (
+  organizationId: string,
+  input: { event: string; transform: string; data?: Record<string, unknown> },
+): TransformPreviewResult => {
+  const envelope = {
+    event: input.event,
+    timestamp: new Date().toISOString(),
+    organizationId,
+    data: input.data ?? getTestPayload(input.event),
+  };
+  const startTime = Date.now();
+
+  try {
+    const output = applyTransform(input.transform, envelope);
+    return { success: true, input: envelope, output, error: null, position: null, duration: Date.now() - startTime };
+  } catch (err) {
+    if (!(err instanceof TransformError)) throw err;
+    return {
+      success: false,
+      input: envelope,
+      output: null,
+      error: err.message,
+      position: err.position ?? null,
+      duration: Date.now() - startTime,
+    };
+  }
+};
+
 // ---------------------------------------------------------------------------
 // Send test webhook (synchronous, records delivery, returns timing)
 // ---------------------------------------------------------------------------
@@ -729,16 +1170,8 @@ export const sendTestWebhook = async (
   };
 
   const body = JSON.stringify(envelope);
-  const signature = crypto
-    .createHmac('sha256', subscription.secret)
-    .update(body)
-    .digest('hex');
-
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'X-Sigscore-Signature': `sha256=${signature}`,
-    'X-Sigscore-Event': subscription.event,
-  };
+  const signing = getSigningConfig(subscription);
+  const headers = buildSignatureHeaders(signing, { event: subscription.event, body });
 
   let success = false;
   let statusCode: number | null = null;
@@ -746,12 +1179,7 @@ export const sendTestWebhook = async (
   const startTime = Date.now();
 
   try {
-    const res = await fetch(subscription.targetUrl, {
-      method: 'POST',
-      headers,
-      body,
-      signal: AbortSignal.timeout(10_000),
-    });
+    const res = await postWebhook(subscription.targetUrl, headers, body, signing.clientCertificate);
 
     statusCode = res.status;
     success = res.ok;
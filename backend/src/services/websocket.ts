@@ -1,12 +1,13 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
 import jwt from 'jsonwebtoken';
 import { config } from '../config';
 import { logger } from '../utils/logger';
 import { prisma } from '../config/database';
 
 interface SubscriptionFilter {
-  events?: string[];      // event types to receive: 'signal', 'score', 'tier', 'anomaly', 'deal', 'contact'
+  events?: string[];      // event types to receive: 'signal', 'score', 'tier', 'anomaly', 'deal', 'contact', 'import'
   accountIds?: string[];  // specific accounts to follow (empty = all)
 }
 
@@ -17,16 +18,43 @@ interface AuthenticatedSocket extends WebSocket {
   subscriptionFilter?: SubscriptionFilter;
 }
 
+/** In-process listener for an organization's events (e.g. GraphQL subscriptions). */
+export type OrgEventListener = (event: { type: string; data: unknown }) => void;
+
 // Track connections by organizationId
 const orgConnections = new Map<string, Set<AuthenticatedSocket>>();
+const orgListeners = new Map<string, Set<OrgEventListener>>();
 
 let wss: WebSocketServer;
 
+// Several WebSocket servers share the HTTP server, so upgrades are routed by
+// path here; ws servers attached with `server` would reject each other's paths.
+const upgradeRoutes = new Map<string, WebSocketServer>();
+
+/**
+ * Serves WebSocket upgrades for `path` with the given (noServer) WebSocket
+ * server. Must be called before initWebSocket() attaches the router.
+ */
+export function registerWebSocketRoute(path: string, server: WebSocketServer): void {
+  upgradeRoutes.set(path, server);
+}
+
+function routeUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+  const { pathname } = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const target = upgradeRoutes.get(pathname);
+  if (!target) {
+    socket.destroy();
+    return;
+  }
+  target.handleUpgrade(req, socket, head, (ws) => {
+    target.emit('connection', ws, req);
+  });
+}
+
 export function initWebSocket(server: Server): void {
   const allowedOrigin = config.corsOrigin;
   wss = new WebSocketServer({
-    server,
-    path: '/ws',
+    noServer: true,
     perMessageDeflate: false,
     verifyClient: ({ origin }, cb) => {
       // In development, allow all origins
@@ -147,6 +175,9 @@ export function initWebSocket(server: Server): void {
 
   wss.on('close', () => clearInterval(interval));
 
+  registerWebSocketRoute('/ws', wss);
+  server.on('upgrade', routeUpgrade);
+
   logger.info('WebSocket server initialized on /ws');
 }
 
@@ -161,6 +192,7 @@ const EVENT_CATEGORY_MAP: Record<string, string> = {
   'anomaly': 'anomaly',
   'deal': 'deal',
   'contact': 'contact',
+  'import': 'import',
 };
 
 /**
@@ -215,6 +247,14 @@ export function broadcast(
   event: { type: string; data: unknown },
   accountId?: string,
 ): void {
+  orgListeners.get(organizationId)?.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (err) {
+      logger.error('Org event listener error:', err);
+    }
+  });
+
   const connections = orgConnections.get(organizationId);
   if (!connections || connections.size === 0) return;
 
@@ -304,6 +344,46 @@ export function broadcastAnomaly(
   );
 }
 
+// ---------------------------------------------------------------------------
+// CSV import broadcasters
+// ---------------------------------------------------------------------------
+
+export function broadcastImportProgress(
+  organizationId: string,
+  event: 'progress' | 'completed' | 'failed',
+  data: {
+    importId: string;
+    entityType: string;
+    status: string;
+    totalRows: number;
+    processedRows: number;
+    imported: number;
+    skipped: number;
+    error?: string;
+  },
+): void {
+  broadcast(organizationId, { type: `import.${event}`, data });
+}
+
+/**
+ * Listens to every event broadcast to an organization, in this process.
+ * Returns a function that removes the listener.
+ */
+export function onOrgEvent(organizationId: string, listener: OrgEventListener): () => void {
+  if (!orgListeners.has(organizationId)) {
+    orgListeners.set(organizationId, new Set());
+  }
+  orgListeners.get(organizationId)!.add(listener);
+
+  return () => {
+    const listeners = orgListeners.get(organizationId);
+    listeners?.delete(listener);
+    if (listeners?.size === 0) {
+      orgListeners.delete(organizationId);
+    }
+  };
+}
+
 export function getConnectionCount(organizationId?: string): number {
   if (organizationId) {
     return orgConnections.get(organizationId)?.size || 0;
@@ -316,7 +396,5 @@ export function getConnectionCount(organizationId?: string): number {
 }
 
 export function shutdownWebSocket(): void {
-  if (wss) {
-    wss.close();
-  }
+  upgradeRoutes.forEach((server) => server.close());
 }
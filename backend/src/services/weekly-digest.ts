@@ -149,6 +149,7 @@ export async function generateWeeklyDigest(
       SELECT DISTINCT ON ("companyId") "companyId", score
       FROM score_snapshots
       WHERE "organizationId" = ${organizationId}
+        AND "modelId" IS NULL
         AND "capturedAt" < ${periodStart}
       ORDER BY "companyId", "capturedAt" DESC
     `,
@@ -3,7 +3,14 @@ import { prisma } from '../config/database';
 import { AppError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { getSlackWebhookUrl } from './slack-notifications';
-import { notifyOrgUsers } from './notifications';
+import { createNotification, notifyOrgUsers } from './notifications';
+import { enrollContact } from './email-sequences';
+import { createNote } from './notes';
+import { createActivity } from './activities';
+import { setCustomFieldValue } from './custom-fields';
+import { getScoringConfig, computeTierWithThresholds } from './scoring-rules';
+import { enqueueWorkflowResume } from '../jobs/producers';
+import { fireWorkflowRunFailed } from './webhook-events';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -30,16 +37,47 @@ export interface WorkflowCondition {
 }
 
 export interface WorkflowAction {
-  type: 'create_deal' | 'update_deal_stage' | 'send_webhook' | 'send_slack' | 'add_tag' | 'log';
+  type:
+    | 'create_deal'
+    | 'update_deal_stage'
+    | 'send_webhook'
+    | 'send_slack'
+    | 'add_tag'
+    | 'log'
+    | 'enroll_in_sequence'
+    | 'create_note'
+    | 'assign_owner'
+    | 'set_custom_field'
+    | 'create_task'
+    | 'send_notification';
   params: Record<string, unknown>;
 }
 
+export type WaitUnit = 'minutes' | 'hours' | 'days';
+
+/**
+ * A node in a graph workflow. Execution starts at the first step and follows
+ * `next` (or `onTrue` / `onFalse` for branches) until a step has no successor.
+ */
+export type WorkflowStep =
+  | { id: string; type: 'action'; action: WorkflowAction; next?: string | null }
+  | { id: string; type: 'wait'; duration: { amount: number; unit: WaitUnit }; next?: string | null }
+  | {
+      id: string;
+      type: 'branch';
+      conditions: WorkflowCondition[];
+      onTrue?: string | null;
+      onFalse?: string | null;
+    }
+  | { id: string; type: 'goto'; target: string };
+
 export interface CreateWorkflowData {
   name: string;
   description?: string;
   trigger: WorkflowTrigger;
   conditions?: WorkflowCondition[];
-  actions: WorkflowAction[];
+  actions?: WorkflowAction[];
+  steps?: WorkflowStep[];
   enabled?: boolean;
 }
 
@@ -49,9 +87,98 @@ export interface UpdateWorkflowData {
   trigger?: WorkflowTrigger;
   conditions?: WorkflowCondition[];
   actions?: WorkflowAction[];
+  steps?: WorkflowStep[] | null;
   enabled?: boolean;
 }
 
+/** Upper bound on steps executed per run segment, guards against goto loops. */
+const MAX_STEPS_PER_RUN = 100;
+
+const WAIT_UNIT_MS: Record<WaitUnit, number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+// ---------------------------------------------------------------------------
+// Graph helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Converts a flat action list (the original workflow format) into an
+ * equivalent linear graph so both formats run through the same engine.
+ */
+export const buildLinearSteps = (actions: WorkflowAction[]): WorkflowStep[] => {
+  return actions.map((action, i) => ({
+    id: `step_${i + 1}`,
+    type: 'action' as const,
+    action,
+    next: i < actions.length - 1 ? `step_${i + 2}` : null,
+  }));
+};
+
+/**
+ * Returns the graph to execute for a stored workflow: its explicit steps when
+ * present, otherwise the linear graph derived from its actions.
+ */
+export const getWorkflowSteps = (workflow: { steps: unknown; actions: unknown }): WorkflowStep[] => {
+  const steps = workflow.steps as WorkflowStep[] | null;
+  if (Array.isArray(steps) && steps.length > 0) return steps;
+  return buildLinearSteps((workflow.actions ?? []) as WorkflowAction[]);
+};
+
+/**
+ * Validates a workflow graph: step ids must be unique, every edge must point
+ * at an existing step, and wait durations must be positive.
+ */
+export const validateWorkflowSteps = (steps: WorkflowStep[]): void => {
+  if (steps.length === 0) {
+    throw new AppError('Workflow graph must contain at least one step', 400);
+  }
+
+  const ids = new Set<string>();
+  for (const step of steps) {
+    if (ids.has(step.id)) {
+      throw new AppError(`Duplicate workflow step id "${step.id}"`, 400);
+    }
+    ids.add(step.id);
+  }
+
+  const assertTarget = (from: string, target: string | null | undefined) => {
+    if (target && !ids.has(target)) {
+      throw new AppError(`Step "${from}" points to unknown step "${target}"`, 400);
+    }
+  };
+
+  for (const step of steps) {
+    switch (step.type) {
+      case 'action':
+        assertTarget(step.id, step.next);
+        break;
+      case 'wait':
+        if (!(step.duration.amount > 0)) {
+          throw new AppError(`Wait step "${step.id}" must have a positive duration`, 400);
+        }
+        assertTarget(step.id, step.next);
+        break;
+      case 'branch':
+        assertTarget(step.id, step.onTrue);
+        assertTarget(step.id, step.onFalse);
+        break;
+      case 'goto':
+        if (!step.target) {
+          throw new AppError(`Goto step "${step.id}" requires a target`, 400);
+        }
+        assertTarget(step.id, step.target);
+        break;
+    }
+  }
+};
+
+/** Flattens the action nodes of a graph, used to keep `Workflow.actions` in sync. */
+const actionsFromSteps = (steps: WorkflowStep[]): WorkflowAction[] =>
+  steps.flatMap((step) => (step.type === 'action' ? [step.action] : []));
+
 // ---------------------------------------------------------------------------
 // CRUD
 // ---------------------------------------------------------------------------
@@ -109,13 +236,22 @@ export const getWorkflow = async (id: string, organizationId: string) => {
 };
 
 export const createWorkflow = async (organizationId: string, data: CreateWorkflowData) => {
+  if (data.steps) {
+    validateWorkflowSteps(data.steps);
+  } else if (!data.actions || data.actions.length === 0) {
+    throw new AppError('Workflow requires at least one action or a step graph', 400);
+  }
+
+  const actions = data.steps ? actionsFromSteps(data.steps) : data.actions!;
+
   return prisma.workflow.create({
     data: {
       name: data.name,
       description: data.description,
       trigger: data.trigger as unknown as Prisma.InputJsonValue,
       conditions: (data.conditions ?? []) as unknown as Prisma.InputJsonValue,
-      actions: data.actions as unknown as Prisma.InputJsonValue,
+      actions: actions as unknown as Prisma.InputJsonValue,
+      ...(data.steps && { steps: data.steps as unknown as Prisma.InputJsonValue }),
       enabled: data.enabled ?? true,
       organization: { connect: { id: organizationId } },
     },
@@ -132,6 +268,23 @@ export const updateWorkflow = async (
     throw new AppError('Workflow not found', 404);
   }
 
+  if (data.steps) {
+    validateWorkflowSteps(data.steps);
+  }
+
+  // A graph workflow runs its steps, so new actions would be stored but never
+  // executed. Actions are derived from the graph until steps is cleared.
+  const keepsGraph =
+    data.steps !== undefined
+      ? data.steps !== null
+      : Array.isArray(existing.steps) && existing.steps.length > 0;
+  if (data.actions !== undefined && keepsGraph) {
+    throw new AppError(
+      'Workflow uses a step graph; update steps instead, or set steps to null to edit actions',
+      400,
+    );
+  }
+
   return prisma.workflow.update({
     where: { id },
     data: {
@@ -146,6 +299,12 @@ export const updateWorkflow = async (
       ...(data.actions !== undefined && {
         actions: data.actions as unknown as Prisma.InputJsonValue,
       }),
+      ...(data.steps && {
+        steps: data.steps as unknown as Prisma.InputJsonValue,
+        actions: actionsFromSteps(data.steps) as unknown as Prisma.InputJsonValue,
+      }),
+      // Explicit null converts a graph workflow back to a linear action list
+      ...(data.steps === null && { steps: Prisma.DbNull }),
       ...(data.enabled !== undefined && { enabled: data.enabled }),
     },
   });
@@ -188,44 +347,6 @@ export const getWorkflowRuns = async (
 // Condition evaluation
 // ---------------------------------------------------------------------------
 
-export const evaluateConditions = (
-  conditions: WorkflowCondition[],
-  context: Record<string, unknown>,
-): boolean => {
-  if (!conditions || conditions.length === 0) return true;
-
-  return conditions.every((condition) => {
-    const actual = context[condition.field];
-    const expected = condition.value;
-
-    switch (condition.operator) {
-      case 'eq':
-        return actual === expected;
-      case 'neq':
-        return actual !== expected;
-      case 'gt':
-        return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
-      case 'gte':
-        return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
-      case 'lt':
-        return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
-      case 'lte':
-        return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
-      case 'contains':
-        return typeof actual === 'string' && typeof expected === 'string' && actual.includes(expected);
-      case 'in':
-        return Array.isArray(expected) && expected.includes(actual);
-      default:
-        logger.warn(`Unknown condition operator: ${(condition as WorkflowCondition).operator}`);
-        return false;
-    }
-  });
-};
-
-// ---------------------------------------------------------------------------
-// Template variable interpolation
-// ---------------------------------------------------------------------------
-
 /**
  * Resolves a dot-notation path against a nested object.
  * e.g. resolveNestedValue({ contact: { email: 'a@b.c' } }, 'contact.email') => 'a@b.c'
@@ -246,6 +367,85 @@ const resolveNestedValue = (
   return current;
 };
 
+/**
+ * Looks up a condition field in the context. Flat keys take precedence;
+ * dotted fields (e.g. "account.tier") resolve into nested objects.
+ */
+const lookupConditionField = (context: Record<string, unknown>, field: string): unknown =>
+  field in context ? context[field] : resolveNestedValue(context, field);
+
+const evaluateCondition = (
+  condition: WorkflowCondition,
+  context: Record<string, unknown>,
+): boolean => {
+  const actual = lookupConditionField(context, condition.field);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'gt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+    case 'gte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+    case 'lt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+    case 'lte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+    case 'contains':
+      return typeof actual === 'string' && typeof expected === 'string' && actual.includes(expected);
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    default:
+      logger.warn(`Unknown condition operator: ${(condition as WorkflowCondition).operator}`);
+      return false;
+  }
+};
+
+export const evaluateConditions = (
+  conditions: WorkflowCondition[],
+  context: Record<string, unknown>,
+): boolean => {
+  if (!conditions || conditions.length === 0) return true;
+
+  return conditions.every((condition) => evaluateCondition(condition, context));
+};
+
+/**
+ * Per-condition breakdown of `evaluateConditions`, reporting the value each
+ * field resolved to and whether it matched. Used by workflow simulation.
+ */
+export const explainConditions = (
+  conditions: WorkflowCondition[],
+  context: Record<string, unknown>,
+): Array<WorkflowCondition & { actual: unknown; matched: boolean }> => {
+  return (conditions ?? []).map((condition) => ({
+    ...condition,
+    actual: lookupConditionField(context, condition.field),
+    matched: evaluateCondition(condition, context),
+  }));
+};
+
+/**
+ * True when an event matches a workflow trigger: same event name and every
+ * trigger filter key/value present in the event data.
+ */
+export const matchesTrigger = (
+  trigger: WorkflowTrigger,
+  event: string,
+  eventData: Record<string, unknown>,
+): boolean => {
+  if (trigger.event !== event) return false;
+  if (!trigger.filters) return true;
+  return Object.entries(trigger.filters).every(([key, value]) => eventData[key] === value);
+};
+
+// ---------------------------------------------------------------------------
+// Template variable interpolation
+// ---------------------------------------------------------------------------
+
 /**
  * Replaces all `{{key}}` and `{{nested.key}}` placeholders in a template
  * string with the corresponding values from eventData. Unresolved
@@ -292,6 +492,110 @@ export const interpolateActionParams = (
   return interpolateValue(params) as Record<string, unknown>;
 };
 
+// ---------------------------------------------------------------------------
+// Action helpers
+// ---------------------------------------------------------------------------
+
+type EntityType = 'contact' | 'company' | 'deal';
+
+/**
+ * Picks the record an action applies to: explicit `entityType` / `entityId`
+ * params win, otherwise the first matching id in the trigger context.
+ */
+const resolveEntityTarget = (
+  params: Record<string, unknown>,
+  context: Record<string, unknown>,
+  allowed: EntityType[],
+): { entityType: EntityType; entityId: string } | null => {
+  const contextIds: Record<EntityType, unknown> = {
+    contact: context.contactId ?? context.actorId,
+    company: context.accountId ?? context.companyId,
+    deal: context.dealId,
+  };
+
+  const requested = params.entityType as EntityType | undefined;
+  if (requested) {
+    if (!allowed.includes(requested)) {
+      throw new Error(`entityType must be one of: ${allowed.join(', ')}`);
+    }
+    const entityId = (params.entityId as string) || (contextIds[requested] as string);
+    return entityId ? { entityType: requested, entityId } : null;
+  }
+
+  for (const entityType of allowed) {
+    if (contextIds[entityType]) {
+      return { entityType, entityId: contextIds[entityType] as string };
+    }
+  }
+  return null;
+};
+
+/** Accepts a list param either as an array or a comma-separated string. */
+const parseListParam = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String).filter(Boolean);
+  if (typeof value === 'string') return value.split(',').map((v) => v.trim()).filter(Boolean);
+  return [];
+};
+
+/**
+ * Resolves the user a workflow acts as for records that need an author
+ * (notes, tasks): the `userId` param when it is an org member, otherwise
+ * the organization owner.
+ */
+const resolveActingUserId = async (organizationId: string, userId?: string): Promise<string> => {
+  if (userId) {
+    const membership = await prisma.userOrganization.findFirst({
+      where: { organizationId, userId },
+      select: { userId: true },
+    });
+    if (!membership) throw new Error(`User ${userId} is not a member of this organization`);
+    return membership.userId;
+  }
+
+  const owner =
+    (await prisma.userOrganization.findFirst({
+      where: { organizationId, role: 'OWNER' },
+      orderBy: { createdAt: 'asc' },
+      select: { userId: true },
+    })) ??
+    (await prisma.userOrganization.findFirst({
+      where: { organizationId },
+      orderBy: { createdAt: 'asc' },
+      select: { userId: true },
+    }));
+  if (!owner) throw new Error('Organization has no members to act as');
+  return owner.userId;
+};
+
+/**
+ * Round-robin over org members (excluding viewers, optionally restricted to
+ * `candidateIds`). The organization's assignment counter is incremented
+ * atomically, so concurrent runs never land on the same pointer value.
+ */
+const pickRoundRobinOwner = async (
+  organizationId: string,
+  candidateIds: string[],
+): Promise<string> => {
+  const members = await prisma.userOrganization.findMany({
+    where: {
+      organizationId,
+      role: { not: 'VIEWER' },
+      ...(candidateIds.length > 0 && { userId: { in: candidateIds } }),
+    },
+    orderBy: { createdAt: 'asc' },
+    select: { userId: true },
+  });
+  if (members.length === 0) throw new Error('No eligible members for owner assignment');
+
+  const { ownerAssignmentCount } = await prisma.organization.update({
+    where: { id: organizationId },
+    data: { ownerAssignmentCount: { increment: 1 } },
+    select: { ownerAssignmentCount: true },
+  });
+
+  return members[(ownerAssignmentCount - 1) % members.length].userId;
+};
+
 // ---------------------------------------------------------------------------
 // Action execution
 // ---------------------------------------------------------------------------
@@ -452,11 +756,337 @@ export const executeAction = async (
       return { type: 'log', logged: true };
     }
 
+    case 'enroll_in_sequence': {
+      const sequenceId = action.params.sequenceId as string;
+      if (!sequenceId) throw new Error('enroll_in_sequence requires a sequenceId param');
+      const contactId =
+        (action.params.contactId as string) ||
+        (context.contactId as string) ||
+        (context.actorId as string);
+      if (!contactId) {
+        return { type: 'enroll_in_sequence', status: 'skipped', reason: 'no_contact_in_context' };
+      }
+
+      const sequence = await prisma.emailSequence.findFirst({
+        where: { id: sequenceId, organizationId },
+        select: { id: true },
+      });
+      if (!sequence) throw new Error(`Email sequence ${sequenceId} not found in organization`);
+
+      try {
+        const enrollment = await enrollContact(sequenceId, contactId, organizationId);
+        logger.info(`Workflow action: enrolled contact ${contactId} in sequence ${sequenceId}`);
+        return { type: 'enroll_in_sequence', sequenceId, contactId, enrollmentId: enrollment.id };
+      } catch (err) {
+        // Re-enrolling an active contact is a no-op, not a workflow failure
+        if (err instanceof AppError && err.statusCode === 409) {
+          return { type: 'enroll_in_sequence', sequenceId, contactId, status: 'skipped', reason: 'already_enrolled' };
+        }
+        throw err;
+      }
+    }
+
+    case 'create_note': {
+      const content = action.params.content as string;
+      if (!content) throw new Error('create_note requires a content param');
+      const target = resolveEntityTarget(action.params, context, ['contact', 'company', 'deal']);
+      if (!target) {
+        return { type: 'create_note', status: 'skipped', reason: 'no_entity_in_context' };
+      }
+
+      const authorId = await resolveActingUserId(organizationId, action.params.authorId as string | undefined);
+      const note = await createNote({ organizationId, authorId, ...target, content });
+      logger.info(`Workflow action: created note ${note.id} on ${target.entityType} ${target.entityId}`);
+      return { type: 'create_note', noteId: note.id, ...target };
+    }
+
+    case 'assign_owner': {
+      const target = resolveEntityTarget(action.params, context, ['deal', 'company']);
+      if (!target) {
+        return { type: 'assign_owner', status: 'skipped', reason: 'no_entity_in_context' };
+      }
+
+      const ownerId = action.params.ownerId
+        ? await resolveActingUserId(organizationId, action.params.ownerId as string)
+        : await pickRoundRobinOwner(organizationId, parseListParam(action.params.userIds));
+
+      if (target.entityType === 'deal') {
+        const deal = await prisma.deal.findFirst({ where: { id: target.entityId, organizationId } });
+        if (!deal) throw new Error(`Deal ${target.entityId} not found in organization`);
+        await prisma.deal.update({ where: { id: target.entityId }, data: { ownerId } });
+      } else {
+        const company = await prisma.company.findFirst({ where: { id: target.entityId, organizationId } });
+        if (!company) throw new Error(`Company ${target.entityId} not found in organization`);
+        await prisma.company.update({ where: { id: target.entityId }, data: { ownerId } });
+      }
+
+      logger.info(`Workflow action: assigned ${target.entityType} ${target.entityId} to ${ownerId}`);
+      return { type: 'assign_owner', ...target, ownerId };
+    }
+
+    case 'set_custom_field': {
+      const field = action.params.field as string;
+      if (!field) throw new Error('set_custom_field requires a field param');
+      const target = resolveEntityTarget(action.params, context, ['contact', 'company']);
+      if (!target) {
+        return { type: 'set_custom_field', status: 'skipped', reason: 'no_entity_in_context' };
+      }
+
+      const value = await setCustomFieldValue(
+        organizationId,
+        target.entityType as 'contact' | 'company',
+        target.entityId,
+        field,
+        action.params.value,
+      );
+      logger.info(`Workflow action: set custom field "${field}" on ${target.entityType} ${target.entityId}`);
+      return { type: 'set_custom_field', ...target, field, value };
+    }
+
+    case 'create_task': {
+      const title = (action.params.title as string) || 'Follow up';
+      const userId = await resolveActingUserId(organizationId, action.params.assigneeId as string | undefined);
+      const dueInDays = Number(action.params.dueInDays);
+      const priority = ((action.params.priority as string) || 'MEDIUM').toUpperCase();
+      if (!['LOW', 'MEDIUM', 'HIGH', 'URGENT'].includes(priority)) {
+        throw new Error('create_task priority must be one of LOW, MEDIUM, HIGH, URGENT');
+      }
+
+      const contactId = (context.contactId ?? context.actorId) as string | undefined;
+      const companyId = (context.accountId ?? context.companyId) as string | undefined;
+      const dealId = context.dealId as string | undefined;
+
+      // Trigger context is caller-supplied, so only link records this org owns
+      const [contact, company, deal] = await Promise.all([
+        contactId ? prisma.contact.findFirst({ where: { id: contactId, organizationId }, select: { id: true } }) : null,
+        companyId ? prisma.company.findFirst({ where: { id: companyId, organizationId }, select: { id: true } }) : null,
+        dealId ? prisma.deal.findFirst({ where: { id: dealId, organizationId }, select: { id: true } }) : null,
+      ]);
+      if (contactId && !contact) throw new Error(`Contact ${contactId} not found in organization`);
+      if (companyId && !company) throw new Error(`Company ${companyId} not found in organization`);
+      if (dealId && !deal) throw new Error(`Deal ${dealId} not found in organization`);
+
+      const task = await createActivity(organizationId, userId, {
+        type: 'TASK',
+        title,
+        description: (action.params.description as string) || undefined,
+        priority: priority as Prisma.ActivityCreateInput['priority'],
+        ...(dueInDays > 0 && { dueDate: new Date(Date.now() + dueInDays * WAIT_UNIT_MS.days) }),
+        ...(contactId && { contact: { connect: { id: contactId } } }),
+        ...(companyId && { company: { connect: { id: companyId } } }),
+        ...(dealId && { deal: { connect: { id: dealId } } }),
+      } as Prisma.ActivityCreateInput);
+      logger.info(`Workflow action: created task ${task.id} for user ${userId}`);
+      return { type: 'create_task', activityId: task.id, title, assigneeId: userId, dueDate: task.dueDate };
+    }
+
+    case 'send_notification': {
+      const title = (action.params.title as string) || 'Workflow notification';
+      const body = (action.params.body as string) || undefined;
+      const target = resolveEntityTarget({}, context, ['deal', 'company', 'contact']);
+      const notification = {
+        type: 'workflow_notification',
+        title,
+        body,
+        entityType: target?.entityType,
+        entityId: target?.entityId,
+      };
+
+      const userIds = parseListParam(action.params.userIds);
+      if (userIds.length === 0) {
+        const sent = await notifyOrgUsers(organizationId, notification);
+        return { type: 'send_notification', recipients: sent.length };
+      }
+
+      const members = await prisma.userOrganization.findMany({
+        where: { organizationId, userId: { in: userIds } },
+        select: { userId: true },
+      });
+      await Promise.all(
+        members.map((m) => createNotification({ organizationId, userId: m.userId, ...notification })),
+      );
+      return { type: 'send_notification', recipients: members.length };
+    }
+
     default:
       throw new Error(`Unknown action type: ${(action as WorkflowAction).type}`);
   }
 };
 
+// ---------------------------------------------------------------------------
+// Graph execution
+// ---------------------------------------------------------------------------
+
+interface StepExecutionOutcome {
+  status: 'completed' | 'failed' | 'waiting';
+  results: Record<string, unknown>[];
+  error?: string;
+  /** Step to continue from: the next step when waiting, the failing step when failed. */
+  nextStepId?: string | null;
+  resumeAt?: Date;
+}
+
+interface StepExecutionOptions {
+  /** Resolve actions and walk waits without side effects (simulation). */
+  dryRun?: boolean;
+}
+
+/**
+ * Loads the current state of the entities referenced by a run context so
+ * branch conditions see live values (e.g. `account.tier` three days after
+ * the trigger) rather than the snapshot captured when the event fired.
+ */
+const loadLiveContext = async (
+  organizationId: string,
+  context: Record<string, unknown>,
+): Promise<Record<string, unknown>> => {
+  const live: Record<string, unknown> = {};
+
+  const accountId = (context.accountId ?? context.companyId) as string | undefined;
+  if (accountId) {
+    const accountScore = await prisma.accountScore.findFirst({
+      where: { organizationId, accountId },
+      select: { score: true, tier: true, trend: true, signalCount: true, userCount: true },
+    });
+    live.account = { id: accountId, ...(accountScore ?? { score: null, tier: null }) };
+  }
+
+  const dealId = context.dealId as string | undefined;
+  if (dealId) {
+    const deal = await prisma.deal.findFirst({
+      where: { id: dealId, organizationId },
+      select: { stage: true, amount: true, ownerId: true },
+    });
+    if (deal) live.deal = { id: dealId, ...deal };
+  }
+
+  return live;
+};
+
+/**
+ * Walks the workflow graph from `startStepId`, executing action steps and
+ * following branch / goto edges. Stops at the end of the graph, on the first
+ * failing action, or at a wait step (returning where to resume).
+ */
+const executeSteps = async (
+  organizationId: string,
+  workflowId: string,
+  steps: WorkflowStep[],
+  startStepId: string | null,
+  context: Record<string, unknown>,
+  options: StepExecutionOptions = {},
+): Promise<StepExecutionOutcome> => {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const results: Record<string, unknown>[] = [];
+  let currentId: string | null = startStepId;
+  let executed = 0;
+
+  while (currentId) {
+    const step = byId.get(currentId);
+    if (!step) {
+      return { status: 'failed', results, error: `Step "${currentId}" not found in workflow graph` };
+    }
+
+    if (++executed > MAX_STEPS_PER_RUN) {
+      return {
+        status: 'failed',
+        results,
+        error: `Run exceeded ${MAX_STEPS_PER_RUN} steps (possible goto loop)`,
+      };
+    }
+
+    switch (step.type) {
+      case 'action': {
+        try {
+          // Interpolate template variables (e.g. {{companyName}}, {{contact.email}})
+          // in action params before execution so actions receive resolved values.
+          const interpolatedAction: WorkflowAction = {
+            ...step.action,
+            params: interpolateActionParams(step.action.params, context),
+          };
+          if (options.dryRun) {
+            results.push({ stepId: step.id, type: step.action.type, params: interpolatedAction.params });
+          } else {
+            const result = await executeAction(interpolatedAction, organizationId, context);
+            results.push({ stepId: step.id, ...result });
+          }
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          logger.error(`Workflow ${workflowId} action "${step.action.type}" failed: ${error}`);
+          return { status: 'failed', results, error, nextStepId: step.id };
+        }
+        currentId = step.next ?? null;
+        break;
+      }
+
+      case 'wait': {
+        if (options.dryRun) {
+          results.push({ stepId: step.id, type: 'wait', duration: step.duration });
+          currentId = step.next ?? null;
+          break;
+        }
+        const delayMs = step.duration.amount * WAIT_UNIT_MS[step.duration.unit];
+        const resumeAt = new Date(Date.now() + delayMs);
+        results.push({ stepId: step.id, type: 'wait', resumeAt: resumeAt.toISOString() });
+        return { status: 'waiting', results, nextStepId: step.next ?? null, resumeAt };
+      }
+
+      case 'branch': {
+        const live = await loadLiveContext(organizationId, context);
+        const matched = evaluateConditions(step.conditions, { ...context, ...live });
+        results.push({ stepId: step.id, type: 'branch', matched });
+        currentId = (matched ? step.onTrue : step.onFalse) ?? null;
+        break;
+      }
+
+      case 'goto':
+        currentId = step.target;
+        break;
+
+      default:
+        return {
+          status: 'failed',
+          results,
+          error: `Unknown step type: ${(step as WorkflowStep).type}`,
+        };
+    }
+  }
+
+  return { status: 'completed', results };
+};
+
+const OUTCOME_STATUS: Record<StepExecutionOutcome['status'], WorkflowRunStatus> = {
+  completed: WorkflowRunStatus.SUCCESS,
+  failed: WorkflowRunStatus.FAILED,
+  waiting: WorkflowRunStatus.WAITING,
+};
+
+/**
+ * Fire-and-forget notification to org users when a workflow run fails.
+ */
+const notifyWorkflowFailure = (
+  organizationId: string,
+  workflow: { id: string; name: string },
+  runId: string,
+  outcome: StepExecutionOutcome,
+): void => {
+  notifyOrgUsers(organizationId, {
+    type: 'workflow_failed',
+    title: `Workflow "${workflow.name}" failed`,
+    body: outcome.error || 'An action in this workflow encountered an error',
+    entityType: 'workflow',
+    entityId: workflow.id,
+  }).catch((err) => logger.error('Workflow failure notification error:', err));
+
+  fireWorkflowRunFailed(organizationId, {
+    workflowId: workflow.id,
+    workflowName: workflow.name,
+    runId,
+    failedStepId: outcome.nextStepId ?? null,
+    error: outcome.error ?? null,
+  }).catch((err) => logger.error('Webhook fire error (workflow.run_failed):', err));
+};
+
 // ---------------------------------------------------------------------------
 // Event processing (the engine entry point)
 // ---------------------------------------------------------------------------
@@ -474,18 +1104,9 @@ export const processEvent = async (
   });
 
   // Filter workflows whose trigger matches this event
-  const matching = workflows.filter((w) => {
-    const trigger = w.trigger as unknown as WorkflowTrigger;
-    if (trigger.event !== event) return false;
-
-    // If the trigger has filters, every filter key/value must match in eventData
-    if (trigger.filters) {
-      return Object.entries(trigger.filters).every(
-        ([key, value]) => eventData[key] === value,
-      );
-    }
-    return true;
-  });
+  const matching = workflows.filter((w) =>
+    matchesTrigger(w.trigger as unknown as WorkflowTrigger, event, eventData),
+  );
 
   if (matching.length === 0) {
     logger.debug(`No workflows matched event "${event}" for org ${organizationId}`);
@@ -499,7 +1120,6 @@ export const processEvent = async (
   for (const workflow of matching) {
     const startTime = Date.now();
     const conditions = (workflow.conditions ?? []) as unknown as WorkflowCondition[];
-    const actions = workflow.actions as unknown as WorkflowAction[];
 
     // Evaluate conditions
     if (!evaluateConditions(conditions, eventData)) {
@@ -516,43 +1136,40 @@ export const processEvent = async (
       continue;
     }
 
-    // Execute all actions
-    const results: Record<string, unknown>[] = [];
-    let failed = false;
-    let errorMessage: string | undefined;
-
-    for (const action of actions) {
-      try {
-        // Interpolate template variables (e.g. {{companyName}}, {{contact.email}})
-        // in action params before execution so actions receive resolved values.
-        const interpolatedAction: WorkflowAction = {
-          ...action,
-          params: interpolateActionParams(action.params, eventData),
-        };
-        const result = await executeAction(interpolatedAction, organizationId, eventData);
-        results.push(result);
-      } catch (err) {
-        failed = true;
-        errorMessage = err instanceof Error ? err.message : String(err);
-        logger.error(`Workflow ${workflow.id} action "${action.type}" failed: ${errorMessage}`);
-        break;
-      }
-    }
+    // Walk the graph from its entry step
+    const steps = getWorkflowSteps(workflow);
+    const outcome = await executeSteps(
+      organizationId,
+      workflow.id,
+      steps,
+      steps[0]?.id ?? null,
+      eventData,
+    );
 
     const duration = Date.now() - startTime;
+    const waiting = outcome.status === 'waiting';
 
     // Record the run
-    await prisma.workflowRun.create({
+    const run = await prisma.workflowRun.create({
       data: {
         workflowId: workflow.id,
-        status: failed ? WorkflowRunStatus.FAILED : WorkflowRunStatus.SUCCESS,
+        status: OUTCOME_STATUS[outcome.status],
         triggerData: eventData as unknown as Prisma.InputJsonValue,
-        results: results as unknown as Prisma.InputJsonValue,
-        error: errorMessage ?? null,
+        results: outcome.results as unknown as Prisma.InputJsonValue,
+        error: outcome.error ?? null,
         duration,
+        ...(outcome.status !== 'completed' && {
+          currentStepId: outcome.nextStepId,
+          context: eventData as unknown as Prisma.InputJsonValue,
+        }),
+        ...(waiting && { resumeAt: outcome.resumeAt }),
       },
     });
 
+    if (waiting) {
+      await enqueueWorkflowResume(organizationId, run.id, outcome.resumeAt!);
+    }
+
     // Update the workflow metadata
     await prisma.workflow.update({
       where: { id: workflow.id },
@@ -563,18 +1180,440 @@ export const processEvent = async (
     });
 
     logger.info(
-      `Workflow ${workflow.id} "${workflow.name}" completed: ${failed ? 'FAILED' : 'SUCCESS'} (${duration}ms)`,
+      `Workflow ${workflow.id} "${workflow.name}" ${waiting ? 'paused' : 'completed'}: ${run.status} (${duration}ms)`,
     );
 
     // Notify org users when a workflow fails
-    if (failed) {
-      notifyOrgUsers(organizationId, {
-        type: 'workflow_failed',
-        title: `Workflow "${workflow.name}" failed`,
-        body: errorMessage || 'An action in this workflow encountered an error',
-        entityType: 'workflow',
-        entityId: workflow.id,
-      }).catch((err) => logger.error('Workflow failure notification error:', err));
+    if (outcome.status === 'failed') {
+      notifyWorkflowFailure(organizationId, workflow, run.id, outcome);
     }
   }
 };
+
+type WorkflowRunWithWorkflow = Prisma.WorkflowRunGetPayload<{ include: { workflow: true } }>;
+
+/**
+ * Executes a stored run from `startStepId`, appending to its results and
+ * updating status, duration and paused-run state. Shared by resume and retry.
+ */
+const continueRun = async (
+  organizationId: string,
+  run: WorkflowRunWithWorkflow,
+  startStepId: string | null,
+) => {
+  const { workflow } = run;
+  const startTime = Date.now();
+  const context = (run.context ?? run.triggerData) as Record<string, unknown>;
+  const outcome = await executeSteps(
+    organizationId,
+    workflow.id,
+    getWorkflowSteps(workflow),
+    startStepId,
+    context,
+  );
+
+  const waiting = outcome.status === 'waiting';
+  const previousResults = Array.isArray(run.results) ? (run.results as Record<string, unknown>[]) : [];
+
+  const updated = await prisma.workflowRun.update({
+    where: { id: run.id },
+    data: {
+      status: OUTCOME_STATUS[outcome.status],
+      results: [...previousResults, ...outcome.results] as unknown as Prisma.InputJsonValue,
+      error: outcome.error ?? null,
+      duration: (run.duration ?? 0) + (Date.now() - startTime),
+      currentStepId: outcome.status === 'completed' ? null : outcome.nextStepId,
+      resumeAt: waiting ? outcome.resumeAt : null,
+    },
+  });
+
+  if (waiting) {
+    await enqueueWorkflowResume(organizationId, run.id, outcome.resumeAt!);
+  }
+
+  if (outcome.status === 'failed') {
+    notifyWorkflowFailure(organizationId, workflow, run.id, outcome);
+  }
+
+  return { run: updated, outcome };
+};
+
+/**
+ * Continues a WAITING run from its stored step. Invoked by the delayed
+ * `resume-run` job that was scheduled when the run hit a wait step.
+ */
+export const resumeWorkflowRun = async (
+  organizationId: string,
+  runId: string,
+): Promise<void> => {
+  const run = await prisma.workflowRun.findFirst({
+    where: { id: runId, workflow: { organizationId } },
+    include: { workflow: true },
+  });
+
+  if (!run) {
+    logger.warn(`Workflow resume: run ${runId} not found for org ${organizationId}`);
+    return;
+  }
+  if (run.status !== WorkflowRunStatus.WAITING) {
+    logger.debug(`Workflow resume: run ${runId} is ${run.status}, nothing to do`);
+    return;
+  }
+
+  const { workflow } = run;
+  if (!workflow.enabled) {
+    await prisma.workflowRun.updateMany({
+      where: { id: run.id, status: WorkflowRunStatus.WAITING },
+      data: {
+        status: WorkflowRunStatus.CANCELLED,
+        error: 'Workflow was disabled while the run was waiting',
+        resumeAt: null,
+      },
+    });
+    logger.info(`Workflow run ${run.id} cancelled: workflow ${workflow.id} disabled`);
+    return;
+  }
+
+  // Claim the run so a duplicate or retried resume job cannot repeat its steps
+  const claimed = await prisma.workflowRun.updateMany({
+    where: { id: run.id, status: WorkflowRunStatus.WAITING },
+    data: { status: WorkflowRunStatus.RUNNING },
+  });
+  if (claimed.count !== 1) {
+    logger.debug(`Workflow resume: run ${runId} was already resumed`);
+    return;
+  }
+
+  const { outcome } = await continueRun(organizationId, run, run.currentStepId);
+
+  logger.info(
+    `Workflow ${workflow.id} run ${run.id} resumed: ${OUTCOME_STATUS[outcome.status]}`,
+  );
+};
+
+/**
+ * Re-runs a FAILED run starting at the action that failed. Steps that
+ * already succeeded are not repeated; new results are appended.
+ */
+export const retryWorkflowRun = async (
+  workflowId: string,
+  runId: string,
+  organizationId: string,
+) => {
+  const run = await prisma.workflowRun.findFirst({
+    where: { id: runId, workflowId, workflow: { organizationId } },
+    include: { workflow: true },
+  });
+
+  if (!run) {
+    throw new AppError('Workflow run not found', 404);
+  }
+  if (run.status !== WorkflowRunStatus.FAILED) {
+    throw new AppError(`Only failed runs can be retried (run is ${run.status})`, 409);
+  }
+
+  // Runs recorded before the failing step was persisted: for linear workflows
+  // the failing step directly follows the recorded results.
+  const steps = getWorkflowSteps(run.workflow);
+  const completed = Array.isArray(run.results) ? run.results.length : 0;
+  const startStepId = run.currentStepId ?? (run.workflow.steps ? null : steps[completed]?.id ?? null);
+  if (!startStepId) {
+    throw new AppError('Cannot determine the failing step for this run', 409);
+  }
+
+  // Claim the run so concurrent retries cannot replay its actions twice
+  const claimed = await prisma.workflowRun.updateMany({
+    where: { id: run.id, status: WorkflowRunStatus.FAILED },
+    data: { status: WorkflowRunStatus.RUNNING },
+  });
+  if (claimed.count !== 1) {
+    throw new AppError('Run is already being retried', 409);
+  }
+
+  const { run: updated, outcome } = await continueRun(organizationId, run, startStepId);
+
+  logger.info(
+    `Workflow ${workflowId} run ${runId} retried from step ${startStepId}: ${OUTCOME_STATUS[outcome.status]}`,
+  );
+
+  return updated;
+};
+
+// ---------------------------------------------------------------------------
+// Simulation (dry-run replay of historical events)
+// ---------------------------------------------------------------------------
+
+export interface SimulationOptions {
+  days?: number;
+  limit?: number;
+}
+
+interface HistoricalEvent {
+  occurredAt: Date;
+  data: Record<string, unknown>;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Score snapshots read per query when replaying score changes */
+const SNAPSHOT_PAGE_SIZE = 1000;
+
+/**
+ * Rebuilds past trigger events from stored records, shaped like the payloads
+ * the live producers enqueue. Returns null for triggers without history.
+ */
+const loadHistoricalEvents = async (
+  organizationId: string,
+  event: WorkflowTrigger['event'],
+  since: Date,
+  limit: number,
+): Promise<HistoricalEvent[] | null> => {
+  switch (event) {
+    case 'signal_received': {
+      const signals = await prisma.signal.findMany({
+        where: { organizationId, timestamp: { gte: since } },
+        orderBy: { timestamp: 'desc' },
+        take: limit,
+        select: { id: true, type: true, accountId: true, actorId: true, metadata: true, timestamp: true },
+      });
+      return signals.map((s) => ({
+        occurredAt: s.timestamp,
+        data: {
+          signalId: s.id,
+          type: s.type,
+          accountId: s.accountId,
+          actorId: s.actorId,
+          metadata: s.metadata ?? {},
+        },
+      }));
+    }
+
+    case 'contact_created': {
+      const contacts = await prisma.contact.findMany({
+        where: { organizationId, createdAt: { gte: since } },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        select: { id: true, firstName: true, lastName: true, email: true, companyId: true, createdAt: true },
+      });
+      return contacts.map((c) => ({
+        occurredAt: c.createdAt,
+        data: {
+          contactId: c.id,
+          firstName: c.firstName,
+          lastName: c.lastName,
+          email: c.email,
+          companyId: c.companyId,
+        },
+      }));
+    }
+
+    case 'company_created': {
+      const companies = await prisma.company.findMany({
+        where: { organizationId, createdAt: { gte: since } },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        select: { id: true, name: true, domain: true, industry: true, createdAt: true },
+      });
+      return companies.map((c) => ({
+        occurredAt: c.createdAt,
+        data: { companyId: c.id, accountId: c.id, name: c.name, domain: c.domain, industry: c.industry },
+      }));
+    }
+
+    case 'deal_created': {
+      const deals = await prisma.deal.findMany({
+        where: { organizationId, createdAt: { gte: since } },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        select: { id: true, title: true, amount: true, stage: true, companyId: true, contactId: true, createdAt: true },
+      });
+      return deals.map((d) => ({
+        occurredAt: d.createdAt,
+        data: {
+          dealId: d.id,
+          title: d.title,
+          amount: d.amount,
+          stage: d.stage,
+          companyId: d.companyId,
+          contactId: d.contactId,
+        },
+      }));
+    }
+
+    case 'deal_stage_changed': {
+      // Stage transitions are only recorded in the audit log; deal updates
+      // carry `changes` solely when the stage moved.
+      const logs = await prisma.auditLog.findMany({
+        where: {
+          organizationId,
+          entityType: 'deal',
+          action: 'update',
+          createdAt: { gte: since },
+          changes: { not: Prisma.DbNull },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        select: { entityId: true, entityName: true, changes: true, createdAt: true },
+      });
+      const entries = logs.filter((e) => (e.changes as Record<string, unknown> | null)?.stage);
+      const dealIds = [...new Set(entries.map((e) => e.entityId).filter((id): id is string => !!id))];
+      const deals = await prisma.deal.findMany({
+        where: { id: { in: dealIds }, organizationId },
+        select: { id: true, amount: true, companyId: true, contactId: true },
+      });
+      const dealMap = new Map(deals.map((d) => [d.id, d]));
+
+      return entries.map((e) => {
+        const stage = (e.changes as Record<string, { from: unknown; to: unknown }>).stage;
+        const deal = e.entityId ? dealMap.get(e.entityId) : undefined;
+        return {
+          occurredAt: e.createdAt,
+          data: {
+            dealId: e.entityId,
+            oldStage: stage.from,
+            newStage: stage.to,
+            title: e.entityName,
+            amount: deal?.amount ?? null,
+            companyId: deal?.companyId ?? null,
+            contactId: deal?.contactId ?? null,
+          },
+        };
+      });
+    }
+
+    case 'score_changed': {
+      // Consecutive score snapshots per account stand in for recomputations.
+      // Snapshots are read a page at a time and only the newest `limit`
+      // changes are kept, so long windows never load the full history.
+      const config = await getScoringConfig(organizationId);
+      const events: HistoricalEvent[] = [];
+      const newestFirst = (a: HistoricalEvent, b: HistoricalEvent) =>
+        b.occurredAt.getTime() - a.occurredAt.getTime();
+
+      let prev: { companyId: string; score: number } | null = null;
+      let cursor: string | undefined;
+      for (;;) {
+        const page = await prisma.scoreSnapshot.findMany({
+          where: {
+            organizationId,
+            modelId: null,
+            capturedAt: { gte: new Date(since.getTime() - MS_PER_DAY) },
+          },
+          orderBy: [{ companyId: 'asc' }, { capturedAt: 'asc' }, { id: 'asc' }],
+          take: SNAPSHOT_PAGE_SIZE,
+          ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+          select: { id: true, companyId: true, score: true, capturedAt: true, company: { select: { name: true } } },
+        });
+
+        for (const curr of page) {
+          if (prev && prev.companyId === curr.companyId && curr.capturedAt >= since && prev.score !== curr.score) {
+            events.push({
+              occurredAt: curr.capturedAt,
+              data: {
+                accountId: curr.companyId,
+                accountName: curr.company.name,
+                oldTier: computeTierWithThresholds(prev.score, config.tierThresholds),
+                newTier: computeTierWithThresholds(curr.score, config.tierThresholds),
+                oldScore: prev.score,
+                newScore: curr.score,
+              },
+            });
+          }
+          prev = curr;
+        }
+        if (events.length > limit) {
+          events.sort(newestFirst).splice(limit);
+        }
+
+        if (page.length < SNAPSHOT_PAGE_SIZE) break;
+        cursor = page[page.length - 1].id;
+      }
+      return events.sort(newestFirst);
+    }
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Replays the last N days of events for a workflow's trigger through its
+ * filters, conditions and step graph without executing any action. Returns,
+ * per event, which conditions matched and the interpolated actions that
+ * would have fired.
+ */
+export const simulateWorkflow = async (
+  workflowId: string,
+  organizationId: string,
+  opts?: SimulationOptions,
+) => {
+  const workflow = await prisma.workflow.findFirst({ where: { id: workflowId, organizationId } });
+  if (!workflow) {
+    throw new AppError('Workflow not found', 404);
+  }
+
+  const days = Math.min(90, Math.max(1, opts?.days ?? 7));
+  const limit = Math.min(500, Math.max(1, opts?.limit ?? 100));
+  const since = new Date(Date.now() - days * MS_PER_DAY);
+
+  const trigger = workflow.trigger as unknown as WorkflowTrigger;
+  const conditions = (workflow.conditions ?? []) as unknown as WorkflowCondition[];
+  const steps = getWorkflowSteps(workflow);
+
+  const history = await loadHistoricalEvents(organizationId, trigger.event, since, limit);
+  if (history === null) {
+    return {
+      workflowId,
+      trigger: trigger.event,
+      supported: false,
+      window: { days, since },
+      summary: { eventsReplayed: 0, triggerMatched: 0, conditionsMet: 0, actionsWouldFire: {} },
+      events: [],
+    };
+  }
+
+  const actionsWouldFire: Record<string, number> = {};
+  let triggerMatched = 0;
+  let conditionsMet = 0;
+
+  const events = [];
+  for (const { occurredAt, data } of history) {
+    const triggered = matchesTrigger(trigger, trigger.event, data);
+    const conditionResults = explainConditions(conditions, data);
+    const met = triggered && conditionResults.every((c) => c.matched);
+
+    let outcome: StepExecutionOutcome | null = null;
+    if (met) {
+      outcome = await executeSteps(organizationId, workflow.id, steps, steps[0]?.id ?? null, data, {
+        dryRun: true,
+      });
+      for (const result of outcome.results) {
+        const type = result.type as string;
+        if (type === 'wait' || type === 'branch') continue;
+        actionsWouldFire[type] = (actionsWouldFire[type] ?? 0) + 1;
+      }
+    }
+
+    if (triggered) triggerMatched++;
+    if (met) conditionsMet++;
+
+    events.push({
+      occurredAt,
+      eventData: data,
+      triggerMatched: triggered,
+      conditions: conditionResults,
+      conditionsMet: met,
+      steps: outcome?.results ?? [],
+      ...(outcome?.error && { error: outcome.error }),
+    });
+  }
+
+  return {
+    workflowId,
+    trigger: trigger.event,
+    supported: true,
+    window: { days, since },
+    summary: { eventsReplayed: history.length, triggerMatched, conditionsMet, actionsWouldFire },
+    events,
+  };
+};
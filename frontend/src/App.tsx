@@ -46,6 +46,7 @@ const DashboardBuilder = lazy(() => import('./pages/DashboardBuilder'));
 const CrmImport = lazy(() => import('./pages/CrmImport'));
 const Playbooks = lazy(() => import('./pages/Playbooks'));
 const ScoringBuilder = lazy(() => import('./pages/ScoringBuilder'));
+const ScoringModels = lazy(() => import('./pages/ScoringModels'));
 const Analytics = lazy(() => import('./pages/Analytics'));
 const DevPortal = lazy(() => import('./pages/DevPortal'));
 const SsoSettings = lazy(() => import('./pages/SsoSettings'));
@@ -194,6 +195,7 @@ function AppRoutes() {
           <Route path="/signals/feed" element={<SignalFeed />} />
           <Route path="/scores" element={<PQADashboard />} />
           <Route path="/scoring" element={<ScoringBuilder />} />
+          <Route path="/scoring/models" element={<ScoringModels />} />
           <Route path="/workflows" element={<Workflows />} />
           <Route path="/playbooks" element={<Playbooks />} />
           <Route path="/settings" element={<Settings />} />
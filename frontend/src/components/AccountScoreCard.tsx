@@ -1,4 +1,4 @@
-import type { AccountScore, ScoreTier, ScoreTrend } from '../types';
+import type { AccountScore, AccountScoreBreakdown, ScoreTier, ScoreTrend } from '../types';
 
 // ---------------------------------------------------------------------------
 // Tier color mappings
@@ -51,6 +51,122 @@ function TrendArrow({ trend }: { trend: ScoreTrend }) {
   );
 }
 
+// ---------------------------------------------------------------------------
+// Score waterfall
+// ---------------------------------------------------------------------------
+
+interface WaterfallStep {
+  key: string;
+  label: string;
+  delta: number;
+  description?: string;
+}
+
+const formatLabel = (label: string) => label.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase());
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${Number(delta.toFixed(1))}`;
+
+function ScoreWaterfall({ breakdown, tier }: { breakdown: AccountScoreBreakdown; tier: ScoreTier }) {
+  const steps: WaterfallStep[] = breakdown.contributions
+    .filter((c) => c.points > 0)
+    .map((c) => ({
+      key: c.id,
+      label: c.kind === 'factor' ? formatLabel(c.label) : c.label,
+      delta: c.points,
+      description: c.description,
+    }));
+  if (breakdown.decayTotal < 0) {
+    steps.push({ key: '_decay', label: 'Decay applied', delta: breakdown.decayTotal });
+  }
+  if (Math.abs(breakdown.adjustment) >= 0.5) {
+    steps.push({ key: '_adjustment', label: 'Rounding & cap', delta: breakdown.adjustment });
+  }
+
+  let running = 0;
+  const rows = steps.map((step) => {
+    const start = running;
+    running += step.delta;
+    return { ...step, start, end: running };
+  });
+  const scale = Math.max(breakdown.score, ...rows.map((r) => Math.max(r.start, r.end)), 1);
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wide">Why this score</h4>
+      <div className="space-y-1.5">
+        {rows.map((row) => {
+          const left = (Math.min(row.start, row.end) / scale) * 100;
+          const width = Math.max((Math.abs(row.delta) / scale) * 100, 0.5);
+          return (
+            <div key={row.key} title={row.description}>
+              <div className="flex items-center justify-between text-xs mb-0.5">
+                <span className="text-gray-700 font-medium truncate">{row.label}</span>
+                <span className={row.delta < 0 ? 'text-red-600 font-medium' : 'text-gray-500'}>
+                  {formatDelta(row.delta)}
+                </span>
+              </div>
+              <div className="relative h-2 bg-gray-100 rounded-full">
+                <div
+                  className={`absolute h-full rounded-full ${row.delta < 0 ? 'bg-red-400' : TIER_BG[tier]}`}
+                  style={{ left: `${left}%`, width: `${width}%` }}
+                />
+              </div>
+            </div>
+          );
+        })}
+        <div className="pt-1.5 border-t border-gray-100">
+          <div className="flex items-center justify-between text-xs mb-0.5">
+            <span className="text-gray-900 font-semibold">Score</span>
+            <span className="text-gray-900 font-semibold">{breakdown.score}</span>
+          </div>
+          <div className="relative h-2 bg-gray-100 rounded-full">
+            <div
+              className={`absolute h-full rounded-full ${TIER_BG[tier]}`}
+              style={{ left: 0, width: `${(breakdown.score / scale) * 100}%` }}
+            />
+          </div>
+        </div>
+      </div>
+
+      {breakdown.topSignalTypes.length > 0 && (
+        <div>
+          <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1.5">Top signal types</h4>
+          <ul className="space-y-1">
+            {breakdown.topSignalTypes.map((signal) => (
+              <li key={signal.type} className="flex items-center justify-between text-xs">
+                <span className="text-gray-700">{signal.type}</span>
+                <span className="text-gray-400">
+                  {signal.count}x
+                  {signal.weightedCount !== null && ` (${signal.weightedCount} after decay)`}
+                  {signal.lastSeenAt && ` · ${new Date(signal.lastSeenAt).toLocaleDateString()}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {breakdown.topSignals && breakdown.topSignals.length > 0 && (
+        <div>
+          <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1.5">Top signals</h4>
+          <ul className="space-y-1">
+            {breakdown.topSignals.map((signal) => (
+              <li key={signal.id} className="flex items-center justify-between text-xs">
+                <span className="text-gray-700">{signal.type}</span>
+                <span className="text-gray-400">
+                  {new Date(signal.timestamp).toLocaleDateString()}
+                  {signal.actorId && ' · known contact'}
+                  {signal.weight !== null && ` · ${signal.weight} weight`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Compact variant (for headers)
 // ---------------------------------------------------------------------------
@@ -101,8 +217,10 @@ export default function AccountScoreCard({ score }: AccountScoreCardProps) {
         </div>
       </div>
 
-      {/* Factor breakdown */}
-      {factors.length > 0 && (
+      {/* Factor breakdown (waterfall when the score has been explained) */}
+      {score.breakdown ? (
+        <ScoreWaterfall breakdown={score.breakdown} tier={score.tier} />
+      ) : factors.length > 0 && (
         <div className="space-y-3">
           <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wide">Score Factors</h4>
           {factors.map((factor) => {
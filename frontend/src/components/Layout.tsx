@@ -91,7 +91,7 @@ const navSections: NavSection[] = [
 ];
 
 // Paths that belong to the Settings section (used to auto-expand when navigating directly)
-const SETTINGS_PATHS = ['/settings', '/integrations', '/webhooks', '/api-usage', '/scoring', '/team', '/team/settings', '/billing', '/audit', '/sso-settings', '/settings/export'];
+const SETTINGS_PATHS = ['/settings', '/integrations', '/webhooks', '/api-usage', '/scoring', '/scoring/models', '/team', '/team/settings', '/billing', '/audit', '/sso-settings', '/settings/export'];
 
 export default function Layout() {
   const { user, logout } = useAuth();
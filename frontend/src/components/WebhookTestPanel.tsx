@@ -36,6 +36,24 @@ interface DeliveryRecord {
   createdAt: string;
 }
 
+interface DeadLetterRecord {
+  id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  reason: 'DELIVERY_FAILED' | 'REPLAY_DEFERRED';
+  status: 'PENDING' | 'REDELIVERED';
+  statusCode: number | null;
+  error: string | null;
+  attempts: number;
+  eventAt: string;
+}
+
+interface RedeliveryResult {
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
 interface WebhookTestPanelProps {
   subscription: WebhookSubscription;
   onClose: () => void;
@@ -58,6 +76,12 @@ function formatDuration(ms: number): string {
   return `${(ms / 1000).toFixed(2)}s`;
 }
 
+/** Local datetime-local input value for a Date */
+function toLocalInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
 function formatTimestamp(iso: string): string {
   const d = new Date(iso);
   return d.toLocaleString(undefined, {
@@ -81,7 +105,16 @@ export default function WebhookTestPanel({ subscription, onClose }: WebhookTestP
   const [deliveries, setDeliveries] = useState<DeliveryRecord[]>([]);
   const [deliveriesLoading, setDeliveriesLoading] = useState(true);
 
-  const [activeTab, setActiveTab] = useState<'request' | 'response' | 'history'>('request');
+  const [deadLetters, setDeadLetters] = useState<DeadLetterRecord[]>([]);
+  const [pendingDeadLetters, setPendingDeadLetters] = useState(0);
+  const [deadLettersLoading, setDeadLettersLoading] = useState(true);
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+  const [replayFrom, setReplayFrom] = useState(() => toLocalInput(new Date(Date.now() - 24 * 60 * 60 * 1000)));
+  const [replayTo, setReplayTo] = useState(() => toLocalInput(new Date()));
+  const [replaying, setReplaying] = useState(false);
+  const [replayMessage, setReplayMessage] = useState<string | null>(null);
+
+  const [activeTab, setActiveTab] = useState<'request' | 'response' | 'history' | 'dead-letters'>('request');
 
   // Fetch recent deliveries
   const fetchDeliveries = useCallback(async () => {
@@ -103,6 +136,73 @@ export default function WebhookTestPanel({ subscription, onClose }: WebhookTestP
     fetchDeliveries();
   }, [fetchDeliveries]);
 
+  // Fetch undelivered events
+  const fetchDeadLetters = useCallback(async () => {
+    try {
+      setDeadLettersLoading(true);
+      const { data } = await api.get(
+        `/webhooks/subscribe/${subscription.id}/dead-letters`,
+        { params: { status: 'PENDING' } },
+      );
+      setDeadLetters(data.deadLetters);
+      setPendingDeadLetters(data.pending);
+    } catch {
+      // Silently ignore — dead letters are supplementary
+    } finally {
+      setDeadLettersLoading(false);
+    }
+  }, [subscription.id]);
+
+  useEffect(() => {
+    fetchDeadLetters();
+  }, [fetchDeadLetters]);
+
+  const describeRedelivery = (result: RedeliveryResult) =>
+    result.success
+      ? `Delivered (HTTP ${result.statusCode})`
+      : `Delivery failed: ${result.error || `HTTP ${result.statusCode}`}`;
+
+  // Redeliver a logged delivery or a dead letter immediately
+  const handleRedeliver = async (kind: 'deliveries' | 'dead-letters', id: string) => {
+    setRedeliveringId(id);
+    setReplayMessage(null);
+    try {
+      const { data } = await api.post<RedeliveryResult>(
+        `/webhooks/subscribe/${subscription.id}/${kind}/${id}/redeliver`,
+      );
+      setReplayMessage(describeRedelivery(data));
+      fetchDeliveries();
+      fetchDeadLetters();
+    } catch (err: unknown) {
+      const axiosErr = err as { response?: { data?: { error?: string } } };
+      setReplayMessage(axiosErr.response?.data?.error || 'Failed to redeliver');
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  // Replay all pending dead letters in the chosen range, oldest first
+  const handleReplay = async () => {
+    setReplaying(true);
+    setReplayMessage(null);
+    try {
+      const { data } = await api.post(`/webhooks/subscribe/${subscription.id}/replay`, {
+        from: new Date(replayFrom).toISOString(),
+        to: new Date(replayTo).toISOString(),
+      });
+      setReplayMessage(
+        data.queued
+          ? `Replaying ${data.pending} event${data.pending === 1 ? '' : 's'} in order. Refresh to see progress.`
+          : 'No undelivered events in this range',
+      );
+    } catch (err: unknown) {
+      const axiosErr = err as { response?: { data?: { error?: string } } };
+      setReplayMessage(axiosErr.response?.data?.error || 'Failed to start replay');
+    } finally {
+      setReplaying(false);
+    }
+  };
+
   // Send test webhook
   const handleSendTest = async () => {
     setTesting(true);
@@ -175,7 +275,7 @@ export default function WebhookTestPanel({ subscription, onClose }: WebhookTestP
       {/* Tabs */}
       <div className="px-4 pt-3">
         <div className="flex gap-1 border-b border-gray-200">
-          {(['request', 'response', 'history'] as const).map((tab) => (
+          {(['request', 'response', 'history', 'dead-letters'] as const).map((tab) => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -199,6 +299,7 @@ export default function WebhookTestPanel({ subscription, onClose }: WebhookTestP
                 </span>
               )}
               {tab === 'history' && `History (${deliveries.length})`}
+              {tab === 'dead-letters' && `Undelivered (${pendingDeadLetters})`}
             </button>
           ))}
         </div>
@@ -227,6 +328,12 @@ export default function WebhookTestPanel({ subscription, onClose }: WebhookTestP
               </label>
               <div className="bg-gray-900 rounded-lg p-3 text-xs font-mono text-gray-100 space-y-0.5 overflow-x-auto">
                 <div><span className="text-indigo-400">Content-Type</span>: application/json</div>
+                <div><span className="text-indigo-400">webhook-id</span>: <span className="text-gray-400">msg_&lt;id&gt;</span></div>
+                <div><span className="text-indigo-400">webhook-timestamp</span>: <span className="text-gray-400">&lt;unix-seconds&gt;</span></div>
+                <div>
+                  <span className="text-indigo-400">webhook-signature</span>:{' '}
+                  <span className="text-gray-400">v1,&lt;base64-hmac-sha256&gt;</span>
+                </div>
                 <div><span className="text-indigo-400">X-Sigscore-Event</span>: {subscription.event}</div>
                 <div>
                   <span className="text-indigo-400">X-Sigscore-Signature</span>:{' '}
@@ -358,7 +465,103 @@ export default function WebhookTestPanel({ subscription, onClose }: WebhookTestP
             {!deliveriesLoading && deliveries.length > 0 && (
               <div className="space-y-2">
                 {deliveries.map((delivery) => (
-                  <DeliveryRow key={delivery.id} delivery={delivery} />
+                  <DeliveryRow
+                    key={delivery.id}
+                    delivery={delivery}
+                    redelivering={redeliveringId === delivery.id}
+                    onRedeliver={() => handleRedeliver('deliveries', delivery.id)}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* ---- Undelivered (dead letters) tab ---- */}
+        {activeTab === 'dead-letters' && (
+          <div className="space-y-3">
+            {/* Replay range */}
+            <div className="bg-white border border-gray-200 rounded-lg p-3">
+              <label className="block text-[10px] font-semibold text-gray-500 uppercase tracking-wider mb-2">
+                Replay events fired between
+              </label>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="datetime-local"
+                  value={replayFrom}
+                  onChange={(e) => setReplayFrom(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <span className="text-xs text-gray-400">and</span>
+                <input
+                  type="datetime-local"
+                  value={replayTo}
+                  onChange={(e) => setReplayTo(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <button
+                  onClick={handleReplay}
+                  disabled={replaying || !replayFrom || !replayTo}
+                  className="px-3 py-1 bg-indigo-600 text-white text-xs font-medium rounded-md hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                >
+                  {replaying ? 'Starting...' : 'Replay'}
+                </button>
+              </div>
+              <p className="text-[11px] text-gray-400 mt-2">
+                Events are sent oldest first. The replay stops at the first failure so your endpoint never receives them out of order.
+              </p>
+            </div>
+
+            {replayMessage && (
+              <div className="p-2 bg-indigo-50 border border-indigo-200 rounded-lg text-xs text-indigo-700">
+                {replayMessage}
+              </div>
+            )}
+
+            {deadLettersLoading && (
+              <div className="flex items-center justify-center py-8">
+                <Spinner size="md" />
+              </div>
+            )}
+
+            {!deadLettersLoading && deadLetters.length === 0 && (
+              <div className="text-center py-8">
+                <p className="text-sm text-gray-500">No undelivered events</p>
+                <p className="text-xs text-gray-400 mt-1">Events that fail every retry are kept here for replay</p>
+              </div>
+            )}
+
+            {!deadLettersLoading && deadLetters.length > 0 && (
+              <div className="space-y-2">
+                {deadLetters.map((deadLetter) => (
+                  <div
+                    key={deadLetter.id}
+                    className="flex items-center justify-between bg-white border border-gray-200 rounded-lg px-3 py-2.5"
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span
+                        className={`inline-flex px-1.5 py-0.5 rounded border text-[10px] font-semibold ${statusCodeColor(deadLetter.statusCode)}`}
+                      >
+                        {deadLetter.statusCode ?? (deadLetter.reason === 'REPLAY_DEFERRED' ? 'HELD' : 'ERR')}
+                      </span>
+                      <span className="text-xs text-gray-600">{deadLetter.event}</span>
+                      <span className="text-xs text-gray-400 truncate" title={deadLetter.error ?? undefined}>
+                        {deadLetter.reason === 'REPLAY_DEFERRED'
+                          ? 'Held back during a replay'
+                          : deadLetter.error || `${deadLetter.attempts} attempts`}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-3 flex-shrink-0">
+                      <span className="text-xs text-gray-400">{formatTimestamp(deadLetter.eventAt)}</span>
+                      <button
+                        onClick={() => handleRedeliver('dead-letters', deadLetter.id)}
+                        disabled={redeliveringId !== null}
+                        className="text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                      >
+                        {redeliveringId === deadLetter.id ? 'Sending...' : 'Redeliver'}
+                      </button>
+                    </div>
+                  </div>
                 ))}
               </div>
             )}
@@ -373,7 +576,15 @@ export default function WebhookTestPanel({ subscription, onClose }: WebhookTestP
 // Sub-components
 // ---------------------------------------------------------------------------
 
-function DeliveryRow({ delivery }: { delivery: DeliveryRecord }) {
+function DeliveryRow({
+  delivery,
+  redelivering,
+  onRedeliver,
+}: {
+  delivery: DeliveryRecord;
+  redelivering: boolean;
+  onRedeliver: () => void;
+}) {
   const [expanded, setExpanded] = useState(false);
 
   const isTest = delivery.jobId?.startsWith('test_') ?? false;
@@ -446,6 +657,15 @@ function DeliveryRow({ delivery }: { delivery: DeliveryRecord }) {
           <div className="flex items-center gap-4 text-[10px] text-gray-400">
             <span>Attempt {delivery.attempt}/{delivery.maxAttempts}</span>
             {delivery.jobId && <span className="font-mono">Job: {delivery.jobId}</span>}
+            {!isTest && (
+              <button
+                onClick={onRedeliver}
+                disabled={redelivering}
+                className="ml-auto text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+              >
+                {redelivering ? 'Sending...' : 'Redeliver'}
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -1,7 +1,7 @@
 import { useEffect, useState, useCallback } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import api from '../lib/api';
-import type { Contact, Pagination } from '../types';
+import { TIER_COLORS, type Contact, type Pagination, type ScoreTier } from '../types';
 import { TableSkeleton } from '../components/Spinner';
 import EmptyState from '../components/EmptyState';
 import { useToast } from '../components/Toast';
@@ -38,6 +38,7 @@ export default function Contacts() {
 
   // Filter state
   const [companyFilter, setCompanyFilter] = useState('');
+  const [leadTierFilter, setLeadTierFilter] = useState<ScoreTier | ''>('');
   const [companiesList, setCompaniesList] = useState<{ id: string; name: string }[]>([]);
 
   // Load companies for filter dropdown
@@ -64,6 +65,7 @@ export default function Contacts() {
           sortField,
           sortDirection,
           companyId: companyFilter || undefined,
+          leadTier: leadTierFilter || undefined,
         },
       });
       setContacts(data.contacts || []);
@@ -74,7 +76,7 @@ export default function Contacts() {
     } finally {
       setLoading(false);
     }
-  }, [search, page, sortField, sortDirection, companyFilter]);
+  }, [search, page, sortField, sortDirection, companyFilter, leadTierFilter]);
 
   useEffect(() => {
     fetchContacts();
@@ -90,6 +92,9 @@ export default function Contacts() {
     const viewSearch = (filters.search as string) || '';
     setSearchInput(viewSearch);
     setSearch(viewSearch);
+    setLeadTierFilter((filters.leadTier as ScoreTier) || '');
+    setSortField((filters.sortField as string) || 'createdAt');
+    setSortDirection(filters.sortDirection === 'asc' ? 'asc' : 'desc');
     setPage(1);
   }, []);
 
@@ -209,7 +214,12 @@ export default function Contacts() {
       {/* Saved Views */}
       <SavedViewSelector
         entityType="contact"
-        currentFilters={{ search: search || undefined }}
+        currentFilters={{
+          search: search || undefined,
+          leadTier: leadTierFilter || undefined,
+          sortField,
+          sortDirection,
+        }}
         onFiltersChange={handleViewFiltersChange}
       />
 
@@ -241,9 +251,22 @@ export default function Contacts() {
             ))}
           </select>
         </div>
-        {(search || companyFilter) && (
+        <div>
+          <select
+            value={leadTierFilter}
+            onChange={(e) => { setLeadTierFilter(e.target.value as ScoreTier | ''); setPage(1); }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none bg-white"
+          >
+            <option value="">All lead tiers</option>
+            <option value="HOT">Hot</option>
+            <option value="WARM">Warm</option>
+            <option value="COLD">Cold</option>
+            <option value="INACTIVE">Inactive</option>
+          </select>
+        </div>
+        {(search || companyFilter || leadTierFilter) && (
           <button
-            onClick={() => { setSearchInput(''); setSearch(''); setCompanyFilter(''); setPage(1); }}
+            onClick={() => { setSearchInput(''); setSearch(''); setCompanyFilter(''); setLeadTierFilter(''); setPage(1); }}
             className="px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
           >
             Clear filters
@@ -380,6 +403,7 @@ export default function Contacts() {
                     <SortableHeader field="email" label="Email" sortField={sortField} sortDirection={sortDirection} onSort={handleSort} />
                     <SortableHeader field="title" label="Title" sortField={sortField} sortDirection={sortDirection} onSort={handleSort} />
                     <th className="text-left py-3 px-4 font-semibold text-gray-600">Company</th>
+                    <SortableHeader field="leadScore" label="Lead Score" sortField={sortField} sortDirection={sortDirection} onSort={handleSort} />
                     <SortableHeader field="createdAt" label="Created" sortField={sortField} sortDirection={sortDirection} onSort={handleSort} />
                   </tr>
                 </thead>
@@ -427,6 +451,18 @@ export default function Contacts() {
                           <span className="text-gray-400">--</span>
                         )}
                       </td>
+                      <td className="py-3 px-4" onClick={() => navigate(`/contacts/${contact.id}`)}>
+                        {contact.leadScore ? (
+                          <div className="flex items-center gap-2">
+                            <span className="font-semibold text-gray-900">{contact.leadScore.score}</span>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${TIER_COLORS[contact.leadScore.tier]}`}>
+                              {contact.leadScore.tier}
+                            </span>
+                          </div>
+                        ) : (
+                          <span className="text-gray-400">--</span>
+                        )}
+                      </td>
                       <td className="py-3 px-4 text-gray-500 relative" onClick={() => navigate(`/contacts/${contact.id}`)}>
                         <span className="group-hover:invisible">
                           {new Date(contact.createdAt).toLocaleDateString()}
@@ -6,7 +6,7 @@ import Spinner from '../components/Spinner';
 
 // --- Types ---
 
-type CrmSource = 'hubspot' | 'salesforce';
+type CrmSource = 'hubspot' | 'salesforce' | 'pipedrive' | 'attio' | 'close' | 'copper';
 type EntityKey = 'contacts' | 'companies' | 'deals';
 
 interface DetectionResult {
@@ -28,6 +28,7 @@ interface ImportResult {
   updated: number;
   skipped: number;
   errors: string[];
+  batchId?: string;
 }
 
 const ENTITY_LABELS: Record<EntityKey, string> = {
@@ -36,6 +37,51 @@ const ENTITY_LABELS: Record<EntityKey, string> = {
   deals: 'Deals',
 };
 
+const SOURCES: { key: CrmSource; name: string; hint: string; card: string; badge: string }[] = [
+  {
+    key: 'hubspot',
+    name: 'HubSpot',
+    hint: 'Export from HubSpot: Contacts > Actions > Export, or use Settings > Import & Export.',
+    card: 'hover:border-orange-400 hover:bg-orange-50/30',
+    badge: 'bg-orange-100 text-orange-600',
+  },
+  {
+    key: 'salesforce',
+    name: 'Salesforce',
+    hint: 'Export from Salesforce: Reports > New Report, or use Data Export service in Setup.',
+    card: 'hover:border-blue-400 hover:bg-blue-50/30',
+    badge: 'bg-blue-100 text-blue-600',
+  },
+  {
+    key: 'pipedrive',
+    name: 'Pipedrive',
+    hint: 'Export from Pipedrive: open People, Organizations or Deals, then ... > Export filter results.',
+    card: 'hover:border-green-400 hover:bg-green-50/30',
+    badge: 'bg-green-100 text-green-700',
+  },
+  {
+    key: 'attio',
+    name: 'Attio',
+    hint: 'Export from Attio: open a People, Companies or Deals view, then View settings > Export as CSV.',
+    card: 'hover:border-indigo-400 hover:bg-indigo-50/30',
+    badge: 'bg-indigo-100 text-indigo-600',
+  },
+  {
+    key: 'close',
+    name: 'Close',
+    hint: 'Export from Close: run a Smart View search, then Export > CSV for leads, contacts or opportunities.',
+    card: 'hover:border-sky-400 hover:bg-sky-50/30',
+    badge: 'bg-sky-100 text-sky-600',
+  },
+  {
+    key: 'copper',
+    name: 'Copper',
+    hint: 'Export from Copper: Settings > Data Management > Export, or Export from a list view.',
+    card: 'hover:border-red-400 hover:bg-red-50/30',
+    badge: 'bg-red-100 text-red-600',
+  },
+];
+
 export default function CrmImport() {
   useEffect(() => { document.title = 'CRM Import — Sigscore'; }, []);
   const toast = useToast();
@@ -44,6 +90,8 @@ export default function CrmImport() {
   const [files, setFiles] = useState<Partial<Record<EntityKey, FileState>>>({});
   const [importing, setImporting] = useState(false);
   const [results, setResults] = useState<Partial<Record<EntityKey, ImportResult>>>({});
+  const [reverting, setReverting] = useState<EntityKey | null>(null);
+  const [reverted, setReverted] = useState<Partial<Record<EntityKey, boolean>>>({});
 
   // --- Step 1: Choose Source ---
 
@@ -117,12 +165,26 @@ export default function CrmImport() {
     toast.success('Import complete.');
   };
 
+  const undoImport = async (entity: EntityKey, batchId: string) => {
+    if (!window.confirm(`Undo the ${ENTITY_LABELS[entity].toLowerCase()} import? Created records are deleted and updated fields restored.`)) return;
+    setReverting(entity);
+    try {
+      const { data } = await api.post(`/import/batches/${batchId}/revert`);
+      setReverted((prev) => ({ ...prev, [entity]: true }));
+      toast.success(`Import undone: ${data.deleted} deleted, ${data.restored} restored.`);
+    } catch {
+      toast.error('Failed to undo import.');
+    } finally {
+      setReverting(null);
+    }
+  };
+
   return (
     <div className="p-6 lg:p-8 max-w-3xl mx-auto">
       {/* Header */}
       <div className="mb-6">
         <h1 className="text-2xl font-bold text-gray-900">CRM Import</h1>
-        <p className="mt-1 text-sm text-gray-500">Migrate data from HubSpot or Salesforce into Sigscore</p>
+        <p className="mt-1 text-sm text-gray-500">Migrate data from HubSpot, Salesforce, Pipedrive, Attio, Close or Copper into Sigscore</p>
       </div>
 
       {/* Progress bar */}
@@ -146,26 +208,19 @@ export default function CrmImport() {
       {/* Step 1: Choose Source */}
       {step === 1 && (
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-          <button
-            onClick={() => selectSource('hubspot')}
-            className="border-2 border-gray-200 rounded-xl p-6 text-left hover:border-orange-400 hover:bg-orange-50/30 transition-colors group"
-          >
-            <div className="w-12 h-12 rounded-lg bg-orange-100 text-orange-600 flex items-center justify-center mb-4 font-bold text-xl">H</div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-1">HubSpot</h3>
-            <p className="text-sm text-gray-500">
-              Export from HubSpot: Contacts &gt; Actions &gt; Export, or use Settings &gt; Import & Export.
-            </p>
-          </button>
-          <button
-            onClick={() => selectSource('salesforce')}
-            className="border-2 border-gray-200 rounded-xl p-6 text-left hover:border-blue-400 hover:bg-blue-50/30 transition-colors group"
-          >
-            <div className="w-12 h-12 rounded-lg bg-blue-100 text-blue-600 flex items-center justify-center mb-4 font-bold text-xl">S</div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-1">Salesforce</h3>
-            <p className="text-sm text-gray-500">
-              Export from Salesforce: Reports &gt; New Report, or use Data Export service in Setup.
-            </p>
-          </button>
+          {SOURCES.map((src) => (
+            <button
+              key={src.key}
+              onClick={() => selectSource(src.key)}
+              className={`border-2 border-gray-200 rounded-xl p-6 text-left transition-colors group ${src.card}`}
+            >
+              <div className={`w-12 h-12 rounded-lg flex items-center justify-center mb-4 font-bold text-xl ${src.badge}`}>
+                {src.name.charAt(0)}
+              </div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">{src.name}</h3>
+              <p className="text-sm text-gray-500">{src.hint}</p>
+            </button>
+          ))}
         </div>
       )}
 
@@ -293,7 +348,22 @@ export default function CrmImport() {
           <div className="space-y-4">
             {(Object.entries(results) as [EntityKey, ImportResult][]).map(([entity, result]) => (
               <div key={entity} className="bg-white rounded-xl border border-gray-200 p-5">
-                <h3 className="text-sm font-semibold text-gray-900 mb-3">{ENTITY_LABELS[entity]}</h3>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-semibold text-gray-900">{ENTITY_LABELS[entity]}</h3>
+                  {result.batchId && (result.created > 0 || result.updated > 0) && (
+                    reverted[entity] ? (
+                      <span className="text-xs text-gray-500">Undone</span>
+                    ) : (
+                      <button
+                        onClick={() => undoImport(entity, result.batchId!)}
+                        disabled={reverting !== null}
+                        className="text-xs font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                      >
+                        {reverting === entity ? 'Undoing...' : 'Undo import'}
+                      </button>
+                    )
+                  )}
+                </div>
                 <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-3">
                   <ResultStat label="Created" value={result.created} color="text-green-600" />
                   <ResultStat label="Updated" value={result.updated} color="text-blue-600" />
@@ -318,7 +388,7 @@ export default function CrmImport() {
               View Deals
             </Link>
             <button
-              onClick={() => { setStep(1); setSource(null); setFiles({}); setResults({}); }}
+              onClick={() => { setStep(1); setSource(null); setFiles({}); setResults({}); setReverted({}); }}
               className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 ml-auto"
             >
               Import More
@@ -1423,11 +1423,22 @@ function WebhooksTab() {
                 ['signal.created', 'A new signal has been ingested'],
                 ['contact.created', 'A new contact has been created'],
                 ['contact.updated', 'A contact has been updated'],
+                ['contact.merged', 'Duplicate contacts have been merged into one'],
                 ['company.created', 'A new company has been created'],
+                ['company.updated', 'A company has been updated'],
+                ['company.merged', 'Duplicate companies have been merged into one'],
                 ['deal.created', 'A new deal has been created'],
+                ['deal.updated', 'A deal has been updated'],
                 ['deal.stage_changed', 'A deal has moved to a different pipeline stage'],
+                ['deal.closed', 'A deal has been closed won or lost'],
+                ['note.created', 'A note has been added to a company, contact or deal'],
                 ['score.changed', 'An account PQA score has changed'],
                 ['tier.changed', 'An account has moved to a different tier (HOT/WARM/COLD)'],
+                ['contact.score_changed', 'A contact score has changed'],
+                ['anomaly.detected', 'An unusual spike or drop in account signals was detected'],
+                ['alert.triggered', 'An account alert rule has fired'],
+                ['workflow.run_failed', 'A workflow run has failed'],
+                ['enrichment.completed', 'A company or contact has been enriched'],
               ].map(([event, desc]) => (
                 <tr key={event} className="border-t border-gray-700/30">
                   <td className="px-4 py-2.5">
@@ -1468,8 +1479,14 @@ function WebhooksTab() {
       <div className="space-y-4">
         <h3 className="text-lg font-semibold text-white">Signature Verification</h3>
         <p className="text-sm text-gray-400">
-          Every webhook delivery includes an <code className="text-indigo-400 text-xs bg-gray-800 px-1.5 py-0.5 rounded">X-Sigscore-Signature</code> header
-          containing an HMAC-SHA256 signature of the request body, computed using your webhook secret.
+          Deliveries are signed following the <a href="https://www.standardwebhooks.com" className="text-indigo-400 hover:underline" target="_blank" rel="noreferrer">Standard Webhooks</a> spec.
+          Each request carries <code className="text-indigo-400 text-xs bg-gray-800 px-1.5 py-0.5 rounded">webhook-id</code>,{' '}
+          <code className="text-indigo-400 text-xs bg-gray-800 px-1.5 py-0.5 rounded">webhook-timestamp</code> and{' '}
+          <code className="text-indigo-400 text-xs bg-gray-800 px-1.5 py-0.5 rounded">webhook-signature</code> headers. The signature is an HMAC-SHA256
+          of <code className="text-indigo-400 text-xs bg-gray-800 px-1.5 py-0.5 rounded">{'{id}.{timestamp}.{body}'}</code>, keyed with the base64-decoded
+          part of your <code className="text-indigo-400 text-xs bg-gray-800 px-1.5 py-0.5 rounded">whsec_</code> secret. After a secret rotation both the old and
+          the new secret sign each delivery until the grace period ends. The legacy{' '}
+          <code className="text-indigo-400 text-xs bg-gray-800 px-1.5 py-0.5 rounded">X-Sigscore-Signature</code> header (hex HMAC of the body) is still sent.
         </p>
 
         <div className="rounded-lg border border-amber-500/20 bg-amber-500/5 p-4">
@@ -1485,31 +1502,22 @@ function WebhooksTab() {
         </div>
 
         <CodeBlock
-          code={`import crypto from 'crypto';
-
-function verifyWebhook(payload: string, signature: string, secret: string): boolean {
-  const expected = crypto
-    .createHmac('sha256', secret)
-    .update(payload, 'utf8')
-    .digest('hex');
-
-  return crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(expected),
-  );
-}
+          code={`import { verifyWebhook, WebhookVerificationError } from '@sigscore/node';
 
 // Express middleware example
 app.post('/webhooks/sigscore', express.raw({ type: 'application/json' }), (req, res) => {
-  const signature = req.headers['x-sigscore-signature'] as string;
-  const isValid = verifyWebhook(req.body.toString(), signature, WEBHOOK_SECRET);
-
-  if (!isValid) {
-    return res.status(401).json({ error: 'Invalid signature' });
+  let event;
+  try {
+    // Checks the signature and rejects timestamps more than 5 minutes off
+    event = verifyWebhook(req.body, req.headers, WEBHOOK_SECRET);
+  } catch (err) {
+    if (err instanceof WebhookVerificationError) {
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
+    throw err;
   }
 
-  const event = JSON.parse(req.body.toString());
-  // Handle event...
+  // Handle event, deduplicating on the webhook-id header...
 
   res.status(200).json({ received: true });
 });`}
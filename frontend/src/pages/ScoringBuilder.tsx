@@ -1,4 +1,5 @@
 import { useEffect, useState, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import api from '../lib/api';
 import Spinner from '../components/Spinner';
 
@@ -8,8 +9,8 @@ import Spinner from '../components/Spinner';
 
 interface ScoringCondition {
   field: string;
-  operator: 'gt' | 'lt' | 'eq' | 'contains';
-  value: string;
+  operator: 'gt' | 'lt' | 'eq' | 'contains' | 'in' | 'regex' | 'exists' | 'between';
+  value: string | number | boolean | Array<string | number>;
 }
 
 interface ScoringRule {
@@ -33,6 +34,21 @@ interface ScoringConfig {
   rules: ScoringRule[];
   tierThresholds: TierThresholds;
   maxScore: number;
+  halfLives?: Record<string, number>;
+  defaultHalfLife?: number | null;
+}
+
+interface DecayConfig {
+  overrides: Record<string, number>;
+  defaultHalfLife: number;
+  builtInDefaultHalfLife: number;
+  signalTypes: Array<{
+    type: string;
+    halfLife: number;
+    source: 'override' | 'built_in' | 'default';
+    builtInHalfLife: number | null;
+    signalCount: number;
+  }>;
 }
 
 interface ScorePreviewEntry {
@@ -46,6 +62,33 @@ interface ScorePreviewEntry {
   delta: number;
 }
 
+interface TierImpact {
+  sampled: number;
+  totalAccounts: number;
+  current: Record<string, number>;
+  projected: Record<string, number>;
+  transitions: Array<{ from: string; to: string; count: number }>;
+}
+
+interface BacktestResult {
+  leadDays: number;
+  deals: number;
+  won: number;
+  lost: number;
+  skipped: number;
+  baseWinRate: number | null;
+  tiers: Array<{
+    tier: string;
+    deals: number;
+    won: number;
+    lost: number;
+    precision: number | null;
+    lift: number | null;
+  }>;
+  auc: number | null;
+  roc: Array<{ threshold: number; tpr: number; fpr: number }>;
+}
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
@@ -73,6 +116,35 @@ const DECAY_OPTIONS = [
   { value: '90d', label: '90 days' },
 ];
 
+// Fields with a free-form path suffix are listed by prefix
+const CONDITION_FIELDS = [
+  { value: 'signal_count', label: 'Signal Count' },
+  { value: 'user_count', label: 'User Count' },
+  { value: 'total_signals', label: 'Total Signals' },
+  { value: 'metadata.', label: 'Signal Metadata' },
+  { value: 'company.size', label: 'Company Size' },
+  { value: 'company.industry', label: 'Industry' },
+  { value: 'company.domain', label: 'Domain' },
+  { value: 'company.custom.', label: 'Company Custom Field' },
+];
+
+const PATH_FIELD_PREFIXES = ['metadata.', 'company.custom.'];
+
+const CONDITION_OPERATORS: { value: ScoringCondition['operator']; label: string; placeholder: string }[] = [
+  { value: 'gt', label: '>', placeholder: '10' },
+  { value: 'lt', label: '<', placeholder: '10' },
+  { value: 'eq', label: '=', placeholder: 'value' },
+  { value: 'contains', label: 'contains', placeholder: 'text' },
+  { value: 'in', label: 'in', placeholder: 'SMALL,MEDIUM' },
+  { value: 'regex', label: 'matches', placeholder: '^2\\.' },
+  { value: 'exists', label: 'exists', placeholder: 'true' },
+  { value: 'between', label: 'between', placeholder: '10,50' },
+];
+
+const TIER_ORDER = ['HOT', 'WARM', 'COLD', 'INACTIVE'];
+
+const BACKTEST_LEAD_DAYS = [7, 14, 30, 60, 90];
+
 const TIER_COLORS: Record<string, string> = {
   HOT: 'bg-red-100 text-red-700',
   WARM: 'bg-orange-100 text-orange-700',
@@ -93,9 +165,17 @@ export default function ScoringBuilder() {
   const [recomputing, setRecomputing] = useState(false);
   const [resetting, setResetting] = useState(false);
   const [previews, setPreviews] = useState<ScorePreviewEntry[] | null>(null);
+  const [tierImpact, setTierImpact] = useState<TierImpact | null>(null);
+  const [backtesting, setBacktesting] = useState(false);
+  const [backtest, setBacktest] = useState<BacktestResult | null>(null);
+  const [leadDays, setLeadDays] = useState(30);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [dirty, setDirty] = useState(false);
   const [expandedRuleId, setExpandedRuleId] = useState<string | null>(null);
+  // ?model=<id> edits a named scoring model instead of the primary config
+  const [searchParams] = useSearchParams();
+  const modelId = searchParams.get('model');
+  const [modelName, setModelName] = useState<string | null>(null);
 
   const showToast = useCallback((message: string, type: 'success' | 'error') => {
     setToast({ message, type });
@@ -106,15 +186,22 @@ export default function ScoringBuilder() {
   const fetchConfig = useCallback(async () => {
     setLoading(true);
     try {
-      const { data } = await api.get('/scoring/config');
-      setConfig(data);
+      if (modelId) {
+        const { data } = await api.get(`/scoring/models/${modelId}`);
+        setConfig(data.config);
+        setModelName(data.isPrimary ? null : data.name);
+      } else {
+        const { data } = await api.get('/scoring/config');
+        setConfig(data);
+        setModelName(null);
+      }
       setDirty(false);
     } catch {
       showToast('Failed to load scoring config', 'error');
     } finally {
       setLoading(false);
     }
-  }, [showToast]);
+  }, [showToast, modelId]);
 
   useEffect(() => {
     fetchConfig();
@@ -128,8 +215,13 @@ export default function ScoringBuilder() {
     if (!config) return;
     setSaving(true);
     try {
-      const { data } = await api.put('/scoring/config', config);
-      setConfig(data);
+      if (modelId) {
+        const { data } = await api.put(`/scoring/models/${modelId}`, { config });
+        setConfig(data.config);
+      } else {
+        const { data } = await api.put('/scoring/config', config);
+        setConfig(data);
+      }
       setDirty(false);
       showToast('Scoring config saved', 'success');
     } catch {
@@ -143,22 +235,48 @@ export default function ScoringBuilder() {
     if (!config) return;
     setPreviewing(true);
     setPreviews(null);
+    setTierImpact(null);
     try {
       const { data } = await api.post('/scoring/preview', config);
       setPreviews(data.previews || []);
-    } catch {
-      showToast('Failed to generate preview', 'error');
+      setTierImpact(data.tierImpact || null);
+    } catch (err) {
+      const message = (err as { response?: { data?: { error?: string } } })?.response?.data?.error;
+      showToast(message || 'Failed to generate preview', 'error');
     } finally {
       setPreviewing(false);
     }
   };
 
+  const handleBacktest = async () => {
+    if (!config) return;
+    setBacktesting(true);
+    setBacktest(null);
+    try {
+      const { data } = await api.post('/scoring/backtest', { config, leadDays });
+      setBacktest(data);
+    } catch (err) {
+      const message = (err as { response?: { data?: { error?: string } } })?.response?.data?.error;
+      showToast(message || 'Failed to run backtest', 'error');
+    } finally {
+      setBacktesting(false);
+    }
+  };
+
   const handleRecompute = async () => {
     if (!config) return;
     setRecomputing(true);
     try {
-      const { data } = await api.post('/scoring/recompute', config);
-      showToast(`Recomputed scores for ${data.updated} accounts`, 'success');
+      let updated: number;
+      if (modelName) {
+        await api.put(`/scoring/models/${modelId}`, { config });
+        const { data } = await api.post(`/scoring/models/${modelId}/recompute`);
+        updated = data.updated;
+      } else {
+        const { data } = await api.post('/scoring/recompute', config);
+        updated = data.updated;
+      }
+      showToast(`Recomputed scores for ${updated} accounts`, 'success');
       setDirty(false);
     } catch {
       showToast('Failed to recompute scores', 'error');
@@ -340,17 +458,27 @@ export default function ScoringBuilder() {
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Lead Scoring Builder</h1>
           <p className="mt-1 text-sm text-gray-500">
-            Customize your PQA scoring model with no-code rules
+            {modelName
+              ? `Editing scoring model "${modelName}" (not primary: live tiers are unaffected)`
+              : 'Customize your PQA scoring model with no-code rules'}
           </p>
         </div>
         <div className="flex items-center gap-2">
-          <button
-            onClick={handleReset}
-            disabled={resetting}
-            className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+          <Link
+            to="/scoring/models"
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
           >
-            {resetting ? 'Resetting...' : 'Reset to Defaults'}
-          </button>
+            Models &amp; A/B
+          </Link>
+          {!modelName && (
+            <button
+              onClick={handleReset}
+              disabled={resetting}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              {resetting ? 'Resetting...' : 'Reset to Defaults'}
+            </button>
+          )}
           <button
             onClick={handlePreview}
             disabled={previewing || config.rules.length === 0}
@@ -358,6 +486,27 @@ export default function ScoringBuilder() {
           >
             {previewing ? 'Previewing...' : 'Preview Changes'}
           </button>
+          <div className="flex items-center">
+            <select
+              value={leadDays}
+              onChange={(e) => setLeadDays(Number(e.target.value))}
+              title="Score each account this many days before its deal closed"
+              className="px-2 py-2 text-sm border border-r-0 border-indigo-300 rounded-l-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {BACKTEST_LEAD_DAYS.map((d) => (
+                <option key={d} value={d}>
+                  {d}d before close
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleBacktest}
+              disabled={backtesting || config.rules.length === 0}
+              className="px-3 py-2 text-sm border border-indigo-300 text-indigo-700 bg-indigo-50 rounded-r-lg hover:bg-indigo-100 disabled:opacity-50 transition-colors"
+            >
+              {backtesting ? 'Backtesting...' : 'Backtest'}
+            </button>
+          </div>
           <button
             onClick={handleSave}
             disabled={saving || !dirty}
@@ -434,6 +583,63 @@ export default function ScoringBuilder() {
             )}
           </div>
 
+          {/* Projected tier impact */}
+          {tierImpact !== null && tierImpact.sampled > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+                <h2 className="text-sm font-semibold text-gray-700">Projected Tier Impact</h2>
+                <span className="text-xs text-gray-400">
+                  {tierImpact.sampled < tierImpact.totalAccounts
+                    ? `Sample of ${tierImpact.sampled} of ${tierImpact.totalAccounts} accounts`
+                    : `${tierImpact.sampled} accounts`}
+                </span>
+              </div>
+              <div className="p-4 space-y-4">
+                <div className="grid grid-cols-4 gap-3">
+                  {TIER_ORDER.map((tier) => {
+                    const current = tierImpact.current[tier] || 0;
+                    const projected = tierImpact.projected[tier] || 0;
+                    const diff = projected - current;
+                    return (
+                      <div key={tier} className="text-center">
+                        <TierBadge tier={tier} />
+                        <p className="text-lg font-bold text-gray-900 mt-1">{projected}</p>
+                        <p
+                          className={`text-xs font-medium ${
+                            diff > 0 ? 'text-green-600' : diff < 0 ? 'text-red-600' : 'text-gray-400'
+                          }`}
+                        >
+                          {diff > 0 ? '+' : ''}
+                          {diff} from {current}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+                {tierImpact.transitions.length === 0 ? (
+                  <p className="text-xs text-gray-400 text-center">No accounts would change tier.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {tierImpact.transitions.map((t) => (
+                      <span
+                        key={`${t.from}-${t.to}`}
+                        className="inline-flex items-center gap-1 text-xs bg-gray-50 border border-gray-200 rounded-lg px-2 py-1"
+                      >
+                        <TierBadge tier={t.from} />
+                        <span className="text-gray-400">&rarr;</span>
+                        <TierBadge tier={t.to} />
+                        <span className="font-medium text-gray-700 ml-1">{t.count}</span>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Backtest results */}
+          {backtest !== null && <BacktestPanel result={backtest} />}
+
           {/* Preview table */}
           {previews !== null && (
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
@@ -610,6 +816,16 @@ export default function ScoringBuilder() {
             </div>
           </div>
 
+          {/* Signal decay (live config only; models share the org's half-lives) */}
+          {!modelId && (
+            <SignalDecayPanel
+              showToast={showToast}
+              onSaved={(halfLives, defaultHalfLife) =>
+                setConfig((prev) => (prev ? { ...prev, halfLives, defaultHalfLife } : prev))
+              }
+            />
+          )}
+
           {/* Max score */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
             <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
@@ -663,6 +879,258 @@ function StatCard({
   );
 }
 
+function BacktestPanel({ result }: { result: BacktestResult }) {
+  const formatRate = (value: number | null) => (value === null ? '--' : `${Math.round(value * 100)}%`);
+  const rocPath = result.roc.map((p) => `${p.fpr * 100},${100 - p.tpr * 100}`).join(' ');
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-700">Backtest vs Closed Deals</h2>
+        <span className="text-xs text-gray-400">
+          {result.deals} deals scored {result.leadDays}d before close
+          {result.skipped > 0 && ` (${result.skipped} without a company skipped)`}
+        </span>
+      </div>
+      {result.deals === 0 ? (
+        <div className="p-8 text-center text-sm text-gray-500">
+          No closed-won or closed-lost deals linked to companies in the last year.
+        </div>
+      ) : (
+        <div className="p-4 flex flex-col sm:flex-row gap-6">
+          <div className="flex-1 space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">AUC</p>
+                <p className="text-2xl font-bold text-indigo-600">
+                  {result.auc === null ? '--' : result.auc.toFixed(2)}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Win Rate</p>
+                <p className="text-2xl font-bold text-gray-900">{formatRate(result.baseWinRate)}</p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Won / Lost</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {result.won} / {result.lost}
+                </p>
+              </div>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-2 font-semibold text-gray-600">Tier</th>
+                  <th className="text-center py-2 font-semibold text-gray-600">Deals</th>
+                  <th className="text-center py-2 font-semibold text-gray-600">Precision</th>
+                  <th className="text-center py-2 font-semibold text-gray-600">Lift</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {result.tiers.map((t) => (
+                  <tr key={t.tier}>
+                    <td className="py-2">
+                      <TierBadge tier={t.tier} />
+                    </td>
+                    <td className="py-2 text-center text-gray-700">{t.deals}</td>
+                    <td className="py-2 text-center font-medium">{formatRate(t.precision)}</td>
+                    <td
+                      className={`py-2 text-center font-medium ${
+                        t.lift === null ? 'text-gray-400' : t.lift >= 1 ? 'text-green-600' : 'text-red-600'
+                      }`}
+                    >
+                      {t.lift === null ? '--' : `${t.lift.toFixed(2)}x`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {result.auc === null && (
+              <p className="text-xs text-gray-400">AUC needs both won and lost deals in the window.</p>
+            )}
+          </div>
+          {result.roc.length > 0 && (
+            <div className="sm:w-48 shrink-0">
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">ROC Curve</p>
+              <svg viewBox="0 0 100 100" className="w-full aspect-square border border-gray-200 rounded bg-gray-50">
+                <line x1="0" y1="100" x2="100" y2="0" stroke="#d1d5db" strokeDasharray="3 3" strokeWidth="1" />
+                <polyline points={rocPath} fill="none" stroke="#4f46e5" strokeWidth="2" />
+              </svg>
+              <p className="text-[10px] text-gray-400 mt-1 text-center">False positive rate &rarr;</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SignalDecayPanel({
+  showToast,
+  onSaved,
+}: {
+  showToast: (message: string, type: 'success' | 'error') => void;
+  onSaved: (halfLives: Record<string, number>, defaultHalfLife: number | null) => void;
+}) {
+  const [decay, setDecay] = useState<DecayConfig | null>(null);
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+  const [defaultHalfLife, setDefaultHalfLife] = useState('');
+  const [newType, setNewType] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+
+  const applyDecay = useCallback((data: DecayConfig) => {
+    setDecay(data);
+    setOverrides(Object.fromEntries(Object.entries(data.overrides).map(([type, days]) => [type, String(days)])));
+    setDefaultHalfLife(String(data.defaultHalfLife));
+    setDirty(false);
+  }, []);
+
+  useEffect(() => {
+    api.get('/scoring/decay-config')
+      .then(({ data }) => applyDecay(data))
+      .catch(() => showToast('Failed to load signal half-lives', 'error'));
+  }, [applyDecay, showToast]);
+
+  const setOverride = (type: string, value: string) => {
+    setOverrides((prev) => {
+      const next = { ...prev };
+      if (value === '') delete next[type];
+      else next[type] = value;
+      return next;
+    });
+    setDirty(true);
+  };
+
+  const addType = () => {
+    const type = newType.trim();
+    if (!type || type in overrides) return;
+    setOverride(type, defaultHalfLife || String(decay?.builtInDefaultHalfLife ?? 14));
+    setNewType('');
+  };
+
+  const handleSave = async () => {
+    const halfLives: Record<string, number> = {};
+    for (const [type, value] of Object.entries(overrides)) {
+      const days = parseFloat(value);
+      if (!Number.isFinite(days) || days < 0.5 || days > 365) {
+        showToast(`Half-life for ${type} must be between 0.5 and 365 days`, 'error');
+        return;
+      }
+      halfLives[type] = days;
+    }
+    // A blank default resets to the built-in half-life
+    const fallback = defaultHalfLife.trim() === '' ? null : parseFloat(defaultHalfLife);
+    if (fallback !== null && (!Number.isFinite(fallback) || fallback < 0.5 || fallback > 365)) {
+      showToast('Default half-life must be between 0.5 and 365 days', 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data } = await api.put('/scoring/decay-config', { halfLives, defaultHalfLife: fallback });
+      applyDecay(data);
+      onSaved(halfLives, fallback);
+      showToast('Half-lives saved — scores are recomputing in the background', 'success');
+    } catch (err: unknown) {
+      const message = (err as { response?: { data?: { error?: string } } })?.response?.data?.error;
+      showToast(message || 'Failed to save half-lives', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!decay) return null;
+
+  // Types added in this session appear alongside the server-known ones
+  const rows = [
+    ...decay.signalTypes,
+    ...Object.keys(overrides)
+      .filter((type) => !decay.signalTypes.some((t) => t.type === type))
+      .map((type) => ({ type, halfLife: 0, source: 'override' as const, builtInHalfLife: null, signalCount: 0 })),
+  ];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-700">Signal Decay Half-Lives</h2>
+        <button
+          onClick={handleSave}
+          disabled={!dirty || saving}
+          className="px-3 py-1 text-xs font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+      <div className="p-4 space-y-3">
+        <p className="text-xs text-gray-500">
+          Days until a signal counts for half its weight. Leave a type blank to use its built-in value.
+        </p>
+        <div className="flex items-center gap-3">
+          <label className="text-xs font-medium text-gray-600 w-32">Unknown types</label>
+          <input
+            type="number"
+            min={0.5}
+            max={365}
+            step={0.5}
+            value={defaultHalfLife}
+            placeholder={String(decay.builtInDefaultHalfLife)}
+            onChange={(e) => { setDefaultHalfLife(e.target.value); setDirty(true); }}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <span className="text-xs text-gray-400">days</span>
+        </div>
+        <div className="max-h-72 overflow-y-auto border border-gray-100 rounded-lg divide-y divide-gray-100">
+          {rows.map((row) => {
+            const placeholder = row.builtInHalfLife ?? (parseFloat(defaultHalfLife) || decay.builtInDefaultHalfLife);
+            return (
+              <div key={row.type} className="flex items-center gap-2 px-3 py-1.5">
+                <span className="flex-1 text-xs text-gray-700 truncate" title={row.type}>
+                  {row.type}
+                  {row.signalCount > 0 && (
+                    <span className="ml-1 text-gray-400">({row.signalCount.toLocaleString()})</span>
+                  )}
+                </span>
+                <span className="text-[10px] text-gray-400 w-12 text-right">
+                  {row.type in overrides ? 'Custom' : row.builtInHalfLife !== null ? 'Built-in' : 'Default'}
+                </span>
+                <input
+                  type="number"
+                  min={0.5}
+                  max={365}
+                  step={0.5}
+                  value={overrides[row.type] ?? ''}
+                  placeholder={String(placeholder)}
+                  onChange={(e) => setOverride(row.type, e.target.value)}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded-md text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newType}
+            onChange={(e) => setNewType(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') addType(); }}
+            placeholder="Custom signal type"
+            maxLength={100}
+            className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <button
+            onClick={addType}
+            disabled={!newType.trim()}
+            className="px-2.5 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function TierBadge({ tier }: { tier: string }) {
   return (
     <span
@@ -920,14 +1388,26 @@ function RuleCard({
                 {rule.conditions.map((cond, ci) => (
                   <div key={ci} className="flex items-center gap-2 bg-white p-2 rounded-lg border border-gray-200">
                     <select
-                      value={cond.field}
+                      value={PATH_FIELD_PREFIXES.find((p) => cond.field.startsWith(p)) ?? cond.field}
                       onChange={(e) => onUpdateCondition(ci, { field: e.target.value })}
                       className="px-2 py-1.5 border border-gray-300 rounded text-xs bg-white"
                     >
-                      <option value="signal_count">Signal Count</option>
-                      <option value="user_count">User Count</option>
-                      <option value="total_signals">Total Signals</option>
+                      {CONDITION_FIELDS.map((f) => (
+                        <option key={f.value} value={f.value}>
+                          {f.label}
+                        </option>
+                      ))}
                     </select>
+                    {PATH_FIELD_PREFIXES.filter((p) => cond.field.startsWith(p)).map((prefix) => (
+                      <input
+                        key={prefix}
+                        type="text"
+                        value={cond.field.slice(prefix.length)}
+                        onChange={(e) => onUpdateCondition(ci, { field: prefix + e.target.value })}
+                        placeholder={prefix === 'metadata.' ? 'package.version' : 'field_name'}
+                        className="w-32 px-2 py-1.5 border border-gray-300 rounded text-xs font-mono"
+                      />
+                    ))}
                     <select
                       value={cond.operator}
                       onChange={(e) =>
@@ -937,15 +1417,17 @@ function RuleCard({
                       }
                       className="px-2 py-1.5 border border-gray-300 rounded text-xs bg-white"
                     >
-                      <option value="gt">{'>'}</option>
-                      <option value="lt">{'<'}</option>
-                      <option value="eq">=</option>
-                      <option value="contains">contains</option>
+                      {CONDITION_OPERATORS.map((op) => (
+                        <option key={op.value} value={op.value}>
+                          {op.label}
+                        </option>
+                      ))}
                     </select>
                     <input
                       type="text"
-                      value={cond.value}
+                      value={Array.isArray(cond.value) ? cond.value.join(',') : String(cond.value)}
                       onChange={(e) => onUpdateCondition(ci, { value: e.target.value })}
+                      placeholder={CONDITION_OPERATORS.find((op) => op.value === cond.operator)?.placeholder}
                       className="flex-1 px-2 py-1.5 border border-gray-300 rounded text-xs min-w-0"
                     />
                     <button
@@ -0,0 +1,431 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import api from '../lib/api';
+import { useToast } from '../components/Toast';
+import Spinner from '../components/Spinner';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface ScoringModel {
+  id: string;
+  name: string;
+  description?: string | null;
+  isPrimary: boolean;
+  lastComputedAt?: string | null;
+  createdAt: string;
+  _count?: { scores: number };
+}
+
+interface TierDisagreement {
+  accountId: string;
+  accountName: string;
+  scoreA: number;
+  scoreB: number;
+  tierA: string;
+  tierB: string;
+  rankA: number;
+  rankB: number;
+}
+
+interface ModelComparison {
+  modelA: { id: string; name: string };
+  modelB: { id: string; name: string };
+  accounts: number;
+  rankCorrelation: number | null;
+  tierAgreement: number | null;
+  tierMatrix: Record<string, Record<string, number>>;
+  disagreementCount: number;
+  disagreements: TierDisagreement[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const TIERS = ['HOT', 'WARM', 'COLD', 'INACTIVE'];
+
+const TIER_COLORS: Record<string, string> = {
+  HOT: 'bg-red-100 text-red-700',
+  WARM: 'bg-orange-100 text-orange-700',
+  COLD: 'bg-blue-100 text-blue-700',
+  INACTIVE: 'bg-gray-100 text-gray-600',
+};
+
+function describeCorrelation(rho: number | null): string {
+  if (rho === null) return 'Not enough data';
+  const strength = Math.abs(rho);
+  if (strength >= 0.8) return 'Very similar rankings';
+  if (strength >= 0.5) return 'Moderately similar rankings';
+  if (strength >= 0.2) return 'Weakly related rankings';
+  return 'Largely independent rankings';
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  return (err as { response?: { data?: { error?: string } } })?.response?.data?.error || fallback;
+}
+
+// ---------------------------------------------------------------------------
+// Main Component
+// ---------------------------------------------------------------------------
+
+export default function ScoringModels() {
+  useEffect(() => { document.title = 'Scoring Models — Sigscore'; }, []);
+  const toast = useToast();
+  const [models, setModels] = useState<ScoringModel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [copyFrom, setCopyFrom] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [compareA, setCompareA] = useState('');
+  const [compareB, setCompareB] = useState('');
+  const [comparing, setComparing] = useState(false);
+  const [comparison, setComparison] = useState<ModelComparison | null>(null);
+
+  const fetchModels = useCallback(async () => {
+    try {
+      const { data } = await api.get('/scoring/models');
+      const list: ScoringModel[] = data.models || [];
+      setModels(list);
+      setCompareA((prev) => prev || list[0]?.id || '');
+      setCompareB((prev) => prev || list[1]?.id || '');
+    } catch {
+      setModels([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchModels();
+  }, [fetchModels]);
+
+  async function createModel() {
+    if (!newName.trim()) return;
+    setCreating(true);
+    try {
+      await api.post('/scoring/models', {
+        name: newName.trim(),
+        ...(copyFrom && { copyFromModelId: copyFrom }),
+      });
+      setNewName('');
+      toast.success('Model created. Scores are being computed.');
+      await fetchModels();
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to create model.'));
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function makePrimary(model: ScoringModel) {
+    if (!confirm(`Make "${model.name}" primary? Live tiers, alerts and webhooks will use this model.`)) return;
+    setBusyId(model.id);
+    try {
+      const { data } = await api.post(`/scoring/models/${model.id}/primary`);
+      toast.success(`"${model.name}" is now primary (${data.updated} accounts rescored).`);
+      await fetchModels();
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to change primary model.'));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function recompute(model: ScoringModel) {
+    setBusyId(model.id);
+    try {
+      const { data } = await api.post(`/scoring/models/${model.id}/recompute`);
+      toast.success(`Scored ${data.updated} accounts with "${model.name}".`);
+      await fetchModels();
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to recompute model.'));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function deleteModel(model: ScoringModel) {
+    if (!confirm(`Delete scoring model "${model.name}"? Its score history is removed too.`)) return;
+    setBusyId(model.id);
+    try {
+      await api.delete(`/scoring/models/${model.id}`);
+      setModels((prev) => prev.filter((m) => m.id !== model.id));
+      toast.success('Model deleted.');
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to delete model.'));
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function runComparison() {
+    if (!compareA || !compareB) return;
+    setComparing(true);
+    setComparison(null);
+    try {
+      const { data } = await api.get('/scoring/models/compare', { params: { a: compareA, b: compareB } });
+      setComparison(data);
+    } catch (err) {
+      toast.error(errorMessage(err, 'Failed to compare models.'));
+    } finally {
+      setComparing(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 lg:p-8 max-w-7xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Scoring Models</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Run several scoring models side by side. The primary model drives tiers, alerts and webhooks.
+          </p>
+        </div>
+        <Link
+          to="/scoring"
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Back to Scoring Rules
+        </Link>
+      </div>
+
+      {/* Models */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-2">
+          <h2 className="text-sm font-semibold text-gray-700 mr-auto">Models</h2>
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New model name"
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+          />
+          <select
+            value={copyFrom}
+            onChange={(e) => setCopyFrom(e.target.value)}
+            className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+          >
+            <option value="">Copy primary</option>
+            {models.map((m) => (
+              <option key={m.id} value={m.id}>
+                Copy {m.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={createModel}
+            disabled={creating || !newName.trim()}
+            className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            {creating ? 'Creating...' : 'Create Model'}
+          </button>
+        </div>
+        <div className="divide-y divide-gray-100">
+          {models.map((m) => (
+            <div key={m.id} className="px-4 py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-900 truncate">{m.name}</span>
+                  {m.isPrimary && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-700 font-medium">
+                      Primary
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {m._count?.scores ?? 0} accounts scored
+                  {m.lastComputedAt && <> | Computed {new Date(m.lastComputedAt).toLocaleString()}</>}
+                  {m.description && <> | {m.description}</>}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Link
+                  to={`/scoring?model=${m.id}`}
+                  className="text-xs text-indigo-600 hover:text-indigo-700 border border-indigo-200 px-2.5 py-1 rounded-lg hover:bg-indigo-50 transition-colors"
+                >
+                  Edit Rules
+                </Link>
+                <button
+                  onClick={() => recompute(m)}
+                  disabled={busyId === m.id}
+                  className="text-xs text-gray-500 hover:text-gray-700 border border-gray-200 px-2.5 py-1 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Recompute
+                </button>
+                {!m.isPrimary && (
+                  <>
+                    <button
+                      onClick={() => makePrimary(m)}
+                      disabled={busyId === m.id}
+                      className="text-xs text-green-700 hover:text-green-800 border border-green-200 px-2.5 py-1 rounded-lg hover:bg-green-50 disabled:opacity-50 transition-colors"
+                    >
+                      Make Primary
+                    </button>
+                    <button
+                      onClick={() => deleteModel(m)}
+                      disabled={busyId === m.id}
+                      className="text-xs text-red-600 hover:text-red-700 border border-red-200 px-2.5 py-1 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Comparison */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 flex flex-wrap items-center gap-2">
+          <h2 className="text-sm font-semibold text-gray-700 mr-auto">A/B Comparison</h2>
+          {[
+            { value: compareA, set: setCompareA, label: 'A' },
+            { value: compareB, set: setCompareB, label: 'B' },
+          ].map(({ value, set, label }) => (
+            <select
+              key={label}
+              value={value}
+              onChange={(e) => set(e.target.value)}
+              className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              <option value="">Model {label}</option>
+              {models.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {label}: {m.name}
+                </option>
+              ))}
+            </select>
+          ))}
+          <button
+            onClick={runComparison}
+            disabled={comparing || !compareA || !compareB || compareA === compareB}
+            className="px-3 py-1.5 text-sm border border-indigo-300 text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50 transition-colors"
+          >
+            {comparing ? 'Comparing...' : 'Compare'}
+          </button>
+        </div>
+
+        {models.length < 2 ? (
+          <p className="p-6 text-sm text-gray-500 text-center">Create a second model to compare.</p>
+        ) : !comparison ? (
+          <p className="p-6 text-sm text-gray-500 text-center">Pick two models and run a comparison.</p>
+        ) : (
+          <div className="p-4 space-y-5">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Rank correlation</p>
+                <p className="text-2xl font-bold text-gray-900 mt-1">
+                  {comparison.rankCorrelation ?? '—'}
+                </p>
+                <p className="text-xs text-gray-400">{describeCorrelation(comparison.rankCorrelation)}</p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Tier agreement</p>
+                <p className="text-2xl font-bold text-gray-900 mt-1">
+                  {comparison.tierAgreement !== null ? `${Math.round(comparison.tierAgreement * 100)}%` : '—'}
+                </p>
+                <p className="text-xs text-gray-400">over {comparison.accounts} accounts</p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Tier disagreements</p>
+                <p className="text-2xl font-bold text-orange-600 mt-1">{comparison.disagreementCount}</p>
+              </div>
+            </div>
+
+            {/* Tier matrix: rows = model A, columns = model B */}
+            <div className="overflow-x-auto">
+              <table className="text-sm">
+                <thead>
+                  <tr>
+                    <th className="py-2 px-3 text-left text-xs text-gray-500 font-medium">
+                      {comparison.modelA.name} \ {comparison.modelB.name}
+                    </th>
+                    {TIERS.map((t) => (
+                      <th key={t} className="py-2 px-3 text-center">
+                        <span className={`text-xs px-2 py-0.5 rounded font-medium ${TIER_COLORS[t]}`}>{t}</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {TIERS.map((rowTier) => (
+                    <tr key={rowTier}>
+                      <td className="py-2 px-3">
+                        <span className={`text-xs px-2 py-0.5 rounded font-medium ${TIER_COLORS[rowTier]}`}>
+                          {rowTier}
+                        </span>
+                      </td>
+                      {TIERS.map((colTier) => (
+                        <td
+                          key={colTier}
+                          className={`py-2 px-3 text-center ${
+                            rowTier === colTier ? 'font-bold text-gray-900 bg-green-50' : 'text-gray-600'
+                          }`}
+                        >
+                          {comparison.tierMatrix[rowTier]?.[colTier] ?? 0}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {comparison.disagreements.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 bg-gray-50">
+                    <th className="text-left py-2 px-3 font-semibold text-gray-600">Account</th>
+                    <th className="text-center py-2 px-3 font-semibold text-gray-600">{comparison.modelA.name}</th>
+                    <th className="text-center py-2 px-3 font-semibold text-gray-600">{comparison.modelB.name}</th>
+                    <th className="text-center py-2 px-3 font-semibold text-gray-600">Rank shift</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {comparison.disagreements.map((d) => (
+                    <tr key={d.accountId} className="hover:bg-gray-50">
+                      <td className="py-2 px-3">
+                        <Link to={`/companies/${d.accountId}`} className="font-medium text-gray-900 hover:text-indigo-600">
+                          {d.accountName}
+                        </Link>
+                      </td>
+                      <td className="py-2 px-3 text-center">
+                        <span className={`text-xs px-2 py-0.5 rounded font-medium ${TIER_COLORS[d.tierA]}`}>
+                          {d.tierA}
+                        </span>{' '}
+                        <span className="text-xs text-gray-500">{d.scoreA} (#{d.rankA})</span>
+                      </td>
+                      <td className="py-2 px-3 text-center">
+                        <span className={`text-xs px-2 py-0.5 rounded font-medium ${TIER_COLORS[d.tierB]}`}>
+                          {d.tierB}
+                        </span>{' '}
+                        <span className="text-xs text-gray-500">{d.scoreB} (#{d.rankB})</span>
+                      </td>
+                      <td className="py-2 px-3 text-center text-gray-700">
+                        {Math.abs(d.rankA - d.rankB)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -62,6 +62,7 @@ interface HubSpotSyncStatus {
     companies: { created: number; updated: number; failed: number };
     deals: { created: number; updated: number; failed: number };
     signals: { synced: number; failed: number };
+    conflicts?: number;
     errors: string[];
   } | null;
   syncInProgress: boolean;
@@ -71,6 +72,26 @@ interface HubSpotSyncStatus {
   totalDealsSynced: number;
 }
 
+type CrmConflictPolicy = 'crm' | 'sigscore' | 'newest';
+
+interface CrmConflictPolicySettings {
+  defaultPolicy: CrmConflictPolicy;
+  fields: Record<string, CrmConflictPolicy>;
+}
+
+interface CrmSyncConflict {
+  id: string;
+  objectType: 'company' | 'contact' | 'deal';
+  recordId: string;
+  externalId: string;
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  policy: CrmConflictPolicy;
+  winner: 'crm' | 'sigscore';
+  createdAt: string;
+}
+
 interface SalesforceSyncStatus {
   connected: boolean;
   lastSyncAt: string | null;
@@ -284,6 +305,7 @@ const ALL_SCOPES = [
   'contacts:write',
   'deals:read',
   'deals:write',
+  'tags:write',
 ] as const;
 
 const ALL_EVENTS = [
@@ -1975,6 +1997,200 @@ function SegmentTab() {
   );
 }
 
+// ---------------------------------------------------------------------------
+// CRM conflict resolution (shared by the HubSpot and Salesforce tabs)
+// ---------------------------------------------------------------------------
+
+const CONFLICT_FIELD_LABELS: Record<string, string> = {
+  'company.name': 'Company name',
+  'company.industry': 'Company industry',
+  'company.phone': 'Company phone',
+  'company.ownerId': 'Company owner',
+  'company.lifecycleStage': 'Company lifecycle stage',
+  'contact.firstName': 'Contact first name',
+  'contact.lastName': 'Contact last name',
+  'contact.title': 'Contact title',
+  'contact.phone': 'Contact phone',
+  'contact.lifecycleStage': 'Contact lifecycle stage',
+  'deal.title': 'Deal name',
+  'deal.amount': 'Deal amount',
+  'deal.expectedCloseDate': 'Deal close date',
+  'deal.ownerId': 'Deal owner',
+};
+
+function formatConflictValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function CrmConflictsPanel({ provider, label }: { provider: 'hubspot' | 'salesforce'; label: string }) {
+  const toast = useToast();
+  const [policy, setPolicy] = useState<CrmConflictPolicySettings | null>(null);
+  const [overrides, setOverrides] = useState<Record<string, CrmConflictPolicy>>({});
+  const [conflicts, setConflicts] = useState<CrmSyncConflict[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const policyLabels: Record<CrmConflictPolicy, string> = {
+    crm: `${label} wins`,
+    sigscore: 'Sigscore wins',
+    newest: 'Newest wins',
+  };
+
+  const load = useCallback(async () => {
+    try {
+      const [policyRes, conflictsRes] = await Promise.all([
+        api.get(`/integrations/${provider}/conflict-policy`),
+        api.get(`/integrations/${provider}/conflicts`, { params: { limit: 20 } }),
+      ]);
+      const loaded = policyRes.data as CrmConflictPolicySettings;
+      setPolicy(loaded);
+      setOverrides(
+        Object.fromEntries(
+          Object.entries(loaded.fields).filter(([, value]) => value !== loaded.defaultPolicy),
+        ),
+      );
+      setConflicts(conflictsRes.data.conflicts || []);
+    } catch {
+      setPolicy(null);
+    }
+  }, [provider]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function handleSave() {
+    if (!policy) return;
+    setSaving(true);
+    try {
+      const { data } = await api.put(`/integrations/${provider}/conflict-policy`, {
+        defaultPolicy: policy.defaultPolicy,
+        fields: overrides,
+      });
+      setPolicy(data);
+      toast.success('Conflict policy saved.');
+    } catch (err) {
+      toast.error(extractApiError(err));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!policy) return null;
+
+  const setFieldPolicy = (field: string, value: CrmConflictPolicy) => {
+    setOverrides((prev) => {
+      const next = { ...prev };
+      if (value === policy.defaultPolicy) delete next[field];
+      else next[field] = value;
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+      <div className="px-6 py-5 border-b border-gray-100">
+        <h2 className="text-base font-semibold text-gray-900">Conflict Resolution</h2>
+        <p className="text-sm text-gray-500">
+          When a field is edited in both {label} and Sigscore between syncs, the policy decides
+          which value is kept. Fields changed on only one side always take that change.
+        </p>
+      </div>
+
+      <div className="px-6 py-5 space-y-5">
+        <div className="flex items-center gap-3">
+          <label className="text-sm font-medium text-gray-700">Default policy</label>
+          <select
+            value={policy.defaultPolicy}
+            onChange={(e) =>
+              setPolicy({ ...policy, defaultPolicy: e.target.value as CrmConflictPolicy })
+            }
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {(Object.keys(policyLabels) as CrmConflictPolicy[]).map((value) => (
+              <option key={value} value={value}>
+                {policyLabels[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+          {Object.keys(policy.fields).map((field) => (
+            <div key={field} className="flex items-center justify-between gap-3">
+              <span className="text-sm text-gray-700">{CONFLICT_FIELD_LABELS[field] || field}</span>
+              <select
+                value={overrides[field] ?? policy.defaultPolicy}
+                onChange={(e) => setFieldPolicy(field, e.target.value as CrmConflictPolicy)}
+                className={`px-2 py-1 border rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                  overrides[field] ? 'border-indigo-300 text-indigo-700' : 'border-gray-300 text-gray-600'
+                }`}
+              >
+                {(Object.keys(policyLabels) as CrmConflictPolicy[]).map((value) => (
+                  <option key={value} value={value}>
+                    {policyLabels[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {saving ? 'Saving...' : 'Save Policy'}
+          </button>
+        </div>
+
+        <div className="border-t border-gray-100 pt-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Conflict Log</h3>
+          {conflicts.length === 0 ? (
+            <p className="text-sm text-gray-500">No conflicts recorded yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b border-gray-100">
+                    <th className="py-2 pr-4 font-medium">When</th>
+                    <th className="py-2 pr-4 font-medium">Field</th>
+                    <th className="py-2 pr-4 font-medium">Sigscore</th>
+                    <th className="py-2 pr-4 font-medium">{label}</th>
+                    <th className="py-2 font-medium">Kept</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {conflicts.map((conflict) => (
+                    <tr key={conflict.id}>
+                      <td className="py-2 pr-4 text-gray-500 whitespace-nowrap">
+                        {formatDateTime(conflict.createdAt)}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-900">
+                        {CONFLICT_FIELD_LABELS[`${conflict.objectType}.${conflict.field}`] || conflict.field}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700">{formatConflictValue(conflict.localValue)}</td>
+                      <td className="py-2 pr-4 text-gray-700">{formatConflictValue(conflict.remoteValue)}</td>
+                      <td className="py-2">
+                        <Badge color={conflict.winner === 'crm' ? 'yellow' : 'indigo'}>
+                          {conflict.winner === 'crm' ? label : 'Sigscore'}
+                        </Badge>
+                        <span className="ml-2 text-xs text-gray-400">{policyLabels[conflict.policy]}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Tab 6: HubSpot
 // ---------------------------------------------------------------------------
@@ -2244,7 +2460,8 @@ function HubSpotTab() {
                 HubSpot Sync
               </h2>
               <p className="text-sm text-gray-500">
-                Bidirectional sync pushes Sigscore data into HubSpot.
+                Bidirectional sync pushes Sigscore data into HubSpot and pulls
+                back owner, lifecycle stage and deal edits.
               </p>
             </div>
             <span className="ml-auto inline-flex items-center gap-1.5 rounded-full bg-green-50 px-3 py-1 text-xs font-medium text-green-700 border border-green-200">
@@ -2386,6 +2603,13 @@ function HubSpotTab() {
                   </div>
                 </div>
 
+                {!!lastResult.conflicts && (
+                  <p className="mt-3 text-xs text-yellow-700">
+                    {lastResult.conflicts} field conflict{lastResult.conflicts === 1 ? '' : 's'} resolved
+                    by policy. See the conflict log below.
+                  </p>
+                )}
+
                 {/* Errors */}
                 {lastResult.errors.length > 0 && (
                   <div className="mt-3 bg-red-50 border border-red-200 rounded-lg p-3">
@@ -2436,13 +2660,15 @@ function HubSpotTab() {
           {/* Info */}
           <div className="rounded-lg bg-gray-50 border border-gray-100 p-4">
             <p className="text-xs text-gray-500">
-              Automatic sync runs every 15 minutes and only pushes records
-              modified since the last sync. Use "Full Re-sync" to push all
-              records regardless of last sync time.
+              Automatic sync runs every 15 minutes and only pulls and pushes
+              records modified since the last sync. Use "Full Re-sync" to sync
+              all records regardless of last sync time.
             </p>
           </div>
         </div>
       </div>
+
+      <CrmConflictsPanel provider="hubspot" label="HubSpot" />
     </div>
   );
 }
@@ -2915,6 +3141,8 @@ function SalesforceTab() {
           </div>
         </div>
       </div>
+
+      <CrmConflictsPanel provider="salesforce" label="Salesforce" />
     </div>
   );
 }
@@ -14,6 +14,12 @@ interface WebhookFilters {
   tiers?: string[];
   signalTypes?: string[];
   accountIds?: string[];
+  tierDirection?: 'up' | 'down';
+  stages?: string[];
+  severities?: string[];
+  triggerTypes?: string[];
+  entityTypes?: string[];
+  workflowIds?: string[];
 }
 
 interface WebhookSubscription {
@@ -22,9 +28,13 @@ interface WebhookSubscription {
   event: string;
   hookId: string | null;
   secret: string;
+  previousSecretActive?: boolean;
+  previousSecretExpiresAt?: string | null;
+  hasClientCertificate?: boolean;
   active: boolean;
   filters: WebhookFilters | null;
   payloadTemplate: Record<string, unknown> | null;
+  transform?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -37,22 +47,42 @@ const EVENT_TYPES = [
   { value: 'signal.created', label: 'Signal Created', description: 'When a new signal is ingested' },
   { value: 'contact.created', label: 'Contact Created', description: 'When a new contact is added' },
   { value: 'contact.updated', label: 'Contact Updated', description: 'When contact fields change' },
+  { value: 'contact.merged', label: 'Contacts Merged', description: 'When duplicate contacts are merged' },
   { value: 'company.created', label: 'Company Created', description: 'When a new company is discovered' },
+  { value: 'company.updated', label: 'Company Updated', description: 'When company fields change' },
+  { value: 'company.merged', label: 'Companies Merged', description: 'When duplicate companies are merged' },
   { value: 'deal.created', label: 'Deal Created', description: 'When a new deal is created' },
+  { value: 'deal.updated', label: 'Deal Updated', description: 'When deal fields change' },
   { value: 'deal.stage_changed', label: 'Deal Stage Changed', description: 'When a deal moves pipeline stages' },
+  { value: 'deal.closed', label: 'Deal Closed', description: 'When a deal is closed won or lost' },
+  { value: 'note.created', label: 'Note Created', description: 'When a note is added to a record' },
   { value: 'score.changed', label: 'Score Changed', description: 'When a PQA score changes' },
   { value: 'tier.changed', label: 'Tier Changed', description: 'When an account tier changes (HOT/WARM/COLD)' },
+  { value: 'anomaly.detected', label: 'Anomaly Detected', description: 'When an account signal spike or drop is detected' },
+  { value: 'alert.triggered', label: 'Alert Triggered', description: 'When an account alert rule fires' },
+  { value: 'workflow.run_failed', label: 'Workflow Failed', description: 'When a workflow run fails' },
+  { value: 'enrichment.completed', label: 'Enrichment Completed', description: 'When a company or contact is enriched' },
 ];
 
 const EVENT_COLORS: Record<string, string> = {
   'signal.created': 'bg-blue-100 text-blue-800',
   'contact.created': 'bg-green-100 text-green-800',
   'contact.updated': 'bg-teal-100 text-teal-800',
+  'contact.merged': 'bg-teal-100 text-teal-800',
   'company.created': 'bg-purple-100 text-purple-800',
+  'company.updated': 'bg-purple-100 text-purple-800',
+  'company.merged': 'bg-purple-100 text-purple-800',
   'deal.created': 'bg-orange-100 text-orange-800',
+  'deal.updated': 'bg-orange-100 text-orange-800',
   'deal.stage_changed': 'bg-amber-100 text-amber-800',
+  'deal.closed': 'bg-amber-100 text-amber-800',
+  'note.created': 'bg-gray-100 text-gray-800',
   'score.changed': 'bg-indigo-100 text-indigo-800',
   'tier.changed': 'bg-rose-100 text-rose-800',
+  'anomaly.detected': 'bg-red-100 text-red-800',
+  'alert.triggered': 'bg-red-100 text-red-800',
+  'workflow.run_failed': 'bg-red-100 text-red-800',
+  'enrichment.completed': 'bg-cyan-100 text-cyan-800',
 };
 
 const TIER_OPTIONS = ['HOT', 'WARM', 'COLD', 'INACTIVE'] as const;
@@ -79,6 +109,18 @@ const TEMPLATE_PLACEHOLDER = `{
   "tier": "{{data.newTier}}"
 }`;
 
+const TRANSFORM_PLACEHOLDER = `{
+  "account": data.accountName,
+  "priority": data.newScore >= 80 ? 'high' : 'normal',
+  "changedOn": $formatDate(timestamp, 'YYYY-MM-DD')
+}`;
+
+interface TransformPreview {
+  success: boolean;
+  output: Record<string, unknown> | null;
+  error: string | null;
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -90,6 +132,7 @@ function buildFilters(
   tiers: string[],
   signalTypes: string[],
   accountIds: string,
+  tierDirection: '' | 'up' | 'down',
 ): WebhookFilters | undefined {
   const filters: WebhookFilters = {};
   let hasFilter = false;
@@ -106,6 +149,8 @@ function buildFilters(
   const ids = accountIds.split(',').map(s => s.trim()).filter(Boolean);
   if (ids.length > 0) { filters.accountIds = ids; hasFilter = true; }
 
+  if (tierDirection) { filters.tierDirection = tierDirection; hasFilter = true; }
+
   return hasFilter ? filters : undefined;
 }
 
@@ -133,6 +178,12 @@ function summarizeFilters(filters: WebhookFilters | null): string | null {
   if (filters.tiers && filters.tiers.length > 0) parts.push(`tiers: ${filters.tiers.join(', ')}`);
   if (filters.signalTypes && filters.signalTypes.length > 0) parts.push(`types: ${filters.signalTypes.length}`);
   if (filters.accountIds && filters.accountIds.length > 0) parts.push(`accounts: ${filters.accountIds.length}`);
+  if (filters.tierDirection) parts.push(filters.tierDirection === 'up' ? 'upgrades only' : 'downgrades only');
+  if (filters.stages && filters.stages.length > 0) parts.push(`stages: ${filters.stages.join(', ')}`);
+  if (filters.severities && filters.severities.length > 0) parts.push(`severity: ${filters.severities.join(', ')}`);
+  if (filters.triggerTypes && filters.triggerTypes.length > 0) parts.push(`triggers: ${filters.triggerTypes.length}`);
+  if (filters.entityTypes && filters.entityTypes.length > 0) parts.push(`entities: ${filters.entityTypes.join(', ')}`);
+  if (filters.workflowIds && filters.workflowIds.length > 0) parts.push(`workflows: ${filters.workflowIds.length}`);
   return parts.length > 0 ? parts.join(' | ') : null;
 }
 
@@ -161,7 +212,10 @@ export default function WebhookManager() {
   const [formTiers, setFormTiers] = useState<string[]>([]);
   const [formSignalTypes, setFormSignalTypes] = useState<string[]>([]);
   const [formAccountIds, setFormAccountIds] = useState('');
+  const [formTierDirection, setFormTierDirection] = useState<'' | 'up' | 'down'>('');
   const [formPayloadTemplate, setFormPayloadTemplate] = useState('');
+  const [formTransform, setFormTransform] = useState('');
+  const [transformPreview, setTransformPreview] = useState<TransformPreview | null>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [templateError, setTemplateError] = useState<string | null>(null);
 
@@ -181,7 +235,10 @@ export default function WebhookManager() {
     setFormTiers([]);
     setFormSignalTypes([]);
     setFormAccountIds('');
+    setFormTierDirection('');
     setFormPayloadTemplate('');
+    setFormTransform('');
+    setTransformPreview(null);
     setShowAdvanced(false);
     setTemplateError(null);
   };
@@ -204,6 +261,24 @@ export default function WebhookManager() {
     fetchSubscriptions();
   }, [fetchSubscriptions]);
 
+  // Live transform preview against the selected event's test payload
+  useEffect(() => {
+    const transform = formTransform.trim();
+    if (!transform) {
+      setTransformPreview(null);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const { data } = await api.post('/webhooks/subscribe/transform/preview', { event: formEvent, transform });
+        setTransformPreview(data);
+      } catch {
+        setTransformPreview({ success: false, output: null, error: 'Preview unavailable' });
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [formTransform, formEvent]);
+
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     setCreating(true);
@@ -223,7 +298,14 @@ export default function WebhookManager() {
     }
 
     try {
-      const filters = buildFilters(formScoreAbove, formScoreBelow, formTiers, formSignalTypes, formAccountIds);
+      const filters = buildFilters(
+        formScoreAbove,
+        formScoreBelow,
+        formTiers,
+        formSignalTypes,
+        formAccountIds,
+        formTierDirection,
+      );
       const payloadTemplate = parsePayloadTemplate(formPayloadTemplate);
 
       const body: Record<string, unknown> = {
@@ -232,6 +314,7 @@ export default function WebhookManager() {
       };
       if (filters) body.filters = filters;
       if (payloadTemplate) body.payloadTemplate = payloadTemplate;
+      if (formTransform.trim()) body.transform = formTransform.trim();
 
       const { data } = await api.post('/webhooks/subscribe', body);
       setSubscriptions((prev) => [data, ...prev]);
@@ -271,6 +354,18 @@ export default function WebhookManager() {
     }
   };
 
+  const handleRotateSecret = async (id: string) => {
+    if (!window.confirm('Rotate the signing secret? The current secret keeps signing alongside the new one for 24 hours.')) return;
+    try {
+      const { data } = await api.post(`/webhooks/subscribe/${id}/rotate-secret`, { graceHours: 24 });
+      setSubscriptions((prev) => prev.map((s) => (s.id === id ? data : s)));
+      setNewSecret({ id: data.id, secret: data.secret });
+      toast.success('Signing secret rotated');
+    } catch {
+      toast.error('Failed to rotate signing secret');
+    }
+  };
+
   const handleCopySecret = (secret: string) => {
     navigator.clipboard.writeText(secret);
     setCopiedSecret(true);
@@ -469,6 +564,25 @@ export default function WebhookManager() {
                       <p className="text-xs text-gray-400 mt-1">Only fire for events matching these tiers</p>
                     </div>
 
+                    {/* Tier direction */}
+                    {(formEvent === 'tier.changed' || formEvent === 'score.changed') && (
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1.5 uppercase tracking-wide">
+                          Tier Direction
+                        </label>
+                        <select
+                          value={formTierDirection}
+                          onChange={(e) => setFormTierDirection(e.target.value as '' | 'up' | 'down')}
+                          className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        >
+                          <option value="">Any change</option>
+                          <option value="up">Upgrades only (e.g. WARM to HOT)</option>
+                          <option value="down">Downgrades only (e.g. HOT to WARM)</option>
+                        </select>
+                        <p className="text-xs text-gray-400 mt-1">Only fire when the account moves up or down a tier</p>
+                      </div>
+                    )}
+
                     {/* Signal type filter */}
                     <div>
                       <label className="block text-xs font-medium text-gray-600 mb-1.5 uppercase tracking-wide">
@@ -537,6 +651,36 @@ export default function WebhookManager() {
                         Leave empty for the default Sigscore payload.
                       </p>
                     </div>
+
+                    {/* Transform */}
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1.5 uppercase tracking-wide">
+                        Transform
+                      </label>
+                      <textarea
+                        value={formTransform}
+                        onChange={(e) => setFormTransform(e.target.value)}
+                        placeholder={TRANSFORM_PLACEHOLDER}
+                        rows={5}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        spellCheck={false}
+                      />
+                      {transformPreview && (
+                        transformPreview.success ? (
+                          <pre className="mt-2 bg-gray-900 rounded-lg p-3 text-xs font-mono text-gray-100 overflow-x-auto whitespace-pre-wrap max-h-48">
+                            {JSON.stringify(transformPreview.output, null, 2)}
+                          </pre>
+                        ) : (
+                          <p className="text-xs text-red-600 mt-1">{transformPreview.error}</p>
+                        )
+                      )}
+                      <p className="text-xs text-gray-400 mt-1">
+                        Expression that builds the payload from the default envelope: rename fields, use
+                        {' '}<code>cond ? a : b</code>, map arrays with <code>data.items.{'{ "id": id }'}</code> and format
+                        dates with <code>$formatDate()</code>. Takes precedence over the payload template. The preview
+                        runs against a sample {formEvent} event.
+                      </p>
+                    </div>
                   </div>
                 )}
               </div>
@@ -697,6 +841,17 @@ export default function WebhookManager() {
                               >
                                 {expandedId === sub.id ? 'Close' : 'Test'}
                               </button>
+                              <button
+                                onClick={() => handleRotateSecret(sub.id)}
+                                title={
+                                  sub.previousSecretActive && sub.previousSecretExpiresAt
+                                    ? `Previous secret also signs until ${new Date(sub.previousSecretExpiresAt).toLocaleString()}`
+                                    : 'Issue a new signing secret'
+                                }
+                                className="px-2.5 py-1 text-xs font-medium text-gray-600 border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+                              >
+                                Rotate Secret
+                              </button>
                               <button
                                 onClick={() => handleDelete(sub.id)}
                                 className="px-2.5 py-1 text-xs font-medium text-red-600 border border-red-200 rounded-md hover:bg-red-50 transition-colors"
@@ -15,6 +15,7 @@ interface Workflow {
   trigger: { event: string; filters?: Record<string, unknown> };
   conditions?: Array<{ field: string; operator: string; value: unknown }>;
   actions: Array<{ type: string; params: Record<string, unknown> }>;
+  steps?: WorkflowStep[] | null;
   enabled: boolean;
   runCount: number;
   lastTriggeredAt?: string | null;
@@ -22,32 +23,100 @@ interface Workflow {
   updatedAt: string;
 }
 
+type WaitUnit = 'minutes' | 'hours' | 'days';
+
+interface WorkflowCondition {
+  field: string;
+  operator: string;
+  value: unknown;
+}
+
+type WorkflowStep =
+  | { id: string; type: 'action'; action: { type: string; params: Record<string, unknown> }; next?: string | null }
+  | { id: string; type: 'wait'; duration: { amount: number; unit: WaitUnit }; next?: string | null }
+  | { id: string; type: 'branch'; conditions: WorkflowCondition[]; onTrue?: string | null; onFalse?: string | null }
+  | { id: string; type: 'goto'; target: string };
+
 interface WorkflowRun {
   id: string;
-  status: 'SUCCESS' | 'FAILED' | 'SKIPPED';
+  status: 'SUCCESS' | 'FAILED' | 'SKIPPED' | 'WAITING' | 'CANCELLED' | 'RUNNING';
   triggerData: Record<string, unknown>;
   results?: Record<string, unknown>;
   error?: string | null;
   duration?: number | null;
+  resumeAt?: string | null;
   createdAt: string;
 }
 
-type ActionType = 'create_deal' | 'update_deal_stage' | 'send_webhook' | 'send_slack' | 'add_tag' | 'log';
+interface SimulationResult {
+  supported: boolean;
+  window: { days: number; since: string };
+  summary: {
+    eventsReplayed: number;
+    triggerMatched: number;
+    conditionsMet: number;
+    actionsWouldFire: Record<string, number>;
+  };
+  events: Array<{
+    occurredAt: string;
+    conditionsMet: boolean;
+    steps: Array<Record<string, unknown>>;
+    error?: string;
+  }>;
+}
+
+type ActionType =
+  | 'create_deal'
+  | 'update_deal_stage'
+  | 'send_webhook'
+  | 'send_slack'
+  | 'add_tag'
+  | 'log'
+  | 'enroll_in_sequence'
+  | 'create_note'
+  | 'assign_owner'
+  | 'set_custom_field'
+  | 'create_task'
+  | 'send_notification';
 
 interface ActionEntry {
   type: ActionType;
   params: Record<string, string>;
 }
 
+type StepType = WorkflowStep['type'];
+
+interface ConditionEntry {
+  field: string;
+  operator: string;
+  value: string;
+}
+
+/** Editor state for one graph node. Edge fields hold a step id, NEXT_STEP or END_STEP. */
+interface StepEntry {
+  id: string;
+  type: StepType;
+  action: ActionEntry;
+  wait: { amount: string; unit: WaitUnit };
+  conditions: ConditionEntry[];
+  next: string;
+  onTrue: string;
+  onFalse: string;
+  target: string;
+}
+
 interface WorkflowForm {
   name: string;
   description: string;
   triggerEvent: string;
   triggerFilters: Array<{ key: string; value: string }>;
-  actions: ActionEntry[];
+  steps: StepEntry[];
   enabled: boolean;
 }
 
+const NEXT_STEP = '__next__';
+const END_STEP = '__end__';
+
 const TRIGGER_EVENTS = [
   { value: 'signal_received', label: 'Signal Received', description: 'When a new signal is ingested from any source', icon: 'signal' },
   { value: 'contact_created', label: 'Contact Created', description: 'When a new contact is added to the system', icon: 'user-plus' },
@@ -67,6 +136,12 @@ const ACTION_TYPES: { value: ActionType; label: string; description: string; col
   { value: 'send_slack', label: 'Send Slack Message', description: 'Notify a Slack channel', color: 'bg-purple-100 text-purple-700' },
   { value: 'add_tag', label: 'Add Tag', description: 'Tag the triggering entity', color: 'bg-yellow-100 text-yellow-700' },
   { value: 'log', label: 'Log Event', description: 'Record an event in the activity log', color: 'bg-gray-100 text-gray-600' },
+  { value: 'enroll_in_sequence', label: 'Enroll in Sequence', description: 'Add the contact to an email sequence', color: 'bg-pink-100 text-pink-700' },
+  { value: 'create_note', label: 'Create Note', description: 'Attach a note to the contact, company or deal', color: 'bg-sky-100 text-sky-700' },
+  { value: 'assign_owner', label: 'Assign Owner', description: 'Assign the deal or company owner (round-robin)', color: 'bg-emerald-100 text-emerald-700' },
+  { value: 'set_custom_field', label: 'Set Custom Field', description: 'Update a custom field value', color: 'bg-lime-100 text-lime-700' },
+  { value: 'create_task', label: 'Create Task', description: 'Create a task for a teammate', color: 'bg-cyan-100 text-cyan-700' },
+  { value: 'send_notification', label: 'In-App Notification', description: 'Notify teammates inside Sigscore', color: 'bg-violet-100 text-violet-700' },
 ];
 
 const ACTION_PARAM_HINTS: Record<ActionType, { key: string; label: string; placeholder: string }[]> = {
@@ -94,12 +169,63 @@ const ACTION_PARAM_HINTS: Record<ActionType, { key: string; label: string; place
     { key: 'message', label: 'Log message', placeholder: 'e.g. Workflow triggered for {{contact.email}}' },
     { key: 'level', label: 'Level', placeholder: 'info' },
   ],
+  enroll_in_sequence: [
+    { key: 'sequenceId', label: 'Sequence ID', placeholder: 'Email sequence to enroll into' },
+    { key: 'contactId', label: 'Contact ID', placeholder: 'Leave empty to use trigger context' },
+  ],
+  create_note: [
+    { key: 'content', label: 'Note content', placeholder: 'e.g. {{accountName}} moved to {{newTier}}' },
+    { key: 'entityType', label: 'Attach to', placeholder: 'contact, company or deal (default: from trigger)' },
+  ],
+  assign_owner: [
+    { key: 'entityType', label: 'Record type', placeholder: 'deal or company (default: from trigger)' },
+    { key: 'userIds', label: 'Rotate between user IDs', placeholder: 'Comma-separated; empty = all members' },
+  ],
+  set_custom_field: [
+    { key: 'field', label: 'Field name', placeholder: 'e.g. lifecycle_stage' },
+    { key: 'value', label: 'Value', placeholder: 'e.g. qualified' },
+    { key: 'entityType', label: 'Record type', placeholder: 'contact or company (default: from trigger)' },
+  ],
+  create_task: [
+    { key: 'title', label: 'Task title', placeholder: 'e.g. Reach out to {{accountName}}' },
+    { key: 'dueInDays', label: 'Due in (days)', placeholder: 'e.g. 2' },
+    { key: 'priority', label: 'Priority', placeholder: 'LOW, MEDIUM, HIGH or URGENT' },
+    { key: 'assigneeId', label: 'Assignee user ID', placeholder: 'Leave empty for the org owner' },
+  ],
+  send_notification: [
+    { key: 'title', label: 'Title', placeholder: 'e.g. {{accountName}} is heating up' },
+    { key: 'body', label: 'Body', placeholder: 'Optional details' },
+    { key: 'userIds', label: 'Recipient user IDs', placeholder: 'Comma-separated; empty = everyone' },
+  ],
 };
 
+const STEP_TYPES: { value: StepType; label: string; description: string; color: string }[] = [
+  { value: 'action', label: 'Action', description: 'Run an action', color: 'bg-indigo-100 text-indigo-700' },
+  { value: 'wait', label: 'Wait', description: 'Pause the run, then continue', color: 'bg-amber-100 text-amber-700' },
+  { value: 'branch', label: 'If / Else', description: 'Check conditions against live data and pick a path', color: 'bg-teal-100 text-teal-700' },
+  { value: 'goto', label: 'Go To', description: 'Jump to another step', color: 'bg-gray-100 text-gray-600' },
+];
+
+const CONDITION_OPERATORS = [
+  { value: 'eq', label: 'equals' },
+  { value: 'neq', label: 'not equals' },
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '>=' },
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '<=' },
+  { value: 'contains', label: 'contains' },
+  { value: 'in', label: 'in (comma list)' },
+];
+
+const NUMERIC_OPERATORS = ['gt', 'gte', 'lt', 'lte'];
+
 const RUN_STATUS_COLORS: Record<string, string> = {
   SUCCESS: 'bg-green-100 text-green-700',
   FAILED: 'bg-red-100 text-red-700',
   SKIPPED: 'bg-gray-100 text-gray-500',
+  WAITING: 'bg-amber-100 text-amber-700',
+  CANCELLED: 'bg-gray-100 text-gray-500',
+  RUNNING: 'bg-blue-100 text-blue-700',
 };
 
 // ---------------------------------------------------------------------------
@@ -118,6 +244,9 @@ export default function Workflows() {
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [runs, setRuns] = useState<Record<string, WorkflowRun[]>>({});
   const [runsLoading, setRunsLoading] = useState<string | null>(null);
+  const [simulations, setSimulations] = useState<Record<string, SimulationResult>>({});
+  const [simulatingId, setSimulatingId] = useState<string | null>(null);
+  const [retryingRunId, setRetryingRunId] = useState<string | null>(null);
 
   const [form, setForm] = useState<WorkflowForm>(emptyForm());
 
@@ -153,12 +282,7 @@ export default function Workflows() {
       triggerFilters: w.trigger.filters
         ? Object.entries(w.trigger.filters).map(([key, value]) => ({ key, value: String(value) }))
         : [],
-      actions: w.actions.map((a) => ({
-        type: a.type as ActionType,
-        params: Object.fromEntries(
-          Object.entries(a.params).map(([k, v]) => [k, String(v)])
-        ),
-      })),
+      steps: workflowToSteps(w),
       enabled: w.enabled,
     });
     setEditingId(w.id);
@@ -170,8 +294,12 @@ export default function Workflows() {
       toast.error('Workflow name is required.');
       return;
     }
-    if (form.actions.length === 0) {
-      toast.error('At least one action is required.');
+    if (form.steps.length === 0) {
+      toast.error('At least one step is required.');
+      return;
+    }
+    if (form.steps.some((step) => step.type === 'goto' && !step.target)) {
+      toast.error('Every Go To step needs a target.');
       return;
     }
 
@@ -186,10 +314,13 @@ export default function Workflows() {
             ? Object.fromEntries(form.triggerFilters.filter((f) => f.key).map((f) => [f.key, f.value]))
             : undefined,
         },
-        actions: form.actions.map((a) => ({
-          type: a.type,
-          params: Object.fromEntries(Object.entries(a.params).filter(([, v]) => v)),
-        })),
+        // Plain action chains keep the original linear format
+        ...(isLinearChain(form.steps)
+          ? {
+              actions: form.steps.map((step) => actionToPayload(step.action)),
+              ...(editingId && { steps: null }),
+            }
+          : { steps: stepsToPayload(form.steps) }),
         enabled: form.enabled,
       };
 
@@ -252,37 +383,106 @@ export default function Workflows() {
     }
   }
 
+  async function simulateWorkflow(workflowId: string) {
+    setSimulatingId(workflowId);
+    setExpandedId(workflowId);
+    try {
+      const { data } = await api.post(`/workflows/${workflowId}/simulate`, { days: 7 });
+      setSimulations((prev) => ({ ...prev, [workflowId]: data }));
+    } catch {
+      toast.error('Failed to simulate workflow.');
+    } finally {
+      setSimulatingId(null);
+    }
+  }
+
+  async function retryRun(workflowId: string, runId: string) {
+    setRetryingRunId(runId);
+    try {
+      const { data } = await api.post(`/workflows/${workflowId}/runs/${runId}/retry`);
+      setRuns((prev) => ({
+        ...prev,
+        [workflowId]: (prev[workflowId] || []).map((r) => (r.id === runId ? data : r)),
+      }));
+      if (data.status === 'FAILED') {
+        toast.error('Retry failed again.');
+      } else {
+        toast.success('Run retried.');
+      }
+    } catch {
+      toast.error('Failed to retry run.');
+    } finally {
+      setRetryingRunId(null);
+    }
+  }
+
   // ---- Form helpers ----
 
-  function addAction() {
+  function addStep(type: StepType) {
     setForm((prev) => ({
       ...prev,
-      actions: [...prev.actions, { type: 'log', params: {} }],
+      steps: [...prev.steps, newStep(type, prev.steps)],
     }));
   }
 
-  function removeAction(index: number) {
-    setForm((prev) => ({
-      ...prev,
-      actions: prev.actions.filter((_, i) => i !== index),
-    }));
+  function removeStep(index: number) {
+    setForm((prev) => {
+      const removedId = prev.steps[index].id;
+      // Edges into the removed step fall through to whatever follows it
+      const redirect = (edge: string) => (edge === removedId ? NEXT_STEP : edge);
+      const steps = prev.steps
+        .filter((_, i) => i !== index)
+        .map((step) => ({
+          ...step,
+          next: redirect(step.next),
+          onTrue: redirect(step.onTrue),
+          onFalse: redirect(step.onFalse),
+          target: step.target === removedId ? '' : step.target,
+        }));
+      return { ...prev, steps };
+    });
+  }
+
+  function updateStep(index: number, patch: Partial<StepEntry>) {
+    setForm((prev) => {
+      const steps = [...prev.steps];
+      steps[index] = { ...steps[index], ...patch };
+      return { ...prev, steps };
+    });
   }
 
   function updateAction(index: number, field: 'type' | string, value: string) {
     setForm((prev) => {
-      const actions = [...prev.actions];
-      if (field === 'type') {
-        actions[index] = { type: value as ActionType, params: {} };
-      } else {
-        actions[index] = {
-          ...actions[index],
-          params: { ...actions[index].params, [field]: value },
-        };
-      }
-      return { ...prev, actions };
+      const steps = [...prev.steps];
+      const action = steps[index].action;
+      steps[index] = {
+        ...steps[index],
+        action: field === 'type'
+          ? { type: value as ActionType, params: {} }
+          : { ...action, params: { ...action.params, [field]: value } },
+      };
+      return { ...prev, steps };
     });
   }
 
+  function addCondition(index: number) {
+    updateStep(index, {
+      conditions: [...form.steps[index].conditions, { field: '', operator: 'eq', value: '' }],
+    });
+  }
+
+  function removeCondition(index: number, conditionIndex: number) {
+    updateStep(index, {
+      conditions: form.steps[index].conditions.filter((_, i) => i !== conditionIndex),
+    });
+  }
+
+  function updateCondition(index: number, conditionIndex: number, field: keyof ConditionEntry, value: string) {
+    const conditions = [...form.steps[index].conditions];
+    conditions[conditionIndex] = { ...conditions[conditionIndex], [field]: value };
+    updateStep(index, { conditions });
+  }
+
   function addFilter() {
     setForm((prev) => ({
       ...prev,
@@ -389,6 +589,14 @@ export default function Workflows() {
                     >
                       Runs
                     </button>
+                    <button
+                      onClick={() => simulateWorkflow(w.id)}
+                      disabled={simulatingId === w.id}
+                      className="text-xs text-gray-500 hover:text-gray-700 border border-gray-200 px-2.5 py-1 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                      title="Replay the last 7 days of events without running actions"
+                    >
+                      {simulatingId === w.id ? 'Simulating...' : 'Simulate'}
+                    </button>
                     <button
                       onClick={() => openEdit(w)}
                       className="text-xs text-indigo-600 hover:text-indigo-700 border border-indigo-200 px-2.5 py-1 rounded-lg hover:bg-indigo-50 transition-colors"
@@ -404,37 +612,58 @@ export default function Workflows() {
                   </div>
                 </div>
 
-                {/* Visual flow summary: trigger → actions */}
+                {/* Visual flow summary: trigger → steps */}
                 <div className="mt-3 flex items-center flex-wrap gap-1.5">
                   <span className="inline-flex items-center text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded font-medium">
                     {w.trigger.event.replace(/_/g, ' ')}
                   </span>
-                  {w.actions.length > 0 && (
-                    <svg className="w-4 h-4 text-gray-300 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M13.5 4.5L21 12m0 0l-7.5 7.5M21 12H3" />
-                    </svg>
-                  )}
-                  {w.actions.map((a, i) => {
-                    const meta = ACTION_TYPES.find((at) => at.value === a.type);
-                    return (
-                      <span key={i} className="inline-flex items-center gap-1">
-                        {i > 0 && (
-                          <svg className="w-3 h-3 text-gray-300 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M13.5 4.5L21 12m0 0l-7.5 7.5M21 12H3" />
-                          </svg>
-                        )}
-                        <span className={`text-xs px-2 py-0.5 rounded ${meta?.color || 'bg-gray-100 text-gray-600'}`}>
-                          {a.type.replace(/_/g, ' ')}
-                        </span>
+                  {workflowToSteps(w).map((step, i) => (
+                    <span key={step.id} className="inline-flex items-center gap-1">
+                      <svg className={`${i === 0 ? 'w-4 h-4' : 'w-3 h-3'} text-gray-300 flex-shrink-0`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M13.5 4.5L21 12m0 0l-7.5 7.5M21 12H3" />
+                      </svg>
+                      <span className={`text-xs px-2 py-0.5 rounded ${stepColor(step)}`}>
+                        {describeStep(step)}
                       </span>
-                    );
-                  })}
+                    </span>
+                  ))}
                 </div>
               </div>
 
               {/* Expanded runs */}
               {expandedId === w.id && (
                 <div className="border-t border-gray-100 px-5 py-4 bg-gray-50/50">
+                  {simulations[w.id] && (
+                    <div className="mb-4">
+                      <h4 className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wider">
+                        Simulation (last {simulations[w.id].window.days} days)
+                      </h4>
+                      {!simulations[w.id].supported ? (
+                        <p className="text-xs text-gray-400">
+                          Simulation is not available for this trigger.
+                        </p>
+                      ) : (
+                        <div className="bg-white rounded-lg border border-gray-100 px-3 py-2 text-xs text-gray-600 space-y-1">
+                          <p>
+                            {simulations[w.id].summary.eventsReplayed} events replayed |{' '}
+                            {simulations[w.id].summary.triggerMatched} matched trigger |{' '}
+                            {simulations[w.id].summary.conditionsMet} passed conditions
+                          </p>
+                          {Object.keys(simulations[w.id].summary.actionsWouldFire).length === 0 ? (
+                            <p className="text-gray-400">No actions would have fired.</p>
+                          ) : (
+                            <div className="flex flex-wrap gap-1.5">
+                              {Object.entries(simulations[w.id].summary.actionsWouldFire).map(([type, count]) => (
+                                <span key={type} className="bg-green-50 text-green-700 px-2 py-0.5 rounded">
+                                  {type.replace(/_/g, ' ')} x{count}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
                   <h4 className="text-xs font-semibold text-gray-700 mb-3 uppercase tracking-wider">
                     Recent Runs
                   </h4>
@@ -462,15 +691,31 @@ export default function Workflows() {
                             {run.duration != null && (
                               <span className="text-xs text-gray-400">{run.duration}ms</span>
                             )}
+                            {run.status === 'WAITING' && run.resumeAt && (
+                              <span className="text-xs text-amber-600">
+                                Resumes {new Date(run.resumeAt).toLocaleString()}
+                              </span>
+                            )}
                             {run.error && (
                               <span className="text-xs text-red-500 truncate max-w-[200px]" title={run.error}>
                                 {run.error}
                               </span>
                             )}
                           </div>
-                          <span className="text-xs text-gray-400">
-                            {new Date(run.createdAt).toLocaleString()}
-                          </span>
+                          <div className="flex items-center gap-2">
+                            {run.status === 'FAILED' && (
+                              <button
+                                onClick={() => retryRun(w.id, run.id)}
+                                disabled={retryingRunId === run.id}
+                                className="text-xs text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+                              >
+                                {retryingRunId === run.id ? 'Retrying...' : 'Retry'}
+                              </button>
+                            )}
+                            <span className="text-xs text-gray-400">
+                              {new Date(run.createdAt).toLocaleString()}
+                            </span>
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -609,27 +854,33 @@ export default function Workflows() {
               {/* Divider */}
               <hr className="border-gray-200" />
 
-              {/* Actions */}
+              {/* Steps */}
               <div>
                 <div className="flex items-center justify-between mb-2">
                   <label className="text-sm font-medium text-gray-700">...then do this</label>
-                  <button
-                    type="button"
-                    onClick={addAction}
-                    className="inline-flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-700 font-medium"
-                  >
-                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
-                    </svg>
-                    Add Action
-                  </button>
+                  <div className="flex items-center gap-3">
+                    {STEP_TYPES.map((st) => (
+                      <button
+                        key={st.value}
+                        type="button"
+                        onClick={() => addStep(st.value)}
+                        className="inline-flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-700 font-medium"
+                        title={st.description}
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+                        </svg>
+                        {st.label}
+                      </button>
+                    ))}
+                  </div>
                 </div>
-                {form.actions.length === 0 && (
+                {form.steps.length === 0 && (
                   <div className="border-2 border-dashed border-gray-200 rounded-lg p-6 text-center">
-                    <p className="text-sm text-gray-400">No actions configured.</p>
+                    <p className="text-sm text-gray-400">No steps configured.</p>
                     <button
                       type="button"
-                      onClick={addAction}
+                      onClick={() => addStep('action')}
                       className="mt-2 text-sm text-indigo-600 hover:text-indigo-700 font-medium"
                     >
                       Add your first action
@@ -637,10 +888,11 @@ export default function Workflows() {
                   </div>
                 )}
                 <div className="space-y-3">
-                  {form.actions.map((action, i) => {
-                    const actionMeta = ACTION_TYPES.find((at) => at.value === action.type);
+                  {form.steps.map((step, i) => {
+                    const stepMeta = STEP_TYPES.find((st) => st.value === step.type);
+                    const actionMeta = ACTION_TYPES.find((at) => at.value === step.action.type);
                     return (
-                      <div key={i}>
+                      <div key={step.id}>
                         {/* Visual flow connector */}
                         {i > 0 && (
                           <div className="flex justify-center py-1">
@@ -652,26 +904,39 @@ export default function Workflows() {
                         <div className="border border-gray-200 rounded-lg overflow-hidden">
                           <div className="flex items-center justify-between bg-gray-50 px-4 py-2.5 border-b border-gray-200">
                             <div className="flex items-center gap-2">
-                              <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${actionMeta?.color || 'bg-gray-100 text-gray-600'}`}>
+                              <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${stepMeta?.color || 'bg-gray-100 text-gray-600'}`}>
                                 Step {i + 1}
                               </span>
                               <select
-                                value={action.type}
-                                onChange={(e) => updateAction(i, 'type', e.target.value)}
+                                value={step.type}
+                                onChange={(e) => updateStep(i, { type: e.target.value as StepType })}
                                 className="border-0 bg-transparent text-sm font-medium text-gray-900 focus:ring-0 outline-none cursor-pointer pr-6"
                               >
-                                {ACTION_TYPES.map((at) => (
-                                  <option key={at.value} value={at.value}>
-                                    {at.label}
+                                {STEP_TYPES.map((st) => (
+                                  <option key={st.value} value={st.value}>
+                                    {st.label}
                                   </option>
                                 ))}
                               </select>
+                              {step.type === 'action' && (
+                                <select
+                                  value={step.action.type}
+                                  onChange={(e) => updateAction(i, 'type', e.target.value)}
+                                  className="border-0 bg-transparent text-sm text-gray-700 focus:ring-0 outline-none cursor-pointer pr-6"
+                                >
+                                  {ACTION_TYPES.map((at) => (
+                                    <option key={at.value} value={at.value}>
+                                      {at.label}
+                                    </option>
+                                  ))}
+                                </select>
+                              )}
                             </div>
                             <button
                               type="button"
-                              onClick={() => removeAction(i)}
+                              onClick={() => removeStep(i)}
                               className="text-gray-400 hover:text-red-500 transition-colors"
-                              title="Remove action"
+                              title="Remove step"
                             >
                               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                                 <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
@@ -679,21 +944,139 @@ export default function Workflows() {
                             </button>
                           </div>
                           <div className="p-4 space-y-3">
-                            {actionMeta && (
-                              <p className="text-xs text-gray-400">{actionMeta.description}</p>
+                            {step.type === 'action' && (
+                              <>
+                                {actionMeta && (
+                                  <p className="text-xs text-gray-400">{actionMeta.description}</p>
+                                )}
+                                {(ACTION_PARAM_HINTS[step.action.type] || []).map((param) => (
+                                  <div key={param.key}>
+                                    <label className="block text-xs font-medium text-gray-600 mb-1">{param.label}</label>
+                                    <input
+                                      type="text"
+                                      value={step.action.params[param.key] || ''}
+                                      onChange={(e) => updateAction(i, param.key, e.target.value)}
+                                      placeholder={param.placeholder}
+                                      className="w-full border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                                    />
+                                  </div>
+                                ))}
+                              </>
                             )}
-                            {(ACTION_PARAM_HINTS[action.type] || []).map((param) => (
-                              <div key={param.key}>
-                                <label className="block text-xs font-medium text-gray-600 mb-1">{param.label}</label>
+
+                            {step.type === 'wait' && (
+                              <div className="flex items-center gap-2">
+                                <span className="text-xs font-medium text-gray-600">Wait for</span>
                                 <input
-                                  type="text"
-                                  value={action.params[param.key] || ''}
-                                  onChange={(e) => updateAction(i, param.key, e.target.value)}
-                                  placeholder={param.placeholder}
-                                  className="w-full border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                                  type="number"
+                                  min={1}
+                                  value={step.wait.amount}
+                                  onChange={(e) => updateStep(i, { wait: { ...step.wait, amount: e.target.value } })}
+                                  className="w-24 border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
                                 />
+                                <select
+                                  value={step.wait.unit}
+                                  onChange={(e) => updateStep(i, { wait: { ...step.wait, unit: e.target.value as WaitUnit } })}
+                                  className="border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                                >
+                                  <option value="minutes">minutes</option>
+                                  <option value="hours">hours</option>
+                                  <option value="days">days</option>
+                                </select>
+                              </div>
+                            )}
+
+                            {step.type === 'branch' && (
+                              <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                  <p className="text-xs text-gray-400">
+                                    All conditions must match. Use <code>account.tier</code> or <code>deal.stage</code> for live values.
+                                  </p>
+                                  <button
+                                    type="button"
+                                    onClick={() => addCondition(i)}
+                                    className="text-xs text-indigo-600 hover:text-indigo-700 font-medium flex-shrink-0"
+                                  >
+                                    + Add Condition
+                                  </button>
+                                </div>
+                                {step.conditions.map((c, ci) => (
+                                  <div key={ci} className="flex items-center gap-2">
+                                    <input
+                                      type="text"
+                                      value={c.field}
+                                      onChange={(e) => updateCondition(i, ci, 'field', e.target.value)}
+                                      placeholder="Field (e.g. account.tier)"
+                                      className="flex-1 border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                                    />
+                                    <select
+                                      value={c.operator}
+                                      onChange={(e) => updateCondition(i, ci, 'operator', e.target.value)}
+                                      className="border border-gray-300 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                                    >
+                                      {CONDITION_OPERATORS.map((op) => (
+                                        <option key={op.value} value={op.value}>
+                                          {op.label}
+                                        </option>
+                                      ))}
+                                    </select>
+                                    <input
+                                      type="text"
+                                      value={c.value}
+                                      onChange={(e) => updateCondition(i, ci, 'value', e.target.value)}
+                                      placeholder="Value (e.g. HOT)"
+                                      className="flex-1 border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                                    />
+                                    <button
+                                      type="button"
+                                      onClick={() => removeCondition(i, ci)}
+                                      className="text-gray-400 hover:text-red-500 transition-colors"
+                                    >
+                                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                                      </svg>
+                                    </button>
+                                  </div>
+                                ))}
+                                <div className="grid grid-cols-2 gap-2">
+                                  <StepTargetSelect
+                                    label="If true, go to"
+                                    value={step.onTrue}
+                                    steps={form.steps}
+                                    index={i}
+                                    onChange={(value) => updateStep(i, { onTrue: value })}
+                                  />
+                                  <StepTargetSelect
+                                    label="Otherwise, go to"
+                                    value={step.onFalse}
+                                    steps={form.steps}
+                                    index={i}
+                                    onChange={(value) => updateStep(i, { onFalse: value })}
+                                  />
+                                </div>
                               </div>
-                            ))}
+                            )}
+
+                            {step.type === 'goto' && (
+                              <StepTargetSelect
+                                label="Jump to"
+                                value={step.target}
+                                steps={form.steps}
+                                index={i}
+                                allowFlow={false}
+                                onChange={(value) => updateStep(i, { target: value })}
+                              />
+                            )}
+
+                            {(step.type === 'action' || step.type === 'wait') && (
+                              <StepTargetSelect
+                                label="Then"
+                                value={step.next}
+                                steps={form.steps}
+                                index={i}
+                                onChange={(value) => updateStep(i, { next: value })}
+                              />
+                            )}
                           </div>
                         </div>
                       </div>
@@ -758,11 +1141,194 @@ function emptyForm(): WorkflowForm {
     description: '',
     triggerEvent: 'signal_received',
     triggerFilters: [],
-    actions: [{ type: 'log', params: {} }],
+    steps: [newStep('action', [])],
     enabled: true,
   };
 }
 
+function newStep(type: StepType, existing: StepEntry[]): StepEntry {
+  const taken = new Set(existing.map((s) => s.id));
+  let n = existing.length + 1;
+  while (taken.has(`step_${n}`)) n++;
+  return {
+    id: `step_${n}`,
+    type,
+    action: { type: 'log', params: {} },
+    wait: { amount: '1', unit: 'days' },
+    conditions: type === 'branch' ? [{ field: 'account.tier', operator: 'eq', value: 'HOT' }] : [],
+    next: NEXT_STEP,
+    onTrue: NEXT_STEP,
+    onFalse: END_STEP,
+    target: '',
+  };
+}
+
+/** Converts a stored workflow (graph or linear action list) into editor steps. */
+function workflowToSteps(w: Workflow): StepEntry[] {
+  const graph: WorkflowStep[] = w.steps && w.steps.length > 0
+    ? w.steps
+    : w.actions.map((action, i) => ({
+        id: `step_${i + 1}`,
+        type: 'action' as const,
+        action,
+        next: i < w.actions.length - 1 ? `step_${i + 2}` : null,
+      }));
+
+  // Edges that point at the following step are shown as "next step"
+  const edge = (target: string | null | undefined, i: number) => {
+    if (!target) return END_STEP;
+    return graph[i + 1]?.id === target ? NEXT_STEP : target;
+  };
+
+  return graph.map((step, i) => {
+    const entry = newStep(step.type, []);
+    entry.id = step.id;
+    switch (step.type) {
+      case 'action':
+        entry.action = {
+          type: step.action.type as ActionType,
+          params: Object.fromEntries(Object.entries(step.action.params).map(([k, v]) => [k, String(v)])),
+        };
+        entry.next = edge(step.next, i);
+        break;
+      case 'wait':
+        entry.wait = { amount: String(step.duration.amount), unit: step.duration.unit };
+        entry.next = edge(step.next, i);
+        break;
+      case 'branch':
+        entry.conditions = step.conditions.map((c) => ({
+          field: c.field,
+          operator: c.operator,
+          value: Array.isArray(c.value) ? c.value.join(', ') : String(c.value ?? ''),
+        }));
+        entry.onTrue = edge(step.onTrue, i);
+        entry.onFalse = edge(step.onFalse, i);
+        break;
+      case 'goto':
+        entry.target = step.target;
+        break;
+    }
+    return entry;
+  });
+}
+
+function actionToPayload(action: ActionEntry) {
+  return {
+    type: action.type,
+    params: Object.fromEntries(Object.entries(action.params).filter(([, v]) => v)),
+  };
+}
+
+function conditionValue(c: ConditionEntry): unknown {
+  if (NUMERIC_OPERATORS.includes(c.operator)) return Number(c.value);
+  if (c.operator === 'in') return c.value.split(',').map((v) => v.trim()).filter(Boolean);
+  return c.value;
+}
+
+/** True when the editor holds a plain action chain that fits the linear format. */
+function isLinearChain(steps: StepEntry[]): boolean {
+  return steps.every((step) => step.type === 'action' && step.next === NEXT_STEP);
+}
+
+function stepsToPayload(steps: StepEntry[]): WorkflowStep[] {
+  const resolve = (edge: string, i: number): string | null => {
+    if (edge === NEXT_STEP) return steps[i + 1]?.id ?? null;
+    if (edge === END_STEP) return null;
+    return edge;
+  };
+
+  return steps.map((step, i): WorkflowStep => {
+    switch (step.type) {
+      case 'action':
+        return { id: step.id, type: 'action', action: actionToPayload(step.action), next: resolve(step.next, i) };
+      case 'wait':
+        return {
+          id: step.id,
+          type: 'wait',
+          duration: { amount: Math.max(1, parseInt(step.wait.amount, 10) || 1), unit: step.wait.unit },
+          next: resolve(step.next, i),
+        };
+      case 'branch':
+        return {
+          id: step.id,
+          type: 'branch',
+          conditions: step.conditions
+            .filter((c) => c.field)
+            .map((c) => ({ field: c.field, operator: c.operator, value: conditionValue(c) })),
+          onTrue: resolve(step.onTrue, i),
+          onFalse: resolve(step.onFalse, i),
+        };
+      case 'goto':
+        return { id: step.id, type: 'goto', target: step.target };
+    }
+  });
+}
+
+function describeStep(step: StepEntry): string {
+  switch (step.type) {
+    case 'action':
+      return step.action.type.replace(/_/g, ' ');
+    case 'wait':
+      return `wait ${step.wait.amount} ${step.wait.unit}`;
+    case 'branch':
+      return step.conditions.length > 0
+        ? `if ${step.conditions.map((c) => `${c.field} ${c.operator} ${c.value}`).join(' and ')}`
+        : 'if / else';
+    case 'goto':
+      return `go to ${step.target || '?'}`;
+  }
+}
+
+function stepColor(step: StepEntry): string {
+  if (step.type === 'action') {
+    return ACTION_TYPES.find((at) => at.value === step.action.type)?.color || 'bg-gray-100 text-gray-600';
+  }
+  return STEP_TYPES.find((st) => st.value === step.type)?.color || 'bg-gray-100 text-gray-600';
+}
+
+function StepTargetSelect({
+  label,
+  value,
+  steps,
+  index,
+  allowFlow = true,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  steps: StepEntry[];
+  index: number;
+  allowFlow?: boolean;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+      >
+        {allowFlow ? (
+          <>
+            <option value={NEXT_STEP}>Next step</option>
+            <option value={END_STEP}>End workflow</option>
+          </>
+        ) : (
+          <option value="">Select a step...</option>
+        )}
+        {steps.map((s, i) =>
+          i === index ? null : (
+            <option key={s.id} value={s.id}>
+              Step {i + 1} ({STEP_TYPES.find((st) => st.value === s.type)?.label})
+            </option>
+          ),
+        )}
+      </select>
+    </div>
+  );
+}
+
 function ZapIcon({ className = 'w-5 h-5' }: { className?: string }) {
   return (
     <svg
@@ -58,6 +58,7 @@ export interface Contact {
   tags?: TagRelation[];
   deals?: Deal[];
   activities?: Activity[];
+  leadScore?: Pick<ContactScore, 'score' | 'tier' | 'trend'> | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -276,12 +277,34 @@ export interface Signal {
 export type ScoreTier = 'HOT' | 'WARM' | 'COLD' | 'INACTIVE';
 export type ScoreTrend = 'RISING' | 'STABLE' | 'FALLING';
 
+export interface ScoreContribution {
+  id: string;
+  label: string;
+  kind: 'factor' | 'rule';
+  points: number;
+  /** Points removed by decay (zero or negative). */
+  decay: number;
+  description: string;
+}
+
+export interface AccountScoreBreakdown {
+  source: 'pqa' | 'rules';
+  score: number;
+  contributions: ScoreContribution[];
+  decayTotal: number;
+  adjustment: number;
+  topSignalTypes: Array<{ type: string; count: number; weightedCount: number | null; lastSeenAt: string | null }>;
+  /** Individual signals carrying the most weight; missing on breakdowns stored before it existed. */
+  topSignals?: Array<{ id: string; type: string; timestamp: string; actorId: string | null; weight: number | null }>;
+}
+
 export interface AccountScore {
   id: string;
   accountId: string;
   score: number;
   tier: ScoreTier;
   factors: Array<{ name: string; weight: number; value: number; description: string }>;
+  breakdown?: AccountScoreBreakdown | null;
   signalCount: number;
   userCount: number;
   lastSignalAt?: string | null;
@@ -290,6 +313,18 @@ export interface AccountScore {
   account?: { id: string; name: string; domain?: string } | null;
 }
 
+export interface ContactScore {
+  id: string;
+  contactId: string;
+  score: number;
+  tier: ScoreTier;
+  factors: Array<{ name: string; weight: number; value: number; description: string }>;
+  signalCount: number;
+  lastSignalAt?: string | null;
+  trend: ScoreTrend;
+  computedAt: string;
+}
+
 export const TIER_COLORS: Record<ScoreTier, string> = {
   HOT: 'bg-red-100 text-red-700',
   WARM: 'bg-orange-100 text-orange-700',
@@ -20,3 +20,19 @@ export class SigscoreError extends Error {
     }
   }
 }
+
+/**
+ * Thrown by `verifyWebhook` when a delivery's headers are missing, its
+ * timestamp is outside the tolerance window or no signature matches.
+ */
+export class WebhookVerificationError extends Error {
+  public override readonly name = 'WebhookVerificationError';
+
+  constructor(message: string) {
+    super(message);
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, WebhookVerificationError);
+    }
+  }
+}
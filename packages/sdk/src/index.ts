@@ -78,4 +78,5 @@ export class Sigscore {
 
 // Re-export everything consumers might need
 export * from './types.js';
-export { SigscoreError } from './errors.js';
+export { SigscoreError, WebhookVerificationError } from './errors.js';
+export { verifyWebhook } from './resources/webhooks.js';
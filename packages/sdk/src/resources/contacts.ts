@@ -3,17 +3,19 @@ import type {
   Contact,
   ContactInput,
   ContactQueryParams,
+  ContactScore,
+  ContactScoreHistory,
   PaginatedResponse,
 } from '../types.js';
 
 /**
- * CRUD operations for contacts.
+ * CRUD operations and lead scores for contacts.
  */
 export class ContactsResource {
   constructor(private readonly client: HttpClient) {}
 
   /**
-   * List contacts with optional search and pagination.
+   * List contacts with optional search, lead score filters and pagination.
    */
   async list(params?: ContactQueryParams): Promise<PaginatedResponse<Contact>> {
     return this.client.get<PaginatedResponse<Contact>>(
@@ -56,4 +58,32 @@ export class ContactsResource {
       `/api/v1/contacts/${encodeURIComponent(id)}`,
     );
   }
+
+  /**
+   * Get the contact's most recently computed lead score.
+   */
+  async getScore(id: string): Promise<ContactScore> {
+    return this.client.get<ContactScore>(
+      `/api/v1/contacts/${encodeURIComponent(id)}/score`,
+    );
+  }
+
+  /**
+   * Recompute the contact's lead score from their recent signals.
+   */
+  async computeScore(id: string): Promise<ContactScore> {
+    return this.client.post<ContactScore>(
+      `/api/v1/contacts/${encodeURIComponent(id)}/score`,
+    );
+  }
+
+  /**
+   * Daily lead score snapshots for the contact (default last 30 days).
+   */
+  async getScoreHistory(id: string, days?: number): Promise<ContactScoreHistory> {
+    return this.client.get<ContactScoreHistory>(
+      `/api/v1/contacts/${encodeURIComponent(id)}/score/history`,
+      days !== undefined ? { days } : undefined,
+    );
+  }
 }
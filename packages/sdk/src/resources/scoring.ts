@@ -1,8 +1,15 @@
 import type { HttpClient } from '../client.js';
 import type {
+  CreateScoringModelParams,
   RecomputeResult,
   ScorePreview,
+  ScoringBacktestParams,
+  ScoringBacktestResult,
   ScoringConfig,
+  ScoringModel,
+  ScoringModelComparison,
+  SignalDecayConfig,
+  UpdateSignalDecayParams,
 } from '../types.js';
 
 /**
@@ -54,4 +61,60 @@ export class ScoringResource {
   async reset(): Promise<ScoringConfig> {
     return this.client.post<ScoringConfig>('/api/v1/scoring/reset');
   }
+
+  /**
+   * Get the effective signal decay half-lives, including custom signal types.
+   */
+  async getDecayConfig(): Promise<SignalDecayConfig> {
+    return this.client.get<SignalDecayConfig>('/api/v1/scoring/decay-config');
+  }
+
+  /**
+   * Replace the per-type half-life overrides. Account and contact scores are
+   * recomputed in the background when the effective values change.
+   */
+  async updateDecayConfig(params: UpdateSignalDecayParams): Promise<SignalDecayConfig> {
+    return this.client.put<SignalDecayConfig>('/api/v1/scoring/decay-config', params);
+  }
+
+  /**
+   * List named scoring models, primary first.
+   */
+  async listModels(): Promise<ScoringModel[]> {
+    const data = await this.client.get<{ models: ScoringModel[] }>('/api/v1/scoring/models');
+    return data.models;
+  }
+
+  /**
+   * Create a non-primary scoring model. Scores are computed in the background.
+   */
+  async createModel(params: CreateScoringModelParams): Promise<ScoringModel> {
+    return this.client.post<ScoringModel>('/api/v1/scoring/models', params);
+  }
+
+  /**
+   * Make a model primary and recompute live account scores with it.
+   */
+  async setPrimaryModel(modelId: string): Promise<{ model: ScoringModel; updated: number }> {
+    return this.client.post<{ model: ScoringModel; updated: number }>(
+      `/api/v1/scoring/models/${encodeURIComponent(modelId)}/primary`,
+    );
+  }
+
+  /**
+   * Compare two models: rank correlation and tier disagreements.
+   */
+  async compareModels(modelAId: string, modelBId: string): Promise<ScoringModelComparison> {
+    return this.client.get<ScoringModelComparison>('/api/v1/scoring/models/compare', {
+      a: modelAId,
+      b: modelBId,
+    });
+  }
+
+  /**
+   * Backtest a config against closed deals: precision and lift by tier, ROC/AUC.
+   */
+  async backtest(params: ScoringBacktestParams = {}): Promise<ScoringBacktestResult> {
+    return this.client.post<ScoringBacktestResult>('/api/v1/scoring/backtest', params);
+  }
 }
@@ -1,13 +1,96 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
 import type { HttpClient } from '../client.js';
+import { WebhookVerificationError } from '../errors.js';
 import type {
+  VerifyWebhookOptions,
   WebhookDelivery,
+  WebhookHeaders,
+  WebhookRotateSecretOptions,
   WebhookSubscription,
   WebhookSubscriptionInput,
   WebhookSubscriptionStatus,
   WebhookSubscriptionUpdate,
   WebhookTestResult,
+  WebhookTransformPreview,
+  WebhookTransformPreviewInput,
 } from '../types.js';
 
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+function readHeader(headers: WebhookHeaders, name: string): string | undefined {
+  if (typeof headers.get === 'function') {
+    return (headers as { get(name: string): string | null }).get(name) ?? undefined;
+  }
+  const record = headers as Record<string, string | string[] | undefined>;
+  const key = Object.keys(record).find((k) => k.toLowerCase() === name);
+  const value = key !== undefined ? record[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function secretKey(secret: string): Buffer {
+  return Buffer.from(secret.startsWith('whsec_') ? secret.slice(6) : secret, 'base64');
+}
+
+/**
+ * Verify a Sigscore webhook delivery using the Standard Webhooks scheme and
+ * return the parsed payload.
+ *
+ * Pass the raw request body exactly as received. `secret` may be an array to
+ * accept either secret while you roll out a rotation; during the server-side
+ * grace period deliveries are signed with both the old and the new secret.
+ *
+ * @throws WebhookVerificationError when headers are missing, the timestamp is
+ * outside `toleranceSeconds` or no signature matches.
+ *
+ * @example
+ * ```ts
+ * app.post('/hook', express.raw({ type: 'application/json' }), (req, res) => {
+ *   const event = verifyWebhook(req.body, req.headers, process.env.SIGSCORE_WEBHOOK_SECRET!);
+ *   res.sendStatus(204);
+ * });
+ * ```
+ */
+export function verifyWebhook<T = unknown>(
+  payload: string | Buffer,
+  headers: WebhookHeaders,
+  secret: string | string[],
+  options: VerifyWebhookOptions = {},
+): T {
+  const messageId = readHeader(headers, 'webhook-id');
+  const timestamp = readHeader(headers, 'webhook-timestamp');
+  const signatures = readHeader(headers, 'webhook-signature');
+
+  if (!messageId || !timestamp || !signatures) {
+    throw new WebhookVerificationError('Missing webhook-id, webhook-timestamp or webhook-signature header');
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isInteger(sentAt)) {
+    throw new WebhookVerificationError('Invalid webhook-timestamp header');
+  }
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  if (Math.abs(now - sentAt) > tolerance) {
+    throw new WebhookVerificationError('Webhook timestamp is outside the tolerance window');
+  }
+
+  const body = typeof payload === 'string' ? payload : payload.toString('utf8');
+  const signedContent = `${messageId}.${sentAt}.${body}`;
+  const received = signatures
+    .split(' ')
+    .filter((entry) => entry.startsWith('v1,'))
+    .map((entry) => Buffer.from(entry.slice(3), 'base64'));
+
+  for (const candidate of Array.isArray(secret) ? secret : [secret]) {
+    const expected = createHmac('sha256', secretKey(candidate)).update(signedContent).digest();
+    if (received.some((sig) => sig.length === expected.length && timingSafeEqual(sig, expected))) {
+      return JSON.parse(body) as T;
+    }
+  }
+
+  throw new WebhookVerificationError('No matching webhook signature');
+}
+
 /**
  * Manage webhook subscriptions (Zapier/Make REST Hook pattern).
  */
@@ -44,7 +127,8 @@ export class WebhooksResource {
   }
 
   /**
-   * Update a webhook subscription (toggle active status).
+   * Update a webhook subscription (toggle active status, set or clear the
+   * client certificate).
    */
   async update(id: string, data: WebhookSubscriptionUpdate): Promise<WebhookSubscription> {
     return this.client.put<WebhookSubscription>(
@@ -62,6 +146,40 @@ export class WebhooksResource {
     );
   }
 
+  /**
+   * Run a payload transform against an event's sample payload without
+   * saving it. Errors come back in the result with their position.
+   */
+  async previewTransform(data: WebhookTransformPreviewInput): Promise<WebhookTransformPreview> {
+    return this.client.post<WebhookTransformPreview>(
+      '/api/v1/webhooks/subscribe/transform/preview',
+      data,
+    );
+  }
+
+  /**
+   * Issue a new signing secret. The old secret keeps signing alongside the
+   * new one for `graceHours` so receivers can switch without dropping events.
+   */
+  async rotateSecret(id: string, options: WebhookRotateSecretOptions = {}): Promise<WebhookSubscription> {
+    return this.client.post<WebhookSubscription>(
+      `/api/v1/webhooks/subscribe/${encodeURIComponent(id)}/rotate-secret`,
+      options,
+    );
+  }
+
+  /**
+   * Verify an incoming delivery and return its payload. See {@link verifyWebhook}.
+   */
+  verifyWebhook<T = unknown>(
+    payload: string | Buffer,
+    headers: WebhookHeaders,
+    secret: string | string[],
+    options?: VerifyWebhookOptions,
+  ): T {
+    return verifyWebhook<T>(payload, headers, secret, options);
+  }
+
   /**
    * Send a test webhook payload to verify the endpoint is reachable.
    */
@@ -24,6 +24,8 @@ export interface Contact {
   github?: string;
   linkedIn?: string;
   twitter?: string;
+  /** Present on list results once a lead score has been computed. */
+  leadScore?: Pick<ContactScore, 'score' | 'tier' | 'trend'> | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -77,12 +79,38 @@ export interface ScoreFactor {
   description: string;
 }
 
+export interface ScoreContribution {
+  /** Factor name (built-in model) or scoring rule id. */
+  id: string;
+  label: string;
+  kind: 'factor' | 'rule';
+  /** Points before decay. */
+  points: number;
+  /** Points removed by decay (zero or negative). */
+  decay: number;
+  description: string;
+}
+
+export interface ScoreBreakdown {
+  source: 'pqa' | 'rules';
+  score: number;
+  contributions: ScoreContribution[];
+  decayTotal: number;
+  /** Rounding and capping, so points + decay + adjustment equals score. */
+  adjustment: number;
+  topSignalTypes: Array<{ type: string; count: number; weightedCount: number | null; lastSeenAt: string | null }>;
+  /** Individual signals carrying the most weight; missing on breakdowns stored before it existed. */
+  topSignals?: Array<{ id: string; type: string; timestamp: string; actorId: string | null; weight: number | null }>;
+}
+
 export interface AccountScore {
   id: string;
   accountId: string;
   score: number;
   tier: ScoreTier;
   factors: ScoreFactor[];
+  /** Explainable breakdown; null for scores computed before it existed. */
+  breakdown?: ScoreBreakdown | null;
   signalCount: number;
   userCount: number;
   lastSignalAt?: string;
@@ -90,6 +118,24 @@ export interface AccountScore {
   computedAt: string;
 }
 
+export interface ContactScore {
+  id: string;
+  contactId: string;
+  score: number;
+  tier: ScoreTier;
+  factors: ScoreFactor[];
+  signalCount: number;
+  lastSignalAt?: string;
+  trend: ScoreTrend;
+  computedAt: string;
+}
+
+export interface ContactScoreHistory {
+  contactId: string;
+  days: number;
+  snapshots: Array<{ id: string; score: number; tier: ScoreTier; capturedAt: string }>;
+}
+
 export interface Activity {
   id: string;
   type: string;
@@ -177,6 +223,10 @@ export interface SignalQueryParams extends ListParams {
 export interface ContactQueryParams extends ListParams {
   search?: string;
   companyId?: string;
+  leadTier?: ScoreTier;
+  minLeadScore?: number;
+  sortField?: 'firstName' | 'lastName' | 'email' | 'title' | 'createdAt' | 'updatedAt' | 'leadScore';
+  sortDirection?: 'asc' | 'desc';
 }
 
 export interface CompanyQueryParams extends ListParams {
@@ -250,19 +300,38 @@ export type WebhookEventType =
   | 'signal.created'
   | 'contact.created'
   | 'contact.updated'
+  | 'contact.merged'
   | 'company.created'
   | 'company.updated'
+  | 'company.merged'
   | 'deal.created'
   | 'deal.updated'
-  | 'score.changed';
+  | 'deal.stage_changed'
+  | 'deal.closed'
+  | 'note.created'
+  | 'score.changed'
+  | 'tier.changed'
+  | 'contact.score_changed'
+  | 'anomaly.detected'
+  | 'alert.triggered'
+  | 'workflow.run_failed'
+  | 'enrichment.completed';
 
 export interface WebhookSubscription {
   id: string;
   targetUrl: string;
   event: WebhookEventType;
   active: boolean;
+  /** Current signing secret (`whsec_...`) */
   secret: string;
   hookId?: string;
+  /** Payload transform expression, if set */
+  transform?: string | null;
+  /** True while a rotated-out secret still signs alongside `secret` */
+  previousSecretActive?: boolean;
+  previousSecretExpiresAt?: string | null;
+  /** True when deliveries present a client certificate (mutual TLS) */
+  hasClientCertificate?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -271,10 +340,61 @@ export interface WebhookSubscriptionInput {
   targetUrl: string;
   event: WebhookEventType;
   hookId?: string;
+  /**
+   * JSONata-style expression that builds the delivered payload from the
+   * default envelope (`event`, `timestamp`, `organizationId`, `data`).
+   */
+  transform?: string;
+  /** PEM client certificate for endpoints that require mutual TLS (set with clientKey) */
+  clientCert?: string;
+  /** PEM private key for clientCert */
+  clientKey?: string;
 }
 
 export interface WebhookSubscriptionUpdate {
-  active: boolean;
+  active?: boolean;
+  /** Set a payload transform, or null to remove it */
+  transform?: string | null;
+  /** Set both to configure mutual TLS, or both to null to turn it off */
+  clientCert?: string | null;
+  clientKey?: string | null;
+}
+
+export interface WebhookTransformPreviewInput {
+  event: WebhookEventType;
+  transform: string;
+  /** Event data to run against instead of the event's sample payload */
+  data?: Record<string, unknown>;
+}
+
+export interface WebhookTransformPreview {
+  success: boolean;
+  input: Record<string, unknown>;
+  output: Record<string, unknown> | null;
+  error: string | null;
+  /** Character offset of the error in the expression */
+  position: number | null;
+  duration: number;
+}
+
+export interface WebhookRotateSecretOptions {
+  /** Hours the old secret keeps signing alongside the new one (default 24, max 168, 0 = none) */
+  graceHours?: number;
+}
+
+/**
+ * Incoming request headers: a Node `IncomingHttpHeaders` object, a plain
+ * record, or a fetch `Headers` instance.
+ */
+export type WebhookHeaders =
+  | Record<string, string | string[] | undefined>
+  | { get(name: string): string | null };
+
+export interface VerifyWebhookOptions {
+  /** Maximum age (and clock skew) of `webhook-timestamp` in seconds. Default 300. */
+  toleranceSeconds?: number;
+  /** Clock used for the timestamp check; defaults to the current time. */
+  now?: Date;
 }
 
 export interface WebhookTestResult {
@@ -395,10 +515,15 @@ export interface AlertHistoryResponse {
 // Scoring config types
 // ---------------------------------------------------------------------------
 
+/**
+ * `field` is `signal_count`, `user_count`, `total_signals`, a
+ * `metadata.<path>` into signal metadata, or `company.size` /
+ * `company.industry` / `company.domain` / `company.custom.<fieldName>`.
+ */
 export interface ScoringCondition {
   field: string;
-  operator: 'gt' | 'lt' | 'eq' | 'contains';
-  value: string;
+  operator: 'gt' | 'lt' | 'eq' | 'contains' | 'in' | 'regex' | 'exists' | 'between';
+  value: string | number | boolean | Array<string | number>;
 }
 
 export type ScoringDecay = 'none' | '7d' | '14d' | '30d' | '90d';
@@ -424,6 +549,36 @@ export interface ScoringConfig {
   rules: ScoringRule[];
   tierThresholds: TierThresholds;
   maxScore: number;
+  /** Per-signal-type decay half-life overrides, in days (0.5-365). Kept when omitted. */
+  halfLives?: Record<string, number>;
+  /** Half-life for signal types without an override or built-in value. */
+  defaultHalfLife?: number;
+}
+
+export interface SignalDecayConfig {
+  /** Effective half-life for every known signal type. */
+  halfLives: Record<string, number>;
+  overrides: Record<string, number>;
+  defaultHalfLife: number;
+  builtInDefaultHalfLife: number;
+  signalTypes: Array<{
+    type: string;
+    halfLife: number;
+    source: 'override' | 'built_in' | 'default';
+    builtInHalfLife: number | null;
+    /** Signals of this type in the last 90 days. */
+    signalCount: number;
+  }>;
+  decayFormula: string;
+  windowDays: number;
+  exampleCurves: Record<string, Array<{ day: number; weight: number }>>;
+}
+
+export interface UpdateSignalDecayParams {
+  /** Replaces all overrides; pass `{}` to clear them. */
+  halfLives: Record<string, number>;
+  /** Kept when omitted; `null` resets it to the built-in default. */
+  defaultHalfLife?: number | null;
 }
 
 export interface ScorePreview {
@@ -439,6 +594,86 @@ export interface RecomputeResult {
   config: ScoringConfig;
 }
 
+export interface ScoringModel {
+  id: string;
+  name: string;
+  description: string | null;
+  config: ScoringConfig;
+  /** The primary model drives tiers, alerts and webhooks. */
+  isPrimary: boolean;
+  lastComputedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateScoringModelParams {
+  name: string;
+  description?: string | null;
+  config?: ScoringConfig;
+  copyFromModelId?: string;
+}
+
+export interface ScoringModelComparison {
+  modelA: { id: string; name: string; lastComputedAt: string | null };
+  modelB: { id: string; name: string; lastComputedAt: string | null };
+  accounts: number;
+  rankCorrelation: number | null;
+  tierAgreement: number | null;
+  tierMatrix: Record<ScoreTier, Record<ScoreTier, number>>;
+  disagreementCount: number;
+  disagreements: Array<{
+    accountId: string;
+    accountName: string;
+    scoreA: number;
+    scoreB: number;
+    tierA: ScoreTier;
+    tierB: ScoreTier;
+    rankA: number;
+    rankB: number;
+  }>;
+}
+
+export interface ScoringBacktestParams {
+  /** Config to test; defaults to the saved model or live config. */
+  config?: ScoringConfig;
+  modelId?: string;
+  /** Score accounts this many days before their deal closed (default 30). */
+  leadDays?: number;
+  /** Only replay deals closed within this many days (default 365). */
+  lookbackDays?: number;
+}
+
+export interface ScoringBacktestResult {
+  leadDays: number;
+  lookbackDays: number;
+  deals: number;
+  won: number;
+  lost: number;
+  skipped: number;
+  baseWinRate: number | null;
+  tiers: Array<{
+    tier: ScoreTier;
+    deals: number;
+    won: number;
+    lost: number;
+    precision: number | null;
+    lift: number | null;
+  }>;
+  auc: number | null;
+  roc: Array<{ threshold: number; tpr: number; fpr: number }>;
+  samples: Array<{
+    dealId: string;
+    dealTitle: string;
+    companyId: string;
+    companyName: string;
+    outcome: 'WON' | 'LOST';
+    closedAt: string;
+    scoredAt: string;
+    score: number;
+    tier: ScoreTier;
+  }>;
+}
+
 // ---------------------------------------------------------------------------
 // Client options
 // ---------------------------------------------------------------------------